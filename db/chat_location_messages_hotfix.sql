@@ -0,0 +1,15 @@
+-- Chat location messages hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add social_messages.location. It holds the shared pin as
+--    { label, latitude, longitude, address, church_id }.
+-- 2) church_id marks a "meet at church" pin. The app looks up the next Mass when it shows the card.
+--
+-- If the column is missing, the app adds a maps link to the message text instead.
+
+begin;
+
+alter table if exists public.social_messages
+  add column if not exists location jsonb;
+
+commit;
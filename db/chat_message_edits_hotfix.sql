@@ -0,0 +1,138 @@
+-- Chat message edits hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add social_messages.edited_at so edited messages show "(diedit)".
+-- 2) Add public.social_message_edits to keep the content each edit replaced.
+-- 3) Replace the baseline social_messages_update_sender_only policy from
+--    web_mobile_admin_sync.sql with one that lets senders update their own text
+--    messages only within 15 minutes (CHAT_SETTINGS.EDIT_WINDOW_MINUTES). Permissive
+--    policies are ORed, so the edit window only holds once the old policy is gone.
+--    A BEFORE UPDATE trigger rejects client updates to anything but the content,
+--    since RLS cannot limit which columns change. Updates that only touch the read
+--    flag (mark_messages_as_read marks other members' messages) pass through.
+-- 4) Publish social_messages updates over realtime so other members see edits live.
+--
+-- Requires public.is_chat_member from rls_hotfix_chat_members_recursion.sql.
+-- The app still saves edits when edited_at or the history table is missing. It just
+-- loses the marker or the history.
+
+begin;
+
+alter table if exists public.social_messages
+  add column if not exists edited_at timestamptz;
+
+create table if not exists public.social_message_edits (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.social_messages(id) on delete cascade,
+  editor_id uuid not null references public.profiles(id) on delete cascade,
+  previous_content text not null default '',
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists idx_social_message_edits_message
+  on public.social_message_edits (message_id, edited_at);
+
+grant select, insert on table public.social_message_edits to authenticated;
+alter table public.social_message_edits enable row level security;
+
+drop policy if exists social_message_edits_select_chat_scope on public.social_message_edits;
+create policy social_message_edits_select_chat_scope
+on public.social_message_edits
+for select
+to authenticated
+using (
+  exists (
+    select 1
+    from public.social_messages sm
+    where sm.id = social_message_edits.message_id
+      and public.is_chat_member(sm.chat_id, auth.uid())
+  )
+);
+
+drop policy if exists social_message_edits_insert_sender on public.social_message_edits;
+create policy social_message_edits_insert_sender
+on public.social_message_edits
+for insert
+to authenticated
+with check (
+  editor_id = auth.uid()
+  and exists (
+    select 1
+    from public.social_messages sm
+    where sm.id = social_message_edits.message_id
+      and sm.sender_id = auth.uid()
+  )
+);
+
+drop policy if exists social_messages_update_sender_only on public.social_messages;
+drop policy if exists social_messages_update_sender_edit_window on public.social_messages;
+create policy social_messages_update_sender_edit_window
+on public.social_messages
+for update
+to authenticated
+using (
+  sender_id = auth.uid()
+  and coalesce(message_type, 'text') = 'text'
+  and created_at > now() - interval '15 minutes'
+)
+with check (
+  sender_id = auth.uid()
+  and public.is_chat_member(social_messages.chat_id, auth.uid())
+);
+
+create or replace function public.guard_social_message_edit()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  -- Service-role jobs run without a user and are not limited.
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  -- mark_messages_as_read is security definer but still runs as the reader, so
+  -- its is_read updates on other members' messages must not count as edits.
+  if (to_jsonb(new) - array['is_read', 'updated_at'])
+    is not distinct from (to_jsonb(old) - array['is_read', 'updated_at']) then
+    return new;
+  end if;
+
+  if old.sender_id is distinct from auth.uid()
+    or coalesce(old.message_type, 'text') <> 'text'
+    or old.created_at <= now() - interval '15 minutes' then
+    raise exception 'message can only be edited by its sender within 15 minutes';
+  end if;
+
+  if (to_jsonb(new) - array['content', 'edited_at', 'updated_at'])
+    is distinct from (to_jsonb(old) - array['content', 'edited_at', 'updated_at']) then
+    raise exception 'only the message content can be edited';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_social_messages_guard_edit on public.social_messages;
+
+create trigger trg_social_messages_guard_edit
+before update on public.social_messages
+for each row
+execute function public.guard_social_message_edit();
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1
+      from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = 'social_messages'
+    ) then
+    execute 'alter publication supabase_realtime add table public.social_messages';
+  end if;
+end;
+$$;
+
+commit;
@@ -0,0 +1,44 @@
+-- Chat presence hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add public.user_presence to store last_seen_at and the show_last_seen privacy toggle.
+-- 2) Hide another user's last seen when they turn show_last_seen off.
+--
+-- Online state and "sedang mengetik…" go over Supabase Realtime presence and broadcast,
+-- so they need no tables. Without this table the app shows online state only.
+
+begin;
+
+create table if not exists public.user_presence (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  last_seen_at timestamptz not null default now(),
+  show_last_seen boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+grant select, insert, update on table public.user_presence to authenticated;
+alter table public.user_presence enable row level security;
+
+drop policy if exists user_presence_select_visible on public.user_presence;
+create policy user_presence_select_visible
+on public.user_presence
+for select
+to authenticated
+using (user_id = auth.uid() or show_last_seen = true);
+
+drop policy if exists user_presence_insert_self on public.user_presence;
+create policy user_presence_insert_self
+on public.user_presence
+for insert
+to authenticated
+with check (user_id = auth.uid());
+
+drop policy if exists user_presence_update_self on public.user_presence;
+create policy user_presence_update_self
+on public.user_presence
+for update
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+commit;
@@ -0,0 +1,75 @@
+-- Chat read receipts hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add chat_members.read_receipt_at. This is the read position other members see.
+--    last_read_at stays private to the member and drives their own unread divider.
+-- 2) Add profiles.read_receipts_enabled. When it is off, the app stops moving
+--    read_receipt_at, and the user also stops seeing other members' receipts.
+-- 3) Publish chat_members updates over realtime so senders see receipts live.
+-- 4) Stop exposing last_read_at to other members. authenticated loses SELECT on
+--    that column only, and each member reads their own position through
+--    get_chat_last_read_at. Re-run this file after adding columns to
+--    chat_members so the column grant picks them up.
+--
+-- Without read_receipt_at the app reports receipts as unavailable.
+
+begin;
+
+alter table if exists public.chat_members
+  add column if not exists read_receipt_at timestamptz;
+
+update public.chat_members
+set read_receipt_at = last_read_at
+where read_receipt_at is null
+  and last_read_at is not null;
+
+alter table if exists public.profiles
+  add column if not exists read_receipts_enabled boolean not null default true;
+
+do $$
+declare
+  v_columns text;
+begin
+  select string_agg(quote_ident(column_name), ', ' order by ordinal_position)
+  into v_columns
+  from information_schema.columns
+  where table_schema = 'public'
+    and table_name = 'chat_members'
+    and column_name <> 'last_read_at';
+
+  execute 'revoke select on table public.chat_members from authenticated';
+  execute format('grant select (%s) on table public.chat_members to authenticated', v_columns);
+end;
+$$;
+
+create or replace function public.get_chat_last_read_at(p_chat_id uuid)
+returns timestamptz
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select cm.last_read_at
+  from public.chat_members cm
+  where cm.chat_id = p_chat_id
+    and cm.user_id = auth.uid();
+$$;
+
+grant execute on function public.get_chat_last_read_at(uuid) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1
+      from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = 'chat_members'
+    ) then
+    execute 'alter publication supabase_realtime add table public.chat_members';
+  end if;
+end;
+$$;
+
+commit;
@@ -0,0 +1,18 @@
+-- Chat voice notes hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add social_messages.media_duration (seconds) for recorded voice notes.
+--    Browsers often report an unknown duration for recorded webm audio.
+-- 2) Add social_messages.waveform. It stores the normalized bars that the inline player draws.
+--
+-- If these columns are missing, the app drops them on insert and shows a generic waveform.
+
+begin;
+
+alter table if exists public.social_messages
+  add column if not exists media_duration numeric(6, 1);
+
+alter table if exists public.social_messages
+  add column if not exists waveform jsonb;
+
+commit;
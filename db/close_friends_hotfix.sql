@@ -0,0 +1,92 @@
+-- Close friends & story audience hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add public.close_friends (owner user_id -> friend_id) managed from Settings > Teman Dekat.
+-- 2) Only the owner can read/write their list; a friend may read rows naming them so
+--    the app can tell which close-friends stories they are allowed to see.
+-- 3) Enforce stories.audience in the stories select policy (followers / close_friends / everyone).
+--
+-- The app also filters by audience client-side, so older databases keep working.
+
+begin;
+
+create table if not exists public.close_friends (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  friend_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, friend_id),
+  constraint close_friends_not_self check (user_id <> friend_id)
+);
+
+create index if not exists idx_close_friends_friend on public.close_friends (friend_id);
+
+grant select, insert, delete on table public.close_friends to authenticated;
+alter table public.close_friends enable row level security;
+
+drop policy if exists close_friends_select_scope on public.close_friends;
+create policy close_friends_select_scope
+on public.close_friends
+for select
+to authenticated
+using (user_id = auth.uid() or friend_id = auth.uid());
+
+-- Only followers can be added, matching the settings picker.
+drop policy if exists close_friends_insert_self on public.close_friends;
+create policy close_friends_insert_self
+on public.close_friends
+for insert
+to authenticated
+with check (
+  user_id = auth.uid()
+  and exists (
+    select 1
+    from public.follows f
+    where f.follower_id = close_friends.friend_id
+      and f.following_id = auth.uid()
+  )
+);
+
+drop policy if exists close_friends_delete_self on public.close_friends;
+create policy close_friends_delete_self
+on public.close_friends
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+alter table public.stories
+  add column if not exists audience text not null default 'followers';
+
+drop policy if exists stories_select_active_or_owner on public.stories;
+create policy stories_select_active_or_owner
+on public.stories
+for select
+to authenticated
+using (
+  user_id = auth.uid()
+  or (
+    (expires_at is null or expires_at > now())
+    and (
+      audience = 'everyone'
+      or (
+        audience = 'close_friends'
+        and exists (
+          select 1
+          from public.close_friends cf
+          where cf.user_id = stories.user_id
+            and cf.friend_id = auth.uid()
+        )
+      )
+      or (
+        coalesce(audience, 'followers') not in ('everyone', 'close_friends')
+        and exists (
+          select 1
+          from public.follows f
+          where f.follower_id = auth.uid()
+            and f.following_id = stories.user_id
+        )
+      )
+    )
+  )
+);
+
+commit;
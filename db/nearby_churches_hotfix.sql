@@ -0,0 +1,75 @@
+-- Nearby churches hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) nearby_churches(): church rows within p_radius_km of a point with their haversine
+--    distance, nearest first. The limit applies after the distance sort, so a dense city
+--    never pushes the nearest parish out of the result.
+-- 2) Index churches by coordinates for the bounding-box pre-filter.
+--
+-- Without the RPC the app pages through the bounding box and sorts by distance itself.
+
+begin;
+
+create index if not exists idx_churches_latitude_longitude
+  on public.churches (latitude, longitude);
+
+create or replace function public.nearby_churches(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_radius_km double precision,
+  p_limit int default 500
+)
+returns table (church jsonb, distance_km double precision)
+language sql
+stable
+set search_path = public
+as $$
+  with params as (
+    select
+      p_radius_km / 6371.0 * 180.0 / pi() as latitude_delta,
+      p_radius_km / 6371.0 * 180.0 / pi() / greatest(cos(radians(p_latitude)), 0.01) as longitude_delta
+  ),
+  candidates as (
+    select
+      c.id,
+      to_jsonb(c) as church,
+      c.latitude::double precision as latitude,
+      c.longitude::double precision as longitude
+    from public.churches c, params
+    where c.latitude is not null
+      and c.longitude is not null
+      and c.latitude::double precision between p_latitude - params.latitude_delta and p_latitude + params.latitude_delta
+      and c.longitude::double precision between p_longitude - params.longitude_delta and p_longitude + params.longitude_delta
+  ),
+  measured as (
+    select
+      candidates.id,
+      candidates.church,
+      2 * 6371.0 * asin(least(1.0, sqrt(
+        power(sin(radians(candidates.latitude - p_latitude) / 2), 2)
+        + cos(radians(p_latitude)) * cos(radians(candidates.latitude))
+          * power(sin(radians(candidates.longitude - p_longitude) / 2), 2)
+      ))) as distance_km
+    from candidates
+  )
+  select measured.church, measured.distance_km
+  from measured
+  where measured.distance_km <= p_radius_km
+  order by measured.distance_km asc, measured.id asc
+  limit greatest(1, least(coalesce(p_limit, 500), 1000));
+$$;
+
+grant execute on function public.nearby_churches(double precision, double precision, double precision, int)
+  to anon, authenticated;
+
+-- Refresh PostgREST schema cache.
+do $$
+begin
+  perform pg_notify('pgrst', 'reload schema');
+exception
+  when others then
+    null;
+end;
+$$;
+
+commit;
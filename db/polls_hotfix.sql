@@ -0,0 +1,385 @@
+-- Polls hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add public.polls and public.poll_votes for chat and post polls. Options are stored
+--    on the poll as jsonb [{ id, label }]. Votes reference the option id.
+-- 2) Link polls from social_messages.poll_id and posts.poll_id.
+-- 3) Bump polls.votes_updated_at on every vote change. Clients subscribe to poll
+--    updates, so live results never expose voter ids on anonymous polls.
+-- 4) get_poll_votes(): returns votes for a poll. On anonymous polls only the caller's own
+--    votes are returned; get_poll_tally() gives the per-option counts without voter ids.
+-- 5) vote_poll(): replaces the caller's votes in one transaction. It refuses closed polls,
+--    unknown options and more than one option on single-choice polls. Direct writes to
+--    poll_votes are revoked, and a trigger still enforces single choice on every insert.
+-- 6) Poll updates are limited to linking post_id once and setting closed_at once.
+-- 7) close_poll(): the creator can close early. Returns true only for the call that
+--    closed the poll. Polls that reach closes_at are closed by the scheduled
+--    /api/polls/close job (POLL_CLOSE_CRON_SECRET), which notifies the creator once.
+--
+-- Without these objects the app shows "Fitur polling belum tersedia" instead of creating a poll.
+
+begin;
+
+create table if not exists public.polls (
+  id uuid primary key default gen_random_uuid(),
+  creator_id uuid not null references public.profiles(id) on delete cascade,
+  question text not null check (char_length(question) between 1 and 200),
+  options jsonb not null default '[]'::jsonb,
+  allow_multiple boolean not null default false,
+  is_anonymous boolean not null default false,
+  closes_at timestamptz,
+  closed_at timestamptz,
+  chat_id uuid references public.social_chats(id) on delete cascade,
+  post_id uuid references public.posts(id) on delete cascade,
+  votes_updated_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_polls_chat_id on public.polls(chat_id);
+create index if not exists idx_polls_post_id on public.polls(post_id);
+create index if not exists idx_polls_due on public.polls(closes_at) where closed_at is null;
+
+create table if not exists public.poll_votes (
+  poll_id uuid not null references public.polls(id) on delete cascade,
+  option_id text not null,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (poll_id, option_id, user_id)
+);
+
+create index if not exists idx_poll_votes_user on public.poll_votes(user_id);
+
+alter table if exists public.social_messages
+  add column if not exists poll_id uuid references public.polls(id) on delete set null;
+
+alter table if exists public.posts
+  add column if not exists poll_id uuid references public.polls(id) on delete set null;
+
+create or replace function public.can_view_poll(p_poll_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.polls p
+    where p.id = p_poll_id
+      and (p.chat_id is null or public.is_chat_member(p.chat_id, auth.uid()))
+  );
+$$;
+
+create or replace function public.is_poll_open(p_poll_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.polls p
+    where p.id = p_poll_id
+      and p.closed_at is null
+      and (p.closes_at is null or p.closes_at > now())
+  );
+$$;
+
+grant execute on function public.can_view_poll(uuid) to authenticated;
+grant execute on function public.is_poll_open(uuid) to authenticated;
+
+grant select, insert, update on table public.polls to authenticated;
+grant select on table public.poll_votes to authenticated;
+revoke insert, update, delete on table public.poll_votes from authenticated;
+alter table public.polls enable row level security;
+alter table public.poll_votes enable row level security;
+
+drop policy if exists polls_select_visible on public.polls;
+create policy polls_select_visible
+on public.polls
+for select
+to authenticated
+using (chat_id is null or public.is_chat_member(chat_id, auth.uid()));
+
+drop policy if exists polls_insert_creator on public.polls;
+create policy polls_insert_creator
+on public.polls
+for insert
+to authenticated
+with check (
+  creator_id = auth.uid()
+  and (chat_id is null or public.is_chat_member(chat_id, auth.uid()))
+);
+
+drop policy if exists polls_update_creator on public.polls;
+create policy polls_update_creator
+on public.polls
+for update
+to authenticated
+using (creator_id = auth.uid())
+with check (creator_id = auth.uid());
+
+drop policy if exists poll_votes_select_visible on public.poll_votes;
+create policy poll_votes_select_visible
+on public.poll_votes
+for select
+to authenticated
+using (
+  user_id = auth.uid()
+  or exists (
+    select 1
+    from public.polls p
+    where p.id = poll_votes.poll_id
+      and p.is_anonymous = false
+      and public.can_view_poll(p.id)
+  )
+);
+
+-- Votes are written through vote_poll() only.
+drop policy if exists poll_votes_insert_open on public.poll_votes;
+drop policy if exists poll_votes_delete_open on public.poll_votes;
+
+create or replace function public.guard_poll_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  -- Service-role jobs run without a user and are not limited.
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  -- touch_poll_votes_updated_at runs as the voter.
+  if (to_jsonb(new) - 'votes_updated_at') is not distinct from (to_jsonb(old) - 'votes_updated_at') then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - array['post_id', 'closed_at', 'votes_updated_at'])
+    is distinct from (to_jsonb(old) - array['post_id', 'closed_at', 'votes_updated_at']) then
+    raise exception 'only post_id and closed_at can be updated';
+  end if;
+
+  if old.post_id is not null and new.post_id is distinct from old.post_id then
+    raise exception 'poll is already linked to a post';
+  end if;
+
+  if old.closed_at is not null and new.closed_at is distinct from old.closed_at then
+    raise exception 'a closed poll cannot be reopened';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_polls_guard_update on public.polls;
+create trigger trg_polls_guard_update
+before update on public.polls
+for each row execute function public.guard_poll_update();
+
+create or replace function public.guard_poll_vote_choice()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Serializes a voter's inserts so two concurrent picks cannot both pass.
+  perform pg_advisory_xact_lock(hashtext(new.poll_id::text || new.user_id::text));
+
+  if exists (select 1 from public.polls p where p.id = new.poll_id and p.allow_multiple = false)
+    and exists (
+      select 1
+      from public.poll_votes pv
+      where pv.poll_id = new.poll_id
+        and pv.user_id = new.user_id
+        and pv.option_id <> new.option_id
+    ) then
+    raise exception 'Polling ini hanya menerima satu pilihan';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_poll_votes_guard_choice on public.poll_votes;
+create trigger trg_poll_votes_guard_choice
+before insert on public.poll_votes
+for each row execute function public.guard_poll_vote_choice();
+
+create or replace function public.touch_poll_votes_updated_at()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.polls
+  set votes_updated_at = now()
+  where id = coalesce(new.poll_id, old.poll_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_poll_votes_touch_poll on public.poll_votes;
+create trigger trg_poll_votes_touch_poll
+after insert or delete on public.poll_votes
+for each row execute function public.touch_poll_votes_updated_at();
+
+create or replace function public.get_poll_votes(p_poll_id uuid)
+returns table (
+  option_id text,
+  user_id uuid,
+  created_at timestamptz,
+  full_name text,
+  avatar_url text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    pv.option_id,
+    pv.user_id,
+    pv.created_at,
+    case when p.is_anonymous then null else pr.full_name end as full_name,
+    case when p.is_anonymous then null else pr.avatar_url end as avatar_url
+  from public.poll_votes pv
+  join public.polls p on p.id = pv.poll_id
+  left join public.profiles pr on pr.id = pv.user_id
+  where pv.poll_id = p_poll_id
+    and (p.is_anonymous = false or pv.user_id = auth.uid())
+    and public.can_view_poll(p_poll_id);
+$$;
+
+create or replace function public.get_poll_tally(p_poll_id uuid)
+returns table (
+  option_id text,
+  vote_count integer,
+  voter_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    pv.option_id,
+    count(*)::integer as vote_count,
+    (
+      select count(distinct voter.user_id)::integer
+      from public.poll_votes voter
+      where voter.poll_id = p_poll_id
+    ) as voter_count
+  from public.poll_votes pv
+  where pv.poll_id = p_poll_id
+    and public.can_view_poll(p_poll_id)
+  group by pv.option_id;
+$$;
+
+create or replace function public.vote_poll(p_poll_id uuid, p_option_ids text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_poll public.polls%rowtype;
+  v_option_ids text[];
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  select *
+  into v_poll
+  from public.polls
+  where id = p_poll_id
+  for update;
+
+  if not found or not public.can_view_poll(p_poll_id) then
+    raise exception 'Polling tidak ditemukan';
+  end if;
+
+  if v_poll.closed_at is not null or (v_poll.closes_at is not null and v_poll.closes_at <= now()) then
+    raise exception 'Polling sudah ditutup';
+  end if;
+
+  select coalesce(array_agg(distinct picked), '{}'::text[])
+  into v_option_ids
+  from unnest(coalesce(p_option_ids, '{}'::text[])) as picked;
+
+  if exists (
+    select 1
+    from unnest(v_option_ids) as picked
+    where not exists (
+      select 1
+      from jsonb_array_elements(v_poll.options) as option
+      where option ->> 'id' = picked
+    )
+  ) then
+    raise exception 'Pilihan polling tidak valid';
+  end if;
+
+  if not v_poll.allow_multiple and cardinality(v_option_ids) > 1 then
+    raise exception 'Polling ini hanya menerima satu pilihan';
+  end if;
+
+  delete from public.poll_votes
+  where poll_id = p_poll_id
+    and user_id = auth.uid();
+
+  insert into public.poll_votes (poll_id, option_id, user_id)
+  select p_poll_id, picked, auth.uid()
+  from unnest(v_option_ids) as picked;
+end;
+$$;
+
+create or replace function public.close_poll(p_poll_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_closed_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  update public.polls
+  set closed_at = now()
+  where id = p_poll_id
+    and closed_at is null
+    and creator_id = auth.uid()
+    and public.can_view_poll(p_poll_id)
+  returning id into v_closed_id;
+
+  return v_closed_id is not null;
+end;
+$$;
+
+grant execute on function public.get_poll_votes(uuid) to authenticated;
+grant execute on function public.get_poll_tally(uuid) to authenticated;
+grant execute on function public.vote_poll(uuid, text[]) to authenticated;
+grant execute on function public.close_poll(uuid) to authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1
+      from pg_publication_tables
+      where pubname = 'supabase_realtime'
+        and schemaname = 'public'
+        and tablename = 'polls'
+    ) then
+    execute 'alter publication supabase_realtime add table public.polls';
+  end if;
+end;
+$$;
+
+commit;
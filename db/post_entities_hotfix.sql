@@ -0,0 +1,34 @@
+-- Post mentions & hashtags hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Persist structured @mention entities ({ user_id, name }) on posts and comments.
+-- 2) Persist normalized (lower-case, no "#") hashtags for the /tag/<tag> feed.
+-- 3) Index posts.hashtags for array containment lookups and backfill old posts.
+--
+-- The app falls back to plain caption text when these columns are missing.
+
+begin;
+
+alter table public.posts
+  add column if not exists mentions jsonb not null default '[]'::jsonb,
+  add column if not exists hashtags text[] not null default '{}'::text[];
+
+alter table public.comments
+  add column if not exists mentions jsonb not null default '[]'::jsonb,
+  add column if not exists hashtags text[] not null default '{}'::text[];
+
+create index if not exists idx_posts_hashtags on public.posts using gin (hashtags);
+
+-- Backfill hashtags for posts written before this column existed.
+update public.posts p
+set hashtags = coalesce(
+  (
+    select array_agg(distinct lower(m[1]))
+    from regexp_matches(p.caption, '#([[:alnum:]_]+)', 'g') as m
+  ),
+  '{}'::text[]
+)
+where p.caption like '%#%'
+  and p.hashtags = '{}'::text[];
+
+commit;
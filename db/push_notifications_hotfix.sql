@@ -0,0 +1,83 @@
+-- Web Push notifications hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Store one Web Push subscription per browser/device (VAPID endpoint + keys).
+-- 2) Store per-type push opt-in on profiles.notification_preferences.
+-- 3) Apply RLS so users only manage their own devices.
+--
+-- Fan-out: add a Supabase Database Webhook on public.notifications (INSERT)
+-- that POSTs to /api/push/dispatch with header
+-- "Authorization: Bearer <PUSH_WEBHOOK_SECRET>". The route also needs
+-- NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and SUPABASE_SERVICE_ROLE_KEY.
+
+begin;
+
+alter table public.profiles
+  add column if not exists notification_preferences jsonb not null default '{}'::jsonb;
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  endpoint text not null,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conrelid = 'public.push_subscriptions'::regclass
+      and conname = 'push_subscriptions_endpoint_unique'
+  ) then
+    alter table public.push_subscriptions
+      add constraint push_subscriptions_endpoint_unique
+      unique (endpoint);
+  end if;
+exception
+  when others then
+    null;
+end
+$$;
+
+create index if not exists idx_push_subscriptions_user
+  on public.push_subscriptions(user_id);
+
+grant select, insert, update, delete on table public.push_subscriptions to authenticated;
+
+alter table public.push_subscriptions enable row level security;
+
+drop policy if exists push_subscriptions_select_self on public.push_subscriptions;
+create policy push_subscriptions_select_self
+  on public.push_subscriptions
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+drop policy if exists push_subscriptions_insert_self on public.push_subscriptions;
+create policy push_subscriptions_insert_self
+  on public.push_subscriptions
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
+
+drop policy if exists push_subscriptions_update_self on public.push_subscriptions;
+create policy push_subscriptions_update_self
+  on public.push_subscriptions
+  for update
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists push_subscriptions_delete_self on public.push_subscriptions;
+create policy push_subscriptions_delete_self
+  on public.push_subscriptions
+  for delete
+  to authenticated
+  using (auth.uid() = user_id);
+
+commit;
@@ -0,0 +1,88 @@
+-- Radar attendance hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add public.radar_attendance. It holds one row per participant who confirmed attendance
+--    with the rotating code on the host's screen. Rows are written by
+--    /api/radar/[radarId]/attendance with the service role only.
+-- 2) Let the radar host read every row for their radar, and each participant read their own.
+-- 3) Add verified and radar_id to mass_checkins and mass_checkins_v2. Check-ins created
+--    from a confirmed attendance are marked verified and point back at the radar. Without
+--    the columns the check-in is still written, just not marked verified.
+--
+-- The attendance routes also need RADAR_ATTENDANCE_SECRET in the server environment.
+-- Codes are derived from it, so nothing about them is stored here.
+--
+-- Without these objects the app shows "Fitur kehadiran radar belum tersedia" when a
+-- participant confirms, and the host's attendance list stays empty. Radars are unaffected.
+
+begin;
+
+create table if not exists public.radar_attendance (
+  radar_id uuid not null,
+  radar_source text not null default 'v2' check (radar_source in ('legacy', 'v2')),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  method text not null default 'QR' check (method in ('QR', 'MANUAL')),
+  checked_in_at timestamptz not null default now(),
+  primary key (radar_id, user_id)
+);
+
+create index if not exists idx_radar_attendance_user on public.radar_attendance(user_id, checked_in_at desc);
+
+grant select on table public.radar_attendance to authenticated;
+alter table public.radar_attendance enable row level security;
+
+-- radar_id may point at either events table, so the host check is built from whichever exist.
+do $$
+declare
+  v_events_table text;
+  v_host_checks text[] := array[]::text[];
+begin
+  foreach v_events_table in array array['radar_events', 'radar_events_v2'] loop
+    if to_regclass(format('public.%I', v_events_table)) is null then
+      continue;
+    end if;
+    v_host_checks := v_host_checks || format(
+      'exists (select 1 from public.%I e where e.id = radar_attendance.radar_id and e.creator_id = auth.uid())',
+      v_events_table
+    );
+  end loop;
+
+  drop policy if exists radar_attendance_select_visible on public.radar_attendance;
+  execute format(
+    'create policy radar_attendance_select_visible on public.radar_attendance for select to authenticated using (
+       user_id = auth.uid()%s
+     )',
+    coalesce(' or ' || nullif(array_to_string(v_host_checks, ' or '), ''), '')
+  );
+end;
+$$;
+
+do $$
+begin
+  if to_regclass('public.mass_checkins') is not null then
+    alter table public.mass_checkins add column if not exists verified boolean not null default false;
+    alter table public.mass_checkins add column if not exists radar_id uuid;
+    create index if not exists idx_mass_checkins_radar on public.mass_checkins(radar_id)
+      where radar_id is not null;
+  end if;
+
+  if to_regclass('public.mass_checkins_v2') is not null then
+    alter table public.mass_checkins_v2 add column if not exists verified boolean not null default false;
+    alter table public.mass_checkins_v2 add column if not exists radar_id uuid;
+    create index if not exists idx_mass_checkins_v2_radar on public.mass_checkins_v2(radar_id)
+      where radar_id is not null;
+  end if;
+end;
+$$;
+
+-- Refresh PostgREST schema cache.
+do $$
+begin
+  perform pg_notify('pgrst', 'reload schema');
+exception
+  when others then
+    null;
+end;
+$$;
+
+commit;
@@ -0,0 +1,48 @@
+-- Radar reminders hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add public.radar_reminder_deliveries, the ledger of reminders already sent. POST
+--    /api/radar/reminders claims a (user_id, radar_id, offset_minutes, starts_at) row before
+--    it writes the notification, so a reminder goes out once even if the user deletes it
+--    from their feed or two runs overlap. Only the service role reads or writes it.
+-- 2) Index radar_reminder notifications by radar so reminders for an old start time can be
+--    removed when a radar is rescheduled.
+--
+-- Reminder offsets live in profiles.notification_preferences.radar_reminder_offsets (minutes).
+-- No column is needed. Without the ledger the job refuses to run rather than resend.
+--
+-- Schedule the job every 5-15 minutes with header
+-- `Authorization: Bearer <RADAR_REMINDER_CRON_SECRET>`.
+
+begin;
+
+create table if not exists public.radar_reminder_deliveries (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  radar_id uuid not null,
+  offset_minutes int not null,
+  starts_at timestamptz not null,
+  delivered_at timestamptz not null default now(),
+  primary key (user_id, radar_id, offset_minutes, starts_at)
+);
+
+create index if not exists idx_radar_reminder_deliveries_radar
+  on public.radar_reminder_deliveries (radar_id);
+
+alter table public.radar_reminder_deliveries enable row level security;
+revoke all on table public.radar_reminder_deliveries from anon, authenticated;
+
+create index if not exists idx_notifications_radar_reminder
+  on public.notifications ((data ->> 'radar_id'), user_id)
+  where type = 'radar_reminder';
+
+-- Refresh PostgREST schema cache.
+do $$
+begin
+  perform pg_notify('pgrst', 'reload schema');
+exception
+  when others then
+    null;
+end;
+$$;
+
+commit;
@@ -0,0 +1,173 @@
+-- Radar series hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add public.radar_series for recurring radars (weekly, biweekly or monthly) linked to a
+--    mass_schedules row. The series ends on ends_on (inclusive) or after occurrence_count.
+-- 2) Add public.radar_series_members for "ikut semua" opt-ins. Those members are carried
+--    over to each new occurrence.
+-- 3) Add series_id and series_occurrence_date to radar_events and radar_events_v2. The unique
+--    index on (series_id, series_occurrence_date) keeps a date from being materialised twice.
+--    It also keeps a cancelled date from coming back.
+-- 4) Let the series host add participant rows for series members when carrying them over.
+--
+-- The host's client creates the first occurrences. The /api/radar/series job
+-- (RADAR_SERIES_CRON_SECRET) tops every active series up after that.
+--
+-- Without these objects the app shows "Fitur radar berulang belum tersedia" instead of
+-- creating a series. Single radars are unaffected.
+
+begin;
+
+create table if not exists public.radar_series (
+  id uuid primary key default gen_random_uuid(),
+  creator_id uuid not null references public.profiles(id) on delete cascade,
+  church_id uuid not null references public.churches(id) on delete cascade,
+  church_name text,
+  mass_schedule_id uuid not null references public.mass_schedules(id) on delete cascade,
+  title text not null,
+  description text not null default '',
+  frequency text not null default 'WEEKLY' check (frequency in ('WEEKLY', 'BIWEEKLY', 'MONTHLY')),
+  starts_on date not null,
+  ends_on date,
+  occurrence_count int check (occurrence_count is null or occurrence_count between 1 and 52),
+  timezone text not null default 'Asia/Jakarta',
+  max_participants int not null default 50,
+  allow_member_invite boolean not null default true,
+  require_host_approval boolean not null default false,
+  status text not null default 'ACTIVE' check (status in ('ACTIVE', 'ENDED')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_on is null or ends_on >= starts_on)
+);
+
+create index if not exists idx_radar_series_creator on public.radar_series(creator_id);
+
+create table if not exists public.radar_series_members (
+  series_id uuid not null references public.radar_series(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (series_id, user_id)
+);
+
+create index if not exists idx_radar_series_members_user on public.radar_series_members(user_id);
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['radar_events', 'radar_events_v2'] loop
+    if to_regclass(format('public.%I', v_table)) is null then
+      continue;
+    end if;
+
+    execute format(
+      'alter table public.%I add column if not exists series_id uuid references public.radar_series(id) on delete set null',
+      v_table
+    );
+    execute format('alter table public.%I add column if not exists series_occurrence_date date', v_table);
+    execute format(
+      'create unique index if not exists %I on public.%I (series_id, series_occurrence_date) where series_id is not null',
+      'uq_' || v_table || '_series_occurrence',
+      v_table
+    );
+  end loop;
+end;
+$$;
+
+grant select, insert, update on table public.radar_series to authenticated;
+grant select, insert, delete on table public.radar_series_members to authenticated;
+alter table public.radar_series enable row level security;
+alter table public.radar_series_members enable row level security;
+
+drop policy if exists radar_series_select_authenticated on public.radar_series;
+create policy radar_series_select_authenticated
+on public.radar_series
+for select
+to authenticated
+using (true);
+
+drop policy if exists radar_series_insert_creator on public.radar_series;
+create policy radar_series_insert_creator
+on public.radar_series
+for insert
+to authenticated
+with check (creator_id = auth.uid());
+
+drop policy if exists radar_series_update_creator on public.radar_series;
+create policy radar_series_update_creator
+on public.radar_series
+for update
+to authenticated
+using (creator_id = auth.uid())
+with check (creator_id = auth.uid());
+
+drop policy if exists radar_series_members_select_visible on public.radar_series_members;
+create policy radar_series_members_select_visible
+on public.radar_series_members
+for select
+to authenticated
+using (
+  user_id = auth.uid()
+  or exists (
+    select 1 from public.radar_series s
+    where s.id = series_id and s.creator_id = auth.uid()
+  )
+);
+
+drop policy if exists radar_series_members_insert_self on public.radar_series_members;
+create policy radar_series_members_insert_self
+on public.radar_series_members
+for insert
+to authenticated
+with check (user_id = auth.uid());
+
+drop policy if exists radar_series_members_delete_self on public.radar_series_members;
+create policy radar_series_members_delete_self
+on public.radar_series_members
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+do $$
+declare
+  v_participants_table text;
+  v_events_table text;
+begin
+  foreach v_participants_table in array array['radar_participants', 'radar_participants_v2'] loop
+    v_events_table := replace(v_participants_table, 'participants', 'events');
+    if to_regclass(format('public.%I', v_participants_table)) is null then
+      continue;
+    end if;
+
+    execute format('drop policy if exists %I on public.%I', v_participants_table || '_insert_series_host', v_participants_table);
+    execute format(
+      'create policy %I on public.%I for insert to authenticated with check (
+         exists (
+           select 1
+           from public.%I e
+           join public.radar_series s on s.id = e.series_id
+           join public.radar_series_members m on m.series_id = s.id and m.user_id = %I.user_id
+           where e.id = %I.radar_id and s.creator_id = auth.uid()
+         )
+       )',
+      v_participants_table || '_insert_series_host',
+      v_participants_table,
+      v_events_table,
+      v_participants_table,
+      v_participants_table
+    );
+  end loop;
+end;
+$$;
+
+-- Refresh PostgREST schema cache.
+do $$
+begin
+  perform pg_notify('pgrst', 'reload schema');
+exception
+  when others then
+    null;
+end;
+$$;
+
+commit;
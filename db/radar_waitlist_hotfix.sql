@@ -0,0 +1,230 @@
+-- Radar waitlist hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Allow status 'WAITLISTED' on radar_participants and radar_participants_v2 by adding it
+--    to the existing <table>_status_check value list; other checks are left alone. Add
+--    waitlisted_at so people who rejoin the waitlist go to the back of the queue.
+-- 2) promote_radar_waitlist(): when a seat frees up, moves the longest-waiting participant
+--    to JOINED, or to PENDING on radars that need host approval. It notifies that user.
+--    It runs as security definer because the person leaving cannot update someone else's row,
+--    so only the host or a participant who has left may call it. PENDING rows hold a seat,
+--    so a promotion to PENDING is not handed out twice. JOINED promotions stamp joined_at
+--    and add the user to the radar chat (chat_members or radar_chat_members_v2).
+--
+-- Without the RPC the app promotes from the client. That only succeeds where RLS lets the
+-- caller update other participants, for example the host.
+
+begin;
+
+do $$
+declare
+  v_table text;
+  v_constraint text;
+  v_definition text;
+  v_values text[];
+begin
+  foreach v_table in array array['radar_participants', 'radar_participants_v2'] loop
+    if to_regclass(format('public.%I', v_table)) is null then
+      continue;
+    end if;
+
+    execute format('alter table public.%I add column if not exists waitlisted_at timestamptz', v_table);
+
+    -- Only the column's own status check is widened, keeping every value it already allows.
+    v_constraint := v_table || '_status_check';
+    v_definition := null;
+    select pg_get_constraintdef(c.oid)
+    into v_definition
+    from pg_constraint c
+    where c.conrelid = format('public.%I', v_table)::regclass
+      and c.conname = v_constraint
+      and c.contype = 'c';
+
+    if v_definition is not null and v_definition not ilike '%''WAITLISTED''%' then
+      select array_agg(distinct m[1] order by m[1])
+      into v_values
+      from regexp_matches(v_definition, '''([^'']+)''', 'g') as m;
+
+      if v_values is null then
+        raise notice '% has no value list; leaving it unchanged', v_constraint;
+      else
+        execute format('alter table public.%I drop constraint %I', v_table, v_constraint);
+        execute format(
+          'alter table public.%I add constraint %I check (status in (%s))',
+          v_table,
+          v_constraint,
+          (select string_agg(quote_literal(value), ', ') from unnest(v_values || 'WAITLISTED'::text) as value)
+        );
+      end if;
+    end if;
+
+    execute format(
+      'create index if not exists %I on public.%I (radar_id, waitlisted_at) where upper(status) = ''WAITLISTED''',
+      'idx_' || v_table || '_waitlist',
+      v_table
+    );
+  end loop;
+end;
+$$;
+
+create or replace function public.promote_radar_waitlist(p_radar_id uuid)
+returns table(promoted_user_id uuid, promoted_status text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_events_table text;
+  v_participants_table text;
+  v_event jsonb;
+  v_max int;
+  v_joined int;
+  v_next_user uuid;
+  v_new_status text;
+  v_is_leaver boolean;
+  v_has_joined_at boolean;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  if exists (select 1 from public.radar_events e where e.id = p_radar_id) then
+    v_events_table := 'radar_events';
+    v_participants_table := 'radar_participants';
+  elsif to_regclass('public.radar_events_v2') is not null then
+    v_events_table := 'radar_events_v2';
+    v_participants_table := 'radar_participants_v2';
+  else
+    return;
+  end if;
+
+  -- Locking the event serializes promotions, so two leaves cannot hand out the same seat.
+  execute format('select to_jsonb(e) from public.%I e where e.id = $1 for update', v_events_table)
+    into v_event
+    using p_radar_id;
+  if v_event is null then
+    return;
+  end if;
+
+  execute format(
+    'select exists (select 1 from public.%I p where p.radar_id = $1 and p.user_id = $2 and upper(p.status) = ''LEFT'')',
+    v_participants_table
+  )
+    into v_is_leaver
+    using p_radar_id, auth.uid();
+  if (v_event ->> 'creator_id') is distinct from auth.uid()::text and not v_is_leaver then
+    raise exception 'only the host or a participant who left can promote the waitlist';
+  end if;
+
+  v_max := coalesce(nullif(v_event ->> 'max_participants', '')::int, 0);
+  execute format(
+    'select count(*) from public.%I p where p.radar_id = $1 and upper(p.status) in (''JOINED'', ''PENDING'')',
+    v_participants_table
+  )
+    into v_joined
+    using p_radar_id;
+  if v_max > 0 and v_joined >= v_max then
+    return;
+  end if;
+
+  execute format(
+    'select p.user_id from public.%I p
+     where p.radar_id = $1 and upper(p.status) = ''WAITLISTED''
+     order by coalesce(p.waitlisted_at, p.created_at) asc, p.user_id asc
+     limit 1
+     for update skip locked',
+    v_participants_table
+  )
+    into v_next_user
+    using p_radar_id;
+  if v_next_user is null then
+    return;
+  end if;
+
+  v_new_status := case
+    when coalesce((v_event ->> 'require_host_approval')::boolean, false) then 'PENDING'
+    else 'JOINED'
+  end;
+
+  select exists (
+    select 1
+    from information_schema.columns c
+    where c.table_schema = 'public'
+      and c.table_name = v_participants_table
+      and c.column_name = 'joined_at'
+  )
+  into v_has_joined_at;
+
+  if v_new_status = 'JOINED' and v_has_joined_at then
+    execute format(
+      'update public.%I p set status = $3, joined_at = now() where p.radar_id = $1 and p.user_id = $2',
+      v_participants_table
+    )
+      using p_radar_id, v_next_user, v_new_status;
+  else
+    execute format(
+      'update public.%I p set status = $3 where p.radar_id = $1 and p.user_id = $2',
+      v_participants_table
+    )
+      using p_radar_id, v_next_user, v_new_status;
+  end if;
+
+  if v_new_status = 'JOINED'
+    and v_events_table = 'radar_events'
+    and (v_event ->> 'chat_room_id') is not null then
+    insert into public.chat_members (chat_id, user_id)
+    values ((v_event ->> 'chat_room_id')::uuid, v_next_user)
+    on conflict (chat_id, user_id) do nothing;
+  end if;
+
+  if v_new_status = 'JOINED'
+    and v_events_table = 'radar_events_v2'
+    and to_regclass('public.radar_chat_groups_v2') is not null
+    and to_regclass('public.radar_chat_members_v2') is not null then
+    execute
+      'insert into public.radar_chat_members_v2 (chat_group_id, user_id, role, status, joined_at)
+       select g.id, $2, ''MEMBER'', ''JOINED'', now()
+       from public.radar_chat_groups_v2 g
+       where g.radar_id = $1
+       order by g.created_at asc
+       limit 1
+       on conflict (chat_group_id, user_id)
+       do update set status = ''JOINED'', joined_at = excluded.joined_at'
+      using p_radar_id, v_next_user;
+  end if;
+
+  insert into public.notifications (user_id, type, title, message, sender_id, data)
+  values (
+    v_next_user,
+    'radar_waitlist_promoted',
+    'Tempat Tersedia',
+    case
+      when v_new_status = 'JOINED'
+        then format('Anda kini bergabung ke "%s" dari daftar tunggu.', coalesce(v_event ->> 'title', 'radar'))
+      else format(
+        'Tempat di "%s" tersedia. Permintaan Anda menunggu persetujuan host.',
+        coalesce(v_event ->> 'title', 'radar')
+      )
+    end,
+    auth.uid(),
+    jsonb_build_object('radar_id', p_radar_id, 'status', v_new_status)
+  );
+
+  return query select v_next_user, v_new_status;
+end;
+$$;
+
+revoke all on function public.promote_radar_waitlist(uuid) from public;
+grant execute on function public.promote_radar_waitlist(uuid) to authenticated;
+
+-- Refresh PostgREST schema cache.
+do $$
+begin
+  perform pg_notify('pgrst', 'reload schema');
+exception
+  when others then
+    null;
+end;
+$$;
+
+commit;
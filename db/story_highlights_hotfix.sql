@@ -0,0 +1,125 @@
+-- Story archive & highlights ("Sorotan") hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Add public.story_highlights (title, cover) and public.story_highlight_items (ordered stories).
+-- 2) Highlights are readable by any signed-in user; only the owner can change them,
+--    and only with their own stories.
+-- 3) Keep expired stories readable when they are pinned in a highlight. The audience
+--    rules from close_friends_hotfix.sql still apply. Run that file first.
+
+begin;
+
+create table if not exists public.story_highlights (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  title text not null default 'Sorotan',
+  cover_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint story_highlights_title_length check (char_length(title) between 1 and 30)
+);
+
+create table if not exists public.story_highlight_items (
+  highlight_id uuid not null references public.story_highlights(id) on delete cascade,
+  story_id uuid not null references public.stories(id) on delete cascade,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  primary key (highlight_id, story_id)
+);
+
+create index if not exists idx_story_highlights_user on public.story_highlights (user_id, created_at);
+create index if not exists idx_story_highlight_items_story on public.story_highlight_items (story_id);
+
+grant select, insert, update, delete on table public.story_highlights to authenticated;
+grant select, insert, update, delete on table public.story_highlight_items to authenticated;
+alter table public.story_highlights enable row level security;
+alter table public.story_highlight_items enable row level security;
+
+drop policy if exists story_highlights_select_all on public.story_highlights;
+create policy story_highlights_select_all
+on public.story_highlights
+for select
+to authenticated
+using (true);
+
+drop policy if exists story_highlights_write_self on public.story_highlights;
+create policy story_highlights_write_self
+on public.story_highlights
+for all
+to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+drop policy if exists story_highlight_items_select_all on public.story_highlight_items;
+create policy story_highlight_items_select_all
+on public.story_highlight_items
+for select
+to authenticated
+using (true);
+
+drop policy if exists story_highlight_items_write_self on public.story_highlight_items;
+create policy story_highlight_items_write_self
+on public.story_highlight_items
+for all
+to authenticated
+using (
+  exists (
+    select 1
+    from public.story_highlights h
+    where h.id = story_highlight_items.highlight_id
+      and h.user_id = auth.uid()
+  )
+)
+with check (
+  exists (
+    select 1
+    from public.story_highlights h
+    join public.stories s on s.user_id = h.user_id
+    where h.id = story_highlight_items.highlight_id
+      and s.id = story_highlight_items.story_id
+      and h.user_id = auth.uid()
+  )
+);
+
+drop policy if exists stories_select_active_or_owner on public.stories;
+create policy stories_select_active_or_owner
+on public.stories
+for select
+to authenticated
+using (
+  user_id = auth.uid()
+  or (
+    (
+      expires_at is null
+      or expires_at > now()
+      or exists (
+        select 1
+        from public.story_highlight_items hi
+        where hi.story_id = stories.id
+      )
+    )
+    and (
+      audience = 'everyone'
+      or (
+        audience = 'close_friends'
+        and exists (
+          select 1
+          from public.close_friends cf
+          where cf.user_id = stories.user_id
+            and cf.friend_id = auth.uid()
+        )
+      )
+      or (
+        coalesce(audience, 'followers') not in ('everyone', 'close_friends')
+        and exists (
+          select 1
+          from public.follows f
+          where f.follower_id = auth.uid()
+            and f.following_id = stories.user_id
+        )
+      )
+    )
+  )
+);
+
+commit;
@@ -0,0 +1,62 @@
+-- Story insights hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Ensure public.story_replies exists so chat replies are recorded per story.
+-- 2) Add story_replies.chat_id so the author can jump from insights into the chat thread.
+-- 3) Index story_id on views/reactions/replies for per-story counts.
+--
+-- Select policies from stories_rls_sync_hotfix.sql already limit rows to the actor
+-- and the story author. The app skips chat_id when the column is missing.
+
+begin;
+
+create table if not exists public.story_replies (
+  id uuid primary key default gen_random_uuid(),
+  story_id uuid not null references public.stories(id) on delete cascade,
+  sender_id uuid not null references public.profiles(id) on delete cascade,
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.story_replies
+  add column if not exists chat_id uuid references public.social_chats(id) on delete set null;
+
+create index if not exists idx_story_replies_story on public.story_replies (story_id, created_at desc);
+
+do $$
+begin
+  if to_regclass('public.story_views') is not null then
+    execute 'create index if not exists idx_story_views_story on public.story_views (story_id)';
+  end if;
+  if to_regclass('public.story_reactions') is not null then
+    execute 'create index if not exists idx_story_reactions_story on public.story_reactions (story_id)';
+  end if;
+end;
+$$;
+
+grant select, insert, delete on table public.story_replies to authenticated;
+alter table public.story_replies enable row level security;
+
+drop policy if exists story_replies_select_scope on public.story_replies;
+create policy story_replies_select_scope
+on public.story_replies
+for select
+to authenticated
+using (
+  sender_id = auth.uid()
+  or exists (
+    select 1
+    from public.stories s
+    where s.id = story_replies.story_id
+      and s.user_id = auth.uid()
+  )
+);
+
+drop policy if exists story_replies_insert_self on public.story_replies;
+create policy story_replies_insert_self
+on public.story_replies
+for insert
+to authenticated
+with check (sender_id = auth.uid());
+
+commit;
@@ -0,0 +1,30 @@
+-- Verse stories hotfix
+-- Date: 2026-10-19
+-- Purpose:
+-- 1) Store the structured Bible reference of "Bagikan ke Story" verse cards on public.stories.
+--    Shape: { book_id, book_name, chapter, verse_start, verse_end, language_code, version_code }.
+-- 2) Let the story viewer offer "Baca pasal ini" without parsing the rendered image.
+--
+-- The app drops verse_ref on insert when this column is missing.
+
+begin;
+
+alter table public.stories
+  add column if not exists verse_ref jsonb;
+
+alter table public.stories
+  drop constraint if exists stories_verse_ref_shape;
+
+alter table public.stories
+  add constraint stories_verse_ref_shape
+  check (
+    verse_ref is null
+    or (
+      jsonb_typeof(verse_ref) = 'object'
+      and verse_ref ? 'book_id'
+      and verse_ref ? 'chapter'
+      and verse_ref ? 'verse_start'
+    )
+  );
+
+commit;
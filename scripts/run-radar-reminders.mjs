@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+import { existsSync, readFileSync } from 'node:fs';
+
+function loadEnvFile(path) {
+  if (!existsSync(path)) return;
+
+  const content = readFileSync(path, 'utf-8');
+  const lines = content.split('\n');
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const equalIndex = line.indexOf('=');
+    if (equalIndex <= 0) continue;
+
+    const key = line.slice(0, equalIndex).trim();
+    const value = line.slice(equalIndex + 1).trim().replace(/^['"]|['"]$/g, '');
+    if (!(key in process.env)) process.env[key] = value;
+  }
+}
+
+function get(key) {
+  const value = process.env[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+loadEnvFile('.env.local');
+loadEnvFile('.env');
+
+// Triggers the reminder job on a running app (`npm run dev` locally).
+// Usage: npm run jobs:radar-reminders [-- --dry-run]
+const appUrl = get('RADAR_REMINDER_APP_URL') || get('NEXT_PUBLIC_APP_URL') || 'http://localhost:3000';
+const secret = get('RADAR_REMINDER_CRON_SECRET');
+const dryRun = process.argv.includes('--dry-run');
+
+if (!secret) {
+  console.error('RADAR_REMINDER_CRON_SECRET belum diisi.');
+  process.exit(1);
+}
+
+const response = await fetch(new URL('/api/radar/reminders', appUrl), {
+  method: 'POST',
+  headers: {
+    authorization: `Bearer ${secret}`,
+    'content-type': 'application/json',
+  },
+  body: JSON.stringify({ dry_run: dryRun }),
+  signal: AbortSignal.timeout(60 * 1000),
+});
+
+const payload = await response.json().catch(() => ({}));
+console.log(`Radar reminders (${response.status})${dryRun ? ' [dry run]' : ''}:`, payload);
+if (!response.ok) process.exit(1);
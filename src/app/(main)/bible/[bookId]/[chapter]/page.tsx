@@ -14,6 +14,7 @@ import {
   Loader2,
   NotebookPen,
   Share2,
+  Sparkles,
   Type,
 } from 'lucide-react';
 import { toast } from 'sonner';
@@ -31,6 +32,10 @@ import { Slider } from '@/components/ui/slider';
 import { Textarea } from '@/components/ui/textarea';
 import { useBibleBooks, useBibleChapters, useBibleVerses } from '@/lib/features/bible/use-bible';
 import { useAuth } from '@/lib/features/auth/use-auth';
+import { saveBibleVersionPreference } from '@/lib/features/bible/version-preference';
+import { StoriesService } from '@/lib/features/stories/stories-service';
+import { useCreateStory } from '@/lib/features/stories/use-stories';
+import { useUIStore } from '@/lib/store/ui-store';
 import {
   loadBiblePersonalStoreFromCloud,
   removeBibleBookmarkFromCloud,
@@ -212,10 +217,11 @@ function getBrowserNavigator() {
   return window.navigator;
 }
 
-async function createVerseImageBlob(reference: string, text: string): Promise<Blob> {
+// Stories use a 9:16 card (height 1920); plain image shares keep the 3:4 card.
+async function createVerseImageBlob(reference: string, text: string, height = 1440): Promise<Blob> {
   const canvas = document.createElement('canvas');
   canvas.width = 1080;
-  canvas.height = 1440;
+  canvas.height = height;
 
   const ctx = canvas.getContext('2d');
   if (!ctx) {
@@ -235,7 +241,7 @@ async function createVerseImageBlob(reference: string, text: string): Promise<Bl
   ctx.arc(160, 200, 120, 0, Math.PI * 2);
   ctx.fill();
   ctx.beginPath();
-  ctx.arc(920, 1260, 160, 0, Math.PI * 2);
+  ctx.arc(920, height - 180, 160, 0, Math.PI * 2);
   ctx.fill();
 
   ctx.fillStyle = '#E2E8F0';
@@ -255,7 +261,7 @@ async function createVerseImageBlob(reference: string, text: string): Promise<Bl
   ctx.fillStyle = '#BAE6FD';
   ctx.font = '600 38px "Segoe UI", Arial, sans-serif';
   const referenceLines = wrapCanvasText(ctx, reference, 860).slice(0, 2);
-  let refY = Math.max(y + 36, 1220);
+  let refY = Math.max(y + 36, height - 220);
   for (const line of referenceLines) {
     ctx.fillText(line, 110, refY);
     refY += 50;
@@ -263,7 +269,7 @@ async function createVerseImageBlob(reference: string, text: string): Promise<Bl
 
   ctx.fillStyle = 'rgba(255,255,255,0.75)';
   ctx.font = '500 28px "Segoe UI", Arial, sans-serif';
-  ctx.fillText('Firman Tuhan untuk dibaca, direnungkan, dan dibagikan.', 110, 1370);
+  ctx.fillText('Firman Tuhan untuk dibaca, direnungkan, dan dibagikan.', 110, height - 70);
 
   const blob = await new Promise<Blob | null>((resolve) =>
     canvas.toBlob((result) => resolve(result), 'image/png')
@@ -287,6 +293,10 @@ export default function BibleReaderPage() {
   const bookId = decodeURIComponent(rawBookId || '');
   const requestedChapter = parsePositiveInt(rawChapter, 1);
   const highlightedVerse = parsePositiveInt(searchParams.get('verse'), 0);
+  const highlightedVerseEnd = Math.max(
+    highlightedVerse,
+    parsePositiveInt(searchParams.get('to'), highlightedVerse)
+  );
   const requestedLanguage = normalizeScopeLanguageCode(searchParams.get('lang'));
   const requestedVersion = normalizeRequestedVersionByLanguage(
     requestedLanguage,
@@ -305,6 +315,9 @@ export default function BibleReaderPage() {
   const [noteDraft, setNoteDraft] = useState('');
   const [multiSelectMode, setMultiSelectMode] = useState(false);
   const [selectedVerseNumbers, setSelectedVerseNumbers] = useState<number[]>([]);
+  const [isSharingToStory, setIsSharingToStory] = useState(false);
+  const { mutateAsync: createStory } = useCreateStory();
+  const { openStoryViewer } = useUIStore();
   const [noteTarget, setNoteTarget] = useState<{
     verseStart: number;
     verseEnd: number;
@@ -379,6 +392,7 @@ export default function BibleReaderPage() {
   const baseQueryString = useMemo(() => {
     const nextQuery = new URLSearchParams(searchParams.toString());
     nextQuery.delete('verse');
+    nextQuery.delete('to');
     return nextQuery.toString();
   }, [searchParams]);
 
@@ -435,6 +449,10 @@ export default function BibleReaderPage() {
     router.replace(buildReaderHref(selectedBook.id, currentChapter, searchParams.toString()));
   }, [selectedBook, requestedChapter, currentChapter, router, searchParams]);
 
+  useEffect(() => {
+    saveBibleVersionPreference({ language_code: requestedLanguage, version_code: requestedVersion });
+  }, [requestedLanguage, requestedVersion]);
+
   useEffect(() => {
     if (!highlightedVerse || isLoadingVerses) return;
     const target = document.getElementById(`verse-${highlightedVerse}`);
@@ -767,6 +785,54 @@ export default function BibleReaderPage() {
     }
   }
 
+  async function handleShareToStory(verseStart: number, verseEnd: number) {
+    if (!selectedBook || isSharingToStory) return;
+    if (!user?.id) {
+      toast.error('Anda harus login untuk membuat story');
+      return;
+    }
+
+    const rangeVerses = verses.filter(
+      (verse) => verse.verse_number > 0 && verseInRange(verse.verse_number, verseStart, verseEnd)
+    );
+    if (rangeVerses.length === 0) return;
+
+    const reference =
+      verseStart === verseEnd
+        ? `${selectedBook.name} ${currentChapter}:${verseStart}`
+        : `${selectedBook.name} ${currentChapter}:${verseStart}-${verseEnd}`;
+    const text = rangeVerses.map((verse) => verse.text).join(' ');
+
+    setIsSharingToStory(true);
+    try {
+      const blob = await createVerseImageBlob(`${reference} (${requestedVersion})`, text, 1920);
+      const file = new File([blob], `story-ayat-${verseStart}-${verseEnd}.png`, { type: 'image/png' });
+      const mediaUrl = await StoriesService.uploadStoryMedia(user.id, file);
+      const story = await createStory({
+        mediaUrl,
+        mediaType: 'image',
+        verseRef: {
+          book_id: selectedBook.id,
+          book_name: selectedBook.name,
+          chapter: currentChapter,
+          verse_start: verseStart,
+          verse_end: verseEnd,
+          language_code: requestedLanguage,
+          version_code: requestedVersion,
+        },
+      });
+      setActionDialogOpen(false);
+      setMultiSelectMode(false);
+      setSelectedVerseNumbers([]);
+      openStoryViewer(story.id);
+    } catch (error) {
+      console.error('Create verse story error:', error);
+      toast.error(error instanceof Error ? error.message : 'Gagal membuat story ayat');
+    } finally {
+      setIsSharingToStory(false);
+    }
+  }
+
   function handleToggleBookmark() {
     if (!actionVerse || !selectedBook) return;
 
@@ -1133,6 +1199,22 @@ export default function BibleReaderPage() {
                   <Button size="sm" variant="outline" onClick={openRangeNoteDialog}>
                     Catatan rentang
                   </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1.5"
+                    disabled={isSharingToStory}
+                    onClick={() =>
+                      void handleShareToStory(selectedVerseRange.start, selectedVerseRange.end)
+                    }
+                  >
+                    {isSharingToStory ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Sparkles className="h-3.5 w-3.5" />
+                    )}
+                    Bagikan ke Story
+                  </Button>
                   {HIGHLIGHT_COLORS.map((color) => (
                     <button
                       key={`range-${color}`}
@@ -1177,7 +1259,10 @@ export default function BibleReaderPage() {
                   pericopeTitle={pericopeTitle}
                   fontSize={fontSize}
                   lineHeight={lineHeight}
-                  highlightedFromQuery={highlightedVerse > 0 && verse.verse_number === highlightedVerse}
+                  highlightedFromQuery={
+                    highlightedVerse > 0 &&
+                    verseInRange(verse.verse_number, highlightedVerse, highlightedVerseEnd)
+                  }
                   highlightColor={findVerseHighlightColor(verse.verse_number)}
                   bookmarked={isVerseBookmarked(verse.verse_number)}
                   hasNote={hasVerseNote(verse.verse_number)}
@@ -1240,6 +1325,21 @@ export default function BibleReaderPage() {
                   <BookOpenText className="h-4 w-4" />
                   Bagikan Gambar
                 </Button>
+                <Button
+                  variant="outline"
+                  className="justify-start gap-2"
+                  disabled={isSharingToStory}
+                  onClick={() =>
+                    void handleShareToStory(actionVerse.verse_number, actionVerse.verse_number)
+                  }
+                >
+                  {isSharingToStory ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Sparkles className="h-4 w-4" />
+                  )}
+                  Bagikan ke Story
+                </Button>
                 <Button variant="outline" className="justify-start gap-2" onClick={handleToggleBookmark}>
                   <Bookmark className="h-4 w-4" />
                   Bookmark
@@ -29,6 +29,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { DailyReadingsCard } from '@/components/liturgy/daily-readings-card';
 import {
   useBibleBooks,
   useBibleChapters,
@@ -36,6 +37,11 @@ import {
   useBibleVerses,
 } from '@/lib/features/bible/use-bible';
 import { useAuth } from '@/lib/features/auth/use-auth';
+import {
+  parseReference,
+  versionCandidatesByLanguage,
+  type BibleReferenceMatch,
+} from '@/lib/features/bible/bible-reference';
 import {
   loadBiblePersonalStoreFromCloud,
   syncBiblePersonalStoreToCloud,
@@ -61,6 +67,7 @@ import { cn } from '@/lib/utils';
 
 type MainTab = 'baca' | 'rencana' | 'cari' | 'catatan';
 type CanonFilter = 'all' | 'proto' | 'deutero';
+type ReferenceMatch = BibleReferenceMatch;
 
 interface ReadingPlan {
   id: string;
@@ -78,13 +85,6 @@ interface ThemePack {
   references: string[];
 }
 
-interface ReferenceMatch {
-  book: BibleBook;
-  chapter: number;
-  verseStart?: number;
-  verseEnd?: number;
-}
-
 interface CatatanItem {
   id: string;
   type: 'bookmark' | 'highlight' | 'note';
@@ -132,8 +132,6 @@ const VERSION_OPTIONS_BY_LANGUAGE: Record<'id' | 'en', string[]> = {
   en: ['EN1'],
 };
 
-const REFERENCE_PATTERN = /^([1-3]\s*)?([A-Za-zÀ-ÿ.]+(?:\s+[A-Za-zÀ-ÿ.]+)*)\s+(\d+)(?::(\d+)(?:-(\d+))?)?$/i;
-
 const BIBLE_READING_PLANS: ReadingPlan[] = [
   {
     id: 'injil-markus-7',
@@ -263,63 +261,6 @@ function normalizeRequestedVersionByLanguage(
   return 'EN1';
 }
 
-function versionCandidatesByLanguage(languageCode: 'id' | 'en', versionCode: string) {
-  if (languageCode === 'id') {
-    if (versionCode === 'TB2') return ['TB2'];
-    return ['TB1', 'TB'];
-  }
-  return ['EN1'];
-}
-
-function normalizeBookToken(value: string) {
-  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
-}
-
-function matchBookFromToken(token: string, books: BibleBook[]) {
-  const needle = normalizeBookToken(token);
-  if (!needle) return null;
-
-  const exact = books.find((book) => {
-    const name = normalizeBookToken(book.name);
-    const abbr = normalizeBookToken(book.abbreviation);
-    return name === needle || abbr === needle;
-  });
-  if (exact) return exact;
-
-  return (
-    books.find((book) => {
-      const name = normalizeBookToken(book.name);
-      const abbr = normalizeBookToken(book.abbreviation);
-      return name.startsWith(needle) || abbr.startsWith(needle) || name.includes(needle);
-    }) || null
-  );
-}
-
-function parseReference(input: string, books: BibleBook[]): ReferenceMatch | null {
-  const normalizedInput = input.trim().replace(/\s+/g, ' ');
-  const match = normalizedInput.match(REFERENCE_PATTERN);
-  if (!match) return null;
-
-  const numericPrefix = (match[1] || '').trim();
-  const rawBook = (match[2] || '').trim();
-  const chapter = Number(match[3] || 0);
-  const verseStart = Number(match[4] || 0);
-  const verseEnd = Number(match[5] || 0);
-
-  if (!chapter || chapter <= 0) return null;
-
-  const bookToken = numericPrefix ? `${numericPrefix} ${rawBook}` : rawBook;
-  const matchedBook = matchBookFromToken(bookToken, books);
-  if (!matchedBook) return null;
-
-  return {
-    book: matchedBook,
-    chapter,
-    verseStart: verseStart > 0 ? verseStart : undefined,
-    verseEnd: verseEnd > 0 ? verseEnd : undefined,
-  };
-}
-
 function referenceLabel({
   book,
   chapter,
@@ -926,6 +867,12 @@ export default function BiblePage() {
         </div>
       </section>
 
+      {mainTab === 'baca' && (
+        <DailyReadingsCard
+          versionCode={effectiveLanguageCode === 'id' ? effectiveVersionCode : 'TB1'}
+        />
+      )}
+
       {mainTab === 'baca' && (
         <Card className="overflow-hidden border-border/70 bg-card/95 shadow-sm">
           <CardHeader className="gap-4 border-b border-border/50 bg-muted/20">
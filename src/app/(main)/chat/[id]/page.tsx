@@ -10,6 +10,7 @@ import {
   Archive,
   ArchiveRestore,
   ArrowLeft,
+  BarChart3,
   Bell,
   BellOff,
   Check,
@@ -20,11 +21,15 @@ import {
   Images,
   Loader2,
   LogOut,
+  MapPin,
+  Mic,
   Music2,
   Paperclip,
+  Pencil,
   Pin,
   Search as SearchIcon,
   Send,
+  Trash2,
   Video,
   X,
 } from 'lucide-react';
@@ -36,6 +41,7 @@ import {
   useChatMembers,
   useChatMessages,
   useChatSearch,
+  useEditMessage,
   useJoinRequests,
   useLeaveChat,
   useMarkChatAsRead,
@@ -61,6 +67,22 @@ import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ChatInboxPanel } from '@/components/chat/chat-inbox-panel';
+import { LocationMessageCard } from '@/components/chat/location-message-card';
+import { MessageEditHistoryDialog } from '@/components/chat/message-edit-history-dialog';
+import { MessageReadReceiptsSheet } from '@/components/chat/message-read-receipts-sheet';
+import { OnlineIndicator } from '@/components/chat/online-indicator';
+import { CreatePollDialog } from '@/components/polls/create-poll-dialog';
+import { PollCard } from '@/components/polls/poll-card';
+import { ShareLocationDialog } from '@/components/chat/share-location-dialog';
+import { VoiceNotePlayer, VoiceWaveform } from '@/components/chat/voice-note-player';
+import { canEditMessage } from '@/lib/features/chat/message-edits';
+import { formatLastSeen, formatTypingLabel } from '@/lib/features/chat/presence';
+import { buildMessageReceipt, getReceiptRecipients, hasReadReceipts } from '@/lib/features/chat/read-receipts';
+import { useChatTyping, useUsersPresence } from '@/lib/features/chat/use-presence';
+import { useCreatePoll } from '@/lib/features/polls/use-polls';
+import { useVoiceRecorder } from '@/lib/features/chat/use-voice-recorder';
+import { formatAudioDuration } from '@/lib/features/chat/voice-note';
+import type { MessageLocation, MessageReceiptSummary, PollDraft } from '@/lib/types';
 
 function getInitials(name?: string) {
   return (
@@ -90,10 +112,15 @@ export default function ChatDetailPage() {
   const router = useRouter();
   const params = useParams<{ id: string }>();
   const chatId = decodeURIComponent(params.id);
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [text, setText] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isLocationDialogOpen, setIsLocationDialogOpen] = useState(false);
+  const [isPollDialogOpen, setIsPollDialogOpen] = useState(false);
   const [replyToMessageId, setReplyToMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [historyMessageId, setHistoryMessageId] = useState<string | null>(null);
+  const [receiptMessageId, setReceiptMessageId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState('');
   const [isMediaGalleryOpen, setIsMediaGalleryOpen] = useState(false);
@@ -129,6 +156,9 @@ export default function ChatDetailPage() {
   } = useChatSearch(chatId, debouncedNormalizedSearch);
   const { data: members = [], isLoading: isMembersLoading } = useChatMembers(chatId);
   const { mutateAsync: sendMessage, isPending: isSending } = useSendMessage();
+  const recorder = useVoiceRecorder();
+  const { mutateAsync: createPoll, isPending: isCreatingPoll } = useCreatePoll();
+  const { mutateAsync: editMessage, isPending: isEditing } = useEditMessage(chatId);
   const { mutateAsync: setChatArchived, isPending: isArchiving } = useSetChatArchived();
   const { mutateAsync: setChatPinned, isPending: isPinning } = useSetChatPinned();
   const { mutateAsync: setChatMuted, isPending: isMuting } = useSetChatMuted();
@@ -136,6 +166,7 @@ export default function ChatDetailPage() {
   const { mutate: markChatAsRead } = useMarkChatAsRead();
   const { mutateAsync: approveJoinRequest } = useApproveJoinRequest(chatId);
   const { mutateAsync: rejectJoinRequest } = useRejectJoinRequest(chatId);
+  const { typingUsers, notifyTyping, stopTyping } = useChatTyping(chatId);
 
   const isGroupChat = Boolean(chat?.is_group);
   const membership = useMemo(
@@ -163,6 +194,24 @@ export default function ChatDetailPage() {
   const avatar = isGroupChat
     ? chat?.group_avatar_url
     : directChatPartner?.profile?.avatar_url || chat?.group_avatar_url;
+  const activeMemberIds = useMemo(
+    () => activeMembers.map((member) => member.user_id),
+    [activeMembers]
+  );
+  const presenceByUserId = useUsersPresence(activeMemberIds);
+  const partnerPresence = directChatPartner
+    ? presenceByUserId.get(directChatPartner.user_id)
+    : undefined;
+  const onlineMemberCount = useMemo(
+    () => Array.from(presenceByUserId.values()).filter((presence) => presence.is_online).length,
+    [presenceByUserId]
+  );
+  const typingLabel = formatTypingLabel(typingUsers, isGroupChat);
+  const headerStatus = isGroupChat
+    ? `${activeMembers.length} anggota${onlineMemberCount > 0 ? ` · ${onlineMemberCount} online` : ''}`
+    : partnerPresence?.is_online
+      ? 'Online'
+      : formatLastSeen(partnerPresence?.last_seen_at) ?? '';
   const isCurrentUserAdmin = Boolean(chat?.admin_id === user?.id || membership?.role === 'admin');
   const canModerateJoinRequests = Boolean(
     isGroupChat && isCurrentUserAdmin && chat?.invite_mode === 'approval'
@@ -193,42 +242,20 @@ export default function ChatDetailPage() {
     () => new Set(sortedMessages.map((message) => message.id)),
     [sortedMessages]
   );
-  const readStatsByMessageId = useMemo(() => {
-    const result = new Map<string, number>();
-
-    const otherActiveMembers = members.filter(
-      (member) =>
-        member.user_id !== user?.id &&
-        member.status !== 'LEFT' &&
-        member.status !== 'KICKED'
-    );
+  // Receipts are mutual: with read receipts off you stop seeing other members' receipts too.
+  const canSeeReadReceipts = profile?.read_receipts_enabled !== false && hasReadReceipts(members);
+  const receiptsByMessageId = useMemo(() => {
+    const result = new Map<string, MessageReceiptSummary>();
+    if (!canSeeReadReceipts) return result;
 
+    const recipients = getReceiptRecipients(members, user?.id);
     for (const message of sortedMessages) {
       if (message.sender_id !== user?.id) continue;
-
-      const messageTime = new Date(message.created_at).getTime();
-      if (!Number.isFinite(messageTime)) {
-        result.set(message.id, 0);
-        continue;
-      }
-
-      let readers = 0;
-      for (const member of otherActiveMembers) {
-        if (!member.last_read_at) continue;
-        const memberReadTime = new Date(member.last_read_at).getTime();
-        if (Number.isFinite(memberReadTime) && memberReadTime >= messageTime) {
-          readers += 1;
-        }
-      }
-
-      result.set(message.id, readers);
+      result.set(message.id, buildMessageReceipt(message, recipients));
     }
 
-    return {
-      byMessageId: result,
-      totalRecipients: otherActiveMembers.length,
-    };
-  }, [members, sortedMessages, user?.id]);
+    return result;
+  }, [canSeeReadReceipts, members, sortedMessages, user?.id]);
   const messagesById = useMemo(
     () => new Map(sortedMessages.map((message) => [message.id, message])),
     [sortedMessages]
@@ -237,6 +264,15 @@ export default function ChatDetailPage() {
     () => (replyToMessageId ? messagesById.get(replyToMessageId) : undefined),
     [messagesById, replyToMessageId]
   );
+  const editingMessage = useMemo(
+    () => (editingMessageId ? messagesById.get(editingMessageId) : undefined),
+    [editingMessageId, messagesById]
+  );
+  const receiptMessage = receiptMessageId ? messagesById.get(receiptMessageId) : undefined;
+  const historyMessage = useMemo(
+    () => (historyMessageId ? messagesById.get(historyMessageId) : undefined),
+    [historyMessageId, messagesById]
+  );
   const rootMessageByReply = useMemo(() => {
     const result = new Map<string, string>();
 
@@ -473,6 +509,20 @@ export default function ChatDetailPage() {
     }
 
     const content = text.trim();
+    stopTyping();
+
+    if (editingMessage) {
+      if (!content) return;
+      try {
+        await editMessage({ messageId: editingMessage.id, content });
+        setText('');
+        setEditingMessageId(null);
+      } catch {
+        // Error toast handled by mutation hook.
+      }
+      return;
+    }
+
     if (!content && !selectedFile) return;
 
     try {
@@ -491,6 +541,79 @@ export default function ChatDetailPage() {
     }
   };
 
+  const handleSendVoiceNote = async () => {
+    const draft = recorder.draft;
+    if (!draft || !canSendMessage) return;
+
+    try {
+      await sendMessage({
+        chatId,
+        file: draft.file,
+        mediaDuration: draft.durationSeconds,
+        waveform: draft.waveform,
+        replyToId: replyToMessageId ?? undefined,
+      });
+      recorder.discardDraft();
+      setReplyToMessageId(null);
+    } catch {
+      // Error toast handled by mutation hook.
+    }
+  };
+
+  const handleShareLocation = async (location: MessageLocation) => {
+    if (!canSendMessage) return;
+
+    try {
+      await sendMessage({
+        chatId,
+        content: location.label,
+        location,
+        replyToId: replyToMessageId ?? undefined,
+      });
+      setIsLocationDialogOpen(false);
+      setReplyToMessageId(null);
+    } catch {
+      // Error toast handled by mutation hook.
+    }
+  };
+
+  const handleCreatePoll = async (draft: PollDraft) => {
+    if (!canSendMessage) return;
+
+    try {
+      const poll = await createPoll({ draft, chatId });
+      await sendMessage({
+        chatId,
+        content: poll.question,
+        pollId: poll.id,
+        replyToId: replyToMessageId ?? undefined,
+      });
+      setIsPollDialogOpen(false);
+      setReplyToMessageId(null);
+    } catch {
+      // Error toast handled by mutation hook.
+    }
+  };
+
+  const startEditing = (messageId: string) => {
+    const target = messagesById.get(messageId);
+    if (!target) return;
+    setEditingMessageId(messageId);
+    setReplyToMessageId(null);
+    setSelectedFile(null);
+    setText(target.content ?? '');
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setText('');
+  };
+
+  const startReplying = (messageId: string) => {
+    if (editingMessageId) cancelEditing();
+    setReplyToMessageId(messageId);
+  };
+
   const handleToggleArchive = async () => {
     await setChatArchived({
       chatId,
@@ -577,13 +700,20 @@ export default function ChatDetailPage() {
             >
               <ArrowLeft className="h-5 w-5" />
             </Button>
-            <Avatar className="h-10 w-10">
-              <AvatarImage src={avatar} alt={title} />
-              <AvatarFallback className="bg-card text-foreground/90">{title.slice(0, 2).toUpperCase()}</AvatarFallback>
-            </Avatar>
+            <div className="relative shrink-0">
+              <Avatar className="h-10 w-10">
+                <AvatarImage src={avatar} alt={title} />
+                <AvatarFallback className="bg-card text-foreground/90">{title.slice(0, 2).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <OnlineIndicator isOnline={Boolean(partnerPresence?.is_online)} />
+            </div>
             <div className="min-w-0">
               <h1 className="truncate text-sm font-semibold text-foreground">{title}</h1>
-              <p className="text-xs text-muted-foreground">Chat realtime terhubung Supabase</p>
+              {typingLabel ? (
+                <p className="truncate text-xs font-medium text-emerald-600">{typingLabel}</p>
+              ) : (
+                <p className="truncate text-xs text-muted-foreground">{headerStatus}</p>
+              )}
             </div>
             <div className="ml-auto flex items-center gap-1">
               {isGroupChat && (
@@ -729,17 +859,20 @@ export default function ChatDetailPage() {
                 ? messagesById.get(message.reply_to_id)
                 : undefined;
               const hasMedia = Boolean(message.media_url);
-              const messageText = message.content || message.file_name || '[media]';
+              const isVoiceNote = message.message_type === 'audio' && message.media_duration !== undefined;
+              const messageText =
+                isVoiceNote || message.location || message.poll_id
+                  ? undefined
+                  : message.content || message.file_name || '[media]';
               const replyCount = repliesCountByRoot.get(message.id) ?? 0;
               const showUnreadDivider =
                 !normalizedSearch &&
                 Boolean(unreadMarkerMessageId) &&
                 unreadMarkerMessageId === message.id;
-              const readCount = readStatsByMessageId.byMessageId.get(message.id) ?? 0;
-              const showReadStatus =
-                isMine &&
-                readStatsByMessageId.totalRecipients > 0 &&
-                message.message_type !== 'location';
+              const receipt = receiptsByMessageId.get(message.id);
+              const showReadStatus = isMine && message.message_type !== 'location';
+              const isRead = receipt?.status === 'read';
+              const readCount = receipt?.readers.length ?? 0;
               const isSearchMode = Boolean(normalizedSearch);
               const senderLabel =
                 message.sender?.full_name || (isMine ? 'Anda' : 'Pengguna');
@@ -812,7 +945,12 @@ export default function ChatDetailPage() {
                         />
                       )}
                       {hasMedia && message.message_type === 'audio' && (
-                        <audio src={message.media_url} controls className="mb-2 w-full" />
+                        <VoiceNotePlayer
+                          src={message.media_url!}
+                          durationSeconds={message.media_duration}
+                          waveform={message.waveform}
+                          isMine={isMine}
+                        />
                       )}
                       {hasMedia && message.message_type === 'file' && (
                         <a
@@ -826,6 +964,8 @@ export default function ChatDetailPage() {
                           {message.file_name || 'Buka lampiran'}
                         </a>
                       )}
+                      {message.location && <LocationMessageCard location={message.location} isMine={isMine} />}
+                      {message.poll_id && <PollCard pollId={message.poll_id} isMine={isMine} />}
 
                       {messageText}
                       <div className={`mt-1 text-[11px] ${isMine ? 'text-white/75' : 'text-muted-foreground/80'}`}>
@@ -833,17 +973,33 @@ export default function ChatDetailPage() {
                           addSuffix: true,
                           locale: id,
                         })}
+                        {message.edited_at && (
+                          <button
+                            type="button"
+                            onClick={() => setHistoryMessageId(message.id)}
+                            className="ml-1 italic underline-offset-2 hover:underline"
+                            aria-label="Lihat riwayat edit"
+                          >
+                            (diedit)
+                          </button>
+                        )}
                       </div>
                       {showReadStatus && (
-                        <div
-                          className={`mt-0.5 inline-flex items-center gap-1 text-[10px] ${
-                            isMine ? 'text-white/85' : 'text-muted-foreground/80'
+                        <button
+                          type="button"
+                          onClick={() => setReceiptMessageId(message.id)}
+                          disabled={!isGroupChat || !receipt}
+                          className={`mt-0.5 inline-flex items-center gap-1 text-[10px] disabled:cursor-default ${
+                            isRead ? 'text-sky-200' : 'text-white/85'
                           }`}
+                          aria-label={isGroupChat ? 'Lihat siapa yang sudah membaca' : undefined}
                         >
-                          {readCount > 0 ? (
+                          {isRead || (isGroupChat && readCount > 0) ? (
                             <>
                               <CheckCheck className="h-3.5 w-3.5" />
-                              {isGroupChat ? `Dibaca ${readCount}` : 'Dibaca'}
+                              {isGroupChat
+                                ? `Dibaca ${readCount}/${receipt?.total_recipients ?? 0}`
+                                : 'Dibaca'}
                             </>
                           ) : (
                             <>
@@ -851,7 +1007,7 @@ export default function ChatDetailPage() {
                               Terkirim
                             </>
                           )}
-                        </div>
+                        </button>
                       )}
                       {isSearchMode ? (
                         <div className="mt-1">
@@ -877,13 +1033,24 @@ export default function ChatDetailPage() {
                         <div className="mt-1 flex items-center gap-3">
                           <button
                             type="button"
-                            onClick={() => setReplyToMessageId(message.id)}
+                            onClick={() => startReplying(message.id)}
                             className={`text-[11px] font-medium ${
                               isMine ? 'text-white/90' : 'text-muted-foreground'
                             }`}
                           >
                             Balas
                           </button>
+                          {canSendMessage && canEditMessage(message, user?.id) && (
+                            <button
+                              type="button"
+                              onClick={() => startEditing(message.id)}
+                              className={`text-[11px] font-medium ${
+                                isMine ? 'text-white/90' : 'text-muted-foreground'
+                              }`}
+                            >
+                              Edit
+                            </button>
+                          )}
                           {(replyCount > 0 || message.reply_to_id) && (
                             <button
                               type="button"
@@ -913,6 +1080,28 @@ export default function ChatDetailPage() {
             </div>
           )}
 
+          {editingMessage && (
+            <div className="composer-chip-enter mb-2 flex items-center justify-between rounded-lg border border-border bg-card px-3 py-2 text-xs">
+              <div className="min-w-0">
+                <p className="flex items-center gap-1 font-semibold text-foreground">
+                  <Pencil className="h-3 w-3" />
+                  Mengedit pesan:
+                </p>
+                <p className="truncate text-muted-foreground">{editingMessage.content}</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-foreground/80 hover:bg-muted/60 hover:text-foreground"
+                onClick={cancelEditing}
+                aria-label="Batal edit pesan"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
           {replyToMessage && (
             <div className="composer-chip-enter mb-2 flex items-center justify-between rounded-lg border border-border bg-card px-3 py-2 text-xs">
               <div className="min-w-0">
@@ -961,34 +1150,157 @@ export default function ChatDetailPage() {
             onChange={handleAttachmentChange}
           />
 
-          <div className="flex items-center gap-2">
-            <Button
-              type="button"
-              variant="outline"
-              size="icon"
-              onClick={() => fileInputRef.current?.click()}
-              disabled={isSending || !canSendMessage}
-              className="border-border bg-transparent text-foreground/90 hover:bg-muted/60"
-              aria-label="Tambah lampiran"
-            >
-              <Paperclip className="h-4 w-4" />
-            </Button>
-            <Input
-              value={text}
-              onChange={(event) => setText(event.target.value)}
-              placeholder={selectedFile ? 'Tambahkan caption...' : 'Tulis pesan...'}
-              disabled={isSending || !canSendMessage}
-              className="border-border bg-card text-foreground placeholder:text-muted-foreground/80"
-            />
-            <Button
-              type="submit"
-              disabled={isSending || !canSendMessage || (!text.trim() && !selectedFile)}
-              className="bg-accent text-white hover:bg-accent/90"
-              aria-label="Kirim pesan"
-            >
-              {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-            </Button>
-          </div>
+          {recorder.status === 'preview' && recorder.draft ? (
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={recorder.discardDraft}
+                disabled={isSending}
+                className="border-border bg-transparent text-foreground/90 hover:bg-muted/60"
+                aria-label="Hapus rekaman suara"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+              <div className="min-w-0 flex-1 rounded-full border border-border bg-card px-3 py-1">
+                <VoiceNotePlayer
+                  src={recorder.draft.url}
+                  durationSeconds={recorder.draft.durationSeconds}
+                  waveform={recorder.draft.waveform}
+                />
+              </div>
+              <Button
+                type="button"
+                onClick={() => void handleSendVoiceNote()}
+                disabled={isSending || !canSendMessage}
+                className="bg-accent text-white hover:bg-accent/90"
+                aria-label="Kirim pesan suara"
+              >
+                {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              {recorder.status === 'idle' ? (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isSending || !canSendMessage || Boolean(editingMessage)}
+                    className="border-border bg-transparent text-foreground/90 hover:bg-muted/60"
+                    aria-label="Tambah lampiran"
+                  >
+                    <Paperclip className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setIsLocationDialogOpen(true)}
+                    disabled={isSending || !canSendMessage || Boolean(editingMessage)}
+                    className="border-border bg-transparent text-foreground/90 hover:bg-muted/60"
+                    aria-label="Bagikan lokasi"
+                  >
+                    <MapPin className="h-4 w-4" />
+                  </Button>
+                  {isGroupChat && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setIsPollDialogOpen(true)}
+                      disabled={isSending || !canSendMessage || Boolean(editingMessage)}
+                      className="border-border bg-transparent text-foreground/90 hover:bg-muted/60"
+                      aria-label="Buat polling"
+                    >
+                      <BarChart3 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Input
+                    value={text}
+                    onChange={(event) => {
+                      setText(event.target.value);
+                      if (event.target.value) {
+                        notifyTyping();
+                      } else {
+                        stopTyping();
+                      }
+                    }}
+                    onBlur={stopTyping}
+                    placeholder={
+                      editingMessage ? 'Ubah pesan...' : selectedFile ? 'Tambahkan caption...' : 'Tulis pesan...'
+                    }
+                    disabled={isSending || isEditing || !canSendMessage}
+                    className="border-border bg-card text-foreground placeholder:text-muted-foreground/80"
+                  />
+                </>
+              ) : (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={recorder.cancel}
+                    className="border-border bg-transparent text-foreground/90 hover:bg-muted/60"
+                    aria-label="Batalkan rekaman"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                  <div className="flex h-9 min-w-0 flex-1 items-center gap-2 rounded-md border border-border bg-card px-3">
+                    <span className="h-2 w-2 shrink-0 animate-pulse rounded-full bg-red-500" />
+                    <span className="shrink-0 text-xs font-medium tabular-nums text-foreground">
+                      {formatAudioDuration(recorder.elapsedSeconds)}
+                    </span>
+                    <VoiceWaveform bars={recorder.liveLevels} className="min-w-0 flex-1 overflow-hidden" />
+                    <span className="hidden shrink-0 text-[11px] text-muted-foreground sm:inline">
+                      Lepas untuk selesai
+                    </span>
+                  </div>
+                </>
+              )}
+              {recorder.status === 'idle' && (text.trim() || selectedFile || editingMessage) ? (
+                <Button
+                  type="submit"
+                  disabled={isSending || isEditing || !canSendMessage}
+                  className="bg-accent text-white hover:bg-accent/90"
+                  aria-label={editingMessage ? 'Simpan perubahan pesan' : 'Kirim pesan'}
+                >
+                  {isSending || isEditing ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : editingMessage ? (
+                    <Check className="h-4 w-4" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  disabled={isSending || !canSendMessage}
+                  onPointerDown={(event) => {
+                    event.currentTarget.setPointerCapture(event.pointerId);
+                    void recorder.start();
+                  }}
+                  onPointerUp={recorder.stop}
+                  onPointerCancel={recorder.cancel}
+                  onContextMenu={(event) => event.preventDefault()}
+                  className={`touch-none select-none text-white ${
+                    recorder.status === 'idle' ? 'bg-accent hover:bg-accent/90' : 'bg-red-500 hover:bg-red-500/90'
+                  }`}
+                  aria-label="Tahan untuk merekam pesan suara"
+                >
+                  {recorder.status === 'starting' ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Mic className="h-4 w-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+          )}
         </form>
       </Card>
 
@@ -1070,6 +1382,35 @@ export default function ChatDetailPage() {
         </DialogContent>
       </Dialog>
 
+      <MessageReadReceiptsSheet
+        message={receiptMessage}
+        receipt={receiptMessage ? receiptsByMessageId.get(receiptMessage.id) : undefined}
+        onOpenChange={(nextOpen) => {
+          if (!nextOpen) setReceiptMessageId(null);
+        }}
+      />
+
+      <MessageEditHistoryDialog
+        message={historyMessage}
+        onOpenChange={(nextOpen) => {
+          if (!nextOpen) setHistoryMessageId(null);
+        }}
+      />
+
+      <CreatePollDialog
+        open={isPollDialogOpen}
+        onOpenChange={setIsPollDialogOpen}
+        onSubmit={handleCreatePoll}
+        isSubmitting={isCreatingPoll || isSending}
+      />
+
+      <ShareLocationDialog
+        open={isLocationDialogOpen}
+        onOpenChange={setIsLocationDialogOpen}
+        onShare={(location) => void handleShareLocation(location)}
+        isSending={isSending}
+      />
+
       <Dialog
         open={isThreadDialogOpen}
         onOpenChange={(nextOpen) => {
@@ -1117,6 +1458,7 @@ export default function ChatDetailPage() {
                           addSuffix: true,
                           locale: id,
                         })}
+                        {message.edited_at && ' (diedit)'}
                       </span>
                     </div>
 
@@ -1145,7 +1487,11 @@ export default function ChatDetailPage() {
                       />
                     )}
                     {message.media_url && message.message_type === 'audio' && (
-                      <audio src={message.media_url} controls className="mb-2 w-full" />
+                      <VoiceNotePlayer
+                        src={message.media_url}
+                        durationSeconds={message.media_duration}
+                        waveform={message.waveform}
+                      />
                     )}
                     {message.media_url && message.message_type === 'file' && (
                       <a
@@ -1157,8 +1503,12 @@ export default function ChatDetailPage() {
                         {message.file_name || 'Buka lampiran'}
                       </a>
                     )}
+                    {message.location && <LocationMessageCard location={message.location} />}
+                    {message.poll_id && <PollCard pollId={message.poll_id} />}
 
-                    <p className="text-sm">{message.content || message.file_name || '[media]'}</p>
+                    {!message.location && !message.poll_id && message.media_duration === undefined && (
+                      <p className="text-sm">{message.content || message.file_name || '[media]'}</p>
+                    )}
 
                     <div className="mt-2 flex flex-wrap items-center gap-2">
                       <Button
@@ -1167,7 +1517,7 @@ export default function ChatDetailPage() {
                         size="sm"
                         className="border-border bg-transparent text-foreground/90 hover:bg-muted/60"
                         onClick={() => {
-                          setReplyToMessageId(message.id);
+                          startReplying(message.id);
                           setIsThreadDialogOpen(false);
                         }}
                       >
@@ -1233,22 +1583,32 @@ export default function ChatDetailPage() {
                     const memberName =
                       member.profile?.full_name ||
                       (member.user_id === user?.id ? 'Anda' : member.user_id);
+                    const memberPresence = presenceByUserId.get(member.user_id);
+                    const memberStatus =
+                      member.user_id === user?.id
+                        ? 'Anda'
+                        : memberPresence?.is_online
+                          ? 'Online'
+                          : formatLastSeen(memberPresence?.last_seen_at) ?? member.user_id;
 
                     return (
                       <div
                         key={member.id}
                         className="flex items-center gap-3 rounded-lg border border-border bg-card px-3 py-2"
                       >
-                        <Avatar className="h-9 w-9">
-                          <AvatarImage
-                            src={member.profile?.avatar_url}
-                            alt={member.profile?.full_name || member.user_id}
-                          />
-                          <AvatarFallback>{getInitials(member.profile?.full_name)}</AvatarFallback>
-                        </Avatar>
+                        <div className="relative shrink-0">
+                          <Avatar className="h-9 w-9">
+                            <AvatarImage
+                              src={member.profile?.avatar_url}
+                              alt={member.profile?.full_name || member.user_id}
+                            />
+                            <AvatarFallback>{getInitials(member.profile?.full_name)}</AvatarFallback>
+                          </Avatar>
+                          <OnlineIndicator isOnline={Boolean(memberPresence?.is_online)} className="h-2.5 w-2.5" />
+                        </div>
                         <div className="min-w-0 flex-1">
                           <p className="truncate text-sm font-semibold">{memberName}</p>
-                          <p className="truncate text-xs text-muted-foreground">{member.user_id}</p>
+                          <p className="truncate text-xs text-muted-foreground">{memberStatus}</p>
                         </div>
                         <Badge variant={member.role === 'admin' ? 'default' : 'outline'}>
                           {member.role === 'admin' ? 'Admin' : 'Member'}
@@ -5,6 +5,7 @@
 import { AppHeader } from '@/components/layout/app-header';
 import { DesktopSidebar } from '@/components/layout/desktop-sidebar';
 import { BottomNav } from '@/components/layout/bottom-nav';
+import { PresenceTracker } from '@/components/chat/presence-tracker';
 import { useAuth } from '@/lib/features/auth/use-auth';
 import { cn } from '@/lib/utils';
 import { usePathname, useRouter } from 'next/navigation';
@@ -43,6 +44,7 @@ export default function MainLayout({
 
   return (
     <div className="min-h-screen bg-background">
+      <PresenceTracker />
       <AppHeader />
 
       <div className="pt-0">
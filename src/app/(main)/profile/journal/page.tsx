@@ -0,0 +1,260 @@
+// Mass Journal Page
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, CalendarCheck, Church, Flame, ShieldCheck, Sun } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { MASS_JOURNAL_SETTINGS } from '@/lib/constants';
+import { buildJournalStats, getLocalDateKey } from '@/lib/features/radar/mass-journal';
+import { useMassJournal } from '@/lib/features/radar/use-radar';
+import { resolveTimeZone } from '@/lib/features/schedule/mass-occurrence';
+import type { LiturgicalSeason } from '@/lib/types';
+import { MassJournalHeatmap } from '@/components/journal/mass-journal-heatmap';
+import { MassJournalShareCard } from '@/components/journal/mass-journal-share-card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Skeleton } from '@/components/ui/skeleton';
+
+const HISTORY_PAGE_SIZE = 20;
+
+const SEASON_LABELS: Record<LiturgicalSeason, string> = {
+  advent: 'Adven',
+  christmas: 'Natal',
+  lent: 'Prapaskah',
+  triduum: 'Tri Hari Suci',
+  easter: 'Paskah',
+  ordinary: 'Masa Biasa',
+};
+
+const monthChartConfig = {
+  count: { label: 'Misa', color: 'var(--chart-1)' },
+} satisfies ChartConfig;
+
+const seasonChartConfig = {
+  count: { label: 'Misa', color: 'var(--chart-2)' },
+} satisfies ChartConfig;
+
+function formatMonthTick(value: string) {
+  return new Intl.DateTimeFormat('id-ID', { timeZone: 'UTC', month: 'short' }).format(
+    new Date(`${value}-01T00:00:00Z`)
+  );
+}
+
+function formatEntryDate(date: string) {
+  return new Intl.DateTimeFormat('id-ID', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  }).format(new Date(`${date}T00:00:00Z`));
+}
+
+function StatTile({
+  icon: Icon,
+  value,
+  label,
+  hint,
+}: {
+  icon: typeof Flame;
+  value: number;
+  label: string;
+  hint?: string;
+}) {
+  return (
+    <Card>
+      <CardContent className="space-y-1 p-4">
+        <Icon className="h-4 w-4 text-primary" />
+        <p className="text-2xl font-bold">{value}</p>
+        <p className="text-sm font-medium">{label}</p>
+        {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function MassJournalPage() {
+  const { data: entries = [], isLoading } = useMassJournal();
+  const [historyLimit, setHistoryLimit] = useState(HISTORY_PAGE_SIZE);
+  const timeZone = resolveTimeZone();
+  const stats = useMemo(() => buildJournalStats(entries, new Date(), timeZone), [entries, timeZone]);
+  const today = getLocalDateKey(new Date(), timeZone);
+  const seasonData = stats.seasons.map((item) => ({ ...item, label: SEASON_LABELS[item.season] }));
+
+  return (
+    <div className="mx-auto w-full max-w-4xl space-y-4 sm:space-y-5">
+      <div className="rounded-2xl border border-primary/20 bg-gradient-to-r from-primary/10 via-primary/5 to-background p-4 sm:p-6">
+        <Button asChild variant="ghost" size="sm" className="-ml-2 mb-2">
+          <Link href="/profile">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Profil
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold tracking-tight sm:text-3xl">Jurnal Misa</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Riwayat check-in misa Anda. Hanya Anda yang bisa melihat halaman ini.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {Array.from({ length: 4 }, (_, index) => (
+            <Skeleton key={index} className="h-28 rounded-xl" />
+          ))}
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="space-y-3 p-6 text-center">
+            <CalendarCheck className="mx-auto h-8 w-8 text-muted-foreground" />
+            <p className="font-medium">Belum ada misa tercatat</p>
+            <p className="text-sm text-muted-foreground">Check-in saat misa di Radar untuk mulai mengisi jurnal.</p>
+            <Button asChild>
+              <Link href="/radar">Buka Radar</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <StatTile
+              icon={CalendarCheck}
+              value={stats.totalCheckIns}
+              label="Misa tercatat"
+              hint={stats.verifiedCount > 0 ? `${stats.verifiedCount} terverifikasi` : undefined}
+            />
+            <StatTile
+              icon={Sun}
+              value={stats.currentSundayStreak}
+              label="Minggu berturut-turut"
+              hint={`Terpanjang ${stats.longestSundayStreak}`}
+            />
+            <StatTile
+              icon={Flame}
+              value={stats.currentWeekStreak}
+              label="Pekan berturut-turut"
+              hint={`Terpanjang ${stats.longestWeekStreak}`}
+            />
+            <StatTile icon={Church} value={stats.churchCount} label="Gereja dikunjungi" />
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">{MASS_JOURNAL_SETTINGS.HEATMAP_WEEKS} pekan terakhir</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MassJournalHeatmap countsByDate={stats.countsByDate} today={today} />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Misa per bulan</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={monthChartConfig} className="aspect-auto h-56 w-full">
+                  <BarChart data={stats.months} margin={{ left: -20, right: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={formatMonthTick} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={(value) => formatMonthTick(String(value))} />}
+                    />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Menurut masa liturgi</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={seasonChartConfig} className="aspect-auto h-56 w-full">
+                  <BarChart data={seasonData} layout="vertical" margin={{ left: 8, right: 8 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="label" width={96} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Gereja yang dikunjungi</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2">
+                  {stats.churches.map((church) => (
+                    <li key={church.churchId} className="space-y-1">
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{church.churchName}</span>
+                        <span className="shrink-0 text-muted-foreground">{church.count}x</span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-muted">
+                        <div
+                          className="h-1.5 rounded-full bg-primary"
+                          style={{ width: `${(church.count / stats.churches[0].count) * 100}%` }}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+
+            <MassJournalShareCard stats={stats} />
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Riwayat</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y divide-border/60">
+                {entries.slice(0, historyLimit).map((entry) => (
+                  <li key={entry.id} className="flex items-center justify-between gap-3 py-2.5 text-sm">
+                    <span className="min-w-0">
+                      <span className="block font-medium">{formatEntryDate(entry.date)}</span>
+                      <span className="block truncate text-muted-foreground">{entry.church_name || 'Gereja'}</span>
+                    </span>
+                    {entry.verified && (
+                      <Badge variant="outline" className="shrink-0 gap-1">
+                        <ShieldCheck className="h-3 w-3" />
+                        Terverifikasi
+                      </Badge>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {entries.length > historyLimit && (
+                <Button
+                  variant="ghost"
+                  className="mt-2 w-full"
+                  onClick={() => setHistoryLimit((current) => current + HISTORY_PAGE_SIZE)}
+                >
+                  Tampilkan lebih banyak
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
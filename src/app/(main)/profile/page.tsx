@@ -8,6 +8,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import {
   AlertTriangle,
   Calendar,
+  CalendarCheck,
   CalendarPlus,
   Church,
   Hourglass,
@@ -24,6 +25,7 @@ import { useProfile } from '@/lib/features/profile/use-profile';
 import { useCreateChat } from '@/lib/features/chat/use-chat';
 import { useProfilePosts, useRepliedPosts, useSharedPosts } from '@/lib/features/feed/use-posts';
 import { PostCard } from '@/components/feed/post-card';
+import { StoryHighlightsRail } from '@/components/stories/story-highlights-rail';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -202,6 +204,17 @@ export default function ProfilePage({ params }: { params?: { id?: string } }) {
                       >
                         <Link href="/profile/edit">Edit Profil</Link>
                       </Button>
+                      <Button
+                        asChild
+                        variant="outline"
+                        size="icon"
+                        className="rounded-xl border-border/70 transition-transform hover:-translate-y-0.5"
+                        aria-label="Jurnal Misa"
+                      >
+                        <Link href="/profile/journal">
+                          <CalendarCheck className="h-5 w-5" />
+                        </Link>
+                      </Button>
                       <Button
                         variant="outline"
                         size="icon"
@@ -337,6 +350,8 @@ export default function ProfilePage({ params }: { params?: { id?: string } }) {
         </CardContent>
       </Card>
 
+      <StoryHighlightsRail userId={profile.id} isOwnProfile={isOwnProfile} />
+
       <Tabs defaultValue={initialTab} className="w-full">
         <TabsList className={cn('grid h-auto w-full max-w-xl grid-cols-3 rounded-xl border border-border/70 bg-card p-1 shadow-sm')}>
           <TabsTrigger
@@ -1,10 +1,8 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { format } from 'date-fns';
-import { id as idLocale } from 'date-fns/locale';
 import {
   ArrowLeft,
   BellRing,
@@ -12,12 +10,14 @@ import {
   CalendarPlus,
   Flag,
   Heart,
+  Hourglass,
   Loader2,
   LogOut,
   MapPin,
   MessageSquare,
   MoreHorizontal,
   Pencil,
+  QrCode,
   Reply,
   Share2,
   Shield,
@@ -27,10 +27,14 @@ import {
   Users,
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { RadarAttendanceCard } from '@/components/radar/radar-attendance-card';
+import { RadarAttendanceScanner } from '@/components/radar/radar-attendance-scanner';
+import { RadarSeriesCard } from '@/components/radar/radar-series-card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
@@ -39,13 +43,46 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { RADAR_SETTINGS } from '@/lib/constants';
 import { useAuth } from '@/lib/features/auth/use-auth';
+import { CalendarService } from '@/lib/features/calendar/calendar-service';
+import { formatIcsUtc } from '@/lib/features/calendar/ics';
 import { ChatService } from '@/lib/features/chat/chat-service';
+import { isAttendanceOpen } from '@/lib/features/radar/radar-attendance';
+import {
+  formatRadarDateTimeLabel,
+  formatRadarLocationLabel,
+  toLocalDateTimeValue,
+} from '@/lib/features/radar/radar-format';
+import { RadarInviteService } from '@/lib/features/radar/radar-invite-service';
+import {
+  RadarService,
+  extractMissingColumnName,
+  insertWithColumnFallback,
+  isDuplicateError,
+  isJoinedMembershipStatus,
+  isMissingColumnError,
+  isMissingRelationError,
+  isMissingSchemaObjectError,
+  isPendingMembershipStatus,
+  isPermissionError,
+  normalizeMembershipStatus,
+  normalizeRadarVisibility,
+} from '@/lib/features/radar/radar-service';
+import { RadarSeriesService } from '@/lib/features/radar/radar-series-service';
+import { formatWaitlistPosition, getWaitlistPosition, getWaitlistQueue } from '@/lib/features/radar/radar-waitlist';
+import {
+  useConfirmRadarAttendance,
+  useRadarAttendance,
+  useRadarEvent,
+  useRadarMembership,
+  useRadarParticipants,
+} from '@/lib/features/radar/use-radar';
 import { supabase } from '@/lib/supabase/client';
+import type { RadarEvent, RadarMembershipState, RadarParticipant, RadarSource } from '@/lib/types';
 import { createRandomUUID } from '@/lib/utils';
 
-type RadarSource = 'legacy' | 'v2';
-type MembershipState = 'NONE' | 'PENDING' | 'JOINED';
+type MembershipState = RadarMembershipState;
 
 type RadarDetailItem = {
   id: string;
@@ -65,6 +102,7 @@ type RadarDetailItem = {
   requireHostApproval?: boolean;
   status?: string;
   visibility?: string;
+  seriesId?: string;
   source: RadarSource;
 };
 
@@ -99,494 +137,29 @@ type RadarCommentItem = {
 
 const RADAR_REPORT_REASONS = ['Spam', 'Konten Menyesatkan', 'Pelecehan', 'Penipuan', 'Lainnya'];
 
-function readErrorMessage(error: unknown) {
-  if (!error) return '';
-  if (typeof error === 'string') return error;
-  if (typeof error === 'object' && 'message' in error && typeof (error as { message?: unknown }).message === 'string') {
-    return (error as { message: string }).message;
-  }
-  try {
-    const raw = JSON.stringify(error);
-    return raw === '{}' ? '' : raw;
-  } catch {
-    return '';
-  }
-}
-
-function isMissingColumnError(message: unknown) {
-  const lower = readErrorMessage(message).toLowerCase();
-  return (
-    lower.includes('42703') ||
-    lower.includes('does not exist') ||
-    (lower.includes('could not find') && lower.includes('column'))
-  );
-}
-
-function isMissingRelationError(message: unknown) {
-  const lower = readErrorMessage(message).toLowerCase();
-  return (
-    lower.includes('42p01') ||
-    (lower.includes('relation') && lower.includes('does not exist')) ||
-    (lower.includes('table') && lower.includes('does not exist')) ||
-    lower.includes('could not find the table') ||
-    (lower.includes('schema cache') && (lower.includes('table') || lower.includes('relation')))
-  );
-}
-
-function isPermissionError(message: unknown) {
-  const lower = readErrorMessage(message).toLowerCase();
-  return (
-    lower.includes('42501') ||
-    lower.includes('permission denied') ||
-    lower.includes('row-level security')
-  );
-}
-
-function isFunctionMissingError(message: unknown) {
-  const lower = readErrorMessage(message).toLowerCase();
-  return lower.includes('could not find the function') || lower.includes('does not exist');
-}
-
-function isNotAuthenticatedError(message: unknown) {
-  return readErrorMessage(message).toLowerCase().includes('not authenticated');
-}
-
-function isMissingSchemaObjectError(message: unknown) {
-  const lower = readErrorMessage(message).toLowerCase();
-  return (
-    isMissingRelationError(message) ||
-    isMissingColumnError(message) ||
-    lower.includes('pgrst202') ||
-    lower.includes('schema cache')
-  );
-}
-
-function isDuplicateError(message: unknown) {
-  const lower = readErrorMessage(message).toLowerCase();
-  return lower.includes('23505') || lower.includes('duplicate key');
-}
-
-function extractMissingColumnName(message: unknown): string | null {
-  const raw = readErrorMessage(message);
-  if (!raw) return null;
-  const withQuote = raw.match(/column\s+"([^"]+)"/i);
-  if (withQuote?.[1]) return withQuote[1];
-  const withSingleQuote = raw.match(/column\s+'([^']+)'/i);
-  if (withSingleQuote?.[1]) return withSingleQuote[1];
-  const schemaCachePattern = raw.match(/could not find the ['"]([^'"]+)['"] column/i);
-  if (schemaCachePattern?.[1]) return schemaCachePattern[1];
-  return null;
-}
-
-function normalizeMembershipStatus(value: unknown) {
-  return value?.toString().trim().toUpperCase() || '';
-}
-
-function isJoinedMembershipStatus(status: string) {
-  return ['JOINED', 'HOST', 'MEMBER', 'APPROVED'].includes(status);
-}
-
-function isPendingMembershipStatus(status: string) {
-  return ['PENDING', 'REQUESTED', 'INVITED'].includes(status);
-}
-
-function formatDateTimeLabel(value?: string) {
-  if (!value) return '';
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return value;
-  return format(date, 'dd MMM yyyy HH:mm', { locale: idLocale });
-}
-
-function toLocalDateTimeValue(value?: string) {
-  const date = value ? new Date(value) : new Date();
-  if (Number.isNaN(date.getTime())) return '';
-  const year = date.getFullYear();
-  const month = `${date.getMonth() + 1}`.padStart(2, '0');
-  const day = `${date.getDate()}`.padStart(2, '0');
-  const hour = `${date.getHours()}`.padStart(2, '0');
-  const minute = `${date.getMinutes()}`.padStart(2, '0');
-  return `${year}-${month}-${day}T${hour}:${minute}`;
-}
-
-function toGoogleCalendarDate(value: Date) {
-  const year = value.getUTCFullYear();
-  const month = `${value.getUTCMonth() + 1}`.padStart(2, '0');
-  const day = `${value.getUTCDate()}`.padStart(2, '0');
-  const hour = `${value.getUTCHours()}`.padStart(2, '0');
-  const minute = `${value.getUTCMinutes()}`.padStart(2, '0');
-  const second = `${value.getUTCSeconds()}`.padStart(2, '0');
-  return `${year}${month}${day}T${hour}${minute}${second}Z`;
-}
-
-function normalizeRadarVisibility(value: unknown) {
-  const normalized = value?.toString().trim().toUpperCase();
-  if (!normalized) return 'PUBLIC';
-  if (normalized === 'PRIVATE' || normalized === 'PERSONAL') return 'PRIVATE';
-  return normalized;
-}
-
-function formatRadarLocationLabel(location: {
-  countryName?: string;
-  dioceseName?: string;
-  churchName?: string;
-}) {
-  return [location.countryName, location.dioceseName, location.churchName]
-    .map((value) => value?.trim() || '')
-    .filter(Boolean)
-    .join(' • ');
-}
-
 function formatParticipantStatus(status: string) {
   const normalized = normalizeMembershipStatus(status);
   if (normalized === 'JOINED' || normalized === 'HOST' || normalized === 'MEMBER' || normalized === 'APPROVED') return 'Bergabung';
   if (normalized === 'PENDING') return 'Menunggu';
+  if (normalized === 'WAITLISTED') return 'Daftar tunggu';
   if (normalized === 'REJECTED') return 'Ditolak';
   if (normalized === 'LEFT') return 'Keluar';
   if (normalized === 'KICKED') return 'Dikeluarkan';
   return normalized || 'Tidak diketahui';
 }
 
-async function selectRadarEventWithFallback(
-  table: 'radar_events' | 'radar_events_v2',
-  radarId: string,
-  columns: {
-    primary: string;
-    fallback?: string;
-  }
-) {
-  const primaryResult = await supabase
-    .from(table)
-    .select(columns.primary)
-    .eq('id', radarId)
-    .maybeSingle();
-
-  if (!primaryResult.error) {
-    return {
-      data: (primaryResult.data as Record<string, unknown> | null) ?? null,
-      error: null as { message: string } | null,
-    };
-  }
-
-  if (!isMissingColumnError(primaryResult.error.message) || !columns.fallback) {
-    return {
-      data: null,
-      error: { message: primaryResult.error.message },
-    };
-  }
-
-  const fallbackResult = await supabase
-    .from(table)
-    .select(columns.fallback)
-    .eq('id', radarId)
-    .maybeSingle();
-
-  if (!fallbackResult.error) {
-    return {
-      data: (fallbackResult.data as Record<string, unknown> | null) ?? null,
-      error: null as { message: string } | null,
-    };
-  }
-
-  return {
-    data: null,
-    error: { message: fallbackResult.error.message },
-  };
-}
-
-async function updateWithColumnFallback(
-  table: string,
-  payload: Record<string, unknown>,
-  matchers: Record<string, unknown>
-) {
-  const working = { ...payload };
-  for (let attempt = 0; attempt < 8; attempt += 1) {
-    let query = supabase.from(table).update(working);
-    for (const [key, value] of Object.entries(matchers)) {
-      query = query.eq(key, value);
-    }
-    const result = await query;
-
-    if (!result.error) {
-      return { error: null };
-    }
-
-    const missingColumn = extractMissingColumnName(result.error.message);
-    if (missingColumn && missingColumn in working && isMissingColumnError(result.error.message)) {
-      delete working[missingColumn];
-      continue;
-    }
-
-    return { error: result.error };
-  }
-
-  return { error: { message: `Gagal update ${table}` } };
-}
-
-async function insertWithColumnFallback(
-  table: string,
-  payload: Record<string, unknown>,
-  options?: { onConflict?: string }
-) {
-  const working = { ...payload };
-  for (let attempt = 0; attempt < 8; attempt += 1) {
-    const query = options?.onConflict
-      ? supabase.from(table).upsert(working, { onConflict: options.onConflict })
-      : supabase.from(table).insert(working);
-    const result = await query;
-    if (!result.error) {
-      return { error: null };
-    }
-
-    const missingColumn = extractMissingColumnName(result.error.message);
-    if (missingColumn && missingColumn in working && isMissingColumnError(result.error.message)) {
-      delete working[missingColumn];
-      continue;
-    }
-
-    return { error: result.error };
-  }
-
-  return { error: { message: `Gagal insert/upsert ${table}` } };
-}
-
-async function fetchProfileMap(userIds: string[]) {
-  const uniqueIds = [...new Set(userIds.filter(Boolean))];
-  const map = new Map<string, { fullName?: string; username?: string; avatarUrl?: string }>();
-  if (uniqueIds.length === 0) return map;
-
-  const result = await supabase
-    .from('profiles')
-    .select('id, full_name, username, avatar_url')
-    .in('id', uniqueIds);
-
-  if (result.error) {
-    return map;
-  }
-
-  for (const row of (result.data ?? []) as Record<string, unknown>[]) {
-    const id = row.id?.toString();
-    if (!id) continue;
-    map.set(id, {
-      fullName: row.full_name?.toString(),
-      username: row.username?.toString(),
-      avatarUrl: row.avatar_url?.toString(),
-    });
-  }
-
-  return map;
-}
-
-async function fetchRadarParticipants(radarId: string): Promise<RadarParticipantItem[]> {
-  const rows: RadarParticipantItem[] = [];
-
-  for (const source of ['legacy', 'v2'] as const) {
-    const table = source === 'v2' ? 'radar_participants_v2' : 'radar_participants';
-    const withProfile = await supabase
-      .from(table)
-      .select(
-        'id, radar_id, user_id, status, role, created_at, joined_at, profiles:user_id(id, full_name, username, avatar_url)'
-      )
-      .eq('radar_id', radarId)
-      .order('created_at', { ascending: true });
-
-    let data = withProfile.data as Record<string, unknown>[] | null;
-    let resultError = withProfile.error;
-    let includeProfile = true;
-
-    if (resultError && isMissingColumnError(resultError)) {
-      const fallback = await supabase
-        .from(table)
-        .select('id, radar_id, user_id, status, role, created_at')
-        .eq('radar_id', radarId)
-        .order('created_at', { ascending: true });
-      data = fallback.data as Record<string, unknown>[] | null;
-      resultError = fallback.error;
-      includeProfile = false;
-    }
-
-    if (resultError) {
-      if (!isPermissionError(resultError) && !isMissingRelationError(resultError)) {
-        console.error(`Error fetching participants from ${table}:`, readErrorMessage(resultError) || resultError);
-      }
-      continue;
-    }
-
-    for (const row of (data ?? []) as Record<string, unknown>[]) {
-      const userId = row.user_id?.toString();
-      if (!userId) continue;
-
-      const profile = includeProfile && row.profiles && typeof row.profiles === 'object'
-        ? (row.profiles as Record<string, unknown>)
-        : null;
-      const status = normalizeMembershipStatus(row.status) || 'JOINED';
-
-      rows.push({
-        id: row.id?.toString() || createRandomUUID(),
-        userId,
-        source,
-        status,
-        role: row.role?.toString(),
-        createdAt: row.created_at?.toString(),
-        joinedAt: row.joined_at?.toString() || row.created_at?.toString(),
-        fullName: profile?.full_name?.toString(),
-        username: profile?.username?.toString(),
-        avatarUrl: profile?.avatar_url?.toString(),
-      } satisfies RadarParticipantItem);
-    }
-  }
-
-  const byUser = new Map<string, RadarParticipantItem>();
-  const sourceRank: Record<RadarSource, number> = { legacy: 1, v2: 2 };
-  for (const item of rows) {
-    const existing = byUser.get(item.userId);
-    if (!existing) {
-      byUser.set(item.userId, item);
-      continue;
-    }
-
-    const existingJoined = isJoinedMembershipStatus(existing.status);
-    const currentJoined = isJoinedMembershipStatus(item.status);
-    if (currentJoined && !existingJoined) {
-      byUser.set(item.userId, item);
-      continue;
-    }
-    if (!currentJoined && existingJoined) {
-      continue;
-    }
-    if (sourceRank[item.source] > sourceRank[existing.source]) {
-      byUser.set(item.userId, item);
-      continue;
-    }
-    const existingTime = new Date(existing.createdAt || '').getTime();
-    const currentTime = new Date(item.createdAt || '').getTime();
-    if (!Number.isNaN(currentTime) && (Number.isNaN(existingTime) || currentTime > existingTime)) {
-      byUser.set(item.userId, item);
-    }
-  }
-
-  const deduped = Array.from(byUser.values());
-  const missingProfileIds = deduped
-    .filter((item) => !item.fullName && !item.username && !item.avatarUrl)
-    .map((item) => item.userId);
-  const fallbackProfiles = await fetchProfileMap(missingProfileIds);
-
-  const resolved = deduped.map((item) => {
-    const fallback = fallbackProfiles.get(item.userId);
-    return {
-      ...item,
-      fullName: item.fullName || fallback?.fullName,
-      username: item.username || fallback?.username,
-      avatarUrl: item.avatarUrl || fallback?.avatarUrl,
-    };
-  });
-
-  const roleRank = (role?: string) => {
-    const normalized = role?.trim().toUpperCase();
-    if (normalized === 'HOST') return 0;
-    if (normalized === 'ADMIN') return 1;
-    return 2;
-  };
-  const statusRank = (status: string) => {
-    if (isJoinedMembershipStatus(status)) return 0;
-    if (isPendingMembershipStatus(status)) return 1;
-    return 2;
-  };
-
-  resolved.sort((a, b) => {
-    const roleDiff = roleRank(a.role) - roleRank(b.role);
-    if (roleDiff !== 0) return roleDiff;
-
-    const statusDiff = statusRank(a.status) - statusRank(b.status);
-    if (statusDiff !== 0) return statusDiff;
-
-    const aTime = new Date(a.createdAt || '').getTime();
-    const bTime = new Date(b.createdAt || '').getTime();
-    return aTime - bTime;
-  });
-
-  return resolved;
-}
-
-async function fetchChurchLocationById(churchId?: string) {
-  const id = churchId?.trim();
-  if (!id) return null;
-
-  const churchSelectCandidates = [
-    'id, name, diocese_id, country_id',
-    'id, name, diocese_id',
-    'id, name, country_id',
-    'id, name',
-  ];
-  let churchRow: Record<string, unknown> | null = null;
-  for (const columns of churchSelectCandidates) {
-    const result = await supabase
-      .from('churches')
-      .select(columns)
-      .eq('id', id)
-      .maybeSingle();
-    if (!result.error) {
-      churchRow = (result.data as Record<string, unknown> | null) ?? null;
-      break;
-    }
-    if (isPermissionError(result.error.message) || isMissingRelationError(result.error.message)) {
-      return null;
-    }
-    if (!isMissingColumnError(result.error.message)) {
-      break;
-    }
-  }
-  if (!churchRow?.id) return null;
-
-  const churchName = churchRow.name?.toString().trim() || '';
-  const dioceseId = churchRow.diocese_id?.toString().trim() || '';
-  let countryId = churchRow.country_id?.toString().trim() || '';
-  let dioceseName = '';
-
-  if (dioceseId) {
-    const dioceseSelectCandidates = ['id, name, country_id', 'id, name'];
-    for (const columns of dioceseSelectCandidates) {
-      const result = await supabase
-        .from('dioceses')
-        .select(columns)
-        .eq('id', dioceseId)
-        .maybeSingle();
-      if (!result.error) {
-        const row = (result.data as Record<string, unknown> | null) ?? null;
-        dioceseName = row?.name?.toString().trim() || '';
-        const dioceseCountryId = row?.country_id?.toString().trim() || '';
-        if (!countryId && dioceseCountryId) {
-          countryId = dioceseCountryId;
-        }
-        break;
-      }
-      if (
-        isPermissionError(result.error.message) ||
-        isMissingRelationError(result.error.message) ||
-        !isMissingColumnError(result.error.message)
-      ) {
-        break;
-      }
-    }
-  }
-
-  let countryName = '';
-  if (countryId) {
-    const result = await supabase
-      .from('countries')
-      .select('id, name')
-      .eq('id', countryId)
-      .maybeSingle();
-    if (!result.error && result.data?.id) {
-      countryName = result.data.name?.toString().trim() || '';
-    }
-  }
-
+function toRadarParticipantItem(participant: RadarParticipant): RadarParticipantItem {
   return {
-    churchName: churchName || undefined,
-    dioceseId: dioceseId || undefined,
-    dioceseName: dioceseName || undefined,
-    countryId: countryId || undefined,
-    countryName: countryName || undefined,
+    id: participant.id,
+    userId: participant.user_id,
+    source: participant.source ?? 'v2',
+    status: participant.status,
+    role: participant.role,
+    createdAt: participant.created_at || undefined,
+    joinedAt: participant.joined_at || participant.created_at || undefined,
+    fullName: participant.profile?.full_name,
+    username: participant.profile?.username,
+    avatarUrl: participant.profile?.avatar_url,
   };
 }
 
@@ -933,950 +506,156 @@ async function fetchRadarComments(radarId: string, currentUserId?: string): Prom
   const missingProfileIds = comments
     .filter((item) => !item.fullName && !item.username && !item.avatarUrl)
     .map((item) => item.userId);
-  const fallbackProfiles = await fetchProfileMap(missingProfileIds);
+  const fallbackProfiles = await RadarService.getProfilesMap(missingProfileIds);
 
   return comments
     .map((item) => {
       const fallbackProfile = fallbackProfiles.get(item.userId);
       return {
         ...item,
-        fullName: item.fullName || fallbackProfile?.fullName,
+        fullName: item.fullName || fallbackProfile?.full_name,
         username: item.username || fallbackProfile?.username,
-        avatarUrl: item.avatarUrl || fallbackProfile?.avatarUrl,
+        avatarUrl: item.avatarUrl || fallbackProfile?.avatar_url,
       };
     })
     .sort((a, b) => new Date(a.createdAt || '').getTime() - new Date(b.createdAt || '').getTime());
 }
 
-async function createRadarComment(params: {
-  radar: RadarDetailItem;
-  userId: string;
-  content: string;
-  options?: {
-    parentId?: string;
-    replyToName?: string;
-    imageUrl?: string;
-  };
-}) {
-  const { radar, userId, content, options } = params;
-  const cleanContent = content.trim();
-  const normalizedImageUrl = options?.imageUrl?.trim();
-  if (!cleanContent && !normalizedImageUrl) {
-    throw new Error('Komentar tidak boleh kosong.');
-  }
-
-  const mentionPrefix =
-    options?.replyToName && !cleanContent.startsWith(`@${options.replyToName}`)
-      ? `@${options.replyToName} `
-      : '';
-  const composedContent = `${mentionPrefix}${cleanContent}`.trim() || mentionPrefix.trim();
-
-  const nativePayload: Record<string, unknown> = {
-    user_id: userId,
-    radar_id: radar.id,
-    content: composedContent || ' ',
-  };
-  if (options?.parentId) {
-    nativePayload.parent_id = options.parentId;
-  }
-  if (normalizedImageUrl) {
-    nativePayload.image_url = normalizedImageUrl;
-  }
-
-  let nativeInsert = await supabase
-    .from('radar_comments')
-    .insert(nativePayload)
-    .select('id')
-    .maybeSingle();
-  let triedParentFallback = false;
-  let triedImageFallback = false;
-
-  while (nativeInsert.error) {
-    if (
-      !triedParentFallback &&
-      options?.parentId &&
-      isMissingColumnError(nativeInsert.error.message) &&
-      extractMissingColumnName(nativeInsert.error.message) === 'parent_id'
-    ) {
-      triedParentFallback = true;
-      delete nativePayload.parent_id;
-      nativeInsert = await supabase
-        .from('radar_comments')
-        .insert(nativePayload)
-        .select('id')
-        .maybeSingle();
-      continue;
-    }
-
-    if (
-      !triedImageFallback &&
-      normalizedImageUrl &&
-      isMissingColumnError(nativeInsert.error.message) &&
-      extractMissingColumnName(nativeInsert.error.message) === 'image_url'
-    ) {
-      triedImageFallback = true;
-      delete nativePayload.image_url;
-      const baseContent = nativePayload.content?.toString().trim() || '';
-      nativePayload.content = baseContent
-        ? `${baseContent}\n[image] ${normalizedImageUrl}`
-        : `[image] ${normalizedImageUrl}`;
-      nativeInsert = await supabase
-        .from('radar_comments')
-        .insert(nativePayload)
-        .select('id')
-        .maybeSingle();
-      continue;
-    }
-    break;
-  }
-
-  if (!nativeInsert.error) {
-    return;
-  }
-
-  if (isPermissionError(nativeInsert.error.message)) {
-    throw new Error('Anda tidak memiliki izin untuk menulis komentar radar ini.');
-  }
-  if (!isMissingSchemaObjectError(nativeInsert.error.message)) {
-    throw new Error(nativeInsert.error.message);
-  }
-
-  const fallbackContent = normalizedImageUrl
-    ? `${composedContent || ''}${composedContent ? '\n' : ''}[image] ${normalizedImageUrl}`
-    : composedContent;
-  const tableCandidates =
-    radar.source === 'v2'
-      ? (['radar_change_logs_v2', 'radar_change_logs'] as const)
-      : (['radar_change_logs', 'radar_change_logs_v2'] as const);
-
-  let lastError = '';
-  for (const table of tableCandidates) {
-    if (table === 'radar_change_logs_v2') {
-      const insert = await insertWithColumnFallback('radar_change_logs_v2', {
-        radar_id: radar.id,
-        actor_id: userId,
-        change_type: 'COMMENT',
-        change_summary: fallbackContent,
-        after_data: {
-          comment: fallbackContent,
-          source: 'web',
-          reply_to: options?.replyToName || null,
-        },
-      });
-      if (!insert.error) return;
-      lastError = insert.error.message || '';
-      if (
-        !isMissingRelationError(lastError) &&
-        !isMissingColumnError(lastError) &&
-        !isPermissionError(lastError)
-      ) {
-        break;
-      }
-      continue;
-    }
-
-    const insert = await insertWithColumnFallback('radar_change_logs', {
-      radar_id: radar.id,
-      changed_by: userId,
-      change_type: 'COMMENT',
-      description: fallbackContent,
-    });
-    if (!insert.error) return;
-    lastError = insert.error.message || '';
-    if (
-      !isMissingRelationError(lastError) &&
-      !isMissingColumnError(lastError) &&
-      !isPermissionError(lastError)
-    ) {
-      break;
-    }
-  }
-
-  if (lastError && isPermissionError(lastError)) {
-    throw new Error('Anda tidak memiliki izin untuk menulis komentar radar ini.');
-  }
-  throw new Error('Komentar radar belum tersedia di server ini.');
-}
-
-async function fetchRadarDetail(radarId: string): Promise<RadarDetailItem | null> {
-  const legacy = await selectRadarEventWithFallback('radar_events', radarId, {
-    primary:
-      'id, title, description, event_time, max_participants, church_id, church_name, creator_id, allow_member_invite, require_host_approval, status, visibility',
-    fallback:
-      'id, title, description, event_time, max_participants, church_id, church_name, creator_id, allow_member_invite, status, visibility',
-  });
-
-  const v2 = await selectRadarEventWithFallback('radar_events_v2', radarId, {
-    primary:
-      'id, title, description, event_starts_at_utc, max_participants, church_id, church_name, creator_id, allow_member_invite, require_host_approval, status, visibility',
-    fallback:
-      'id, title, description, event_starts_at_utc, max_participants, church_id, church_name, creator_id, allow_member_invite, status, visibility',
-  });
-
-  let row: Record<string, unknown> | null = null;
-  let source: RadarSource | null = null;
-  if (!v2.error && v2.data?.id) {
-    row = v2.data as Record<string, unknown>;
-    source = 'v2';
-  } else if (!legacy.error && legacy.data?.id) {
-    row = legacy.data as Record<string, unknown>;
-    source = 'legacy';
-  }
-
-  if (!row || !source) {
-    return null;
-  }
-
-  const churchId = row.church_id?.toString() || '';
-  const churchLocation = churchId ? await fetchChurchLocationById(churchId) : null;
-  let churchName = row.church_name?.toString() || '';
-  if (!churchName) {
-    churchName = churchLocation?.churchName || '';
-  }
-
-  const participants = await fetchRadarParticipants(radarId);
-  const participantCount = participants.filter((item) => isJoinedMembershipStatus(item.status)).length;
-
-  return {
-    id: row.id?.toString() || radarId,
-    title: row.title?.toString() || 'Radar Misa',
-    description: row.description?.toString(),
-    startsAt: row.event_starts_at_utc?.toString() || row.event_time?.toString(),
-    maxParticipants: Number(row.max_participants ?? 0) || undefined,
-    participantCount,
-    churchId: churchId || undefined,
-    dioceseId: churchLocation?.dioceseId,
-    countryId: churchLocation?.countryId,
-    churchName: churchName || undefined,
-    dioceseName: churchLocation?.dioceseName,
-    countryName: churchLocation?.countryName,
-    creatorId: row.creator_id?.toString(),
-    allowMemberInvite:
-      typeof row.allow_member_invite === 'boolean' ? row.allow_member_invite : undefined,
-    requireHostApproval:
-      typeof row.require_host_approval === 'boolean' ? row.require_host_approval : undefined,
-    status: row.status?.toString(),
-    visibility: row.visibility?.toString(),
-    source,
-  };
-}
-
-async function fetchMyMembershipStatus(userId?: string, radarId?: string): Promise<MembershipState> {
-  if (!userId || !radarId) return 'NONE';
-
-  const rows: Array<{ status: string; source: RadarSource }> = [];
-  for (const source of ['legacy', 'v2'] as const) {
-    const table = source === 'v2' ? 'radar_participants_v2' : 'radar_participants';
-    const withRole = await supabase
-      .from(table)
-      .select('status, role')
-      .eq('radar_id', radarId)
-      .eq('user_id', userId)
-      .maybeSingle();
-
-    let data = withRole.data as Record<string, unknown> | null;
-    let resultError = withRole.error;
-    if (resultError && isMissingColumnError(resultError)) {
-      const fallback = await supabase
-        .from(table)
-        .select('status')
-        .eq('radar_id', radarId)
-        .eq('user_id', userId)
-        .maybeSingle();
-      data = fallback.data as Record<string, unknown> | null;
-      resultError = fallback.error;
-    }
-
-    if (resultError) {
-      if (!isPermissionError(resultError) && !isMissingColumnError(resultError) && !isMissingRelationError(resultError)) {
-        console.error(`Error fetching my status from ${table}:`, readErrorMessage(resultError) || resultError);
-      }
-      continue;
-    }
-    if (!data) continue;
-
-    const status = normalizeMembershipStatus(data.status);
-    const role = normalizeMembershipStatus(data.role);
-    rows.push({
-      status: role === 'HOST' && !status ? 'JOINED' : status || (role === 'HOST' ? 'JOINED' : 'JOINED'),
-      source,
-    });
-  }
-
-  if (rows.some((row) => isJoinedMembershipStatus(row.status))) return 'JOINED';
-  if (rows.some((row) => isPendingMembershipStatus(row.status))) return 'PENDING';
-  return 'NONE';
-}
-
-async function joinRadarEvent(params: {
-  radarId: string;
-  userId: string;
-  source: RadarSource;
-}) {
-  const { radarId, userId, source } = params;
-
-  if (source === 'v2') {
-    const rpc = await supabase.rpc('radar_v2_join_event', {
-      p_radar_id: radarId,
-      p_force_join: false,
-    });
-    if (!rpc.error) {
-      const raw = Array.isArray(rpc.data) ? rpc.data[0] : rpc.data;
-      const status = (raw as Record<string, unknown> | null)?.status?.toString().toUpperCase();
-      return status === 'PENDING' ? 'PENDING' : 'JOINED';
-    }
-    if (
-      !isFunctionMissingError(rpc.error.message) &&
-      !isPermissionError(rpc.error.message) &&
-      !isNotAuthenticatedError(rpc.error.message)
-    ) {
-      throw new Error(rpc.error.message);
-    }
-  } else {
-    const rpc = await supabase.rpc('join_radar_event', {
-      p_radar_id: radarId,
-      p_user_id: userId,
-    });
-    if (!rpc.error) {
-      const raw = Array.isArray(rpc.data) ? rpc.data[0] : rpc.data;
-      const status = (raw as Record<string, unknown> | null)?.status?.toString().toUpperCase();
-      return status === 'PENDING' ? 'PENDING' : 'JOINED';
-    }
-    if (
-      !isFunctionMissingError(rpc.error.message) &&
-      !isPermissionError(rpc.error.message) &&
-      !isNotAuthenticatedError(rpc.error.message)
-    ) {
-      throw new Error(rpc.error.message);
-    }
-  }
-
-  const eventTable = source === 'v2' ? 'radar_events_v2' : 'radar_events';
-  const policyWithApproval = await supabase
-    .from(eventTable)
-    .select('id, require_host_approval')
-    .eq('id', radarId)
-    .maybeSingle();
-  let eventPolicy = policyWithApproval.data as Record<string, unknown> | null;
-  let eventPolicyError = policyWithApproval.error;
-  if (eventPolicyError && isMissingColumnError(eventPolicyError.message)) {
-    const fallback = await supabase
-      .from(eventTable)
-      .select('id')
-      .eq('id', radarId)
-      .maybeSingle();
-    eventPolicy = fallback.data as Record<string, unknown> | null;
-    eventPolicyError = fallback.error;
-  }
-  if (eventPolicyError && !isPermissionError(eventPolicyError.message)) {
-    throw new Error(eventPolicyError.message);
-  }
-
-  const status: 'JOINED' | 'PENDING' =
-    eventPolicy?.require_host_approval === true ? 'PENDING' : 'JOINED';
-  const participantTables =
-    source === 'v2'
-      ? (['radar_participants_v2', 'radar_participants'] as const)
-      : (['radar_participants', 'radar_participants_v2'] as const);
-
-  for (const table of participantTables) {
-    const insertResult = await insertWithColumnFallback(table, {
-      radar_id: radarId,
-      user_id: userId,
-      role: 'MEMBER',
-      status,
-    });
-    if (!insertResult.error) {
-      return status;
-    }
-  }
-
-  throw new Error('Gagal bergabung ke radar.');
-}
-
-async function updateParticipantDecision(params: {
-  radarId: string;
-  targetUserId: string;
-  actorId: string;
-  source: RadarSource;
-  approve: boolean;
-}) {
-  const { radarId, targetUserId, actorId, source, approve } = params;
-  const eventTable = source === 'v2' ? 'radar_events_v2' : 'radar_events';
-  const withChatRoom = await supabase
-    .from(eventTable)
-    .select('id, creator_id, chat_room_id')
-    .eq('id', radarId)
-    .maybeSingle();
-  let eventRow = withChatRoom.data as Record<string, unknown> | null;
-  let eventError = withChatRoom.error;
-  if (eventError && isMissingColumnError(eventError.message)) {
-    const fallback = await supabase
-      .from(eventTable)
-      .select('id, creator_id')
-      .eq('id', radarId)
-      .maybeSingle();
-    eventRow = fallback.data as Record<string, unknown> | null;
-    eventError = fallback.error;
-  }
-
-  if (eventError && !isPermissionError(eventError.message)) {
-    throw new Error(eventError.message);
-  }
-
-  if (!eventRow?.id || eventRow.creator_id?.toString() !== actorId) {
-    throw new Error('Hanya host yang boleh memproses peserta pending.');
-  }
-
-  const nextStatus = approve ? 'JOINED' : 'REJECTED';
-  const nowIso = new Date().toISOString();
-  const participantTables =
-    source === 'v2'
-      ? (['radar_participants_v2', 'radar_participants'] as const)
-      : (['radar_participants', 'radar_participants_v2'] as const);
-
-  let updated = false;
-  let lastError = '';
-
-  for (const table of participantTables) {
-    const payload: Record<string, unknown> = approve
-      ? {
-          status: nextStatus,
-          role: 'MEMBER',
-          joined_at: nowIso,
-          left_at: null,
-          kicked_at: null,
-        }
-      : {
-          status: nextStatus,
-        };
-    const result = await updateWithColumnFallback(
-      table,
-      payload,
-      {
-        radar_id: radarId,
-        user_id: targetUserId,
-        status: 'PENDING',
-      }
-    );
-
-    if (!result.error) {
-      updated = true;
-      break;
-    }
-    lastError = result.error.message || '';
-    if (
-      !isMissingColumnError(lastError) &&
-      !isMissingRelationError(lastError) &&
-      !isPermissionError(lastError)
-    ) {
-      break;
-    }
-  }
-
-  if (!updated) {
-    throw new Error(lastError || 'Gagal memperbarui status peserta.');
-  }
-
-  if (approve) {
-    if (source === 'v2') {
-      const chatGroup = await supabase
-        .from('radar_chat_groups_v2')
-        .select('id')
-        .eq('radar_id', radarId)
-        .maybeSingle();
-      const chatGroupId = chatGroup.data?.id?.toString();
-      if (chatGroupId) {
-        await insertWithColumnFallback(
-          'radar_chat_members_v2',
-          {
-            chat_group_id: chatGroupId,
-            user_id: targetUserId,
-            role: 'MEMBER',
-            status: 'JOINED',
-            joined_at: nowIso,
-          },
-          { onConflict: 'chat_group_id, user_id' }
-        );
-      }
-    } else {
-      const chatRoomId = eventRow.chat_room_id?.toString();
-      if (chatRoomId) {
-        await insertWithColumnFallback(
-          'chat_members',
-          {
-            chat_id: chatRoomId,
-            user_id: targetUserId,
-          },
-          { onConflict: 'chat_id, user_id' }
-        );
-      }
-    }
-  }
-
-  await insertWithColumnFallback('notifications', {
-    user_id: targetUserId,
-    type: approve ? 'radar_join_approved' : 'radar_join_rejected',
-    title: approve ? 'Permintaan Join Disetujui' : 'Permintaan Join Ditolak',
-    message: approve
-      ? 'Host menyetujui permintaan Anda untuk bergabung ke radar.'
-      : 'Host menolak permintaan Anda untuk bergabung ke radar.',
-    sender_id: actorId,
-    actor_id: actorId,
-    data: {
-      radar_id: radarId,
-      status: nextStatus,
-    },
-  });
-}
-
-async function resolveRadarChatId(params: {
-  radarId: string;
-  source: RadarSource;
-}): Promise<string | null> {
-  const { radarId, source } = params;
-  if (!radarId.trim()) return null;
-
-  if (source === 'v2') {
-    const detailRpc = await supabase.rpc('radar_v2_get_event_detail', {
-      p_radar_id: radarId,
-    });
-
-    if (!detailRpc.error) {
-      const raw = Array.isArray(detailRpc.data) ? detailRpc.data[0] : detailRpc.data;
-      const row = (raw as Record<string, unknown> | null) ?? {};
-      const chatGroupId =
-        row.chat_group_id?.toString().trim() ||
-        row.chat_room_id?.toString().trim() ||
-        '';
-      if (chatGroupId) return chatGroupId;
-    } else if (
-      !isFunctionMissingError(detailRpc.error.message) &&
-      !isPermissionError(detailRpc.error.message) &&
-      !isNotAuthenticatedError(detailRpc.error.message)
-    ) {
-      throw new Error(detailRpc.error.message);
-    }
-
-    const chatGroup = await supabase
-      .from('radar_chat_groups_v2')
-      .select('id')
-      .eq('radar_id', radarId)
-      .order('created_at', { ascending: true })
-      .limit(1)
-      .maybeSingle();
-
-    if (chatGroup.error) {
-      if (
-        isPermissionError(chatGroup.error.message) ||
-        isMissingColumnError(chatGroup.error.message) ||
-        isMissingRelationError(chatGroup.error.message)
-      ) {
-        return null;
-      }
-      throw new Error(chatGroup.error.message);
-    }
-
-    const chatGroupId = chatGroup.data?.id?.toString().trim();
-    return chatGroupId || null;
-  }
-
-  const withChatRoom = await supabase
-    .from('radar_events')
-    .select('chat_room_id')
-    .eq('id', radarId)
-    .maybeSingle();
-  let eventRow = withChatRoom.data as Record<string, unknown> | null;
-  let eventError = withChatRoom.error;
-  if (eventError && isMissingColumnError(eventError.message)) {
-    const fallback = await supabase
-      .from('radar_events')
-      .select('id')
-      .eq('id', radarId)
-      .maybeSingle();
-    eventRow = fallback.data as Record<string, unknown> | null;
-    eventError = fallback.error;
-  }
-  if (eventError) {
-    if (isPermissionError(eventError.message) || isMissingRelationError(eventError.message)) {
-      return null;
-    }
-    throw new Error(eventError.message);
-  }
-
-  const chatRoomId = eventRow?.chat_room_id?.toString().trim();
-  return chatRoomId || null;
-}
-
-async function ensureRadarChatReady(params: {
-  radar: RadarDetailItem;
-  userId: string;
-  isHost: boolean;
-}): Promise<string | null> {
-  const { radar, userId, isHost } = params;
-  const chatId = await resolveRadarChatId({ radarId: radar.id, source: radar.source });
-  if (!chatId) return null;
-  const nowIso = new Date().toISOString();
-
-  if (radar.source === 'v2') {
-    const bridge = await supabase.rpc('radar_v2_ensure_chat_bridge', {
-      p_chat_group_id: chatId,
-      p_user_id: userId,
-    });
-    if (
-      bridge.error &&
-      !isFunctionMissingError(bridge.error.message) &&
-      !isPermissionError(bridge.error.message) &&
-      !isNotAuthenticatedError(bridge.error.message)
-    ) {
-      throw new Error(bridge.error.message);
-    }
-
-    await insertWithColumnFallback(
-      'radar_chat_members_v2',
-      {
-        chat_group_id: chatId,
-        user_id: userId,
-        role: isHost ? 'HOST' : 'MEMBER',
-        status: 'JOINED',
-        joined_at: nowIso,
-      },
-      { onConflict: 'chat_group_id, user_id' }
-    );
-  }
-
-  const existingChat = await supabase
-    .from('social_chats')
-    .select('id')
-    .eq('id', chatId)
-    .maybeSingle();
-  if (existingChat.error) {
-    if (
-      !isPermissionError(existingChat.error.message) &&
-      !isMissingColumnError(existingChat.error.message) &&
-      !isMissingRelationError(existingChat.error.message)
-    ) {
-      throw new Error(existingChat.error.message);
-    }
-  } else if (!existingChat.data?.id) {
-    const participants = Array.from(
-      new Set([userId, radar.creatorId].filter((value): value is string => Boolean(value)))
-    );
-    await insertWithColumnFallback(
-      'social_chats',
-      {
-        id: chatId,
-        is_group: true,
-        group_name: radar.title || 'Radar Misa',
-        admin_id: radar.creatorId || userId,
-        creator_id: radar.creatorId || userId,
-        participants,
-        invite_mode: 'open',
-        invite_link_enabled: false,
-        allow_member_invite: radar.allowMemberInvite !== false,
-        updated_at: nowIso,
-      },
-      undefined
-    );
-  }
-
-  await insertWithColumnFallback(
-    'chat_members',
-    {
-      chat_id: chatId,
-      user_id: userId,
-      role: isHost ? 'admin' : 'member',
-      status: 'JOINED',
-      joined_at: nowIso,
-    },
-    { onConflict: 'chat_id, user_id' }
-  );
-
-  return chatId;
-}
-
-async function leaveRadarEvent(params: {
-  radar: RadarDetailItem;
-  userId: string;
-}) {
-  const { radar, userId } = params;
-  const nowIso = new Date().toISOString();
-
-  if (radar.source === 'v2') {
-    const rpcLeave = await supabase.rpc('radar_v2_leave_event', {
-      p_radar_id: radar.id,
-    });
-    if (
-      rpcLeave.error &&
-      !isFunctionMissingError(rpcLeave.error.message) &&
-      !isPermissionError(rpcLeave.error.message) &&
-      !isNotAuthenticatedError(rpcLeave.error.message)
-    ) {
-      throw new Error(rpcLeave.error.message);
-    }
-    if (!rpcLeave.error) {
-      return;
-    }
-  } else {
-    const rpcLeave = await supabase.rpc('leave_radar_event', {
-      p_radar_id: radar.id,
-      p_user_id: userId,
-    });
-    if (
-      rpcLeave.error &&
-      !isFunctionMissingError(rpcLeave.error.message) &&
-      !isPermissionError(rpcLeave.error.message) &&
-      !isNotAuthenticatedError(rpcLeave.error.message)
-    ) {
-      throw new Error(rpcLeave.error.message);
-    }
-    if (!rpcLeave.error) {
-      return;
-    }
-  }
-
-  const participantTables =
-    radar.source === 'v2'
-      ? (['radar_participants_v2', 'radar_participants'] as const)
-      : (['radar_participants', 'radar_participants_v2'] as const);
-
-  let updated = false;
-  let lastError = '';
-  for (const table of participantTables) {
-    const result = await updateWithColumnFallback(
-      table,
-      {
-        status: 'LEFT',
-        left_at: nowIso,
-        updated_at: nowIso,
-      },
-      {
-        radar_id: radar.id,
-        user_id: userId,
-      }
-    );
-    if (!result.error) {
-      updated = true;
-      break;
-    }
-    lastError = result.error.message || '';
-    if (
-      !isMissingColumnError(lastError) &&
-      !isMissingRelationError(lastError) &&
-      !isPermissionError(lastError)
-    ) {
-      break;
-    }
-  }
-
-  if (!updated) {
-    throw new Error(lastError || 'Gagal keluar dari radar.');
-  }
-
-  const chatId = await resolveRadarChatId({
-    radarId: radar.id,
-    source: radar.source,
-  });
-  if (!chatId) return;
-
-  await supabase.from('chat_members').delete().eq('chat_id', chatId).eq('user_id', userId);
-  if (radar.source === 'v2') {
-    await updateWithColumnFallback(
-      'radar_chat_members_v2',
-      {
-        status: 'LEFT',
-        left_at: nowIso,
-      },
-      {
-        chat_group_id: chatId,
-        user_id: userId,
-      }
-    );
-  }
-}
-
-async function respondInviteById(params: {
-  inviteId: string;
-  accept: boolean;
+async function createRadarComment(params: {
+  radar: RadarDetailItem;
   userId: string;
+  content: string;
+  options?: {
+    parentId?: string;
+    replyToName?: string;
+    imageUrl?: string;
+  };
 }) {
-  const { inviteId, accept, userId } = params;
-  const nextStatus = accept ? 'ACCEPTED' : 'DECLINED';
-
-  const rpcV2 = await supabase.rpc('radar_v2_respond_invite', {
-    p_invite_id: inviteId,
-    p_accept: accept,
-  });
-  if (!rpcV2.error) return;
-  if (
-    rpcV2.error &&
-    !isFunctionMissingError(rpcV2.error.message) &&
-    !isPermissionError(rpcV2.error.message) &&
-    !isNotAuthenticatedError(rpcV2.error.message)
-  ) {
-    throw new Error(rpcV2.error.message);
+  const { radar, userId, content, options } = params;
+  const cleanContent = content.trim();
+  const normalizedImageUrl = options?.imageUrl?.trim();
+  if (!cleanContent && !normalizedImageUrl) {
+    throw new Error('Komentar tidak boleh kosong.');
   }
 
-  const rpcLegacy = await supabase.rpc('respond_radar_invite', {
-    p_invite_id: inviteId,
-    p_accept: accept,
-  });
-  if (!rpcLegacy.error) return;
-  if (
-    rpcLegacy.error &&
-    !isFunctionMissingError(rpcLegacy.error.message) &&
-    !isPermissionError(rpcLegacy.error.message) &&
-    !isNotAuthenticatedError(rpcLegacy.error.message)
-  ) {
-    throw new Error(rpcLegacy.error.message);
-  }
+  const mentionPrefix =
+    options?.replyToName && !cleanContent.startsWith(`@${options.replyToName}`)
+      ? `@${options.replyToName} `
+      : '';
+  const composedContent = `${mentionPrefix}${cleanContent}`.trim() || mentionPrefix.trim();
 
-  const updateResult = await supabase
-    .from('radar_invites')
-    .update({
-      status: nextStatus,
-      responded_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', inviteId)
-    .eq('invitee_id', userId);
-  if (
-    updateResult.error &&
-    !isMissingColumnError(updateResult.error.message) &&
-    !isPermissionError(updateResult.error.message)
-  ) {
-    throw new Error(updateResult.error.message);
+  const nativePayload: Record<string, unknown> = {
+    user_id: userId,
+    radar_id: radar.id,
+    content: composedContent || ' ',
+  };
+  if (options?.parentId) {
+    nativePayload.parent_id = options.parentId;
+  }
+  if (normalizedImageUrl) {
+    nativePayload.image_url = normalizedImageUrl;
   }
-}
-
-async function acceptPersonalRadarInvite(params: {
-  radarId: string;
-  userId: string;
-}) {
-  const { radarId, userId } = params;
-  if (!radarId.trim() || !userId.trim()) return;
 
-  const withSource = await supabase
-    .from('radar_invites')
-    .select('id, status, source')
-    .eq('radar_id', radarId)
-    .eq('invitee_id', userId)
-    .order('created_at', { ascending: false })
-    .limit(1)
+  let nativeInsert = await supabase
+    .from('radar_comments')
+    .insert(nativePayload)
+    .select('id')
     .maybeSingle();
+  let triedParentFallback = false;
+  let triedImageFallback = false;
 
-  let inviteRow = withSource.data as Record<string, unknown> | null;
-  let inviteError = withSource.error;
-  if (inviteError && isMissingColumnError(inviteError.message)) {
-    const fallback = await supabase
-      .from('radar_invites')
-      .select('id, status')
-      .eq('radar_id', radarId)
-      .eq('invitee_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-    inviteRow = fallback.data as Record<string, unknown> | null;
-    inviteError = fallback.error;
-  }
+  while (nativeInsert.error) {
+    if (
+      !triedParentFallback &&
+      options?.parentId &&
+      isMissingColumnError(nativeInsert.error.message) &&
+      extractMissingColumnName(nativeInsert.error.message) === 'parent_id'
+    ) {
+      triedParentFallback = true;
+      delete nativePayload.parent_id;
+      nativeInsert = await supabase
+        .from('radar_comments')
+        .insert(nativePayload)
+        .select('id')
+        .maybeSingle();
+      continue;
+    }
 
-  if (inviteError) {
-    if (!isPermissionError(inviteError.message) && !isMissingRelationError(inviteError.message)) {
-      throw new Error(inviteError.message);
+    if (
+      !triedImageFallback &&
+      normalizedImageUrl &&
+      isMissingColumnError(nativeInsert.error.message) &&
+      extractMissingColumnName(nativeInsert.error.message) === 'image_url'
+    ) {
+      triedImageFallback = true;
+      delete nativePayload.image_url;
+      const baseContent = nativePayload.content?.toString().trim() || '';
+      nativePayload.content = baseContent
+        ? `${baseContent}\n[image] ${normalizedImageUrl}`
+        : `[image] ${normalizedImageUrl}`;
+      nativeInsert = await supabase
+        .from('radar_comments')
+        .insert(nativePayload)
+        .select('id')
+        .maybeSingle();
+      continue;
     }
-    throw new Error('Anda tidak memiliki undangan aktif untuk radar private ini.');
-  }
-  if (!inviteRow?.id) {
-    throw new Error('Anda tidak memiliki undangan aktif untuk radar private ini.');
+    break;
   }
 
-  const status = normalizeMembershipStatus(inviteRow.status);
-  if (status === 'ACCEPTED' || status === 'JOINED' || status === 'APPROVED') return;
-  if (status !== 'PENDING' && status !== 'INVITED' && status !== 'REQUESTED') {
-    throw new Error('Undangan private Anda sudah tidak aktif.');
+  if (!nativeInsert.error) {
+    return;
   }
 
-  await respondInviteById({
-    inviteId: inviteRow.id.toString(),
-    accept: true,
-    userId,
-  });
-}
-
-async function fetchPersonalRadarInviteStatus(params: {
-  radarId?: string;
-  userId?: string;
-}) {
-  const radarId = params.radarId?.trim();
-  const userId = params.userId?.trim();
-  if (!radarId || !userId) return '';
-
-  const withSource = await supabase
-    .from('radar_invites')
-    .select('status, source')
-    .eq('radar_id', radarId)
-    .eq('invitee_id', userId)
-    .order('created_at', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  let row = withSource.data as Record<string, unknown> | null;
-  let fetchError = withSource.error;
-  if (fetchError && isMissingColumnError(fetchError.message)) {
-    const fallback = await supabase
-      .from('radar_invites')
-      .select('status')
-      .eq('radar_id', radarId)
-      .eq('invitee_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-    row = fallback.data as Record<string, unknown> | null;
-    fetchError = fallback.error;
+  if (isPermissionError(nativeInsert.error.message)) {
+    throw new Error('Anda tidak memiliki izin untuk menulis komentar radar ini.');
   }
-
-  if (fetchError) {
-    if (!isPermissionError(fetchError.message) && !isMissingRelationError(fetchError.message)) {
-      console.error('Failed to fetch personal invite status:', fetchError.message);
-    }
-    return '';
+  if (!isMissingSchemaObjectError(nativeInsert.error.message)) {
+    throw new Error(nativeInsert.error.message);
   }
 
-  return normalizeMembershipStatus(row?.status);
-}
-
-async function updateRadarDetail(params: {
-  radar: RadarDetailItem;
-  title: string;
-  description: string;
-  startsAtIso: string;
-}) {
-  const { radar, title, description, startsAtIso } = params;
-  const nowIso = new Date().toISOString();
+  const fallbackContent = normalizedImageUrl
+    ? `${composedContent || ''}${composedContent ? '\n' : ''}[image] ${normalizedImageUrl}`
+    : composedContent;
   const tableCandidates =
     radar.source === 'v2'
-      ? (['radar_events_v2', 'radar_events'] as const)
-      : (['radar_events', 'radar_events_v2'] as const);
+      ? (['radar_change_logs_v2', 'radar_change_logs'] as const)
+      : (['radar_change_logs', 'radar_change_logs_v2'] as const);
 
   let lastError = '';
   for (const table of tableCandidates) {
-    const payload: Record<string, unknown> = {
-      title,
-      description,
-      updated_at: nowIso,
-    };
-    if (table === 'radar_events_v2') {
-      payload.event_starts_at_utc = startsAtIso;
-      payload.event_ends_at_utc = new Date(new Date(startsAtIso).getTime() + 90 * 60 * 1000).toISOString();
-    } else {
-      payload.event_time = startsAtIso;
+    if (table === 'radar_change_logs_v2') {
+      const insert = await insertWithColumnFallback('radar_change_logs_v2', {
+        radar_id: radar.id,
+        actor_id: userId,
+        change_type: 'COMMENT',
+        change_summary: fallbackContent,
+        after_data: {
+          comment: fallbackContent,
+          source: 'web',
+          reply_to: options?.replyToName || null,
+        },
+      });
+      if (!insert.error) return;
+      lastError = insert.error.message || '';
+      if (
+        !isMissingRelationError(lastError) &&
+        !isMissingColumnError(lastError) &&
+        !isPermissionError(lastError)
+      ) {
+        break;
+      }
+      continue;
     }
 
-    const result = await updateWithColumnFallback(table, payload, { id: radar.id });
-    if (!result.error) {
-      return;
-    }
-    lastError = result.error.message || '';
+    const insert = await insertWithColumnFallback('radar_change_logs', {
+      radar_id: radar.id,
+      changed_by: userId,
+      change_type: 'COMMENT',
+      description: fallbackContent,
+    });
+    if (!insert.error) return;
+    lastError = insert.error.message || '';
     if (
       !isMissingRelationError(lastError) &&
       !isMissingColumnError(lastError) &&
@@ -1886,46 +665,34 @@ async function updateRadarDetail(params: {
     }
   }
 
-  throw new Error(lastError || 'Gagal memperbarui radar.');
-}
-
-async function deleteRadarDetail(radar: RadarDetailItem) {
-  const tableCandidates =
-    radar.source === 'v2'
-      ? (['radar_events_v2', 'radar_events'] as const)
-      : (['radar_events', 'radar_events_v2'] as const);
-
-  let deleted = false;
-  let lastError = '';
-  for (const table of tableCandidates) {
-    const result = await supabase.from(table).delete().eq('id', radar.id);
-    if (!result.error) {
-      deleted = true;
-      break;
-    }
-    lastError = result.error.message || '';
-    if (
-      !isMissingRelationError(lastError) &&
-      !isMissingColumnError(lastError)
-    ) {
-      break;
-    }
-  }
-
-  if (!deleted) {
-    throw new Error(lastError || 'Gagal menghapus radar.');
+  if (lastError && isPermissionError(lastError)) {
+    throw new Error('Anda tidak memiliki izin untuk menulis komentar radar ini.');
   }
+  throw new Error('Komentar radar belum tersedia di server ini.');
+}
 
-  for (const table of ['radar_invites', 'radar_participants', 'radar_participants_v2']) {
-    const cleanup = await supabase.from(table).delete().eq('radar_id', radar.id);
-    if (
-      cleanup.error &&
-      !isMissingRelationError(cleanup.error.message) &&
-      !isMissingColumnError(cleanup.error.message)
-    ) {
-      console.warn(`Cleanup ${table} warning:`, cleanup.error.message);
-    }
-  }
+function toRadarDetailItem(event: RadarEvent): RadarDetailItem {
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description || undefined,
+    startsAt: event.event_starts_at_utc || undefined,
+    maxParticipants: event.max_participants || undefined,
+    participantCount: event.participant_count ?? 0,
+    churchId: event.church_id || undefined,
+    dioceseId: event.church?.diocese_id,
+    countryId: event.church?.country_id,
+    churchName: event.church?.name,
+    dioceseName: event.church?.diocese_name,
+    countryName: event.church?.country_name,
+    creatorId: event.creator_id || undefined,
+    allowMemberInvite: event.allow_member_invite,
+    requireHostApproval: event.require_host_approval,
+    status: event.status,
+    visibility: event.visibility,
+    seriesId: event.series_id,
+    source: event.source ?? 'v2',
+  };
 }
 
 async function submitRadarReport(params: {
@@ -1958,9 +725,11 @@ async function submitRadarReport(params: {
 export default function RadarDetailPage() {
   const params = useParams<{ id: string }>();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const queryClient = useQueryClient();
   const { user } = useAuth();
   const radarId = decodeURIComponent(params.id || '');
+  const attendCodeFromQuery = searchParams.get('attend')?.trim() || '';
 
   const [isJoining, setIsJoining] = useState(false);
   const [isOpeningChat, setIsOpeningChat] = useState(false);
@@ -1977,6 +746,7 @@ export default function RadarDetailPage() {
   const [editTitle, setEditTitle] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [editStartsAt, setEditStartsAt] = useState('');
+  const [editApplyToSeries, setEditApplyToSeries] = useState(false);
   const [reportReason, setReportReason] = useState(RADAR_REPORT_REASONS[0]);
   const [reportDescription, setReportDescription] = useState('');
   const [commentText, setCommentText] = useState('');
@@ -1987,18 +757,17 @@ export default function RadarDetailPage() {
     threadable: boolean;
   } | null>(null);
   const [likingCommentId, setLikingCommentId] = useState<string | null>(null);
+  const [isAttendanceScannerOpen, setIsAttendanceScannerOpen] = useState(false);
+  const attendQueryHandledRef = useRef(false);
 
-  const { data: radar, isLoading: isLoadingRadar } = useQuery({
-    queryKey: ['radar-native-detail', radarId],
-    queryFn: () => fetchRadarDetail(radarId),
-    enabled: Boolean(radarId),
-  });
+  const { data: radarEvent, isLoading: isLoadingRadar } = useRadarEvent(radarId);
+  const radar = useMemo(() => (radarEvent ? toRadarDetailItem(radarEvent) : undefined), [radarEvent]);
 
-  const { data: participants = [], isLoading: isLoadingParticipants } = useQuery({
-    queryKey: ['radar-native-participants', radarId],
-    queryFn: () => fetchRadarParticipants(radarId),
-    enabled: Boolean(radarId),
-  });
+  const { data: radarParticipants, isLoading: isLoadingParticipants } = useRadarParticipants(radarId);
+  const participants = useMemo(
+    () => (radarParticipants ?? []).map(toRadarParticipantItem),
+    [radarParticipants]
+  );
   const { data: radarComments = [], isLoading: isLoadingRadarComments } = useQuery({
     queryKey: ['radar-native-comments', radarId, user?.id],
     queryFn: () => fetchRadarComments(radarId, user?.id),
@@ -2006,11 +775,7 @@ export default function RadarDetailPage() {
     staleTime: 30_000,
   });
 
-  const { data: myMembership = 'NONE' } = useQuery({
-    queryKey: ['radar-native-my-membership', radarId, user?.id],
-    queryFn: () => fetchMyMembershipStatus(user?.id, radarId),
-    enabled: Boolean(radarId && user?.id),
-  });
+  const { data: myMembership = 'NONE' } = useRadarMembership(radarId);
   const { data: churchAddress = '' } = useQuery({
     queryKey: ['radar-native-church-address', radar?.churchId],
     queryFn: async () => {
@@ -2040,7 +805,7 @@ export default function RadarDetailPage() {
   const { data: privateInviteStatus = '' } = useQuery({
     queryKey: ['radar-native-private-invite-status', radarId, user?.id],
     queryFn: () =>
-      fetchPersonalRadarInviteStatus({
+      RadarInviteService.getPersonalInviteStatus({
         radarId,
         userId: user?.id,
       }),
@@ -2062,6 +827,11 @@ export default function RadarDetailPage() {
     () => participants.filter((item) => isJoinedMembershipStatus(item.status)),
     [participants]
   );
+  const waitlistCount = useMemo(() => getWaitlistQueue(radarParticipants ?? []).length, [radarParticipants]);
+  const myWaitlistPosition = useMemo(
+    () => (myMembership === 'WAITLISTED' ? getWaitlistPosition(radarParticipants ?? [], user?.id) : null),
+    [myMembership, radarParticipants, user?.id]
+  );
   const hasActivePrivateInvite = useMemo(() => {
     if (!isPrivateRadar) return true;
     const status = normalizeMembershipStatus(privateInviteStatus);
@@ -2070,11 +840,21 @@ export default function RadarDetailPage() {
   const canInvite = !isPrivateRadar && (isHost || (myMembership === 'JOINED' && radar?.allowMemberInvite !== false));
   const canOpenChat = Boolean(radar && user?.id && (isHost || myMembership === 'JOINED'));
   const canLeaveRadar = Boolean(radar && user?.id && !isHost && myMembership === 'JOINED');
+  const canLeaveWaitlist = Boolean(radar && user?.id && !isHost && myMembership === 'WAITLISTED');
   const canCommentOnRadar = Boolean(radar && user?.id && (isHost || myMembership === 'JOINED'));
   const canReportRadar = Boolean(radar && user?.id && !isHost);
   const canManageRadar = Boolean(radar && user?.id && isHost);
+  const isCancelledRadar = radar?.status?.toUpperCase() === 'CANCELLED';
   const canSetReminder = Boolean(radar && radarStartsAtDate && !isPastRadar && (isHost || myMembership === 'JOINED'));
   const canShareRadar = Boolean(radar && !isPrivateRadar);
+  const isAttendanceWindowOpen = Boolean(radar?.startsAt && !isCancelledRadar && isAttendanceOpen(radar.startsAt));
+  const canConfirmAttendance = Boolean(user?.id && !isHost && myMembership === 'JOINED' && isAttendanceWindowOpen);
+  const { data: myAttendance = [] } = useRadarAttendance(radarId, {
+    enabled: Boolean(!isHost && myMembership === 'JOINED'),
+  });
+  const hasConfirmedAttendance = myAttendance.some((row) => row.user_id === user?.id);
+  const confirmAttendance = useConfirmRadarAttendance();
+  const { mutate: confirmAttendanceCode } = confirmAttendance;
   const quotaText = radar?.maxParticipants && radar.maxParticipants > 0
     ? `Maks ${radar.maxParticipants} orang`
     : 'Kuota fleksibel';
@@ -2117,6 +897,21 @@ export default function RadarDetailPage() {
     if (typeof window === 'undefined') return;
     setIsReminderSet(window.localStorage.getItem(`radar_reminder_set_${radar.id}`) === '1');
   }, [radar?.id]);
+  // A phone camera opens the QR link as /radar/<id>?attend=CODE; confirm it once
+  // membership has loaded, then drop the code from the address bar.
+  useEffect(() => {
+    if (!attendCodeFromQuery || attendQueryHandledRef.current || !canConfirmAttendance) return;
+    attendQueryHandledRef.current = true;
+    router.replace(`/radar/${encodeURIComponent(radarId)}`);
+    if (hasConfirmedAttendance) return;
+    confirmAttendanceCode(
+      { radarId, code: attendCodeFromQuery, method: 'QR' },
+      {
+        onSuccess: (result) =>
+          toast.success(result.alreadyConfirmed ? 'Kehadiran Anda sudah tercatat.' : 'Kehadiran terkonfirmasi.'),
+      }
+    );
+  }, [attendCodeFromQuery, canConfirmAttendance, confirmAttendanceCode, hasConfirmedAttendance, radarId, router]);
 
   const handleJoin = async () => {
     if (!user?.id || !radar) {
@@ -2128,14 +923,14 @@ export default function RadarDetailPage() {
     try {
       let result: MembershipState = 'JOINED';
       if (isPrivateRadar) {
-        await acceptPersonalRadarInvite({
+        await RadarInviteService.acceptPersonalInvite({
           radarId: radar.id,
           userId: user.id,
         });
       }
 
       try {
-        result = await joinRadarEvent({
+        result = await RadarService.joinEvent({
           radarId: radar.id,
           userId: user.id,
           source: radar.source,
@@ -2151,10 +946,12 @@ export default function RadarDetailPage() {
       toast.success(
         result === 'PENDING'
           ? 'Permintaan bergabung dikirim. Menunggu persetujuan host.'
-          : 'Berhasil bergabung ke radar.'
+          : result === 'WAITLISTED'
+            ? 'Radar sudah penuh. Anda masuk daftar tunggu.'
+            : 'Berhasil bergabung ke radar.'
       );
 
-      if (isPrivateRadar && result !== 'PENDING') {
+      if (isPrivateRadar && result === 'JOINED') {
         const otherUserId = radar.creatorId && radar.creatorId !== user.id
           ? radar.creatorId
           : activeParticipants.find((item) => item.userId !== user.id)?.userId;
@@ -2165,9 +962,9 @@ export default function RadarDetailPage() {
       }
 
       await Promise.all([
-        queryClient.invalidateQueries({ queryKey: ['radar-native-detail', radar.id] }),
-        queryClient.invalidateQueries({ queryKey: ['radar-native-participants', radar.id] }),
-        queryClient.invalidateQueries({ queryKey: ['radar-native-my-membership', radar.id, user.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-event', radar.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-participants', radar.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-my-membership', radar.id, user.id] }),
         queryClient.invalidateQueries({ queryKey: ['radar-events', user.id] }),
         queryClient.invalidateQueries({ queryKey: ['radar-membership-map', user.id] }),
       ]);
@@ -2204,10 +1001,12 @@ export default function RadarDetailPage() {
         return;
       }
 
-      const chatId = await ensureRadarChatReady({
-        radar,
+      const chatId = await RadarService.ensureChatAccess({
+        radarId: radar.id,
+        source: radar.source,
         userId: user.id,
         isHost,
+        fallbackTitle: radar.title,
       });
       if (!chatId) {
         toast.info('Ruang chat radar belum siap. Coba lagi sebentar.');
@@ -2230,26 +1029,30 @@ export default function RadarDetailPage() {
       toast.info('Host tidak bisa keluar. Gunakan alur edit/hapus radar jika diperlukan.');
       return;
     }
-    if (myMembership !== 'JOINED') {
+    if (myMembership !== 'JOINED' && myMembership !== 'WAITLISTED') {
       toast.info('Anda belum bergabung di radar ini.');
       return;
     }
 
+    const isLeavingWaitlist = myMembership === 'WAITLISTED';
     setIsLeaving(true);
     try {
-      await leaveRadarEvent({
-        radar,
+      await RadarService.leaveEvent({
+        radarId: radar.id,
         userId: user.id,
+        source: radar.source,
       });
-      toast.success('Berhasil keluar dari radar.');
+      toast.success(isLeavingWaitlist ? 'Anda keluar dari daftar tunggu.' : 'Berhasil keluar dari radar.');
       await Promise.all([
-        queryClient.invalidateQueries({ queryKey: ['radar-native-detail', radar.id] }),
-        queryClient.invalidateQueries({ queryKey: ['radar-native-participants', radar.id] }),
-        queryClient.invalidateQueries({ queryKey: ['radar-native-my-membership', radar.id, user.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-event', radar.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-participants', radar.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-my-membership', radar.id, user.id] }),
         queryClient.invalidateQueries({ queryKey: ['radar-events', user.id] }),
         queryClient.invalidateQueries({ queryKey: ['radar-membership-map', user.id] }),
       ]);
-      router.push('/radar');
+      if (!isLeavingWaitlist) {
+        router.push('/radar');
+      }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Gagal keluar dari radar.');
     } finally {
@@ -2261,17 +1064,23 @@ export default function RadarDetailPage() {
     if (!radar || !user?.id) return;
     setProcessingUserId(participant.userId);
     try {
-      await updateParticipantDecision({
+      const status = await RadarService.decideParticipant({
         radarId: radar.id,
         targetUserId: participant.userId,
         actorId: user.id,
         source: radar.source,
         approve,
       });
-      toast.success(approve ? 'Peserta disetujui.' : 'Peserta ditolak.');
+      toast.success(
+        status === 'WAITLISTED'
+          ? 'Radar sudah penuh. Peserta masuk daftar tunggu.'
+          : approve
+            ? 'Peserta disetujui.'
+            : 'Peserta ditolak.'
+      );
       await Promise.all([
-        queryClient.invalidateQueries({ queryKey: ['radar-native-detail', radar.id] }),
-        queryClient.invalidateQueries({ queryKey: ['radar-native-participants', radar.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-event', radar.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-participants', radar.id] }),
       ]);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Gagal memproses peserta.');
@@ -2280,6 +1089,31 @@ export default function RadarDetailPage() {
     }
   };
 
+  const handleKick = async (participant: RadarParticipantItem) => {
+    if (!radar || !user?.id) return;
+    const name = participant.fullName || `@${participant.username || 'user'}`;
+    if (!window.confirm(`Keluarkan ${name} dari radar ini?`)) return;
+
+    setProcessingUserId(participant.userId);
+    try {
+      await RadarService.kickParticipant({
+        radarId: radar.id,
+        targetUserId: participant.userId,
+        actorId: user.id,
+        source: radar.source,
+      });
+      toast.success('Peserta dikeluarkan.');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['radar-event', radar.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-participants', radar.id] }),
+      ]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal mengeluarkan peserta.');
+    } finally {
+      setProcessingUserId(null);
+    }
+  };
+
   const handleOpenMaps = () => {
     if (!radar) return;
     const mapQuery = (churchAddress || radar.churchName || radarLocationLabel || '').trim();
@@ -2332,13 +1166,13 @@ export default function RadarDetailPage() {
     }
     if (isSettingReminder) return;
 
-    const endAt = new Date(radarStartsAtDate.getTime() + 90 * 60 * 1000);
+    const endAt = new Date(radarStartsAtDate.getTime() + RADAR_SETTINGS.DEFAULT_DURATION_MINUTES * 60 * 1000);
     const locationLabel = (churchAddress || radarLocationLabel || '').trim();
     const details = radar.description?.trim() || 'Pengingat radar misa MyCatholic';
     const params = new URLSearchParams({
       action: 'TEMPLATE',
       text: radar.title || 'Radar Misa',
-      dates: `${toGoogleCalendarDate(radarStartsAtDate)}/${toGoogleCalendarDate(endAt)}`,
+      dates: `${formatIcsUtc(radarStartsAtDate)}/${formatIcsUtc(endAt)}`,
       details,
       location: locationLabel,
     });
@@ -2487,6 +1321,7 @@ export default function RadarDetailPage() {
     setEditTitle(radar.title || '');
     setEditDescription(radar.description || '');
     setEditStartsAt(toLocalDateTimeValue(radar.startsAt));
+    setEditApplyToSeries(false);
     setIsEditDialogOpen(true);
   };
 
@@ -2508,16 +1343,24 @@ export default function RadarDetailPage() {
 
     setIsUpdatingRadar(true);
     try {
-      await updateRadarDetail({
-        radar,
+      await RadarService.updateEvent({
+        radarId: radar.id,
+        source: radar.source,
         title: nextTitle,
         description: editDescription.trim(),
         startsAtIso: startsAt.toISOString(),
       });
+      if (radar.seriesId && editApplyToSeries) {
+        await RadarSeriesService.updateSeries(radar.seriesId, user.id, {
+          title: nextTitle,
+          description: editDescription.trim(),
+        });
+      }
       toast.success('Radar berhasil diperbarui.');
       setIsEditDialogOpen(false);
       await Promise.all([
-        queryClient.invalidateQueries({ queryKey: ['radar-native-detail', radar.id] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-event'] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-series', radar.seriesId] }),
         queryClient.invalidateQueries({ queryKey: ['radar-events', user.id] }),
         queryClient.invalidateQueries({ queryKey: ['owner-radar-events', user.id] }),
       ]);
@@ -2542,7 +1385,7 @@ export default function RadarDetailPage() {
 
     setIsDeletingRadar(true);
     try {
-      await deleteRadarDetail(radar);
+      await RadarService.deleteEvent({ radarId: radar.id, source: radar.source });
       toast.success('Radar berhasil dihapus.');
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['radar-events', user.id] }),
@@ -2649,6 +1492,14 @@ export default function RadarDetailPage() {
                       )}
                     </Button>
                   )}
+                  {canSetReminder && radar && (
+                    <Button variant="outline" asChild>
+                      <a href={CalendarService.getRadarDownloadUrl(radar.id)} download>
+                        <CalendarPlus className="mr-2 h-4 w-4" />
+                        Unduh .ics
+                      </a>
+                    </Button>
+                  )}
                   {canShareRadar && (
                     <Button
                       variant="outline"
@@ -2707,8 +1558,10 @@ export default function RadarDetailPage() {
                         isLeaving ||
                         isOpeningChat ||
                         isDeletingRadar ||
+                        isCancelledRadar ||
                         myMembership === 'JOINED' ||
-                        myMembership === 'PENDING'
+                        myMembership === 'PENDING' ||
+                        myMembership === 'WAITLISTED'
                       }
                       className="bg-primary hover:bg-primary-hover"
                     >
@@ -2717,10 +1570,14 @@ export default function RadarDetailPage() {
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                           Bergabung...
                         </>
+                      ) : isCancelledRadar ? (
+                        'Dibatalkan'
                       ) : myMembership === 'JOINED' ? (
                         'Sudah Bergabung'
                       ) : myMembership === 'PENDING' ? (
                         'Menunggu Host'
+                      ) : myMembership === 'WAITLISTED' ? (
+                        'Dalam Daftar Tunggu'
                       ) : isPrivateRadar && !hasActivePrivateInvite ? (
                         'Periksa Undangan'
                       ) : (
@@ -2730,6 +1587,48 @@ export default function RadarDetailPage() {
                   )}
                 </div>
               </div>
+              {isCancelledRadar && (
+                <p className="rounded-lg border border-destructive/20 bg-destructive/5 px-3 py-2 text-sm font-medium text-destructive">
+                  Pertemuan ini dibatalkan oleh host.
+                </p>
+              )}
+              {myWaitlistPosition !== null && (
+                <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-primary/20 bg-primary/5 px-3 py-2">
+                  <p className="inline-flex items-center gap-1.5 text-sm font-semibold text-primary">
+                    <Hourglass className="h-4 w-4" />
+                    {formatWaitlistPosition(myWaitlistPosition)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">Anda otomatis bergabung saat ada tempat kosong.</p>
+                  {canLeaveWaitlist && (
+                    <Button size="sm" variant="ghost" onClick={handleLeave} disabled={isLeaving}>
+                      {isLeaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                      Batal Antre
+                    </Button>
+                  )}
+                </div>
+              )}
+              {!isHost && myMembership === 'JOINED' && (hasConfirmedAttendance || canConfirmAttendance) && (
+                <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-primary/20 bg-primary/5 px-3 py-2">
+                  <p className="inline-flex items-center gap-1.5 text-sm font-semibold text-primary">
+                    <UserCheck2 className="h-4 w-4" />
+                    {hasConfirmedAttendance ? 'Kehadiran terkonfirmasi' : 'Sudah di gereja?'}
+                  </p>
+                  {!hasConfirmedAttendance && (
+                    <Button
+                      size="sm"
+                      onClick={() => setIsAttendanceScannerOpen(true)}
+                      disabled={confirmAttendance.isPending}
+                    >
+                      {confirmAttendance.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <QrCode className="mr-2 h-4 w-4" />
+                      )}
+                      Konfirmasi Kehadiran
+                    </Button>
+                  )}
+                </div>
+              )}
               {isPrivateRadar && !isHost && myMembership === 'NONE' && !hasActivePrivateInvite && (
                 <p className="text-xs font-medium text-amber-700">
                   Undangan private belum terdeteksi. Ketuk "Periksa Undangan" untuk sinkron ulang.
@@ -2740,7 +1639,7 @@ export default function RadarDetailPage() {
                 {radar.startsAt && (
                   <span className="flex items-center gap-1">
                     <Calendar className="h-4 w-4" />
-                    {formatDateTimeLabel(radar.startsAt)}
+                    {formatRadarDateTimeLabel(radar.startsAt)}
                   </span>
                 )}
                 <span className="flex items-center gap-1">
@@ -2748,6 +1647,12 @@ export default function RadarDetailPage() {
                   {radar.participantCount}
                   {radar.maxParticipants ? ` / ${radar.maxParticipants}` : ''} peserta
                 </span>
+                {waitlistCount > 0 && (
+                  <span className="flex items-center gap-1">
+                    <Hourglass className="h-4 w-4" />
+                    {waitlistCount} di daftar tunggu
+                  </span>
+                )}
                 {radarLocationLabel && (
                   <span className="flex items-center gap-1">
                     <MapPin className="h-4 w-4" />
@@ -2765,6 +1670,25 @@ export default function RadarDetailPage() {
             </CardHeader>
           </Card>
 
+          {radar.seriesId && (
+            <RadarSeriesCard
+              seriesId={radar.seriesId}
+              currentRadarId={radar.id}
+              currentSource={radar.source}
+              isHost={isHost}
+              isCancelled={isCancelledRadar}
+            />
+          )}
+
+          {isHost && radar.startsAt && (isAttendanceWindowOpen || (isPastRadar && !isCancelledRadar)) && (
+            <RadarAttendanceCard
+              radarId={radar.id}
+              title={radar.title}
+              startsAt={radar.startsAt}
+              timeZone={radarEvent?.church_timezone}
+            />
+          )}
+
           <Card className="border-border/70 bg-card shadow-sm">
             <CardHeader className="space-y-1.5 pb-3">
               <CardTitle className="text-base">Aturan Acara</CardTitle>
@@ -2890,7 +1814,7 @@ export default function RadarDetailPage() {
                             <div className="flex flex-wrap items-center justify-between gap-2">
                               <p className="truncate text-xs font-semibold">{commentName}</p>
                               <span className="text-[11px] text-muted-foreground">
-                                {formatDateTimeLabel(comment.createdAt)}
+                                {formatRadarDateTimeLabel(comment.createdAt)}
                               </span>
                             </div>
                             <p className="mt-1 whitespace-pre-wrap text-sm leading-relaxed">{comment.content}</p>
@@ -2966,7 +1890,7 @@ export default function RadarDetailPage() {
                                           <div className="flex flex-wrap items-center justify-between gap-2">
                                             <p className="truncate text-xs font-semibold">{replyName}</p>
                                             <span className="text-[10px] text-muted-foreground">
-                                              {formatDateTimeLabel(reply.createdAt)}
+                                              {formatRadarDateTimeLabel(reply.createdAt)}
                                             </span>
                                           </div>
                                           <p className="mt-1 whitespace-pre-wrap text-xs leading-relaxed">{reply.content}</p>
@@ -3164,6 +2088,21 @@ export default function RadarDetailPage() {
                           </p>
                         </div>
                       </div>
+                      {isHost && participant.userId !== user?.id && participant.role !== 'HOST' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleKick(participant)}
+                          disabled={processingUserId === participant.userId}
+                          className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+                        >
+                          {processingUserId === participant.userId ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            'Keluarkan'
+                          )}
+                        </Button>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -3173,6 +2112,17 @@ export default function RadarDetailPage() {
         </>
       )}
 
+      {canConfirmAttendance && (
+        <RadarAttendanceScanner
+          radarId={radarId}
+          open={isAttendanceScannerOpen}
+          onOpenChange={setIsAttendanceScannerOpen}
+          onConfirmed={(result) =>
+            toast.success(result.alreadyConfirmed ? 'Kehadiran Anda sudah tercatat.' : 'Kehadiran terkonfirmasi.')
+          }
+        />
+      )}
+
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-[620px]">
           <DialogHeader>
@@ -3221,6 +2171,20 @@ export default function RadarDetailPage() {
               />
             </div>
 
+            {radar?.seriesId && (
+              <label className="flex items-center justify-between gap-3 rounded-lg border p-3 text-sm">
+                <span>
+                  <span className="block font-medium">Terapkan ke semua pertemuan berikutnya</span>
+                  <span className="text-muted-foreground">Judul dan deskripsi ikut berubah. Waktu hanya untuk pertemuan ini.</span>
+                </span>
+                <Switch
+                  checked={editApplyToSeries}
+                  onCheckedChange={setEditApplyToSeries}
+                  disabled={isUpdatingRadar}
+                />
+              </label>
+            )}
+
             <div className="flex justify-end gap-2 pt-1">
               <Button
                 type="button"
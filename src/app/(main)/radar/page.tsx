@@ -7,6 +7,7 @@ import { id } from 'date-fns/locale';
 import { useRouter, useSearchParams } from 'next/navigation';
 import {
   Calendar,
+  CalendarPlus,
   Check,
   CheckCircle2,
   ChevronsUpDown,
@@ -42,14 +43,47 @@ import {
   CommandList,
 } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RADAR_SETTINGS } from '@/lib/constants';
 import { useAuth } from '@/lib/features/auth/use-auth';
 import { AuthService, type AuthLocationOption } from '@/lib/features/auth/auth-service';
+import { useSubscribePersonalCalendar } from '@/lib/features/calendar/use-calendar';
+import {
+  RadarInviteService,
+  isAcceptedInvite,
+  isActionablePersonalInviteStatus,
+  isPendingInvite,
+  normalizeInviteStatus,
+} from '@/lib/features/radar/radar-invite-service';
+import { RadarCheckInService } from '@/lib/features/radar/radar-checkin-service';
+import {
+  formatRadarDateTimeLabel,
+  formatRadarLocationLabel,
+  toLocalDateTimeValue,
+} from '@/lib/features/radar/radar-format';
+import { RadarSeriesService } from '@/lib/features/radar/radar-series-service';
+import {
+  RadarService,
+  isDuplicateError,
+  normalizeRadarVisibility,
+} from '@/lib/features/radar/radar-service';
+import {
+  useOwnerRadarEvents,
+  useRadarEvent,
+  useRadarEvents,
+  useRadarMembershipMap,
+} from '@/lib/features/radar/use-radar';
 import { useChurches, useMassSchedules } from '@/lib/features/schedule/use-schedule';
-import { supabase } from '@/lib/supabase/client';
+import type {
+  CheckInVisibilityScope,
+  RadarEvent,
+  RadarInviteItem,
+  RadarInviteTarget,
+  RadarMembershipState,
+  RadarSeriesFrequency,
+  RadarSource,
+} from '@/lib/types';
 import { cn, createRandomUUID } from '@/lib/utils';
 
-type RadarSource = 'legacy' | 'v2';
-
 type RadarCardItem = {
   id: string;
   title: string;
@@ -70,172 +104,8 @@ type RadarCardItem = {
   source: RadarSource;
 };
 
-type InviteTarget = {
-  id: string;
-  full_name?: string;
-  username?: string;
-  avatar_url?: string;
-  role?: string;
-  allow_mass_invite?: boolean;
-};
-
-type RadarInviteItem = {
-  id: string;
-  inviteId?: string;
-  notificationId?: string;
-  inviterId?: string;
-  inviteeId?: string;
-  inviterName?: string;
-  inviteeName?: string;
-  inviterAvatarUrl?: string;
-  inviteeAvatarUrl?: string;
-  inviteSource?: string;
-  status: string;
-  createdAt?: string;
-  radarId?: string;
-  radarChurchId?: string;
-  radarTitle?: string;
-  radarChurchName?: string;
-  radarDioceseName?: string;
-  radarCountryName?: string;
-  radarStartsAt?: string;
-  radarSource?: RadarSource;
-  radarVisibility?: string;
-  message?: string;
-  direction: 'incoming' | 'outgoing';
-};
-
-type ActiveCheckIn = {
-  id: string;
-  table: 'mass_checkins' | 'mass_checkins_v2';
-  churchId?: string;
-  checkAt?: string;
-};
-
-type RadarMembershipStatus = 'JOINED' | 'PENDING';
 type PublicFilter = 'today' | 'tomorrow' | 'week' | 'all';
 type PublicSort = 'soonest' | 'popular';
-type CheckInVisibilityScope = 'followers' | 'public' | 'private';
-
-type CheckInPresenceItem = {
-  userId: string;
-  fullName?: string;
-  username?: string;
-  avatarUrl?: string;
-  checkAt?: string;
-};
-
-const ACTIVE_CHECKIN_MAX_AGE_MS = 3 * 60 * 60 * 1000;
-
-function isAcceptedInvite(value: unknown) {
-  const status = normalizeInviteStatus(value);
-  return status === 'ACCEPTED' || status === 'JOINED' || status === 'APPROVED';
-}
-
-function isMissingColumnError(message: string) {
-  const lower = message.toLowerCase();
-  return (
-    lower.includes('42703') ||
-    lower.includes('does not exist') ||
-    (lower.includes('could not find') && lower.includes('column'))
-  );
-}
-
-function isMissingRelationError(message: string) {
-  const lower = message.toLowerCase();
-  return (
-    lower.includes('42p01') ||
-    (lower.includes('relation') && lower.includes('does not exist')) ||
-    (lower.includes('table') && lower.includes('does not exist')) ||
-    lower.includes('could not find the table') ||
-    (lower.includes('schema cache') && (lower.includes('table') || lower.includes('relation')))
-  );
-}
-
-function isDuplicateError(message: string) {
-  const lower = message.toLowerCase();
-  return lower.includes('23505') || lower.includes('duplicate key');
-}
-
-function isForeignKeyError(message: string) {
-  const lower = message.toLowerCase();
-  return lower.includes('23503') || lower.includes('foreign key constraint');
-}
-
-function isPermissionError(message: string) {
-  const lower = message.toLowerCase();
-  return (
-    lower.includes('42501') ||
-    lower.includes('permission denied') ||
-    lower.includes('row-level security')
-  );
-}
-
-function isFunctionMissingError(message: string) {
-  const lower = message.toLowerCase();
-  return lower.includes('could not find the function') || lower.includes('does not exist');
-}
-
-function isNotAuthenticatedError(message: string) {
-  return message.toLowerCase().includes('not authenticated');
-}
-
-function isAmbiguousReferenceError(message: string) {
-  const lower = message.toLowerCase();
-  return lower.includes('42702') || lower.includes('is ambiguous');
-}
-
-function shouldFallbackToFinishedStatus(message: string) {
-  const lower = message.toLowerCase();
-  return (
-    lower.includes('archived') &&
-    (
-      lower.includes('invalid input value') ||
-      lower.includes('enum') ||
-      lower.includes('check constraint')
-    )
-  );
-}
-
-function extractMissingColumnName(message: string): string | null {
-  const withQuote = message.match(/column\s+"([^"]+)"/i);
-  if (withQuote?.[1]) return withQuote[1];
-
-  const withSingleQuote = message.match(/column\s+'([^']+)'/i);
-  if (withSingleQuote?.[1]) return withSingleQuote[1];
-
-  const schemaCachePattern = message.match(/could not find the ['"]([^'"]+)['"] column/i);
-  if (schemaCachePattern?.[1]) return schemaCachePattern[1];
-
-  return null;
-}
-
-function extractFirstStringField(
-  row: Record<string, unknown> | null | undefined,
-  keys: string[]
-): string {
-  if (!row) return '';
-  for (const key of keys) {
-    const value = row[key];
-    if (value === null || value === undefined) continue;
-    const text = value.toString().trim();
-    if (text) return text;
-  }
-  return '';
-}
-
-function normalizeInviteStatus(value: unknown) {
-  return value?.toString().toUpperCase() || 'PENDING';
-}
-
-function isPendingInvite(value: unknown) {
-  const status = normalizeInviteStatus(value);
-  return status === 'PENDING' || status === 'INVITED' || status === 'REQUESTED';
-}
-
-function isActionablePersonalInviteStatus(value: unknown) {
-  return isPendingInvite(value) || isAcceptedInvite(value);
-}
 
 function formatInviteStatus(value: unknown) {
   const status = normalizeInviteStatus(value);
@@ -274,3097 +144,220 @@ function getInviteComment(value?: string, fallbackTitle?: string) {
   ]);
   if (genericMessages.has(normalized)) return '';
 
-  if (
-    normalized.includes('mengundang anda ke radar') ||
-    normalized.includes('mengajak anda misa di') ||
-    normalized.includes('undangan radar misa')
-  ) {
-    return '';
-  }
-
-  return raw;
-}
-
-function isPersonalInvite(item: RadarInviteItem) {
-  const source = item.inviteSource?.trim().toUpperCase();
-  if (source === 'PERSONAL') return true;
-
-  const visibility = normalizeRadarVisibility(item.radarVisibility);
-  return visibility === 'PRIVATE' || visibility === 'PERSONAL';
-}
-
-function normalizeRadarVisibility(value: unknown) {
-  const normalized = value?.toString().trim().toUpperCase();
-  if (!normalized) return 'PUBLIC';
-  if (normalized === 'PRIVATE' || normalized === 'PERSONAL') return 'PRIVATE';
-  return normalized;
-}
-
-function normalizeMembershipStatus(value: unknown) {
-  return value?.toString().trim().toUpperCase() || '';
-}
-
-function isJoinedMembershipStatus(status: string) {
-  return ['JOINED', 'HOST', 'MEMBER', 'APPROVED'].includes(status);
-}
-
-function isPendingMembershipStatus(status: string) {
-  return ['PENDING', 'REQUESTED', 'INVITED'].includes(status);
-}
-
-function toLocalDateTimeValue(value: Date) {
-  const year = value.getFullYear();
-  const month = `${value.getMonth() + 1}`.padStart(2, '0');
-  const date = `${value.getDate()}`.padStart(2, '0');
-  const hour = `${value.getHours()}`.padStart(2, '0');
-  const minute = `${value.getMinutes()}`.padStart(2, '0');
-  return `${year}-${month}-${date}T${hour}:${minute}`;
-}
-
-function toLocalDateValue(value: Date) {
-  const year = value.getFullYear();
-  const month = `${value.getMonth() + 1}`.padStart(2, '0');
-  const date = `${value.getDate()}`.padStart(2, '0');
-  return `${year}-${month}-${date}`;
-}
-
-function formatDateTimeLabel(value?: string) {
-  if (!value) return '';
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) {
-    return value;
-  }
-  return format(date, 'dd MMM yyyy HH:mm', { locale: id });
-}
-
-function useDebouncedValue(value: string, delay = 250) {
-  const [debounced, setDebounced] = useState(value);
-
-  useEffect(() => {
-    const timeout = setTimeout(() => setDebounced(value), delay);
-    return () => clearTimeout(timeout);
-  }, [delay, value]);
-
-  return debounced;
-}
-
-function canCreateRadarByRole(role?: string | null) {
-  const normalized = role?.trim().toLowerCase() ?? '';
-  return normalized === 'umat' || normalized === 'katekumen';
-}
-
-function normalizeCheckInVisibilityScope(value: unknown): CheckInVisibilityScope {
-  const normalized = value?.toString().trim().toLowerCase();
-  if (normalized === 'private') return 'private';
-  if (normalized === 'public' || normalized === 'church') return 'public';
-  return 'followers';
-}
-
-function toLegacyCheckInVisibility(scope: CheckInVisibilityScope) {
-  if (scope === 'private') return 'PRIVATE';
-  if (scope === 'followers') return 'FOLLOWERS';
-  return 'PUBLIC';
-}
-
-function formatRoleLabel(role?: string) {
-  if (!role) return 'Umat';
-  const normalized = role.trim().toLowerCase();
-  if (!normalized) return 'Umat';
-  if (normalized === 'katekumen') return 'Katekumen';
-  if (normalized === 'pastor') return 'Pastor';
-  if (normalized === 'suster') return 'Suster';
-  if (normalized === 'bruder') return 'Bruder';
-  if (normalized === 'frater') return 'Frater';
-  return normalized.charAt(0).toUpperCase() + normalized.slice(1);
-}
-
-function normalizeScheduleDayOfWeek(value: unknown): number {
-  const parsed = Number(value);
-  if (!Number.isFinite(parsed)) return -1;
-  const day = Math.trunc(parsed);
-  if (day === 0) return 7;
-  return day;
-}
-
-function formatScheduleDayShortLabel(value: unknown) {
-  const day = normalizeScheduleDayOfWeek(value);
-  if (day === 1) return 'Sen';
-  if (day === 2) return 'Sel';
-  if (day === 3) return 'Rab';
-  if (day === 4) return 'Kam';
-  if (day === 5) return 'Jum';
-  if (day === 6) return 'Sab';
-  if (day === 7) return 'Min';
-  return '';
-}
-
-function parseClockTime(value: string) {
-  const match = value.trim().match(/^(\d{1,2}):(\d{2})/);
-  if (!match) return null;
-
-  const hour = Number(match[1]);
-  const minute = Number(match[2]);
-  if (!Number.isFinite(hour) || !Number.isFinite(minute)) return null;
-  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) return null;
-
-  return {
-    hour,
-    minute,
-  };
-}
-
-function formatRadarLocationLabel(location: {
-  countryName?: string;
-  dioceseName?: string;
-  churchName?: string;
-}) {
-  return [location.countryName, location.dioceseName, location.churchName]
-    .map((value) => value?.trim() || '')
-    .filter(Boolean)
-    .join(' • ');
-}
-
-type SearchableCheckInSelectProps = {
-  label: string;
-  value: string;
-  selectedLabel: string;
-  options: AuthLocationOption[];
-  placeholder: string;
-  searchPlaceholder: string;
-  emptyMessage: string;
-  loadingMessage: string;
-  searchValue: string;
-  onSearchChange: (value: string) => void;
-  onValueChange: (value: string) => void;
-  disabled?: boolean;
-  isLoading?: boolean;
-};
-
-function SearchableCheckInSelect({
-  label,
-  value,
-  selectedLabel,
-  options,
-  placeholder,
-  searchPlaceholder,
-  emptyMessage,
-  loadingMessage,
-  searchValue,
-  onSearchChange,
-  onValueChange,
-  disabled = false,
-  isLoading = false,
-}: SearchableCheckInSelectProps) {
-  const [open, setOpen] = useState(false);
-  const triggerLabel = selectedLabel || (isLoading ? loadingMessage : placeholder);
-
-  return (
-    <div className="space-y-1.5">
-      <label className="text-sm font-medium">{label}</label>
-      <Popover
-        open={open}
-        onOpenChange={(nextOpen) => {
-          setOpen(nextOpen);
-          if (!nextOpen && searchValue) {
-            onSearchChange('');
-          }
-        }}
-      >
-        <PopoverTrigger asChild>
-          <Button
-            type="button"
-            variant="outline"
-            role="combobox"
-            aria-expanded={open}
-            className="h-10 w-full justify-between rounded-md border border-input bg-background px-3 text-sm font-normal outline-none focus-visible:ring-2 focus-visible:ring-primary/30"
-            disabled={disabled}
-          >
-            <span className={cn('truncate', !selectedLabel && 'text-muted-foreground')}>
-              {triggerLabel}
-            </span>
-            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
-          </Button>
-        </PopoverTrigger>
-        <PopoverContent
-          align="start"
-          className="w-[var(--radix-popover-trigger-width)] rounded-xl border-border/70 bg-card/95 p-0"
-        >
-          <Command shouldFilter={false} className="rounded-xl bg-transparent">
-            <CommandInput
-              placeholder={searchPlaceholder}
-              value={searchValue}
-              onValueChange={onSearchChange}
-            />
-            <CommandList className="max-h-64">
-              {isLoading ? (
-                <p className="px-3 py-3 text-sm text-muted-foreground">{loadingMessage}</p>
-              ) : options.length === 0 ? (
-                <p className="px-3 py-3 text-sm text-muted-foreground">{emptyMessage}</p>
-              ) : (
-                <CommandGroup>
-                  {options.map((item) => (
-                    <CommandItem
-                      key={item.id}
-                      value={`${item.name}-${item.id}`}
-                      onSelect={() => {
-                        onValueChange(item.id);
-                        setOpen(false);
-                      }}
-                    >
-                      <Check
-                        className={cn(
-                          'h-4 w-4',
-                          value === item.id ? 'text-primary opacity-100' : 'opacity-0'
-                        )}
-                      />
-                      <span className="truncate">{item.name}</span>
-                    </CommandItem>
-                  ))}
-                </CommandGroup>
-              )}
-            </CommandList>
-          </Command>
-        </PopoverContent>
-      </Popover>
-    </div>
-  );
-}
-
-async function insertWithColumnFallback(
-  table: string,
-  payload: Record<string, unknown>,
-  options?: { select?: string }
-) {
-  const working = { ...payload };
-
-  for (let attempt = 0; attempt < 8; attempt += 1) {
-    const result = options?.select
-      ? await supabase
-        .from(table)
-        .insert(working)
-        .select(options.select)
-        .maybeSingle()
-      : await supabase.from(table).insert(working);
-
-    if (!result.error) {
-      return {
-        data: (result.data as Record<string, unknown> | null) ?? null,
-        error: null,
-        duplicate: false,
-      };
-    }
-
-    if (isDuplicateError(result.error.message)) {
-      return {
-        data: (result.data as Record<string, unknown> | null) ?? null,
-        error: null,
-        duplicate: true,
-      };
-    }
-
-    const missingColumn = extractMissingColumnName(result.error.message);
-    if (
-      missingColumn &&
-      missingColumn in working &&
-      isMissingColumnError(result.error.message)
-    ) {
-      delete working[missingColumn];
-      continue;
-    }
-
-    return { data: null, error: result.error, duplicate: false };
-  }
-
-  return {
-    data: null,
-    error: { message: `Gagal insert ke ${table} setelah beberapa percobaan` },
-    duplicate: false,
-  };
-}
-
-async function fetchRadarParticipantRows(eventIds: string[]) {
-  if (eventIds.length === 0) return [];
-
-  const allRows: Record<string, unknown>[] = [];
-  for (const table of ['radar_participants', 'radar_participants_v2']) {
-    const result = await supabase
-      .from(table)
-      .select('radar_id')
-      .in('radar_id', eventIds);
-
-    if (!result.error) {
-      allRows.push(...((result.data ?? []) as Record<string, unknown>[]));
-    }
-  }
-
-  return allRows;
-}
-
-async function getChurchHierarchyIds(churchId?: string) {
-  const trimmedChurchId = churchId?.trim();
-  if (!trimmedChurchId) {
-    return { countryId: '', dioceseId: '' };
-  }
-
-  const withHierarchy = await supabase
-    .from('churches')
-    .select('id, country_id, diocese_id')
-    .eq('id', trimmedChurchId)
-    .maybeSingle();
-
-  let row = withHierarchy.data as Record<string, unknown> | null;
-  let fetchError = withHierarchy.error;
-  if (fetchError && isMissingColumnError(fetchError.message)) {
-    const fallback = await supabase
-      .from('churches')
-      .select('id')
-      .eq('id', trimmedChurchId)
-      .maybeSingle();
-    row = fallback.data as Record<string, unknown> | null;
-    fetchError = fallback.error;
-  }
-
-  if (fetchError || !row?.id) {
-    return { countryId: '', dioceseId: '' };
-  }
-
-  return {
-    countryId: row.country_id?.toString() || '',
-    dioceseId: row.diocese_id?.toString() || '',
-  };
-}
-
-async function getChurchLocationNamesByIds(churchIds: string[]) {
-  const ids = [...new Set(churchIds.map((id) => id.trim()).filter(Boolean))];
-  const map = new Map<string, {
-    churchName?: string;
-    dioceseId?: string;
-    dioceseName?: string;
-    countryId?: string;
-    countryName?: string;
-  }>();
-  if (ids.length === 0) {
-    return map;
-  }
-
-  const churchSelectCandidates = [
-    'id, name, diocese_id, country_id',
-    'id, name, diocese_id',
-    'id, name, country_id',
-    'id, name',
-  ];
-  let churchRows: Record<string, unknown>[] = [];
-  let churchFetchError = '';
-  for (const columns of churchSelectCandidates) {
-    const result = await supabase
-      .from('churches')
-      .select(columns)
-      .in('id', ids);
-    if (!result.error) {
-      churchRows = ((result.data ?? []) as unknown) as Record<string, unknown>[];
-      churchFetchError = '';
-      break;
-    }
-    if (isPermissionError(result.error.message) || isMissingRelationError(result.error.message)) {
-      return map;
-    }
-    churchFetchError = result.error.message;
-    if (!isMissingColumnError(result.error.message)) {
-      break;
-    }
-  }
-  if (churchRows.length === 0 && churchFetchError) {
-    console.error('Error loading church locations map:', churchFetchError);
-  }
-
-  const dioceseIds = [...new Set(churchRows.map((row) => row.diocese_id?.toString() || '').filter(Boolean))];
-  const countryIds = [...new Set(churchRows.map((row) => row.country_id?.toString() || '').filter(Boolean))];
-
-  const dioceseNameById = new Map<string, string>();
-  const dioceseCountryById = new Map<string, string>();
-  if (dioceseIds.length > 0) {
-    const dioceseSelectCandidates = [
-      'id, name, country_id',
-      'id, name',
-    ];
-    for (const columns of dioceseSelectCandidates) {
-      const result = await supabase
-        .from('dioceses')
-        .select(columns)
-        .in('id', dioceseIds);
-      if (!result.error) {
-        for (const row of ((result.data ?? []) as unknown) as Record<string, unknown>[]) {
-          const id = row.id?.toString() || '';
-          if (!id) continue;
-          const name = row.name?.toString().trim();
-          if (name) {
-            dioceseNameById.set(id, name);
-          }
-          const countryId = row.country_id?.toString() || '';
-          if (countryId) {
-            dioceseCountryById.set(id, countryId);
-          }
-        }
-        break;
-      }
-      if (
-        isPermissionError(result.error.message) ||
-        isMissingRelationError(result.error.message) ||
-        !isMissingColumnError(result.error.message)
-      ) {
-        break;
-      }
-    }
-  }
-
-  const countryIdSet = new Set(countryIds);
-  for (const countryId of dioceseCountryById.values()) {
-    countryIdSet.add(countryId);
-  }
-  const countryNameById = new Map<string, string>();
-  if (countryIdSet.size > 0) {
-    const result = await supabase
-      .from('countries')
-      .select('id, name')
-      .in('id', Array.from(countryIdSet));
-    if (!result.error) {
-      for (const row of (result.data ?? []) as Record<string, unknown>[]) {
-        const id = row.id?.toString() || '';
-        if (!id) continue;
-        const name = row.name?.toString().trim();
-        if (name) {
-          countryNameById.set(id, name);
-        }
-      }
-    }
-  }
-
-  for (const row of churchRows) {
-    const id = row.id?.toString() || '';
-    if (!id) continue;
-    const churchName = row.name?.toString().trim() || '';
-    const dioceseId = row.diocese_id?.toString() || '';
-    const countryId = row.country_id?.toString() || dioceseCountryById.get(dioceseId) || '';
-    map.set(id, {
-      churchName: churchName || undefined,
-      dioceseId: dioceseId || undefined,
-      dioceseName: dioceseNameById.get(dioceseId),
-      countryId: countryId || undefined,
-      countryName: countryNameById.get(countryId),
-    });
-  }
-
-  return map;
-}
-
-async function getRadarEvents(userId?: string) {
-  if (!userId) return [] as RadarCardItem[];
-
-  const legacyWithVisibility = await supabase
-    .from('radar_events')
-    .select('id, title, description, event_time, max_participants, church_id, creator_id, allow_member_invite, status, visibility')
-    .order('event_time', { ascending: true })
-    .limit(50);
-  const legacy =
-    legacyWithVisibility.error && isMissingColumnError(legacyWithVisibility.error.message)
-      ? await supabase
-        .from('radar_events')
-        .select('id, title, description, event_time, max_participants, church_id, creator_id, allow_member_invite, status')
-        .order('event_time', { ascending: true })
-        .limit(50)
-      : legacyWithVisibility;
-
-  const v2WithVisibility = await supabase
-    .from('radar_events_v2')
-    .select('id, title, description, event_starts_at_utc, max_participants, church_id, creator_id, allow_member_invite, status, visibility')
-    .order('event_starts_at_utc', { ascending: true })
-    .limit(50);
-  const v2 =
-    v2WithVisibility.error && isMissingColumnError(v2WithVisibility.error.message)
-      ? await supabase
-        .from('radar_events_v2')
-        .select('id, title, description, event_starts_at_utc, max_participants, church_id, creator_id, allow_member_invite, status')
-        .order('event_starts_at_utc', { ascending: true })
-        .limit(50)
-      : v2WithVisibility;
-
-  if (legacy.error && v2.error) {
-    console.error('Error fetching radar events:', legacy.error, v2.error);
-    return [] as RadarCardItem[];
-  }
-
-  const combinedRows: Array<Record<string, unknown> & { __source: RadarSource }> = [
-    ...((legacy.data ?? []) as Record<string, unknown>[]).map((row) => ({
-      ...row,
-      __source: 'legacy' as RadarSource,
-    })),
-    ...((v2.data ?? []) as Record<string, unknown>[]).map((row) => ({
-      ...row,
-      __source: 'v2' as RadarSource,
-    })),
-  ];
-
-  const uniqueById = new Map<string, Record<string, unknown> & { __source: RadarSource }>();
-  for (const row of combinedRows) {
-    const id = row.id?.toString();
-    if (!id) continue;
-
-    if (!uniqueById.has(id)) {
-      uniqueById.set(id, row);
-      continue;
-    }
-
-    if (row.__source === 'v2') {
-      uniqueById.set(id, row);
-    }
-  }
-
-  const rows = Array.from(uniqueById.values()).filter((row) => {
-    const visibility = row.visibility?.toString().trim().toUpperCase();
-    const status = row.status?.toString().trim().toUpperCase();
-    const isPublic = !visibility || visibility === 'PUBLIC';
-    const isVisibleStatus =
-      !status || ['PUBLISHED', 'UPDATED', 'ACTIVE', 'SCHEDULED'].includes(status);
-    return isPublic && isVisibleStatus;
-  });
-  if (rows.length === 0) {
-    return [];
-  }
-
-  const churchIds = rows
-    .map((row) => row.church_id?.toString())
-    .filter((id): id is string => Boolean(id));
-  const churchLocationMap = await getChurchLocationNamesByIds(churchIds);
-
-  const participantMap = new Map<string, number>();
-  const eventIds = rows.map((row) => row.id?.toString()).filter((id): id is string => Boolean(id));
-  if (eventIds.length > 0) {
-    const participantRows = await fetchRadarParticipantRows(eventIds);
-    for (const row of participantRows) {
-      const radarId = row.radar_id?.toString();
-      if (!radarId) continue;
-      participantMap.set(radarId, (participantMap.get(radarId) ?? 0) + 1);
-    }
-  }
-
-  return rows.map((row) => {
-    const id = row.id?.toString() ?? createRandomUUID();
-    const startsAt = row.event_starts_at_utc?.toString() || row.event_time?.toString();
-    const churchId = row.church_id?.toString();
-    const location = churchId ? churchLocationMap.get(churchId) : undefined;
-    return {
-      id,
-      title: row.title?.toString() || 'Radar Misa',
-      description: row.description?.toString(),
-      startsAt,
-      maxParticipants: Number(row.max_participants ?? 0) || undefined,
-      participantCount: participantMap.get(id) ?? 0,
-      churchId,
-      dioceseId: location?.dioceseId,
-      countryId: location?.countryId,
-      churchName: location?.churchName,
-      dioceseName: location?.dioceseName,
-      countryName: location?.countryName,
-      creatorId: row.creator_id?.toString(),
-      allowMemberInvite:
-        typeof row.allow_member_invite === 'boolean' ? row.allow_member_invite : undefined,
-      status: row.status?.toString(),
-      visibility: row.visibility?.toString(),
-      source: row.__source,
-    } satisfies RadarCardItem;
-  });
-}
-
-async function getOwnerRadarEvents(userId?: string) {
-  if (!userId) return [] as RadarCardItem[];
-
-  const legacyWithVisibility = await supabase
-    .from('radar_events')
-    .select('id, title, description, event_time, max_participants, church_id, creator_id, allow_member_invite, status, visibility')
-    .eq('creator_id', userId)
-    .order('event_time', { ascending: false })
-    .limit(300);
-  const legacy =
-    legacyWithVisibility.error && isMissingColumnError(legacyWithVisibility.error.message)
-      ? await supabase
-        .from('radar_events')
-        .select('id, title, description, event_time, max_participants, church_id, creator_id, allow_member_invite, status')
-        .eq('creator_id', userId)
-        .order('event_time', { ascending: false })
-        .limit(300)
-      : legacyWithVisibility;
-
-  const v2WithVisibility = await supabase
-    .from('radar_events_v2')
-    .select('id, title, description, event_starts_at_utc, max_participants, church_id, creator_id, allow_member_invite, status, visibility')
-    .eq('creator_id', userId)
-    .order('event_starts_at_utc', { ascending: false })
-    .limit(300);
-  const v2 =
-    v2WithVisibility.error && isMissingColumnError(v2WithVisibility.error.message)
-      ? await supabase
-        .from('radar_events_v2')
-        .select('id, title, description, event_starts_at_utc, max_participants, church_id, creator_id, allow_member_invite, status')
-        .eq('creator_id', userId)
-        .order('event_starts_at_utc', { ascending: false })
-        .limit(300)
-      : v2WithVisibility;
-
-  if (legacy.error && v2.error) {
-    console.error('Error fetching owner radar events:', legacy.error, v2.error);
-    return [] as RadarCardItem[];
-  }
-
-  const combinedRows: Array<Record<string, unknown> & { __source: RadarSource }> = [
-    ...((legacy.data ?? []) as Record<string, unknown>[]).map((row) => ({
-      ...row,
-      __source: 'legacy' as RadarSource,
-    })),
-    ...((v2.data ?? []) as Record<string, unknown>[]).map((row) => ({
-      ...row,
-      __source: 'v2' as RadarSource,
-    })),
-  ];
-
-  const uniqueById = new Map<string, Record<string, unknown> & { __source: RadarSource }>();
-  for (const row of combinedRows) {
-    const id = row.id?.toString();
-    if (!id) continue;
-    if (!uniqueById.has(id)) {
-      uniqueById.set(id, row);
-      continue;
-    }
-    if (row.__source === 'v2') {
-      uniqueById.set(id, row);
-    }
-  }
-
-  const rows = Array.from(uniqueById.values()).filter((row) => {
-    const visibility = row.visibility?.toString().trim().toUpperCase();
-    const status = row.status?.toString().trim().toUpperCase();
-    const isPublic = !visibility || visibility === 'PUBLIC';
-    const isVisibleStatus =
-      !status || ['PUBLISHED', 'UPDATED', 'ACTIVE', 'SCHEDULED'].includes(status);
-    return isPublic && isVisibleStatus;
-  });
-  if (rows.length === 0) return [];
-
-  const churchIds = rows
-    .map((row) => row.church_id?.toString())
-    .filter((id): id is string => Boolean(id));
-  const churchLocationMap = await getChurchLocationNamesByIds(churchIds);
-
-  const participantMap = new Map<string, number>();
-  const eventIds = rows.map((row) => row.id?.toString()).filter((id): id is string => Boolean(id));
-  if (eventIds.length > 0) {
-    const participantRows = await fetchRadarParticipantRows(eventIds);
-    for (const row of participantRows) {
-      const radarId = row.radar_id?.toString();
-      if (!radarId) continue;
-      participantMap.set(radarId, (participantMap.get(radarId) ?? 0) + 1);
-    }
-  }
-
-  return rows
-    .map((row) => {
-      const id = row.id?.toString() ?? createRandomUUID();
-      const startsAt = row.event_starts_at_utc?.toString() || row.event_time?.toString();
-      const churchId = row.church_id?.toString();
-      const location = churchId ? churchLocationMap.get(churchId) : undefined;
-      return {
-        id,
-        title: row.title?.toString() || 'Radar Misa',
-        description: row.description?.toString(),
-        startsAt,
-        maxParticipants: Number(row.max_participants ?? 0) || undefined,
-        participantCount: participantMap.get(id) ?? 0,
-        churchId,
-        dioceseId: location?.dioceseId,
-        countryId: location?.countryId,
-        churchName: location?.churchName,
-        dioceseName: location?.dioceseName,
-        countryName: location?.countryName,
-        creatorId: row.creator_id?.toString(),
-        allowMemberInvite:
-          typeof row.allow_member_invite === 'boolean' ? row.allow_member_invite : undefined,
-        status: row.status?.toString(),
-        visibility: row.visibility?.toString(),
-        source: row.__source,
-      } satisfies RadarCardItem;
-    })
-    .sort((a, b) => new Date(b.startsAt || '').getTime() - new Date(a.startsAt || '').getTime());
-}
-
-async function getRadarEventById(radarId?: string): Promise<RadarCardItem | null> {
-  const id = radarId?.trim();
-  if (!id) return null;
-
-  const legacyWithChurch = await supabase
-    .from('radar_events')
-    .select('id, title, description, event_time, max_participants, church_id, creator_id, allow_member_invite, status, visibility, church_name')
-    .eq('id', id)
-    .maybeSingle();
-
-  const legacy =
-    legacyWithChurch.error && isMissingColumnError(legacyWithChurch.error.message)
-      ? await supabase
-        .from('radar_events')
-        .select('id, title, description, event_time, max_participants, church_id, creator_id, allow_member_invite, status, visibility')
-        .eq('id', id)
-        .maybeSingle()
-      : legacyWithChurch;
-
-  const v2WithChurch = await supabase
-    .from('radar_events_v2')
-    .select('id, title, description, event_starts_at_utc, max_participants, church_id, creator_id, allow_member_invite, status, visibility, church_name')
-    .eq('id', id)
-    .maybeSingle();
-  const v2 =
-    v2WithChurch.error && isMissingColumnError(v2WithChurch.error.message)
-      ? await supabase
-        .from('radar_events_v2')
-        .select('id, title, description, event_starts_at_utc, max_participants, church_id, creator_id, allow_member_invite, status, visibility')
-        .eq('id', id)
-        .maybeSingle()
-      : v2WithChurch;
-
-  let row: Record<string, unknown> | null = null;
-  let source: RadarSource | null = null;
-  if (!v2.error && v2.data?.id) {
-    row = v2.data as Record<string, unknown>;
-    source = 'v2';
-  } else if (!legacy.error && legacy.data?.id) {
-    row = legacy.data as Record<string, unknown>;
-    source = 'legacy';
-  }
-
-  if (!row || !source) {
-    return null;
-  }
-
-  const churchId = row.church_id?.toString() || '';
-  let churchName = row.church_name?.toString() || '';
-  let dioceseName = '';
-  let countryName = '';
-  let churchLocation:
-    | {
-      churchName?: string;
-      dioceseId?: string;
-      dioceseName?: string;
-      countryId?: string;
-      countryName?: string;
-    }
-    | undefined;
-  if (churchId) {
-    churchLocation = (await getChurchLocationNamesByIds([churchId])).get(churchId);
-    if (!churchName) {
-      churchName = churchLocation?.churchName || '';
-    }
-    dioceseName = churchLocation?.dioceseName || '';
-    countryName = churchLocation?.countryName || '';
-  }
-
-  const participantRows = await fetchRadarParticipantRows([id]);
-  const participantCount = participantRows.filter((item) => item.radar_id?.toString() === id).length;
-  return {
-    id,
-    title: row.title?.toString() || 'Radar Misa',
-    description: row.description?.toString(),
-    startsAt: row.event_starts_at_utc?.toString() || row.event_time?.toString(),
-    maxParticipants: Number(row.max_participants ?? 0) || undefined,
-    participantCount,
-    churchId: churchId || undefined,
-    dioceseId: churchLocation?.dioceseId,
-    countryId: churchLocation?.countryId,
-    churchName: churchName || undefined,
-    dioceseName: dioceseName || undefined,
-    countryName: countryName || undefined,
-    creatorId: row.creator_id?.toString(),
-    allowMemberInvite:
-      typeof row.allow_member_invite === 'boolean' ? row.allow_member_invite : undefined,
-    status: row.status?.toString(),
-    visibility: row.visibility?.toString(),
-    source,
-  } satisfies RadarCardItem;
-}
-
-async function getLastCheckIn(userId?: string) {
-  if (!userId) return null;
-
-  const tableCandidates = ['mass_checkins', 'mass_checkins_v2'];
-  const timestamps: number[] = [];
-
-  for (const table of tableCandidates) {
-    const result = await supabase
-      .from(table)
-      .select('checkin_at, check_in_time, mass_time, created_at')
-      .eq('user_id', userId)
-      .limit(20);
-
-    if (result.error) {
-      continue;
-    }
-
-    for (const row of (result.data ?? []) as Record<string, unknown>[]) {
-      const raw =
-        row.checkin_at?.toString() ||
-        row.check_in_time?.toString() ||
-        row.mass_time?.toString() ||
-        row.created_at?.toString();
-
-      if (!raw) continue;
-      const time = new Date(raw).getTime();
-      if (!Number.isNaN(time)) {
-        timestamps.push(time);
-      }
-    }
-  }
-
-  if (timestamps.length === 0) return null;
-  return new Date(Math.max(...timestamps)).toISOString();
-}
-
-async function getActiveCheckIn(userId?: string): Promise<ActiveCheckIn | null> {
-  if (!userId) return null;
-
-  const candidates: ActiveCheckIn[] = [];
-  const tableCandidates: Array<'mass_checkins' | 'mass_checkins_v2'> = ['mass_checkins', 'mass_checkins_v2'];
-
-  for (const table of tableCandidates) {
-    const withStatus = await supabase
-      .from(table)
-      .select('id, church_id, checkin_at, check_in_time, mass_time, created_at, status')
-      .eq('user_id', userId)
-      .eq('status', 'ACTIVE')
-      .order('created_at', { ascending: false })
-      .limit(1);
-
-    let rows = (withStatus.data ?? []) as Record<string, unknown>[];
-    let resultError = withStatus.error;
-    let strictActiveFilter = true;
-    if (resultError && isMissingColumnError(resultError.message)) {
-      strictActiveFilter = false;
-      const fallback = await supabase
-        .from(table)
-        .select('id, church_id, checkin_at, check_in_time, mass_time, created_at')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(20);
-      rows = (fallback.data ?? []) as Record<string, unknown>[];
-      resultError = fallback.error;
-    }
-
-    if (resultError) continue;
-
-    const pickFreshFallbackRow = () => {
-      for (const item of rows) {
-        const rawTime =
-          item.checkin_at?.toString() ||
-          item.check_in_time?.toString() ||
-          item.mass_time?.toString() ||
-          item.created_at?.toString();
-        if (!rawTime) continue;
-        const time = new Date(rawTime).getTime();
-        if (Number.isNaN(time)) continue;
-        if (time >= Date.now() - ACTIVE_CHECKIN_MAX_AGE_MS) {
-          return item;
-        }
-      }
-      return null;
-    };
-
-    const row = strictActiveFilter ? rows[0] : pickFreshFallbackRow();
-    if (!row?.id) continue;
-    candidates.push({
-      id: row.id.toString(),
-      table,
-      churchId: row.church_id?.toString(),
-      checkAt:
-        row.checkin_at?.toString() ||
-        row.check_in_time?.toString() ||
-        row.mass_time?.toString() ||
-        row.created_at?.toString(),
-    });
-  }
-
-  if (candidates.length === 0) return null;
-  candidates.sort((a, b) => new Date(b.checkAt || '').getTime() - new Date(a.checkAt || '').getTime());
-  const latestCandidate = candidates[0];
-  const latestTime = new Date(latestCandidate.checkAt || '').getTime();
-  if (!Number.isNaN(latestTime) && Date.now() - latestTime > ACTIVE_CHECKIN_MAX_AGE_MS) {
-    try {
-      await setCheckOutNow({ userId, active: latestCandidate });
-    } catch (error) {
-      console.warn('Failed to auto-expire stale check-in:', error);
-    }
-    return null;
-  }
-  return latestCandidate;
-}
-
-async function getRadarMembershipMap(userId?: string, eventIds: string[] = []) {
-  if (!userId || eventIds.length === 0) return {} as Record<string, RadarMembershipStatus>;
-
-  const membership = new Map<string, RadarMembershipStatus>();
-
-  for (const table of ['radar_participants', 'radar_participants_v2']) {
-    const withStatus = await supabase
-      .from(table)
-      .select('radar_id, status')
-      .eq('user_id', userId)
-      .in('radar_id', eventIds);
-
-    let rows = withStatus.data as Record<string, unknown>[] | null;
-    let resultError = withStatus.error;
-
-    if (resultError && isMissingColumnError(resultError.message)) {
-      const fallback = await supabase
-        .from(table)
-        .select('radar_id')
-        .eq('user_id', userId)
-        .in('radar_id', eventIds);
-      rows = fallback.data as Record<string, unknown>[] | null;
-      resultError = fallback.error;
-    }
-
-    if (resultError) {
-      if (!isPermissionError(resultError.message)) {
-        console.error(`Error fetching radar membership from ${table}:`, resultError);
-      }
-      continue;
-    }
-
-    for (const row of (rows ?? []) as Record<string, unknown>[]) {
-      const id = row.radar_id?.toString();
-      if (!id) continue;
-
-      const status = normalizeMembershipStatus(row.status);
-      const current = membership.get(id);
-      if (isJoinedMembershipStatus(status)) {
-        membership.set(id, 'JOINED');
-      } else if (isPendingMembershipStatus(status)) {
-        if (current !== 'JOINED') {
-          membership.set(id, 'PENDING');
-        }
-      } else if (!status) {
-        if (!current) {
-          membership.set(id, 'JOINED');
-        }
-      }
-    }
-  }
-
-  return Object.fromEntries(membership.entries());
-}
-
-async function createRadarEvent(params: {
-  userId: string;
-  churchId: string;
-  churchName?: string;
-  title: string;
-  description: string;
-  startsAtIso: string;
-  maxParticipants?: number;
-  allowMemberInvite?: boolean;
-  requireHostApproval?: boolean;
-  massScheduleId?: string;
-}) {
-  const {
-    userId,
-    churchId,
-    churchName,
-    title,
-    description,
-    startsAtIso,
-    maxParticipants,
-    allowMemberInvite = true,
-    requireHostApproval = false,
-    massScheduleId,
-  } = params;
-
-  const legacyPayload: Record<string, unknown> = {
-    title,
-    description,
-    church_id: churchId,
-    church_name: churchName || 'Gereja',
-    event_time: startsAtIso,
-    creator_id: userId,
-    visibility: 'PUBLIC',
-    status: 'PUBLISHED',
-    allow_member_invite: allowMemberInvite,
-    require_host_approval: requireHostApproval,
-    max_participants: maxParticipants,
-  };
-  if (massScheduleId) {
-    legacyPayload.schedule_id = massScheduleId;
-    legacyPayload.mass_schedule_id = massScheduleId;
-  }
-
-  const legacyCreated = await insertWithColumnFallback('radar_events', legacyPayload, { select: 'id' });
-  if (!legacyCreated.error && legacyCreated.data?.id) {
-    await insertWithColumnFallback(
-      'radar_participants',
-      {
-        radar_id: legacyCreated.data.id.toString(),
-        user_id: userId,
-        role: 'HOST',
-        status: 'JOINED',
-      },
-      undefined
-    );
-    return legacyCreated.data.id.toString();
-  }
-
-  const v2Payload: Record<string, unknown> = {
-    title,
-    description,
-    church_id: churchId,
-    creator_id: userId,
-    event_starts_at_utc: startsAtIso,
-    event_ends_at_utc: new Date(new Date(startsAtIso).getTime() + 90 * 60 * 1000).toISOString(),
-    status: 'PUBLISHED',
-    allow_member_invite: allowMemberInvite,
-    require_host_approval: requireHostApproval,
-    join_mode: requireHostApproval ? 'APPROVAL' : 'OPEN',
-    max_participants: maxParticipants,
-  };
-  if (massScheduleId) {
-    v2Payload.mass_schedule_id = massScheduleId;
-    v2Payload.schedule_id = massScheduleId;
-  }
-
-  const v2Insert = await insertWithColumnFallback('radar_events_v2', v2Payload, { select: 'id' });
-  if (!v2Insert.error && v2Insert.data?.id) {
-    await insertWithColumnFallback(
-      'radar_participants_v2',
-      {
-        radar_id: v2Insert.data.id.toString(),
-        user_id: userId,
-        role: 'HOST',
-        status: 'JOINED',
-      },
-      undefined
-    );
-    return v2Insert.data.id.toString();
-  }
-
-  throw new Error(
-    legacyCreated.error?.message ||
-    v2Insert.error?.message ||
-    'Gagal membuat radar'
-  );
-}
-
-async function createPersonalRadarInvite(params: {
-  creatorId: string;
-  creatorName?: string;
-  targetId: string;
-  churchId: string;
-  churchName?: string;
-  startsAtIso: string;
-  message?: string;
-}) {
-  const {
-    creatorId,
-    creatorName,
-    targetId,
-    churchId,
-    churchName,
-    startsAtIso,
-    message,
-  } = params;
-
-  if (!creatorId || !targetId) {
-    throw new Error('User tidak valid untuk ajak misa personal.');
-  }
-  if (creatorId === targetId) {
-    throw new Error('Tidak bisa mengajak misa ke akun sendiri.');
-  }
-
-  const title = 'Misa Bersama';
-  const cleanMessage = message?.trim() || 'Mengajak Anda Misa bersama';
-  const radarTimeText = formatDateTimeLabel(startsAtIso) || startsAtIso;
-  const startsAtDate = startsAtIso.slice(0, 10);
-
-  const churchHierarchy = await getChurchHierarchyIds(churchId);
-  if (churchHierarchy.countryId && churchHierarchy.dioceseId) {
-    const rpcInvite = await supabase.rpc('radar_v2_send_invite', {
-      p_source: 'PERSONAL',
-      p_invitee_id: targetId,
-      p_country_id: churchHierarchy.countryId,
-      p_diocese_id: churchHierarchy.dioceseId,
-      p_church_id: churchId,
-      p_event_starts_at_utc: startsAtIso,
-      p_note: cleanMessage,
-      p_expires_at: startsAtIso,
-    });
-
-    if (!rpcInvite.error) {
-      const rpcRaw = Array.isArray(rpcInvite.data) ? rpcInvite.data[0] : rpcInvite.data;
-      const rpcRow = (rpcRaw as Record<string, unknown> | null) ?? null;
-      const radarIdFromRpc = extractFirstStringField(rpcRow, [
-        'radar_id',
-        'event_id',
-        'radar_event_id',
-        'created_radar_id',
-      ]);
-      if (radarIdFromRpc) {
-        return radarIdFromRpc;
-      }
-
-      const inviteIdFromRpc = extractFirstStringField(rpcRow, [
-        'invite_id',
-        'radar_invite_id',
-      ]);
-      if (inviteIdFromRpc) {
-        // V2 PERSONAL invite can be valid without radar_id (mobile parity).
-        return '';
-      }
-
-      const v2InviteLookup = await supabase
-        .from('radar_invites_v2')
-        .select('id, radar_id')
-        .eq('inviter_id', creatorId)
-        .eq('invitee_id', targetId)
-        .eq('source', 'PERSONAL')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-      if (!v2InviteLookup.error && v2InviteLookup.data?.id) {
-        const radarId = v2InviteLookup.data.radar_id?.toString();
-        return radarId || '';
-      }
-
-      const legacyInviteLookup = await supabase
-        .from('radar_invites')
-        .select('id, radar_id')
-        .eq('inviter_id', creatorId)
-        .eq('invitee_id', targetId)
-        .eq('source', 'PERSONAL')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-      if (!legacyInviteLookup.error && legacyInviteLookup.data?.id) {
-        const radarId = legacyInviteLookup.data.radar_id?.toString();
-        return radarId || '';
-      }
-
-      console.warn('radar_v2_send_invite succeeded but invite row was not found; fallback to legacy invite flow.');
-    } else if (
-      !isFunctionMissingError(rpcInvite.error.message) &&
-      !isPermissionError(rpcInvite.error.message) &&
-      !isNotAuthenticatedError(rpcInvite.error.message)
-    ) {
-      throw new Error(rpcInvite.error.message);
-    }
-  }
-
-  const finalizePersonalInvite = async (input: { radarId: string; radarSource: RadarSource }) => {
-    const participantTables =
-      input.radarSource === 'v2'
-        ? (['radar_participants_v2', 'radar_participants'] as const)
-        : (['radar_participants', 'radar_participants_v2'] as const);
-
-    let participantInserted = false;
-    let participantErrorMessage = '';
-    for (const table of participantTables) {
-      const participantInsert = await insertWithColumnFallback(table, {
-        radar_id: input.radarId,
-        user_id: creatorId,
-        role: 'HOST',
-        status: 'JOINED',
-      });
-      if (!participantInsert.error) {
-        participantInserted = true;
-        break;
-      }
-      participantErrorMessage = participantInsert.error.message;
-      if (!isMissingColumnError(participantInsert.error.message)) {
-        break;
-      }
-    }
-
-    if (!participantInserted && participantErrorMessage) {
-      throw new Error(participantErrorMessage);
-    }
-
-    let inviteInsert = await insertWithColumnFallback(
-      'radar_invites',
-      {
-        inviter_id: creatorId,
-        invitee_id: targetId,
-        radar_id: input.radarId,
-        source: 'PERSONAL',
-        status: 'PENDING',
-        note: cleanMessage,
-        title: 'Ajak Misa Personal',
-        message: cleanMessage,
-        church_id: churchId,
-        church_name: churchName || 'Gereja',
-        country_id: churchHierarchy.countryId,
-        diocese_id: churchHierarchy.dioceseId,
-        event_time: startsAtIso,
-        event_starts_at_utc: startsAtIso,
-        mass_date: startsAtDate,
-        mass_time: startsAtIso,
-        expires_at: startsAtIso,
-      },
-      { select: 'id' }
-    );
-
-    if (inviteInsert.error && isForeignKeyError(inviteInsert.error.message)) {
-      inviteInsert = await insertWithColumnFallback(
-        'radar_invites',
-        {
-          inviter_id: creatorId,
-          invitee_id: targetId,
-          source: 'PERSONAL',
-          status: 'PENDING',
-          note: cleanMessage,
-          title: 'Ajak Misa Personal',
-          message: cleanMessage,
-          church_id: churchId,
-          church_name: churchName || 'Gereja',
-          country_id: churchHierarchy.countryId,
-          diocese_id: churchHierarchy.dioceseId,
-          event_time: startsAtIso,
-          event_starts_at_utc: startsAtIso,
-          mass_date: startsAtDate,
-          mass_time: startsAtIso,
-          expires_at: startsAtIso,
-        },
-        { select: 'id' }
-      );
-    }
-
-    if (inviteInsert.duplicate) {
-      throw new Error('Undangan personal untuk user ini sudah aktif.');
-    }
-    if (inviteInsert.error) {
-      throw new Error(inviteInsert.error.message);
-    }
-
-    const inviteId = inviteInsert.data?.id?.toString();
-    const notifyMessage = `${creatorName || 'Seseorang'} mengajak Anda Misa di ${churchName || 'Gereja'} (${radarTimeText})`;
-    const notificationResult = await insertWithColumnFallback('notifications', {
-      user_id: targetId,
-      type: 'radar_invite',
-      title: 'Ajak Misa Personal',
-      message: notifyMessage,
-      sender_id: creatorId,
-      actor_id: creatorId,
-      data: {
-        invite_id: inviteId,
-        radar_id: input.radarId,
-        radar_source: input.radarSource,
-        source: 'PERSONAL',
-        title,
-        starts_at: startsAtIso,
-        church_id: churchId,
-        country_id: churchHierarchy.countryId,
-        diocese_id: churchHierarchy.dioceseId,
-        church_name: churchName,
-        note: cleanMessage,
-      },
-    });
-    if (notificationResult.error && !isMissingColumnError(notificationResult.error.message)) {
-      throw new Error(notificationResult.error.message);
-    }
-
-    return input.radarId;
-  };
-
-  const legacyPayload: Record<string, unknown> = {
-    title,
-    description: cleanMessage,
-    church_id: churchId,
-    church_name: churchName || 'Gereja',
-    event_time: startsAtIso,
-    creator_id: creatorId,
-    visibility: 'PRIVATE',
-    status: 'PUBLISHED',
-    max_participants: 2,
-    allow_member_invite: false,
-    require_host_approval: false,
-  };
-
-  const legacyCreated = await insertWithColumnFallback('radar_events', legacyPayload, { select: 'id' });
-  if (!legacyCreated.error && legacyCreated.data?.id) {
-    return finalizePersonalInvite({
-      radarId: legacyCreated.data.id.toString(),
-      radarSource: 'legacy',
-    });
-  }
-
-  const v2Payload: Record<string, unknown> = {
-    title,
-    description: cleanMessage,
-    church_id: churchId,
-    event_starts_at_utc: startsAtIso,
-    creator_id: creatorId,
-    visibility: 'PRIVATE',
-    status: 'PUBLISHED',
-    max_participants: 2,
-    allow_member_invite: false,
-    require_host_approval: false,
-  };
-  const v2Created = await insertWithColumnFallback('radar_events_v2', v2Payload, { select: 'id' });
-  if (!v2Created.error && v2Created.data?.id) {
-    return finalizePersonalInvite({
-      radarId: v2Created.data.id.toString(),
-      radarSource: 'v2',
-    });
-  }
-
-  throw new Error(
-    legacyCreated.error?.message ||
-    v2Created.error?.message ||
-    'Gagal membuat ajak misa personal.'
-  );
-}
-
-async function joinRadarEvent(params: {
-  radarId: string;
-  userId: string;
-  source: RadarSource;
-}) {
-  const { radarId, userId, source } = params;
-
-  if (source === 'v2') {
-    const rpc = await supabase.rpc('radar_v2_join_event', {
-      p_radar_id: radarId,
-      p_force_join: false,
-    });
-    if (!rpc.error) {
-      const raw = Array.isArray(rpc.data) ? rpc.data[0] : rpc.data;
-      const status = (raw as Record<string, unknown> | null)?.status?.toString().toUpperCase();
-      return status === 'PENDING' ? 'PENDING' : 'JOINED';
-    }
-    if (
-      !isFunctionMissingError(rpc.error.message) &&
-      !isPermissionError(rpc.error.message) &&
-      !isNotAuthenticatedError(rpc.error.message)
-    ) {
-      if (!isAmbiguousReferenceError(rpc.error.message)) {
-        throw new Error(rpc.error.message);
-      }
-      console.warn('radar_v2_join_event RPC fallback to direct insert:', rpc.error.message);
-    }
-  } else {
-    const rpc = await supabase.rpc('join_radar_event', {
-      p_radar_id: radarId,
-      p_user_id: userId,
-    });
-    if (!rpc.error) {
-      const raw = Array.isArray(rpc.data) ? rpc.data[0] : rpc.data;
-      const status = (raw as Record<string, unknown> | null)?.status?.toString().toUpperCase();
-      return status === 'PENDING' ? 'PENDING' : 'JOINED';
-    }
-    if (
-      !isFunctionMissingError(rpc.error.message) &&
-      !isPermissionError(rpc.error.message) &&
-      !isNotAuthenticatedError(rpc.error.message)
-    ) {
-      if (!isAmbiguousReferenceError(rpc.error.message)) {
-        throw new Error(rpc.error.message);
-      }
-      console.warn('join_radar_event RPC fallback to direct insert:', rpc.error.message);
-    }
-  }
-
-  const eventTable = source === 'v2' ? 'radar_events_v2' : 'radar_events';
-  const policyWithApproval = await supabase
-    .from(eventTable)
-    .select('id, require_host_approval')
-    .eq('id', radarId)
-    .maybeSingle();
-  let eventPolicy = policyWithApproval.data as Record<string, unknown> | null;
-  let eventPolicyError = policyWithApproval.error;
-  if (eventPolicyError && isMissingColumnError(eventPolicyError.message)) {
-    const fallback = await supabase
-      .from(eventTable)
-      .select('id')
-      .eq('id', radarId)
-      .maybeSingle();
-    eventPolicy = fallback.data as Record<string, unknown> | null;
-    eventPolicyError = fallback.error;
-  }
-  if (eventPolicyError && !isPermissionError(eventPolicyError.message)) {
-    throw new Error(eventPolicyError.message);
-  }
-
-  const fallbackMembershipStatus: 'JOINED' | 'PENDING' =
-    eventPolicy?.require_host_approval === true ? 'PENDING' : 'JOINED';
-
-  const primaryTable = source === 'v2' ? 'radar_participants_v2' : 'radar_participants';
-  const secondaryTable = source === 'v2' ? 'radar_participants' : 'radar_participants_v2';
-
-  for (const table of [primaryTable, secondaryTable]) {
-    const result = await insertWithColumnFallback(
-      table,
-      {
-        radar_id: radarId,
-        user_id: userId,
-        role: 'MEMBER',
-        status: fallbackMembershipStatus,
-      },
-      undefined
-    );
-
-    if (!result.error) {
-      return fallbackMembershipStatus;
-    }
-  }
-
-  throw new Error('Gagal bergabung ke radar. Cek kebijakan akses radar di Supabase.');
-}
-
-async function setCheckInNow(params: {
-  userId: string;
-  churchId: string;
-  countryId?: string;
-  dioceseId?: string;
-  massScheduleId?: string;
-  checkinDate?: string;
-  massTime?: string;
-  churchTimezone?: string;
-  visibilityScope?: CheckInVisibilityScope;
-  notifyFollowers?: boolean;
-  notifyChurch?: boolean;
-}) {
-  const {
-    userId,
-    churchId,
-    countryId,
-    dioceseId,
-    massScheduleId,
-    checkinDate,
-    massTime,
-    churchTimezone,
-    visibilityScope,
-    notifyFollowers,
-    notifyChurch,
-  } = params;
-  const nowIso = new Date().toISOString();
-  const selectedDate = (checkinDate || nowIso.split('T')[0]).trim();
-  const selectedMassTime = massTime?.trim() || '';
-  const timeParts = selectedMassTime.match(/^(\d{1,2}):(\d{2})/);
-  let massDateTimeIso = nowIso;
-  if (timeParts) {
-    const massDate = new Date(`${selectedDate}T${timeParts[1].padStart(2, '0')}:${timeParts[2]}:00`);
-    if (!Number.isNaN(massDate.getTime())) {
-      massDateTimeIso = massDate.toISOString();
-    }
-  }
-  const resolvedChurchTimezone = (churchTimezone || 'Asia/Jakarta').trim() || 'Asia/Jakarta';
-  const normalizedScope = normalizeCheckInVisibilityScope(visibilityScope);
-  const legacyVisibility = toLegacyCheckInVisibility(normalizedScope);
-  const resolvedNotifyFollowers =
-    normalizedScope === 'private' ? false : Boolean(notifyFollowers ?? true);
-  const resolvedNotifyChurch =
-    normalizedScope === 'public' ? Boolean(notifyChurch ?? false) : false;
-
-  const archivePayload: Record<string, unknown> = {
-    status: 'ARCHIVED',
-    archived_at: nowIso,
-    updated_at: nowIso,
-  };
-  for (const table of ['mass_checkins', 'mass_checkins_v2']) {
-    const working = { ...archivePayload };
-    const archiveByStatus = async () =>
-      supabase
-        .from(table)
-        .update(working)
-        .eq('user_id', userId)
-        .eq('status', 'ACTIVE');
-
-    let archiveResult = await archiveByStatus();
-    for (let attempt = 0; attempt < 6; attempt += 1) {
-      if (!archiveResult.error) break;
-      if (
-        working.status === 'ARCHIVED' &&
-        shouldFallbackToFinishedStatus(archiveResult.error.message)
-      ) {
-        working.status = 'FINISHED';
-        archiveResult = await archiveByStatus();
-        continue;
-      }
-      const missingColumn = extractMissingColumnName(archiveResult.error.message);
-      if (
-        missingColumn &&
-        missingColumn in working &&
-        isMissingColumnError(archiveResult.error.message)
-      ) {
-        delete working[missingColumn];
-        archiveResult = await archiveByStatus();
-        continue;
-      }
-      break;
-    }
-    if (!archiveResult.error) continue;
-
-    const archiveMessage = archiveResult.error.message;
-    const statusMissing =
-      isMissingColumnError(archiveMessage) &&
-      (
-        extractMissingColumnName(archiveMessage) === 'status' ||
-        archiveMessage.toLowerCase().includes('status')
-      );
-    if (!statusMissing) continue;
-
-    let latestRowId = '';
-    const latestByCreatedAt = await supabase
-      .from(table)
-      .select('id, created_at')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-    if (!latestByCreatedAt.error && latestByCreatedAt.data?.id) {
-      latestRowId = latestByCreatedAt.data.id.toString();
-    } else if (
-      latestByCreatedAt.error &&
-      isMissingColumnError(latestByCreatedAt.error.message)
-    ) {
-      const latestFallback = await supabase
-        .from(table)
-        .select('id')
-        .eq('user_id', userId)
-        .limit(1)
-        .maybeSingle();
-      if (!latestFallback.error && latestFallback.data?.id) {
-        latestRowId = latestFallback.data.id.toString();
-      }
-    }
-    if (!latestRowId) continue;
-
-    for (let attempt = 0; attempt < 6; attempt += 1) {
-      const fallbackArchive = await supabase
-        .from(table)
-        .update(working)
-        .eq('id', latestRowId)
-        .eq('user_id', userId);
-
-      if (!fallbackArchive.error) break;
-      if (
-        working.status === 'ARCHIVED' &&
-        shouldFallbackToFinishedStatus(fallbackArchive.error.message)
-      ) {
-        working.status = 'FINISHED';
-        continue;
-      }
-      const missingColumn = extractMissingColumnName(fallbackArchive.error.message);
-      if (
-        missingColumn &&
-        missingColumn in working &&
-        isMissingColumnError(fallbackArchive.error.message)
-      ) {
-        delete working[missingColumn];
-        continue;
-      }
-      break;
-    }
-  }
-
-  if (countryId && dioceseId) {
-    const rpcResult = await supabase.rpc('radar_v2_set_checkin', {
-      p_country_id: countryId,
-      p_diocese_id: dioceseId,
-      p_church_id: churchId,
-      p_mass_schedule_id: massScheduleId || null,
-      p_checkin_date: selectedDate,
-      p_visibility: legacyVisibility,
-      p_church_timezone: resolvedChurchTimezone,
-    });
-
-    if (!rpcResult.error) {
-      return;
-    }
-
-    if (!(
-      isFunctionMissingError(rpcResult.error.message) ||
-      isPermissionError(rpcResult.error.message) ||
-      isNotAuthenticatedError(rpcResult.error.message)
-    )) {
-      console.warn('radar_v2_set_checkin RPC fallback to direct insert:', rpcResult.error.message);
-    }
-  }
-
-  const legacyPayload: Record<string, unknown> = {
-    user_id: userId,
-    church_id: churchId,
-    check_in_time: nowIso,
-    mass_time: massDateTimeIso,
-    visibility: legacyVisibility,
-    visibility_scope: normalizedScope,
-    notify_followers: resolvedNotifyFollowers,
-    notify_church: resolvedNotifyChurch,
-    status: 'ACTIVE',
-  };
-
-  const legacyInsert = await insertWithColumnFallback('mass_checkins', legacyPayload);
-  if (!legacyInsert.error) {
-    return;
-  }
-
-  const v2Payload: Record<string, unknown> = {
-    user_id: userId,
-    church_id: churchId,
-    checkin_at: nowIso,
-    checkin_date: selectedDate,
-    church_timezone: resolvedChurchTimezone,
-    visibility: legacyVisibility,
-    visibility_scope: normalizedScope,
-    notify_followers: resolvedNotifyFollowers,
-    notify_church: resolvedNotifyChurch,
-    status: 'ACTIVE',
-  };
-
-  if (countryId) {
-    v2Payload.country_id = countryId;
-  }
-  if (dioceseId) {
-    v2Payload.diocese_id = dioceseId;
-  }
-  if (massScheduleId) {
-    v2Payload.mass_schedule_id = massScheduleId;
-  }
-
-  const v2Insert = await insertWithColumnFallback('mass_checkins_v2', v2Payload);
-  if (!v2Insert.error) {
-    return;
-  }
-
-  throw new Error(
-    legacyInsert.error?.message ||
-    v2Insert.error?.message ||
-    'Gagal check-in sekarang'
-  );
-}
-
-async function setCheckOutNow(params: { userId: string; active: ActiveCheckIn }) {
-  const { userId, active } = params;
-  const nowIso = new Date().toISOString();
-  const workingPayload: Record<string, unknown> = {
-    status: 'ARCHIVED',
-    archived_at: nowIso,
-    updated_at: nowIso,
-  };
-
-  for (let attempt = 0; attempt < 8; attempt += 1) {
-    const result = await supabase
-      .from(active.table)
-      .update(workingPayload)
-      .eq('id', active.id)
-      .eq('user_id', userId);
-
-    if (!result.error) {
-      return;
-    }
-
-    const missingColumn = extractMissingColumnName(result.error.message);
-    if (
-      missingColumn &&
-      missingColumn in workingPayload &&
-      isMissingColumnError(result.error.message)
-    ) {
-      delete workingPayload[missingColumn];
-      continue;
-    }
-
-    if (
-      workingPayload.status === 'ARCHIVED' &&
-      shouldFallbackToFinishedStatus(result.error.message)
-    ) {
-      workingPayload.status = 'FINISHED';
-      continue;
-    }
-
-    if (isPermissionError(result.error.message)) {
-      throw new Error('Tidak punya izin check-out pada data check-in ini.');
-    }
-
-    throw new Error(result.error.message);
-  }
-
-  throw new Error('Gagal check-out sekarang.');
-}
-
-async function getCheckInPresence(params: {
-  churchId?: string;
-  currentUserId?: string;
-  limit?: number;
-}): Promise<CheckInPresenceItem[]> {
-  const { churchId, currentUserId, limit = 8 } = params;
-  const selectedChurchId = churchId?.trim();
-  if (!selectedChurchId) return [];
-
-  const byUser = new Map<string, { userId: string; checkAt?: string }>();
-  const followingIds = new Set<string>();
-  if (currentUserId) {
-    const following = await supabase
-      .from('follows')
-      .select('following_id')
-      .eq('follower_id', currentUserId);
-
-    if (!following.error) {
-      for (const row of (following.data ?? []) as Record<string, unknown>[]) {
-        const followingId = row.following_id?.toString();
-        if (followingId) {
-          followingIds.add(followingId);
-        }
-      }
-    } else if (!isPermissionError(following.error.message)) {
-      console.error('Error fetching follow map for check-in presence:', following.error);
-    }
-  }
-
-  for (const table of ['mass_checkins', 'mass_checkins_v2']) {
-    let rows: Record<string, unknown>[] | null = null;
-    let resultError: { message: string } | null = null;
-
-    for (const columns of [
-      'user_id, checkin_at, check_in_time, mass_time, created_at, status, visibility, visibility_scope',
-      'user_id, checkin_at, check_in_time, mass_time, created_at, status, visibility',
-      'user_id, checkin_at, check_in_time, mass_time, created_at, status',
-    ]) {
-      const result = await supabase
-        .from(table)
-        .select(columns)
-        .eq('church_id', selectedChurchId)
-        .eq('status', 'ACTIVE')
-        .order('created_at', { ascending: false })
-        .limit(80);
-
-      if (!result.error) {
-        rows = result.data as unknown as Record<string, unknown>[] | null;
-        resultError = null;
-        break;
-      }
-
-      resultError = result.error;
-      if (!isMissingColumnError(result.error.message)) {
-        break;
-      }
-    }
-
-    if (resultError && isMissingColumnError(resultError.message)) {
-      resultError = null;
-      for (const columns of [
-        'user_id, checkin_at, check_in_time, mass_time, created_at, visibility, visibility_scope',
-        'user_id, checkin_at, check_in_time, mass_time, created_at, visibility',
-        'user_id, checkin_at, check_in_time, mass_time, created_at',
-      ]) {
-        const fallback = await supabase
-          .from(table)
-          .select(columns)
-          .eq('church_id', selectedChurchId)
-          .order('created_at', { ascending: false })
-          .limit(80);
-
-        if (!fallback.error) {
-          rows = fallback.data as unknown as Record<string, unknown>[] | null;
-          resultError = null;
-          break;
-        }
-
-        resultError = fallback.error;
-        if (!isMissingColumnError(fallback.error.message)) {
-          break;
-        }
-      }
-    }
-
-    if (resultError) {
-      if (!isPermissionError(resultError.message)) {
-        console.error(`Error fetching check-in presence from ${table}:`, resultError);
-      }
-      continue;
-    }
-
-    for (const row of (rows ?? []) as Record<string, unknown>[]) {
-      const userId = row.user_id?.toString();
-      if (!userId || userId === currentUserId) continue;
-      const visibilityScope = normalizeCheckInVisibilityScope(
-        row.visibility_scope?.toString() || row.visibility?.toString()
-      );
-      if (visibilityScope === 'private') continue;
-      if (visibilityScope === 'followers' && !followingIds.has(userId)) continue;
-
-      const checkAt =
-        row.checkin_at?.toString() ||
-        row.check_in_time?.toString() ||
-        row.mass_time?.toString() ||
-        row.created_at?.toString();
-      if (!checkAt) continue;
-
-      const checkTime = new Date(checkAt).getTime();
-      if (Number.isNaN(checkTime)) continue;
-      // Keep parity with mobile: active check-in is treated as stale after 3 hours.
-      if (checkTime < Date.now() - ACTIVE_CHECKIN_MAX_AGE_MS) {
-        continue;
-      }
-
-      const existing = byUser.get(userId);
-      if (!existing) {
-        byUser.set(userId, { userId, checkAt });
-        continue;
-      }
-
-      const existingTime = new Date(existing.checkAt || '').getTime();
-      if (Number.isNaN(existingTime) || checkTime > existingTime) {
-        byUser.set(userId, { userId, checkAt });
-      }
-    }
-  }
-
-  const ordered = Array.from(byUser.values())
-    .sort((a, b) => new Date(b.checkAt || '').getTime() - new Date(a.checkAt || '').getTime())
-    .slice(0, Math.max(1, limit));
-
-  if (ordered.length === 0) return [];
-
-  const profiles = await getProfilesMap(ordered.map((item) => item.userId));
-  return ordered.map((item) => {
-    const profile = profiles.get(item.userId);
-    return {
-      userId: item.userId,
-      fullName: profile?.full_name,
-      username: profile?.username,
-      avatarUrl: profile?.avatar_url,
-      checkAt: item.checkAt,
-    } satisfies CheckInPresenceItem;
-  });
-}
-
-async function searchInviteTargets(keyword: string, currentUserId?: string) {
-  const query = keyword.trim();
-  if (query.length < 2) return [] as InviteTarget[];
-
-  const withUsername = await supabase
-    .from('profiles')
-    .select('id, full_name, username, avatar_url, role, allow_mass_invite')
-    .or(`full_name.ilike.%${query}%,username.ilike.%${query}%`)
-    .limit(12);
-
-  let rows = withUsername.data as Record<string, unknown>[] | null;
-  let searchError = withUsername.error;
-  if (searchError && isMissingColumnError(searchError.message)) {
-    const fallback = await supabase
-      .from('profiles')
-      .select('id, full_name, avatar_url, role')
-      .ilike('full_name', `%${query}%`)
-      .limit(12);
-    rows = fallback.data as Record<string, unknown>[] | null;
-    searchError = fallback.error;
-  }
-
-  if (searchError) {
-    console.error('Error searching invite targets:', searchError);
-    return [] as InviteTarget[];
-  }
-
-  return ((rows ?? []) as Record<string, unknown>[])
-    .map((row) => ({
-      id: row.id?.toString() ?? '',
-      full_name: row.full_name?.toString(),
-      username: row.username?.toString(),
-      avatar_url: row.avatar_url?.toString(),
-      role: row.role?.toString(),
-      allow_mass_invite:
-        typeof row.allow_mass_invite === 'boolean' ? row.allow_mass_invite : true,
-    }))
-    .filter((item) => Boolean(item.id) && item.id !== currentUserId);
-}
-
-async function getInviteTargetById(userId?: string): Promise<InviteTarget | null> {
-  if (!userId) return null;
-
-  const withUsername = await supabase
-    .from('profiles')
-    .select('id, full_name, username, avatar_url, role, allow_mass_invite')
-    .eq('id', userId)
-    .maybeSingle();
-
-  let row = withUsername.data as Record<string, unknown> | null;
-  let fetchError = withUsername.error;
-  if (fetchError && isMissingColumnError(fetchError.message)) {
-    const fallback = await supabase
-      .from('profiles')
-      .select('id, full_name, avatar_url, role')
-      .eq('id', userId)
-      .maybeSingle();
-    row = fallback.data as Record<string, unknown> | null;
-    fetchError = fallback.error;
-  }
-
-  if (fetchError || !row?.id) {
-    return null;
-  }
-
-  return {
-    id: row.id.toString(),
-    full_name: row.full_name?.toString(),
-    username: row.username?.toString(),
-    avatar_url: row.avatar_url?.toString(),
-    role: row.role?.toString(),
-    allow_mass_invite:
-      typeof row.allow_mass_invite === 'boolean' ? row.allow_mass_invite : true,
-  };
-}
-
-async function getLatestPersonalInviteForRadar(params: {
-  radarId: string;
-  userId: string;
-  radarSource?: RadarSource;
-}): Promise<RadarInviteItem | null> {
-  const radarId = params.radarId.trim();
-  const userId = params.userId.trim();
-  if (!radarId || !userId) return null;
-
-  const selectCandidates = [
-    'id, inviter_id, invitee_id, status, created_at, radar_id, source, note',
-    'id, inviter_id, invitee_id, status, created_at, radar_id, note',
-    'id, inviter_id, invitee_id, status, created_at, radar_id',
-  ];
-
-  let row: Record<string, unknown> | null = null;
-  let lastError = '';
-  for (const columns of selectCandidates) {
-    const result = await supabase
-      .from('radar_invites')
-      .select(columns)
-      .eq('radar_id', radarId)
-      .eq('invitee_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
-    if (!result.error) {
-      row = (result.data as Record<string, unknown> | null) ?? null;
-      break;
-    }
-
-    if (isPermissionError(result.error.message)) {
-      return null;
-    }
-    lastError = result.error.message;
-    if (!isMissingColumnError(result.error.message)) {
-      break;
-    }
-  }
-
-  if (!row?.id) {
-    if (lastError && !isMissingColumnError(lastError)) {
-      console.error('Error reading personal invite for radar:', lastError);
-    }
-    return null;
-  }
-
-  const status = normalizeInviteStatus(row.status);
-  if (!isActionablePersonalInviteStatus(status)) {
-    return null;
-  }
-
-  return {
-    id: row.id.toString(),
-    inviteId: row.id.toString(),
-    inviterId: row.inviter_id?.toString(),
-    inviteeId: row.invitee_id?.toString(),
-    inviteSource: row.source?.toString() || 'PERSONAL',
-    status,
-    createdAt: row.created_at?.toString(),
-    radarId: row.radar_id?.toString() || radarId,
-    radarSource: params.radarSource,
-    message: row.note?.toString(),
-    direction: 'incoming',
-  } satisfies RadarInviteItem;
-}
-
-async function sendRadarInvite(params: {
-  inviterId: string;
-  inviterName?: string;
-  inviteeId: string;
-  radar: RadarCardItem;
-}) {
-  const { inviterId, inviterName, inviteeId, radar } = params;
-  if (!inviterId || !inviteeId) {
-    throw new Error('User tidak valid untuk undangan radar.');
-  }
-  if (inviterId === inviteeId) {
-    throw new Error('Tidak bisa mengundang diri sendiri.');
-  }
-  if (normalizeRadarVisibility(radar.visibility) === 'PRIVATE') {
-    throw new Error('Radar private tidak mendukung undangan grup.');
-  }
-
-  const eventTable = radar.source === 'v2' ? 'radar_events_v2' : 'radar_events';
-  const eventWithPolicy = await supabase
-    .from(eventTable)
-    .select('id, creator_id, allow_member_invite')
-    .eq('id', radar.id)
-    .maybeSingle();
-
-  let eventRow = eventWithPolicy.data as Record<string, unknown> | null;
-  let eventError = eventWithPolicy.error;
-  if (eventError && isMissingColumnError(eventError.message)) {
-    const fallback = await supabase
-      .from(eventTable)
-      .select('id, creator_id')
-      .eq('id', radar.id)
-      .maybeSingle();
-    eventRow = fallback.data as Record<string, unknown> | null;
-    eventError = fallback.error;
-  }
-
-  if (eventError && !isPermissionError(eventError.message)) {
-    throw new Error(eventError.message);
-  }
-
-  if (eventRow?.id) {
-    const creatorId = eventRow.creator_id?.toString() || '';
-    const allowMemberInvite = eventRow.allow_member_invite === true;
-    const isHost = creatorId === inviterId;
-    if (!isHost && !allowMemberInvite) {
-      throw new Error('Host tidak mengizinkan undangan peserta pada radar ini.');
-    }
-    if (!isHost && allowMemberInvite) {
-      const participantTables =
-        radar.source === 'v2'
-          ? (['radar_participants_v2', 'radar_participants'] as const)
-          : (['radar_participants', 'radar_participants_v2'] as const);
-
-      let inviterIsJoinedMember = false;
-      for (const table of participantTables) {
-        const participant = await supabase
-          .from(table)
-          .select('status')
-          .eq('radar_id', radar.id)
-          .eq('user_id', inviterId)
-          .maybeSingle();
-
-        if (participant.error) {
-          if (!isMissingColumnError(participant.error.message) && !isPermissionError(participant.error.message)) {
-            throw new Error(participant.error.message);
-          }
-          continue;
-        }
-        if (!participant.data) continue;
-        const memberStatus = normalizeMembershipStatus(participant.data.status);
-        if (isJoinedMembershipStatus(memberStatus) || !memberStatus) {
-          inviterIsJoinedMember = true;
-          break;
-        }
-      }
-
-      if (!inviterIsJoinedMember) {
-        throw new Error('Anda harus bergabung dulu ke radar sebelum mengundang user lain.');
-      }
-    }
-  }
-
-  if (radar.source === 'v2') {
-    const rpcInvite = await supabase.rpc('radar_v2_send_invite', {
-      p_source: 'RADAR_GROUP',
-      p_invitee_id: inviteeId,
-      p_radar_id: radar.id,
-      p_note: radar.title,
-    });
-
-    if (!rpcInvite.error) {
-      return;
-    }
-    if (
-      !isFunctionMissingError(rpcInvite.error.message) &&
-      !isPermissionError(rpcInvite.error.message) &&
-      !isNotAuthenticatedError(rpcInvite.error.message)
-    ) {
-      throw new Error(rpcInvite.error.message);
-    }
-  }
-
-  const existingInvite = await supabase
-    .from('radar_invites')
-    .select('id, status')
-    .eq('radar_id', radar.id)
-    .eq('invitee_id', inviteeId)
-    .maybeSingle();
-  if (!existingInvite.error && existingInvite.data) {
-    const existingStatus = normalizeInviteStatus(existingInvite.data.status);
-    if (isPendingInvite(existingStatus)) {
-      throw new Error('Undangan untuk user ini sudah dikirim.');
-    }
-    if (existingStatus === 'ACCEPTED' || existingStatus === 'JOINED' || existingStatus === 'APPROVED') {
-      throw new Error('User ini sudah menerima undangan sebelumnya.');
-    }
-  }
-
-  const participantTables =
-    radar.source === 'v2'
-      ? (['radar_participants_v2', 'radar_participants'] as const)
-      : (['radar_participants', 'radar_participants_v2'] as const);
-  for (const table of participantTables) {
-    const participant = await supabase
-      .from(table)
-      .select('status')
-      .eq('radar_id', radar.id)
-      .eq('user_id', inviteeId)
-      .maybeSingle();
-    if (participant.error) {
-      if (!isMissingColumnError(participant.error.message) && !isPermissionError(participant.error.message)) {
-        throw new Error(participant.error.message);
-      }
-      continue;
-    }
-
-    if (!participant.data) continue;
-    const memberStatus = normalizeMembershipStatus(participant.data.status);
-    if (isJoinedMembershipStatus(memberStatus) || !memberStatus) {
-      throw new Error('User ini sudah menjadi peserta radar.');
-    }
-    if (isPendingMembershipStatus(memberStatus)) {
-      throw new Error('User ini sudah memiliki permintaan/join status pending.');
-    }
-  }
-
-  let inviteInsert = await insertWithColumnFallback(
-    'radar_invites',
-    {
-      inviter_id: inviterId,
-      invitee_id: inviteeId,
-      radar_id: radar.id,
-      source: 'RADAR_GROUP',
-      status: 'PENDING',
-      note: radar.title,
-    },
-    { select: 'id' }
-  );
-
-  if (inviteInsert.error && isForeignKeyError(inviteInsert.error.message)) {
-    // Some environments still pin radar_id FK to legacy table only.
-    inviteInsert = await insertWithColumnFallback(
-      'radar_invites',
-      {
-        inviter_id: inviterId,
-        invitee_id: inviteeId,
-        source: 'RADAR_GROUP',
-        status: 'PENDING',
-        note: radar.title,
-      },
-      { select: 'id' }
-    );
-  }
-
-  if (inviteInsert.duplicate) {
-    throw new Error('User ini sudah memiliki undangan aktif untuk radar tersebut.');
-  }
-
-  if (inviteInsert.error) {
-    if (isPermissionError(inviteInsert.error.message)) {
-      throw new Error('Tidak punya izin mengirim undangan pada radar ini.');
-    }
-    throw new Error(inviteInsert.error.message);
-  }
-
-  const inviteId = inviteInsert.data?.id?.toString();
-
-  const startsAtText = radar.startsAt
-    ? formatDateTimeLabel(radar.startsAt)
-    : 'jadwal akan diumumkan';
-  const message = `${inviterName || 'Seseorang'} mengundang Anda ke radar: ${radar.title} (${startsAtText})`;
-
-  const notificationPayload: Record<string, unknown> = {
-    user_id: inviteeId,
-    type: 'radar_invite',
-    title: 'Undangan Radar Misa',
-    message,
-    sender_id: inviterId,
-    actor_id: inviterId,
-    data: {
-      invite_id: inviteId,
-      radar_id: radar.id,
-      radar_source: radar.source,
-      source: 'RADAR_GROUP',
-      title: radar.title,
-      starts_at: radar.startsAt,
-      church_name: radar.churchName,
-      diocese_name: radar.dioceseName,
-      country_name: radar.countryName,
-      diocese_id: radar.dioceseId,
-      country_id: radar.countryId,
-      note: radar.title,
-    },
-  };
-
-  const notificationResult = await insertWithColumnFallback('notifications', notificationPayload);
-  if (notificationResult.error && !isMissingColumnError(notificationResult.error.message)) {
-    throw new Error(notificationResult.error.message);
-  }
-}
-
-async function getProfilesMap(userIds: string[]) {
-  const ids = [...new Set(userIds.filter(Boolean))];
-  if (ids.length === 0) {
-    return new Map<string, InviteTarget>();
-  }
-
-  const result = await supabase
-    .from('profiles')
-    .select('id, full_name, username, avatar_url, role')
-    .in('id', ids);
-
-  if (result.error) {
-    console.error('Error fetching profile map:', result.error);
-    return new Map<string, InviteTarget>();
-  }
-
-  const map = new Map<string, InviteTarget>();
-  for (const row of (result.data ?? []) as Record<string, unknown>[]) {
-    const id = row.id?.toString();
-    if (!id) continue;
-    map.set(id, {
-      id,
-      full_name: row.full_name?.toString(),
-      username: row.username?.toString(),
-      avatar_url: row.avatar_url?.toString(),
-      role: row.role?.toString(),
-    });
-  }
-
-  return map;
-}
-
-async function getRadarMap(radarIds: string[]) {
-  const ids = [...new Set(radarIds.filter(Boolean))];
-  const map = new Map<string, {
-    title?: string;
-    startsAt?: string;
-    source: RadarSource;
-    visibility?: string;
-    churchId?: string;
-    churchName?: string;
-  }>();
-
-  if (ids.length === 0) {
-    return map;
-  }
-
-  const legacyWithVisibility = await supabase
-    .from('radar_events')
-    .select('id, title, event_time, visibility, church_id, church_name')
-    .in('id', ids);
-  const legacy =
-    legacyWithVisibility.error && isMissingColumnError(legacyWithVisibility.error.message)
-      ? await supabase
-        .from('radar_events')
-        .select('id, title, event_time, church_id')
-        .in('id', ids)
-      : legacyWithVisibility;
-  if (!legacy.error) {
-    for (const row of (legacy.data ?? []) as Record<string, unknown>[]) {
-      const id = row.id?.toString();
-      if (!id) continue;
-      map.set(id, {
-        title: row.title?.toString(),
-        startsAt: row.event_time?.toString(),
-        source: 'legacy',
-        visibility: row.visibility?.toString(),
-        churchId: row.church_id?.toString(),
-        churchName: row.church_name?.toString(),
-      });
-    }
-  }
-
-  const v2WithVisibility = await supabase
-    .from('radar_events_v2')
-    .select('id, title, event_starts_at_utc, visibility, church_id, church_name')
-    .in('id', ids);
-  const v2 =
-    v2WithVisibility.error && isMissingColumnError(v2WithVisibility.error.message)
-      ? await supabase
-        .from('radar_events_v2')
-        .select('id, title, event_starts_at_utc, church_id')
-        .in('id', ids)
-      : v2WithVisibility;
-  if (!v2.error) {
-    for (const row of (v2.data ?? []) as Record<string, unknown>[]) {
-      const id = row.id?.toString();
-      if (!id) continue;
-      map.set(id, {
-        title: row.title?.toString(),
-        startsAt: row.event_starts_at_utc?.toString(),
-        source: 'v2',
-        visibility: row.visibility?.toString(),
-        churchId: row.church_id?.toString(),
-        churchName: row.church_name?.toString(),
-      });
-    }
-  }
-
-  return map;
-}
-
-async function getInviteRows(direction: 'incoming' | 'outgoing', userId?: string) {
-  if (!userId) return [] as Record<string, unknown>[];
-
-  const field = direction === 'incoming' ? 'invitee_id' : 'inviter_id';
-
-  const rowsById = new Map<string, Record<string, unknown>>();
-
-  const fetchFromTable = async (table: 'radar_invites' | 'radar_invites_v2') => {
-    const selectCandidates =
-      table === 'radar_invites_v2'
-        ? [
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, church_id, diocese_id, country_id, event_starts_at_utc',
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, church_id, event_starts_at_utc',
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, event_starts_at_utc',
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note',
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source',
-          'id, inviter_id, invitee_id, status, created_at',
-        ]
-        : [
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, church_id, diocese_id, country_id, event_starts_at_utc, event_time',
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, church_id, event_starts_at_utc, event_time',
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, event_time',
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note',
-          'id, inviter_id, invitee_id, status, created_at, radar_id, source',
-          'id, inviter_id, invitee_id, status, created_at',
-        ];
-
-    let lastErrorMessage = '';
-    for (const columns of selectCandidates) {
-      const result = await supabase
-        .from(table)
-        .select(columns)
-        .eq(field, userId)
-        .order('created_at', { ascending: false })
-        .limit(40);
-
-      if (!result.error) {
-        for (const row of (result.data ?? []) as unknown as Record<string, unknown>[]) {
-          const id = row.id?.toString();
-          const key = id || `${table}:${createRandomUUID()}`;
-          const nextRow = {
-            ...row,
-            _source_table: table,
-          } satisfies Record<string, unknown>;
-          const existing = rowsById.get(key);
-          if (!existing || table === 'radar_invites_v2') {
-            rowsById.set(key, nextRow);
-          }
-        }
-        return;
-      }
-
-      if (isPermissionError(result.error.message) || isMissingRelationError(result.error.message)) {
-        return;
-      }
-
-      lastErrorMessage = result.error.message;
-      if (!isMissingColumnError(result.error.message)) {
-        console.error(`Error fetching ${table}:`, result.error);
-        return;
-      }
-    }
-
-    if (lastErrorMessage) {
-      console.error(`Error fetching ${table} fallback:`, lastErrorMessage);
-    }
-  };
-
-  await Promise.all([
-    fetchFromTable('radar_invites'),
-    fetchFromTable('radar_invites_v2'),
-  ]);
-
-  return Array.from(rowsById.values()).sort((a, b) => {
-    const aTime = new Date(a.created_at?.toString() || '').getTime();
-    const bTime = new Date(b.created_at?.toString() || '').getTime();
-    return bTime - aTime;
-  });
-}
-
-async function getIncomingRadarInvites(userId?: string): Promise<RadarInviteItem[]> {
-  if (!userId) return [];
-
-  const tableRows = await getInviteRows('incoming', userId);
-  const inviteMap = new Map<string, RadarInviteItem>();
-
-  for (const row of tableRows) {
-    const id = row.id?.toString();
-    if (!id) continue;
-    const sourceTable = row._source_table?.toString();
-    inviteMap.set(id, {
-      id,
-      inviteId: id,
-      inviterId: row.inviter_id?.toString(),
-      inviteeId: row.invitee_id?.toString(),
-      inviteSource: row.source?.toString(),
-      status: normalizeInviteStatus(row.status),
-      createdAt: row.created_at?.toString(),
-      radarId: row.radar_id?.toString(),
-      radarChurchId: row.church_id?.toString(),
-      radarStartsAt: row.event_starts_at_utc?.toString() || row.event_time?.toString(),
-      radarSource:
-        sourceTable === 'radar_invites_v2'
-          ? (row.radar_id ? 'v2' : undefined)
-          : undefined,
-      message: row.note?.toString() || row.message?.toString(),
-      direction: 'incoming',
-    });
-  }
-
-  const notificationsWithRead = await supabase
-    .from('notifications')
-    .select('id, user_id, type, title, message, data, sender_id, actor_id, created_at, is_read, read_at')
-    .eq('user_id', userId)
-    .eq('type', 'radar_invite')
-    .order('created_at', { ascending: false })
-    .limit(50);
-
-  let notificationRows = notificationsWithRead.data as Record<string, unknown>[] | null;
-  let notificationError = notificationsWithRead.error;
-  if (notificationError && isMissingColumnError(notificationError.message)) {
-    const fallback = await supabase
-      .from('notifications')
-      .select('id, user_id, type, title, message, data, sender_id, actor_id, created_at, read_at')
-      .eq('user_id', userId)
-      .eq('type', 'radar_invite')
-      .order('created_at', { ascending: false })
-      .limit(50);
-    notificationRows = fallback.data as Record<string, unknown>[] | null;
-    notificationError = fallback.error;
-  }
-
-  if (!notificationError) {
-    for (const row of (notificationRows ?? []) as Record<string, unknown>[]) {
-      const data = (row.data as Record<string, unknown> | null) ?? {};
-      const inviteId = data.invite_id?.toString();
-      const isRead = typeof row.is_read === 'boolean' ? row.is_read : Boolean(row.read_at);
-      const status = isRead ? 'SEEN' : 'PENDING';
-      const notifNote = data.note?.toString();
-
-      const targetId =
-        (inviteId && inviteMap.has(inviteId) ? inviteId : null) ||
-        `notif:${row.id?.toString() || createRandomUUID()}`;
-      const existing = inviteMap.get(targetId);
-
-      inviteMap.set(targetId, {
-        id: targetId,
-        inviteId: inviteId || existing?.inviteId,
-        notificationId: row.id?.toString() || existing?.notificationId,
-        inviterId:
-          row.sender_id?.toString() ||
-          row.actor_id?.toString() ||
-          data.inviter_id?.toString() ||
-          existing?.inviterId,
-        inviteeId: userId,
-        status: existing?.status || status,
-        createdAt: row.created_at?.toString() || existing?.createdAt,
-        radarId: data.radar_id?.toString() || existing?.radarId,
-        radarChurchId: data.church_id?.toString() || existing?.radarChurchId,
-        radarTitle: data.title?.toString() || existing?.radarTitle,
-        radarCountryName: data.country_name?.toString() || existing?.radarCountryName,
-        radarDioceseName: data.diocese_name?.toString() || existing?.radarDioceseName,
-        radarChurchName: data.church_name?.toString() || existing?.radarChurchName,
-        radarStartsAt: data.starts_at?.toString() || existing?.radarStartsAt,
-        radarSource:
-          (data.radar_source?.toString() as RadarSource | undefined) ||
-          existing?.radarSource,
-        inviteSource:
-          data.source?.toString() ||
-          existing?.inviteSource,
-        message: existing?.message || notifNote || row.message?.toString(),
-        direction: 'incoming',
-      });
-    }
-  } else if (!isPermissionError(notificationError.message)) {
-    console.error('Error fetching radar invite notifications:', notificationError);
-  }
-
-  const invites = Array.from(inviteMap.values());
-  const profileIds = invites
-    .flatMap((invite) => [invite.inviterId, invite.inviteeId])
-    .filter((id): id is string => Boolean(id));
-  const radarIds = invites
-    .map((invite) => invite.radarId)
-    .filter((id): id is string => Boolean(id));
-
-  const [profiles, radars] = await Promise.all([
-    getProfilesMap(profileIds),
-    getRadarMap(radarIds),
-  ]);
-  const churchIds = invites
-    .map((invite) => {
-      if (invite.radarChurchId) return invite.radarChurchId;
-      if (!invite.radarId) return '';
-      return radars.get(invite.radarId)?.churchId || '';
-    })
-    .filter((id): id is string => Boolean(id));
-  const churchLocations = await getChurchLocationNamesByIds(churchIds);
-
-  return invites
-    .map((invite) => {
-      const inviter = invite.inviterId ? profiles.get(invite.inviterId) : undefined;
-      const invitee = invite.inviteeId ? profiles.get(invite.inviteeId) : undefined;
-      const radar = invite.radarId ? radars.get(invite.radarId) : undefined;
-      const churchId = invite.radarChurchId || radar?.churchId;
-      const location = churchId ? churchLocations.get(churchId) : undefined;
-
-      return {
-        ...invite,
-        radarChurchId: churchId,
-        inviterName: inviter?.full_name || invite.inviterName,
-        inviteeName: invitee?.full_name || invite.inviteeName,
-        inviterAvatarUrl: inviter?.avatar_url || invite.inviterAvatarUrl,
-        inviteeAvatarUrl: invitee?.avatar_url || invite.inviteeAvatarUrl,
-        radarTitle: invite.radarTitle || radar?.title,
-        radarCountryName: invite.radarCountryName || location?.countryName,
-        radarDioceseName: invite.radarDioceseName || location?.dioceseName,
-        radarChurchName: invite.radarChurchName || radar?.churchName || location?.churchName,
-        radarStartsAt: invite.radarStartsAt || radar?.startsAt,
-        radarSource: invite.radarSource || radar?.source,
-        radarVisibility: invite.radarVisibility || radar?.visibility,
-        inviteSource: invite.inviteSource || (radar?.visibility?.toUpperCase() === 'PRIVATE' ? 'PERSONAL' : undefined),
-        status: normalizeInviteStatus(invite.status),
-      };
-    })
-    .sort((a, b) => {
-      const aTime = new Date(a.createdAt || '').getTime();
-      const bTime = new Date(b.createdAt || '').getTime();
-      return bTime - aTime;
-    });
-}
-
-async function getOutgoingRadarInvites(userId?: string): Promise<RadarInviteItem[]> {
-  if (!userId) return [];
-
-  const rows = await getInviteRows('outgoing', userId);
-  if (rows.length === 0) return [];
-
-  const invites: RadarInviteItem[] = rows.map((row) => ({
-    id: row.id?.toString() || createRandomUUID(),
-    inviteId: row.id?.toString(),
-    inviterId: row.inviter_id?.toString(),
-    inviteeId: row.invitee_id?.toString(),
-    inviteSource: row.source?.toString(),
-    status: normalizeInviteStatus(row.status),
-    createdAt: row.created_at?.toString(),
-    radarId: row.radar_id?.toString(),
-    radarChurchId: row.church_id?.toString(),
-    radarStartsAt: row.event_starts_at_utc?.toString() || row.event_time?.toString(),
-    radarSource:
-      row._source_table?.toString() === 'radar_invites_v2'
-        ? (row.radar_id ? 'v2' : undefined)
-        : undefined,
-    message: row.note?.toString() || row.message?.toString(),
-    direction: 'outgoing',
-  }));
-
-  const profileIds = invites
-    .flatMap((invite) => [invite.inviterId, invite.inviteeId])
-    .filter((id): id is string => Boolean(id));
-  const radarIds = invites
-    .map((invite) => invite.radarId)
-    .filter((id): id is string => Boolean(id));
-
-  const [profiles, radars] = await Promise.all([
-    getProfilesMap(profileIds),
-    getRadarMap(radarIds),
-  ]);
-  const churchIds = invites
-    .map((invite) => {
-      if (invite.radarChurchId) return invite.radarChurchId;
-      if (!invite.radarId) return '';
-      return radars.get(invite.radarId)?.churchId || '';
-    })
-    .filter((id): id is string => Boolean(id));
-  const churchLocations = await getChurchLocationNamesByIds(churchIds);
-
-  return invites
-    .map((invite) => {
-      const radar = invite.radarId ? radars.get(invite.radarId) : undefined;
-      const churchId = invite.radarChurchId || radar?.churchId;
-      const location = churchId ? churchLocations.get(churchId) : undefined;
-      return {
-        ...invite,
-        radarChurchId: churchId,
-        inviterName: invite.inviterId ? profiles.get(invite.inviterId)?.full_name : undefined,
-        inviteeName: invite.inviteeId ? profiles.get(invite.inviteeId)?.full_name : undefined,
-        inviterAvatarUrl: invite.inviterId ? profiles.get(invite.inviterId)?.avatar_url : undefined,
-        inviteeAvatarUrl: invite.inviteeId ? profiles.get(invite.inviteeId)?.avatar_url : undefined,
-        radarTitle:
-          invite.radarTitle ||
-          (invite.radarId ? radars.get(invite.radarId)?.title : undefined),
-        radarCountryName: invite.radarCountryName || location?.countryName,
-        radarDioceseName: invite.radarDioceseName || location?.dioceseName,
-        radarChurchName:
-          invite.radarChurchName ||
-          (invite.radarId ? radars.get(invite.radarId)?.churchName : undefined) ||
-          location?.churchName,
-        radarStartsAt:
-          invite.radarStartsAt ||
-          (invite.radarId ? radars.get(invite.radarId)?.startsAt : undefined),
-        radarSource:
-          invite.radarSource ||
-          (invite.radarId ? radars.get(invite.radarId)?.source : undefined),
-        radarVisibility:
-          invite.radarVisibility ||
-          (invite.radarId ? radars.get(invite.radarId)?.visibility : undefined),
-        inviteSource:
-          invite.inviteSource ||
-          (invite.radarId && radars.get(invite.radarId)?.visibility?.toUpperCase() === 'PRIVATE'
-            ? 'PERSONAL'
-            : undefined),
-        status: normalizeInviteStatus(invite.status),
-      };
-    })
-    .sort((a, b) => {
-      const aTime = new Date(a.createdAt || '').getTime();
-      const bTime = new Date(b.createdAt || '').getTime();
-      return bTime - aTime;
-    });
-}
-
-async function resolveRadarSourceById(radarId: string): Promise<RadarSource | null> {
-  const id = radarId.trim();
-  if (!id) return null;
-
-  const v2 = await supabase
-    .from('radar_events_v2')
-    .select('id')
-    .eq('id', id)
-    .maybeSingle();
-  if (!v2.error && v2.data?.id) {
-    return 'v2';
-  }
-  if (
-    v2.error &&
-    !isPermissionError(v2.error.message) &&
-    !isMissingColumnError(v2.error.message) &&
-    !isMissingRelationError(v2.error.message)
-  ) {
-    throw new Error(v2.error.message);
-  }
-
-  const legacy = await supabase
-    .from('radar_events')
-    .select('id')
-    .eq('id', id)
-    .maybeSingle();
-  if (!legacy.error && legacy.data?.id) {
-    return 'legacy';
-  }
-  if (
-    legacy.error &&
-    !isPermissionError(legacy.error.message) &&
-    !isMissingColumnError(legacy.error.message) &&
-    !isMissingRelationError(legacy.error.message)
-  ) {
-    throw new Error(legacy.error.message);
-  }
-
-  return null;
-}
-
-async function resolveRadarChatId(params: {
-  radarId: string;
-  source: RadarSource;
-}): Promise<string | null> {
-  const { radarId, source } = params;
-  if (!radarId.trim()) return null;
-
-  if (source === 'v2') {
-    const detailRpc = await supabase.rpc('radar_v2_get_event_detail', {
-      p_radar_id: radarId,
-    });
-
-    if (!detailRpc.error) {
-      const raw = Array.isArray(detailRpc.data) ? detailRpc.data[0] : detailRpc.data;
-      const row = (raw as Record<string, unknown> | null) ?? {};
-      const chatGroupId =
-        row.chat_group_id?.toString().trim() ||
-        row.chat_room_id?.toString().trim() ||
-        '';
-      if (chatGroupId) return chatGroupId;
-    } else if (
-      !isFunctionMissingError(detailRpc.error.message) &&
-      !isPermissionError(detailRpc.error.message) &&
-      !isNotAuthenticatedError(detailRpc.error.message)
-    ) {
-      throw new Error(detailRpc.error.message);
-    }
-
-    const chatGroup = await supabase
-      .from('radar_chat_groups_v2')
-      .select('id')
-      .eq('radar_id', radarId)
-      .order('created_at', { ascending: true })
-      .limit(1)
-      .maybeSingle();
-
-    if (chatGroup.error) {
-      if (
-        isPermissionError(chatGroup.error.message) ||
-        isMissingColumnError(chatGroup.error.message) ||
-        isMissingRelationError(chatGroup.error.message)
-      ) {
-        return null;
-      }
-      throw new Error(chatGroup.error.message);
-    }
-
-    const chatGroupId = chatGroup.data?.id?.toString().trim();
-    return chatGroupId || null;
-  }
-
-  const withChatRoom = await supabase
-    .from('radar_events')
-    .select('chat_room_id')
-    .eq('id', radarId)
-    .maybeSingle();
-  let eventRow = withChatRoom.data as Record<string, unknown> | null;
-  let eventError = withChatRoom.error;
-  if (eventError && isMissingColumnError(eventError.message)) {
-    const fallback = await supabase
-      .from('radar_events')
-      .select('id')
-      .eq('id', radarId)
-      .maybeSingle();
-    eventRow = fallback.data as Record<string, unknown> | null;
-    eventError = fallback.error;
-  }
-  if (eventError) {
-    if (isPermissionError(eventError.message) || isMissingRelationError(eventError.message)) {
-      return null;
-    }
-    throw new Error(eventError.message);
-  }
-
-  const chatRoomId = eventRow?.chat_room_id?.toString().trim();
-  return chatRoomId || null;
-}
-
-async function ensureRadarInviteChatAccess(params: {
-  chatId: string;
-  radarId: string;
-  source: RadarSource;
-  userId: string;
-  fallbackTitle?: string;
-}) {
-  const { chatId, radarId, source, userId, fallbackTitle } = params;
-  const nowIso = new Date().toISOString();
-
-  if (source === 'v2') {
-    const bridge = await supabase.rpc('radar_v2_ensure_chat_bridge', {
-      p_chat_group_id: chatId,
-      p_user_id: userId,
-    });
-    if (
-      bridge.error &&
-      !isFunctionMissingError(bridge.error.message) &&
-      !isPermissionError(bridge.error.message) &&
-      !isNotAuthenticatedError(bridge.error.message)
-    ) {
-      throw new Error(bridge.error.message);
-    }
-
-    const v2Member = await insertWithColumnFallback('radar_chat_members_v2', {
-      chat_group_id: chatId,
-      user_id: userId,
-      role: 'MEMBER',
-      status: 'JOINED',
-      joined_at: nowIso,
-    });
-    if (
-      v2Member.error &&
-      !isPermissionError(v2Member.error.message) &&
-      !isMissingColumnError(v2Member.error.message) &&
-      !isMissingRelationError(v2Member.error.message)
-    ) {
-      throw new Error(v2Member.error.message);
-    }
-  }
-
-  const existingChat = await supabase
-    .from('social_chats')
-    .select('id')
-    .eq('id', chatId)
-    .maybeSingle();
-
-  if (
-    existingChat.error &&
-    !isPermissionError(existingChat.error.message) &&
-    !isMissingColumnError(existingChat.error.message) &&
-    !isMissingRelationError(existingChat.error.message)
-  ) {
-    throw new Error(existingChat.error.message);
-  }
-
-  if (!existingChat.error && !existingChat.data?.id) {
-    const eventTable = source === 'v2' ? 'radar_events_v2' : 'radar_events';
-    const eventWithPolicy = await supabase
-      .from(eventTable)
-      .select('id, title, creator_id, allow_member_invite')
-      .eq('id', radarId)
-      .maybeSingle();
-
-    let eventRow = eventWithPolicy.data as Record<string, unknown> | null;
-    let eventError = eventWithPolicy.error;
-    if (eventError && isMissingColumnError(eventError.message)) {
-      const fallback = await supabase
-        .from(eventTable)
-        .select('id, title, creator_id')
-        .eq('id', radarId)
-        .maybeSingle();
-      eventRow = fallback.data as Record<string, unknown> | null;
-      eventError = fallback.error;
-    }
-    if (
-      eventError &&
-      !isPermissionError(eventError.message) &&
-      !isMissingColumnError(eventError.message) &&
-      !isMissingRelationError(eventError.message)
-    ) {
-      throw new Error(eventError.message);
-    }
-
-    const creatorId = eventRow?.creator_id?.toString() || userId;
-    const groupName = eventRow?.title?.toString().trim() || fallbackTitle?.trim() || 'Radar Misa';
-    const participants = Array.from(new Set([userId, creatorId].filter(Boolean)));
-    const allowMemberInvite =
-      typeof eventRow?.allow_member_invite === 'boolean'
-        ? eventRow.allow_member_invite
-        : true;
-
-    const createChat = await insertWithColumnFallback('social_chats', {
-      id: chatId,
-      is_group: true,
-      group_name: groupName,
-      admin_id: creatorId,
-      creator_id: creatorId,
-      participants,
-      invite_mode: 'open',
-      invite_link_enabled: false,
-      allow_member_invite: allowMemberInvite,
-      updated_at: nowIso,
-    });
-    if (
-      createChat.error &&
-      !isPermissionError(createChat.error.message) &&
-      !isMissingColumnError(createChat.error.message) &&
-      !isMissingRelationError(createChat.error.message)
-    ) {
-      throw new Error(createChat.error.message);
-    }
-  }
-
-  const chatMember = await insertWithColumnFallback('chat_members', {
-    chat_id: chatId,
-    user_id: userId,
-    role: 'member',
-    status: 'JOINED',
-    joined_at: nowIso,
-  });
-  if (
-    chatMember.error &&
-    !isPermissionError(chatMember.error.message) &&
-    !isMissingColumnError(chatMember.error.message) &&
-    !isMissingRelationError(chatMember.error.message)
-  ) {
-    throw new Error(chatMember.error.message);
-  }
-}
-
-async function resolveInviteChatId(params: {
-  invite: RadarInviteItem;
-  userId: string;
-}): Promise<string | null> {
-  const { invite, userId } = params;
-  let radarId = invite.radarId?.trim() || '';
-  let source = invite.radarSource ?? null;
-
-  if (!radarId && invite.inviteId) {
-    const inviteRow = await supabase
-      .from('radar_invites')
-      .select('radar_id')
-      .eq('id', invite.inviteId)
-      .maybeSingle();
-
-    if (!inviteRow.error && inviteRow.data?.radar_id) {
-      radarId = inviteRow.data.radar_id.toString();
-    } else if (
-      inviteRow.error &&
-      !isPermissionError(inviteRow.error.message) &&
-      !isMissingColumnError(inviteRow.error.message) &&
-      !isMissingRelationError(inviteRow.error.message)
-    ) {
-      throw new Error(inviteRow.error.message);
-    }
+  if (
+    normalized.includes('mengundang anda ke radar') ||
+    normalized.includes('mengajak anda misa di') ||
+    normalized.includes('undangan radar misa')
+  ) {
+    return '';
   }
 
-  if (!radarId) return null;
-  if (!source) {
-    source = await resolveRadarSourceById(radarId);
-  }
-  if (!source) return null;
+  return raw;
+}
 
-  const chatId = await resolveRadarChatId({
-    radarId,
-    source,
-  });
-  if (!chatId) return null;
-
-  await ensureRadarInviteChatAccess({
-    chatId,
-    radarId,
-    source,
-    userId,
-    fallbackTitle: invite.radarTitle,
-  });
+function isPersonalInvite(item: RadarInviteItem) {
+  const source = item.inviteSource?.trim().toUpperCase();
+  if (source === 'PERSONAL') return true;
 
-  return chatId;
+  const visibility = normalizeRadarVisibility(item.radarVisibility);
+  return visibility === 'PRIVATE' || visibility === 'PERSONAL';
 }
 
-async function markNotificationRead(notificationId: string) {
-  if (!notificationId) return;
+function toLocalDateValue(value: Date) {
+  const year = value.getFullYear();
+  const month = `${value.getMonth() + 1}`.padStart(2, '0');
+  const date = `${value.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${date}`;
+}
 
-  const withIsRead = await supabase
-    .from('notifications')
-    .update({
-      is_read: true,
-      read_at: new Date().toISOString(),
-    })
-    .eq('id', notificationId);
+function useDebouncedValue(value: string, delay = 250) {
+  const [debounced, setDebounced] = useState(value);
 
-  if (!withIsRead.error) return;
-  if (!isMissingColumnError(withIsRead.error.message)) return;
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [delay, value]);
 
-  await supabase
-    .from('notifications')
-    .update({ read_at: new Date().toISOString() })
-    .eq('id', notificationId);
+  return debounced;
 }
 
-async function respondToRadarInvite(params: {
-  userId: string;
-  userName?: string;
-  invite: RadarInviteItem;
-  accept: boolean;
-}) {
-  const { userId, userName, invite, accept } = params;
-  const nextStatus = accept ? 'ACCEPTED' : 'DECLINED';
-  let joinWarning: string | null = null;
-  let joinStatus: RadarMembershipStatus | null = null;
-
-  if (invite.inviteId) {
-    let updatedViaRpc = false;
-
-    const useV2Respond =
-      invite.radarSource === 'v2' ||
-      invite.inviteSource?.trim().toUpperCase() === 'PERSONAL';
-
-    if (useV2Respond) {
-      const rpcV2 = await supabase.rpc('radar_v2_respond_invite', {
-        p_invite_id: invite.inviteId,
-        p_accept: accept,
-      });
-      updatedViaRpc = !rpcV2.error;
-      if (
-        rpcV2.error &&
-        !isFunctionMissingError(rpcV2.error.message) &&
-        !isPermissionError(rpcV2.error.message) &&
-        !isNotAuthenticatedError(rpcV2.error.message)
-      ) {
-        throw new Error(rpcV2.error.message);
-      }
-    }
-
-    if (!updatedViaRpc) {
-      const rpcLegacy = await supabase.rpc('respond_radar_invite', {
-        p_invite_id: invite.inviteId,
-        p_accept: accept,
-      });
+function canCreateRadarByRole(role?: string | null) {
+  const normalized = role?.trim().toLowerCase() ?? '';
+  return normalized === 'umat' || normalized === 'katekumen';
+}
 
-      updatedViaRpc = !rpcLegacy.error;
+function formatRoleLabel(role?: string) {
+  if (!role) return 'Umat';
+  const normalized = role.trim().toLowerCase();
+  if (!normalized) return 'Umat';
+  if (normalized === 'katekumen') return 'Katekumen';
+  if (normalized === 'pastor') return 'Pastor';
+  if (normalized === 'suster') return 'Suster';
+  if (normalized === 'bruder') return 'Bruder';
+  if (normalized === 'frater') return 'Frater';
+  return normalized.charAt(0).toUpperCase() + normalized.slice(1);
+}
 
-      if (
-        rpcLegacy.error &&
-        !isFunctionMissingError(rpcLegacy.error.message) &&
-        !isPermissionError(rpcLegacy.error.message) &&
-        !isNotAuthenticatedError(rpcLegacy.error.message)
-      ) {
-        throw new Error(rpcLegacy.error.message);
-      }
-    }
+function normalizeScheduleDayOfWeek(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return -1;
+  const day = Math.trunc(parsed);
+  if (day === 0) return 7;
+  return day;
+}
 
-    if (!updatedViaRpc) {
-      const updateResult = await supabase
-        .from('radar_invites')
-        .update({
-          status: nextStatus,
-          responded_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', invite.inviteId)
-        .eq('invitee_id', userId);
-
-      if (
-        updateResult.error &&
-        !isPermissionError(updateResult.error.message) &&
-        !isMissingColumnError(updateResult.error.message)
-      ) {
-        throw new Error(updateResult.error.message);
-      }
+function formatScheduleDayShortLabel(value: unknown) {
+  const day = normalizeScheduleDayOfWeek(value);
+  if (day === 1) return 'Sen';
+  if (day === 2) return 'Sel';
+  if (day === 3) return 'Rab';
+  if (day === 4) return 'Kam';
+  if (day === 5) return 'Jum';
+  if (day === 6) return 'Sab';
+  if (day === 7) return 'Min';
+  return '';
+}
 
-      updatedViaRpc = !updateResult.error;
-    }
+function parseClockTime(value: string) {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
 
-    if (!updatedViaRpc && !invite.notificationId) {
-      throw new Error('Undangan tidak dapat diperbarui.');
-    }
-  }
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (!Number.isFinite(hour) || !Number.isFinite(minute)) return null;
+  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) return null;
 
-  if (invite.notificationId) {
-    await markNotificationRead(invite.notificationId);
-  }
+  return {
+    hour,
+    minute,
+  };
+}
 
-  if (accept && invite.radarId && invite.radarSource) {
-    try {
-      joinStatus = await joinRadarEvent({
-        radarId: invite.radarId,
-        userId,
-        source: invite.radarSource,
-      });
-    } catch (error) {
-      joinWarning = error instanceof Error ? error.message : 'Gagal join radar setelah menerima undangan';
-    }
-  }
+type SearchableCheckInSelectProps = {
+  label: string;
+  value: string;
+  selectedLabel: string;
+  options: AuthLocationOption[];
+  placeholder: string;
+  searchPlaceholder: string;
+  emptyMessage: string;
+  loadingMessage: string;
+  searchValue: string;
+  onSearchChange: (value: string) => void;
+  onValueChange: (value: string) => void;
+  disabled?: boolean;
+  isLoading?: boolean;
+};
 
-  if (invite.inviterId) {
-    const notifyResult = await insertWithColumnFallback('notifications', {
-      user_id: invite.inviterId,
-      type: accept ? 'radar_invite_accepted' : 'radar_invite_declined',
-      title: accept ? 'Undangan Radar Diterima' : 'Undangan Radar Ditolak',
-      message: accept
-        ? `${userName || 'Seseorang'} menerima undangan radar Anda.`
-        : `${userName || 'Seseorang'} menolak undangan radar Anda.`,
-      sender_id: userId,
-      actor_id: userId,
-      data: {
-        invite_id: invite.inviteId,
-        radar_id: invite.radarId,
-      },
-    });
+function SearchableCheckInSelect({
+  label,
+  value,
+  selectedLabel,
+  options,
+  placeholder,
+  searchPlaceholder,
+  emptyMessage,
+  loadingMessage,
+  searchValue,
+  onSearchChange,
+  onValueChange,
+  disabled = false,
+  isLoading = false,
+}: SearchableCheckInSelectProps) {
+  const [open, setOpen] = useState(false);
+  const triggerLabel = selectedLabel || (isLoading ? loadingMessage : placeholder);
 
-    if (notifyResult.error && !isMissingColumnError(notifyResult.error.message)) {
-      throw new Error(notifyResult.error.message);
-    }
-  }
+  return (
+    <div className="space-y-1.5">
+      <label className="text-sm font-medium">{label}</label>
+      <Popover
+        open={open}
+        onOpenChange={(nextOpen) => {
+          setOpen(nextOpen);
+          if (!nextOpen && searchValue) {
+            onSearchChange('');
+          }
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="h-10 w-full justify-between rounded-md border border-input bg-background px-3 text-sm font-normal outline-none focus-visible:ring-2 focus-visible:ring-primary/30"
+            disabled={disabled}
+          >
+            <span className={cn('truncate', !selectedLabel && 'text-muted-foreground')}>
+              {triggerLabel}
+            </span>
+            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent
+          align="start"
+          className="w-[var(--radix-popover-trigger-width)] rounded-xl border-border/70 bg-card/95 p-0"
+        >
+          <Command shouldFilter={false} className="rounded-xl bg-transparent">
+            <CommandInput
+              placeholder={searchPlaceholder}
+              value={searchValue}
+              onValueChange={onSearchChange}
+            />
+            <CommandList className="max-h-64">
+              {isLoading ? (
+                <p className="px-3 py-3 text-sm text-muted-foreground">{loadingMessage}</p>
+              ) : options.length === 0 ? (
+                <p className="px-3 py-3 text-sm text-muted-foreground">{emptyMessage}</p>
+              ) : (
+                <CommandGroup>
+                  {options.map((item) => (
+                    <CommandItem
+                      key={item.id}
+                      value={`${item.name}-${item.id}`}
+                      onSelect={() => {
+                        onValueChange(item.id);
+                        setOpen(false);
+                      }}
+                    >
+                      <Check
+                        className={cn(
+                          'h-4 w-4',
+                          value === item.id ? 'text-primary opacity-100' : 'opacity-0'
+                        )}
+                      />
+                      <span className="truncate">{item.name}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
 
+function toRadarCardItem(event: RadarEvent): RadarCardItem {
   return {
-    joinWarning,
-    joinStatus,
+    id: event.id,
+    title: event.title,
+    description: event.description || undefined,
+    startsAt: event.event_starts_at_utc || undefined,
+    maxParticipants: event.max_participants || undefined,
+    participantCount: event.participant_count ?? 0,
+    churchId: event.church_id || undefined,
+    dioceseId: event.church?.diocese_id,
+    countryId: event.church?.country_id,
+    churchName: event.church?.name,
+    dioceseName: event.church?.diocese_name,
+    countryName: event.church?.country_name,
+    creatorId: event.creator_id || undefined,
+    allowMemberInvite: event.allow_member_invite,
+    status: event.status,
+    visibility: event.visibility,
+    source: event.source ?? 'v2',
   };
 }
 
@@ -3375,6 +368,8 @@ export default function RadarPage() {
   const { user, profile } = useAuth();
   const { data: churches = [] } = useChurches();
   const canCreateRadar = canCreateRadarByRole(profile?.role);
+  const { mutate: subscribePersonalCalendar, isPending: isSubscribingCalendar } =
+    useSubscribePersonalCalendar();
 
   const requestedTab = searchParams.get('tab');
   const targetIdFromQuery = searchParams.get('targetId')?.trim() ?? '';
@@ -3420,6 +415,10 @@ export default function RadarPage() {
   );
   const [createScheduleId, setCreateScheduleId] = useState('');
   const [createManualTime, setCreateManualTime] = useState('');
+  const [createRepeat, setCreateRepeat] = useState<RadarSeriesFrequency | ''>('');
+  const [createRepeatEnd, setCreateRepeatEnd] = useState<'count' | 'date'>('count');
+  const [createRepeatCount, setCreateRepeatCount] = useState(4);
+  const [createRepeatUntil, setCreateRepeatUntil] = useState('');
   const [createMaxParticipants, setCreateMaxParticipants] = useState(50);
   const [createAllowMemberInvite, setCreateAllowMemberInvite] = useState(true);
   const [createRequireHostApproval, setCreateRequireHostApproval] = useState(false);
@@ -3510,7 +509,7 @@ export default function RadarPage() {
 
     let isMounted = true;
     const hydrateCreateHierarchy = async () => {
-      const hierarchy = await getChurchHierarchyIds(createChurchId);
+      const hierarchy = await RadarService.getChurchHierarchyIds(createChurchId);
       if (!isMounted) return;
       if (!createCountryId && hierarchy.countryId) {
         setCreateCountryId((current) => current || hierarchy.countryId);
@@ -3549,7 +548,7 @@ export default function RadarPage() {
       }
 
       if (preferredChurch && (!profile?.country_id || !profile?.diocese_id)) {
-        const hierarchy = await getChurchHierarchyIds(preferredChurch);
+        const hierarchy = await RadarService.getChurchHierarchyIds(preferredChurch);
         if (!isMounted) return;
         if (!profile?.country_id && hierarchy.countryId) {
           setPersonalCountryId((current) => current || hierarchy.countryId);
@@ -3584,7 +583,7 @@ export default function RadarPage() {
 
     let isMounted = true;
     const hydratePersonalHierarchy = async () => {
-      const hierarchy = await getChurchHierarchyIds(personalChurchId);
+      const hierarchy = await RadarService.getChurchHierarchyIds(personalChurchId);
       if (!isMounted) return;
       if (!personalCountryId && hierarchy.countryId) {
         setPersonalCountryId((current) => current || hierarchy.countryId);
@@ -3620,35 +619,33 @@ export default function RadarPage() {
     }
   }, [checkInNotifyChurch, checkInNotifyFollowers, checkInVisibilityScope]);
 
-  const { data: events = [], isLoading } = useQuery({
-    queryKey: ['radar-events', user?.id],
-    queryFn: () => getRadarEvents(user?.id),
-    enabled: Boolean(user?.id),
-  });
-  const { data: ownerHistoryEvents = [], isLoading: isLoadingOwnerHistory } = useQuery({
-    queryKey: ['owner-radar-events', user?.id],
-    queryFn: () => getOwnerRadarEvents(user?.id),
-    enabled: Boolean(user?.id),
-  });
+  const { data: radarEvents, isLoading } = useRadarEvents();
+  const { data: ownerRadarEvents, isLoading: isLoadingOwnerHistory } = useOwnerRadarEvents();
+  const events = useMemo(() => (radarEvents ?? []).map(toRadarCardItem), [radarEvents]);
+  const ownerHistoryEvents = useMemo(
+    () => (ownerRadarEvents ?? []).map(toRadarCardItem),
+    [ownerRadarEvents]
+  );
 
   const { data: lastCheckIn } = useQuery({
     queryKey: ['last-checkin', user?.id],
-    queryFn: () => getLastCheckIn(user?.id),
+    queryFn: () => RadarCheckInService.getLastCheckIn(user?.id),
     enabled: Boolean(user?.id),
   });
 
   const { data: activeCheckIn } = useQuery({
     queryKey: ['active-checkin', user?.id],
-    queryFn: () => getActiveCheckIn(user?.id),
+    queryFn: () => RadarCheckInService.getActiveCheckIn(user?.id),
     enabled: Boolean(user?.id),
     refetchInterval: 60_000,
   });
-  const { data: focusedRadar, isLoading: isLoadingFocusedRadar } = useQuery({
-    queryKey: ['radar-by-id', radarIdFromQuery],
-    queryFn: () => getRadarEventById(radarIdFromQuery),
-    enabled: radarIdFromQuery.length > 0,
+  const { data: focusedRadarEvent, isLoading: isLoadingFocusedRadar } = useRadarEvent(radarIdFromQuery, {
     staleTime: 60_000,
   });
+  const focusedRadar = useMemo(
+    () => (focusedRadarEvent ? toRadarCardItem(focusedRadarEvent) : undefined),
+    [focusedRadarEvent]
+  );
   const { data: checkInSchedules = [], isLoading: isLoadingCheckInSchedules } = useMassSchedules({
     churchId: checkInChurchId || undefined,
   });
@@ -3743,11 +740,7 @@ export default function RadarPage() {
     }
     return ids;
   }, [events, focusedRadar?.id]);
-  const { data: radarMembershipMap = {} } = useQuery({
-    queryKey: ['radar-membership-map', user?.id, eventIds],
-    queryFn: () => getRadarMembershipMap(user?.id, eventIds),
-    enabled: Boolean(user?.id) && eventIds.length > 0,
-  });
+  const { data: radarMembershipMap = {} } = useRadarMembershipMap(eventIds);
   const joinedRadarSet = useMemo(
     () =>
       new Set(
@@ -3766,6 +759,15 @@ export default function RadarPage() {
       ),
     [radarMembershipMap]
   );
+  const waitlistedRadarSet = useMemo(
+    () =>
+      new Set(
+        Object.entries(radarMembershipMap)
+          .filter(([, status]) => status === 'WAITLISTED')
+          .map(([id]) => id)
+      ),
+    [radarMembershipMap]
+  );
 
   const upcomingEvents = useMemo(
     () =>
@@ -3804,7 +806,7 @@ export default function RadarPage() {
         setCheckInChurchId((current) => current || fallbackChurchId);
       }
       if (fallbackChurchId && (!profile?.country_id || !profile?.diocese_id)) {
-        const hierarchy = await getChurchHierarchyIds(fallbackChurchId);
+        const hierarchy = await RadarService.getChurchHierarchyIds(fallbackChurchId);
         if (!isMounted) return;
         if (!profile?.country_id && hierarchy.countryId) {
           setCheckInCountryId((current) => current || hierarchy.countryId);
@@ -4167,28 +1169,28 @@ export default function RadarPage() {
 
   const { data: inviteTargets = [], isLoading: isLoadingInviteTargets } = useQuery({
     queryKey: ['radar-invite-targets', user?.id, inviteKeyword],
-    queryFn: () => searchInviteTargets(inviteKeyword, user?.id),
+    queryFn: () => RadarInviteService.searchTargets(inviteKeyword, user?.id),
     enabled: Boolean(user?.id) && inviteKeyword.trim().length >= 2,
     staleTime: 30_000,
   });
 
   const { data: targetFromProfile, isLoading: isLoadingTargetFromProfile } = useQuery({
     queryKey: ['radar-target-from-profile', targetIdFromQuery],
-    queryFn: () => getInviteTargetById(targetIdFromQuery),
+    queryFn: () => RadarInviteService.getTargetById(targetIdFromQuery),
     enabled: targetIdFromQuery.length > 0,
     staleTime: 60_000,
   });
 
   const { data: incomingInvites = [], isLoading: isLoadingIncomingInvites } = useQuery({
     queryKey: ['radar-incoming-invites', user?.id],
-    queryFn: () => getIncomingRadarInvites(user?.id),
+    queryFn: () => RadarInviteService.getIncomingInvites(user?.id),
     enabled: Boolean(user?.id),
     refetchInterval: 60_000,
   });
 
   const { data: outgoingInvites = [], isLoading: isLoadingOutgoingInvites } = useQuery({
     queryKey: ['radar-outgoing-invites', user?.id],
-    queryFn: () => getOutgoingRadarInvites(user?.id),
+    queryFn: () => RadarInviteService.getOutgoingInvites(user?.id),
     enabled: Boolean(user?.id),
     refetchInterval: 60_000,
   });
@@ -4196,7 +1198,7 @@ export default function RadarPage() {
   const { data: checkInPresence = [], isLoading: isLoadingCheckInPresence } = useQuery({
     queryKey: ['checkin-presence', activePresenceChurchId, user?.id],
     queryFn: () =>
-      getCheckInPresence({
+      RadarCheckInService.getPresence({
         churchId: activePresenceChurchId,
         currentUserId: user?.id,
         limit: 8,
@@ -4359,6 +1361,7 @@ export default function RadarPage() {
   const focusedRadarMembership = focusedRadar?.id ? radarMembershipMap[focusedRadar.id] : undefined;
   const isFocusedRadarJoined = focusedRadarMembership === 'JOINED';
   const isFocusedRadarPending = focusedRadarMembership === 'PENDING';
+  const isFocusedRadarWaitlisted = focusedRadarMembership === 'WAITLISTED';
   const isFocusedRadarPrivate = normalizeRadarVisibility(focusedRadar?.visibility) === 'PRIVATE';
   const focusedRadarLocationLabel = focusedRadar ? formatRadarLocationLabel(focusedRadar) : '';
   const focusedPendingPersonalInvite =
@@ -4409,7 +1412,7 @@ export default function RadarPage() {
   }, [focusedRadar, focusedRadarMembership, user?.id]);
 
   const inviteCandidateTargets = useMemo(() => {
-    const list: InviteTarget[] = [];
+    const list: RadarInviteTarget[] = [];
     const used = new Set<string>();
 
     if (targetFromProfile?.id && targetFromProfile.id !== user?.id) {
@@ -4473,30 +1476,54 @@ export default function RadarPage() {
       return;
     }
 
+    const repeatSchedule = createRepeat ? selectedCreateSchedule : null;
+    if (repeatSchedule && createRepeatEnd === 'date' && (!createRepeatUntil || createRepeatUntil < createDate)) {
+      toast.error('Tanggal akhir pengulangan tidak valid');
+      return;
+    }
+
     setIsSubmittingCreate(true);
     try {
       const selectedChurch = churches.find((church) => church.id === createChurchId);
-
-      await createRadarEvent({
+      const input = {
         userId: user.id,
         churchId: createChurchId,
         churchName: selectedChurch?.name || createChurchName || undefined,
         title,
         description: createDescription.trim(),
-        startsAtIso: startsAt.toISOString(),
         maxParticipants: createMaxParticipants,
         allowMemberInvite: createAllowMemberInvite,
         requireHostApproval: createRequireHostApproval,
-        massScheduleId: selectedCreateSchedule?.id,
-      });
+      };
+
+      if (repeatSchedule && createRepeat) {
+        await RadarSeriesService.createSeries({
+          ...input,
+          massScheduleId: repeatSchedule.id,
+          frequency: createRepeat,
+          startsOn: createDate,
+          endsOn: createRepeatEnd === 'date' ? createRepeatUntil : undefined,
+          occurrenceCount: createRepeatEnd === 'count' ? createRepeatCount : undefined,
+        });
+      } else {
+        await RadarService.createEvent({
+          ...input,
+          startsAtIso: startsAt.toISOString(),
+          massScheduleId: selectedCreateSchedule?.id,
+        });
+      }
 
-      toast.success('Radar berhasil dibuat');
+      toast.success(repeatSchedule ? 'Radar berulang berhasil dibuat' : 'Radar berhasil dibuat');
       setIsCreateDialogOpen(false);
       setCreateTitle('');
       setCreateDescription('');
       setCreateDate(toLocalDateValue(new Date(Date.now() + 24 * 60 * 60 * 1000)));
       setCreateScheduleId('');
       setCreateManualTime('');
+      setCreateRepeat('');
+      setCreateRepeatEnd('count');
+      setCreateRepeatCount(4);
+      setCreateRepeatUntil('');
       setCreateMaxParticipants(50);
       setCreateAllowMemberInvite(true);
       setCreateRequireHostApproval(false);
@@ -4530,7 +1557,7 @@ export default function RadarPage() {
       setCheckInChurchId(fallbackChurchId);
     }
     if (fallbackChurchId && (!checkInCountryId || !checkInDioceseId)) {
-      const hierarchy = await getChurchHierarchyIds(fallbackChurchId);
+      const hierarchy = await RadarService.getChurchHierarchyIds(fallbackChurchId);
       if (!checkInCountryId && hierarchy.countryId) {
         setCheckInCountryId(hierarchy.countryId);
       }
@@ -4577,10 +1604,10 @@ export default function RadarPage() {
 
     setIsCheckingIn(true);
     try {
-      const hierarchy = await getChurchHierarchyIds(checkInChurchId);
+      const hierarchy = await RadarService.getChurchHierarchyIds(checkInChurchId);
       const resolvedCountryId = checkInCountryId || profile?.country_id || hierarchy.countryId;
       const resolvedDioceseId = checkInDioceseId || profile?.diocese_id || hierarchy.dioceseId;
-      await setCheckInNow({
+      await RadarCheckInService.checkIn({
         userId: user.id,
         churchId: checkInChurchId,
         countryId: resolvedCountryId,
@@ -4620,7 +1647,7 @@ export default function RadarPage() {
 
     setIsCheckingIn(true);
     try {
-      await setCheckOutNow({ userId: user.id, active: activeCheckIn });
+      await RadarCheckInService.checkOut({ userId: user.id, active: activeCheckIn });
       toast.success('Check-out berhasil');
       setIsPresenceExpanded(false);
       await Promise.all([
@@ -4648,14 +1675,14 @@ export default function RadarPage() {
         let actionableInvite = actionablePersonalInviteByRadarId.get(radar.id);
         if (!actionableInvite) {
           actionableInvite =
-            (await getLatestPersonalInviteForRadar({
+            (await RadarInviteService.getLatestPersonalInvite({
               radarId: radar.id,
               userId: user.id,
               radarSource: radar.source,
             })) || undefined;
         }
         if (!actionableInvite) {
-          const freshIncomingInvites = await getIncomingRadarInvites(user.id);
+          const freshIncomingInvites = await RadarInviteService.getIncomingInvites(user.id);
           actionableInvite =
             freshIncomingInvites.find(
               (invite) =>
@@ -4672,7 +1699,7 @@ export default function RadarPage() {
         }
 
         if (isPendingInvite(actionableInvite.status)) {
-          const response = await respondToRadarInvite({
+          const response = await RadarInviteService.respondToInvite({
             userId: user.id,
             userName: profile?.full_name || user.email || 'User',
             invite: actionableInvite,
@@ -4682,6 +1709,8 @@ export default function RadarPage() {
             toast.warning(`Undangan diterima, tetapi join radar belum berhasil: ${response.joinWarning}`);
           } else if (response.joinStatus === 'PENDING') {
             toast.success('Undangan diterima. Menunggu persetujuan host radar.');
+          } else if (response.joinStatus === 'WAITLISTED') {
+            toast.success('Undangan diterima. Radar sudah penuh, Anda masuk daftar tunggu.');
           } else {
             toast.success('Undangan berhasil diterima.');
           }
@@ -4693,8 +1722,8 @@ export default function RadarPage() {
             queryClient.invalidateQueries({ queryKey: ['radar-events', user.id] }),
           ]);
 
-          if (!response.joinWarning && response.joinStatus !== 'PENDING') {
-            const chatId = await resolveInviteChatId({
+          if (!response.joinWarning && response.joinStatus !== 'PENDING' && response.joinStatus !== 'WAITLISTED') {
+            const chatId = await RadarInviteService.resolveChatId({
               invite: actionableInvite,
               userId: user.id,
             });
@@ -4707,9 +1736,9 @@ export default function RadarPage() {
           return;
         }
 
-        let joinStatus: RadarMembershipStatus = 'JOINED';
+        let joinStatus: Exclude<RadarMembershipState, 'NONE'> = 'JOINED';
         try {
-          joinStatus = await joinRadarEvent({
+          joinStatus = await RadarService.joinEvent({
             radarId: radar.id,
             userId: user.id,
             source: radar.source,
@@ -4723,19 +1752,21 @@ export default function RadarPage() {
         toast.success(
           joinStatus === 'PENDING'
             ? 'Permintaan bergabung dikirim. Menunggu persetujuan host.'
-            : 'Berhasil bergabung ke radar private.'
+            : joinStatus === 'WAITLISTED'
+              ? 'Radar sudah penuh. Anda masuk daftar tunggu.'
+              : 'Berhasil bergabung ke radar private.'
         );
         await Promise.all([
           queryClient.invalidateQueries({ queryKey: ['radar-membership-map', user.id] }),
           queryClient.invalidateQueries({ queryKey: ['radar-events', user.id] }),
         ]);
 
-        if (joinStatus === 'PENDING') {
+        if (joinStatus !== 'JOINED') {
           router.push(`/radar/${encodeURIComponent(radar.id)}`);
           return;
         }
 
-        const chatId = await resolveInviteChatId({
+        const chatId = await RadarInviteService.resolveChatId({
           invite: actionableInvite,
           userId: user.id,
         });
@@ -4747,7 +1778,7 @@ export default function RadarPage() {
         return;
       }
 
-      const joinStatus = await joinRadarEvent({
+      const joinStatus = await RadarService.joinEvent({
         radarId: radar.id,
         userId: user.id,
         source: radar.source,
@@ -4756,7 +1787,9 @@ export default function RadarPage() {
       toast.success(
         joinStatus === 'PENDING'
           ? 'Permintaan bergabung dikirim. Menunggu persetujuan host.'
-          : 'Berhasil bergabung ke radar'
+          : joinStatus === 'WAITLISTED'
+            ? 'Radar sudah penuh. Anda masuk daftar tunggu.'
+            : 'Berhasil bergabung ke radar'
       );
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['radar-membership-map', user.id] }),
@@ -4788,7 +1821,7 @@ export default function RadarPage() {
     router.push('/radar');
   };
 
-  const handleSendInvite = async (target: InviteTarget) => {
+  const handleSendInvite = async (target: RadarInviteTarget) => {
     if (!user?.id) {
       toast.error('Anda harus login untuk mengundang');
       return;
@@ -4814,7 +1847,7 @@ export default function RadarPage() {
 
     setInvitingTargetId(target.id);
     try {
-      await sendRadarInvite({
+      await RadarInviteService.sendGroupInvite({
         inviterId: user.id,
         inviterName: profile?.full_name || user.email || 'User',
         inviteeId: target.id,
@@ -4875,7 +1908,7 @@ export default function RadarPage() {
     setIsSubmittingPersonalInvite(true);
     try {
       const selectedChurch = churches.find((church) => church.id === personalChurchId);
-      await createPersonalRadarInvite({
+      await RadarInviteService.createPersonalInvite({
         creatorId: user.id,
         creatorName: profile?.full_name || user.email || 'User',
         targetId: targetFromProfile.id,
@@ -4913,7 +1946,7 @@ export default function RadarPage() {
 
     setRespondingInviteId(invite.id);
     try {
-      const response = await respondToRadarInvite({
+      const response = await RadarInviteService.respondToInvite({
         userId: user.id,
         userName: profile?.full_name || user.email || 'User',
         invite,
@@ -4923,6 +1956,8 @@ export default function RadarPage() {
         toast.warning(`Undangan diterima, tetapi join radar belum berhasil: ${response.joinWarning}`);
       } else if (accept && response.joinStatus === 'PENDING') {
         toast.success('Undangan diterima. Menunggu persetujuan host radar.');
+      } else if (accept && response.joinStatus === 'WAITLISTED') {
+        toast.success('Undangan diterima. Radar sudah penuh, Anda masuk daftar tunggu.');
       } else {
         toast.success(accept ? 'Undangan diterima' : 'Undangan ditolak');
       }
@@ -4933,9 +1968,9 @@ export default function RadarPage() {
         queryClient.invalidateQueries({ queryKey: ['radar-events', user.id] }),
       ]);
 
-      if (accept && !response.joinWarning && response.joinStatus !== 'PENDING') {
+      if (accept && !response.joinWarning && response.joinStatus !== 'PENDING' && response.joinStatus !== 'WAITLISTED') {
         try {
-          const chatId = await resolveInviteChatId({
+          const chatId = await RadarInviteService.resolveChatId({
             invite,
             userId: user.id,
           });
@@ -4966,7 +2001,7 @@ export default function RadarPage() {
 
     setOpeningInviteChatId(invite.id);
     try {
-      const chatId = await resolveInviteChatId({
+      const chatId = await RadarInviteService.resolveChatId({
         invite,
         userId: user.id,
       });
@@ -4993,15 +2028,30 @@ export default function RadarPage() {
               Cari misa, check-in kehadiran, dan kirim ajakan misa personal.
             </p>
           </div>
-          <Button
-            className="rounded-xl border border-white/35 bg-white/15 text-white shadow-sm backdrop-blur hover:bg-white/20"
-            onClick={() => setIsCreateDialogOpen(true)}
-            disabled={!canCreateRadar}
-            title={!canCreateRadar ? 'Fitur buat radar hanya untuk Umat & Katekumen.' : undefined}
-          >
-            <MapPinPlus className="mr-2 h-4 w-4" />
-            Buat Radar
-          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              className="rounded-xl border border-white/35 bg-white/15 text-white shadow-sm backdrop-blur hover:bg-white/20"
+              onClick={() => subscribePersonalCalendar()}
+              disabled={isSubscribingCalendar}
+              title="Langganan radar yang Anda ikuti dari aplikasi kalender"
+            >
+              {isSubscribingCalendar ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CalendarPlus className="mr-2 h-4 w-4" />
+              )}
+              Langganan Kalender
+            </Button>
+            <Button
+              className="rounded-xl border border-white/35 bg-white/15 text-white shadow-sm backdrop-blur hover:bg-white/20"
+              onClick={() => setIsCreateDialogOpen(true)}
+              disabled={!canCreateRadar}
+              title={!canCreateRadar ? 'Fitur buat radar hanya untuk Umat & Katekumen.' : undefined}
+            >
+              <MapPinPlus className="mr-2 h-4 w-4" />
+              Buat Radar
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -5032,8 +2082,8 @@ export default function RadarPage() {
                 </p>
                 <p className={cn('text-xs', activeCheckIn ? 'text-white/85' : 'text-muted-foreground')}>
                   {activeCheckIn
-                    ? `Check-in aktif sejak ${formatDateTimeLabel(activeCheckIn.checkAt)}`
-                    : `Terakhir check-in: ${lastCheckIn ? formatDateTimeLabel(lastCheckIn) : 'Belum pernah'}`}
+                    ? `Check-in aktif sejak ${formatRadarDateTimeLabel(activeCheckIn.checkAt)}`
+                    : `Terakhir check-in: ${lastCheckIn ? formatRadarDateTimeLabel(lastCheckIn) : 'Belum pernah'}`}
                 </p>
               </div>
             </div>
@@ -5133,7 +2183,7 @@ export default function RadarPage() {
                         </p>
                         {presence.checkAt && (
                           <p className="text-[10px] text-muted-foreground">
-                            {formatDateTimeLabel(presence.checkAt)}
+                            {formatRadarDateTimeLabel(presence.checkAt)}
                           </p>
                         )}
                       </div>
@@ -5213,6 +2263,7 @@ export default function RadarPage() {
                     disabled={
                       isFocusedRadarJoined ||
                       isFocusedRadarPending ||
+                      isFocusedRadarWaitlisted ||
                       joiningRadarId === focusedRadar.id ||
                       isCheckingFocusedPrivateInvite
                     }
@@ -5227,6 +2278,8 @@ export default function RadarPage() {
                       'Sudah Bergabung'
                     ) : isFocusedRadarPending ? (
                       'Menunggu Host'
+                    ) : isFocusedRadarWaitlisted ? (
+                      'Daftar Tunggu'
                     ) : isCheckingFocusedPrivateInvite ? (
                       'Memeriksa Undangan...'
                     ) : isFocusedRadarPrivate && !focusedPendingPersonalInvite ? (
@@ -5251,7 +2304,7 @@ export default function RadarPage() {
                 {focusedRadar.startsAt && (
                   <span className="flex items-center gap-1">
                     <Calendar className="h-4 w-4" />
-                    {formatDateTimeLabel(focusedRadar.startsAt)}
+                    {formatRadarDateTimeLabel(focusedRadar.startsAt)}
                   </span>
                 )}
                 <span className="flex items-center gap-1">
@@ -5409,6 +2462,7 @@ export default function RadarPage() {
               isLoading={isLoading}
               joinedRadarSet={joinedRadarSet}
               pendingRadarSet={pendingRadarSet}
+              waitlistedRadarSet={waitlistedRadarSet}
               pendingPrivateInviteSet={pendingPrivateInviteSet}
               isCheckingPrivateInvites={isLoadingIncomingInvites}
               joiningRadarId={joiningRadarId}
@@ -5423,6 +2477,7 @@ export default function RadarPage() {
             isLoading={isLoadingOwnerHistory}
             joinedRadarSet={joinedRadarSet}
             pendingRadarSet={pendingRadarSet}
+            waitlistedRadarSet={waitlistedRadarSet}
             pendingPrivateInviteSet={pendingPrivateInviteSet}
             isCheckingPrivateInvites={isLoadingIncomingInvites}
             joiningRadarId={joiningRadarId}
@@ -5922,7 +2977,7 @@ export default function RadarPage() {
                                   {invite.radarStartsAt && (
                                     <span className="inline-flex items-center gap-1">
                                       <Calendar className="h-3.5 w-3.5" />
-                                      {formatDateTimeLabel(invite.radarStartsAt)}
+                                      {formatRadarDateTimeLabel(invite.radarStartsAt)}
                                     </span>
                                   )}
                                 </div>
@@ -6044,7 +3099,7 @@ export default function RadarPage() {
                                   {inviteDate && (
                                     <span className="inline-flex items-center gap-1">
                                       <Calendar className="h-3.5 w-3.5" />
-                                      {formatDateTimeLabel(inviteDate)}
+                                      {formatRadarDateTimeLabel(inviteDate)}
                                     </span>
                                   )}
                                 </div>
@@ -6748,6 +3803,72 @@ export default function RadarPage() {
                   Waktu terpilih: {createDateLabel} • {selectedCreateTime}
                 </p>
               )}
+
+              {selectedCreateSchedule && (
+                <div className="space-y-2 rounded-lg border border-border/70 bg-background/80 p-2.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-xs font-semibold text-muted-foreground" htmlFor="create-radar-repeat">
+                      Ulangi
+                    </label>
+                    <select
+                      id="create-radar-repeat"
+                      value={createRepeat}
+                      onChange={(event) => setCreateRepeat(event.target.value as RadarSeriesFrequency | '')}
+                      disabled={isSubmittingCreate}
+                      className="h-9 rounded-md border border-input bg-background px-2.5 text-sm outline-none focus-visible:ring-2 focus-visible:ring-primary/30"
+                    >
+                      <option value="">Tidak diulang</option>
+                      <option value="WEEKLY">Mingguan</option>
+                      <option value="BIWEEKLY">Dua mingguan</option>
+                      <option value="MONTHLY">Bulanan</option>
+                    </select>
+                  </div>
+
+                  {createRepeat && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <select
+                        value={createRepeatEnd}
+                        onChange={(event) => setCreateRepeatEnd(event.target.value as 'count' | 'date')}
+                        disabled={isSubmittingCreate}
+                        className="h-9 rounded-md border border-input bg-background px-2.5 text-sm outline-none focus-visible:ring-2 focus-visible:ring-primary/30"
+                      >
+                        <option value="count">Sebanyak</option>
+                        <option value="date">Sampai tanggal</option>
+                      </select>
+                      {createRepeatEnd === 'count' ? (
+                        <>
+                          <Input
+                            type="number"
+                            min={2}
+                            max={RADAR_SETTINGS.SERIES_MAX_OCCURRENCES}
+                            value={createRepeatCount}
+                            onChange={(event) =>
+                              setCreateRepeatCount(
+                                Math.min(
+                                  Math.max(Number(event.target.value) || 2, 2),
+                                  RADAR_SETTINGS.SERIES_MAX_OCCURRENCES
+                                )
+                              )
+                            }
+                            disabled={isSubmittingCreate}
+                            className="h-9 w-20"
+                          />
+                          <span className="text-muted-foreground">kali</span>
+                        </>
+                      ) : (
+                        <Input
+                          type="date"
+                          min={createDate}
+                          value={createRepeatUntil}
+                          onChange={(event) => setCreateRepeatUntil(event.target.value)}
+                          disabled={isSubmittingCreate}
+                          className="h-9 w-auto"
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="space-y-3 rounded-xl border border-border/70 bg-muted/10 p-3">
@@ -6882,6 +4003,7 @@ function RadarList({
   isLoading,
   joinedRadarSet,
   pendingRadarSet,
+  waitlistedRadarSet,
   pendingPrivateInviteSet,
   isCheckingPrivateInvites = false,
   joiningRadarId,
@@ -6893,6 +4015,7 @@ function RadarList({
   isLoading: boolean;
   joinedRadarSet: Set<string>;
   pendingRadarSet?: Set<string>;
+  waitlistedRadarSet?: Set<string>;
   pendingPrivateInviteSet?: Set<string>;
   isCheckingPrivateInvites?: boolean;
   joiningRadarId: string | null;
@@ -6930,6 +4053,7 @@ function RadarList({
       {radars.map((radar) => {
         const isJoined = joinedRadarSet.has(radar.id);
         const isPending = pendingRadarSet?.has(radar.id) ?? false;
+        const isWaitlisted = waitlistedRadarSet?.has(radar.id) ?? false;
         const isJoining = joiningRadarId === radar.id;
         const isPrivateRadar = normalizeRadarVisibility(radar.visibility) === 'PRIVATE';
         const radarLocationLabel = formatRadarLocationLabel(radar);
@@ -6943,6 +4067,7 @@ function RadarList({
         const disableJoin =
           isJoined ||
           isPending ||
+          isWaitlisted ||
           isJoining ||
           isCheckingPrivateInvite;
 
@@ -6971,7 +4096,7 @@ function RadarList({
                   )}
                   {showJoinAction && (
                     <Button
-                      variant={isJoined ? 'secondary' : isPending ? 'outline' : 'default'}
+                      variant={isJoined ? 'secondary' : isPending || isWaitlisted ? 'outline' : 'default'}
                       disabled={disableJoin}
                       onClick={() => onJoin(radar)}
                     >
@@ -6984,6 +4109,8 @@ function RadarList({
                         'Sudah Bergabung'
                       ) : isPending ? (
                         'Menunggu Host'
+                      ) : isWaitlisted ? (
+                        'Daftar Tunggu'
                       ) : isCheckingPrivateInvite ? (
                         'Memeriksa Undangan...'
                       ) : isPrivateRadar && !hasPrivateInvite ? (
@@ -7000,7 +4127,7 @@ function RadarList({
                 {radar.startsAt && (
                   <span className="flex items-center gap-1">
                     <Calendar className="h-4 w-4" />
-                    {formatDateTimeLabel(radar.startsAt)}
+                    {formatRadarDateTimeLabel(radar.startsAt)}
                   </span>
                 )}
                 <span className="flex items-center gap-1">
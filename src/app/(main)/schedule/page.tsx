@@ -4,33 +4,52 @@
 
 import { useMemo, useState } from 'react';
 import Link from 'next/link';
-import { Calendar, Clock, Loader2, MapPin } from 'lucide-react';
+import { useSearchParams } from 'next/navigation';
+import { Calendar, CalendarPlus, Clock, Loader2, MapPin } from 'lucide-react';
 import { useAuth } from '@/lib/features/auth/use-auth';
-import { useChurches, useMassSchedules } from '@/lib/features/schedule/use-schedule';
+import { CalendarService } from '@/lib/features/calendar/calendar-service';
+import { getZonedDateParts, resolveTimeZone } from '@/lib/features/schedule/mass-occurrence';
+import { useChurch, useChurches, useMassSchedules } from '@/lib/features/schedule/use-schedule';
 import type { MassSchedule } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { DailyReadingsCard } from '@/components/liturgy/daily-readings-card';
+import { NearbyChurchesPanel } from '@/components/schedule/nearby-churches-panel';
+import { UpcomingMassesPanel } from '@/components/schedule/upcoming-masses-panel';
 
 const DAY_LABELS = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
 
+type ScheduleMode = 'church' | 'upcoming' | 'nearby';
+
+const SCHEDULE_MODES: Array<{ key: ScheduleMode; label: string }> = [
+  { key: 'church', label: 'Pilih Gereja' },
+  { key: 'upcoming', label: 'Misa Berikutnya' },
+  { key: 'nearby', label: 'Gereja Terdekat' },
+];
+
 function normalizeDay(value: number) {
   if (value === 7) return 0;
   if (value < 0 || value > 6) return 0;
   return value;
 }
 
-function getOrderedDays() {
-  const today = new Date().getDay();
+// "Today" is the church's day, not the browser's, so a traveller in another
+// timezone still sees the parish's upcoming days first.
+function getOrderedDays(timeZone: string) {
+  const today = getZonedDateParts(new Date(), timeZone).weekday;
   return Array.from({ length: 7 }, (_, offset) => (today + offset) % 7);
 }
 
 export default function SchedulePage() {
   const { profile } = useAuth();
   const { data: churches = [], isLoading: isChurchesLoading } = useChurches();
-  const [manualChurchId, setManualChurchId] = useState('');
+  const searchParams = useSearchParams();
+  const [manualChurchId, setManualChurchId] = useState(() => searchParams.get('church')?.trim() ?? '');
+  const [mode, setMode] = useState<ScheduleMode>('church');
 
   const selectedChurchId = useMemo(() => {
-    if (manualChurchId && churches.some((church) => church.id === manualChurchId)) {
+    // Nearby results can point at churches outside the name-ordered list.
+    if (manualChurchId) {
       return manualChurchId;
     }
 
@@ -42,10 +61,12 @@ export default function SchedulePage() {
     return churches[0]?.id ?? '';
   }, [churches, manualChurchId, profile?.church_id]);
 
-  const selectedChurch = useMemo(
+  const listedChurch = useMemo(
     () => churches.find((church) => church.id === selectedChurchId),
     [churches, selectedChurchId]
   );
+  const { data: fetchedChurch } = useChurch(listedChurch ? undefined : selectedChurchId);
+  const selectedChurch = listedChurch ?? fetchedChurch ?? undefined;
 
   const {
     data: schedules = [],
@@ -53,7 +74,7 @@ export default function SchedulePage() {
   } = useMassSchedules({ churchId: selectedChurchId || undefined });
 
   const groupedSchedules = useMemo(() => {
-    const order = getOrderedDays();
+    const order = getOrderedDays(resolveTimeZone(selectedChurch?.timezone));
     const groupMap = new Map<number, MassSchedule[]>();
 
     for (const schedule of schedules) {
@@ -69,7 +90,7 @@ export default function SchedulePage() {
       label: DAY_LABELS[day],
       schedules: (groupMap.get(day) ?? []).sort((a, b) => a.mass_time.localeCompare(b.mass_time)),
     }));
-  }, [schedules]);
+  }, [schedules, selectedChurch?.timezone]);
 
   return (
     <div className="space-y-6">
@@ -89,58 +110,112 @@ export default function SchedulePage() {
             {churches.length === 0 ? (
               <option value="">Belum ada data gereja</option>
             ) : (
-              churches.map((church) => (
-                <option key={church.id} value={church.id}>
-                  {church.name}
-                </option>
-              ))
+              <>
+                {selectedChurch && !listedChurch && (
+                  <option value={selectedChurch.id}>{selectedChurch.name}</option>
+                )}
+                {churches.map((church) => (
+                  <option key={church.id} value={church.id}>
+                    {church.name}
+                  </option>
+                ))}
+              </>
             )}
           </select>
         </div>
       </div>
 
-      <Card className="border-primary/40">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <MapPin className="h-5 w-5 text-primary" />
-            {selectedChurch?.name || 'Pilih gereja'}
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-sm text-muted-foreground">
-            {selectedChurch?.address || 'Pilih gereja untuk melihat jadwal misa resmi yang tersinkron dari database.'}
-          </p>
-        </CardContent>
-      </Card>
+      <DailyReadingsCard />
 
-      {isSchedulesLoading ? (
-        <Card className="flex items-center justify-center gap-2 p-10 text-sm text-muted-foreground">
-          <Loader2 className="h-4 w-4 animate-spin" />
-          Memuat jadwal misa...
-        </Card>
-      ) : groupedSchedules.every((group) => group.schedules.length === 0) ? (
-        <Card className="p-10 text-center">
-          <Calendar className="mx-auto mb-3 h-10 w-10 text-muted-foreground" />
-          <h2 className="text-base font-semibold">Belum ada jadwal tersedia</h2>
-          <p className="mt-1 text-sm text-muted-foreground">
-            Data jadwal akan muncul saat `mass_schedules` untuk gereja ini sudah terisi.
-          </p>
-        </Card>
+      <div className="flex gap-2">
+        {SCHEDULE_MODES.map((item) => (
+          <Button
+            key={item.key}
+            variant={mode === item.key ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setMode(item.key)}
+          >
+            {item.label}
+          </Button>
+        ))}
+      </div>
+
+      {mode === 'nearby' ? (
+        <NearbyChurchesPanel
+          onSelectChurch={(churchId) => {
+            setManualChurchId(churchId);
+            setMode('church');
+          }}
+        />
+      ) : mode === 'upcoming' ? (
+        <UpcomingMassesPanel
+          church={selectedChurch}
+          dioceseId={selectedChurch?.diocese_id || profile?.diocese_id}
+          onSelectChurch={(churchId) => {
+            setManualChurchId(churchId);
+            setMode('church');
+          }}
+        />
       ) : (
-        <div className="space-y-6">
-          {groupedSchedules.map((group) =>
-            group.schedules.length === 0 ? null : (
-              <div key={group.day} className="space-y-3">
-                <h2 className="text-lg font-semibold">{group.label}</h2>
-                <div className="space-y-3">
-                  {group.schedules.map((schedule) => (
-                    <MassScheduleCard key={schedule.id} schedule={schedule} />
-                  ))}
-                </div>
-              </div>
-            )
+        <>
+          <Card className="border-primary/40">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5 text-primary" />
+                {selectedChurch?.name || 'Pilih gereja'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {selectedChurch?.address || 'Pilih gereja untuk melihat jadwal misa resmi yang tersinkron dari database.'}
+              </p>
+              {selectedChurch && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    window.location.href = CalendarService.toWebcalUrl(
+                      CalendarService.getChurchFeedUrl(selectedChurch.id)
+                    );
+                  }}
+                >
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Langganan Jadwal di Kalender
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {isSchedulesLoading ? (
+            <Card className="flex items-center justify-center gap-2 p-10 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Memuat jadwal misa...
+            </Card>
+          ) : groupedSchedules.every((group) => group.schedules.length === 0) ? (
+            <Card className="p-10 text-center">
+              <Calendar className="mx-auto mb-3 h-10 w-10 text-muted-foreground" />
+              <h2 className="text-base font-semibold">Belum ada jadwal tersedia</h2>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Data jadwal akan muncul saat `mass_schedules` untuk gereja ini sudah terisi.
+              </p>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              {groupedSchedules.map((group) =>
+                group.schedules.length === 0 ? null : (
+                  <div key={group.day} className="space-y-3">
+                    <h2 className="text-lg font-semibold">{group.label}</h2>
+                    <div className="space-y-3">
+                      {group.schedules.map((schedule) => (
+                        <MassScheduleCard key={schedule.id} schedule={schedule} />
+                      ))}
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
           )}
-        </div>
+        </>
       )}
 
       <Card className="transition-shadow hover:shadow-md">
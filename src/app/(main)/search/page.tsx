@@ -0,0 +1,122 @@
+// Search Results Page
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Loader2, Search } from 'lucide-react';
+import { SEARCH_SETTINGS } from '@/lib/constants';
+import { SEARCH_SECTION_LABELS } from '@/lib/features/search/search-ranking';
+import {
+  useDebouncedSearchQuery,
+  useRecentSearches,
+  useUnifiedSearch,
+} from '@/lib/features/search/use-search';
+import { SearchResultRow } from '@/components/search/search-result-row';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import type { SearchSection } from '@/lib/types';
+
+export default function SearchPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const initialQuery = searchParams.get('q') ?? '';
+  const [keyword, setKeyword] = useState(initialQuery);
+  const [activeSection, setActiveSection] = useState<SearchSection | 'all'>('all');
+  const debouncedKeyword = useDebouncedSearchQuery(keyword);
+  const { add: addRecent } = useRecentSearches();
+  const { data: results, sections, isLoading, isFetching } = useUnifiedSearch(debouncedKeyword, {
+    limit: SEARCH_SETTINGS.PAGE_SECTION_LIMIT,
+  });
+
+  useEffect(() => {
+    if (debouncedKeyword === (searchParams.get('q') ?? '')) return;
+    router.replace(debouncedKeyword ? `/search?q=${encodeURIComponent(debouncedKeyword)}` : '/search');
+  }, [debouncedKeyword, router, searchParams]);
+
+  const hasQuery = debouncedKeyword.length >= SEARCH_SETTINGS.MIN_QUERY_LENGTH;
+  // A new query can drop the selected section; fall back to everything.
+  const currentSection = activeSection !== 'all' && sections.includes(activeSection) ? activeSection : 'all';
+  const visibleSections =
+    currentSection === 'all' ? sections : sections.filter((section) => section === currentSection);
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-4">
+      <div className="space-y-3 rounded-2xl border border-border/70 bg-card px-4 py-3 shadow-sm">
+        <h1 className="text-xl font-bold">Pencarian</h1>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            addRecent(keyword);
+          }}
+          className="relative"
+        >
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={keyword}
+            onChange={(event) => setKeyword(event.target.value)}
+            placeholder="Cari orang, postingan, gereja, radar, atau ayat..."
+            className="pl-9"
+            autoFocus
+          />
+          {isFetching && (
+            <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+          )}
+        </form>
+        {sections.length > 0 && (
+          <div className="flex gap-1 overflow-x-auto">
+            {(['all', ...sections] as const).map((section) => (
+              <Button
+                key={section}
+                type="button"
+                size="sm"
+                variant={currentSection === section ? 'default' : 'ghost'}
+                className="h-8 rounded-full px-3 text-xs"
+                onClick={() => setActiveSection(section)}
+              >
+                {section === 'all' ? 'Semua' : `${SEARCH_SECTION_LABELS[section]} (${results?.[section].length ?? 0})`}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!hasQuery ? (
+        <Card className="p-10 text-center text-sm text-muted-foreground">
+          Ketik minimal {SEARCH_SETTINGS.MIN_QUERY_LENGTH} karakter untuk mulai mencari.
+        </Card>
+      ) : isLoading ? (
+        <Card className="flex items-center justify-center gap-2 p-10 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Mencari...
+        </Card>
+      ) : visibleSections.length === 0 ? (
+        <Card className="p-10 text-center text-sm text-muted-foreground">
+          Tidak ada hasil untuk &quot;{debouncedKeyword}&quot;.
+        </Card>
+      ) : (
+        visibleSections.map((section) => (
+          <Card key={section} className="overflow-hidden border-border/70 bg-card shadow-sm">
+            <h2 className="border-b px-4 py-2 text-sm font-semibold text-muted-foreground">
+              {SEARCH_SECTION_LABELS[section]}
+            </h2>
+            <div>
+              {results?.[section].map((item) => (
+                <Link
+                  key={`${section}:${item.id}`}
+                  href={item.href}
+                  onClick={() => addRecent(debouncedKeyword)}
+                  className="flex border-b px-4 py-3 transition-colors last:border-b-0 hover:bg-muted/40"
+                >
+                  <SearchResultRow item={item} />
+                </Link>
+              ))}
+            </div>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
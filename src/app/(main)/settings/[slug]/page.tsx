@@ -19,7 +19,9 @@ import {
   Loader2,
   Lock,
   Moon,
+  Search,
   ShieldCheck,
+  Star,
   Sun,
   X,
   type LucideIcon,
@@ -27,7 +29,19 @@ import {
 import { toast } from 'sonner';
 import { AuthService } from '@/lib/features/auth/auth-service';
 import { useAuth } from '@/lib/features/auth/use-auth';
+import { usePresenceSettings, useSetShowLastSeen } from '@/lib/features/chat/use-presence';
 import { useBlockedUsers, useSavedPosts, useUnblockUser } from '@/lib/features/feed/use-posts';
+import {
+  NOTIFICATION_TYPE_LIST,
+  resolveNotificationPreferences,
+} from '@/lib/features/notifications/notification-preferences';
+import { PushService } from '@/lib/features/push/push-service';
+import { formatReminderLead } from '@/lib/features/radar/radar-reminders';
+import {
+  useCloseFriendCandidates,
+  useToggleCloseFriend,
+} from '@/lib/features/stories/use-stories';
+import { useDisablePush, useEnablePush, usePushSubscription } from '@/lib/features/push/use-push';
 import { PostCard } from '@/components/feed/post-card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -46,7 +60,8 @@ import {
   isProfileClergy,
   isProfileVerified,
 } from '@/lib/features/profile/profile-status';
-import type { Profile } from '@/lib/types';
+import { NOTIFICATION_TYPE_LABELS, RADAR_REMINDER_SETTINGS } from '@/lib/constants';
+import type { EmailDigestFrequency, NotificationType, Profile } from '@/lib/types';
 
 type SettingsSlug =
   | 'security'
@@ -56,15 +71,28 @@ type SettingsSlug =
   | 'language'
   | 'verification'
   | 'blocked-users'
+  | 'close-friends'
   | 'saved-posts';
 
 const LANGUAGE_STORAGE_KEY = 'mychatolic-language';
-const PUSH_NOTIFICATION_KEY = 'mychatolic-push-notification';
-const EMAIL_NOTIFICATION_KEY = 'mychatolic-email-notification';
 const VERIFICATION_FILE_MAX_SIZE = 10 * 1024 * 1024; // 10MB
 const VERIFICATION_ACCEPT = 'image/jpeg,image/png,image/webp,application/pdf';
 type DetailTone = 'primary' | 'emerald' | 'amber' | 'slate';
 
+const PUSH_TYPE_DESCRIPTIONS: Record<NotificationType, string> = {
+  follow: 'Saat seseorang mulai mengikuti Anda.',
+  like: 'Saat postingan Anda disukai.',
+  comment: 'Saat ada komentar di postingan Anda.',
+  mention: 'Saat Anda disebut di postingan atau komentar.',
+  radar_invite: 'Undangan bergabung ke radar misa.',
+  mass_invite: 'Ajakan misa bersama dari umat lain.',
+  chat_message: 'Pesan baru di chat pribadi atau grup.',
+  story_reaction: 'Reaksi dan balasan untuk story Anda.',
+  poll_closed: 'Hasil akhir polling yang Anda buat.',
+  radar_waitlist_promoted: 'Saat Anda naik dari daftar tunggu radar.',
+  radar_reminder: 'Pengingat sebelum radar yang Anda ikuti dimulai.',
+};
+
 const SETTINGS_DETAIL_META: Record<
   SettingsSlug,
   { title: string; description: string; tone: DetailTone; icon: LucideIcon }
@@ -117,6 +145,12 @@ const SETTINGS_DETAIL_META: Record<
     tone: 'slate',
     icon: ShieldCheck,
   },
+  'close-friends': {
+    title: 'Teman Dekat',
+    description: 'Pilih pengikut yang boleh melihat story khusus Teman Dekat.',
+    tone: 'emerald',
+    icon: Star,
+  },
 };
 
 function getDetailToneClasses(tone: DetailTone) {
@@ -293,6 +327,7 @@ export default function SettingsDetailPage() {
       {slug === 'verification' && <VerificationSettings />}
       {slug === 'saved-posts' && <SavedPostsSettings />}
       {slug === 'blocked-users' && <BlockedUsersSettings />}
+      {slug === 'close-friends' && <CloseFriendsSettings />}
 
       {!meta && (
         <Card className="rounded-2xl border-border/70 bg-card shadow-sm">
@@ -422,24 +457,67 @@ function ChangePasswordSettings() {
 
 function NotificationSettings() {
   const { profile, updateProfile } = useAuth();
-  const [pushNotification, setPushNotification] = useState(() => {
-    if (typeof window === 'undefined') return true;
-    return localStorage.getItem(PUSH_NOTIFICATION_KEY) !== 'false';
-  });
-  const [emailNotification, setEmailNotification] = useState(() => {
-    if (typeof window === 'undefined') return true;
-    return localStorage.getItem(EMAIL_NOTIFICATION_KEY) !== 'false';
-  });
+  const { data: pushEndpoint } = usePushSubscription();
+  const { mutate: enablePush, isPending: isEnablingPush } = useEnablePush();
+  const { mutate: disablePush, isPending: isDisablingPush } = useDisablePush();
+  const [pushTypesOverride, setPushTypesOverride] = useState<Record<NotificationType, boolean> | null>(null);
+  const [savingPushType, setSavingPushType] = useState<NotificationType | null>(null);
+  const [emailDigestOverride, setEmailDigestOverride] = useState<EmailDigestFrequency | null>(null);
+  const [isSavingEmailDigest, setIsSavingEmailDigest] = useState(false);
+  const [reminderOffsetsOverride, setReminderOffsetsOverride] = useState<number[] | null>(null);
+  const [isSavingReminderOffsets, setIsSavingReminderOffsets] = useState(false);
   const [allowMassInviteOverride, setAllowMassInviteOverride] = useState<boolean | null>(null);
   const [allowProfileChatOverride, setAllowProfileChatOverride] = useState<boolean | null>(null);
   const [isSavingMassInvite, setIsSavingMassInvite] = useState(false);
   const [isSavingProfileChat, setIsSavingProfileChat] = useState(false);
+  const [readReceiptsOverride, setReadReceiptsOverride] = useState<boolean | null>(null);
+  const [isSavingReadReceipts, setIsSavingReadReceipts] = useState(false);
+  const { data: presenceSettings } = usePresenceSettings();
+  const { mutate: setShowLastSeen, isPending: isSavingShowLastSeen, variables: pendingShowLastSeen } =
+    useSetShowLastSeen();
 
   const allowMassInvite = allowMassInviteOverride ?? Boolean(profile?.allow_mass_invite ?? true);
   const allowProfileChat = allowProfileChatOverride ?? Boolean(profile?.allow_profile_chat ?? true);
+  const readReceiptsEnabled = readReceiptsOverride ?? Boolean(profile?.read_receipts_enabled ?? true);
+  const notificationPreferences = resolveNotificationPreferences(profile?.notification_preferences);
+  const pushTypes = pushTypesOverride ?? notificationPreferences.push_types;
+  const isPushSupported = PushService.isSupported();
+  const emailDigest = emailDigestOverride ?? notificationPreferences.email_digest;
+  const reminderOffsets = reminderOffsetsOverride ?? notificationPreferences.radar_reminder_offsets;
+
+  const toggleReminderOffset = async (offset: number) => {
+    const previous = reminderOffsets;
+    const next = previous.includes(offset)
+      ? previous.filter((item) => item !== offset)
+      : [...previous, offset].sort((a, b) => b - a);
+    setReminderOffsetsOverride(next);
+    setIsSavingReminderOffsets(true);
+    try {
+      await updateProfile({
+        notification_preferences: { ...notificationPreferences, radar_reminder_offsets: next },
+      });
+    } catch (error) {
+      setReminderOffsetsOverride(previous);
+      toast.error(error instanceof Error ? error.message : 'Gagal memperbarui preferensi.');
+    } finally {
+      setIsSavingReminderOffsets(false);
+    }
+  };
 
-  const persistLocalSetting = (key: string, value: boolean) => {
-    localStorage.setItem(key, value ? 'true' : 'false');
+  const saveEmailDigest = async (next: EmailDigestFrequency) => {
+    const previous = emailDigest;
+    setEmailDigestOverride(next);
+    setIsSavingEmailDigest(true);
+    try {
+      await updateProfile({
+        notification_preferences: { ...notificationPreferences, email_digest: next },
+      });
+    } catch (error) {
+      setEmailDigestOverride(previous);
+      toast.error(error instanceof Error ? error.message : 'Gagal memperbarui preferensi.');
+    } finally {
+      setIsSavingEmailDigest(false);
+    }
   };
 
   return (
@@ -452,24 +530,109 @@ function NotificationSettings() {
     >
         <SettingToggle
           title="Push notification"
-          description="Notifikasi langsung di browser/perangkat."
-          checked={pushNotification}
+          description={
+            isPushSupported
+              ? 'Notifikasi langsung di browser/perangkat ini.'
+              : 'Browser ini tidak mendukung push notification.'
+          }
+          checked={Boolean(pushEndpoint)}
+          isSaving={isEnablingPush || isDisablingPush}
           onCheckedChange={(checked) => {
-            setPushNotification(checked);
-            persistLocalSetting(PUSH_NOTIFICATION_KEY, checked);
+            if (!isPushSupported) return;
+            if (checked) {
+              enablePush();
+            } else {
+              disablePush();
+            }
           }}
         />
 
+        {pushEndpoint && (
+          <div className="space-y-3 rounded-xl border border-border/70 p-3">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Jenis push notification
+            </p>
+            {NOTIFICATION_TYPE_LIST.map((type) => (
+              <SettingToggle
+                key={type}
+                title={NOTIFICATION_TYPE_LABELS[type] ?? type}
+                description={PUSH_TYPE_DESCRIPTIONS[type]}
+                checked={pushTypes[type]}
+                isSaving={savingPushType === type}
+                onCheckedChange={async (checked) => {
+                  const previous = pushTypes;
+                  const next = { ...pushTypes, [type]: checked };
+                  setPushTypesOverride(next);
+                  setSavingPushType(type);
+                  try {
+                    await updateProfile({
+                      notification_preferences: { ...notificationPreferences, push_types: next },
+                    });
+                  } catch (error) {
+                    setPushTypesOverride(previous);
+                    toast.error(error instanceof Error ? error.message : 'Gagal memperbarui preferensi.');
+                  } finally {
+                    setSavingPushType(null);
+                  }
+                }}
+              />
+            ))}
+          </div>
+        )}
+
         <SettingToggle
           title="Email notification"
           description="Ringkasan aktivitas via email."
-          checked={emailNotification}
-          onCheckedChange={(checked) => {
-            setEmailNotification(checked);
-            persistLocalSetting(EMAIL_NOTIFICATION_KEY, checked);
-          }}
+          checked={emailDigest !== 'off'}
+          isSaving={isSavingEmailDigest}
+          onCheckedChange={(checked) => saveEmailDigest(checked ? 'weekly' : 'off')}
         />
 
+        {emailDigest !== 'off' && (
+          <div className="flex flex-wrap items-center gap-2 rounded-xl border border-border/70 p-3">
+            <p className="mr-auto text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              Frekuensi ringkasan
+            </p>
+            {(['daily', 'weekly'] as const).map((frequency) => (
+              <Button
+                key={frequency}
+                type="button"
+                size="sm"
+                variant={emailDigest === frequency ? 'default' : 'outline'}
+                disabled={isSavingEmailDigest}
+                onClick={() => saveEmailDigest(frequency)}
+              >
+                {frequency === 'daily' ? 'Harian' : 'Mingguan'}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 rounded-xl border border-border/70 p-3">
+          <div>
+            <p className="text-sm font-semibold">Pengingat radar</p>
+            <p className="text-xs text-muted-foreground">
+              {reminderOffsets.length > 0
+                ? 'Dikirim sebelum radar yang Anda ikuti dimulai.'
+                : 'Pengingat radar nonaktif.'}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {RADAR_REMINDER_SETTINGS.OFFSET_OPTIONS_MINUTES.map((offset) => (
+              <Button
+                key={offset}
+                type="button"
+                size="sm"
+                variant={reminderOffsets.includes(offset) ? 'default' : 'outline'}
+                disabled={isSavingReminderOffsets}
+                onClick={() => toggleReminderOffset(offset)}
+              >
+                {formatReminderLead(offset)} sebelumnya
+              </Button>
+            ))}
+          </div>
+        </div>
+
         <SettingToggle
           title="Izinkan undangan misa"
           description="Orang lain dapat mengundang Anda ke radar misa."
@@ -509,6 +672,38 @@ function NotificationSettings() {
             }
           }}
         />
+
+        <SettingToggle
+          title="Kirim tanda dibaca"
+          description="Pengirim melihat saat Anda membaca pesannya. Jika dimatikan, Anda juga tidak melihat tanda dibaca orang lain."
+          checked={readReceiptsEnabled}
+          isSaving={isSavingReadReceipts}
+          onCheckedChange={async (checked) => {
+            const previous = readReceiptsEnabled;
+            setReadReceiptsOverride(checked);
+            setIsSavingReadReceipts(true);
+            try {
+              await updateProfile({ read_receipts_enabled: checked });
+            } catch (error) {
+              setReadReceiptsOverride(previous);
+              toast.error(error instanceof Error ? error.message : 'Gagal memperbarui preferensi.');
+            } finally {
+              setIsSavingReadReceipts(false);
+            }
+          }}
+        />
+
+        <SettingToggle
+          title="Tampilkan status online"
+          description="Pengguna lain dapat melihat saat Anda online dan kapan terakhir dilihat di chat."
+          checked={
+            isSavingShowLastSeen && pendingShowLastSeen !== undefined
+              ? pendingShowLastSeen
+              : presenceSettings?.show_last_seen ?? true
+          }
+          isSaving={isSavingShowLastSeen}
+          onCheckedChange={(checked) => setShowLastSeen(checked)}
+        />
     </SettingsDetailCard>
   );
 }
@@ -1110,6 +1305,112 @@ function BlockedUsersSettings() {
   );
 }
 
+function CloseFriendsSettings() {
+  const { data: candidates = [], isLoading } = useCloseFriendCandidates();
+  const { mutateAsync: toggleCloseFriend, isPending: isToggling } = useToggleCloseFriend();
+  const [activeUserId, setActiveUserId] = useState<string | null>(null);
+  const [keyword, setKeyword] = useState('');
+
+  const closeFriendCount = candidates.filter((candidate) => candidate.is_close_friend).length;
+  const visibleCandidates = useMemo(() => {
+    const normalized = keyword.trim().toLowerCase();
+    const filtered = normalized
+      ? candidates.filter((candidate) => (candidate.full_name ?? '').toLowerCase().includes(normalized))
+      : candidates;
+    // Keep current close friends on top so the list reads as "who is on it".
+    return [...filtered].sort((a, b) => Number(b.is_close_friend) - Number(a.is_close_friend));
+  }, [candidates, keyword]);
+
+  const handleToggle = async (friendId: string, isCloseFriend: boolean) => {
+    setActiveUserId(friendId);
+    try {
+      await toggleCloseFriend({ friendId, isCloseFriend });
+    } finally {
+      setActiveUserId(null);
+    }
+  };
+
+  return (
+    <SettingsDetailCard
+      icon={<Star className="h-5 w-5" />}
+      title="Teman Dekat"
+      description={`${closeFriendCount} orang dapat melihat story Teman Dekat Anda.`}
+      tone="emerald"
+      contentClassName="space-y-3 text-sm text-muted-foreground"
+    >
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={keyword}
+          onChange={(event) => setKeyword(event.target.value)}
+          placeholder="Cari pengikut..."
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 rounded-xl border border-border/70 bg-muted/30 p-4">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <p>Memuat pengikut...</p>
+        </div>
+      ) : visibleCandidates.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border/70 bg-muted/20 p-4 text-center">
+          <p className="text-sm font-medium text-foreground">
+            {candidates.length === 0 ? 'Belum ada pengikut' : 'Pengikut tidak ditemukan'}
+          </p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Hanya pengikut Anda yang bisa ditambahkan ke daftar Teman Dekat.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleCandidates.map((candidate) => {
+            const fullName = candidate.full_name?.trim() || 'Umat';
+            const initials = fullName
+              .split(' ')
+              .map((part) => part[0])
+              .join('')
+              .toUpperCase()
+              .slice(0, 2);
+            const isActive = activeUserId === candidate.id;
+
+            return (
+              <div
+                key={candidate.id}
+                className="flex items-center gap-3 rounded-xl border border-border/70 bg-background/70 p-3"
+              >
+                <div
+                  className={`rounded-full p-[2px] ${candidate.is_close_friend ? 'bg-emerald-500' : 'bg-transparent'}`}
+                >
+                  <Avatar className="h-10 w-10 border border-border/70">
+                    <AvatarImage src={candidate.avatar_url} alt={fullName} />
+                    <AvatarFallback>{initials || 'US'}</AvatarFallback>
+                  </Avatar>
+                </div>
+                <p className="min-w-0 flex-1 truncate text-sm font-semibold text-foreground">{fullName}</p>
+                <Button
+                  type="button"
+                  variant={candidate.is_close_friend ? 'outline' : 'default'}
+                  size="sm"
+                  disabled={isToggling}
+                  onClick={() => void handleToggle(candidate.id, candidate.is_close_friend)}
+                  className={`rounded-lg ${candidate.is_close_friend ? '' : 'bg-emerald-600 hover:bg-emerald-600/90'}`}
+                >
+                  {isActive && isToggling
+                    ? 'Menyimpan...'
+                    : candidate.is_close_friend
+                      ? 'Hapus'
+                      : 'Tambah'}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </SettingsDetailCard>
+  );
+}
+
 function SettingsDetailCard({
   icon,
   title,
@@ -21,6 +21,7 @@ import {
   ShieldCheck,
   ShieldX,
   SquareUser,
+  Star,
   UserRoundCog,
 } from 'lucide-react';
 import { toast } from 'sonner';
@@ -227,6 +228,12 @@ export default function SettingsPage() {
         items={[
           { icon: <Lock className="h-5 w-5" />, label: 'Ubah Password', href: '/settings/change-password' },
           { icon: <ShieldX className="h-5 w-5" />, label: 'Pengguna Diblokir', href: '/settings/blocked-users' },
+          {
+            icon: <Star className="h-5 w-5" />,
+            label: 'Teman Dekat',
+            description: 'Atur siapa yang melihat story Teman Dekat',
+            href: '/settings/close-friends',
+          },
           { icon: <Bell className="h-5 w-5" />, label: 'Notifikasi', href: '/settings/notifications' },
         ]}
       />
@@ -0,0 +1,59 @@
+// Hashtag Feed Page
+
+'use client';
+
+import { useMemo } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Hash, Loader2 } from 'lucide-react';
+import { usePosts } from '@/lib/features/feed/use-posts';
+import { normalizeHashtag } from '@/lib/features/feed/post-entities';
+import { PostCard } from '@/components/feed/post-card';
+import { InfiniteScroll } from '@/components/shared/infinite-scroll';
+import { Card } from '@/components/ui/card';
+
+export default function HashtagPage() {
+  const router = useRouter();
+  const params = useParams<{ tag: string }>();
+  const tag = normalizeHashtag(decodeURIComponent(params.tag));
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = usePosts({ hashtag: tag });
+  const posts = useMemo(() => data?.pages.flatMap((page) => page.posts) ?? [], [data]);
+
+  return (
+    <div className="mx-auto w-full max-w-2xl space-y-4">
+      <div className="flex items-center gap-3 rounded-2xl border border-border/70 bg-card px-4 py-3 shadow-sm">
+        <span className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10 text-primary">
+          <Hash className="h-5 w-5" />
+        </span>
+        <div>
+          <h1 className="text-xl font-bold">#{tag || params.tag}</h1>
+          <p className="text-xs text-muted-foreground">Postingan dengan tagar ini</p>
+        </div>
+      </div>
+
+      {!tag ? (
+        <Card className="p-10 text-center text-sm text-muted-foreground">Tagar tidak valid.</Card>
+      ) : isLoading ? (
+        <Card className="flex items-center justify-center gap-2 p-10 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Memuat postingan...
+        </Card>
+      ) : posts.length === 0 ? (
+        <Card className="p-10 text-center text-sm text-muted-foreground">
+          Belum ada postingan dengan #{tag}.
+        </Card>
+      ) : (
+        <InfiniteScroll
+          hasMore={hasNextPage || false}
+          loadMore={async () => {
+            await fetchNextPage();
+          }}
+          isLoading={isFetchingNextPage}
+        >
+          {posts.map((post) => (
+            <PostCard key={post.id} post={post} onClick={() => router.push(`/post/${post.id}`)} />
+          ))}
+        </InfiniteScroll>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { buildIcsCalendar, createIcsResponse, massScheduleToIcsEvent } from '@/lib/features/calendar/ics';
+import { resolveTimeZone } from '@/lib/features/schedule/mass-occurrence';
+import { ScheduleService } from '@/lib/features/schedule/schedule-service';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ churchId: string }> }
+) {
+  const { churchId } = await params;
+  const church = await ScheduleService.getChurchById(churchId);
+  if (!church) {
+    return NextResponse.json({ error: 'Gereja tidak ditemukan' }, { status: 404 });
+  }
+
+  const timeZone = resolveTimeZone(church.timezone);
+  const schedules = await ScheduleService.getMassSchedules({ churchId: church.id });
+  const now = new Date();
+
+  const body = buildIcsCalendar({
+    name: `Jadwal Misa ${church.name}`,
+    description: church.address,
+    timezone: timeZone,
+    now,
+    events: schedules
+      .filter((schedule) => schedule.is_active)
+      .map((schedule) => massScheduleToIcsEvent(schedule, church, timeZone, now)),
+  });
+
+  return createIcsResponse(body, { filename: `jadwal-misa-${church.id}.ics` });
+}
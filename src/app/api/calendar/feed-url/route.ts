@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { createCalendarFeedToken, isCalendarFeedConfigured } from '@/lib/features/calendar/feed-token';
+import { supabase } from '@/lib/supabase/client';
+
+export async function GET(request: Request) {
+  if (!isCalendarFeedConfigured()) {
+    return NextResponse.json({ error: 'Langganan kalender belum tersedia' }, { status: 503 });
+  }
+
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim();
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Anda harus login' }, { status: 401 });
+  }
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(accessToken);
+  if (error || !user) {
+    return NextResponse.json({ error: 'Sesi tidak valid' }, { status: 401 });
+  }
+
+  const origin = new URL(request.url).origin;
+  const token = createCalendarFeedToken(user.id);
+  return NextResponse.json({
+    url: `${origin}/api/calendar/users/${encodeURIComponent(user.id)}?token=${token}`,
+  });
+}
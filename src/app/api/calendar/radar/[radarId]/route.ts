@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { buildIcsCalendar, createIcsResponse, radarEventToIcsEvent } from '@/lib/features/calendar/ics';
+import { RadarService } from '@/lib/features/radar/radar-service';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ radarId: string }> }
+) {
+  const { radarId } = await params;
+  const event = await RadarService.getEventById(radarId);
+  if (!event || event.status === 'DRAFT' || Number.isNaN(new Date(event.event_starts_at_utc).getTime())) {
+    return NextResponse.json({ error: 'Radar tidak ditemukan' }, { status: 404 });
+  }
+
+  const origin = new URL(request.url).origin;
+  const body = buildIcsCalendar({
+    name: event.title || 'Radar Misa',
+    events: [radarEventToIcsEvent(event, `${origin}/radar/${encodeURIComponent(event.id)}`)],
+  });
+
+  return createIcsResponse(body, { filename: `radar-${event.id}.ics`, download: true });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { CALENDAR_SETTINGS } from '@/lib/constants';
+import { CalendarFeedService } from '@/lib/features/calendar/calendar-feed-service';
+import { verifyCalendarFeedToken } from '@/lib/features/calendar/feed-token';
+import { buildIcsCalendar, createIcsResponse, radarEventToIcsEvent } from '@/lib/features/calendar/ics';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+  const url = new URL(request.url);
+  if (!verifyCalendarFeedToken(userId, url.searchParams.get('token'))) {
+    return NextResponse.json({ error: 'Token kalender tidak valid' }, { status: 403 });
+  }
+
+  const client = getSupabaseAdmin();
+  if (!client) {
+    return NextResponse.json({ error: 'Kalender pribadi belum dikonfigurasi' }, { status: 503 });
+  }
+
+  const events = await CalendarFeedService.getJoinedRadarEvents(client, userId, CALENDAR_SETTINGS.JOINED_RADAR_LIMIT);
+  const body = buildIcsCalendar({
+    name: 'Radar Misa Saya',
+    description: 'Radar misa yang Anda ikuti di MyCatholic',
+    events: events
+      .filter((event) => !Number.isNaN(new Date(event.event_starts_at_utc).getTime()))
+      .map((event) => radarEventToIcsEvent(event, `${url.origin}/radar/${encodeURIComponent(event.id)}`)),
+  });
+
+  return createIcsResponse(body, { filename: 'radar-saya.ics' });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { DigestService } from '@/lib/features/digest/digest-service';
+import { getEmailFromAddress, getEmailTransport } from '@/lib/features/digest/email-transport';
+import { isUnsubscribeConfigured } from '@/lib/features/digest/unsubscribe-token';
+import { isCronAuthorized } from '@/lib/cron-auth';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+// Run by a scheduler once a day with `{ "frequency": "daily" }` and once a week
+// with `{ "frequency": "weekly" }`. Authenticated with DIGEST_CRON_SECRET.
+
+export async function POST(request: Request) {
+  if (!isCronAuthorized(request, process.env.DIGEST_CRON_SECRET)) {
+    return NextResponse.json({ error: 'Tidak diizinkan' }, { status: 401 });
+  }
+
+  const client = getSupabaseAdmin();
+  if (!client || !isUnsubscribeConfigured()) {
+    return NextResponse.json({ error: 'Ringkasan email belum dikonfigurasi' }, { status: 503 });
+  }
+
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const frequency = body?.frequency === 'daily' ? 'daily' : body?.frequency === 'weekly' ? 'weekly' : null;
+  if (!frequency) {
+    return NextResponse.json({ error: 'frequency harus daily atau weekly' }, { status: 400 });
+  }
+
+  try {
+    const summary = await DigestService.sendDigests(client, {
+      frequency,
+      appUrl: process.env.NEXT_PUBLIC_APP_URL?.trim() || new URL(request.url).origin,
+      transport: getEmailTransport(),
+      from: getEmailFromAddress(),
+      dryRun: body?.dry_run === true,
+    });
+    return NextResponse.json(summary);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Gagal mengirim ringkasan email' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { escapeHtml } from '@/lib/features/digest/email-digest';
+import { DigestService } from '@/lib/features/digest/digest-service';
+import { verifyUnsubscribeToken } from '@/lib/features/digest/unsubscribe-token';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+function htmlResponse(message: string, status = 200, confirmAction?: string) {
+  const confirm = confirmAction
+    ? `<form method="post" action="${escapeHtml(confirmAction)}"><button type="submit" style="padding:8px 16px;">Berhenti berlangganan</button></form>`
+    : '';
+  const body = `<!doctype html>
+<html lang="id">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Ringkasan Email</title></head>
+<body style="font-family:Arial,Helvetica,sans-serif;max-width:480px;margin:64px auto;padding:0 16px;color:#1c1917;">
+<h1 style="font-size:20px;">Ringkasan Email</h1>
+<p>${escapeHtml(message)}</p>
+${confirm}
+<p><a href="/settings/notifications">Buka pengaturan notifikasi</a></p>
+</body>
+</html>`;
+  return new NextResponse(body, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+async function unsubscribe(request: Request) {
+  const url = new URL(request.url);
+  const userId = url.searchParams.get('user')?.trim() || '';
+  if (!verifyUnsubscribeToken(userId, url.searchParams.get('token'))) {
+    return { status: 403, message: 'Tautan berhenti berlangganan tidak valid.' };
+  }
+
+  const client = getSupabaseAdmin();
+  if (!client) {
+    return { status: 503, message: 'Layanan belum dikonfigurasi. Coba lagi nanti.' };
+  }
+
+  try {
+    const updated = await DigestService.unsubscribe(client, userId);
+    return updated
+      ? { status: 200, message: 'Anda tidak akan menerima ringkasan aktivitas via email lagi.' }
+      : { status: 404, message: 'Akun tidak ditemukan.' };
+  } catch (error) {
+    console.error('Error unsubscribing email digest:', error);
+    return { status: 500, message: 'Gagal memperbarui preferensi. Coba lagi nanti.' };
+  }
+}
+
+// GET only asks for confirmation so link scanners in mail clients cannot
+// unsubscribe anyone; the form and one-click clients (RFC 8058) POST.
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const userId = url.searchParams.get('user')?.trim() || '';
+  if (!verifyUnsubscribeToken(userId, url.searchParams.get('token'))) {
+    return htmlResponse('Tautan berhenti berlangganan tidak valid.', 403);
+  }
+  return htmlResponse(
+    'Berhenti menerima ringkasan aktivitas via email?',
+    200,
+    `${url.pathname}${url.search}`
+  );
+}
+
+export async function POST(request: Request) {
+  const result = await unsubscribe(request);
+  return htmlResponse(result.message, result.status);
+}
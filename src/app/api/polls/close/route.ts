@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { PollCloseService } from '@/lib/features/polls/poll-close-service';
+import { isCronAuthorized } from '@/lib/cron-auth';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+// Run by a scheduler every few minutes, or locally with `npm run jobs:poll-close`.
+// Authenticated with POLL_CLOSE_CRON_SECRET. `{ "dry_run": true }` counts the
+// due polls without closing them.
+
+export async function POST(request: Request) {
+  if (!isCronAuthorized(request, process.env.POLL_CLOSE_CRON_SECRET)) {
+    return NextResponse.json({ error: 'Tidak diizinkan' }, { status: 401 });
+  }
+
+  const client = getSupabaseAdmin();
+  if (!client) {
+    return NextResponse.json({ error: 'Penutupan polling belum dikonfigurasi' }, { status: 503 });
+  }
+
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+
+  try {
+    const summary = await PollCloseService.closeDuePolls(client, { dryRun: body?.dry_run === true });
+    return NextResponse.json(summary);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Gagal menutup polling' },
+      { status: 500 }
+    );
+  }
+}
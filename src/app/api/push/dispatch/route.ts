@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { PushDispatchService } from '@/lib/features/push/push-dispatch-service';
+import { getVapidConfig } from '@/lib/features/push/web-push';
+import { isCronAuthorized } from '@/lib/cron-auth';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+// Called by a Supabase database webhook on `notifications` INSERT, or manually
+// with `{ notification_id }`. Authenticated with PUSH_WEBHOOK_SECRET.
+
+export async function POST(request: Request) {
+  if (!isCronAuthorized(request, process.env.PUSH_WEBHOOK_SECRET)) {
+    return NextResponse.json({ error: 'Tidak diizinkan' }, { status: 401 });
+  }
+
+  const vapid = getVapidConfig();
+  const client = getSupabaseAdmin();
+  if (!vapid || !client) {
+    return NextResponse.json({ error: 'Web Push belum dikonfigurasi' }, { status: 503 });
+  }
+
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  let row = body?.record as Record<string, unknown> | undefined;
+
+  if (body?.type && body.type !== 'INSERT') {
+    return NextResponse.json({ skipped: 'not_insert' });
+  }
+
+  const notificationId = body?.notification_id?.toString();
+  if (!row && notificationId) {
+    const { data, error } = await client
+      .from('notifications')
+      .select('*')
+      .eq('id', notificationId)
+      .maybeSingle();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    row = (data as Record<string, unknown> | null) ?? undefined;
+  }
+
+  if (!row) {
+    return NextResponse.json({ error: 'Notifikasi tidak ditemukan' }, { status: 404 });
+  }
+
+  try {
+    const summary = await PushDispatchService.dispatchNotification(client, row, vapid);
+    return NextResponse.json(summary);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Gagal mengirim notifikasi push' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { RADAR_SETTINGS } from '@/lib/constants';
+import { createAttendanceCode, getAttendanceWindow, isAttendanceConfigured } from '@/lib/features/radar/attendance-code';
+import { buildAttendanceUrl, isAttendanceOpen } from '@/lib/features/radar/radar-attendance';
+import { RadarAttendanceService } from '@/lib/features/radar/radar-attendance-service';
+import { supabase } from '@/lib/supabase/client';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+// Issues the current attendance code for the host's screen. Codes are not
+// stored; the confirm route recomputes them from RADAR_ATTENDANCE_SECRET.
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ radarId: string }> }
+) {
+  const client = getSupabaseAdmin();
+  if (!client || !isAttendanceConfigured()) {
+    return NextResponse.json({ error: 'Konfirmasi kehadiran belum dikonfigurasi' }, { status: 503 });
+  }
+
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim();
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Anda harus login' }, { status: 401 });
+  }
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(accessToken);
+  if (error || !user) {
+    return NextResponse.json({ error: 'Sesi tidak valid' }, { status: 401 });
+  }
+
+  const { radarId } = await params;
+  const event = await RadarAttendanceService.getEventForAttendance(client, radarId);
+  if (!event) {
+    return NextResponse.json({ error: 'Radar tidak ditemukan' }, { status: 404 });
+  }
+  if (event.creator_id !== user.id) {
+    return NextResponse.json({ error: 'Hanya host yang bisa menampilkan kode kehadiran' }, { status: 403 });
+  }
+  if (event.status === 'CANCELLED' || !isAttendanceOpen(event.event_starts_at_utc)) {
+    return NextResponse.json({ error: 'Konfirmasi kehadiran belum dibuka' }, { status: 409 });
+  }
+
+  const window = getAttendanceWindow(new Date());
+  const code = createAttendanceCode(event.id, window);
+  const expiresAt = new Date((window + 1) * RADAR_SETTINGS.ATTENDANCE_CODE_TTL_SECONDS * 1000);
+  return NextResponse.json(
+    {
+      code,
+      url: buildAttendanceUrl(new URL(request.url).origin, event.id, code),
+      expiresAt: expiresAt.toISOString(),
+    },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
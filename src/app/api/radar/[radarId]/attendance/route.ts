@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { isAttendanceConfigured, verifyAttendanceCode } from '@/lib/features/radar/attendance-code';
+import { isAttendanceOpen } from '@/lib/features/radar/radar-attendance';
+import { RadarAttendanceService } from '@/lib/features/radar/radar-attendance-service';
+import { supabase } from '@/lib/supabase/client';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+// A participant confirms attendance with the code from the host's screen.
+// `{ code, method }` where method is QR (scanned) or MANUAL (typed).
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ radarId: string }> }
+) {
+  const client = getSupabaseAdmin();
+  if (!client || !isAttendanceConfigured()) {
+    return NextResponse.json({ error: 'Konfirmasi kehadiran belum dikonfigurasi' }, { status: 503 });
+  }
+
+  const accessToken = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim();
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Anda harus login' }, { status: 401 });
+  }
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(accessToken);
+  if (error || !user) {
+    return NextResponse.json({ error: 'Sesi tidak valid' }, { status: 401 });
+  }
+
+  const { radarId } = await params;
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+  const code = body?.code?.toString() ?? '';
+  const method = body?.method === 'MANUAL' ? 'MANUAL' : 'QR';
+
+  const event = await RadarAttendanceService.getEventForAttendance(client, radarId);
+  if (!event) {
+    return NextResponse.json({ error: 'Radar tidak ditemukan' }, { status: 404 });
+  }
+  if (event.creator_id === user.id) {
+    return NextResponse.json({ error: 'Host tidak perlu mengonfirmasi kehadiran' }, { status: 400 });
+  }
+  if (event.status === 'CANCELLED' || !isAttendanceOpen(event.event_starts_at_utc)) {
+    return NextResponse.json({ error: 'Konfirmasi kehadiran sudah ditutup' }, { status: 409 });
+  }
+  if (!verifyAttendanceCode(event.id, code)) {
+    return NextResponse.json({ error: 'Kode kehadiran salah atau sudah kedaluwarsa' }, { status: 400 });
+  }
+
+  try {
+    const result = await RadarAttendanceService.recordAttendance(client, { event, userId: user.id, method });
+    return NextResponse.json(result);
+  } catch (recordError) {
+    return NextResponse.json(
+      { error: recordError instanceof Error ? recordError.message : 'Gagal mengonfirmasi kehadiran' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { RadarReminderService } from '@/lib/features/radar/radar-reminder-service';
+import { isCronAuthorized } from '@/lib/cron-auth';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+// Run by a scheduler every few minutes, or locally with `npm run jobs:radar-reminders`.
+// Authenticated with RADAR_REMINDER_CRON_SECRET. `{ "dry_run": true }` counts
+// what would be sent without writing anything.
+
+export async function POST(request: Request) {
+  if (!isCronAuthorized(request, process.env.RADAR_REMINDER_CRON_SECRET)) {
+    return NextResponse.json({ error: 'Tidak diizinkan' }, { status: 401 });
+  }
+
+  const client = getSupabaseAdmin();
+  if (!client) {
+    return NextResponse.json({ error: 'Pengingat radar belum dikonfigurasi' }, { status: 503 });
+  }
+
+  const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+
+  try {
+    const summary = await RadarReminderService.sendDueReminders(client, { dryRun: body?.dry_run === true });
+    return NextResponse.json(summary);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Gagal mengirim pengingat radar' },
+      { status: 500 }
+    );
+  }
+}
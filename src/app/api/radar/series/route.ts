@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { RadarSeriesService } from '@/lib/features/radar/radar-series-service';
+import { isCronAuthorized } from '@/lib/cron-auth';
+import { getSupabaseAdmin } from '@/lib/supabase/server';
+
+// Run by a scheduler at least daily, or locally with `npm run jobs:radar-series`.
+// Authenticated with RADAR_SERIES_CRON_SECRET. Tops every active series up to
+// its next occurrences.
+
+export async function POST(request: Request) {
+  if (!isCronAuthorized(request, process.env.RADAR_SERIES_CRON_SECRET)) {
+    return NextResponse.json({ error: 'Tidak diizinkan' }, { status: 401 });
+  }
+
+  const client = getSupabaseAdmin();
+  if (!client) {
+    return NextResponse.json({ error: 'Radar berulang belum dikonfigurasi' }, { status: 503 });
+  }
+
+  try {
+    const summary = await RadarSeriesService.materializeActiveSeries(client);
+    return NextResponse.json(summary);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Gagal memperbarui radar berulang' },
+      { status: 500 }
+    );
+  }
+}
@@ -16,6 +16,7 @@ import {
 } from 'lucide-react';
 import Link from 'next/link';
 import { useChats, useSetChatArchived } from '@/lib/features/chat/use-chat';
+import { useOnlineUserIds } from '@/lib/features/chat/use-presence';
 import { useAuthStore } from '@/lib/store/auth-store';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
@@ -23,6 +24,7 @@ import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ChatGroupActionsDialog } from '@/components/chat/chat-group-actions-dialog';
+import { OnlineIndicator } from '@/components/chat/online-indicator';
 import { cn } from '@/lib/utils';
 
 type ChatFilter = 'all' | 'unread' | 'groups' | 'archived';
@@ -40,6 +42,7 @@ export function ChatInboxPanel({ className, selectedChatId }: ChatInboxPanelProp
   const { profile } = useAuthStore();
   const { mutateAsync: setChatArchived } = useSetChatArchived();
   const { data, isLoading, isFetchingNextPage, fetchNextPage, hasNextPage } = useChats({ filter });
+  const onlineUserIds = useOnlineUserIds();
 
   const chats = useMemo(() => data?.pages.flatMap((page) => page.chats) ?? [], [data]);
   const accountLabel = profile?.full_name?.split(' ')[0] || 'Messages';
@@ -171,6 +174,12 @@ export function ChatInboxPanel({ className, selectedChatId }: ChatInboxPanelProp
                 key={chat.id}
                 chat={chat}
                 isActive={selectedChatId === chat.id}
+                isOnline={
+                  !chat.is_group &&
+                  chat.participants.some(
+                    (participantId) => participantId !== profile?.id && onlineUserIds.has(participantId)
+                  )
+                }
                 isArchiving={archivingChatId === chat.id}
                 onToggleArchive={handleToggleArchive}
               />
@@ -207,6 +216,7 @@ export function ChatInboxPanel({ className, selectedChatId }: ChatInboxPanelProp
 function ChatTile({
   chat,
   isActive,
+  isOnline,
   isArchiving,
   onToggleArchive,
 }: {
@@ -223,6 +233,7 @@ function ChatTile({
     is_group: boolean;
   };
   isActive: boolean;
+  isOnline: boolean;
   isArchiving: boolean;
   onToggleArchive: (chatId: string, archived: boolean) => Promise<void>;
 }) {
@@ -242,10 +253,13 @@ function ChatTile({
         className="flex min-w-0 flex-1 items-center gap-3 rounded-xl px-2 py-1"
         aria-current={isActive ? 'page' : undefined}
       >
-        <Avatar className="h-12 w-12 border border-border">
-          <AvatarImage src={chat.group_avatar_url} alt={displayName} />
-          <AvatarFallback className="bg-card text-xs text-foreground/80">{initials}</AvatarFallback>
-        </Avatar>
+        <div className="relative shrink-0">
+          <Avatar className="h-12 w-12 border border-border">
+            <AvatarImage src={chat.group_avatar_url} alt={displayName} />
+            <AvatarFallback className="bg-card text-xs text-foreground/80">{initials}</AvatarFallback>
+          </Avatar>
+          <OnlineIndicator isOnline={isOnline} />
+        </div>
 
         <div className="min-w-0 flex-1">
           <div className="mb-0.5 flex items-center justify-between gap-2">
@@ -0,0 +1,79 @@
+// Location Message Card
+
+'use client';
+
+import { Church as ChurchIcon, Clock, ExternalLink, MapPin } from 'lucide-react';
+import { buildMapsUrl } from '@/lib/features/chat/location-message';
+import { formatMassStartLabel, formatStartsInLabel } from '@/lib/features/schedule/mass-occurrence';
+import { useUpcomingMasses } from '@/lib/features/schedule/use-schedule';
+import type { MessageLocation } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+export function LocationMessageCard({
+  location,
+  isMine = false,
+}: {
+  location: MessageLocation;
+  isMine?: boolean;
+}) {
+  const isChurch = Boolean(location.church_id);
+  // The next Mass is resolved when the card is shown, so an old pin never shows a past time.
+  const { data: upcoming = [], isLoading } = useUpcomingMasses({
+    churchIds: location.church_id ? [location.church_id] : [],
+    limit: 1,
+    enabled: isChurch,
+  });
+  const nextMass = upcoming[0];
+  const Icon = isChurch ? ChurchIcon : MapPin;
+
+  return (
+    <div
+      className={cn(
+        'mb-2 min-w-[220px] overflow-hidden rounded-xl border',
+        isMine ? 'border-white/25 bg-white/10' : 'border-border bg-muted/40'
+      )}
+    >
+      <div className="flex items-start gap-2 px-3 py-2">
+        <span
+          className={cn(
+            'mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-full',
+            isMine ? 'bg-white/20 text-white' : 'bg-accent/15 text-accent'
+          )}
+        >
+          <Icon className="h-4 w-4" />
+        </span>
+        <div className="min-w-0 space-y-0.5">
+          {isChurch && (
+            <p className={cn('text-[10px] font-semibold uppercase', isMine ? 'text-white/75' : 'text-muted-foreground')}>
+              Ketemu di gereja
+            </p>
+          )}
+          <p className="text-sm font-semibold leading-tight">{location.label}</p>
+          {location.address && (
+            <p className={cn('text-xs', isMine ? 'text-white/80' : 'text-muted-foreground')}>{location.address}</p>
+          )}
+          {isChurch && !isLoading && (
+            <p className={cn('flex items-center gap-1 text-xs', isMine ? 'text-white/90' : 'text-foreground/80')}>
+              <Clock className="h-3 w-3 shrink-0" />
+              {nextMass
+                ? `Misa berikutnya: ${formatMassStartLabel(nextMass.starts_at, nextMass.timezone)} (${formatStartsInLabel(nextMass.starts_at)})`
+                : 'Jadwal Misa belum tersedia'}
+            </p>
+          )}
+        </div>
+      </div>
+      <a
+        href={buildMapsUrl(location)}
+        target="_blank"
+        rel="noreferrer"
+        className={cn(
+          'flex items-center justify-center gap-1 border-t px-3 py-1.5 text-xs font-semibold',
+          isMine ? 'border-white/20 text-white hover:bg-white/10' : 'border-border text-accent hover:bg-muted/60'
+        )}
+      >
+        <ExternalLink className="h-3 w-3" />
+        Buka di Maps
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+// Message Edit History Dialog
+
+'use client';
+
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { Loader2 } from 'lucide-react';
+import { buildMessageVersions } from '@/lib/features/chat/message-edits';
+import { useMessageEditHistory } from '@/lib/features/chat/use-chat';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { SocialMessage } from '@/lib/types';
+
+export function MessageEditHistoryDialog({
+  message,
+  onOpenChange,
+}: {
+  message?: SocialMessage;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data: edits = [], isLoading } = useMessageEditHistory(message?.id);
+  const versions = useMemo(
+    () => (message ? buildMessageVersions(message, edits).reverse() : []),
+    [edits, message]
+  );
+
+  return (
+    <Dialog open={Boolean(message)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg border-border bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle>Riwayat Edit</DialogTitle>
+          <DialogDescription>Semua anggota chat dapat melihat versi sebelumnya dari pesan ini.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] space-y-2 overflow-y-auto">
+            {versions.length <= 1 && (
+              <p className="text-xs text-muted-foreground">Riwayat versi sebelumnya belum tersedia.</p>
+            )}
+            {versions.map((version, index) => (
+              <div
+                key={`${version.at}-${index}`}
+                className="rounded-xl border border-border bg-muted/30 px-3 py-2 text-sm"
+              >
+                <div className="mb-1 flex items-center justify-between gap-2 text-[11px] text-muted-foreground">
+                  <span>{format(new Date(version.at), 'd MMM yyyy, HH:mm', { locale: id })}</span>
+                  {version.is_current ? (
+                    <Badge variant="secondary" className="text-[10px]">Saat ini</Badge>
+                  ) : index === versions.length - 1 ? (
+                    <span>Asli</span>
+                  ) : null}
+                </div>
+                <p className="whitespace-pre-wrap break-words">{version.content || '[kosong]'}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+// Message Read Receipts Sheet
+
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { CheckCheck, Clock } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { ChatProfile, MessageReceiptSummary, SocialMessage } from '@/lib/types';
+
+function ReceiptRow({ profile, fallbackName, meta }: { profile?: ChatProfile; fallbackName: string; meta?: string }) {
+  const name = profile?.full_name?.trim() || fallbackName;
+  return (
+    <div className="flex items-center gap-3 rounded-lg px-2 py-2">
+      <Avatar className="h-9 w-9">
+        <AvatarImage src={profile?.avatar_url} alt={name} />
+        <AvatarFallback className="text-[10px]">{name.slice(0, 2).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <p className="min-w-0 flex-1 truncate text-sm font-medium">{name}</p>
+      {meta && <span className="shrink-0 text-xs text-muted-foreground">{meta}</span>}
+    </div>
+  );
+}
+
+export function MessageReadReceiptsSheet({
+  message,
+  receipt,
+  onOpenChange,
+}: {
+  message?: SocialMessage;
+  receipt?: MessageReceiptSummary;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const readers = receipt?.readers ?? [];
+  const pending = receipt?.pending ?? [];
+
+  return (
+    <Sheet open={Boolean(message && receipt)} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[75vh] rounded-t-2xl">
+        <SheetHeader>
+          <SheetTitle>Info Pesan</SheetTitle>
+          <SheetDescription className="line-clamp-2">
+            {message?.content || message?.file_name || '[media]'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="max-h-[55vh] space-y-4 overflow-y-auto px-4 pb-4">
+          <section>
+            <p className="mb-1 flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+              <CheckCheck className="h-3.5 w-3.5 text-sky-500" />
+              Dibaca oleh ({readers.length})
+            </p>
+            {readers.length === 0 ? (
+              <p className="px-2 py-3 text-sm text-muted-foreground">Belum ada yang membaca.</p>
+            ) : (
+              readers.map((reader) => (
+                <ReceiptRow
+                  key={reader.user_id}
+                  profile={reader.profile}
+                  fallbackName="Anggota"
+                  meta={formatDistanceToNow(new Date(reader.read_at), { addSuffix: true, locale: id })}
+                />
+              ))
+            )}
+          </section>
+
+          {pending.length > 0 && (
+            <section>
+              <p className="mb-1 flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                <Clock className="h-3.5 w-3.5" />
+                Belum dibaca ({pending.length})
+              </p>
+              {pending.map((member) => (
+                <ReceiptRow key={member.user_id} profile={member.profile} fallbackName="Anggota" />
+              ))}
+            </section>
+          )}
+
+          <p className="text-[11px] text-muted-foreground">
+            Anggota yang mematikan tanda dibaca tetap tercantum sebagai belum dibaca.
+          </p>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
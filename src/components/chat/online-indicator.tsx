@@ -0,0 +1,19 @@
+// Online Indicator
+
+'use client';
+
+import { cn } from '@/lib/utils';
+
+export function OnlineIndicator({ isOnline, className }: { isOnline: boolean; className?: string }) {
+  if (!isOnline) return null;
+
+  return (
+    <span
+      className={cn(
+        'absolute bottom-0 right-0 block h-3 w-3 rounded-full border-2 border-card bg-emerald-500',
+        className
+      )}
+      aria-label="Online"
+    />
+  );
+}
@@ -0,0 +1,10 @@
+// Presence Tracker
+
+'use client';
+
+import { usePresenceTracker } from '@/lib/features/chat/use-presence';
+
+export function PresenceTracker() {
+  usePresenceTracker();
+  return null;
+}
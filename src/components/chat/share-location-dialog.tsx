@@ -0,0 +1,153 @@
+// Share Location Dialog
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Church as ChurchIcon, Loader2, LocateFixed, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildChurchLocation } from '@/lib/features/chat/location-message';
+import { isValidGeoPoint } from '@/lib/features/schedule/geo';
+import { useChurches } from '@/lib/features/schedule/use-schedule';
+import type { MessageLocation } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+
+const CHURCH_RESULT_LIMIT = 30;
+
+export function ShareLocationDialog({
+  open,
+  onOpenChange,
+  onShare,
+  isSending = false,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onShare: (location: MessageLocation) => void;
+  isSending?: boolean;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg border-border bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle>Bagikan Lokasi</DialogTitle>
+          <DialogDescription>Kirim posisi Anda saat ini atau ajak bertemu di gereja.</DialogDescription>
+        </DialogHeader>
+        <ShareLocationOptions onShare={onShare} isSending={isSending} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Mounted only while the dialog is open so the church list is not fetched for every chat.
+function ShareLocationOptions({
+  onShare,
+  isSending,
+}: {
+  onShare: (location: MessageLocation) => void;
+  isSending: boolean;
+}) {
+  const [query, setQuery] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const { data: churches = [], isLoading } = useChurches();
+
+  const filteredChurches = useMemo(() => {
+    const keyword = query.trim().toLowerCase();
+    return churches
+      .filter((church) => church.address || isValidGeoPoint(church))
+      .filter(
+        (church) =>
+          !keyword ||
+          church.name.toLowerCase().includes(keyword) ||
+          church.address?.toLowerCase().includes(keyword)
+      )
+      .slice(0, CHURCH_RESULT_LIMIT);
+  }, [churches, query]);
+
+  const handleShareCurrentPosition = () => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      toast.error('Browser tidak mendukung lokasi.');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onShare({
+          label: 'Lokasi saya',
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        });
+      },
+      () => {
+        setIsLocating(false);
+        toast.error('Izin lokasi ditolak. Pilih gereja sebagai titik temu.');
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60 * 1000 }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full justify-start"
+        onClick={handleShareCurrentPosition}
+        disabled={isLocating || isSending}
+      >
+        {isLocating ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <LocateFixed className="mr-2 h-4 w-4" />
+        )}
+        Kirim lokasi saat ini
+      </Button>
+
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Cari gereja untuk titik temu"
+          className="pl-9"
+        />
+      </div>
+
+      <div className="max-h-[45vh] space-y-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex justify-center py-6 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : filteredChurches.length === 0 ? (
+          <p className="py-4 text-center text-xs text-muted-foreground">Gereja tidak ditemukan.</p>
+        ) : (
+          filteredChurches.map((church) => (
+            <button
+              key={church.id}
+              type="button"
+              disabled={isSending}
+              onClick={() => onShare(buildChurchLocation(church))}
+              className="flex w-full items-start gap-2 rounded-lg px-2 py-2 text-left hover:bg-muted/60 disabled:opacity-60"
+            >
+              <ChurchIcon className="mt-0.5 h-4 w-4 shrink-0 text-accent" />
+              <span className="min-w-0">
+                <span className="block truncate text-sm font-medium">{church.name}</span>
+                {church.address && (
+                  <span className="block truncate text-xs text-muted-foreground">{church.address}</span>
+                )}
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// Voice Note Player
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { CHAT_SETTINGS } from '@/lib/constants';
+import { formatAudioDuration } from '@/lib/features/chat/voice-note';
+import { cn } from '@/lib/utils';
+
+const FALLBACK_WAVEFORM = Array.from({ length: CHAT_SETTINGS.VOICE_NOTE_WAVEFORM_BARS }, (_, index) =>
+  0.3 + 0.25 * Math.abs(Math.sin(index * 0.7))
+);
+
+export function VoiceWaveform({
+  bars,
+  progress = 0,
+  isMine = false,
+  className,
+}: {
+  bars: number[];
+  progress?: number;
+  isMine?: boolean;
+  className?: string;
+}) {
+  return (
+    <div className={cn('flex h-8 items-center gap-[2px]', className)} aria-hidden>
+      {bars.map((bar, index) => {
+        const isPlayed = (index + 0.5) / bars.length <= progress;
+        return (
+          <span
+            key={index}
+            className={cn(
+              'w-[3px] shrink-0 rounded-full transition-colors',
+              isMine
+                ? isPlayed
+                  ? 'bg-white'
+                  : 'bg-white/45'
+                : isPlayed
+                  ? 'bg-accent'
+                  : 'bg-muted-foreground/35'
+            )}
+            style={{ height: `${Math.max(12, Math.round(bar * 100))}%` }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export function VoiceNotePlayer({
+  src,
+  durationSeconds,
+  waveform,
+  isMine = false,
+}: {
+  src: string;
+  durationSeconds?: number;
+  waveform?: number[];
+  isMine?: boolean;
+}) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+  const [rateIndex, setRateIndex] = useState(0);
+
+  // Recorded webm files often report an infinite duration; the stored metadata is the fallback.
+  const duration = mediaDuration ?? durationSeconds ?? 0;
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+  const playbackRate = CHAT_SETTINGS.VOICE_NOTE_PLAYBACK_RATES[rateIndex];
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      void audio.play().catch(() => setIsPlaying(false));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const cycleRate = () => {
+    const nextIndex = (rateIndex + 1) % CHAT_SETTINGS.VOICE_NOTE_PLAYBACK_RATES.length;
+    setRateIndex(nextIndex);
+    if (audioRef.current) {
+      audioRef.current.playbackRate = CHAT_SETTINGS.VOICE_NOTE_PLAYBACK_RATES[nextIndex];
+    }
+  };
+
+  return (
+    <div className="mb-1 flex min-w-[220px] items-center gap-2">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onLoadedMetadata={(event) => {
+          const value = event.currentTarget.duration;
+          if (Number.isFinite(value) && value > 0) setMediaDuration(value);
+          event.currentTarget.playbackRate = playbackRate;
+        }}
+        onTimeUpdate={(event) => setCurrentTime(event.currentTarget.currentTime)}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+      />
+
+      <button
+        type="button"
+        onClick={togglePlay}
+        className={cn(
+          'flex h-9 w-9 shrink-0 items-center justify-center rounded-full',
+          isMine ? 'bg-white/20 text-white' : 'bg-accent text-white'
+        )}
+        aria-label={isPlaying ? 'Jeda pesan suara' : 'Putar pesan suara'}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="ml-0.5 h-4 w-4" />}
+      </button>
+
+      <div className="min-w-0 flex-1">
+        <div className="relative">
+          <VoiceWaveform bars={waveform ?? FALLBACK_WAVEFORM} progress={progress} isMine={isMine} />
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={Math.min(currentTime, duration || 0)}
+            onChange={(event) => {
+              const nextTime = Number(event.target.value);
+              setCurrentTime(nextTime);
+              if (audioRef.current) audioRef.current.currentTime = nextTime;
+            }}
+            disabled={duration <= 0}
+            className="absolute inset-0 h-full w-full cursor-pointer opacity-0"
+            aria-label="Geser posisi pesan suara"
+          />
+        </div>
+        <span className={cn('text-[10px]', isMine ? 'text-white/75' : 'text-muted-foreground')}>
+          {formatAudioDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+        </span>
+      </div>
+
+      <button
+        type="button"
+        onClick={cycleRate}
+        className={cn(
+          'shrink-0 rounded-full px-2 py-0.5 text-[10px] font-semibold',
+          isMine ? 'bg-white/20 text-white' : 'bg-muted text-foreground/80'
+        )}
+        aria-label="Ubah kecepatan putar"
+      >
+        {playbackRate}x
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+// Entity Textarea Component
+
+'use client';
+
+import { useEffect, useRef, useState, type ComponentProps, type KeyboardEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Hash, Loader2 } from 'lucide-react';
+import { ChatService } from '@/lib/features/chat/chat-service';
+import { FeedService } from '@/lib/features/feed/feed-service';
+import {
+  applyEntityTrigger,
+  getEntityTrigger,
+  type EntityTrigger,
+} from '@/lib/features/feed/post-entities';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import type { PostMention } from '@/lib/types';
+
+type Suggestion =
+  | { kind: 'user'; id: string; label: string; avatarUrl?: string }
+  | { kind: 'tag'; id: string; label: string; count: number };
+
+type EntityTextareaProps = Omit<ComponentProps<typeof Textarea>, 'value' | 'onChange'> & {
+  value: string;
+  onValueChange: (value: string) => void;
+  mentions: PostMention[];
+  onMentionsChange: (mentions: PostMention[]) => void;
+  /** Opens the suggestion list above the field, e.g. for a comment box pinned to the bottom. */
+  placement?: 'top' | 'bottom';
+};
+
+export function EntityTextarea({
+  value,
+  onValueChange,
+  mentions,
+  onMentionsChange,
+  placement = 'bottom',
+  onKeyDown,
+  className,
+  ...props
+}: EntityTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [trigger, setTrigger] = useState<EntityTrigger | null>(null);
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const pendingCaret = useRef<number | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(trigger?.query ?? ''), 200);
+    return () => clearTimeout(timer);
+  }, [trigger?.query]);
+
+  useEffect(() => {
+    if (pendingCaret.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+    pendingCaret.current = null;
+  }, [value]);
+
+  const isUserTrigger = trigger?.trigger === '@';
+  const { data: users = [], isFetching: isFetchingUsers } = useQuery({
+    queryKey: ['search-users', debouncedQuery],
+    queryFn: () => ChatService.searchUsers(debouncedQuery),
+    enabled: isUserTrigger && debouncedQuery.length >= 2,
+  });
+  const { data: tags = [], isFetching: isFetchingTags } = useQuery({
+    queryKey: ['hashtag-suggestions', debouncedQuery],
+    queryFn: () => FeedService.searchHashtags(debouncedQuery),
+    enabled: trigger?.trigger === '#' && debouncedQuery.length >= 1,
+  });
+
+  const suggestions: Suggestion[] = !trigger
+    ? []
+    : isUserTrigger
+      ? users.slice(0, 6).map((user) => ({
+          kind: 'user' as const,
+          id: user.id,
+          label: user.full_name || 'Umat',
+          avatarUrl: user.avatar_url,
+        }))
+      : tags.map((tag) => ({ kind: 'tag' as const, id: tag.tag, label: tag.tag, count: tag.count }));
+  const isSearching = isUserTrigger ? isFetchingUsers : isFetchingTags;
+  const isOpen = Boolean(trigger) && (suggestions.length > 0 || isSearching);
+
+  const syncTrigger = (text: string, caret: number | null) => {
+    const next = caret === null ? null : getEntityTrigger(text, caret);
+    setTrigger(next);
+    setActiveIndex(0);
+  };
+
+  const choose = (suggestion: Suggestion) => {
+    const textarea = textareaRef.current;
+    if (!trigger || !textarea) return;
+
+    const result = applyEntityTrigger(value, trigger, textarea.selectionStart, suggestion.label);
+    if (suggestion.kind === 'user' && !mentions.some((mention) => mention.user_id === suggestion.id)) {
+      onMentionsChange([...mentions, { user_id: suggestion.id, name: suggestion.label }]);
+    }
+    pendingCaret.current = result.caret;
+    onValueChange(result.text);
+    setTrigger(null);
+    textarea.focus();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen && suggestions.length > 0 && !event.nativeEvent.isComposing) {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((current) => (current + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        choose(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+    }
+    if (isOpen && event.key === 'Escape') {
+      event.preventDefault();
+      setTrigger(null);
+      return;
+    }
+    onKeyDown?.(event);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        className={className}
+        onChange={(event) => {
+          onValueChange(event.target.value);
+          syncTrigger(event.target.value, event.target.selectionStart);
+        }}
+        onSelect={(event) => syncTrigger(event.currentTarget.value, event.currentTarget.selectionStart)}
+        onBlur={(event) => {
+          setTrigger(null);
+          props.onBlur?.(event);
+        }}
+        onKeyDown={handleKeyDown}
+        aria-autocomplete="list"
+        aria-expanded={isOpen}
+      />
+
+      {isOpen && (
+        <div
+          role="listbox"
+          className={cn(
+            'absolute left-0 z-50 w-full max-w-xs overflow-hidden rounded-xl border border-border bg-popover shadow-lg',
+            placement === 'top' ? 'bottom-full mb-2' : 'top-full mt-1'
+          )}
+        >
+          {suggestions.length === 0 ? (
+            <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              {isUserTrigger ? 'Mencari pengguna...' : 'Mencari tagar...'}
+            </div>
+          ) : (
+            suggestions.map((suggestion, index) => (
+              <button
+                key={`${suggestion.kind}:${suggestion.id}`}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the textarea so the caret position survives the click.
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => choose(suggestion)}
+                className={cn(
+                  'flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-muted/60',
+                  index === activeIndex && 'bg-muted/60'
+                )}
+              >
+                {suggestion.kind === 'user' ? (
+                  <Avatar className="h-7 w-7">
+                    <AvatarImage src={suggestion.avatarUrl} alt={suggestion.label} />
+                    <AvatarFallback className="text-[10px]">
+                      {suggestion.label.slice(0, 2).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                ) : (
+                  <span className="flex h-7 w-7 items-center justify-center rounded-full bg-muted">
+                    <Hash className="h-3.5 w-3.5" />
+                  </span>
+                )}
+                <span className="min-w-0 flex-1 truncate font-medium">
+                  {suggestion.kind === 'tag' ? `#${suggestion.label}` : suggestion.label}
+                </span>
+                {suggestion.kind === 'tag' && (
+                  <span className="text-[11px] text-muted-foreground">{suggestion.count} post</span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
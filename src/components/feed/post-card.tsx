@@ -17,6 +17,9 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
+import { EntityTextarea } from '@/components/feed/entity-textarea';
+import { RichText } from '@/components/feed/rich-text';
+import { PollCard } from '@/components/polls/poll-card';
 import {
   Bookmark,
   ChevronLeft,
@@ -54,7 +57,7 @@ import { useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
-import type { Comment, Post } from '@/lib/types';
+import type { Comment, Post, PostMention } from '@/lib/types';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
   DropdownMenu,
@@ -125,6 +128,7 @@ export function PostCard({
   const [isCommentsOpen, setIsCommentsOpen] = useState(false);
   const [hasAutoOpenedComments, setHasAutoOpenedComments] = useState(false);
   const [commentText, setCommentText] = useState('');
+  const [commentMentions, setCommentMentions] = useState<PostMention[]>([]);
   const [commentImageFile, setCommentImageFile] = useState<File | null>(null);
   const [commentImagePreviewUrl, setCommentImagePreviewUrl] = useState<string | null>(null);
   const [isUploadingCommentImage, setIsUploadingCommentImage] = useState(false);
@@ -138,6 +142,7 @@ export function PostCard({
   const [commentImageViewer, setCommentImageViewer] = useState<{ url: string; alt: string } | null>(null);
   const [isSharingLink, setIsSharingLink] = useState(false);
   const [editCaption, setEditCaption] = useState(post.caption?.trim() ?? '');
+  const [editMentions, setEditMentions] = useState<PostMention[]>(post.mentions ?? []);
   const [reportPostReason, setReportPostReason] = useState(REPORT_REASONS[0]);
   const [reportCommentReason, setReportCommentReason] = useState(REPORT_REASONS[0]);
   const [reportCommentTarget, setReportCommentTarget] = useState<{ id: string; userName: string } | null>(null);
@@ -238,6 +243,7 @@ export function PostCard({
     setIsCommentsOpen(false);
     setHasAutoOpenedComments(false);
     setCommentText('');
+    setCommentMentions([]);
     setReplyTarget(null);
     setExpandedReplyParents(new Set());
     setCommentImageFile(null);
@@ -380,6 +386,7 @@ export function PostCard({
         parentId: targetParentId,
         replyToName: replyTarget?.name,
         imageUrl: uploadedImageUrl,
+        mentions: commentMentions,
       });
       if (targetParentId) {
         setExpandedReplyParents((prev) => {
@@ -389,6 +396,7 @@ export function PostCard({
         });
       }
       setCommentText('');
+      setCommentMentions([]);
       setReplyTarget(null);
       clearCommentImage();
     } catch (error) {
@@ -445,7 +453,7 @@ export function PostCard({
     }
 
     try {
-      await updatePost({ postId: post.id, caption: nextCaption });
+      await updatePost({ postId: post.id, caption: nextCaption, mentions: editMentions });
       setIsEditDialogOpen(false);
     } catch (error) {
       console.error('Update post error:', error);
@@ -591,6 +599,7 @@ export function PostCard({
                       onClick={(event) => {
                         event.stopPropagation();
                         setEditCaption(post.caption?.trim() ?? '');
+                        setEditMentions(post.mentions ?? []);
                         setIsEditDialogOpen(true);
                       }}
                     >
@@ -637,7 +646,17 @@ export function PostCard({
 
           {post.caption && (
             <div className="px-4 pb-3 sm:px-5 sm:pb-4">
-              <p className="whitespace-pre-wrap text-sm leading-relaxed text-foreground sm:text-[15px]">{post.caption}</p>
+              <RichText
+                text={post.caption}
+                mentions={post.mentions}
+                className="whitespace-pre-wrap text-sm leading-relaxed text-foreground sm:text-[15px]"
+              />
+            </div>
+          )}
+
+          {post.poll_id && (
+            <div className="px-4 pb-3 sm:px-5 sm:pb-4">
+              <PollCard pollId={post.poll_id} />
             </div>
           )}
 
@@ -761,6 +780,7 @@ export function PostCard({
           if (!nextOpen) {
             setReplyTarget(null);
             setCommentText('');
+            setCommentMentions([]);
             setExpandedReplyParents(new Set());
             clearCommentImage();
           }
@@ -852,9 +872,11 @@ export function PostCard({
                               <span className="text-[11px] text-muted-foreground">{rootTimeLabel}</span>
                             </div>
                             {rootContent.length > 0 && (
-                              <p className="mt-1 whitespace-pre-wrap text-[14px] leading-relaxed text-foreground">
-                                {thread.root.content}
-                              </p>
+                              <RichText
+                                text={thread.root.content}
+                                mentions={thread.root.mentions}
+                                className="mt-1 whitespace-pre-wrap text-[14px] leading-relaxed text-foreground"
+                              />
                             )}
                             {thread.root.image_url && (
                               <div className="mt-2 w-fit max-w-[min(78vw,320px)] overflow-hidden rounded-xl border border-border/70 bg-muted/20 sm:max-w-[360px]">
@@ -1002,9 +1024,11 @@ export function PostCard({
                                       Balasan
                                     </p>
                                     {replyContent.length > 0 && (
-                                      <p className="mt-1 whitespace-pre-wrap text-[13px] leading-relaxed text-foreground">
-                                        {reply.content}
-                                      </p>
+                                      <RichText
+                                        text={reply.content}
+                                        mentions={reply.mentions}
+                                        className="mt-1 whitespace-pre-wrap text-[13px] leading-relaxed text-foreground"
+                                      />
                                     )}
                                     {reply.image_url && (
                                       <div className="mt-2 w-fit max-w-[min(70vw,260px)] overflow-hidden rounded-xl border border-border/70 bg-muted/20 sm:max-w-[300px]">
@@ -1152,9 +1176,12 @@ export function PostCard({
                   <AvatarFallback className="text-[10px]">{viewerInitials}</AvatarFallback>
                 </Avatar>
                 <div className="min-w-0 flex-1">
-                  <Textarea
+                  <EntityTextarea
                     value={commentText}
-                    onChange={(event) => setCommentText(event.target.value)}
+                    onValueChange={setCommentText}
+                    mentions={commentMentions}
+                    onMentionsChange={setCommentMentions}
+                    placement="top"
                     onKeyDown={handleCommentInputKeyDown}
                     rows={1}
                     placeholder={replyTarget ? `Balas ${replyTarget.name}...` : 'Tulis komentar...'}
@@ -1242,9 +1269,11 @@ export function PostCard({
             <DialogDescription>Perbarui caption postingan Anda.</DialogDescription>
           </DialogHeader>
           <div className="space-y-3">
-            <textarea
+            <EntityTextarea
               value={editCaption}
-              onChange={(event) => setEditCaption(event.target.value)}
+              onValueChange={setEditCaption}
+              mentions={editMentions}
+              onMentionsChange={setEditMentions}
               maxLength={800}
               className="h-32 w-full resize-none rounded-xl border border-border bg-background px-3 py-2 text-sm outline-none transition-colors placeholder:text-muted-foreground focus:border-primary/50"
               placeholder="Tulis caption..."
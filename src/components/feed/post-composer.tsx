@@ -5,15 +5,17 @@
 import { useState } from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
+import { EntityTextarea } from '@/components/feed/entity-textarea';
 import { Card, CardContent } from '@/components/ui/card';
-import { Image as ImageIcon, X } from 'lucide-react';
+import { BarChart3, Image as ImageIcon, X } from 'lucide-react';
 import { useUIStore } from '@/lib/store/ui-store';
 import { useAuth } from '@/lib/features/auth/use-auth';
 import { useCreatePost } from '@/lib/features/feed/use-posts';
 import { FeedService } from '@/lib/features/feed/feed-service';
 import { toast } from 'sonner';
 import { useRef } from 'react';
+import { CreatePollDialog } from '@/components/polls/create-poll-dialog';
+import type { PollDraft, PostMention } from '@/lib/types';
 
 export function PostComposer() {
   const { user, profile } = useAuth();
@@ -21,8 +23,11 @@ export function PostComposer() {
   const { mutateAsync: createPost, isPending } = useCreatePost();
   
   const [caption, setCaption] = useState('');
+  const [mentions, setMentions] = useState<PostMention[]>([]);
   const [images, setImages] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [poll, setPoll] = useState<PollDraft | null>(null);
+  const [isPollDialogOpen, setIsPollDialogOpen] = useState(false);
   const imageInputRef = useRef<HTMLInputElement>(null);
 
   const initials = profile?.full_name
@@ -64,8 +69,8 @@ export function PostComposer() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (caption.trim() === '' && images.length === 0) {
-      toast.error('Masukkan caption atau pilih gambar');
+    if (caption.trim() === '' && images.length === 0 && !poll) {
+      toast.error('Masukkan caption, pilih gambar, atau tambahkan polling');
       return;
     }
 
@@ -83,11 +88,13 @@ export function PostComposer() {
         }
       }
 
-      await createPost({ caption, imageUrls });
+      await createPost({ caption, imageUrls, mentions, poll: poll ?? undefined });
       
       // Reset form
       setCaption('');
+      setMentions([]);
       setImages([]);
+      setPoll(null);
       closeCreatePost();
     } catch (error) {
       console.error('Create post error:', error);
@@ -131,10 +138,12 @@ export function PostComposer() {
             </div>
 
             {/* Caption Input */}
-            <Textarea
-              placeholder="Apa yang sedang Anda pikirkan?"
+            <EntityTextarea
+              placeholder="Apa yang sedang Anda pikirkan? Gunakan @ untuk menyebut dan # untuk tagar"
               value={caption}
-              onChange={(e) => setCaption(e.target.value)}
+              onValueChange={setCaption}
+              mentions={mentions}
+              onMentionsChange={setMentions}
               className="min-h-[120px] resize-none"
               disabled={isSubmitting}
             />
@@ -162,6 +171,45 @@ export function PostComposer() {
               </Button>
             </div>
 
+            {/* Poll Attachment */}
+            {poll ? (
+              <div className="flex items-start justify-between gap-3 rounded-lg border p-3 text-sm">
+                <div className="min-w-0">
+                  <p className="flex items-center gap-1 font-semibold">
+                    <BarChart3 className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{poll.question}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {poll.options.filter((option) => option.trim()).length} pilihan
+                    {poll.allow_multiple ? ' · pilihan ganda' : ''}
+                    {poll.is_anonymous ? ' · anonim' : ''}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => setPoll(null)}
+                  disabled={isSubmitting}
+                  aria-label="Hapus polling"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setIsPollDialogOpen(true)}
+                disabled={isSubmitting}
+              >
+                <BarChart3 className="mr-2 h-5 w-5" />
+                Tambah Polling
+              </Button>
+            )}
+
             {/* Image Previews */}
             {images.length > 0 && (
               <div className="grid grid-cols-3 gap-2">
@@ -201,7 +249,7 @@ export function PostComposer() {
               <Button
                 type="submit"
                 className="flex-1 bg-primary hover:bg-primary-hover"
-                disabled={isSubmitting || (caption.trim() === '' && images.length === 0)}
+                disabled={isSubmitting || (caption.trim() === '' && images.length === 0 && !poll)}
               >
                 {isSubmitting ? (isUploading ? 'Mengunggah...' : 'Memposting...') : 'Posting'}
               </Button>
@@ -209,6 +257,16 @@ export function PostComposer() {
           </form>
         </CardContent>
       </Card>
+
+      <CreatePollDialog
+        open={isPollDialogOpen}
+        onOpenChange={setIsPollDialogOpen}
+        submitLabel="Lampirkan Polling"
+        onSubmit={(draft) => {
+          setPoll(draft);
+          setIsPollDialogOpen(false);
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,43 @@
+// Rich Text Component
+
+'use client';
+
+import Link from 'next/link';
+import { tokenizeRichText } from '@/lib/features/feed/post-entities';
+import type { PostMention } from '@/lib/types';
+
+export function RichText({
+  text,
+  mentions,
+  className,
+}: {
+  text: string;
+  mentions?: PostMention[];
+  className?: string;
+}) {
+  const segments = tokenizeRichText(text, mentions);
+
+  return (
+    <p className={className}>
+      {segments.map((segment, index) =>
+        segment.type === 'text' ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          <Link
+            key={index}
+            href={
+              segment.type === 'mention'
+                ? `/profile/${encodeURIComponent(segment.userId)}`
+                : `/tag/${encodeURIComponent(segment.tag)}`
+            }
+            // Cards navigate on click; a link inside must not trigger that too.
+            onClick={(event) => event.stopPropagation()}
+            className="font-semibold text-primary hover:underline"
+          >
+            {segment.text}
+          </Link>
+        )
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,76 @@
+// Mass Journal Heatmap
+
+'use client';
+
+import { useMemo } from 'react';
+import { buildHeatmapWeeks } from '@/lib/features/radar/mass-journal';
+import { cn } from '@/lib/utils';
+
+const DAY_LABELS = ['Min', '', 'Sel', '', 'Kam', '', 'Sab'];
+
+function levelClass(count: number) {
+  if (count <= 0) return 'bg-muted';
+  if (count === 1) return 'bg-primary/40';
+  if (count === 2) return 'bg-primary/70';
+  return 'bg-primary';
+}
+
+function formatDayLabel(date: string) {
+  return new Intl.DateTimeFormat('id-ID', {
+    timeZone: 'UTC',
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  }).format(new Date(`${date}T00:00:00Z`));
+}
+
+function formatMonthLabel(date: string) {
+  return new Intl.DateTimeFormat('id-ID', { timeZone: 'UTC', month: 'short' }).format(new Date(`${date}T00:00:00Z`));
+}
+
+export function MassJournalHeatmap({
+  countsByDate,
+  today,
+}: {
+  countsByDate: Record<string, number>;
+  today: string;
+}) {
+  const weeks = useMemo(() => buildHeatmapWeeks(countsByDate, today), [countsByDate, today]);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-1">
+        <div className="mr-1 grid grid-rows-[auto_repeat(7,0.75rem)] gap-1 text-[10px] text-muted-foreground">
+          <span className="h-3" />
+          {DAY_LABELS.map((label, index) => (
+            <span key={index} className="leading-3">
+              {label}
+            </span>
+          ))}
+        </div>
+        {weeks.map((week, index) => {
+          const first = week[0];
+          // Label a column when it holds the first Sunday of a month.
+          const monthLabel = first && Number(first.date.slice(8)) <= 7 ? formatMonthLabel(first.date) : '';
+          return (
+            <div key={first?.date ?? index} className="grid grid-rows-[auto_repeat(7,0.75rem)] gap-1">
+              <span className="h-3 whitespace-nowrap text-[10px] leading-3 text-muted-foreground">{monthLabel}</span>
+              {week.map((day, dayIndex) =>
+                day ? (
+                  <span
+                    key={day.date}
+                    className={cn('h-3 w-3 rounded-sm', levelClass(day.count))}
+                    title={`${formatDayLabel(day.date)}: ${day.count} misa`}
+                  />
+                ) : (
+                  <span key={`empty-${dayIndex}`} className="h-3 w-3" />
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
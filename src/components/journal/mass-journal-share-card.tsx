@@ -0,0 +1,165 @@
+// Mass Journal Share Card
+
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MassJournalStats } from '@/lib/features/radar/mass-journal';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+
+// The shared image carries totals only: no dates, times or usernames, and the
+// favourite church only when the user turns it on.
+type ShareSummary = {
+  totalCheckIns: number;
+  sundayStreak: number;
+  weekStreak: number;
+  churchCount: number;
+  topChurch?: string;
+};
+
+function getShareLines(summary: ShareSummary) {
+  return [
+    { value: String(summary.totalCheckIns), label: 'misa tercatat' },
+    { value: String(summary.sundayStreak), label: 'Minggu berturut-turut' },
+    { value: String(summary.weekStreak), label: 'pekan berturut-turut' },
+    { value: String(summary.churchCount), label: 'gereja dikunjungi' },
+  ];
+}
+
+async function createJournalImageBlob(summary: ShareSummary): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1080;
+  canvas.height = 1350;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context tidak tersedia');
+  }
+
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, '#1e1b4b');
+  gradient.addColorStop(0.55, '#4c1d95');
+  gradient.addColorStop(1, '#7c3aed');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = 'rgba(255,255,255,0.08)';
+  ctx.beginPath();
+  ctx.arc(940, 180, 150, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = '#E9D5FF';
+  ctx.font = '600 42px Georgia, Times New Roman, serif';
+  ctx.fillText('Jurnal Misa', 96, 140);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = '700 64px Georgia, Times New Roman, serif';
+  ctx.fillText('Perjalanan iman saya', 96, 230);
+
+  let y = 400;
+  for (const line of getShareLines(summary)) {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = '700 120px "Segoe UI", Arial, sans-serif';
+    ctx.fillText(line.value, 96, y);
+    const valueWidth = ctx.measureText(line.value).width;
+    ctx.fillStyle = '#DDD6FE';
+    ctx.font = '500 44px "Segoe UI", Arial, sans-serif';
+    ctx.fillText(line.label, 96 + valueWidth + 28, y - 8);
+    y += 170;
+  }
+
+  if (summary.topChurch) {
+    ctx.fillStyle = '#E9D5FF';
+    ctx.font = '500 36px "Segoe UI", Arial, sans-serif';
+    ctx.fillText(`Paling sering: ${summary.topChurch}`.slice(0, 48), 96, y + 10);
+  }
+
+  ctx.fillStyle = 'rgba(255,255,255,0.75)';
+  ctx.font = '500 28px "Segoe UI", Arial, sans-serif';
+  ctx.fillText('MyCatholic', 96, canvas.height - 80);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob((result) => resolve(result), 'image/png')
+  );
+  if (!blob) {
+    throw new Error('Gagal membuat gambar jurnal');
+  }
+  return blob;
+}
+
+export function MassJournalShareCard({ stats }: { stats: MassJournalStats }) {
+  const [includeChurch, setIncludeChurch] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+  const summary: ShareSummary = {
+    totalCheckIns: stats.totalCheckIns,
+    sundayStreak: stats.currentSundayStreak,
+    weekStreak: stats.currentWeekStreak,
+    churchCount: stats.churchCount,
+    topChurch: includeChurch ? stats.churches[0]?.churchName : undefined,
+  };
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      const blob = await createJournalImageBlob(summary);
+      const file = new File([blob], 'jurnal-misa.png', { type: 'image/png' });
+      const nav = typeof window === 'undefined' ? null : window.navigator;
+
+      if (nav && typeof nav.share === 'function' && typeof nav.canShare === 'function' && nav.canShare({ files: [file] })) {
+        await nav.share({ title: 'Jurnal Misa', files: [file] });
+        return;
+      }
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.name;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      toast.success('Gambar jurnal berhasil dibuat');
+    } catch (error) {
+      // Closing the share sheet is not a failure.
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast.error('Gagal membagikan jurnal');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="space-y-4 p-4">
+        <div className="rounded-xl bg-gradient-to-br from-indigo-950 via-violet-900 to-violet-600 p-5 text-white">
+          <p className="text-xs font-semibold uppercase tracking-[0.16em] text-violet-200">Jurnal Misa</p>
+          <p className="mt-1 text-lg font-bold">Perjalanan iman saya</p>
+          <div className="mt-4 grid grid-cols-2 gap-3">
+            {getShareLines(summary).map((line) => (
+              <div key={line.label}>
+                <p className="text-2xl font-bold">{line.value}</p>
+                <p className="text-xs text-violet-200">{line.label}</p>
+              </div>
+            ))}
+          </div>
+          {summary.topChurch && <p className="mt-3 text-xs text-violet-200">Paling sering: {summary.topChurch}</p>}
+        </div>
+
+        <label className="flex items-center justify-between gap-3 text-sm">
+          <span>
+            <span className="block font-medium">Tampilkan gereja favorit</span>
+            <span className="text-muted-foreground">Tanggal dan waktu misa tidak pernah ikut dibagikan.</span>
+          </span>
+          <Switch checked={includeChurch} onCheckedChange={setIncludeChurch} disabled={stats.churches.length === 0} />
+        </label>
+
+        <Button className="w-full" onClick={handleShare} disabled={isSharing || stats.totalCheckIns === 0}>
+          {isSharing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Share2 className="mr-2 h-4 w-4" />}
+          Bagikan Jurnal
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
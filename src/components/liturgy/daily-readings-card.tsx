@@ -0,0 +1,175 @@
+// Daily Readings Card
+
+'use client';
+
+import { useMemo } from 'react';
+import Link from 'next/link';
+import { BookOpen, ChevronRight } from 'lucide-react';
+import {
+  parseLectionaryReference,
+  versionCandidatesByLanguage,
+} from '@/lib/features/bible/bible-reference';
+import { useBibleBooks } from '@/lib/features/bible/use-bible';
+import { getLiturgyForDate } from '@/lib/features/schedule/liturgical-calendar';
+import type { BibleBook, LiturgicalColor, LiturgicalSeason } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+const SEASON_LABELS: Record<LiturgicalSeason, string> = {
+  advent: 'Masa Adven',
+  christmas: 'Masa Natal',
+  lent: 'Masa Prapaskah',
+  triduum: 'Tri Hari Suci',
+  easter: 'Masa Paskah',
+  ordinary: 'Masa Biasa',
+};
+
+const COLOR_CONFIG: Record<LiturgicalColor, { label: string; className: string }> = {
+  white: { label: 'Putih', className: 'bg-white border-border' },
+  red: { label: 'Merah', className: 'bg-red-600 border-red-600' },
+  green: { label: 'Hijau', className: 'bg-green-600 border-green-600' },
+  violet: { label: 'Ungu', className: 'bg-violet-700 border-violet-700' },
+  rose: { label: 'Merah Muda', className: 'bg-pink-400 border-pink-400' },
+};
+
+type DailyReadingsCardProps = {
+  date?: Date;
+  versionCode?: string;
+  className?: string;
+};
+
+export function DailyReadingsCard({ date, versionCode = 'TB1', className }: DailyReadingsCardProps) {
+  const { data: books = [] } = useBibleBooks();
+  const dateKey = (date ?? new Date()).toDateString();
+  const liturgy = useMemo(() => getLiturgyForDate(new Date(dateKey)), [dateKey]);
+
+  // Lectionary references are written with Indonesian book abbreviations.
+  const scopedBooks = useMemo(() => {
+    const indonesianBooks = books.filter(
+      (book) => (book.language_code?.trim().toLowerCase() || 'id') === 'id'
+    );
+    for (const candidate of versionCandidatesByLanguage('id', versionCode.toUpperCase())) {
+      const byVersion = indonesianBooks.filter(
+        (book) => book.version_code?.trim().toUpperCase() === candidate
+      );
+      if (byVersion.length > 0) return byVersion;
+    }
+    return indonesianBooks;
+  }, [books, versionCode]);
+
+  const readings = [
+    { key: 'first', label: 'Bacaan I', reference: liturgy.readings },
+    { key: 'psalm', label: 'Mazmur', reference: liturgy.psalm },
+    { key: 'second', label: 'Bacaan II', reference: liturgy.second_reading },
+    { key: 'gospel', label: 'Injil', reference: liturgy.gospel },
+  ].filter((item): item is { key: string; label: string; reference: string } =>
+    Boolean(item.reference)
+  );
+
+  const color = liturgy.color ? COLOR_CONFIG[liturgy.color] : null;
+  const dateLabel = new Date(dateKey).toLocaleDateString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+
+  return (
+    <Card className={cn('border-primary/30', className)}>
+      <CardHeader className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <BookOpen className="h-5 w-5 text-primary" />
+            Bacaan Hari Ini
+          </CardTitle>
+          <span className="text-xs text-muted-foreground">{dateLabel}</span>
+        </div>
+        <p className="text-sm font-semibold">{liturgy.title}</p>
+        <div className="flex flex-wrap items-center gap-2">
+          {liturgy.season && (
+            <Badge variant="outline" className="rounded-full text-[11px]">
+              {SEASON_LABELS[liturgy.season]}
+            </Badge>
+          )}
+          {color && (
+            <Badge variant="outline" className="gap-1.5 rounded-full text-[11px]">
+              <span className={cn('h-2.5 w-2.5 rounded-full border', color.className)} />
+              {color.label}
+            </Badge>
+          )}
+          <Badge variant="outline" className="rounded-full text-[11px]">
+            Tahun {liturgy.sunday_cycle} / {liturgy.weekday_cycle}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {readings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Bacaan harian untuk hari ini belum tersedia. Silakan lihat kalender liturgi paroki Anda.
+          </p>
+        ) : (
+          readings.map((item) => (
+            <ReadingLink
+              key={item.key}
+              label={item.label}
+              reference={item.reference}
+              books={scopedBooks}
+              versionCode={versionCode}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReadingLink({
+  label,
+  reference,
+  books,
+  versionCode,
+}: {
+  label: string;
+  reference: string;
+  books: BibleBook[];
+  versionCode: string;
+}) {
+  const match = parseLectionaryReference(reference, books);
+  const content = (
+    <>
+      <div>
+        <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+          {label}
+        </p>
+        <p className="text-sm font-medium">{reference}</p>
+      </div>
+      {match && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+    </>
+  );
+
+  if (!match) {
+    return (
+      <div className="flex items-center justify-between rounded-xl border border-border/70 px-3 py-2">
+        {content}
+      </div>
+    );
+  }
+
+  const query = new URLSearchParams();
+  query.set('lang', 'id');
+  query.set('ver', versionCode);
+  query.set('scope', match.book.testament);
+  if (match.verseStart) {
+    query.set('verse', match.verseStart.toString());
+  }
+
+  return (
+    <Link
+      href={`/bible/${encodeURIComponent(match.book.id)}/${match.chapter}?${query.toString()}`}
+      className="flex items-center justify-between rounded-xl border border-border/70 px-3 py-2 transition hover:bg-muted/50"
+    >
+      {content}
+    </Link>
+  );
+}
@@ -0,0 +1,238 @@
+// Notification Feed Component
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { AlarmClock, AtSign, BarChart3, Bell, CalendarCheck, Heart, Loader2, MessageCircle, MessageSquare, UserPlus, X } from 'lucide-react';
+import {
+  formatNotificationGroupSummary,
+  NOTIFICATION_FILTER_LABELS,
+} from '@/lib/features/notifications/notification-grouping';
+import { getNotificationHref } from '@/lib/features/notifications/notification-preferences';
+import {
+  useDeleteNotificationGroup,
+  useMarkNotificationGroupRead,
+  useNotificationFeed,
+} from '@/lib/features/notifications/use-notifications';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { Notification, NotificationFilter, NotificationGroup } from '@/lib/types';
+
+const FILTERS = Object.keys(NOTIFICATION_FILTER_LABELS) as NotificationFilter[];
+const PAGE_CARD_CLASS = 'rounded-xl border border-border/70 bg-card shadow-sm';
+
+export function getNotificationIcon(type: Notification['type']) {
+  switch (type) {
+    case 'like':
+      return <Heart className="h-4 w-4 text-destructive" />;
+    case 'comment':
+      return <MessageSquare className="h-4 w-4 text-ring" />;
+    case 'follow':
+      return <UserPlus className="h-4 w-4 text-success" />;
+    case 'mention':
+      return <AtSign className="h-4 w-4 text-primary" />;
+    case 'radar_invite':
+    case 'mass_invite':
+    case 'radar_waitlist_promoted':
+      return <CalendarCheck className="h-4 w-4 text-primary" />;
+    case 'chat_message':
+      return <MessageCircle className="h-4 w-4 text-ring" />;
+    case 'poll_closed':
+      return <BarChart3 className="h-4 w-4 text-primary" />;
+    case 'radar_reminder':
+      return <AlarmClock className="h-4 w-4 text-primary" />;
+    default:
+      return <Bell className="h-4 w-4 text-muted-foreground" />;
+  }
+}
+
+function getInitials(name?: string) {
+  return (
+    name
+      ?.split(' ')
+      .map((chunk) => chunk[0])
+      .join('')
+      .toUpperCase()
+      .slice(0, 2) || 'NT'
+  );
+}
+
+export function NotificationFilterTabs({
+  value,
+  onChange,
+}: {
+  value: NotificationFilter;
+  onChange: (value: NotificationFilter) => void;
+}) {
+  return (
+    <div className="flex gap-1 overflow-x-auto">
+      {FILTERS.map((filter) => (
+        <Button
+          key={filter}
+          type="button"
+          size="sm"
+          variant={value === filter ? 'default' : 'ghost'}
+          className="h-8 rounded-full px-3 text-xs"
+          onClick={() => onChange(filter)}
+        >
+          {NOTIFICATION_FILTER_LABELS[filter]}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function NotificationFeed({
+  filter,
+  variant = 'page',
+  onNavigate,
+}: {
+  filter: NotificationFilter;
+  variant?: 'page' | 'panel';
+  onNavigate?: () => void;
+}) {
+  const router = useRouter();
+  const { groups, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useNotificationFeed(filter);
+  const { mutate: markGroupRead } = useMarkNotificationGroupRead();
+  const { mutate: removeGroup } = useDeleteNotificationGroup();
+
+  if (isLoading) {
+    return (
+      <div
+        className={cn(
+          'flex items-center justify-center gap-2 p-10 text-sm text-muted-foreground',
+          variant === 'page' && PAGE_CARD_CLASS
+        )}
+      >
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Memuat notifikasi...
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className={cn('p-12 text-center', variant === 'page' && PAGE_CARD_CLASS)}>
+        <Bell className="mx-auto mb-3 h-10 w-10 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          {filter === 'all' ? 'Belum ada notifikasi' : `Belum ada notifikasi ${NOTIFICATION_FILTER_LABELS[filter].toLowerCase()}`}
+        </p>
+      </div>
+    );
+  }
+
+  const openGroup = (group: NotificationGroup) => {
+    if (!group.is_read) markGroupRead(group);
+    onNavigate?.();
+    router.push(getNotificationHref(group.notifications[0]));
+  };
+
+  return (
+    <div className={cn(variant === 'page' && 'space-y-2')}>
+      {groups.map((group) => (
+        <NotificationGroupRow
+          key={group.key}
+          group={group}
+          variant={variant}
+          onOpen={() => openGroup(group)}
+          onRemove={() => removeGroup(group)}
+        />
+      ))}
+      {hasNextPage && (
+        <div className="flex justify-center p-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Muat lebih banyak
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NotificationGroupRow({
+  group,
+  variant,
+  onOpen,
+  onRemove,
+}: {
+  group: NotificationGroup;
+  variant: 'page' | 'panel';
+  onOpen: () => void;
+  onRemove: () => void;
+}) {
+  const [latest] = group.notifications;
+  const actors = group.actors.length > 0 ? group.actors.slice(0, 2) : [latest.sender].filter(Boolean);
+  const heading =
+    group.notifications.length === 1 ? latest.sender?.full_name || latest.title : latest.title;
+
+  return (
+    <div
+      className={cn(
+        'flex w-full items-start gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/40',
+        variant === 'panel'
+          ? 'border-b last:border-b-0'
+          : PAGE_CARD_CLASS,
+        !group.is_read && 'bg-primary/10'
+      )}
+    >
+      <div className="relative h-10 w-10 shrink-0">
+        {actors.length > 1 ? (
+          actors.map((actor, index) => (
+            <Avatar
+              key={actor!.id}
+              className={cn(
+                'absolute h-7 w-7 border-2 border-card',
+                index === 0 ? 'left-0 top-0' : 'bottom-0 right-0'
+              )}
+            >
+              <AvatarImage src={actor!.avatar_url} alt={actor!.full_name || ''} />
+              <AvatarFallback className="text-[10px]">{getInitials(actor!.full_name)}</AvatarFallback>
+            </Avatar>
+          ))
+        ) : (
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={actors[0]?.avatar_url} alt={actors[0]?.full_name || ''} />
+            <AvatarFallback>{getInitials(actors[0]?.full_name)}</AvatarFallback>
+          </Avatar>
+        )}
+      </div>
+
+      <button type="button" className="min-w-0 flex-1 text-left" onClick={onOpen}>
+        <div className="flex items-center gap-2">
+          {getNotificationIcon(group.type)}
+          <p className="truncate text-sm font-semibold">{heading}</p>
+          {group.unread_count > 1 && (
+            <span className="rounded-full bg-primary px-1.5 text-[10px] font-semibold text-primary-foreground">
+              {group.unread_count}
+            </span>
+          )}
+        </div>
+        <p className="mt-1 text-sm text-muted-foreground">{formatNotificationGroupSummary(group)}</p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(group.created_at), {
+            addSuffix: true,
+            locale: id,
+          })}
+        </p>
+      </button>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label={group.notifications.length > 1 ? 'Hapus grup notifikasi' : 'Hapus notifikasi'}
+        onClick={onRemove}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -2,46 +2,26 @@
 
 'use client';
 
-import { formatDistanceToNow } from 'date-fns';
-import { id } from 'date-fns/locale';
-import { Bell, Heart, Loader2, MessageSquare, UserPlus, X } from 'lucide-react';
+import { useState } from 'react';
+import { X } from 'lucide-react';
 import { useUIStore } from '@/lib/store/ui-store';
 import {
-  useDeleteNotification,
   useMarkAllNotificationsRead,
-  useMarkNotificationRead,
-  useNotifications,
+  useUnreadNotificationCount,
 } from '@/lib/features/notifications/use-notifications';
+import { NotificationFeed, NotificationFilterTabs } from '@/components/notifications/notification-feed';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { cn } from '@/lib/utils';
-import type { Notification } from '@/lib/types';
-
-function getNotificationIcon(type: Notification['type']) {
-  switch (type) {
-    case 'like':
-      return <Heart className="h-4 w-4 text-destructive" />;
-    case 'comment':
-      return <MessageSquare className="h-4 w-4 text-ring" />;
-    case 'follow':
-      return <UserPlus className="h-4 w-4 text-success" />;
-    default:
-      return <Bell className="h-4 w-4 text-muted-foreground" />;
-  }
-}
+import type { NotificationFilter } from '@/lib/types';
 
 export function NotificationPanel() {
   const { isNotificationsOpen, closeNotifications } = useUIStore();
-  const { data: notifications = [], isLoading } = useNotifications(30);
-  const { mutate: markAsRead } = useMarkNotificationRead();
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
   const { mutate: markAllRead, isPending: isMarkingAll } = useMarkAllNotificationsRead();
-  const { mutate: removeNotification } = useDeleteNotification();
 
   if (!isNotificationsOpen) return null;
 
-  const unreadCount = notifications.filter((notification) => !notification.is_read).length;
-
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/45 p-4">
       <Card className="w-full max-w-lg overflow-hidden border-border/70 bg-card shadow-lg">
@@ -67,75 +47,12 @@ export function NotificationPanel() {
             </div>
           </div>
 
-          <div className="max-h-[70vh] overflow-y-auto">
-            {isLoading ? (
-              <div className="flex items-center justify-center gap-2 p-10 text-sm text-muted-foreground">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                Memuat notifikasi...
-              </div>
-            ) : notifications.length === 0 ? (
-              <div className="p-12 text-center">
-                <Bell className="mx-auto mb-3 h-10 w-10 text-muted-foreground" />
-                <p className="text-sm text-muted-foreground">Belum ada notifikasi</p>
-              </div>
-            ) : (
-              notifications.map((notification) => (
-                <button
-                  key={notification.id}
-                  type="button"
-                  onClick={() => {
-                    if (!notification.is_read) {
-                      markAsRead(notification.id);
-                    }
-                  }}
-                  className={cn(
-                    'flex w-full items-start gap-3 border-b px-4 py-3 text-left transition-colors last:border-b-0 hover:bg-muted/40',
-                    !notification.is_read && 'bg-primary/10'
-                  )}
-                >
-                  <Avatar className="h-10 w-10">
-                    <AvatarImage src={notification.sender?.avatar_url} alt={notification.sender?.full_name || ''} />
-                    <AvatarFallback>
-                      {notification.sender?.full_name
-                        ?.split(' ')
-                        .map((chunk) => chunk[0])
-                        .join('')
-                        .toUpperCase()
-                        .slice(0, 2) || 'NT'}
-                    </AvatarFallback>
-                  </Avatar>
-
-                  <div className="min-w-0 flex-1">
-                    <div className="flex items-center gap-2">
-                      {getNotificationIcon(notification.type)}
-                      <p className="truncate text-sm font-semibold">
-                        {notification.sender?.full_name || notification.title}
-                      </p>
-                    </div>
-                    <p className="mt-1 text-sm text-muted-foreground">
-                      {notification.message || notification.title}
-                    </p>
-                    <p className="mt-1 text-xs text-muted-foreground">
-                      {formatDistanceToNow(new Date(notification.created_at), {
-                        addSuffix: true,
-                        locale: id,
-                      })}
-                    </p>
-                  </div>
+          <div className="border-b px-4 py-2">
+            <NotificationFilterTabs value={filter} onChange={setFilter} />
+          </div>
 
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      removeNotification(notification.id);
-                    }}
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </button>
-              ))
-            )}
+          <div className="max-h-[70vh] overflow-y-auto">
+            <NotificationFeed filter={filter} variant="panel" onNavigate={closeNotifications} />
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,178 @@
+// Create Poll Dialog
+
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { POLL_SETTINGS } from '@/lib/constants';
+import { validatePollDraft } from '@/lib/features/polls/poll-results';
+import type { PollDraft } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+
+function formatDurationLabel(hours: number) {
+  if (hours < 24) return `${hours} jam`;
+  if (hours % 168 === 0) return `${hours / 168} minggu`;
+  return `${hours / 24} hari`;
+}
+
+export function CreatePollDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  isSubmitting = false,
+  submitLabel = 'Kirim Polling',
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (draft: PollDraft) => void | Promise<void>;
+  isSubmitting?: boolean;
+  submitLabel?: string;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg border-border bg-card text-foreground">
+        <DialogHeader>
+          <DialogTitle>Buat Polling</DialogTitle>
+          <DialogDescription>Ajukan pertanyaan dan biarkan anggota memilih jawabannya.</DialogDescription>
+        </DialogHeader>
+        <CreatePollForm onSubmit={onSubmit} isSubmitting={isSubmitting} submitLabel={submitLabel} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Mounted with the dialog content, so every opening starts from an empty draft.
+function CreatePollForm({
+  onSubmit,
+  isSubmitting,
+  submitLabel,
+}: {
+  onSubmit: (draft: PollDraft) => void | Promise<void>;
+  isSubmitting: boolean;
+  submitLabel: string;
+}) {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [allowMultiple, setAllowMultiple] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [durationHours, setDurationHours] = useState<number | null>(24);
+
+  const updateOption = (index: number, value: string) => {
+    setOptions((current) => current.map((option, cursor) => (cursor === index ? value : option)));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const draft: PollDraft = {
+      question,
+      options,
+      allow_multiple: allowMultiple,
+      is_anonymous: isAnonymous,
+      closes_at:
+        durationHours === null ? undefined : new Date(Date.now() + durationHours * 60 * 60 * 1000).toISOString(),
+    };
+
+    const validationError = validatePollDraft(draft);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+    void onSubmit(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Input
+        value={question}
+        onChange={(event) => setQuestion(event.target.value)}
+        placeholder="Contoh: Misa jam berapa?"
+        maxLength={POLL_SETTINGS.QUESTION_MAX_LENGTH}
+        disabled={isSubmitting}
+      />
+
+      <div className="space-y-2">
+        {options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={option}
+              onChange={(event) => updateOption(index, event.target.value)}
+              placeholder={`Pilihan ${index + 1}`}
+              maxLength={POLL_SETTINGS.OPTION_MAX_LENGTH}
+              disabled={isSubmitting}
+            />
+            {options.length > POLL_SETTINGS.MIN_OPTIONS && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => setOptions((current) => current.filter((_, cursor) => cursor !== index))}
+                disabled={isSubmitting}
+                aria-label={`Hapus pilihan ${index + 1}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {options.length < POLL_SETTINGS.MAX_OPTIONS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setOptions((current) => [...current, ''])}
+            disabled={isSubmitting}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Tambah pilihan
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-border p-3 text-sm">
+        <label className="flex items-center justify-between gap-3">
+          <span>Boleh pilih lebih dari satu</span>
+          <Switch checked={allowMultiple} onCheckedChange={setAllowMultiple} disabled={isSubmitting} />
+        </label>
+        <label className="flex items-center justify-between gap-3">
+          <span>
+            Anonim
+            <span className="block text-xs text-muted-foreground">Nama pemilih tidak ditampilkan</span>
+          </span>
+          <Switch checked={isAnonymous} onCheckedChange={setIsAnonymous} disabled={isSubmitting} />
+        </label>
+        <label className="flex items-center justify-between gap-3">
+          <span>Ditutup setelah</span>
+          <select
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            value={durationHours ?? ''}
+            onChange={(event) => setDurationHours(event.target.value ? Number(event.target.value) : null)}
+            disabled={isSubmitting}
+          >
+            <option value="">Tanpa batas</option>
+            {POLL_SETTINGS.DURATION_PRESETS_HOURS.map((hours) => (
+              <option key={hours} value={hours}>
+                {formatDurationLabel(hours)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
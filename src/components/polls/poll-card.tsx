@@ -0,0 +1,196 @@
+// Poll Card
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { BarChart3, Check, Loader2, Lock } from 'lucide-react';
+import { useAuth } from '@/lib/features/auth/use-auth';
+import { formatPollSummary } from '@/lib/features/polls/poll-results';
+import { useClosePoll, usePollResults, useVotePoll } from '@/lib/features/polls/use-polls';
+import type { PollOptionResult } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+const VOTER_PREVIEW_LIMIT = 3;
+
+function formatVoterNames(result: PollOptionResult) {
+  const names = result.voters.map((voter) => voter.full_name || 'Umat');
+  const shown = names.slice(0, VOTER_PREVIEW_LIMIT).join(', ');
+  const rest = names.length - VOTER_PREVIEW_LIMIT;
+  return rest > 0 ? `${shown} +${rest}` : shown;
+}
+
+export function PollCard({ pollId, isMine = false }: { pollId: string; isMine?: boolean }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: results, isLoading } = usePollResults(pollId);
+  const { mutate: vote, isPending: isVoting } = useVotePoll(pollId);
+  const { mutate: closePoll, isPending: isClosing } = useClosePoll(pollId);
+  const [pendingSelection, setPendingSelection] = useState<string[] | null>(null);
+
+  const poll = results?.poll;
+  const closesAt = poll?.closes_at;
+  const closedAt = poll?.closed_at;
+
+  // Polls past their deadline render as closed; the close itself is recorded by the
+  // scheduled job. Refetch at the deadline so an open card flips without a reload.
+  useEffect(() => {
+    if (!closesAt || closedAt) return;
+
+    const delay = new Date(closesAt).getTime() - Date.now();
+    if (delay <= 0 || delay > MAX_TIMER_DELAY_MS) return;
+    const timer = setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: ['poll', pollId] });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [closedAt, closesAt, pollId, queryClient]);
+
+  if (isLoading) {
+    return (
+      <div className="mb-2 flex min-w-[220px] items-center gap-2 text-xs opacity-80">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Memuat polling...
+      </div>
+    );
+  }
+
+  if (!results || !poll) {
+    return <p className="mb-2 text-xs italic opacity-80">Polling tidak tersedia.</p>;
+  }
+
+  const isCreator = poll.creator_id === user?.id;
+  const hasVoted = results.my_option_ids.length > 0;
+  const showResults = hasVoted || results.is_closed || isCreator;
+  const selection = pendingSelection ?? results.my_option_ids;
+  const canVote = Boolean(user?.id) && !results.is_closed && !isVoting;
+
+  const handleOptionClick = (optionId: string) => {
+    if (!canVote) return;
+    if (poll.allow_multiple) {
+      setPendingSelection(
+        selection.includes(optionId) ? selection.filter((id) => id !== optionId) : [...selection, optionId]
+      );
+      return;
+    }
+    // Tapping the current choice again withdraws the vote.
+    vote(results.my_option_ids.includes(optionId) ? [] : [optionId]);
+  };
+
+  const submitSelection = () => {
+    if (!pendingSelection) return;
+    vote(pendingSelection, { onSuccess: () => setPendingSelection(null) });
+  };
+
+  return (
+    <div
+      className={cn(
+        'mb-2 min-w-[240px] space-y-2 rounded-xl border p-3',
+        isMine ? 'border-white/25 bg-white/10' : 'border-border bg-card'
+      )}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <div className="flex items-start gap-2">
+        <BarChart3 className="mt-0.5 h-4 w-4 shrink-0" />
+        <p className="text-sm font-semibold leading-snug">{poll.question}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <Badge variant="secondary" className="text-[10px]">
+          {poll.allow_multiple ? 'Pilihan ganda' : 'Satu pilihan'}
+        </Badge>
+        {poll.is_anonymous && (
+          <Badge variant="secondary" className="text-[10px]">
+            Anonim
+          </Badge>
+        )}
+      </div>
+
+      <div className="space-y-1.5">
+        {results.options.map((result) => {
+          const isSelected = selection.includes(result.option.id);
+          return (
+            <button
+              key={result.option.id}
+              type="button"
+              onClick={() => handleOptionClick(result.option.id)}
+              disabled={!canVote}
+              className={cn(
+                'relative block w-full overflow-hidden rounded-lg border px-3 py-2 text-left text-sm transition-colors disabled:cursor-default',
+                isMine ? 'border-white/30' : 'border-border',
+                isSelected && (isMine ? 'border-white' : 'border-accent')
+              )}
+            >
+              {showResults && (
+                <span
+                  className={cn(
+                    'absolute inset-y-0 left-0 transition-all',
+                    isMine ? 'bg-white/20' : result.is_leading ? 'bg-accent/20' : 'bg-muted'
+                  )}
+                  style={{ width: `${result.percent}%` }}
+                  aria-hidden
+                />
+              )}
+              <span className="relative flex items-center gap-2">
+                <span
+                  className={cn(
+                    'flex h-4 w-4 shrink-0 items-center justify-center border',
+                    poll.allow_multiple ? 'rounded' : 'rounded-full',
+                    isSelected ? (isMine ? 'border-white bg-white text-accent' : 'border-accent bg-accent text-white') : ''
+                  )}
+                >
+                  {isSelected && <Check className="h-3 w-3" />}
+                </span>
+                <span className="min-w-0 flex-1 break-words">{result.option.label}</span>
+                {showResults && <span className="shrink-0 text-xs font-semibold">{result.percent}%</span>}
+              </span>
+              {showResults && result.voters.length > 0 && (
+                <span className={cn('relative mt-1 block pl-6 text-[11px]', isMine ? 'text-white/75' : 'text-muted-foreground')}>
+                  {formatVoterNames(result)}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {pendingSelection && (
+        <Button type="button" size="sm" className="w-full" onClick={submitSelection} disabled={isVoting}>
+          {isVoting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Kirim pilihan
+        </Button>
+      )}
+
+      <div className={cn('flex flex-wrap items-center justify-between gap-2 text-[11px]', isMine ? 'text-white/75' : 'text-muted-foreground')}>
+        <span>
+          {results.is_closed ? (
+            <span className="inline-flex items-center gap-1">
+              <Lock className="h-3 w-3" />
+              Ditutup · {formatPollSummary(results)}
+            </span>
+          ) : (
+            <>
+              {results.total_voters} suara
+              {poll.closes_at &&
+                ` · berakhir ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true, locale: id })}`}
+            </>
+          )}
+        </span>
+        {isCreator && !results.is_closed && (
+          <button
+            type="button"
+            onClick={() => closePoll()}
+            disabled={isClosing}
+            className="font-semibold underline-offset-2 hover:underline"
+          >
+            {isClosing ? 'Menutup...' : 'Tutup polling'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+// Radar Attendance Card
+
+'use client';
+
+import { useMemo } from 'react';
+import { Download, Loader2, QrCode } from 'lucide-react';
+import { toast } from 'sonner';
+import { encodeQrCode, toQrSvgPath } from '@/lib/features/radar/qr-code';
+import { buildAttendanceCsv, formatAttendanceCode, isAttendanceOpen } from '@/lib/features/radar/radar-attendance';
+import { useRadarAttendance, useRadarAttendanceCode } from '@/lib/features/radar/use-radar';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+
+const QR_MARGIN = 4;
+
+function formatCheckInTime(value: string, timeZone?: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '-';
+  return new Intl.DateTimeFormat('id-ID', { timeZone, hour: '2-digit', minute: '2-digit' }).format(date);
+}
+
+function AttendanceQr({ value }: { value: string }) {
+  const qr = useMemo(() => {
+    const matrix = encodeQrCode(value);
+    return { size: matrix.size + QR_MARGIN * 2, path: toQrSvgPath(matrix, QR_MARGIN) };
+  }, [value]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${qr.size} ${qr.size}`}
+      className="h-56 w-56 rounded-lg bg-white"
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR kehadiran"
+    >
+      <path d={qr.path} fill="#000" />
+    </svg>
+  );
+}
+
+export function RadarAttendanceCard({
+  radarId,
+  title,
+  startsAt,
+  timeZone,
+}: {
+  radarId: string;
+  title: string;
+  startsAt: string;
+  timeZone?: string;
+}) {
+  const isOpen = isAttendanceOpen(startsAt);
+  const { data: codePayload, isLoading: isLoadingCode, error: codeError } = useRadarAttendanceCode(radarId, isOpen);
+  const { data: attendance = [], isLoading: isLoadingAttendance } = useRadarAttendance(radarId, {
+    refetchInterval: isOpen ? 15_000 : undefined,
+  });
+
+  const handleExport = () => {
+    const csv = buildAttendanceCsv(attendance, timeZone);
+    // The BOM lets spreadsheet apps read the names as UTF-8.
+    const blob = new Blob([`\uFEFF${csv}`], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `kehadiran-${title.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || radarId}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    toast.success('Daftar hadir berhasil diunduh');
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-4">
+        <div className="flex items-start gap-3">
+          <div className="rounded-lg bg-primary/10 p-2 text-primary">
+            <QrCode className="h-4 w-4" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold">Konfirmasi kehadiran</p>
+            <p className="text-sm text-muted-foreground">
+              {isOpen
+                ? 'Minta peserta memindai QR ini atau mengetik kodenya. Kode berganti setiap menit.'
+                : 'QR kehadiran tersedia satu jam sebelum misa dimulai.'}
+            </p>
+          </div>
+        </div>
+
+        {isOpen && (
+          <div className="flex flex-col items-center gap-2">
+            {isLoadingCode ? (
+              <div className="flex h-56 w-56 items-center justify-center rounded-lg border">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : codePayload ? (
+              <>
+                <AttendanceQr value={codePayload.url} />
+                <p className="font-mono text-2xl font-semibold tracking-widest">
+                  {formatAttendanceCode(codePayload.code)}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-destructive">
+                {codeError instanceof Error ? codeError.message : 'Kode kehadiran tidak tersedia'}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              Hadir ({attendance.length})
+            </p>
+            <Button variant="outline" size="sm" disabled={attendance.length === 0} onClick={handleExport}>
+              <Download className="mr-2 h-4 w-4" />
+              Ekspor CSV
+            </Button>
+          </div>
+          {isLoadingAttendance ? (
+            <p className="text-sm text-muted-foreground">Memuat daftar hadir...</p>
+          ) : attendance.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Belum ada peserta yang mengonfirmasi kehadiran.</p>
+          ) : (
+            <ul className="space-y-2">
+              {attendance.map((row) => (
+                <li key={row.user_id} className="flex items-center gap-3 text-sm">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={row.profile?.avatar_url} />
+                    <AvatarFallback>{(row.profile?.full_name || 'U').charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <span className="min-w-0 flex-1 truncate">{row.profile?.full_name || 'Umat'}</span>
+                  <Badge variant="outline">{row.method === 'QR' ? 'QR' : 'Kode'}</Badge>
+                  <span className="text-muted-foreground">{formatCheckInTime(row.checked_in_at, timeZone)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+// Radar Attendance Scanner
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Camera, Loader2 } from 'lucide-react';
+import { parseAttendanceScan } from '@/lib/features/radar/radar-attendance';
+import { useConfirmRadarAttendance } from '@/lib/features/radar/use-radar';
+import type { RadarAttendanceMethod } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+
+// BarcodeDetector ships in Chromium-based browsers but is not in the DOM lib yet.
+type BarcodeDetectorLike = {
+  detect: (source: HTMLVideoElement) => Promise<Array<{ rawValue: string }>>;
+};
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 400;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+export function RadarAttendanceScanner({
+  radarId,
+  open,
+  onOpenChange,
+  onConfirmed,
+}: {
+  radarId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirmed?: (result: { checkedInAt: string; alreadyConfirmed: boolean }) => void;
+}) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [manualCode, setManualCode] = useState('');
+  const [cameraError, setCameraError] = useState('');
+  const [scanError, setScanError] = useState('');
+  const confirmAttendance = useConfirmRadarAttendance();
+  const { mutate: confirm, isPending } = confirmAttendance;
+  const canScan = Boolean(getBarcodeDetector()) && typeof navigator !== 'undefined' && !!navigator.mediaDevices;
+
+  const submit = (code: string, method: RadarAttendanceMethod) => {
+    confirm(
+      { radarId, code, method },
+      {
+        onSuccess: (result) => {
+          onConfirmed?.(result);
+          onOpenChange(false);
+        },
+      }
+    );
+  };
+
+  // The scan loop reads the latest submit through a ref so a parent re-render
+  // does not restart the camera.
+  const submitRef = useRef(submit);
+  useEffect(() => {
+    submitRef.current = submit;
+  });
+
+  // The camera only runs while the dialog is open and stops once a code is read.
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!open || !Detector || !navigator.mediaDevices?.getUserMedia) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const stop = () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      try {
+        const results = video.readyState >= 2 ? await detector.detect(video) : [];
+        for (const result of results) {
+          const code = parseAttendanceScan(result.rawValue, radarId);
+          if (code) {
+            stop();
+            submitRef.current(code, 'QR');
+            return;
+          }
+          setScanError('QR ini bukan untuk radar ini.');
+        }
+      } catch {
+        // A frame that cannot be decoded is not an error; try the next one.
+      }
+      if (!cancelled) timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        await video.play().catch(() => undefined);
+        void scan();
+      })
+      .catch(() => {
+        setCameraError('Kamera tidak dapat diakses. Masukkan kode dari layar host.');
+      });
+
+    return stop;
+  }, [open, radarId]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setManualCode('');
+      setCameraError('');
+      setScanError('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleManualSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const code = parseAttendanceScan(manualCode, radarId);
+    if (!code) {
+      setScanError('Kode terdiri dari 8 huruf atau angka.');
+      return;
+    }
+    submit(code, 'MANUAL');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Konfirmasi Kehadiran</DialogTitle>
+          <DialogDescription>Pindai QR di layar host atau ketik kodenya.</DialogDescription>
+        </DialogHeader>
+
+        {canScan && !cameraError ? (
+          <div className="relative overflow-hidden rounded-lg bg-black">
+            <video ref={videoRef} className="aspect-square w-full object-cover" muted playsInline />
+            {isPending && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+                <Loader2 className="h-6 w-6 animate-spin text-white" />
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 rounded-lg border p-3 text-sm text-muted-foreground">
+            <Camera className="h-4 w-4 shrink-0" />
+            {cameraError || 'Browser ini belum bisa memindai QR. Masukkan kode dari layar host.'}
+          </div>
+        )}
+
+        <form className="flex gap-2" onSubmit={handleManualSubmit}>
+          <Input
+            value={manualCode}
+            onChange={(event) => {
+              setManualCode(event.target.value);
+              setScanError('');
+            }}
+            placeholder="ABCD-2345"
+            autoCapitalize="characters"
+            autoComplete="off"
+            className="font-mono uppercase tracking-widest"
+            maxLength={12}
+          />
+          <Button type="submit" disabled={isPending || !manualCode.trim()}>
+            {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Kirim'}
+          </Button>
+        </form>
+        {scanError && <p className="text-sm text-destructive">{scanError}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+// Radar Series Card
+
+'use client';
+
+import Link from 'next/link';
+import { CalendarX, Loader2, Repeat } from 'lucide-react';
+import { describeSeriesRule } from '@/lib/features/radar/radar-recurrence';
+import {
+  useCancelRadarOccurrence,
+  useRadarSeries,
+  useRadarSeriesFollow,
+  useSetRadarSeriesFollow,
+} from '@/lib/features/radar/use-radar';
+import type { RadarSource } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+
+const UPCOMING_LIMIT = 6;
+
+function formatOccurrenceLabel(value: string, timeZone: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '-';
+  return new Intl.DateTimeFormat('id-ID', {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+}
+
+export function RadarSeriesCard({
+  seriesId,
+  currentRadarId,
+  currentSource,
+  isHost,
+  isCancelled,
+}: {
+  seriesId: string;
+  currentRadarId: string;
+  currentSource: RadarSource;
+  isHost: boolean;
+  isCancelled: boolean;
+}) {
+  const { data: detail, isLoading } = useRadarSeries(seriesId);
+  const { data: isFollowing = false } = useRadarSeriesFollow(isHost ? undefined : seriesId);
+  const setFollow = useSetRadarSeriesFollow();
+  const cancelOccurrence = useCancelRadarOccurrence();
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Memuat radar berulang...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!detail) return null;
+
+  const { series, schedule, occurrences } = detail;
+  const now = Date.now();
+  const upcoming = occurrences
+    .filter((event) => new Date(event.event_starts_at_utc).getTime() >= now)
+    .slice(0, UPCOMING_LIMIT);
+
+  const handleCancel = () => {
+    if (!window.confirm('Batalkan pertemuan ini? Pertemuan lain dalam seri tetap berjalan.')) return;
+    cancelOccurrence.mutate({ radarId: currentRadarId, source: currentSource, seriesId });
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-4 p-4">
+        <div className="flex items-start gap-3">
+          <div className="rounded-lg bg-primary/10 p-2 text-primary">
+            <Repeat className="h-4 w-4" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="font-semibold">Radar berulang</p>
+            <p className="text-sm text-muted-foreground">
+              {schedule ? describeSeriesRule(series, schedule) : 'Jadwal misa tidak ditemukan'}
+            </p>
+          </div>
+        </div>
+
+        {!isHost && (
+          <label className="flex items-center justify-between gap-3 rounded-lg border p-3 text-sm">
+            <span>
+              <span className="block font-medium">Ikut semua</span>
+              <span className="text-muted-foreground">Otomatis bergabung ke setiap pertemuan berikutnya.</span>
+            </span>
+            <Switch
+              checked={isFollowing}
+              disabled={setFollow.isPending}
+              onCheckedChange={(checked) => setFollow.mutate({ seriesId, enabled: checked })}
+            />
+          </label>
+        )}
+
+        {upcoming.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Pertemuan berikutnya</p>
+            <ul className="space-y-1">
+              {upcoming.map((event) => (
+                <li key={event.id}>
+                  <Link
+                    href={`/radar/${event.id}`}
+                    className={`flex items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-muted ${
+                      event.id === currentRadarId ? 'bg-muted font-medium' : ''
+                    }`}
+                  >
+                    <span className={event.status === 'CANCELLED' ? 'text-muted-foreground line-through' : ''}>
+                      {formatOccurrenceLabel(event.event_starts_at_utc, series.timezone)}
+                    </span>
+                    {event.status === 'CANCELLED' && <Badge variant="outline">Dibatalkan</Badge>}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {isHost && !isCancelled && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full text-destructive"
+            disabled={cancelOccurrence.isPending}
+            onClick={handleCancel}
+          >
+            {cancelOccurrence.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CalendarX className="mr-2 h-4 w-4" />
+            )}
+            Batalkan pertemuan ini
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+// Nearby Churches Panel
+
+'use client';
+
+import { useState } from 'react';
+import { Clock, Loader2, LocateFixed, MapPin, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceLabel, type GeoPoint } from '@/lib/features/schedule/geo';
+import { formatStartsInLabel } from '@/lib/features/schedule/mass-occurrence';
+import { ScheduleService } from '@/lib/features/schedule/schedule-service';
+import { useNearbyChurches } from '@/lib/features/schedule/use-schedule';
+import type { NearbyChurch } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+
+const DAY_LABELS = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+const RADIUS_OPTIONS = [5, 10, 25, 50];
+const WITHIN_HOURS_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'Kapan saja' },
+  { value: 2, label: '2 jam' },
+  { value: 6, label: '6 jam' },
+  { value: 12, label: '12 jam' },
+  { value: 24, label: '24 jam' },
+];
+
+export function NearbyChurchesPanel({ onSelectChurch }: { onSelectChurch: (churchId: string) => void }) {
+  const [center, setCenter] = useState<GeoPoint | null>(null);
+  const [centerLabel, setCenterLabel] = useState('');
+  const [addressQuery, setAddressQuery] = useState('');
+  const [radiusKm, setRadiusKm] = useState(10);
+  const [withinHours, setWithinHours] = useState<number | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const { data: churches = [], isLoading } = useNearbyChurches({
+    center,
+    radiusKm,
+    withinHours: withinHours ?? undefined,
+  });
+
+  const handleUseMyLocation = () => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      toast.error('Browser tidak mendukung lokasi. Ketik nama kota atau alamat.');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCenter({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setCenterLabel('Lokasi Anda saat ini');
+        setIsLocating(false);
+      },
+      () => {
+        toast.error('Izin lokasi ditolak. Ketik nama kota atau alamat.');
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const handleSearchAddress = async () => {
+    const query = addressQuery.trim();
+    if (query.length < 3) {
+      toast.info('Ketik minimal 3 karakter nama kota atau alamat.');
+      return;
+    }
+
+    setIsLocating(true);
+    try {
+      const point = await ScheduleService.locateByAddress(query);
+      if (!point) {
+        toast.error('Lokasi tidak ditemukan dari data gereja.');
+        return;
+      }
+      setCenter(point);
+      setCenterLabel(`Sekitar "${query}"`);
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="space-y-3 p-4">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Button variant="outline" onClick={handleUseMyLocation} disabled={isLocating}>
+              {isLocating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <LocateFixed className="mr-2 h-4 w-4" />
+              )}
+              Gunakan Lokasi Saya
+            </Button>
+            <form
+              className="flex flex-1 gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                void handleSearchAddress();
+              }}
+            >
+              <Input
+                value={addressQuery}
+                onChange={(event) => setAddressQuery(event.target.value)}
+                placeholder="Atau ketik kota / alamat"
+              />
+              <Button type="submit" variant="secondary" disabled={isLocating}>
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              <span className="text-muted-foreground">Radius</span>
+              <select
+                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                value={radiusKm}
+                onChange={(event) => setRadiusKm(Number(event.target.value))}
+              >
+                {RADIUS_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option} km
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-muted-foreground">Misa dalam</span>
+              <select
+                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                value={withinHours ?? ''}
+                onChange={(event) =>
+                  setWithinHours(event.target.value ? Number(event.target.value) : null)
+                }
+              >
+                {WITHIN_HOURS_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.value ?? ''}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {centerLabel && <p className="text-xs text-muted-foreground">{centerLabel}</p>}
+        </CardContent>
+      </Card>
+
+      {!center ? (
+        <Card className="p-8 text-center text-sm text-muted-foreground">
+          Aktifkan lokasi atau ketik kota untuk mencari gereja terdekat.
+        </Card>
+      ) : isLoading ? (
+        <Card className="flex items-center justify-center gap-2 p-8 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Mencari gereja terdekat...
+        </Card>
+      ) : churches.length === 0 ? (
+        <Card className="p-8 text-center text-sm text-muted-foreground">
+          Tidak ada gereja dalam radius {radiusKm} km
+          {withinHours ? ` dengan misa dalam ${withinHours} jam ke depan` : ''}.
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {churches.map((church) => (
+            <NearbyChurchCard
+              key={church.id}
+              church={church}
+              onSelect={() => onSelectChurch(church.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NearbyChurchCard({ church, onSelect }: { church: NearbyChurch; onSelect: () => void }) {
+  return (
+    <Card className="flex items-start justify-between gap-3 p-4">
+      <div className="min-w-0 space-y-1">
+        <h3 className="font-semibold">{church.name}</h3>
+        <p className="flex items-center gap-1 text-sm text-muted-foreground">
+          <MapPin className="h-3.5 w-3.5 shrink-0" />
+          <span className="truncate">
+            {formatDistanceLabel(church.distance_km)}
+            {church.address ? ` • ${church.address}` : ''}
+          </span>
+        </p>
+        <p className="flex items-center gap-1 text-sm">
+          <Clock className="h-3.5 w-3.5 shrink-0 text-primary" />
+          {church.next_mass && church.next_mass_at
+            ? `${DAY_LABELS[church.next_mass.day_of_week]} ${church.next_mass.mass_time} • ${formatStartsInLabel(church.next_mass_at)}`
+            : 'Belum ada jadwal misa'}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={onSelect}>
+        Lihat Jadwal
+      </Button>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+// Upcoming Masses Panel
+
+'use client';
+
+import { useState } from 'react';
+import { Clock, Languages, Loader2, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceLabel, type GeoPoint } from '@/lib/features/schedule/geo';
+import { formatMassStartLabel, formatStartsInLabel } from '@/lib/features/schedule/mass-occurrence';
+import { useUpcomingMasses } from '@/lib/features/schedule/use-schedule';
+import type { Church, UpcomingMass } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+
+type UpcomingScope = 'diocese' | 'church' | 'nearby';
+
+const SCOPE_OPTIONS: Array<{ value: UpcomingScope; label: string }> = [
+  { value: 'diocese', label: 'Keuskupan ini' },
+  { value: 'church', label: 'Gereja terpilih' },
+  { value: 'nearby', label: 'Sekitar saya (25 km)' },
+];
+
+const LANGUAGE_OPTIONS = ['', 'Indonesia', 'Inggris', 'Jawa', 'Mandarin', 'Latin'];
+const NEARBY_RADIUS_KM = 25;
+const UPCOMING_LIMIT = 10;
+
+export function UpcomingMassesPanel({
+  church,
+  dioceseId,
+  onSelectChurch,
+}: {
+  church?: Church;
+  dioceseId?: string;
+  onSelectChurch: (churchId: string) => void;
+}) {
+  const [scope, setScope] = useState<UpcomingScope>('diocese');
+  const [language, setLanguage] = useState('');
+  const [center, setCenter] = useState<GeoPoint | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const scopeReady =
+    scope === 'diocese' ? Boolean(dioceseId) : scope === 'church' ? Boolean(church) : Boolean(center);
+
+  const { data: masses = [], isLoading } = useUpcomingMasses({
+    dioceseId: scope === 'diocese' ? dioceseId : undefined,
+    churchIds: scope === 'church' && church ? [church.id] : undefined,
+    near: scope === 'nearby' && center ? { center, radiusKm: NEARBY_RADIUS_KM } : null,
+    language: language || undefined,
+    limit: UPCOMING_LIMIT,
+    enabled: scopeReady,
+  });
+
+  const handleScopeChange = (value: UpcomingScope) => {
+    setScope(value);
+    if (value !== 'nearby' || center) return;
+
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      toast.error('Browser tidak mendukung lokasi.');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCenter({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setIsLocating(false);
+      },
+      () => {
+        toast.error('Izin lokasi ditolak. Pilih keuskupan atau gereja.');
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="flex flex-wrap items-center gap-3 p-4 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Cakupan</span>
+            <select
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value={scope}
+              onChange={(event) => handleScopeChange(event.target.value as UpcomingScope)}
+            >
+              {SCOPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Bahasa</span>
+            <select
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value={language}
+              onChange={(event) => setLanguage(event.target.value)}
+            >
+              {LANGUAGE_OPTIONS.map((option) => (
+                <option key={option || 'all'} value={option}>
+                  {option || 'Semua bahasa'}
+                </option>
+              ))}
+            </select>
+          </label>
+        </CardContent>
+      </Card>
+
+      {!scopeReady ? (
+        <Card className="p-8 text-center text-sm text-muted-foreground">
+          {isLocating ? (
+            <span className="inline-flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Mencari lokasi Anda...
+            </span>
+          ) : scope === 'diocese' ? (
+            'Pilih gereja atau lengkapi keuskupan di profil untuk melihat misa di keuskupan ini.'
+          ) : scope === 'church' ? (
+            'Pilih gereja terlebih dahulu.'
+          ) : (
+            'Aktifkan lokasi untuk melihat misa di sekitar Anda.'
+          )}
+        </Card>
+      ) : isLoading ? (
+        <Card className="flex items-center justify-center gap-2 p-8 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Mencari misa berikutnya...
+        </Card>
+      ) : masses.length === 0 ? (
+        <Card className="p-8 text-center text-sm text-muted-foreground">
+          Tidak ada jadwal misa{language ? ` berbahasa ${language}` : ''} yang ditemukan.
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {masses.map((mass) => (
+            <UpcomingMassCard
+              key={`${mass.schedule.id}-${mass.starts_at}`}
+              mass={mass}
+              onSelect={() => onSelectChurch(mass.church.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UpcomingMassCard({ mass, onSelect }: { mass: UpcomingMass; onSelect: () => void }) {
+  return (
+    <Card className="flex items-start justify-between gap-3 p-4">
+      <div className="min-w-0 space-y-1">
+        <p className="flex items-center gap-1 font-semibold">
+          <Clock className="h-4 w-4 shrink-0 text-primary" />
+          {formatMassStartLabel(mass.starts_at, mass.timezone)}
+          <span className="text-sm font-normal text-muted-foreground">
+            • {formatStartsInLabel(mass.starts_at)}
+          </span>
+        </p>
+        <p className="flex items-center gap-1 text-sm">
+          <MapPin className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          <span className="truncate">
+            {mass.church.name}
+            {typeof mass.distance_km === 'number' ? ` • ${formatDistanceLabel(mass.distance_km)}` : ''}
+          </span>
+        </p>
+        <p className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Languages className="h-3.5 w-3.5 shrink-0" />
+          {mass.schedule.language}
+          {mass.schedule.notes ? ` • ${mass.schedule.notes}` : ''}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" onClick={onSelect}>
+        Lihat Jadwal
+      </Button>
+    </Card>
+  );
+}
@@ -2,17 +2,28 @@
 
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { useQuery } from '@tanstack/react-query';
-import { Loader2, Search, X } from 'lucide-react';
-import { ChatService } from '@/lib/features/chat/chat-service';
-import { useCreateChat } from '@/lib/features/chat/use-chat';
+import { ArrowRight, Clock, Loader2, Search, X } from 'lucide-react';
+import { SEARCH_SETTINGS } from '@/lib/constants';
+import { SEARCH_SECTION_LABELS } from '@/lib/features/search/search-ranking';
+import {
+  useDebouncedSearchQuery,
+  useRecentSearches,
+  useUnifiedSearch,
+} from '@/lib/features/search/use-search';
 import { useUIStore } from '@/lib/store/ui-store';
+import { SearchResultRow } from '@/components/search/search-result-row';
 import { Card, CardContent } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
 
 export function SearchPanel() {
   const { isSearchOpen } = useUIStore();
@@ -23,90 +34,123 @@ export function SearchPanel() {
 function SearchPanelContent() {
   const router = useRouter();
   const { closeSearch } = useUIStore();
-  const { mutateAsync: createChat, isPending: isCreatingChat } = useCreateChat();
   const [keyword, setKeyword] = useState('');
-  const [debouncedKeyword, setDebouncedKeyword] = useState('');
+  const debouncedKeyword = useDebouncedSearchQuery(keyword);
+  const { data: results, sections, isFetching } = useUnifiedSearch(debouncedKeyword);
+  const { recent, add: addRecent, remove: removeRecent, clear: clearRecent } = useRecentSearches();
 
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setDebouncedKeyword(keyword.trim());
-    }, 250);
+  const hasQuery = debouncedKeyword.length >= SEARCH_SETTINGS.MIN_QUERY_LENGTH;
 
-    return () => clearTimeout(timer);
-  }, [keyword]);
+  const navigate = (href: string) => {
+    addRecent(keyword);
+    closeSearch();
+    router.push(href);
+  };
 
-  const { data: users = [], isLoading } = useQuery({
-    queryKey: ['search-users', debouncedKeyword],
-    queryFn: () => ChatService.searchUsers(debouncedKeyword),
-    enabled: debouncedKeyword.length >= 2,
-  });
-
-  const emptyMessage = useMemo(() => {
-    if (debouncedKeyword.length < 2) return 'Ketik minimal 2 karakter untuk mulai mencari.';
-    if (isLoading) return 'Mencari pengguna...';
-    if (users.length === 0) return 'Tidak ada pengguna yang cocok.';
-    return null;
-  }, [debouncedKeyword.length, isLoading, users.length]);
+  const openResultsPage = (query: string) => {
+    addRecent(query);
+    closeSearch();
+    router.push(`/search?q=${encodeURIComponent(query.trim())}`);
+  };
 
   return (
-    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-20">
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 p-4 pt-20"
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') closeSearch();
+      }}
+    >
       <Card className="w-full max-w-xl border-border/70 bg-card shadow-xl">
-        <CardContent className="p-4">
-          <div className="mb-3 flex items-center gap-2">
-            <div className="relative flex-1">
-              <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                value={keyword}
-                onChange={(event) => setKeyword(event.target.value)}
-                placeholder="Cari nama user..."
-                className="pl-9"
-                autoFocus
-              />
+        <CardContent className="p-0">
+          <Command shouldFilter={false} className="rounded-xl bg-card">
+            <div className="flex items-center gap-2 pr-2">
+              <div className="min-w-0 flex-1">
+                <CommandInput
+                  value={keyword}
+                  onValueChange={setKeyword}
+                  placeholder="Cari orang, postingan, gereja, radar, atau ayat..."
+                  className="h-12"
+                  autoFocus
+                />
+              </div>
+              {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              <Button variant="ghost" size="icon" onClick={closeSearch} aria-label="Tutup pencarian">
+                <X className="h-5 w-5" />
+              </Button>
             </div>
-            <Button variant="ghost" size="icon" onClick={closeSearch}>
-              <X className="h-5 w-5" />
-            </Button>
-          </div>
 
-          {emptyMessage ? (
-            <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
-              {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
-              {emptyMessage}
-            </div>
-          ) : (
-            <div className="max-h-[50vh] space-y-2 overflow-y-auto">
-              {users.map((user) => (
-                <button
-                  key={user.id}
-                  type="button"
-                  className="flex w-full items-center gap-3 rounded-xl border border-border/70 px-3 py-2 text-left transition-colors hover:bg-muted/40"
-                  onClick={async () => {
-                    const chat = await createChat({ otherUserId: user.id });
-                    closeSearch();
-                    router.push(`/chat/${chat.id}`);
-                  }}
-                  disabled={isCreatingChat}
-                >
-                  <Avatar className="h-10 w-10">
-                    <AvatarImage src={user.avatar_url} alt={user.full_name || ''} />
-                    <AvatarFallback>
-                      {user.full_name
-                        ?.split(' ')
-                        .map((part) => part[0])
-                        .join('')
-                        .toUpperCase()
-                        .slice(0, 2) || 'US'}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="min-w-0 flex-1">
-                    <p className="truncate text-sm font-semibold">{user.full_name || 'User'}</p>
-                    <p className="text-xs text-muted-foreground">{user.role || 'umat'}</p>
+            <CommandList className="max-h-[60vh] p-1">
+              {!hasQuery ? (
+                recent.length > 0 ? (
+                  <CommandGroup heading="Pencarian terakhir">
+                    {recent.map((item) => (
+                      <CommandItem
+                        key={item}
+                        value={`recent:${item}`}
+                        onSelect={() => setKeyword(item)}
+                        className="gap-3"
+                      >
+                        <Clock className="h-4 w-4 text-muted-foreground" />
+                        <span className="min-w-0 flex-1 truncate">{item}</span>
+                        <button
+                          type="button"
+                          aria-label={`Hapus ${item} dari riwayat`}
+                          className="rounded-full p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            removeRecent(item);
+                          }}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </CommandItem>
+                    ))}
+                    <CommandItem value="recent:clear" onSelect={clearRecent} className="justify-center text-xs text-muted-foreground">
+                      Hapus riwayat pencarian
+                    </CommandItem>
+                  </CommandGroup>
+                ) : (
+                  <div className="py-10 text-center text-sm text-muted-foreground">
+                    Ketik minimal {SEARCH_SETTINGS.MIN_QUERY_LENGTH} karakter untuk mulai mencari.
                   </div>
-                  {isCreatingChat && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
-                </button>
-              ))}
-            </div>
-          )}
+                )
+              ) : (
+                <>
+                  <CommandEmpty>
+                    {isFetching ? 'Mencari...' : `Tidak ada hasil untuk "${debouncedKeyword}".`}
+                  </CommandEmpty>
+                  {results &&
+                    sections.map((section) => (
+                      <CommandGroup key={section} heading={SEARCH_SECTION_LABELS[section]}>
+                        {results[section].map((item) => (
+                          <CommandItem
+                            key={`${section}:${item.id}`}
+                            value={`${section}:${item.id}`}
+                            onSelect={() => navigate(item.href)}
+                            className="py-2"
+                          >
+                            <SearchResultRow item={item} />
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    ))}
+                  {sections.length > 0 && (
+                    <CommandGroup>
+                      <CommandItem
+                        value="search:all"
+                        onSelect={() => openResultsPage(debouncedKeyword)}
+                        className="gap-3 font-medium text-primary"
+                      >
+                        <Search className="h-4 w-4" />
+                        <span className="flex-1">Lihat semua hasil untuk &quot;{debouncedKeyword}&quot;</span>
+                        <ArrowRight className="h-4 w-4" />
+                      </CommandItem>
+                    </CommandGroup>
+                  )}
+                </>
+              )}
+            </CommandList>
+          </Command>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,44 @@
+// Search Result Row
+
+'use client';
+
+import { BookOpen, Church, FileText, Radar, type LucideIcon } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import type { SearchResultItem, SearchSection } from '@/lib/types';
+
+const SECTION_ICONS: Record<Exclude<SearchSection, 'people'>, LucideIcon> = {
+  posts: FileText,
+  churches: Church,
+  radars: Radar,
+  verses: BookOpen,
+};
+
+export function SearchResultRow({ item }: { item: SearchResultItem }) {
+  const Icon = item.section === 'people' ? null : SECTION_ICONS[item.section];
+
+  return (
+    <div className="flex min-w-0 flex-1 items-center gap-3">
+      {Icon ? (
+        <span className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary">
+          <Icon className="h-4 w-4" />
+        </span>
+      ) : (
+        <Avatar className="h-9 w-9">
+          <AvatarImage src={item.image_url} alt={item.title} />
+          <AvatarFallback className="text-[10px]">
+            {item.title
+              .split(' ')
+              .map((part) => part[0])
+              .join('')
+              .toUpperCase()
+              .slice(0, 2) || 'US'}
+          </AvatarFallback>
+        </Avatar>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-semibold">{item.title}</p>
+        {item.subtitle && <p className="line-clamp-2 text-xs text-muted-foreground">{item.subtitle}</p>}
+      </div>
+    </div>
+  );
+}
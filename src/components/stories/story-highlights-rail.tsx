@@ -0,0 +1,345 @@
+// Story Highlights Rail ("Sorotan")
+
+'use client';
+
+import { useMemo, useState, type ReactNode } from 'react';
+import { Archive, Check, Loader2, Pencil, Play, Plus, Trash2 } from 'lucide-react';
+import { STORY_SETTINGS } from '@/lib/constants';
+import {
+  useDeleteStoryHighlight,
+  useSaveStoryHighlight,
+  useStoryArchive,
+  useStoryHighlights,
+  useUserStories,
+} from '@/lib/features/stories/use-stories';
+import { StoryViewer } from '@/components/stories/story-viewer';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { Story, StoryHighlight } from '@/lib/types';
+
+type PlayingState = { stories: Story[]; startIndex: number } | null;
+
+function StoryThumbnail({ story, className }: { story: Story; className?: string }) {
+  return story.media_type === 'video' ? (
+    <video className={cn('h-full w-full object-cover', className)} src={story.media_url} muted playsInline preload="metadata" />
+  ) : (
+    <img src={story.media_url} alt={story.caption || 'Story'} className={cn('h-full w-full object-cover', className)} />
+  );
+}
+
+export function StoryHighlightsRail({ userId, isOwnProfile }: { userId: string; isOwnProfile: boolean }) {
+  const { data: highlights = [], isLoading } = useStoryHighlights(userId);
+  const [playing, setPlaying] = useState<PlayingState>(null);
+  const [editorState, setEditorState] = useState<{ highlight?: StoryHighlight } | null>(null);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+
+  if (isLoading || (!isOwnProfile && highlights.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-start gap-4 overflow-x-auto pb-1">
+      {isOwnProfile && (
+        <>
+          <HighlightCircle label="Baru" onClick={() => setEditorState({})}>
+            <Plus className="h-6 w-6 text-muted-foreground" />
+          </HighlightCircle>
+          <HighlightCircle label="Arsip" onClick={() => setIsArchiveOpen(true)}>
+            <Archive className="h-5 w-5 text-muted-foreground" />
+          </HighlightCircle>
+        </>
+      )}
+
+      {highlights.map((highlight) => (
+        <div key={highlight.id} className="relative">
+          <HighlightCircle
+            label={highlight.title}
+            onClick={() => setPlaying({ stories: highlight.stories, startIndex: 0 })}
+          >
+            {highlight.cover_url ? (
+              <img src={highlight.cover_url} alt={highlight.title} className="h-full w-full object-cover" />
+            ) : (
+              <Play className="h-5 w-5 text-muted-foreground" />
+            )}
+          </HighlightCircle>
+          {isOwnProfile && (
+            <button
+              type="button"
+              onClick={() => setEditorState({ highlight })}
+              className="absolute right-0 top-0 flex h-6 w-6 items-center justify-center rounded-full border border-border bg-card text-muted-foreground shadow-sm hover:text-foreground"
+              aria-label={`Ubah sorotan ${highlight.title}`}
+            >
+              <Pencil className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {isOwnProfile && (
+        <>
+          <HighlightEditorDialog
+            key={editorState?.highlight?.id ?? 'new'}
+            open={editorState !== null}
+            highlight={editorState?.highlight}
+            onOpenChange={(open) => {
+              if (!open) setEditorState(null);
+            }}
+          />
+          <StoryArchiveDialog
+            open={isArchiveOpen}
+            onOpenChange={setIsArchiveOpen}
+            onPlay={(stories, startIndex) => {
+              setIsArchiveOpen(false);
+              setPlaying({ stories, startIndex });
+            }}
+          />
+        </>
+      )}
+
+      {playing && (
+        <StoryViewer
+          stories={playing.stories}
+          startIndex={playing.startIndex}
+          onClose={() => setPlaying(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function HighlightCircle({
+  label,
+  onClick,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button type="button" onClick={onClick} className="flex w-[72px] shrink-0 flex-col items-center gap-1.5">
+      <span className="rounded-full border border-border p-[3px]">
+        <span className="flex h-16 w-16 items-center justify-center overflow-hidden rounded-full bg-muted/50">
+          {children}
+        </span>
+      </span>
+      <span className="w-full truncate text-center text-xs font-medium">{label}</span>
+    </button>
+  );
+}
+
+function StoryArchiveDialog({
+  open,
+  onOpenChange,
+  onPlay,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPlay: (stories: Story[], startIndex: number) => void;
+}) {
+  const { data: archive = [], isLoading } = useStoryArchive(open);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Arsip Story</DialogTitle>
+        </DialogHeader>
+        <p className="-mt-2 text-xs text-muted-foreground">
+          Hanya Anda yang bisa melihat arsip. Story yang sudah berakhir tetap tersimpan di sini.
+        </p>
+        {isLoading ? (
+          <div className="flex justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : archive.length === 0 ? (
+          <p className="py-10 text-center text-sm text-muted-foreground">Belum ada story di arsip.</p>
+        ) : (
+          <div className="grid max-h-[60vh] grid-cols-3 gap-2 overflow-y-auto sm:grid-cols-4">
+            {archive.map((story, index) => (
+              <button
+                key={story.id}
+                type="button"
+                onClick={() => onPlay(archive, index)}
+                className="relative aspect-[9/16] overflow-hidden rounded-lg border border-border"
+              >
+                <StoryThumbnail story={story} />
+                <span className="absolute left-1.5 top-1.5 rounded-md bg-black/60 px-1.5 py-0.5 text-[10px] font-semibold text-white">
+                  {new Date(story.created_at).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function HighlightEditorDialog({
+  open,
+  highlight,
+  onOpenChange,
+}: {
+  open: boolean;
+  highlight?: StoryHighlight;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data: archive = [], isLoading: isArchiveLoading } = useStoryArchive(open);
+  const { data: activeStories = [] } = useUserStories();
+  const { mutateAsync: saveHighlight, isPending: isSaving } = useSaveStoryHighlight();
+  const { mutateAsync: deleteHighlight, isPending: isDeleting } = useDeleteStoryHighlight();
+  const [title, setTitle] = useState(highlight?.title ?? '');
+  const [selectedIds, setSelectedIds] = useState<string[]>(highlight?.story_ids ?? []);
+  const [coverUrl, setCoverUrl] = useState<string | undefined>(highlight?.cover_url);
+
+  // Highlighted stories may have been trimmed from the archive window; keep them pickable.
+  const candidates = useMemo(() => {
+    const byId = new Map<string, Story>();
+    [...activeStories, ...archive, ...(highlight?.stories ?? [])].forEach((story) => {
+      if (!byId.has(story.id)) byId.set(story.id, story);
+    });
+    return Array.from(byId.values()).sort(
+      (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+  }, [activeStories, archive, highlight?.stories]);
+
+  const toggleStory = (story: Story) => {
+    if (selectedIds.includes(story.id)) {
+      if (coverUrl === story.media_url) setCoverUrl(undefined);
+      setSelectedIds(selectedIds.filter((id) => id !== story.id));
+      return;
+    }
+    if (selectedIds.length >= STORY_SETTINGS.MAX_HIGHLIGHT_STORIES) return;
+    setSelectedIds([...selectedIds, story.id]);
+  };
+
+  // Mutation hooks already surface failures as toasts; keep the dialog open on error.
+  const handleSave = async () => {
+    try {
+      await saveHighlight({
+        highlightId: highlight?.id,
+        title,
+        storyIds: selectedIds,
+        coverUrl: coverUrl ?? null,
+      });
+      onOpenChange(false);
+    } catch {
+      return;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!highlight) return;
+    try {
+      await deleteHighlight(highlight.id);
+      onOpenChange(false);
+    } catch {
+      return;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{highlight ? 'Ubah Sorotan' : 'Sorotan Baru'}</DialogTitle>
+        </DialogHeader>
+
+        <Input
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+          placeholder="Nama sorotan, mis. Misa Natal"
+          maxLength={STORY_SETTINGS.HIGHLIGHT_TITLE_MAX_LENGTH}
+        />
+
+        <p className="text-xs text-muted-foreground">
+          Pilih story sesuai urutan tampil. Ketuk &quot;Sampul&quot; pada story terpilih untuk menjadikannya sampul.
+        </p>
+
+        {isArchiveLoading ? (
+          <div className="flex justify-center py-10 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : candidates.length === 0 ? (
+          <p className="py-10 text-center text-sm text-muted-foreground">Belum ada story untuk dipilih.</p>
+        ) : (
+          <div className="grid max-h-[50vh] grid-cols-3 gap-2 overflow-y-auto sm:grid-cols-4">
+            {candidates.map((story) => {
+              const order = selectedIds.indexOf(story.id);
+              const isSelected = order >= 0;
+              const isCover = isSelected && coverUrl === story.media_url;
+
+              return (
+                <div
+                  key={story.id}
+                  className={cn(
+                    'relative aspect-[9/16] overflow-hidden rounded-lg border-2',
+                    isSelected ? 'border-primary' : 'border-transparent'
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => toggleStory(story)}
+                    className="absolute inset-0"
+                    aria-pressed={isSelected}
+                    aria-label={isSelected ? 'Batalkan pilihan story' : 'Pilih story'}
+                  >
+                    <StoryThumbnail story={story} className={cn(!isSelected && 'opacity-70')} />
+                  </button>
+                  <span
+                    className={cn(
+                      'pointer-events-none absolute right-1.5 top-1.5 flex h-6 w-6 items-center justify-center rounded-full border text-xs font-bold',
+                      isSelected ? 'border-primary bg-primary text-primary-foreground' : 'border-white/80 bg-black/30'
+                    )}
+                  >
+                    {isSelected ? order + 1 : null}
+                  </span>
+                  {isSelected && story.media_type === 'image' && (
+                    <button
+                      type="button"
+                      onClick={() => setCoverUrl(isCover ? undefined : story.media_url)}
+                      className={cn(
+                        'absolute inset-x-1.5 bottom-1.5 flex items-center justify-center gap-1 rounded-md px-1.5 py-1 text-[10px] font-semibold',
+                        isCover ? 'bg-primary text-primary-foreground' : 'bg-black/60 text-white'
+                      )}
+                    >
+                      {isCover && <Check className="h-3 w-3" />}
+                      Sampul
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          {highlight ? (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => void handleDelete()}
+              disabled={isDeleting || isSaving}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="mr-1.5 h-4 w-4" />
+              Hapus
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={isSaving || isDeleting || selectedIds.length === 0}
+          >
+            {isSaving ? 'Menyimpan...' : `Simpan (${selectedIds.length})`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
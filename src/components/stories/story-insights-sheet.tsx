@@ -0,0 +1,184 @@
+// Story Insights Sheet
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { id } from 'date-fns/locale';
+import { Eye, Loader2, MessageCircle, SmilePlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/lib/features/auth/use-auth';
+import { ChatService } from '@/lib/features/chat/chat-service';
+import { useStoryInsights } from '@/lib/features/stories/use-stories';
+import type { Story, StoryInsightUser, StoryReplyEntry } from '@/lib/types';
+
+function formatRelative(value: string) {
+  return formatDistanceToNow(new Date(value), { addSuffix: true, locale: id });
+}
+
+function InsightAvatar({ user }: { user: StoryInsightUser }) {
+  const name = user.full_name?.trim() || 'Umat';
+  return (
+    <Avatar className="h-9 w-9">
+      <AvatarImage src={user.avatar_url} alt={name} />
+      <AvatarFallback className="text-[10px]">
+        {name
+          .split(' ')
+          .map((part) => part[0])
+          .join('')
+          .toUpperCase()
+          .slice(0, 2) || 'US'}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+function EmptyInsight({ children }: { children: string }) {
+  return <p className="py-8 text-center text-sm text-muted-foreground">{children}</p>;
+}
+
+export function StoryInsightsSheet({
+  story,
+  open,
+  onOpenChange,
+  onNavigate,
+}: {
+  story: Story;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onNavigate?: () => void;
+}) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { data: insights, isLoading } = useStoryInsights(story);
+  const [openingReplyId, setOpeningReplyId] = useState<string | null>(null);
+
+  const views = insights?.views ?? [];
+  const reactions = insights?.reactions ?? [];
+  const replies = insights?.replies ?? [];
+  const reactionTotal = reactions.reduce((total, group) => total + group.count, 0);
+
+  const openReplyThread = async (reply: StoryReplyEntry) => {
+    if (!user?.id) return;
+    setOpeningReplyId(reply.id);
+    try {
+      // Replies recorded before chat ids were stored fall back to the direct chat.
+      const chatId = reply.chat_id ?? (await ChatService.createChat(user.id, reply.user.id)).id;
+      onOpenChange(false);
+      onNavigate?.();
+      router.push(`/chat/${encodeURIComponent(chatId)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal membuka chat');
+    } finally {
+      setOpeningReplyId(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[75vh] rounded-t-2xl">
+        <SheetHeader>
+          <SheetTitle>Aktivitas Story</SheetTitle>
+          <SheetDescription>
+            Dibagikan {formatRelative(story.created_at)} • hanya Anda yang bisa melihat ini.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Tabs defaultValue="views" className="min-h-0 flex-1 px-4 pb-4">
+          <TabsList className="w-full">
+            <TabsTrigger value="views" className="gap-1.5">
+              <Eye className="h-4 w-4" /> {views.length}
+            </TabsTrigger>
+            <TabsTrigger value="reactions" className="gap-1.5">
+              <SmilePlus className="h-4 w-4" /> {reactionTotal}
+            </TabsTrigger>
+            <TabsTrigger value="replies" className="gap-1.5">
+              <MessageCircle className="h-4 w-4" /> {replies.length}
+            </TabsTrigger>
+          </TabsList>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : (
+            <div className="max-h-[50vh] overflow-y-auto">
+              <TabsContent value="views" className="space-y-1">
+                {views.length === 0 ? (
+                  <EmptyInsight>Belum ada yang melihat story ini.</EmptyInsight>
+                ) : (
+                  views.map((view) => (
+                    <div key={view.user.id} className="flex items-center gap-3 rounded-lg px-2 py-2">
+                      <InsightAvatar user={view.user} />
+                      <p className="min-w-0 flex-1 truncate text-sm font-medium">
+                        {view.user.full_name || 'Umat'}
+                      </p>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {formatRelative(view.viewed_at)}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="reactions" className="space-y-3">
+                {reactions.length === 0 ? (
+                  <EmptyInsight>Belum ada reaksi.</EmptyInsight>
+                ) : (
+                  reactions.map((group) => (
+                    <div key={group.reaction} className="rounded-xl border border-border/70 p-3">
+                      <p className="mb-2 text-sm font-semibold">
+                        <span className="mr-1.5 text-lg">{group.reaction}</span>
+                        {group.count}
+                      </p>
+                      <div className="space-y-1">
+                        {group.users.map((reactor) => (
+                          <div key={reactor.id} className="flex items-center gap-3 py-1">
+                            <InsightAvatar user={reactor} />
+                            <p className="truncate text-sm">{reactor.full_name || 'Umat'}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="replies" className="space-y-1">
+                {replies.length === 0 ? (
+                  <EmptyInsight>Belum ada balasan.</EmptyInsight>
+                ) : (
+                  replies.map((reply) => (
+                    <button
+                      key={reply.id}
+                      type="button"
+                      onClick={() => void openReplyThread(reply)}
+                      disabled={openingReplyId !== null}
+                      className="flex w-full items-start gap-3 rounded-lg px-2 py-2 text-left transition-colors hover:bg-muted/60 disabled:opacity-60"
+                    >
+                      <InsightAvatar user={reply.user} />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium">{reply.user.full_name || 'Umat'}</p>
+                        <p className="line-clamp-2 text-sm text-muted-foreground">{reply.content}</p>
+                        <p className="mt-0.5 text-xs text-muted-foreground">{formatRelative(reply.created_at)}</p>
+                      </div>
+                      {openingReplyId === reply.id ? (
+                        <Loader2 className="mt-2 h-4 w-4 animate-spin text-muted-foreground" />
+                      ) : (
+                        <MessageCircle className="mt-2 h-4 w-4 text-muted-foreground" />
+                      )}
+                    </button>
+                  ))
+                )}
+              </TabsContent>
+            </div>
+          )}
+        </Tabs>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -13,7 +13,7 @@ import {
 import { StoriesService } from '@/lib/features/stories/stories-service';
 import { useAuth } from '@/lib/features/auth/use-auth';
 import { useUIStore } from '@/lib/store/ui-store';
-import { Play, Plus } from 'lucide-react';
+import { Play, Plus, Star } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import {
@@ -23,7 +23,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Switch } from '@/components/ui/switch';
-import type { Story } from '@/lib/types';
+import type { Story, StoryAudience } from '@/lib/types';
 
 type TextStoryTheme = {
   id: string;
@@ -165,6 +165,7 @@ export function StoryRail() {
   const { user, profile } = useAuth();
   const { openStoryViewer } = useUIStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadAudienceRef = useRef<StoryAudience>('followers');
   const textPreviewRef = useRef<HTMLDivElement>(null);
   const [optimisticViewedIds, setOptimisticViewedIds] = useState<Set<string>>(new Set());
   const [isMyStoryActionOpen, setIsMyStoryActionOpen] = useState(false);
@@ -173,6 +174,7 @@ export function StoryRail() {
   const [textStoryThemeId, setTextStoryThemeId] = useState(TEXT_STORY_THEMES[0].id);
   const [textStoryColor, setTextStoryColor] = useState(TEXT_STORY_TEXT_COLORS[0]);
   const [textStoryWithBackground, setTextStoryWithBackground] = useState(true);
+  const [textStoryCloseFriendsOnly, setTextStoryCloseFriendsOnly] = useState(false);
   const [textStoryPosition, setTextStoryPosition] = useState({ x: 0.5, y: 0.5 });
   const [isDraggingTextStory, setIsDraggingTextStory] = useState(false);
   const [isCreatingTextStory, setIsCreatingTextStory] = useState(false);
@@ -245,6 +247,8 @@ export function StoryRail() {
 
   const handleStoryUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    const audience = uploadAudienceRef.current;
+    uploadAudienceRef.current = 'followers';
     event.target.value = '';
     if (!file) return;
 
@@ -261,7 +265,7 @@ export function StoryRail() {
     try {
       const mediaType = file.type.startsWith('video/') ? 'video' : 'image';
       const mediaUrl = await StoriesService.uploadStoryMedia(user.id, file);
-      const story = await createStory({ mediaUrl, mediaType });
+      const story = await createStory({ mediaUrl, mediaType, audience });
       openStoryViewer(story.id);
     } catch (error) {
       console.error('Create story error:', error);
@@ -269,8 +273,9 @@ export function StoryRail() {
     }
   };
 
-  const openUploadPicker = () => {
+  const openUploadPicker = (audience: StoryAudience = 'followers') => {
     if (isCreatingStory) return;
+    uploadAudienceRef.current = audience;
     fileInputRef.current?.click();
   };
 
@@ -279,6 +284,7 @@ export function StoryRail() {
     setTextStoryPosition({ x: 0.5, y: 0.5 });
     setTextStoryColor(TEXT_STORY_TEXT_COLORS[0]);
     setTextStoryWithBackground(true);
+    setTextStoryCloseFriendsOnly(false);
     setIsTextStoryDialogOpen(true);
   };
 
@@ -329,6 +335,7 @@ export function StoryRail() {
       const story = await createStory({
         mediaUrl,
         mediaType: 'image',
+        audience: textStoryCloseFriendsOnly ? 'close_friends' : 'followers',
       });
       setIsTextStoryDialogOpen(false);
       setTextStoryContent('');
@@ -410,7 +417,12 @@ export function StoryRail() {
           <div className="h-full w-full bg-muted/40" />
         )}
 
-        <div className="absolute left-2.5 top-2.5 z-10 rounded-full bg-primary p-[2px]">
+        <div
+          className={cn(
+            'absolute left-2.5 top-2.5 z-10 rounded-full p-[2px]',
+            ownLatestStory?.audience === 'close_friends' ? 'bg-emerald-500' : 'bg-primary'
+          )}
+        >
           <Avatar className="h-8 w-8 border border-black/55 sm:h-9 sm:w-9">
             <AvatarImage src={profile?.avatar_url} alt={ownName} />
             <AvatarFallback>{ownInitials}</AvatarFallback>
@@ -475,6 +487,17 @@ export function StoryRail() {
               >
                 Tambah Story Baru
               </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setIsMyStoryActionOpen(false);
+                  openUploadPicker('close_friends');
+                }}
+                className="flex w-full items-center gap-2 rounded-xl border border-emerald-500/40 bg-card px-3 py-2.5 text-left text-sm font-medium text-emerald-600 transition-colors hover:bg-emerald-500/10"
+              >
+                <Star className="h-4 w-4 fill-current" />
+                Story Teman Dekat
+              </button>
               <button
                 type="button"
                 onClick={openTextStoryDialog}
@@ -600,6 +623,17 @@ export function StoryRail() {
                   />
                 </div>
 
+                <div className="flex items-center justify-between rounded-xl border border-border bg-background/60 px-3 py-2">
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Star className="h-4 w-4 text-emerald-500" />
+                    Hanya Teman Dekat
+                  </p>
+                  <Switch
+                    checked={textStoryCloseFriendsOnly}
+                    onCheckedChange={(checked) => setTextStoryCloseFriendsOnly(Boolean(checked))}
+                  />
+                </div>
+
                 <button
                   type="button"
                   onClick={() => setTextStoryPosition({ x: 0.5, y: 0.5 })}
@@ -670,12 +704,16 @@ function StoryRailItem({
   viewedStoryIds: Set<string>;
   onOpenStory: (storyId: string) => void;
 }) {
-  const hasUnviewedStories = stories.filter((story) => {
+  const unviewedStories = stories.filter((story) => {
     if (!story?.id) return false;
     if (viewerId && story.user_id === viewerId) return false;
     return !viewedStoryIds.has(story.id);
-  }).length;
+  });
+  const hasUnviewedStories = unviewedStories.length;
   const isViewed = hasUnviewedStories === 0;
+  const hasUnviewedCloseFriendsStory = unviewedStories.some(
+    (story) => story.audience === 'close_friends'
+  );
 
   const initials = userName
     ?.split(' ')
@@ -720,9 +758,11 @@ function StoryRailItem({
       <div
         className={cn(
           'absolute left-2.5 top-2.5 rounded-full p-[2px]',
-          !isViewed && hasUnviewedStories > 0
-            ? 'signature-gradient'
-            : 'bg-border'
+          isViewed
+            ? 'bg-border'
+            : hasUnviewedCloseFriendsStory
+              ? 'bg-emerald-500'
+              : 'signature-gradient'
         )}
       >
         <Avatar className="h-8 w-8 border border-black/55 sm:h-9 sm:w-9">
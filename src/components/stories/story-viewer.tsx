@@ -3,14 +3,26 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { X, ChevronRight, ChevronLeft, Send, Heart } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { X, ChevronRight, ChevronLeft, Send, Heart, Eye, ChevronUp, BookOpen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { useUIStore } from '@/lib/store/ui-store';
 import { useAuth } from '@/lib/features/auth/use-auth';
-import { useMarkStoryViewed, useReactToStory, useReplyToStory } from '@/lib/features/stories/use-stories';
+import {
+  useMarkStoryViewed,
+  useReactToStory,
+  useReplyToStory,
+  useStoryInsights,
+} from '@/lib/features/stories/use-stories';
+import {
+  buildStoryVerseReaderHref,
+  formatStoryVerseReference,
+} from '@/lib/features/stories/verse-story';
+import { loadBibleVersionPreference } from '@/lib/features/bible/version-preference';
+import { StoryInsightsSheet } from './story-insights-sheet';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import type { Story } from '@/lib/types';
@@ -28,11 +40,15 @@ const STORY_NAVIGATION = {
 interface StoryViewerProps {
   stories: Story[];
   startIndex?: number;
+  /** Defaults to closing the global story viewer (highlights render their own). */
+  onClose?: () => void;
 }
 
-export function StoryViewer({ stories, startIndex = 0 }: StoryViewerProps) {
+export function StoryViewer({ stories, startIndex = 0, onClose }: StoryViewerProps) {
+  const router = useRouter();
   const { user, profile } = useAuth();
-  const { closeStoryViewer } = useUIStore();
+  const { closeStoryViewer: closeGlobalStoryViewer } = useUIStore();
+  const closeStoryViewer = onClose ?? closeGlobalStoryViewer;
   const { mutate: markStoryViewed } = useMarkStoryViewed();
   const { mutateAsync: reactToStory, isPending: isReacting } = useReactToStory();
   const { mutateAsync: replyToStory, isPending: isReplying } = useReplyToStory();
@@ -41,6 +57,8 @@ export function StoryViewer({ stories, startIndex = 0 }: StoryViewerProps) {
   const [isPaused, setIsPaused] = useState(false);
   const [currentDuration, setCurrentDuration] = useState(STORY_DURATION);
   const [replyText, setReplyText] = useState('');
+  const [isInsightsOpen, setIsInsightsOpen] = useState(false);
+  const { data: insights } = useStoryInsights(stories[currentIndex]);
 
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
@@ -60,7 +78,7 @@ export function StoryViewer({ stories, startIndex = 0 }: StoryViewerProps) {
     }
 
     // Only run timer if story exists and not paused
-    if (!stories[currentIndex] || isPaused) {
+    if (!stories[currentIndex] || isPaused || isInsightsOpen) {
       return;
     }
 
@@ -81,7 +99,7 @@ export function StoryViewer({ stories, startIndex = 0 }: StoryViewerProps) {
         timerRef.current = null;
       }
     };
-  }, [goToIndex, currentDuration, currentIndex, stories, isPaused, closeStoryViewer]);
+  }, [goToIndex, currentDuration, currentIndex, stories, isPaused, isInsightsOpen, closeStoryViewer]);
 
   useEffect(() => {
     const currentStory = stories[currentIndex];
@@ -186,6 +204,14 @@ export function StoryViewer({ stories, startIndex = 0 }: StoryViewerProps) {
     }
   };
 
+  const handleOpenVerse = () => {
+    const verseRef = stories[currentIndex]?.verse_ref;
+    if (!verseRef) return;
+    const href = buildStoryVerseReaderHref(verseRef, loadBibleVersionPreference());
+    handleClose();
+    router.push(href);
+  };
+
   const handleVideoMetadataLoaded = () => {
     const video = videoRef.current;
     if (!video) return;
@@ -221,6 +247,7 @@ export function StoryViewer({ stories, startIndex = 0 }: StoryViewerProps) {
   }
 
   const story = stories[currentIndex];
+  const isOwnStory = Boolean(user?.id && story.user_id === user.id);
   const initials = story?.profiles?.full_name
     ?.split(' ')
     .map(n => n[0])
@@ -383,43 +410,91 @@ export function StoryViewer({ stories, startIndex = 0 }: StoryViewerProps) {
         </div>
       </div>
 
-      {/* Reply Section */}
-      <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-black/90 pt-4 border-t border-border">
-        <form onSubmit={handleReply} className="flex items-center gap-2 px-4 max-w-2xl mx-auto">
-          <Avatar className="h-8 w-8">
-            <AvatarFallback className="bg-primary text-white text-xs">{profile?.full_name?.slice(0, 2) || 'ME'}</AvatarFallback>
-          </Avatar>
-          <Input
-            placeholder="Balas pesan..."
-            value={replyText}
-            onChange={(e) => setReplyText(e.target.value)}
-            className="flex-1 border-border bg-muted/60 text-white placeholder:text-white/60 focus-visible:ring-primary"
-          />
-          <Button
-            type="submit"
-            variant="ghost"
-            size="icon"
-            className="bg-primary text-white hover:bg-primary-hover transition-colors"
-            disabled={isReplying || !replyText.trim()}
+      {/* Verse story reference */}
+      {story.verse_ref && (
+        <div className="absolute bottom-24 left-0 right-0 z-10 flex justify-center px-4">
+          <button
+            type="button"
+            onClick={handleOpenVerse}
+            className="flex items-center gap-2 rounded-full bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg transition-transform hover:-translate-y-0.5"
           >
-            {isReplying ? (
-              <Send className="h-5 w-5 animate-pulse" />
-            ) : (
-              <Send className="h-5 w-5" />
-            )}
-          </Button>
-        </form>
-      </div>
+            <BookOpen className="h-4 w-4" />
+            Baca pasal ini
+            <span className="font-normal text-slate-500">• {formatStoryVerseReference(story.verse_ref)}</span>
+          </button>
+        </div>
+      )}
+
+      {/* Insights (author) / Reply Section */}
+      {isOwnStory ? (
+        <div className="absolute bottom-0 left-0 right-0 flex justify-center bg-gradient-to-t from-black/80 to-transparent pb-4 pt-6">
+          <button
+            type="button"
+            onClick={() => {
+              videoRef.current?.pause();
+              setIsInsightsOpen(true);
+            }}
+            className="flex items-center gap-2 rounded-full bg-black/50 px-4 py-2 text-sm font-medium text-white backdrop-blur-md transition-colors hover:bg-black/70"
+          >
+            <ChevronUp className="h-4 w-4" />
+            <Eye className="h-4 w-4" />
+            {insights ? `${insights.views.length} dilihat` : 'Aktivitas'}
+          </button>
+        </div>
+      ) : (
+        <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-black/90 pt-4 border-t border-border">
+          <form onSubmit={handleReply} className="flex items-center gap-2 px-4 max-w-2xl mx-auto">
+            <Avatar className="h-8 w-8">
+              <AvatarFallback className="bg-primary text-white text-xs">{profile?.full_name?.slice(0, 2) || 'ME'}</AvatarFallback>
+            </Avatar>
+            <Input
+              placeholder="Balas pesan..."
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              className="flex-1 border-border bg-muted/60 text-white placeholder:text-white/60 focus-visible:ring-primary"
+            />
+            <Button
+              type="submit"
+              variant="ghost"
+              size="icon"
+              className="bg-primary text-white hover:bg-primary-hover transition-colors"
+              disabled={isReplying || !replyText.trim()}
+            >
+              {isReplying ? (
+                <Send className="h-5 w-5 animate-pulse" />
+              ) : (
+                <Send className="h-5 w-5" />
+              )}
+            </Button>
+          </form>
+        </div>
+      )}
+
+      {isOwnStory && (
+        <StoryInsightsSheet
+          story={story}
+          open={isInsightsOpen}
+          onOpenChange={(open) => {
+            setIsInsightsOpen(open);
+            if (!open && !isPaused) {
+              void videoRef.current?.play().catch(() => undefined);
+            }
+          }}
+          onNavigate={closeStoryViewer}
+        />
+      )}
 
       {/* Like Button */}
-      <button
-        type="button"
-        onClick={handleLike}
-        className="absolute top-16 right-4 z-10 h-12 w-12 rounded-full bg-black/30 text-white transition-colors hover:bg-muted/60 hover:text-destructive"
-        disabled={isReacting}
-      >
-        <Heart className={cn('h-6 w-6', isReacting && 'animate-pulse')} />
-      </button>
+      {!isOwnStory && (
+        <button
+          type="button"
+          onClick={handleLike}
+          className="absolute top-16 right-4 z-10 h-12 w-12 rounded-full bg-black/30 text-white transition-colors hover:bg-muted/60 hover:text-destructive"
+          disabled={isReacting}
+        >
+          <Heart className={cn('h-6 w-6', isReacting && 'animate-pulse')} />
+        </button>
+      )}
     </div>
   );
 }
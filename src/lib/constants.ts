@@ -33,21 +33,111 @@ export const STORY_SETTINGS = {
   DURATION_MS: 5000, // 5 seconds per story
   EXPIRY_HOURS: 24,
   MAX_TEXT_LENGTH: 500,
+  ARCHIVE_LIMIT: 200,
+  HIGHLIGHT_TITLE_MAX_LENGTH: 30,
+  MAX_HIGHLIGHT_STORIES: 50,
 } as const;
 
 // Chat Settings
 export const CHAT_SETTINGS = {
   MAX_MESSAGE_LENGTH: 2000,
   TYPING_DEBOUNCE_MS: 300,
+  TYPING_REFRESH_MS: 3000,
+  TYPING_TIMEOUT_MS: 6000,
+  PRESENCE_HEARTBEAT_MS: 60 * 1000,
+  EDIT_WINDOW_MINUTES: 15,
+  VOICE_NOTE_MAX_SECONDS: 5 * 60,
+  VOICE_NOTE_MIN_SECONDS: 1,
+  VOICE_NOTE_WAVEFORM_BARS: 48,
+  VOICE_NOTE_PLAYBACK_RATES: [1, 1.5, 2],
   REACTIONS: ['❤️', '👍', '😂', '😮', '😢', '🎉', '🔥', '👏'],
 } as const;
 
+// Poll Settings
+export const POLL_SETTINGS = {
+  MIN_OPTIONS: 2,
+  MAX_OPTIONS: 10,
+  QUESTION_MAX_LENGTH: 200,
+  OPTION_MAX_LENGTH: 80,
+  DURATION_PRESETS_HOURS: [1, 24, 72, 168],
+  CLOSE_BATCH_SIZE: 100,
+} as const;
+
 // Radar Settings
 export const RADAR_SETTINGS = {
   MIN_PARTICIPANTS: 2,
   MAX_PARTICIPANTS: 100,
   DEFAULT_MAX_PARTICIPANTS: 50,
   INVITE_EXPIRY_HOURS: 24,
+  DEFAULT_DURATION_MINUTES: 90,
+  DEFAULT_TIMEZONE: 'Asia/Jakarta',
+  SERIES_MATERIALIZE_AHEAD: 4,
+  SERIES_MAX_OCCURRENCES: 52,
+  ATTENDANCE_CODE_TTL_SECONDS: 60,
+  ATTENDANCE_OPENS_BEFORE_MINUTES: 60,
+  ATTENDANCE_CLOSES_AFTER_MINUTES: 240,
+} as const;
+
+// Radar Reminder Settings
+export const RADAR_REMINDER_SETTINGS = {
+  OFFSET_OPTIONS_MINUTES: [24 * 60, 3 * 60, 60, 15],
+  DEFAULT_OFFSETS_MINUTES: [24 * 60, 60],
+  BATCH_SIZE: 200,
+} as const;
+
+// Mass Journal Settings
+export const MASS_JOURNAL_SETTINGS = {
+  MAX_ENTRIES: 1000,
+  HEATMAP_WEEKS: 26,
+  CHART_MONTHS: 12,
+  // Saturday evening Masses from this hour count toward the Sunday streak.
+  SUNDAY_VIGIL_FROM_HOUR: 16,
+} as const;
+
+// Calendar Feed Settings
+export const CALENDAR_SETTINGS = {
+  PRODUCT_ID: '-//MyCatholic//Kalender Misa//ID',
+  DEFAULT_TIMEZONE: 'Asia/Jakarta',
+  MASS_DURATION_MINUTES: 60,
+  FEED_REFRESH_HOURS: 12,
+  JOINED_RADAR_LIMIT: 200,
+  JOINED_RADAR_LOOKBACK_DAYS: 30,
+} as const;
+
+// Notification Feed Settings
+export const NOTIFICATION_SETTINGS = {
+  PAGE_SIZE: 30,
+  GROUP_WINDOW_HOURS: 24,
+} as const;
+
+// Web Push Settings
+export const PUSH_SETTINGS = {
+  SERVICE_WORKER_PATH: '/sw.js',
+  TTL_SECONDS: 24 * 60 * 60,
+  VAPID_TOKEN_TTL_SECONDS: 12 * 60 * 60,
+  DEFAULT_SUBJECT: 'mailto:admin@mycatholic.app',
+} as const;
+
+// Email Digest Settings
+export const DIGEST_SETTINGS = {
+  DEFAULT_FREQUENCY: 'weekly',
+  DEFAULT_FROM: 'MyCatholic <no-reply@mycatholic.app>',
+  FILE_OUTBOX_DIR: '.email-outbox',
+  MAX_NOTIFICATIONS: 10,
+  MAX_INVITES: 10,
+  UPCOMING_RADAR_DAYS: 7,
+  BATCH_SIZE: 200,
+  SMTP_TIMEOUT_MS: 30 * 1000,
+} as const;
+
+// Unified Search Settings
+export const SEARCH_SETTINGS = {
+  MIN_QUERY_LENGTH: 2,
+  PANEL_SECTION_LIMIT: 4,
+  PAGE_SECTION_LIMIT: 20,
+  RECENT_LIMIT: 8,
+  RECENT_STORAGE_KEY: 'search:recent:v1',
+  DEBOUNCE_MS: 250,
 } as const;
 
 // User Roles
@@ -140,8 +230,25 @@ export const NOTIFICATION_TYPES = {
   MASS_INVITE: 'mass_invite',
   CHAT_MESSAGE: 'chat_message',
   STORY_REACTION: 'story_reaction',
+  POLL_CLOSED: 'poll_closed',
+  RADAR_WAITLIST_PROMOTED: 'radar_waitlist_promoted',
+  RADAR_REMINDER: 'radar_reminder',
 } as const;
 
+export const NOTIFICATION_TYPE_LABELS: Record<string, string> = {
+  [NOTIFICATION_TYPES.FOLLOW]: 'Pengikut baru',
+  [NOTIFICATION_TYPES.LIKE]: 'Suka',
+  [NOTIFICATION_TYPES.COMMENT]: 'Komentar',
+  [NOTIFICATION_TYPES.MENTION]: 'Sebutan',
+  [NOTIFICATION_TYPES.RADAR_INVITE]: 'Undangan radar',
+  [NOTIFICATION_TYPES.MASS_INVITE]: 'Undangan misa',
+  [NOTIFICATION_TYPES.CHAT_MESSAGE]: 'Pesan chat',
+  [NOTIFICATION_TYPES.STORY_REACTION]: 'Reaksi story',
+  [NOTIFICATION_TYPES.POLL_CLOSED]: 'Polling ditutup',
+  [NOTIFICATION_TYPES.RADAR_WAITLIST_PROMOTED]: 'Daftar tunggu radar',
+  [NOTIFICATION_TYPES.RADAR_REMINDER]: 'Pengingat radar',
+};
+
 // Chat Message Types
 export const MESSAGE_TYPES = {
   TEXT: 'text',
@@ -150,6 +257,7 @@ export const MESSAGE_TYPES = {
   FILE: 'file',
   AUDIO: 'audio',
   LOCATION: 'location',
+  POLL: 'poll',
 } as const;
 
 // Story Media Types
@@ -0,0 +1,15 @@
+// Cron Auth
+
+import crypto from 'node:crypto';
+
+// Scheduled jobs and database webhooks call their route with
+// `Authorization: Bearer <secret>`. An unset secret rejects every request.
+export function isCronAuthorized(request: Request, configuredSecret: string | undefined) {
+  const secret = configuredSecret?.trim() || '';
+  if (!secret) return false;
+
+  const header = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim() || '';
+  const provided = Buffer.from(header);
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,94 @@
+import type { BibleBook } from '@/lib/types';
+
+export interface BibleReferenceMatch {
+  book: BibleBook;
+  chapter: number;
+  verseStart?: number;
+  verseEnd?: number;
+}
+
+const REFERENCE_PATTERN = /^([1-3]\s*)?([A-Za-zÀ-ÿ.]+(?:\s+[A-Za-zÀ-ÿ.]+)*)\s+(\d+)(?::(\d+)(?:-(\d+))?)?$/i;
+
+// Lectionary citations carry verse parts and extra segments ("Kis 10:34a,37-43"),
+// only the leading book, chapter and verse are needed to open the reader.
+const LECTIONARY_REFERENCE_PATTERN = /^([1-3]\s*)?([A-Za-zÀ-ÿ.]+)\s*(\d+)(?::(\d+))?/i;
+
+export function versionCandidatesByLanguage(languageCode: 'id' | 'en', versionCode: string) {
+  if (languageCode === 'id') {
+    if (versionCode === 'TB2') return ['TB2'];
+    return ['TB1', 'TB'];
+  }
+  return ['EN1'];
+}
+
+function normalizeBookToken(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function matchBookFromToken(token: string, books: BibleBook[]) {
+  const needle = normalizeBookToken(token);
+  if (!needle) return null;
+
+  const exact = books.find((book) => {
+    const name = normalizeBookToken(book.name);
+    const abbr = normalizeBookToken(book.abbreviation);
+    return name === needle || abbr === needle;
+  });
+  if (exact) return exact;
+
+  return (
+    books.find((book) => {
+      const name = normalizeBookToken(book.name);
+      const abbr = normalizeBookToken(book.abbreviation);
+      return name.startsWith(needle) || abbr.startsWith(needle) || name.includes(needle);
+    }) || null
+  );
+}
+
+export function parseReference(input: string, books: BibleBook[]): BibleReferenceMatch | null {
+  const normalizedInput = input.trim().replace(/\s+/g, ' ');
+  const match = normalizedInput.match(REFERENCE_PATTERN);
+  if (!match) return null;
+
+  const numericPrefix = (match[1] || '').trim();
+  const rawBook = (match[2] || '').trim();
+  const chapter = Number(match[3] || 0);
+  const verseStart = Number(match[4] || 0);
+  const verseEnd = Number(match[5] || 0);
+
+  if (!chapter || chapter <= 0) return null;
+
+  const bookToken = numericPrefix ? `${numericPrefix} ${rawBook}` : rawBook;
+  const matchedBook = matchBookFromToken(bookToken, books);
+  if (!matchedBook) return null;
+
+  return {
+    book: matchedBook,
+    chapter,
+    verseStart: verseStart > 0 ? verseStart : undefined,
+    verseEnd: verseEnd > 0 ? verseEnd : undefined,
+  };
+}
+
+export function parseLectionaryReference(
+  input: string,
+  books: BibleBook[]
+): BibleReferenceMatch | null {
+  const match = input.trim().replace(/\s+/g, ' ').match(LECTIONARY_REFERENCE_PATTERN);
+  if (!match) return null;
+
+  const numericPrefix = (match[1] || '').trim();
+  const chapter = Number(match[3] || 0);
+  const verseStart = Number(match[4] || 0);
+  if (!chapter || chapter <= 0) return null;
+
+  const rawBook = (match[2] || '').trim();
+  const matchedBook = matchBookFromToken(numericPrefix ? `${numericPrefix} ${rawBook}` : rawBook, books);
+  if (!matchedBook) return null;
+
+  return {
+    book: matchedBook,
+    chapter,
+    verseStart: verseStart > 0 ? verseStart : undefined,
+  };
+}
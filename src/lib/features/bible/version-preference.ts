@@ -0,0 +1,34 @@
+const STORAGE_KEY = 'mychatolic:bible:version:v1';
+
+export interface BibleVersionPreference {
+  language_code: 'id' | 'en';
+  version_code: string;
+}
+
+// Remembers the version last opened in the reader so shared verse links
+// (e.g. verse stories) open in the reader's own translation.
+export function loadBibleVersionPreference(): BibleVersionPreference | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null') as unknown;
+    if (!parsed || typeof parsed !== 'object') return null;
+    const candidate = parsed as Record<string, unknown>;
+    const versionCode = candidate.version_code?.toString().trim().toUpperCase();
+    if (!versionCode) return null;
+    return {
+      language_code: candidate.language_code === 'en' ? 'en' : 'id',
+      version_code: versionCode,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveBibleVersionPreference(preference: BibleVersionPreference) {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preference));
+  } catch {
+    // Storage can be full or disabled; the reader still works from the URL.
+  }
+}
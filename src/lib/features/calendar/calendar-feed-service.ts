@@ -0,0 +1,100 @@
+// Calendar Feed Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RadarEvent, RadarParticipant } from '@/lib/types';
+import { CALENDAR_SETTINGS } from '@/lib/constants';
+import {
+  dedupeParticipants,
+  legacyRadarAdapter,
+  mapParticipantRow,
+  mapRadarEventRow,
+  v2RadarAdapter,
+  type RadarChurchLocation,
+  type RadarSourceAdapter,
+} from '@/lib/features/radar/radar-service';
+
+function readRows(data: unknown) {
+  return (data ?? []) as Record<string, unknown>[];
+}
+
+// Runs with the service-role client once the feed token is verified. Calendar
+// apps fetch the feed without a session, so RLS would hide the user's
+// memberships and every private radar. Every query is scoped to the user.
+export class CalendarFeedService {
+  /**
+   * Radars the user has joined, including private and cancelled ones, soonest
+   * first. Radars that started before the lookback window are left out so the
+   * limit is spent on recent and upcoming events.
+   */
+  static async getJoinedRadarEvents(client: SupabaseClient, userId: string, limit: number): Promise<RadarEvent[]> {
+    const memberships: RadarParticipant[] = [];
+    for (const adapter of [v2RadarAdapter, legacyRadarAdapter]) {
+      const { data, error } = await client.from(adapter.participantsTable).select('*').eq('user_id', userId);
+      if (error) {
+        console.error(`Error fetching ${adapter.participantsTable} for calendar feed:`, error.message);
+        continue;
+      }
+      memberships.push(
+        ...readRows(data)
+          .map((row) => mapParticipantRow(row, adapter.source))
+          .filter((row): row is RadarParticipant => row !== null)
+      );
+    }
+
+    const radarIds = dedupeParticipants(memberships)
+      .filter((item) => item.status === 'JOINED')
+      .map((item) => item.radar_id);
+    if (radarIds.length === 0) return [];
+
+    const since = new Date(Date.now() - CALENDAR_SETTINGS.JOINED_RADAR_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    // The same radar can be mirrored into both schemas; v2 wins.
+    const rowsById = new Map<string, { row: Record<string, unknown>; adapter: RadarSourceAdapter }>();
+    for (const adapter of [legacyRadarAdapter, v2RadarAdapter]) {
+      const { data, error } = await client
+        .from(adapter.eventsTable)
+        .select('*')
+        .in('id', radarIds)
+        .gte(adapter.startsAtColumn, since)
+        .order(adapter.startsAtColumn, { ascending: true })
+        .limit(limit);
+      if (error) {
+        console.error(`Error fetching ${adapter.eventsTable} for calendar feed:`, error.message);
+        continue;
+      }
+      for (const row of readRows(data)) {
+        const id = row.id?.toString();
+        if (!id || row.status?.toString().trim().toUpperCase() === 'DRAFT') continue;
+        rowsById.set(id, { row, adapter });
+      }
+    }
+
+    const locations = await this.getChurchLocations(
+      client,
+      Array.from(rowsById.values()).map(({ row }) => row.church_id?.toString() || '')
+    );
+
+    return Array.from(rowsById.values())
+      .map(({ row, adapter }) => mapRadarEventRow(row, adapter.source, locations.get(row.church_id?.toString() || '')))
+      .sort((a, b) => new Date(a.event_starts_at_utc).getTime() - new Date(b.event_starts_at_utc).getTime())
+      .slice(0, limit);
+  }
+
+  private static async getChurchLocations(client: SupabaseClient, churchIds: string[]) {
+    const ids = [...new Set(churchIds.filter(Boolean))];
+    const map = new Map<string, RadarChurchLocation>();
+    if (ids.length === 0) return map;
+
+    const { data, error } = await client.from('churches').select('id, name').in('id', ids);
+    if (error) {
+      console.error('Error fetching churches for calendar feed:', error.message);
+      return map;
+    }
+    for (const row of readRows(data)) {
+      const id = row.id?.toString();
+      if (!id) continue;
+      map.set(id, { churchName: row.name?.toString().trim() || undefined });
+    }
+    return map;
+  }
+}
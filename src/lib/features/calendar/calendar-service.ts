@@ -0,0 +1,38 @@
+// Calendar Service
+
+import { AuthService } from '@/lib/features/auth/auth-service';
+
+function currentOrigin() {
+  return typeof window === 'undefined' ? '' : window.location.origin;
+}
+
+export class CalendarService {
+  static getChurchFeedUrl(churchId: string) {
+    return `${currentOrigin()}/api/calendar/churches/${encodeURIComponent(churchId)}`;
+  }
+
+  static getRadarDownloadUrl(radarId: string) {
+    return `/api/calendar/radar/${encodeURIComponent(radarId)}`;
+  }
+
+  /** Calendar apps on iOS/Android subscribe (rather than import once) through webcal://. */
+  static toWebcalUrl(url: string) {
+    return url.replace(/^https?:\/\//i, 'webcal://');
+  }
+
+  static async getPersonalFeedUrl(): Promise<string> {
+    const session = await AuthService.getCurrentSession();
+    if (!session?.access_token) {
+      throw new Error('Anda harus login');
+    }
+
+    const response = await fetch('/api/calendar/feed-url', {
+      headers: { Authorization: `Bearer ${session.access_token}` },
+    });
+    const payload = (await response.json().catch(() => ({}))) as { url?: string; error?: string };
+    if (!response.ok || !payload.url) {
+      throw new Error(payload.error || 'Gagal membuat tautan kalender');
+    }
+    return payload.url;
+  }
+}
@@ -0,0 +1,28 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Personal feeds are fetched by calendar apps without a session, so the feed
+// URL carries an HMAC of the user id instead. Server-only: needs the secret.
+
+function getFeedSecret() {
+  return process.env.CALENDAR_FEED_SECRET?.trim() || '';
+}
+
+export function isCalendarFeedConfigured() {
+  return getFeedSecret().length > 0;
+}
+
+export function createCalendarFeedToken(userId: string) {
+  const secret = getFeedSecret();
+  if (!secret) {
+    throw new Error('CALENDAR_FEED_SECRET belum dikonfigurasi');
+  }
+  return createHmac('sha256', secret).update(`radar-feed:${userId}`).digest('base64url');
+}
+
+export function verifyCalendarFeedToken(userId: string, token: string | null | undefined) {
+  if (!userId || !token || !isCalendarFeedConfigured()) return false;
+
+  const expected = Buffer.from(createCalendarFeedToken(userId));
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { MassSchedule, RadarEvent } from '../../types';
+import {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  massScheduleToIcsEvent,
+  radarEventToIcsEvent,
+} from './ics';
+
+function makeSchedule(overrides: Partial<MassSchedule>): MassSchedule {
+  return {
+    id: overrides.id ?? 'schedule-1',
+    church_id: overrides.church_id ?? 'church-1',
+    day_of_week: overrides.day_of_week ?? 0,
+    mass_time: overrides.mass_time ?? '07:00',
+    language: overrides.language ?? 'Indonesia',
+    notes: overrides.notes,
+    is_active: overrides.is_active ?? true,
+    created_at: overrides.created_at ?? '2026-01-01T00:00:00.000Z',
+  };
+}
+
+test('escapes text values and folds long lines at 75 octets', () => {
+  assert.equal(escapeIcsText('Misa; Kudus, Pagi\nGereja'), 'Misa\\; Kudus\\, Pagi\\nGereja');
+
+  const folded = foldIcsLine(`DESCRIPTION:${'a'.repeat(200)}`);
+  const lines = folded.split('\r\n');
+  assert.ok(lines.length > 1);
+  assert.ok(lines.every((line) => new TextEncoder().encode(line).length <= 75));
+  assert.ok(lines.slice(1).every((line) => line.startsWith(' ')));
+});
+
+test('mass schedule becomes a weekly recurring event in the church timezone', () => {
+  // Monday 19 Oct 2026, 20:00 WIB.
+  const now = new Date('2026-10-19T13:00:00.000Z');
+  const event = massScheduleToIcsEvent(
+    makeSchedule({ day_of_week: 0, mass_time: '23:30' }),
+    { id: 'church-1', name: 'Katedral Jakarta', address: 'Jl. Katedral No. 7B' },
+    'Asia/Jakarta',
+    now
+  );
+
+  assert.equal(event.rrule, 'FREQ=WEEKLY;BYDAY=SU');
+  assert.deepEqual(event.start, {
+    local: { year: 2026, month: 10, day: 25, hour: 23, minute: 30 },
+    tzid: 'Asia/Jakarta',
+  });
+  assert.deepEqual(event.end, {
+    local: { year: 2026, month: 10, day: 26, hour: 0, minute: 30 },
+    tzid: 'Asia/Jakarta',
+  });
+
+  const body = buildIcsCalendar({
+    name: 'Jadwal Misa Katedral Jakarta',
+    timezone: 'Asia/Jakarta',
+    events: [event],
+    now,
+  });
+  assert.ok(body.includes('DTSTART;TZID=Asia/Jakarta:20261025T233000\r\n'));
+  assert.ok(body.includes('TZOFFSETTO:+0700\r\n'));
+  assert.ok(body.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n'));
+  assert.ok(body.endsWith('END:VCALENDAR\r\n'));
+});
+
+test('radar event uses UTC times and falls back to the default duration', () => {
+  const event = radarEventToIcsEvent({
+    id: 'radar-1',
+    title: 'Misa Bersama OMK',
+    description: '',
+    event_starts_at_utc: '2026-10-25T00:00:00.000Z',
+    event_ends_at_utc: '',
+    status: 'CANCELLED',
+    updated_at: '2026-10-20T00:00:00.000Z',
+    church: { id: 'church-1', name: 'Katedral Jakarta' },
+  } as RadarEvent);
+
+  assert.deepEqual(event.start, { utc: new Date('2026-10-25T00:00:00.000Z') });
+  assert.deepEqual(event.end, { utc: new Date('2026-10-25T01:30:00.000Z') });
+  assert.equal(event.status, 'CANCELLED');
+  assert.equal(event.location, 'Katedral Jakarta');
+});
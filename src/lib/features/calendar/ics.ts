@@ -0,0 +1,218 @@
+import type { Church, MassSchedule, RadarEvent } from '@/lib/types';
+import { CALENDAR_SETTINGS, RADAR_SETTINGS } from '@/lib/constants';
+import { getTimeZoneOffsetMinutes, getZonedDateParts } from '@/lib/features/schedule/mass-occurrence';
+
+// Minimal RFC 5545 writer for the calendar feeds under /api/calendar.
+
+export type IcsDateTime =
+  | { utc: Date }
+  | { local: { year: number; month: number; day: number; hour: number; minute: number }; tzid: string };
+
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  start: IcsDateTime;
+  end: IcsDateTime;
+  description?: string;
+  location?: string;
+  url?: string;
+  rrule?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified?: Date;
+};
+
+export type IcsCalendar = {
+  name: string;
+  description?: string;
+  timezone?: string;
+  events: IcsEvent[];
+  now?: Date;
+};
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+function pad(value: number, length = 2) {
+  return value.toString().padStart(length, '0');
+}
+
+export function escapeIcsText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,');
+}
+
+// Lines longer than 75 octets are folded with CRLF + a single space.
+export function foldIcsLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function formatIcsUtc(value: Date) {
+  return (
+    `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}` +
+    `T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}${pad(value.getUTCSeconds())}Z`
+  );
+}
+
+function formatIcsDateTimeProperty(name: string, value: IcsDateTime) {
+  if ('utc' in value) {
+    return `${name}:${formatIcsUtc(value.utc)}`;
+  }
+  const { year, month, day, hour, minute } = value.local;
+  return `${name};TZID=${value.tzid}:${pad(year, 4)}${pad(month)}${pad(day)}T${pad(hour)}${pad(minute)}00`;
+}
+
+// Indonesian zones have no daylight saving, so a single STANDARD block that
+// mirrors the zone's current offset is enough for calendar clients.
+function buildTimeZoneBlock(timeZone: string, now: Date) {
+  const offsetMinutes = getTimeZoneOffsetMinutes(timeZone, now);
+  const absolute = Math.abs(offsetMinutes);
+  const offset = `${offsetMinutes < 0 ? '-' : '+'}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+}
+
+export function buildIcsCalendar({ name, description, timezone, events, now = new Date() }: IcsCalendar) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_SETTINGS.PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${CALENDAR_SETTINGS.FEED_REFRESH_HOURS}H`,
+    `X-PUBLISHED-TTL:PT${CALENDAR_SETTINGS.FEED_REFRESH_HOURS}H`,
+  ];
+  if (description) {
+    lines.push(`X-WR-CALDESC:${escapeIcsText(description)}`);
+  }
+  if (timezone) {
+    lines.push(`X-WR-TIMEZONE:${timezone}`, ...buildTimeZoneBlock(timezone, now));
+  }
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcsUtc(now)}`,
+      formatIcsDateTimeProperty('DTSTART', event.start),
+      formatIcsDateTimeProperty('DTEND', event.end),
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsUtc(event.lastModified)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+}
+
+function shiftLocalDateTime(
+  local: { year: number; month: number; day: number; hour: number; minute: number },
+  minutes: number
+) {
+  const shifted = new Date(
+    Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) + minutes * 60 * 1000
+  );
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+  };
+}
+
+/** Weekly recurring event anchored on the next occurrence in the church's timezone. */
+export function massScheduleToIcsEvent(
+  schedule: MassSchedule,
+  church: Pick<Church, 'id' | 'name' | 'address'>,
+  timeZone: string,
+  now = new Date()
+): IcsEvent {
+  const { year, month, day, weekday } = getZonedDateParts(now, timeZone);
+  const offsetDays = (schedule.day_of_week - weekday + 7) % 7;
+  const [hour = '0', minute = '0'] = schedule.mass_time.split(':');
+  const start = shiftLocalDateTime(
+    { year, month, day, hour: Number(hour), minute: Number(minute) },
+    offsetDays * 24 * 60
+  );
+  const end = shiftLocalDateTime(start, CALENDAR_SETTINGS.MASS_DURATION_MINUTES);
+
+  const details = [`Bahasa: ${schedule.language}`, schedule.notes].filter(Boolean).join('\n');
+
+  return {
+    uid: `mass-${schedule.id}@mycatholic`,
+    summary: `Misa ${church.name}`,
+    start: { local: start, tzid: timeZone },
+    end: { local: end, tzid: timeZone },
+    rrule: `FREQ=WEEKLY;BYDAY=${ICS_WEEKDAYS[schedule.day_of_week] ?? 'SU'}`,
+    description: details,
+    location: church.address || church.name,
+  };
+}
+
+export function radarEventToIcsEvent(event: RadarEvent, url?: string): IcsEvent {
+  const start = new Date(event.event_starts_at_utc);
+  const parsedEnd = new Date(event.event_ends_at_utc);
+  const end =
+    !Number.isNaN(parsedEnd.getTime()) && parsedEnd > start
+      ? parsedEnd
+      : new Date(start.getTime() + RADAR_SETTINGS.DEFAULT_DURATION_MINUTES * 60 * 1000);
+  const updatedAt = new Date(event.updated_at);
+
+  return {
+    uid: `radar-${event.id}@mycatholic`,
+    summary: event.title || 'Radar Misa',
+    start: { utc: start },
+    end: { utc: end },
+    description: event.description?.trim() || undefined,
+    location: event.church?.address || event.church?.name,
+    url,
+    status: event.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: Number.isNaN(updatedAt.getTime()) ? undefined : updatedAt,
+  };
+}
+
+export function createIcsResponse(body: string, options?: { filename?: string; download?: boolean }) {
+  const filename = options?.filename || 'kalender.ics';
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `${options?.download ? 'attachment' : 'inline'}; filename="${filename}"`,
+      'Cache-Control': 'private, max-age=900',
+    },
+  });
+}
@@ -0,0 +1,19 @@
+// Calendar Hooks
+
+'use client';
+
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { CalendarService } from './calendar-service';
+
+export function useSubscribePersonalCalendar() {
+  return useMutation({
+    mutationFn: () => CalendarService.getPersonalFeedUrl(),
+    onSuccess: (url) => {
+      window.location.href = CalendarService.toWebcalUrl(url);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
@@ -1,17 +1,40 @@
 // Chat Service
 
+import { CHAT_SETTINGS } from '@/lib/constants';
 import { supabase } from '@/lib/supabase/client';
 import { createRandomToken, createRandomUUID } from '@/lib/utils';
 import type {
   ChatMember,
   ChatProfile,
   GroupJoinRequest,
+  MessageLocation,
   SocialChat,
   SocialMessage,
+  SocialMessageEdit,
 } from '@/lib/types';
+import { buildMapsUrl, formatLocationPreview, parseMessageLocation } from './location-message';
+import { canEditMessage } from './message-edits';
+import { parseWaveform } from './voice-note';
 
 type ChatFilter = 'all' | 'unread' | 'groups' | 'archived';
 
+// Columns every member may read. last_read_at is private to its member and is
+// read back through get_chat_last_read_at.
+const CHAT_MEMBER_COLUMNS = [
+  'id',
+  'chat_id',
+  'user_id',
+  'role',
+  'status',
+  'pinned_at',
+  'archived_at',
+  'muted_until',
+  'read_receipt_at',
+  'joined_at',
+  'left_at',
+  'kicked_at',
+];
+
 interface ChatMemberRow {
   chat_id: string;
   unread_count?: number | null;
@@ -28,6 +51,42 @@ function isMissingColumnError(message: string, column: string) {
   );
 }
 
+function findMissingColumn(message: string, columns: string[]) {
+  return columns.find(
+    (column) => new RegExp(`\\b${column}\\b`).test(message) && isMissingColumnError(message, column)
+  );
+}
+
+function selectChatMembers(chatId: string, columns: string[]) {
+  return supabase
+    .from('chat_members')
+    .select(`${columns.join(', ')}, profiles:user_id(id, full_name, avatar_url, role)`)
+    .eq('chat_id', chatId)
+    .order('joined_at', { ascending: true });
+}
+
+async function getOwnLastReadAt(chatId: string, userId: string) {
+  const rpcResult = await supabase.rpc('get_chat_last_read_at', { p_chat_id: chatId });
+  if (!rpcResult.error) {
+    return rpcResult.data?.toString() || undefined;
+  }
+
+  // Before the read receipts hotfix last_read_at is still readable directly.
+  const { data, error } = await supabase
+    .from('chat_members')
+    .select('last_read_at')
+    .eq('chat_id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    if (!isMissingColumnError(error.message, 'last_read_at')) {
+      console.error('Error fetching last read position:', error);
+    }
+    return undefined;
+  }
+  return (data as Record<string, unknown> | null)?.last_read_at?.toString() || undefined;
+}
+
 function isMissingObjectError(message: string) {
   const normalized = message.toLowerCase();
   return (
@@ -102,10 +161,18 @@ function mapMessageRow(row: Record<string, unknown>): SocialMessage {
     media_url: row.media_url?.toString(),
     file_name: row.file_name?.toString(),
     file_size: typeof row.file_size === 'number' ? row.file_size : undefined,
+    media_duration:
+      row.media_duration != null && Number.isFinite(Number(row.media_duration))
+        ? Number(row.media_duration)
+        : undefined,
+    waveform: parseWaveform(row.waveform),
+    location: parseMessageLocation(row.location),
+    poll_id: row.poll_id?.toString() || undefined,
     reply_to_id: row.reply_to_id?.toString(),
     reactions: (row.reactions as Record<string, string[]>) ?? {},
     created_at: createdAt,
     updated_at: row.updated_at?.toString() ?? createdAt,
+    edited_at: row.edited_at?.toString() || undefined,
     sender,
   };
 }
@@ -376,6 +443,10 @@ export class ChatService {
       imageFile?: File;
       messageType: SocialMessage['message_type'];
       replyToId?: string;
+      mediaDuration?: number;
+      waveform?: number[];
+      location?: MessageLocation;
+      pollId?: string;
     }
   ): Promise<SocialMessage> {
     let mediaUrl: string | undefined = data.imageUrl;
@@ -394,12 +465,29 @@ export class ChatService {
       file_name: data.imageFile?.name,
       file_size: data.imageFile?.size,
       reply_to_id: data.replyToId,
+      media_duration: data.mediaDuration,
+      waveform: data.waveform,
+      location: data.location,
+      poll_id: data.pollId,
       created_at: now,
       updated_at: now,
     });
 
-    await this.updateChatMetadata(data.chatId, data.content || '[Media]', now);
-    return mapMessageRow(insertedRow);
+    const fallbackPreview = data.mediaDuration !== undefined ? '[Pesan suara]' : '[Media]';
+    const preview = data.location
+      ? formatLocationPreview(data.location)
+      : data.pollId
+        ? `📊 ${data.content ?? 'Polling'}`
+        : data.content || fallbackPreview;
+    await this.updateChatMetadata(data.chatId, preview, now);
+    // Voice note, location and poll fields are not in the insert select list so older schemas still return a row.
+    return mapMessageRow({
+      poll_id: data.pollId,
+      media_duration: data.mediaDuration,
+      waveform: data.waveform,
+      location: data.location,
+      ...insertedRow,
+    });
   }
 
   // Get messages with pagination
@@ -542,26 +630,140 @@ export class ChatService {
     }
   }
 
-  // Mark messages as read
-  static async markAsRead(userId: string, chatId: string) {
+  // Edit own text message; the replaced content is kept as edit history
+  static async editMessage(userId: string, messageId: string, rawContent: string): Promise<SocialMessage> {
+    const content = rawContent.trim();
+    if (!content) {
+      throw new Error('Pesan tidak boleh kosong');
+    }
+    if (content.length > CHAT_SETTINGS.MAX_MESSAGE_LENGTH) {
+      throw new Error(`Pesan maksimal ${CHAT_SETTINGS.MAX_MESSAGE_LENGTH} karakter`);
+    }
+
+    const { data: existingRow, error: fetchError } = await supabase
+      .from('social_messages')
+      .select(
+        `
+        *,
+        profiles:sender_id (
+          id,
+          full_name,
+          avatar_url,
+          role
+        )
+      `
+      )
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(fetchError.message);
+    }
+    if (!existingRow) {
+      throw new Error('Pesan tidak ditemukan');
+    }
+
+    const existing = mapMessageRow(existingRow as Record<string, unknown>);
+    if (!canEditMessage(existing, userId)) {
+      throw new Error(
+        `Pesan hanya bisa diedit oleh pengirimnya dalam ${CHAT_SETTINGS.EDIT_WINDOW_MINUTES} menit setelah dikirim`
+      );
+    }
+    if ((existing.content ?? '') === content) {
+      return existing;
+    }
+
+    const editedAt = new Date().toISOString();
+    let updateResult = await supabase
+      .from('social_messages')
+      .update({ content, edited_at: editedAt })
+      .eq('id', messageId)
+      .eq('sender_id', userId)
+      .select('*')
+      .single();
+
+    if (updateResult.error && isMissingColumnError(updateResult.error.message, 'edited_at')) {
+      updateResult = await supabase
+        .from('social_messages')
+        .update({ content })
+        .eq('id', messageId)
+        .eq('sender_id', userId)
+        .select('*')
+        .single();
+    }
+
+    if (updateResult.error) {
+      throw new Error(updateResult.error.message);
+    }
+
+    await this.recordMessageEdit(messageId, userId, existing.content ?? '', editedAt);
+    await this.syncLastMessageAfterEdit(existing.chat_id, messageId, content);
+
+    const updated = mapMessageRow(updateResult.data as Record<string, unknown>);
+    return {
+      ...updated,
+      edited_at: updated.edited_at ?? editedAt,
+      sender: existing.sender,
+    };
+  }
+
+  // Previous versions of a message, oldest first
+  static async getMessageEditHistory(messageId: string): Promise<SocialMessageEdit[]> {
+    const { data, error } = await supabase
+      .from('social_message_edits')
+      .select('id, message_id, editor_id, previous_content, edited_at')
+      .eq('message_id', messageId)
+      .order('edited_at', { ascending: true });
+
+    if (error) {
+      if (!isMissingObjectError(error.message)) {
+        console.error('Error fetching message edit history:', error);
+      }
+      return [];
+    }
+
+    return ((data ?? []) as Record<string, unknown>[]).map((row) => ({
+      id: row.id?.toString() ?? createRandomUUID(),
+      message_id: row.message_id?.toString() ?? messageId,
+      editor_id: row.editor_id?.toString() ?? '',
+      previous_content: row.previous_content?.toString() ?? '',
+      edited_at: row.edited_at?.toString() ?? new Date().toISOString(),
+    }));
+  }
+
+  // Mark messages as read; the shared read receipt only moves when the user sends receipts
+  static async markAsRead(userId: string, chatId: string, sendReadReceipt = true) {
     const rpcResult = await supabase.rpc('mark_messages_as_read', {
       p_chat_id: chatId,
       p_message_ids: null,
     });
 
-    if (!rpcResult.error) {
+    const now = new Date().toISOString();
+
+    if (rpcResult.error) {
+      const withLastRead = await supabase
+        .from('chat_members')
+        .update({ last_read_at: now })
+        .eq('chat_id', chatId)
+        .eq('user_id', userId);
+
+      if (withLastRead.error && !isMissingColumnError(withLastRead.error.message, 'last_read_at')) {
+        console.error('Error marking chat as read:', withLastRead.error);
+      }
+    }
+
+    if (!sendReadReceipt) {
       return;
     }
 
-    const now = new Date().toISOString();
-    const withLastRead = await supabase
+    const receiptResult = await supabase
       .from('chat_members')
-      .update({ last_read_at: now })
+      .update({ read_receipt_at: now })
       .eq('chat_id', chatId)
       .eq('user_id', userId);
 
-    if (withLastRead.error && !isMissingColumnError(withLastRead.error.message, 'last_read_at')) {
-      console.error('Error marking chat as read:', withLastRead.error);
+    if (receiptResult.error && !isMissingColumnError(receiptResult.error.message, 'read_receipt_at')) {
+      console.error('Error updating read receipt:', receiptResult.error);
     }
   }
 
@@ -727,20 +929,26 @@ export class ChatService {
     return mapChatRow(chatRow as Record<string, unknown>);
   }
 
-  // Get chat members
-  static async getChatMembers(chatId: string): Promise<ChatMember[]> {
-    const { data, error } = await supabase
-      .from('chat_members')
-      .select('*, profiles:user_id(id, full_name, avatar_url, role)')
-      .eq('chat_id', chatId)
-      .order('joined_at', { ascending: true });
+  // Get chat members; only the viewer's own row carries last_read_at
+  static async getChatMembers(chatId: string, viewerId?: string): Promise<ChatMember[]> {
+    let columns = [...CHAT_MEMBER_COLUMNS];
+    let result = await selectChatMembers(chatId, columns);
+    for (let attempt = 0; result.error && attempt < CHAT_MEMBER_COLUMNS.length; attempt += 1) {
+      const missing = findMissingColumn(result.error.message, columns);
+      if (!missing) break;
+      columns = columns.filter((column) => column !== missing);
+      result = await selectChatMembers(chatId, columns);
+    }
 
-    if (error) {
-      console.error('Error fetching chat members:', error);
+    if (result.error) {
+      console.error('Error fetching chat members:', result.error);
       return [];
     }
 
-    return ((data ?? []) as Record<string, unknown>[]).map((row) => ({
+    const hasReceipts = columns.includes('read_receipt_at');
+    const viewerLastReadAt = viewerId ? await getOwnLastReadAt(chatId, viewerId) : undefined;
+
+    return ((result.data ?? []) as unknown as Record<string, unknown>[]).map((row) => ({
       id: row.id?.toString() ?? `${row.chat_id?.toString()}:${row.user_id?.toString()}`,
       chat_id: row.chat_id?.toString() ?? chatId,
       user_id: row.user_id?.toString() ?? '',
@@ -749,7 +957,9 @@ export class ChatService {
       pinned_at: row.pinned_at?.toString(),
       archived_at: row.archived_at?.toString(),
       muted_until: row.muted_until?.toString(),
-      last_read_at: row.last_read_at?.toString(),
+      last_read_at: viewerId && row.user_id?.toString() === viewerId ? viewerLastReadAt : undefined,
+      // Older schemas have no receipt column, so receipts are unavailable there.
+      read_receipt_at: hasReceipts ? row.read_receipt_at?.toString() ?? null : undefined,
       joined_at: row.joined_at?.toString() ?? new Date().toISOString(),
       left_at: row.left_at?.toString(),
       kicked_at: row.kicked_at?.toString(),
@@ -1190,10 +1400,46 @@ export class ChatService {
       .eq('id', chatId);
   }
 
+  private static async recordMessageEdit(
+    messageId: string,
+    editorId: string,
+    previousContent: string,
+    editedAt: string
+  ) {
+    const { error } = await supabase.from('social_message_edits').insert({
+      message_id: messageId,
+      editor_id: editorId,
+      previous_content: previousContent,
+      edited_at: editedAt,
+    });
+
+    // History is best-effort; the edit itself already succeeded.
+    if (error && !isMissingObjectError(error.message)) {
+      console.error('Error recording message edit:', error);
+    }
+  }
+
+  // Keep the inbox preview in sync when the newest message is edited, without reordering the chat.
+  private static async syncLastMessageAfterEdit(chatId: string, messageId: string, content: string) {
+    const { data: latest } = await supabase
+      .from('social_messages')
+      .select('id, created_at')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!latest || latest.id?.toString() !== messageId) {
+      return;
+    }
+
+    await this.updateChatMetadata(chatId, content, latest.created_at?.toString() ?? new Date().toISOString());
+  }
+
   private static async insertMessageWithFallback(payload: Record<string, unknown>) {
     const insertPayload: Record<string, unknown> = { ...payload };
 
-    for (let attempt = 0; attempt < 8; attempt += 1) {
+    for (let attempt = 0; attempt < 10; attempt += 1) {
       const insertResult = await supabase
         .from('social_messages')
         .insert(insertPayload)
@@ -1243,6 +1489,30 @@ export class ChatService {
         continue;
       }
 
+      if (isMissingColumnError(errorMessage, 'media_duration') && 'media_duration' in insertPayload) {
+        delete insertPayload['media_duration'];
+        continue;
+      }
+
+      if (isMissingColumnError(errorMessage, 'waveform') && 'waveform' in insertPayload) {
+        delete insertPayload['waveform'];
+        continue;
+      }
+
+      if (isMissingColumnError(errorMessage, 'poll_id') && 'poll_id' in insertPayload) {
+        throw new Error('Polling di chat belum tersedia. Hubungi admin untuk mengaktifkannya.');
+      }
+
+      if (isMissingColumnError(errorMessage, 'location') && 'location' in insertPayload) {
+        // Without the column, keep a working maps link in the text so the pin is not lost.
+        const location = parseMessageLocation(insertPayload['location']);
+        if (location) {
+          insertPayload.content = [insertPayload['content'], buildMapsUrl(location)].filter(Boolean).join('\n');
+        }
+        delete insertPayload['location'];
+        continue;
+      }
+
       throw new Error(errorMessage);
     }
 
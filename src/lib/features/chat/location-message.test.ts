@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildMapsUrl, parseMessageLocation } from './location-message';
+
+test('parses stored locations and rejects payloads without a place', () => {
+  assert.deepEqual(parseMessageLocation('{"label":"Katedral","latitude":"-6.17","longitude":106.83}'), {
+    label: 'Katedral',
+    latitude: -6.17,
+    longitude: 106.83,
+    address: undefined,
+    church_id: undefined,
+  });
+  assert.equal(parseMessageLocation({ label: 'Rumah', latitude: 0, longitude: 0 }), undefined);
+  assert.equal(parseMessageLocation({ latitude: -6.17, longitude: 106.83 }), undefined);
+  assert.equal(parseMessageLocation('nope'), undefined);
+});
+
+test('links coordinates directly and falls back to the church address', () => {
+  assert.equal(
+    buildMapsUrl({ label: 'Lokasi saya', latitude: -6.2, longitude: 106.8 }),
+    'https://www.google.com/maps/search/?api=1&query=-6.2%2C106.8'
+  );
+  assert.equal(
+    buildMapsUrl({ label: 'Gereja Santo Yosef', address: 'Jl. Matraman 127' }),
+    'https://www.google.com/maps/search/?api=1&query=Gereja%20Santo%20Yosef%2C%20Jl.%20Matraman%20127'
+  );
+});
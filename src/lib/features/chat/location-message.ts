@@ -0,0 +1,61 @@
+import type { Church, MessageLocation } from '@/lib/types';
+import { isValidGeoPoint } from '@/lib/features/schedule/geo';
+
+const MAPS_SEARCH_URL = 'https://www.google.com/maps/search/?api=1&query=';
+
+function toCoordinate(value: unknown) {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function buildChurchLocation(church: Church): MessageLocation {
+  return {
+    label: church.name,
+    latitude: church.latitude,
+    longitude: church.longitude,
+    address: church.address,
+    church_id: church.id,
+  };
+}
+
+/** A location is usable when it has a label and either valid coordinates or an address. */
+export function parseMessageLocation(raw: unknown): MessageLocation | undefined {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+  const row = value as Record<string, unknown>;
+  const point = { latitude: toCoordinate(row.latitude), longitude: toCoordinate(row.longitude) };
+  const hasPoint = isValidGeoPoint(point);
+  const address = row.address?.toString().trim() || undefined;
+  const label = row.label?.toString().trim() || '';
+  if (!label || (!hasPoint && !address)) return undefined;
+
+  return {
+    label,
+    latitude: hasPoint ? point.latitude : undefined,
+    longitude: hasPoint ? point.longitude : undefined,
+    address,
+    church_id: row.church_id?.toString() || undefined,
+  };
+}
+
+/** Coordinates pin the exact spot; a church without them is searched by name and address. */
+export function buildMapsUrl(location: MessageLocation) {
+  const point = { latitude: location.latitude, longitude: location.longitude };
+  const query = isValidGeoPoint(point)
+    ? `${point.latitude},${point.longitude}`
+    : [location.label, location.address].filter(Boolean).join(', ');
+  return `${MAPS_SEARCH_URL}${encodeURIComponent(query)}`;
+}
+
+export function formatLocationPreview(location: MessageLocation) {
+  return `📍 ${location.label}`;
+}
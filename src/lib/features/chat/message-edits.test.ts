@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildMessageVersions, canEditMessage } from './message-edits';
+
+const createdAt = '2026-10-19T08:00:00.000Z';
+const message = { sender_id: 'u1', message_type: 'text' as const, created_at: createdAt };
+
+test('only the sender can edit text messages inside the edit window', () => {
+  const start = new Date(createdAt).getTime();
+  assert.equal(canEditMessage(message, 'u1', start + 5 * 60 * 1000), true);
+  assert.equal(canEditMessage(message, 'u1', start + 16 * 60 * 1000), false);
+  assert.equal(canEditMessage(message, 'u2', start), false);
+  assert.equal(canEditMessage({ ...message, message_type: 'image' }, 'u1', start), false);
+  assert.equal(canEditMessage(message, undefined, start), false);
+});
+
+test('rebuilds versions oldest first from stored previous contents', () => {
+  const versions = buildMessageVersions({ content: 'c', created_at: createdAt }, [
+    { id: 'e2', message_id: 'm', editor_id: 'u1', previous_content: 'b', edited_at: '2026-10-19T08:05:00.000Z' },
+    { id: 'e1', message_id: 'm', editor_id: 'u1', previous_content: 'a', edited_at: '2026-10-19T08:02:00.000Z' },
+  ]);
+
+  assert.deepEqual(versions, [
+    { content: 'a', at: createdAt, is_current: false },
+    { content: 'b', at: '2026-10-19T08:02:00.000Z', is_current: false },
+    { content: 'c', at: '2026-10-19T08:05:00.000Z', is_current: true },
+  ]);
+  assert.deepEqual(buildMessageVersions({ content: 'x', created_at: createdAt }, []), [
+    { content: 'x', at: createdAt, is_current: true },
+  ]);
+});
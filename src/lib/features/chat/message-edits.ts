@@ -0,0 +1,52 @@
+import { CHAT_SETTINGS } from '@/lib/constants';
+import type { SocialMessage, SocialMessageEdit } from '@/lib/types';
+
+export interface MessageVersion {
+  content: string;
+  at: string;
+  is_current: boolean;
+}
+
+export function getMessageEditDeadline(createdAt: string) {
+  const createdTime = new Date(createdAt).getTime();
+  if (!Number.isFinite(createdTime)) return 0;
+  return createdTime + CHAT_SETTINGS.EDIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+// Only the sender may edit their own text messages, and only inside the edit window.
+export function canEditMessage(
+  message: Pick<SocialMessage, 'sender_id' | 'message_type' | 'created_at'>,
+  userId?: string,
+  now = Date.now()
+) {
+  if (!userId || message.sender_id !== userId) return false;
+  if (message.message_type !== 'text') return false;
+  return now <= getMessageEditDeadline(message.created_at);
+}
+
+/**
+ * Rebuilds every version of a message, oldest first. Each edit row stores the
+ * content it replaced, so version N+1 starts at the moment edit N was saved.
+ */
+export function buildMessageVersions(
+  message: Pick<SocialMessage, 'content' | 'created_at'>,
+  edits: SocialMessageEdit[]
+): MessageVersion[] {
+  const sorted = [...edits].sort(
+    (a, b) => new Date(a.edited_at).getTime() - new Date(b.edited_at).getTime()
+  );
+
+  const versions: MessageVersion[] = sorted.map((edit, index) => ({
+    content: edit.previous_content,
+    at: index === 0 ? message.created_at : sorted[index - 1].edited_at,
+    is_current: false,
+  }));
+
+  versions.push({
+    content: message.content ?? '',
+    at: sorted.length > 0 ? sorted[sorted.length - 1].edited_at : message.created_at,
+    is_current: true,
+  });
+
+  return versions;
+}
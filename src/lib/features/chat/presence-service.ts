@@ -0,0 +1,87 @@
+// Presence Service
+
+import { supabase } from '@/lib/supabase/client';
+import type { PresenceSettings } from '@/lib/types';
+
+export const PRESENCE_CHANNEL = 'presence:online';
+
+function isMissingObjectError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes('does not exist') ||
+    normalized.includes('42p01') ||
+    normalized.includes('could not find')
+  );
+}
+
+export class PresenceService {
+  // Rows of users who hide last seen are filtered out by RLS
+  static async getLastSeen(userIds: string[]): Promise<Record<string, string>> {
+    const uniqueIds = Array.from(new Set(userIds.filter(Boolean)));
+    if (uniqueIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('user_presence')
+      .select('user_id, last_seen_at, show_last_seen')
+      .in('user_id', uniqueIds);
+
+    if (error) {
+      if (!isMissingObjectError(error.message)) {
+        console.error('Error fetching last seen:', error);
+      }
+      return {};
+    }
+
+    const result: Record<string, string> = {};
+    for (const row of (data ?? []) as Record<string, unknown>[]) {
+      const userId = row.user_id?.toString();
+      const lastSeenAt = row.last_seen_at?.toString();
+      if (!userId || !lastSeenAt || row.show_last_seen === false) continue;
+      result[userId] = lastSeenAt;
+    }
+    return result;
+  }
+
+  static async touchLastSeen(userId: string) {
+    const { error } = await supabase
+      .from('user_presence')
+      .upsert(
+        { user_id: userId, last_seen_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      );
+
+    if (error && !isMissingObjectError(error.message)) {
+      console.error('Error updating last seen:', error);
+    }
+  }
+
+  static async getSettings(userId: string): Promise<PresenceSettings> {
+    const { data, error } = await supabase
+      .from('user_presence')
+      .select('show_last_seen')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error && !isMissingObjectError(error.message)) {
+      console.error('Error fetching presence settings:', error);
+    }
+
+    return { show_last_seen: data?.show_last_seen !== false };
+  }
+
+  static async setShowLastSeen(userId: string, showLastSeen: boolean) {
+    const { error } = await supabase
+      .from('user_presence')
+      .upsert(
+        { user_id: userId, show_last_seen: showLastSeen, last_seen_at: new Date().toISOString() },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      if (isMissingObjectError(error.message)) {
+        throw new Error('Pengaturan status online belum tersedia di server.');
+      }
+      throw new Error(error.message);
+    }
+  }
+}
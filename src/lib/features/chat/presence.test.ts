@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { collectOnlineUserIds, formatLastSeen, formatTypingLabel, pruneTypingUsers } from './presence';
+
+test('collects users that still have at least one tracked tab', () => {
+  assert.deepEqual(collectOnlineUserIds({ u2: [{}], u1: [{}, {}], u3: [] }), ['u1', 'u2']);
+});
+
+test('formats last seen relative to now', () => {
+  const now = new Date('2026-10-19T10:00:00.000Z').getTime();
+  assert.equal(formatLastSeen(undefined, now), null);
+  assert.equal(formatLastSeen('not a date', now), null);
+  assert.equal(formatLastSeen('2026-10-19T09:59:30.000Z', now), 'Terakhir dilihat baru saja');
+  assert.equal(formatLastSeen('2026-10-19T09:55:00.000Z', now), 'Terakhir dilihat 5 menit yang lalu');
+});
+
+test('expires stale typing users and labels the rest', () => {
+  const now = 10_000;
+  const users = pruneTypingUsers(
+    [
+      { user_id: 'a', full_name: 'Maria Goretti', last_typed_at: 9_000 },
+      { user_id: 'b', full_name: 'Yohanes', last_typed_at: 1_000 },
+    ],
+    6_000,
+    now
+  );
+
+  assert.deepEqual(users.map((user) => user.user_id), ['a']);
+  assert.equal(formatTypingLabel(users, false), 'sedang mengetik…');
+  assert.equal(formatTypingLabel(users, true), 'Maria sedang mengetik…');
+  assert.equal(
+    formatTypingLabel([...users, { user_id: 'b', full_name: 'Yohanes', last_typed_at: now }], true),
+    'Maria dan Yohanes sedang mengetik…'
+  );
+  assert.equal(formatTypingLabel([], true), null);
+});
@@ -0,0 +1,33 @@
+import { formatDistanceStrict } from 'date-fns';
+import { id } from 'date-fns/locale';
+import type { ChatTypingUser } from '@/lib/types';
+
+// Presence state is keyed by user id; a key with no metas means every tab left.
+export function collectOnlineUserIds(state: Record<string, unknown[] | undefined>) {
+  return Object.entries(state)
+    .filter(([, metas]) => Array.isArray(metas) && metas.length > 0)
+    .map(([userId]) => userId)
+    .sort();
+}
+
+export function formatLastSeen(lastSeenAt?: string, now = Date.now()) {
+  if (!lastSeenAt) return null;
+  const lastSeenTime = new Date(lastSeenAt).getTime();
+  if (!Number.isFinite(lastSeenTime)) return null;
+  if (now - lastSeenTime < 60 * 1000) return 'Terakhir dilihat baru saja';
+  return `Terakhir dilihat ${formatDistanceStrict(lastSeenTime, now, { addSuffix: true, locale: id })}`;
+}
+
+export function pruneTypingUsers(users: ChatTypingUser[], timeoutMs: number, now = Date.now()) {
+  return users.filter((typingUser) => now - typingUser.last_typed_at < timeoutMs);
+}
+
+export function formatTypingLabel(users: ChatTypingUser[], isGroup: boolean) {
+  if (users.length === 0) return null;
+  if (!isGroup) return 'sedang mengetik…';
+
+  const names = users.map((typingUser) => typingUser.full_name?.split(' ')[0] || 'Seseorang');
+  if (names.length === 1) return `${names[0]} sedang mengetik…`;
+  if (names.length === 2) return `${names[0]} dan ${names[1]} sedang mengetik…`;
+  return `${names.length} orang sedang mengetik…`;
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { ChatMember } from '@/lib/types';
+import { buildMessageReceipt, getReceiptRecipients, hasReadReceipts } from './read-receipts';
+
+function member(userId: string, overrides: Partial<ChatMember> = {}): ChatMember {
+  return {
+    id: `c1:${userId}`,
+    chat_id: 'c1',
+    user_id: userId,
+    role: 'member',
+    status: 'JOINED',
+    joined_at: '2026-10-19T07:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const message = { created_at: '2026-10-19T08:00:00.000Z' };
+
+test('recipients exclude the sender and members who left', () => {
+  const recipients = getReceiptRecipients(
+    [member('me'), member('a'), member('b', { status: 'LEFT' }), member('c', { status: 'KICKED' })],
+    'me'
+  );
+  assert.deepEqual(recipients.map((recipient) => recipient.user_id), ['a']);
+});
+
+test('marks read only once every eligible recipient has caught up', () => {
+  const partial = buildMessageReceipt(message, [
+    member('a', { read_receipt_at: '2026-10-19T08:05:00.000Z' }),
+    member('b', { read_receipt_at: '2026-10-19T07:59:00.000Z' }),
+    member('c'),
+  ]);
+  assert.equal(partial.status, 'sent');
+  assert.deepEqual(partial.readers.map((reader) => reader.user_id), ['a']);
+  assert.deepEqual(partial.pending.map((pending) => pending.user_id), ['b', 'c']);
+
+  const full = buildMessageReceipt(message, [
+    member('a', { read_receipt_at: '2026-10-19T08:05:00.000Z' }),
+    member('late', { joined_at: '2026-10-19T09:00:00.000Z' }),
+  ]);
+  assert.equal(full.status, 'read');
+  assert.equal(full.total_recipients, 1);
+});
+
+test('a chat with no other members stays sent', () => {
+  assert.equal(buildMessageReceipt(message, []).status, 'sent');
+});
+
+test('receipts are unavailable without the receipt column', () => {
+  assert.equal(hasReadReceipts([member('a', { last_read_at: '2026-10-19T08:05:00.000Z' })]), false);
+  assert.equal(hasReadReceipts([member('a', { read_receipt_at: null }), member('b')]), true);
+});
@@ -0,0 +1,54 @@
+import type { ChatMember, MessageReceiptSummary, SocialMessage } from '@/lib/types';
+
+function toTime(value?: string | null) {
+  if (!value) return Number.NaN;
+  return new Date(value).getTime();
+}
+
+// Receipts need the read_receipt_at column; older schemas only have the private last_read_at.
+export function hasReadReceipts(members: ChatMember[]) {
+  return members.some((member) => member.read_receipt_at !== undefined);
+}
+
+// Active members other than the sender; a member who left or was kicked no longer owes a read.
+export function getReceiptRecipients(members: ChatMember[], senderId?: string) {
+  return members.filter(
+    (member) => member.user_id !== senderId && member.status !== 'LEFT' && member.status !== 'KICKED'
+  );
+}
+
+/**
+ * A recipient has read a message once their shared read position is at or after it.
+ * Members who joined after the message was sent are left out of the count.
+ */
+export function buildMessageReceipt(
+  message: Pick<SocialMessage, 'created_at'>,
+  recipients: ChatMember[]
+): MessageReceiptSummary {
+  const messageTime = toTime(message.created_at);
+  const eligible = recipients.filter((member) => {
+    const joinedTime = toTime(member.joined_at);
+    return !Number.isFinite(joinedTime) || !Number.isFinite(messageTime) || joinedTime <= messageTime;
+  });
+
+  const readers: MessageReceiptSummary['readers'] = [];
+  const pending: ChatMember[] = [];
+
+  for (const member of eligible) {
+    const readTime = toTime(member.read_receipt_at);
+    if (Number.isFinite(messageTime) && Number.isFinite(readTime) && readTime >= messageTime) {
+      readers.push({ user_id: member.user_id, profile: member.profile, read_at: member.read_receipt_at! });
+    } else {
+      pending.push(member);
+    }
+  }
+
+  readers.sort((a, b) => toTime(b.read_at) - toTime(a.read_at));
+
+  return {
+    status: eligible.length > 0 && pending.length === 0 ? 'read' : 'sent',
+    readers,
+    pending,
+    total_recipients: eligible.length,
+  };
+}
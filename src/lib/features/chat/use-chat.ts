@@ -4,6 +4,7 @@
 
 import { useEffect, useRef } from 'react';
 import {
+  type InfiniteData,
   useInfiniteQuery,
   useMutation,
   useQuery,
@@ -11,9 +12,10 @@ import {
 } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { ChatService } from './chat-service';
+import { supabase } from '@/lib/supabase/client';
 import { useAuth } from '@/lib/features/auth/use-auth';
 import { useUIStore } from '@/lib/store/ui-store';
-import type { SocialChat } from '@/lib/types';
+import type { MessageLocation, SocialChat, SocialMessage } from '@/lib/types';
 
 type ChatFilter = 'all' | 'unread' | 'groups' | 'archived';
 
@@ -172,25 +174,32 @@ export function useSendMessage() {
       imageUrl?: string;
       file?: File;
       replyToId?: string;
+      mediaDuration?: number;
+      waveform?: number[];
+      location?: MessageLocation;
+      pollId?: string;
     }) => {
       if (!user?.id) {
         throw new Error('Anda harus login untuk mengirim pesan');
       }
 
-      const messageType =
-        data.file
-          ? (
-              data.file.type.startsWith('image/')
-                ? 'image'
-                : data.file.type.startsWith('video/')
-                  ? 'video'
-                  : data.file.type.startsWith('audio/')
-                    ? 'audio'
-                    : 'file'
-            )
-          : data.imageUrl
-            ? ('image' as const)
-            : ('text' as const);
+      const messageType = data.pollId
+        ? ('poll' as const)
+        : data.location
+          ? ('location' as const)
+          : data.file
+            ? (
+                data.file.type.startsWith('image/')
+                  ? 'image'
+                  : data.file.type.startsWith('video/')
+                    ? 'video'
+                    : data.file.type.startsWith('audio/')
+                      ? 'audio'
+                      : 'file'
+              )
+            : data.imageUrl
+              ? ('image' as const)
+              : ('text' as const);
 
       return ChatService.sendMessage(user.id, {
         chatId: data.chatId,
@@ -199,6 +208,10 @@ export function useSendMessage() {
         imageFile: data.file,
         messageType,
         replyToId: data.replyToId,
+        mediaDuration: data.mediaDuration,
+        waveform: data.waveform,
+        location: data.location,
+        pollId: data.pollId,
       });
     },
     onSuccess: (_, variables) => {
@@ -289,7 +302,7 @@ export function useSetChatMuted() {
 
 // Mark a chat as read for current user
 export function useMarkChatAsRead() {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const queryClient = useQueryClient();
 
   return useMutation({
@@ -298,7 +311,7 @@ export function useMarkChatAsRead() {
         throw new Error('Anda harus login');
       }
 
-      await ChatService.markAsRead(user.id, chatId);
+      await ChatService.markAsRead(user.id, chatId, profile?.read_receipts_enabled !== false);
     },
     onSuccess: (_, chatId) => {
       queryClient.invalidateQueries({ queryKey: ['chats'] });
@@ -307,11 +320,70 @@ export function useMarkChatAsRead() {
   });
 }
 
+function patchCachedMessage(
+  data: InfiniteData<SocialMessage[]> | undefined,
+  messageId: string,
+  patch: Partial<SocialMessage>
+) {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page) =>
+      page.map((message) => (message.id === messageId ? { ...message, ...patch } : message))
+    ),
+  };
+}
+
+// Apply edits made by other members without refetching every loaded page
+function useChatMessageEditsRealtime(chatId: string, userId?: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!chatId || !userId) return;
+
+    const channel = supabase
+      .channel(`chat-message-edits:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'social_messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          const row = payload.new as Record<string, unknown>;
+          const messageId = row.id?.toString();
+          if (!messageId) return;
+
+          queryClient.setQueryData<InfiniteData<SocialMessage[]>>(['chat-messages', chatId], (current) =>
+            patchCachedMessage(current, messageId, {
+              content: row.content?.toString(),
+              edited_at: row.edited_at?.toString() || undefined,
+              updated_at: row.updated_at?.toString() ?? new Date().toISOString(),
+            })
+          );
+          if (row.edited_at) {
+            queryClient.invalidateQueries({ queryKey: ['message-edits', messageId] });
+            queryClient.invalidateQueries({ queryKey: ['chats'] });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, queryClient, userId]);
+}
+
 // Get chat messages with pagination
 export function useChatMessages(chatId: string) {
   const { user } = useAuth();
   const scrollToBottom = useRef<HTMLDivElement>(null);
 
+  useChatMessageEditsRealtime(chatId, user?.id);
+
   const query = useInfiniteQuery({
     queryKey: ['chat-messages', chatId],
     queryFn: async ({ pageParam }) => ChatService.getMessages(chatId, pageParam, 50),
@@ -351,13 +423,44 @@ export function useChatSearch(chatId: string, searchQuery: string, limit = 120)
   });
 }
 
+// Read receipts move when other members open the chat
+function useChatMembersRealtime(chatId: string, userId?: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!chatId || !userId) return;
+
+    const channel = supabase
+      .channel(`chat-members:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chat_members',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['chat-members', chatId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, queryClient, userId]);
+}
+
 // Get chat members
 export function useChatMembers(chatId: string) {
   const { user } = useAuth();
 
+  useChatMembersRealtime(chatId, user?.id);
+
   return useQuery({
     queryKey: ['chat-members', chatId],
-    queryFn: () => ChatService.getChatMembers(chatId),
+    queryFn: () => ChatService.getChatMembers(chatId, user?.id),
     enabled: Boolean(chatId && user?.id),
   });
 }
@@ -424,6 +527,45 @@ export function useDeleteMessage(chatId?: string) {
   });
 }
 
+// Edit own message within the edit window
+export function useEditMessage(chatId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ messageId, content }: { messageId: string; content: string }) => {
+      if (!user?.id) {
+        throw new Error('Anda harus login');
+      }
+      return ChatService.editMessage(user.id, messageId, content);
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<InfiniteData<SocialMessage[]>>(['chat-messages', chatId], (current) =>
+        patchCachedMessage(current, message.id, {
+          content: message.content,
+          edited_at: message.edited_at,
+          updated_at: message.updated_at,
+        })
+      );
+      queryClient.invalidateQueries({ queryKey: ['message-edits', message.id] });
+      queryClient.invalidateQueries({ queryKey: ['chat-search', chatId] });
+      queryClient.invalidateQueries({ queryKey: ['chats'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+// Previous versions of an edited message
+export function useMessageEditHistory(messageId?: string | null) {
+  return useQuery({
+    queryKey: ['message-edits', messageId],
+    queryFn: () => ChatService.getMessageEditHistory(messageId as string),
+    enabled: Boolean(messageId),
+  });
+}
+
 // Toggle message reaction
 export function useToggleReaction(chatId?: string) {
   const { user } = useAuth();
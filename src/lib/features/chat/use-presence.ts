@@ -0,0 +1,263 @@
+// Presence Hooks
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { toast } from 'sonner';
+import { CHAT_SETTINGS } from '@/lib/constants';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/features/auth/use-auth';
+import { usePresenceStore } from '@/lib/store/presence-store';
+import type { ChatTypingUser, UserPresence } from '@/lib/types';
+import { collectOnlineUserIds, pruneTypingUsers } from './presence';
+import { PRESENCE_CHANNEL, PresenceService } from './presence-service';
+
+// Own last-seen visibility
+export function usePresenceSettings() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['presence-settings', user?.id],
+    queryFn: () => {
+      if (!user?.id) {
+        return Promise.resolve({ show_last_seen: true });
+      }
+      return PresenceService.getSettings(user.id);
+    },
+    enabled: Boolean(user?.id),
+  });
+}
+
+export function useSetShowLastSeen() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (showLastSeen: boolean) => {
+      if (!user?.id) {
+        throw new Error('Anda harus login');
+      }
+      return PresenceService.setShowLastSeen(user.id, showLastSeen);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['presence-settings'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Joins the app-wide presence channel and keeps last_seen_at fresh. Users who
+ * hide their last seen still receive presence but are never tracked as online.
+ */
+export function usePresenceTracker() {
+  const { user } = useAuth();
+  const { data: settings } = usePresenceSettings();
+  const setOnlineUserIds = usePresenceStore((state) => state.setOnlineUserIds);
+  const isSettingsLoaded = Boolean(settings);
+  const showLastSeen = settings?.show_last_seen !== false;
+
+  useEffect(() => {
+    if (!user?.id || !isSettingsLoaded) return;
+
+    const channel = supabase.channel(PRESENCE_CHANNEL, {
+      config: { presence: { key: user.id } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(collectOnlineUserIds(channel.presenceState()));
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED' && showLastSeen) {
+          void channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    return () => {
+      setOnlineUserIds([]);
+      supabase.removeChannel(channel);
+    };
+  }, [isSettingsLoaded, setOnlineUserIds, showLastSeen, user?.id]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    const userId = user.id;
+
+    void PresenceService.touchLastSeen(userId);
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        void PresenceService.touchLastSeen(userId);
+      }
+    }, CHAT_SETTINGS.PRESENCE_HEARTBEAT_MS);
+
+    const handleVisibilityChange = () => {
+      void PresenceService.touchLastSeen(userId);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handleVisibilityChange);
+    };
+  }, [user?.id]);
+}
+
+export function useOnlineUserIds() {
+  const onlineUserIds = usePresenceStore((state) => state.onlineUserIds);
+  return useMemo(() => new Set(onlineUserIds), [onlineUserIds]);
+}
+
+// Online state plus last seen for a set of users
+export function useUsersPresence(userIds: string[]): Map<string, UserPresence> {
+  const { user } = useAuth();
+  const onlineUserIds = useOnlineUserIds();
+  const idsKey = useMemo(
+    () => Array.from(new Set(userIds.filter((userId) => userId && userId !== user?.id))).sort(),
+    [user?.id, userIds]
+  );
+
+  const { data: lastSeenById = {} } = useQuery({
+    queryKey: ['last-seen', idsKey],
+    queryFn: () => PresenceService.getLastSeen(idsKey),
+    enabled: idsKey.length > 0,
+    staleTime: CHAT_SETTINGS.PRESENCE_HEARTBEAT_MS,
+  });
+
+  return useMemo(
+    () =>
+      new Map(
+        idsKey.map((userId) => [
+          userId,
+          {
+            user_id: userId,
+            is_online: onlineUserIds.has(userId),
+            last_seen_at: lastSeenById[userId],
+          },
+        ])
+      ),
+    [idsKey, lastSeenById, onlineUserIds]
+  );
+}
+
+// "sedang mengetik…" over a per-chat broadcast channel
+export function useChatTyping(chatId: string) {
+  const { user, profile } = useAuth();
+  const [typingState, setTypingState] = useState<{ chatId: string; users: ChatTypingUser[] }>({
+    chatId,
+    users: [],
+  });
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const pendingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastSentAtRef = useRef(0);
+  const userId = user?.id;
+  const fullName = profile?.full_name;
+
+  const typingUsers = typingState.chatId === chatId ? typingState.users : [];
+
+  const sendTyping = useCallback(
+    (isTyping: boolean) => {
+      if (!userId) return;
+      void channelRef.current?.send({
+        type: 'broadcast',
+        event: 'typing',
+        payload: { user_id: userId, full_name: fullName, is_typing: isTyping },
+      });
+    },
+    [fullName, userId]
+  );
+
+  const stopTyping = useCallback(() => {
+    if (pendingTimerRef.current) clearTimeout(pendingTimerRef.current);
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    pendingTimerRef.current = null;
+    idleTimerRef.current = null;
+    if (lastSentAtRef.current > 0) {
+      lastSentAtRef.current = 0;
+      sendTyping(false);
+    }
+  }, [sendTyping]);
+
+  // Announce after a short pause so a single stray key doesn't flash the indicator,
+  // then refresh at most every TYPING_REFRESH_MS while the user keeps typing.
+  const notifyTyping = useCallback(() => {
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, CHAT_SETTINGS.TYPING_REFRESH_MS);
+
+    if (pendingTimerRef.current) return;
+    if (Date.now() - lastSentAtRef.current < CHAT_SETTINGS.TYPING_REFRESH_MS) return;
+
+    pendingTimerRef.current = setTimeout(() => {
+      pendingTimerRef.current = null;
+      lastSentAtRef.current = Date.now();
+      sendTyping(true);
+    }, CHAT_SETTINGS.TYPING_DEBOUNCE_MS);
+  }, [sendTyping, stopTyping]);
+
+  useEffect(() => {
+    if (!chatId || !userId) return;
+
+    const channel = supabase
+      .channel(`chat-typing:${chatId}`)
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const data = (payload ?? {}) as { user_id?: string; full_name?: string; is_typing?: boolean };
+        if (!data.user_id || data.user_id === userId) return;
+        const typingUserId = data.user_id;
+
+        setTypingState((current) => {
+          const others = (current.chatId === chatId ? current.users : []).filter(
+            (typingUser) => typingUser.user_id !== typingUserId
+          );
+          return {
+            chatId,
+            users: data.is_typing
+              ? [...others, { user_id: typingUserId, full_name: data.full_name, last_typed_at: Date.now() }]
+              : others,
+          };
+        });
+      })
+      .subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      if (pendingTimerRef.current) clearTimeout(pendingTimerRef.current);
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+      pendingTimerRef.current = null;
+      idleTimerRef.current = null;
+      if (lastSentAtRef.current > 0) {
+        lastSentAtRef.current = 0;
+        void channel.send({
+          type: 'broadcast',
+          event: 'typing',
+          payload: { user_id: userId, is_typing: false },
+        });
+      }
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, userId]);
+
+  // Drop users whose typing events stopped arriving (closed tab, lost connection).
+  const hasTypingUsers = typingUsers.length > 0;
+  useEffect(() => {
+    if (!hasTypingUsers) return;
+
+    const timer = setInterval(() => {
+      setTypingState((current) => {
+        const users = pruneTypingUsers(current.users, CHAT_SETTINGS.TYPING_TIMEOUT_MS);
+        return users.length === current.users.length ? current : { ...current, users };
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [hasTypingUsers]);
+
+  return { typingUsers, notifyTyping, stopTyping };
+}
@@ -0,0 +1,193 @@
+// Voice Recorder Hooks
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { CHAT_SETTINGS } from '@/lib/constants';
+import { buildWaveform, getVoiceNoteExtension, pickRecorderMimeType } from './voice-note';
+
+type RecorderStatus = 'idle' | 'starting' | 'recording' | 'preview';
+
+export interface VoiceNoteDraft {
+  file: File;
+  url: string;
+  durationSeconds: number;
+  waveform: number[];
+}
+
+const LIVE_BAR_COUNT = 32;
+const LIVE_UPDATE_MS = 100;
+
+// Records a voice note with MediaRecorder and samples input levels for the waveform.
+export function useVoiceRecorder() {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [liveLevels, setLiveLevels] = useState<number[]>([]);
+  const [draft, setDraft] = useState<VoiceNoteDraft | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const maxTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const levelsRef = useRef<number[]>([]);
+  const startedAtRef = useRef(0);
+  const discardRef = useRef(false);
+  const stopRequestedRef = useRef(false);
+  const draftUrlRef = useRef<string | null>(null);
+
+  const releaseInput = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    if (maxTimerRef.current) clearTimeout(maxTimerRef.current);
+    frameRef.current = null;
+    maxTimerRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    void audioContextRef.current?.close().catch(() => undefined);
+    audioContextRef.current = null;
+  }, []);
+
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+      return;
+    }
+    // Released before the microphone was ready; stop as soon as recording starts.
+    stopRequestedRef.current = true;
+  }, []);
+
+  const cancel = useCallback(() => {
+    discardRef.current = true;
+    stop();
+  }, [stop]);
+
+  const discardDraft = useCallback(() => {
+    if (draftUrlRef.current) URL.revokeObjectURL(draftUrlRef.current);
+    draftUrlRef.current = null;
+    setDraft(null);
+    setStatus('idle');
+  }, []);
+
+  const start = useCallback(async () => {
+    if (status !== 'idle') return;
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      toast.error('Browser ini tidak mendukung rekaman suara');
+      return;
+    }
+
+    discardRef.current = false;
+    stopRequestedRef.current = false;
+    setStatus('starting');
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+
+      const mimeType = pickRecorderMimeType((type) => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      recorderRef.current = recorder;
+      levelsRef.current = [];
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+
+      recorder.onstop = () => {
+        const durationSeconds = (Date.now() - startedAtRef.current) / 1000;
+        recorderRef.current = null;
+        releaseInput();
+        setLiveLevels([]);
+        setElapsedSeconds(0);
+
+        if (discardRef.current) {
+          setStatus('idle');
+          return;
+        }
+        if (durationSeconds < CHAT_SETTINGS.VOICE_NOTE_MIN_SECONDS || chunks.length === 0) {
+          toast.info('Tahan tombol mikrofon lebih lama untuk merekam');
+          setStatus('idle');
+          return;
+        }
+
+        const type = recorder.mimeType || mimeType || 'audio/webm';
+        const blob = new Blob(chunks, { type });
+        const file = new File([blob], `pesan-suara-${Date.now()}.${getVoiceNoteExtension(type)}`, { type });
+        const url = URL.createObjectURL(blob);
+        draftUrlRef.current = url;
+        setDraft({
+          file,
+          url,
+          durationSeconds: Math.round(durationSeconds * 10) / 10,
+          waveform: buildWaveform(levelsRef.current, CHAT_SETTINGS.VOICE_NOTE_WAVEFORM_BARS),
+        });
+        setStatus('preview');
+      };
+
+      const audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      audioContextRef.current = audioContext;
+
+      const samples = new Uint8Array(analyser.fftSize);
+      let lastUiUpdate = 0;
+      const sample = () => {
+        analyser.getByteTimeDomainData(samples);
+        let sumSquares = 0;
+        for (const value of samples) {
+          const normalized = (value - 128) / 128;
+          sumSquares += normalized * normalized;
+        }
+        levelsRef.current.push(Math.sqrt(sumSquares / samples.length));
+
+        const now = Date.now();
+        if (now - lastUiUpdate >= LIVE_UPDATE_MS) {
+          lastUiUpdate = now;
+          setLiveLevels(buildWaveform(levelsRef.current.slice(-LIVE_BAR_COUNT * 4), LIVE_BAR_COUNT));
+          setElapsedSeconds((now - startedAtRef.current) / 1000);
+        }
+        frameRef.current = requestAnimationFrame(sample);
+      };
+
+      startedAtRef.current = Date.now();
+      recorder.start(250);
+      setStatus('recording');
+      frameRef.current = requestAnimationFrame(sample);
+      maxTimerRef.current = setTimeout(() => recorder.stop(), CHAT_SETTINGS.VOICE_NOTE_MAX_SECONDS * 1000);
+
+      if (stopRequestedRef.current) {
+        recorder.stop();
+      }
+    } catch {
+      recorderRef.current = null;
+      releaseInput();
+      setStatus('idle');
+      toast.error('Mikrofon tidak bisa diakses. Periksa izin browser Anda.');
+    }
+  }, [releaseInput, status]);
+
+  useEffect(() => {
+    return () => {
+      discardRef.current = true;
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+        recorderRef.current.stop();
+      }
+      releaseInput();
+      if (draftUrlRef.current) URL.revokeObjectURL(draftUrlRef.current);
+    };
+  }, [releaseInput]);
+
+  return {
+    status,
+    elapsedSeconds,
+    liveLevels,
+    draft,
+    start,
+    stop,
+    cancel,
+    discardDraft,
+  };
+}
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildWaveform, formatAudioDuration, parseWaveform, pickRecorderMimeType } from './voice-note';
+
+test('picks the first recorder format the browser supports', () => {
+  assert.equal(pickRecorderMimeType((type) => type === 'audio/mp4'), 'audio/mp4');
+  assert.equal(pickRecorderMimeType(() => false), '');
+});
+
+test('formats durations as m:ss', () => {
+  assert.equal(formatAudioDuration(7.8), '0:07');
+  assert.equal(formatAudioDuration(125), '2:05');
+  assert.equal(formatAudioDuration(Number.NaN), '0:00');
+});
+
+test('buckets levels into normalized peaks', () => {
+  assert.deepEqual(buildWaveform([0.1, 0.2, 0.4, 0.1], 2), [0.5, 1]);
+  assert.deepEqual(buildWaveform([0.5], 3), [1, 1, 1]);
+  assert.deepEqual(buildWaveform([], 2), [0, 0]);
+});
+
+test('parses stored waveforms and clamps bars', () => {
+  assert.deepEqual(parseWaveform('[0.2, 1.4, -1, "x"]'), [0.2, 1, 0]);
+  assert.equal(parseWaveform('nope'), undefined);
+  assert.equal(parseWaveform([]), undefined);
+});
@@ -0,0 +1,59 @@
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export function pickRecorderMimeType(isTypeSupported: (mimeType: string) => boolean) {
+  return RECORDER_MIME_TYPES.find((mimeType) => isTypeSupported(mimeType)) ?? '';
+}
+
+export function getVoiceNoteExtension(mimeType: string) {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  return 'webm';
+}
+
+export function formatAudioDuration(totalSeconds?: number) {
+  const safeSeconds = Number.isFinite(totalSeconds) ? Math.max(0, Math.floor(totalSeconds ?? 0)) : 0;
+  const minutes = Math.floor(safeSeconds / 60);
+  const seconds = safeSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Buckets live input levels into a fixed number of bars, keeping each bucket's
+ * peak and scaling the loudest bar to 1 so quiet recordings still read well.
+ */
+export function buildWaveform(levels: number[], bars: number) {
+  if (bars <= 0) return [];
+  if (levels.length === 0) return Array.from({ length: bars }, () => 0);
+
+  const peaks = Array.from({ length: bars }, (_, index) => {
+    const start = Math.floor((index * levels.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((index + 1) * levels.length) / bars));
+    let peak = 0;
+    for (let cursor = start; cursor < end && cursor < levels.length; cursor += 1) {
+      peak = Math.max(peak, Math.abs(levels[cursor] ?? 0));
+    }
+    return peak;
+  });
+
+  const loudest = Math.max(...peaks);
+  if (loudest <= 0) return peaks.map(() => 0);
+  return peaks.map((peak) => Math.round((peak / loudest) * 100) / 100);
+}
+
+export function parseWaveform(raw: unknown) {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+  if (!Array.isArray(value)) return undefined;
+
+  const bars = value
+    .map((item) => Number(item))
+    .filter((item) => Number.isFinite(item))
+    .map((item) => Math.min(1, Math.max(0, item)));
+  return bars.length > 0 ? bars : undefined;
+}
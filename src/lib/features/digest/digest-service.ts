@@ -0,0 +1,346 @@
+// Digest Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EmailDigestFrequency, Notification } from '@/lib/types';
+import { DIGEST_SETTINGS } from '@/lib/constants';
+import { mapNotificationRow } from '@/lib/features/notifications/notification-service';
+import { resolveNotificationPreferences } from '@/lib/features/notifications/notification-preferences';
+import {
+  dedupeParticipants,
+  legacyRadarAdapter,
+  mapParticipantRow,
+  mapRadarEventRow,
+  v2RadarAdapter,
+} from '@/lib/features/radar/radar-service';
+import {
+  getDigestPeriodStart,
+  isEmailDigestEmpty,
+  renderEmailDigest,
+  type DigestInviteItem,
+  type DigestRadarItem,
+  type EmailDigestContent,
+} from './email-digest';
+import type { EmailTransport } from './email-transport';
+import { buildUnsubscribeUrl } from './unsubscribe-token';
+
+type DigestFrequency = Exclude<EmailDigestFrequency, 'off'>;
+
+export type DigestRunSummary = {
+  frequency: DigestFrequency;
+  considered: number;
+  sent: number;
+  empty: number;
+  noEmail: number;
+  failed: number;
+};
+
+const INVITE_TABLES = ['radar_invites_v2', 'radar_invites'] as const;
+
+function readRows(data: unknown) {
+  return (data ?? []) as Record<string, unknown>[];
+}
+
+// Runs with the service-role client because a digest covers other users'
+// data; everything here is read-only apart from the unsubscribe update.
+export class DigestService {
+  static async sendDigests(
+    client: SupabaseClient,
+    params: {
+      frequency: DigestFrequency;
+      appUrl: string;
+      transport: EmailTransport;
+      from: string;
+      now?: Date;
+      dryRun?: boolean;
+    }
+  ): Promise<DigestRunSummary> {
+    const { frequency, appUrl, transport, from, now = new Date(), dryRun = false } = params;
+    const summary: DigestRunSummary = { frequency, considered: 0, sent: 0, empty: 0, noEmail: 0, failed: 0 };
+
+    for (let offset = 0; ; offset += DIGEST_SETTINGS.BATCH_SIZE) {
+      const recipients = await this.getRecipients(client, frequency, offset);
+      if (recipients.length === 0) break;
+
+      for (const profile of recipients) {
+        summary.considered += 1;
+        const userId = profile.id?.toString() ?? '';
+        try {
+          const email = await this.resolveEmail(client, profile);
+          if (!email) {
+            summary.noEmail += 1;
+            continue;
+          }
+
+          const content = await this.buildDigest(client, userId, {
+            frequency,
+            appUrl,
+            now,
+            recipientName: profile.full_name?.toString(),
+          });
+          if (isEmailDigestEmpty(content)) {
+            summary.empty += 1;
+            continue;
+          }
+
+          const rendered = renderEmailDigest(content);
+          if (!dryRun) {
+            await transport.send({
+              from,
+              to: email,
+              ...rendered,
+              headers: {
+                'List-Unsubscribe': `<${content.unsubscribeUrl}>`,
+                'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+              },
+            });
+          }
+          summary.sent += 1;
+        } catch (error) {
+          console.error(`Error sending email digest to ${userId}:`, error);
+          summary.failed += 1;
+        }
+      }
+
+      if (recipients.length < DIGEST_SETTINGS.BATCH_SIZE) break;
+    }
+
+    return summary;
+  }
+
+  static async buildDigest(
+    client: SupabaseClient,
+    userId: string,
+    params: { frequency: DigestFrequency; appUrl: string; now?: Date; recipientName?: string }
+  ): Promise<EmailDigestContent> {
+    const { frequency, appUrl, now = new Date(), recipientName } = params;
+    const since = getDigestPeriodStart(frequency, now);
+    const [{ notifications, unreadCount }, upcomingRadars, pendingInvites] = await Promise.all([
+      this.getUnreadNotifications(client, userId, since),
+      this.getUpcomingRadars(client, userId, now),
+      this.getPendingInvites(client, userId),
+    ]);
+
+    return {
+      recipientName,
+      frequency,
+      appUrl,
+      unsubscribeUrl: buildUnsubscribeUrl(appUrl, userId),
+      notifications,
+      unreadCount,
+      upcomingRadars,
+      pendingInvites,
+    };
+  }
+
+  static async unsubscribe(client: SupabaseClient, userId: string) {
+    const { data, error } = await client.from('profiles').select('*').eq('id', userId).maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) return false;
+
+    const preferences = resolveNotificationPreferences(
+      (data as Record<string, unknown>).notification_preferences
+    );
+    const { error: updateError } = await client
+      .from('profiles')
+      .update({
+        notification_preferences: { ...preferences, email_digest: 'off' },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', userId);
+    if (updateError) throw new Error(updateError.message);
+    return true;
+  }
+
+  private static async getRecipients(client: SupabaseClient, frequency: DigestFrequency, offset: number) {
+    let query = client.from('profiles').select('*');
+    query =
+      frequency === DIGEST_SETTINGS.DEFAULT_FREQUENCY
+        ? query.or(
+            `notification_preferences->>email_digest.eq.${frequency},notification_preferences->>email_digest.is.null`
+          )
+        : query.eq('notification_preferences->>email_digest', frequency);
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .range(offset, offset + DIGEST_SETTINGS.BATCH_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching digest recipients:', error.message);
+      return [];
+    }
+    return readRows(data);
+  }
+
+  private static async resolveEmail(client: SupabaseClient, profile: Record<string, unknown>) {
+    const email = profile.email?.toString().trim();
+    if (email) return email;
+
+    const userId = profile.id?.toString();
+    if (!userId) return '';
+    const { data } = await client.auth.admin.getUserById(userId);
+    return data.user?.email?.trim() || '';
+  }
+
+  private static async getProfileNames(client: SupabaseClient, userIds: string[]) {
+    const ids = [...new Set(userIds.filter(Boolean))];
+    const names = new Map<string, string>();
+    if (ids.length === 0) return names;
+
+    const { data } = await client.from('profiles').select('id, full_name').in('id', ids);
+    for (const row of readRows(data)) {
+      const name = row.full_name?.toString();
+      if (row.id && name) names.set(row.id.toString(), name);
+    }
+    return names;
+  }
+
+  private static async getUnreadNotifications(
+    client: SupabaseClient,
+    userId: string,
+    since: Date
+  ): Promise<{ notifications: Notification[]; unreadCount: number }> {
+    const build = (readColumn: 'is_read' | 'read_at') => {
+      const query = client
+        .from('notifications')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId)
+        .gte('created_at', since.toISOString());
+      return (readColumn === 'is_read' ? query.eq('is_read', false) : query.is('read_at', null))
+        .order('created_at', { ascending: false })
+        .limit(DIGEST_SETTINGS.MAX_NOTIFICATIONS);
+    };
+
+    let result = await build('is_read');
+    if (result.error) {
+      result = await build('read_at');
+    }
+    if (result.error) {
+      console.error('Error fetching digest notifications:', result.error.message);
+      return { notifications: [], unreadCount: 0 };
+    }
+
+    const rows = readRows(result.data);
+    const senders = await this.getProfileNames(
+      client,
+      rows.map((row) => row.sender_id?.toString() || row.actor_id?.toString() || '')
+    );
+    const notifications = rows.map((row) => {
+      const notification = mapNotificationRow(row);
+      const senderId = row.sender_id?.toString() || row.actor_id?.toString();
+      if (senderId && senders.has(senderId)) {
+        notification.sender = { id: senderId, full_name: senders.get(senderId) };
+      }
+      return notification;
+    });
+
+    return { notifications, unreadCount: result.count ?? notifications.length };
+  }
+
+  private static async getUpcomingRadars(
+    client: SupabaseClient,
+    userId: string,
+    now: Date
+  ): Promise<DigestRadarItem[]> {
+    const until = new Date(now.getTime() + DIGEST_SETTINGS.UPCOMING_RADAR_DAYS * 24 * 60 * 60 * 1000);
+    const items: DigestRadarItem[] = [];
+
+    for (const adapter of [v2RadarAdapter, legacyRadarAdapter]) {
+      const participants = await client
+        .from(adapter.participantsTable)
+        .select('*')
+        .eq('user_id', userId);
+      if (participants.error) continue;
+
+      const radarIds = dedupeParticipants(
+        readRows(participants.data)
+          .map((row) => mapParticipantRow(row, adapter.source))
+          .filter((row) => row !== null)
+      )
+        .filter((row) => row.status === 'JOINED')
+        .map((row) => row.radar_id);
+      if (radarIds.length === 0) continue;
+
+      const events = await client
+        .from(adapter.eventsTable)
+        .select('*')
+        .in('id', radarIds)
+        .gte(adapter.startsAtColumn, now.toISOString())
+        .lte(adapter.startsAtColumn, until.toISOString())
+        .order(adapter.startsAtColumn, { ascending: true });
+      if (events.error) continue;
+
+      for (const row of readRows(events.data)) {
+        const event = mapRadarEventRow(row, adapter.source);
+        if (event.status === 'CANCELLED' || event.status === 'DRAFT') continue;
+        if (items.some((item) => item.id === event.id)) continue;
+        items.push({
+          id: event.id,
+          title: event.title,
+          churchName: event.church?.name || row.church_name?.toString(),
+          startsAt: event.event_starts_at_utc,
+          timeZone: event.church_timezone,
+        });
+      }
+    }
+
+    return items.sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+  }
+
+  private static async getPendingInvites(client: SupabaseClient, userId: string): Promise<DigestInviteItem[]> {
+    const rows: Record<string, unknown>[] = [];
+    for (const table of INVITE_TABLES) {
+      const { data, error } = await client
+        .from(table)
+        .select('*')
+        .eq('invitee_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(DIGEST_SETTINGS.MAX_INVITES);
+      if (error) continue;
+
+      for (const row of readRows(data)) {
+        const status = row.status?.toString().trim().toUpperCase() || 'PENDING';
+        const id = row.id?.toString();
+        if (!id || status !== 'PENDING' || rows.some((item) => item.id?.toString() === id)) continue;
+        rows.push(row);
+      }
+    }
+
+    const pending = rows.slice(0, DIGEST_SETTINGS.MAX_INVITES);
+    const inviters = await this.getProfileNames(
+      client,
+      pending.map((row) => row.inviter_id?.toString() ?? '')
+    );
+    const radarTitles = await this.getRadarTitles(
+      client,
+      pending.map((row) => row.radar_id?.toString() ?? '')
+    );
+
+    return pending.map((row) => {
+      const radarId = row.radar_id?.toString();
+      return {
+        id: row.id?.toString() ?? '',
+        radarId,
+        radarTitle: radarId ? radarTitles.get(radarId) : undefined,
+        inviterName: inviters.get(row.inviter_id?.toString() ?? ''),
+        note: row.note?.toString() || row.message?.toString() || undefined,
+        createdAt: row.created_at?.toString() ?? '',
+      };
+    });
+  }
+
+  private static async getRadarTitles(client: SupabaseClient, radarIds: string[]) {
+    const ids = [...new Set(radarIds.filter(Boolean))];
+    const titles = new Map<string, string>();
+    if (ids.length === 0) return titles;
+
+    for (const adapter of [v2RadarAdapter, legacyRadarAdapter]) {
+      const { data, error } = await client.from(adapter.eventsTable).select('id, title').in('id', ids);
+      if (error) continue;
+      for (const row of readRows(data)) {
+        const id = row.id?.toString();
+        if (id && !titles.has(id)) titles.set(id, row.title?.toString() || 'Radar misa');
+      }
+    }
+    return titles;
+  }
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { Notification } from '@/lib/types';
+import { getDigestPeriodStart, isEmailDigestEmpty, renderEmailDigest, type EmailDigestContent } from './email-digest';
+
+const notification: Notification = {
+  id: 'n1',
+  user_id: 'u1',
+  type: 'like',
+  title: 'Suka',
+  message: 'menyukai postingan <Anda>',
+  data: { post_id: 'p1' },
+  is_read: false,
+  created_at: '2024-06-01T00:00:00.000Z',
+  sender: { id: 's1', full_name: 'Maria' },
+};
+
+const content: EmailDigestContent = {
+  recipientName: 'Yohanes',
+  frequency: 'weekly',
+  appUrl: 'https://mycatholic.example',
+  unsubscribeUrl: 'https://mycatholic.example/api/digest/unsubscribe?user=u1&token=t',
+  notifications: [notification],
+  unreadCount: 3,
+  upcomingRadars: [
+    {
+      id: 'r1',
+      title: 'Misa Minggu Pagi',
+      churchName: 'Katedral Makassar',
+      startsAt: '2024-06-01T23:00:00.000Z',
+      timeZone: 'Asia/Makassar',
+    },
+  ],
+  pendingInvites: [
+    { id: 'i1', radarTitle: 'Misa Jumat Pertama', inviterName: 'Paulus', createdAt: '2024-05-31T00:00:00.000Z' },
+  ],
+};
+
+test('renders every section with escaped HTML and absolute links', () => {
+  const email = renderEmailDigest(content);
+
+  assert.equal(email.subject, 'Ringkasan mingguan MyCatholic: 3 notifikasi, 1 undangan, 1 radar');
+  assert.match(email.html, /Maria: menyukai postingan &lt;Anda&gt;/);
+  assert.match(email.html, /href="https:\/\/mycatholic\.example\/post\/p1"/);
+  assert.match(email.html, /Lihat 2 notifikasi lainnya/);
+  assert.match(email.text, /Paulus mengundang Anda ke Misa Jumat Pertama/);
+  assert.match(email.text, /Minggu, 2 Juni.*07\.00 WITA/);
+  assert.match(email.text, /Berhenti menerima ringkasan email: https:\/\/mycatholic\.example\/api\/digest\/unsubscribe/);
+});
+
+test('detects empty digests and computes the period start', () => {
+  assert.equal(isEmailDigestEmpty(content), false);
+  assert.equal(
+    isEmailDigestEmpty({ ...content, notifications: [], unreadCount: 0, upcomingRadars: [], pendingInvites: [] }),
+    true
+  );
+
+  const now = new Date('2024-06-08T00:00:00.000Z');
+  assert.equal(getDigestPeriodStart('daily', now).toISOString(), '2024-06-07T00:00:00.000Z');
+  assert.equal(getDigestPeriodStart('weekly', now).toISOString(), '2024-06-01T00:00:00.000Z');
+});
@@ -0,0 +1,191 @@
+import type { EmailDigestFrequency, Notification } from '@/lib/types';
+import { APP_NAME } from '@/lib/constants';
+import { getNotificationHref } from '@/lib/features/notifications/notification-preferences';
+
+export type DigestRadarItem = {
+  id: string;
+  title: string;
+  churchName?: string;
+  startsAt: string;
+  timeZone: string;
+};
+
+export type DigestInviteItem = {
+  id: string;
+  radarId?: string;
+  radarTitle?: string;
+  inviterName?: string;
+  note?: string;
+  createdAt: string;
+};
+
+export type EmailDigestContent = {
+  recipientName?: string;
+  frequency: Exclude<EmailDigestFrequency, 'off'>;
+  appUrl: string;
+  unsubscribeUrl: string;
+  notifications: Notification[];
+  unreadCount: number;
+  upcomingRadars: DigestRadarItem[];
+  pendingInvites: DigestInviteItem[];
+};
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getDigestPeriodStart(frequency: Exclude<EmailDigestFrequency, 'off'>, now = new Date()) {
+  return new Date(now.getTime() - (frequency === 'daily' ? 1 : 7) * DAY_MS);
+}
+
+export function isEmailDigestEmpty(content: EmailDigestContent) {
+  return (
+    content.unreadCount === 0 &&
+    content.upcomingRadars.length === 0 &&
+    content.pendingInvites.length === 0
+  );
+}
+
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatRadarTime(item: DigestRadarItem) {
+  return new Intl.DateTimeFormat('id-ID', {
+    timeZone: item.timeZone,
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(item.startsAt));
+}
+
+function absoluteUrl(appUrl: string, path: string) {
+  return new URL(path, appUrl).toString();
+}
+
+type DigestSection = {
+  title: string;
+  items: Array<{ label: string; detail?: string; url: string }>;
+  footer?: { label: string; url: string };
+};
+
+function buildSections(content: EmailDigestContent): DigestSection[] {
+  const sections: DigestSection[] = [];
+
+  if (content.unreadCount > 0) {
+    const hidden = content.unreadCount - content.notifications.length;
+    sections.push({
+      title: `Notifikasi belum dibaca (${content.unreadCount})`,
+      items: content.notifications.map((notification) => ({
+        label: notification.sender?.full_name
+          ? `${notification.sender.full_name}: ${notification.message || notification.title}`
+          : notification.message || notification.title,
+        url: absoluteUrl(content.appUrl, getNotificationHref(notification)),
+      })),
+      footer:
+        hidden > 0
+          ? { label: `Lihat ${hidden} notifikasi lainnya`, url: absoluteUrl(content.appUrl, '/notifications') }
+          : undefined,
+    });
+  }
+
+  if (content.pendingInvites.length > 0) {
+    sections.push({
+      title: `Undangan radar menunggu jawaban (${content.pendingInvites.length})`,
+      items: content.pendingInvites.map((invite) => ({
+        label: `${invite.inviterName || 'Seseorang'} mengundang Anda ke ${invite.radarTitle || 'radar misa'}`,
+        detail: invite.note,
+        url: absoluteUrl(content.appUrl, '/radar/invites'),
+      })),
+    });
+  }
+
+  if (content.upcomingRadars.length > 0) {
+    sections.push({
+      title: 'Radar misa yang akan Anda ikuti',
+      items: content.upcomingRadars.map((radar) => ({
+        label: radar.title,
+        detail: [formatRadarTime(radar), radar.churchName].filter(Boolean).join(' • '),
+        url: absoluteUrl(content.appUrl, `/radar/${encodeURIComponent(radar.id)}`),
+      })),
+    });
+  }
+
+  return sections;
+}
+
+export function renderEmailDigest(content: EmailDigestContent): RenderedEmail {
+  const periodLabel = content.frequency === 'daily' ? 'harian' : 'mingguan';
+  const greeting = `Halo${content.recipientName ? ` ${content.recipientName}` : ''},`;
+  const intro = `Berikut ringkasan ${periodLabel} aktivitas Anda di ${APP_NAME}.`;
+  const sections = buildSections(content);
+  const subject = `Ringkasan ${periodLabel} ${APP_NAME}: ${[
+    content.unreadCount > 0 ? `${content.unreadCount} notifikasi` : '',
+    content.pendingInvites.length > 0 ? `${content.pendingInvites.length} undangan` : '',
+    content.upcomingRadars.length > 0 ? `${content.upcomingRadars.length} radar` : '',
+  ]
+    .filter(Boolean)
+    .join(', ')}`;
+
+  const text = [
+    greeting,
+    '',
+    intro,
+    ...sections.flatMap((section) => [
+      '',
+      section.title,
+      ...section.items.map(
+        (item) => `- ${item.label}${item.detail ? ` (${item.detail})` : ''}\n  ${item.url}`
+      ),
+      ...(section.footer ? [`${section.footer.label}: ${section.footer.url}`] : []),
+    ]),
+    '',
+    '--',
+    `Berhenti menerima ringkasan email: ${content.unsubscribeUrl}`,
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html lang="id">
+<body style="margin:0;padding:24px;background:#f5f5f4;font-family:Arial,Helvetica,sans-serif;color:#1c1917;">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px;">
+<p style="margin:0 0 8px;font-size:16px;">${escapeHtml(greeting)}</p>
+<p style="margin:0 0 16px;font-size:14px;color:#57534e;">${escapeHtml(intro)}</p>
+${sections
+  .map(
+    (section) => `<h2 style="margin:24px 0 8px;font-size:15px;">${escapeHtml(section.title)}</h2>
+<ul style="margin:0;padding-left:18px;font-size:14px;line-height:1.5;">
+${section.items
+  .map(
+    (item) =>
+      `<li><a href="${escapeHtml(item.url)}" style="color:#1d4ed8;">${escapeHtml(item.label)}</a>${
+        item.detail ? `<br><span style="color:#78716c;">${escapeHtml(item.detail)}</span>` : ''
+      }</li>`
+  )
+  .join('\n')}
+</ul>${
+      section.footer
+        ? `\n<p style="margin:8px 0 0;font-size:13px;"><a href="${escapeHtml(section.footer.url)}" style="color:#1d4ed8;">${escapeHtml(section.footer.label)}</a></p>`
+        : ''
+    }`
+  )
+  .join('\n')}
+<p style="margin:32px 0 0;font-size:12px;color:#a8a29e;">Anda menerima email ini karena ringkasan ${periodLabel} aktif di pengaturan notifikasi.
+<a href="${escapeHtml(content.unsubscribeUrl)}" style="color:#78716c;">Berhenti berlangganan</a></p>
+</div>
+</body>
+</html>`;
+
+  return { subject, html, text };
+}
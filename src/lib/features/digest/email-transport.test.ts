@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+import { buildMimeMessage, createSmtpTransport, extractEmailAddress } from './email-transport';
+
+// A local SMTP stand-in that records the conversation and the DATA payload.
+function startFakeSmtpServer() {
+  const commands: string[] = [];
+  const messages: string[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let data = '';
+    socket.setEncoding('utf8');
+    socket.write('220 localhost ESMTP ready\r\n');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let index = buffer.indexOf('\r\n');
+      while (index >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        index = buffer.indexOf('\r\n');
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data);
+            data = '';
+            socket.write('250 queued\r\n');
+          } else {
+            data += `${line.startsWith('..') ? line.slice(1) : line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-localhost\r\n250-AUTH PLAIN LOGIN\r\n250 SIZE 1000000\r\n');
+        else if (line.startsWith('AUTH PLAIN')) socket.write('235 authenticated\r\n');
+        else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 end with .\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else socket.write('250 ok\r\n');
+      }
+    });
+  });
+
+  return new Promise<{ port: number; commands: string[]; messages: string[]; close: () => Promise<void> }>(
+    (resolve) => {
+      server.listen(0, '127.0.0.1', () =>
+        resolve({
+          port: (server.address() as AddressInfo).port,
+          commands,
+          messages,
+          close: () => new Promise((done) => server.close(() => done())),
+        })
+      );
+    }
+  );
+}
+
+test('sends a multipart message through SMTP with AUTH PLAIN', async () => {
+  const server = await startFakeSmtpServer();
+  try {
+    const transport = createSmtpTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      user: 'digest',
+      password: 'rahasia',
+      clientName: 'test.local',
+      timeoutMs: 5000,
+    });
+
+    await transport.send({
+      from: 'MyCatholic <no-reply@mycatholic.example>',
+      to: 'Maria <maria@example.com>',
+      subject: 'Ringkasan mingguan — 3 notifikasi',
+      text: 'Halo Maria,\n.baris diawali titik',
+      html: '<p>Halo Maria</p>',
+      headers: { 'List-Unsubscribe': '<https://mycatholic.example/unsub>' },
+    });
+
+    assert.deepEqual(server.commands, [
+      'EHLO test.local',
+      `AUTH PLAIN ${Buffer.from('\0digest\0rahasia').toString('base64')}`,
+      'MAIL FROM:<no-reply@mycatholic.example>',
+      'RCPT TO:<maria@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+
+    const [message] = server.messages;
+    assert.match(message, /^Subject: =\?UTF-8\?B\?/m);
+    assert.match(message, /^List-Unsubscribe: <https:\/\/mycatholic\.example\/unsub>/m);
+    assert.match(message, /Content-Type: multipart\/alternative; boundary="mc-/);
+    const textPart = message.split('Content-Transfer-Encoding: base64\r\n\r\n')[1].split('\r\n--')[0];
+    assert.equal(Buffer.from(textPart.replace(/\r\n/g, ''), 'base64').toString('utf8'), 'Halo Maria,\n.baris diawali titik');
+  } finally {
+    await server.close();
+  }
+});
+
+test('builds headers and envelope addresses', () => {
+  assert.equal(extractEmailAddress('MyCatholic <no-reply@mycatholic.example>'), 'no-reply@mycatholic.example');
+  assert.equal(extractEmailAddress('plain@example.com'), 'plain@example.com');
+
+  const mime = buildMimeMessage(
+    { from: 'a@example.com', to: 'b@example.com', subject: 'Plain subject', text: 'x', html: '<b>x</b>' },
+    new Date('2024-06-01T00:00:00.000Z')
+  );
+  assert.match(mime, /^Subject: Plain subject\r$/m);
+  assert.match(mime, /^Date: Sat, 01 Jun 2024 00:00:00 GMT\r$/m);
+  assert.match(mime, /^Message-ID: <[0-9a-f-]+@example\.com>\r$/m);
+});
@@ -0,0 +1,273 @@
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import tls from 'node:tls';
+import { DIGEST_SETTINGS } from '@/lib/constants';
+
+export type EmailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+};
+
+export interface EmailTransport {
+  name: 'smtp' | 'file' | 'console';
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  clientName?: string;
+  timeoutMs?: number;
+};
+
+function encodeHeaderValue(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBase64Body(value: string) {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n');
+}
+
+/** Bare address for the SMTP envelope, e.g. "A <a@b.c>" -> "a@b.c". */
+export function extractEmailAddress(value: string) {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+export function buildMimeMessage(message: EmailMessage, now = new Date()) {
+  const boundary = `mc-${crypto.randomBytes(12).toString('hex')}`;
+  const domain = extractEmailAddress(message.from).split('@')[1] || 'localhost';
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeaderValue(message.subject),
+    Date: now.toUTCString(),
+    'Message-ID': `<${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  return [
+    ...Object.entries(headers).map(([key, value]) => `${key}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBase64Body(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.info(`[email] ${message.to} | ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+export function createFileTransport(directory: string = DIGEST_SETTINGS.FILE_OUTBOX_DIR): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+      const safeRecipient = extractEmailAddress(message.to).replace(/[^a-z0-9@._-]/gi, '_');
+      const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.eml`;
+      await fs.writeFile(path.join(directory, filename), buildMimeMessage(message), 'utf8');
+    },
+  };
+}
+
+type SmtpReply = { code: number; lines: string[] };
+
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private wake: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let index = this.buffer.indexOf('\r\n');
+      while (index >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+        index = this.buffer.indexOf('\r\n');
+      }
+      this.wake?.();
+    });
+    socket.on('error', (error) => {
+      this.failure = error;
+      this.wake?.();
+    });
+    socket.on('close', () => {
+      this.failure ??= new Error('Koneksi SMTP terputus.');
+      this.wake?.();
+    });
+  }
+
+  async upgrade(servername: string) {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const upgraded = tls.connect({ socket: this.socket, servername }, () => resolve(upgraded));
+      upgraded.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.buffer = '';
+    this.lines = [];
+    this.attach(secureSocket);
+  }
+
+  private async readReply(): Promise<SmtpReply> {
+    const collected: string[] = [];
+    for (;;) {
+      while (this.lines.length > 0) {
+        const line = this.lines.shift()!;
+        collected.push(line.slice(4));
+        if (line.charAt(3) !== '-') {
+          return { code: Number(line.slice(0, 3)), lines: collected };
+        }
+      }
+      if (this.failure) throw this.failure;
+      await new Promise<void>((resolve) => {
+        this.wake = () => {
+          this.wake = null;
+          resolve();
+        };
+      });
+    }
+  }
+
+  async command(line: string | null, expected: number[]) {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.readReply();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${reply.code}: ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connectSmtp(config: SmtpConfig) {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.setTimeout(config.timeoutMs ?? DIGEST_SETTINGS.SMTP_TIMEOUT_MS, () => {
+      socket.destroy(new Error('Koneksi SMTP timeout.'));
+    });
+    socket.once('error', reject);
+  });
+}
+
+/** Minimal SMTP client: EHLO, optional STARTTLS, AUTH PLAIN, one message per connection. */
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(message) {
+      const session = new SmtpSession(await connectSmtp(config));
+      const clientName = config.clientName || os.hostname() || 'localhost';
+
+      try {
+        await session.command(null, [220]);
+        let capabilities = await session.command(`EHLO ${clientName}`, [250]);
+
+        if (!config.secure && capabilities.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+          await session.command('STARTTLS', [220]);
+          await session.upgrade(config.host);
+          capabilities = await session.command(`EHLO ${clientName}`, [250]);
+        }
+
+        if (config.user) {
+          if (!capabilities.lines.some((line) => /^AUTH\b.*\bPLAIN\b/i.test(line))) {
+            throw new Error('Server SMTP tidak mendukung AUTH PLAIN.');
+          }
+          const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ''}`).toString('base64');
+          await session.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await session.command(`MAIL FROM:<${extractEmailAddress(message.from)}>`, [250]);
+        await session.command(`RCPT TO:<${extractEmailAddress(message.to)}>`, [250, 251]);
+        await session.command('DATA', [354]);
+
+        const body = buildMimeMessage(message).replace(/^\./gm, '..');
+        session.write(`${body}\r\n.\r\n`);
+        await session.command(null, [250]);
+        await session.command('QUIT', [221]).catch(() => undefined);
+      } finally {
+        session.close();
+      }
+    },
+  };
+}
+
+/**
+ * Picks the transport from EMAIL_TRANSPORT (`smtp`, `file`, `console`). When it
+ * is unset, SMTP is used if SMTP_HOST is configured and the console otherwise.
+ */
+export function getEmailTransport(): EmailTransport {
+  const host = process.env.SMTP_HOST?.trim() || '';
+  const kind = process.env.EMAIL_TRANSPORT?.trim().toLowerCase() || (host ? 'smtp' : 'console');
+
+  if (kind === 'file') {
+    return createFileTransport(process.env.EMAIL_OUTBOX_DIR?.trim() || DIGEST_SETTINGS.FILE_OUTBOX_DIR);
+  }
+
+  if (kind === 'smtp') {
+    if (!host) {
+      throw new Error('SMTP_HOST belum dikonfigurasi');
+    }
+    const port = Number(process.env.SMTP_PORT) || 587;
+    return createSmtpTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER?.trim() || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+    });
+  }
+
+  return createConsoleTransport();
+}
+
+export function getEmailFromAddress() {
+  return process.env.EMAIL_FROM?.trim() || DIGEST_SETTINGS.DEFAULT_FROM;
+}
@@ -0,0 +1,35 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Unsubscribe links must work from a mail client without a session, so they
+// carry an HMAC of the user id. Server-only: needs the secret.
+
+function getUnsubscribeSecret() {
+  return process.env.EMAIL_UNSUBSCRIBE_SECRET?.trim() || '';
+}
+
+export function isUnsubscribeConfigured() {
+  return getUnsubscribeSecret().length > 0;
+}
+
+export function createUnsubscribeToken(userId: string) {
+  const secret = getUnsubscribeSecret();
+  if (!secret) {
+    throw new Error('EMAIL_UNSUBSCRIBE_SECRET belum dikonfigurasi');
+  }
+  return createHmac('sha256', secret).update(`email-digest:${userId}`).digest('base64url');
+}
+
+export function verifyUnsubscribeToken(userId: string, token: string | null | undefined) {
+  if (!userId || !token || !isUnsubscribeConfigured()) return false;
+
+  const expected = Buffer.from(createUnsubscribeToken(userId));
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export function buildUnsubscribeUrl(appUrl: string, userId: string) {
+  const url = new URL('/api/digest/unsubscribe', appUrl);
+  url.searchParams.set('user', userId);
+  url.searchParams.set('token', createUnsubscribeToken(userId));
+  return url.toString();
+}
@@ -1,8 +1,9 @@
 // Feed Service
 
 import { supabase } from '@/lib/supabase/client';
-import type { BlockedUser, Comment, Like, Post } from '@/lib/types';
+import type { BlockedUser, Comment, Like, Post, PostMention } from '@/lib/types';
 import { createRandomToken, createRandomUUID } from '@/lib/utils';
+import { extractHashtags, getMentionsInText, normalizeHashtag, parseMentions } from './post-entities';
 
 function isMissingColumnError(message: string, column: string) {
   const normalized = message.toLowerCase();
@@ -144,6 +145,25 @@ function parseImageUrls(value: unknown): string[] {
   }
 }
 
+function parseHashtags(value: unknown, text?: string): string[] {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeHashtag(item?.toString() ?? '')).filter(Boolean);
+  }
+  return extractHashtags(text);
+}
+
+// Drops `mentions`/`hashtags` from the payload when the column is not deployed
+// yet; the caption or comment text still carries them as plain text.
+function dropMissingEntityColumn(payload: Record<string, unknown>, message: string) {
+  for (const column of ['mentions', 'hashtags']) {
+    if (column in payload && isMissingColumnError(message, column)) {
+      delete payload[column];
+      return true;
+    }
+  }
+  return false;
+}
+
 function getProfileRow(value: unknown): Record<string, unknown> | undefined {
   if (Array.isArray(value)) {
     const first = value[0];
@@ -182,6 +202,9 @@ function mapPostRow(
     diocese_id: row.diocese_id?.toString(),
     church_id: row.church_id?.toString(),
     type: row.type?.toString(),
+    mentions: parseMentions(row.mentions),
+    hashtags: parseHashtags(row.hashtags, row.caption?.toString()),
+    poll_id: row.poll_id?.toString() || undefined,
     profile: profile
       ? {
           id: profile.id?.toString() ?? '',
@@ -214,6 +237,8 @@ function mapCommentRow(
     parent_id: row.parent_id?.toString() || undefined,
     content: row.content?.toString() ?? '',
     image_url: imageUrl,
+    mentions: parseMentions(row.mentions),
+    hashtags: parseHashtags(row.hashtags, row.content?.toString()),
     likes_count: options?.likesCount ?? Number(row.likes_count ?? 0),
     is_liked: options?.isLiked ?? Boolean(row.is_liked),
     created_at: row.created_at?.toString() ?? new Date().toISOString(),
@@ -315,31 +340,48 @@ export class FeedService {
     limit?: number;
     scope?: 'all' | 'country' | 'diocese' | 'parish';
     scopeId?: string;
+    hashtag?: string;
     currentUserId?: string;
   }): Promise<{ posts: Post[]; hasMore: boolean }> {
     const { page = 1, limit = 12, scope = 'all', scopeId, currentUserId } = params;
     const fromRange = (page - 1) * limit;
     const toRange = page * limit - 1;
+    const hashtag = params.hashtag ? normalizeHashtag(params.hashtag) : '';
 
-    let query = supabase.from('posts').select(
+    const buildQuery = (hashtagColumn: boolean) => {
+      let query = supabase.from('posts').select(
+        `
+        *,
+        profiles:user_id (
+          id,
+          full_name,
+          avatar_url,
+          role,
+          verification_status
+        )
       `
-      *,
-      profiles:user_id (
-        id,
-        full_name,
-        avatar_url,
-        role,
-        verification_status
-      )
-    `
-    );
+      );
 
-    if (scope !== 'all' && scopeId) {
-      const scopeColumn = scope === 'country' ? 'country_id' : scope === 'diocese' ? 'diocese_id' : 'church_id';
-      query = query.eq(scopeColumn, scopeId);
-    }
+      if (scope !== 'all' && scopeId) {
+        const scopeColumn = scope === 'country' ? 'country_id' : scope === 'diocese' ? 'diocese_id' : 'church_id';
+        query = query.eq(scopeColumn, scopeId);
+      }
+
+      if (hashtag) {
+        query = hashtagColumn
+          ? query.contains('hashtags', [hashtag])
+          : query.ilike('caption', `%#${hashtag.replace(/[%_]/g, '\\$&')}%`);
+      }
+
+      return query.order('created_at', { ascending: false }).range(fromRange, toRange);
+    };
 
-    const { data, error } = await query.order('created_at', { ascending: false }).range(fromRange, toRange);
+    let result = await buildQuery(true);
+    // Environments without the `hashtags` column fall back to a caption match.
+    if (result.error && hashtag && isMissingColumnError(result.error.message, 'hashtags')) {
+      result = await buildQuery(false);
+    }
+    const { data, error } = result;
 
     if (error) {
       console.error('Error fetching posts:', error);
@@ -348,7 +390,11 @@ export class FeedService {
 
     const rows = (data ?? []) as Record<string, unknown>[];
     const { hiddenUserIds } = await this.getBlockedUserSets(currentUserId);
-    const visibleRows = rows.filter((row) => !hiddenUserIds.has(row.user_id?.toString() ?? ''));
+    const visibleRows = rows.filter(
+      (row) =>
+        !hiddenUserIds.has(row.user_id?.toString() ?? '') &&
+        (!hashtag || parseHashtags(row.hashtags, row.caption?.toString()).includes(hashtag))
+    );
     const needsSaveCountFallback = visibleRows.some((row) => row.saves_count == null);
     const needsShareCountFallback = visibleRows.some((row) => row.shares_count == null);
 
@@ -510,41 +556,58 @@ export class FeedService {
       countryId?: string;
       dioceseId?: string;
       churchId?: string;
+      mentions?: PostMention[];
+      pollId?: string;
     }
   ): Promise<Post> {
     const cleanCaption = postData.caption?.trim();
     const normalizedImages = (postData.imageUrls ?? []).filter((url) => url.trim().length > 0);
+    const mentions = getMentionsInText(cleanCaption, postData.mentions);
+    const hashtags = extractHashtags(cleanCaption);
 
-    const { data, error } = await supabase
-      .from('posts')
-      .insert({
-        user_id: userId,
-        caption: cleanCaption,
-        image_url: normalizedImages,
-        type: normalizedImages.length > 0 ? 'photo' : 'text',
-        country_id: postData.countryId,
-        diocese_id: postData.dioceseId,
-        church_id: postData.churchId,
-      })
-      .select(
+    const insertPayload: Record<string, unknown> = {
+      user_id: userId,
+      caption: cleanCaption,
+      image_url: normalizedImages,
+      type: normalizedImages.length > 0 ? 'photo' : 'text',
+      country_id: postData.countryId,
+      diocese_id: postData.dioceseId,
+      church_id: postData.churchId,
+    };
+    if (mentions.length > 0) insertPayload.mentions = mentions;
+    if (hashtags.length > 0) insertPayload.hashtags = hashtags;
+    if (postData.pollId) insertPayload.poll_id = postData.pollId;
+
+    const insert = () =>
+      supabase
+        .from('posts')
+        .insert(insertPayload)
+        .select(
+          `
+          *,
+          profiles:user_id (
+            id,
+            full_name,
+            avatar_url,
+            role,
+            verification_status
+          )
         `
-        *,
-        profiles:user_id (
-          id,
-          full_name,
-          avatar_url,
-          role,
-          verification_status
         )
-      `
-      )
-      .single();
+        .single();
 
-    if (error) {
-      throw new Error(error.message);
+    let result = await insert();
+    while (result.error && dropMissingEntityColumn(insertPayload, result.error.message)) {
+      result = await insert();
+    }
+
+    if (result.error) {
+      throw new Error(result.error.message);
     }
 
-    return mapPostRow(data as Record<string, unknown>);
+    const post = mapPostRow(result.data as Record<string, unknown>);
+    await this.notifyMentions(userId, mentions, { postId: post.id });
+    return { ...post, mentions };
   }
 
   static async uploadPostImage(userId: string, file: File): Promise<string> {
@@ -615,21 +678,40 @@ export class FeedService {
 
   // Update post
   static async updatePost(postId: string, updates: Partial<Post>): Promise<Post> {
-    const { data, error } = await supabase
-      .from('posts')
-      .update({
-        ...updates,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', postId)
-      .select('*')
-      .single();
+    const payload: Record<string, unknown> = {
+      ...updates,
+      updated_at: new Date().toISOString(),
+    };
+    let previousMentions: PostMention[] = [];
+    if ('caption' in updates) {
+      previousMentions = await this.getPostMentions(postId);
+      // Same entity sync as createPost: keep only mentions still present in the caption.
+      payload.mentions = getMentionsInText(updates.caption, updates.mentions ?? previousMentions);
+      payload.hashtags = extractHashtags(updates.caption);
+    }
 
-    if (error) {
-      throw new Error(error.message);
+    const update = () => supabase.from('posts').update(payload).eq('id', postId).select('*').single();
+
+    let result = await update();
+    while (result.error && dropMissingEntityColumn(payload, result.error.message)) {
+      result = await update();
     }
 
-    return mapPostRow(data as Record<string, unknown>);
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+
+    const post = mapPostRow(result.data as Record<string, unknown>);
+    if (!Array.isArray(payload.mentions)) return post;
+
+    const mentions = payload.mentions as PostMention[];
+    const previousIds = new Set(previousMentions.map((mention) => mention.user_id));
+    await this.notifyMentions(
+      post.user_id,
+      mentions.filter((mention) => !previousIds.has(mention.user_id)),
+      { postId: post.id }
+    );
+    return { ...post, mentions };
   }
 
   // Delete post
@@ -820,7 +902,7 @@ export class FeedService {
     userId: string,
     postId: string,
     content: string,
-    options?: { parentId?: string; replyToName?: string; imageUrl?: string }
+    options?: { parentId?: string; replyToName?: string; imageUrl?: string; mentions?: PostMention[] }
   ): Promise<Comment> {
     const trimmed = content.trim();
     const normalizedImageUrl = options?.imageUrl?.trim();
@@ -857,6 +939,11 @@ export class FeedService {
       insertPayload.image_url = normalizedImageUrl;
     }
 
+    const mentions = getMentionsInText(trimmed, options?.mentions);
+    const hashtags = extractHashtags(trimmed);
+    if (mentions.length > 0) insertPayload.mentions = mentions;
+    if (hashtags.length > 0) insertPayload.hashtags = hashtags;
+
     let insertResult = await supabase
       .from('comments')
       .insert(insertPayload)
@@ -907,6 +994,15 @@ export class FeedService {
         continue;
       }
 
+      if (dropMissingEntityColumn(insertPayload, insertResult.error.message)) {
+        insertResult = await supabase
+          .from('comments')
+          .insert(insertPayload)
+          .select(selectComment)
+          .single();
+        continue;
+      }
+
       break;
     }
 
@@ -915,7 +1011,9 @@ export class FeedService {
     }
 
     await this.syncAggregateCount('comments', 'comments_count', postId);
-    return mapCommentRow(insertResult.data as Record<string, unknown>);
+    const comment = mapCommentRow(insertResult.data as Record<string, unknown>);
+    await this.notifyMentions(userId, mentions, { postId, commentId: comment.id });
+    return { ...comment, mentions };
   }
 
   // Get post comments
@@ -1485,6 +1583,87 @@ export class FeedService {
     return { reposted: !hasReposted, count };
   }
 
+  // Full-text caption search; falls back to a substring match where the
+  // database rejects the tsquery (e.g. stray operators in the keyword).
+  static async searchPosts(keyword: string, params?: { limit?: number; currentUserId?: string }): Promise<Post[]> {
+    const normalized = keyword.trim();
+    if (!normalized) return [];
+    if (normalized.startsWith('#')) {
+      const { posts } = await this.getPosts({
+        hashtag: normalized,
+        limit: params?.limit ?? 20,
+        currentUserId: params?.currentUserId,
+      });
+      return posts;
+    }
+
+    const limit = params?.limit ?? 20;
+    const select = `
+      *,
+      profiles:user_id (
+        id,
+        full_name,
+        avatar_url,
+        role,
+        verification_status
+      )
+    `;
+
+    let result = await supabase
+      .from('posts')
+      .select(select)
+      .textSearch('caption', normalized, { type: 'websearch', config: 'simple' })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (result.error || (result.data ?? []).length === 0) {
+      result = await supabase
+        .from('posts')
+        .select(select)
+        .ilike('caption', `%${normalized.replace(/[%_]/g, '\\$&')}%`)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    }
+
+    if (result.error) {
+      console.error('Error searching posts:', result.error);
+      return [];
+    }
+
+    const { hiddenUserIds } = await this.getBlockedUserSets(params?.currentUserId);
+    return ((result.data ?? []) as Record<string, unknown>[])
+      .filter((row) => !hiddenUserIds.has(row.user_id?.toString() ?? ''))
+      .map((row) => mapPostRow(row));
+  }
+
+  // Hashtag suggestions for the composer, ranked by use in recent posts
+  static async searchHashtags(prefix: string, limit = 8): Promise<Array<{ tag: string; count: number }>> {
+    const normalized = normalizeHashtag(prefix);
+    const escaped = normalized.replace(/[%_]/g, '\\$&');
+    const { data, error } = await supabase
+      .from('posts')
+      .select('caption')
+      .ilike('caption', `%#${escaped}%`)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error searching hashtags:', error);
+      return [];
+    }
+
+    const counts = new Map<string, number>();
+    for (const row of (data ?? []) as Array<{ caption?: string | null }>) {
+      for (const tag of extractHashtags(row.caption)) {
+        if (tag.startsWith(normalized)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, limit);
+  }
+
   private static async getUserPostFlags(
     table: 'likes' | 'saved_posts' | 'post_shares',
     userId: string | undefined,
@@ -1669,6 +1848,48 @@ export class FeedService {
       });
   }
 
+  private static async getPostMentions(postId: string): Promise<PostMention[]> {
+    const { data, error } = await supabase.from('posts').select('mentions').eq('id', postId).maybeSingle();
+    if (error) {
+      if (!isMissingColumnError(error.message, 'mentions')) {
+        console.warn('FeedService.getPostMentions failed:', error.message);
+      }
+      return [];
+    }
+    return parseMentions((data as Record<string, unknown> | null)?.mentions);
+  }
+
+  // Mention notifications are best-effort: a failed insert must not fail the post or comment.
+  private static async notifyMentions(
+    senderId: string,
+    mentions: PostMention[],
+    target: { postId: string; commentId?: string }
+  ): Promise<void> {
+    const recipients = mentions.filter((mention) => mention.user_id !== senderId);
+    if (recipients.length === 0) return;
+
+    const rows: Record<string, unknown>[] = recipients.map((mention) => ({
+      user_id: mention.user_id,
+      type: 'mention',
+      title: 'Anda disebut',
+      message: target.commentId ? 'menyebut Anda dalam komentar' : 'menyebut Anda dalam postingan',
+      sender_id: senderId,
+      actor_id: senderId,
+      data: target.commentId
+        ? { post_id: target.postId, comment_id: target.commentId }
+        : { post_id: target.postId },
+    }));
+
+    let result = await supabase.from('notifications').insert(rows);
+    if (result.error && isMissingColumnError(result.error.message, 'actor_id')) {
+      rows.forEach((row) => delete row.actor_id);
+      result = await supabase.from('notifications').insert(rows);
+    }
+    if (result.error) {
+      console.warn('FeedService.notifyMentions failed:', result.error.message);
+    }
+  }
+
   private static async syncAggregateCount(
     table: 'likes' | 'comments' | 'saved_posts' | 'post_shares',
     postColumn: 'likes_count' | 'comments_count' | 'saves_count' | 'shares_count',
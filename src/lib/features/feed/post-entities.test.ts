@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  applyEntityTrigger,
+  extractHashtags,
+  getEntityTrigger,
+  getMentionsInText,
+  tokenizeRichText,
+} from './post-entities';
+
+const MARIA = { user_id: 'u-1', name: 'Maria Goretti' };
+
+test('extracts unique lower-cased hashtags at word boundaries', () => {
+  assert.deepEqual(extractHashtags('Misa #Paskah di #KatedralJakarta #paskah, email a#b'), [
+    'paskah',
+    'katedraljakarta',
+  ]);
+});
+
+test('keeps only mentions still present in the text and links them', () => {
+  const text = 'Terima kasih @Maria Goretti untuk #doa hari ini';
+  assert.deepEqual(getMentionsInText(text, [MARIA, { user_id: 'u-2', name: 'Yohanes' }]), [MARIA]);
+
+  assert.deepEqual(tokenizeRichText(text, [MARIA]), [
+    { type: 'text', text: 'Terima kasih ' },
+    { type: 'mention', text: '@Maria Goretti', userId: 'u-1' },
+    { type: 'text', text: ' untuk ' },
+    { type: 'hashtag', text: '#doa', tag: 'doa' },
+    { type: 'text', text: ' hari ini' },
+  ]);
+});
+
+test('detects the trigger before the caret and replaces it with the choice', () => {
+  const text = 'Halo @Mar apa kabar';
+  const trigger = getEntityTrigger(text, 9);
+  assert.deepEqual(trigger, { trigger: '@', query: 'Mar', start: 5 });
+  assert.equal(getEntityTrigger('email@domain', 12), null);
+
+  assert.deepEqual(applyEntityTrigger(text, trigger!, 9, 'Maria Goretti'), {
+    text: 'Halo @Maria Goretti apa kabar',
+    caret: 20,
+  });
+});
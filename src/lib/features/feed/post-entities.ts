@@ -0,0 +1,137 @@
+import type { PostMention } from '@/lib/types';
+
+export type RichTextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; userId: string }
+  | { type: 'hashtag'; text: string; tag: string };
+
+export type EntityTrigger = {
+  trigger: '@' | '#';
+  query: string;
+  /** Index of the trigger character in the text. */
+  start: number;
+};
+
+const MAX_HASHTAG_LENGTH = 50;
+const TAG_CHAR = /[\p{L}\p{N}_]/u;
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isBoundary(text: string, index: number) {
+  return index <= 0 || !TAG_CHAR.test(text.charAt(index - 1));
+}
+
+export function normalizeHashtag(value: string) {
+  const tag = value.trim().replace(/^#+/, '').toLowerCase();
+  return [...tag].every((char) => TAG_CHAR.test(char)) ? tag.slice(0, MAX_HASHTAG_LENGTH) : '';
+}
+
+/** Unique, lower-cased hashtags in order of first appearance. */
+export function extractHashtags(text: string | null | undefined) {
+  const tags: string[] = [];
+  for (const match of (text ?? '').matchAll(HASHTAG_PATTERN)) {
+    if (!isBoundary(text ?? '', match.index ?? 0)) continue;
+    const tag = normalizeHashtag(match[1]);
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Mentions picked from the autocomplete are kept as entities, so a name can
+ * contain spaces. Entities whose `@name` was edited out of the text are dropped.
+ */
+export function getMentionsInText(text: string | null | undefined, mentions: PostMention[] | null | undefined) {
+  const source = text ?? '';
+  const seen = new Set<string>();
+  return (mentions ?? []).filter((mention) => {
+    if (!mention.user_id || !mention.name || seen.has(mention.user_id)) return false;
+    const pattern = new RegExp(`@${escapeRegExp(mention.name)}(?![\\p{L}\\p{N}_])`, 'u');
+    if (!pattern.test(source)) return false;
+    seen.add(mention.user_id);
+    return true;
+  });
+}
+
+export function parseMentions(value: unknown): PostMention[] {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw) as unknown;
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((item) => {
+      const row = item && typeof item === 'object' ? (item as Record<string, unknown>) : {};
+      return { user_id: row.user_id?.toString() ?? '', name: row.name?.toString().trim() ?? '' };
+    })
+    .filter((item) => item.user_id && item.name);
+}
+
+export function tokenizeRichText(text: string, mentions: PostMention[] = []): RichTextSegment[] {
+  const names = [...mentions]
+    .filter((mention) => mention.name)
+    .sort((a, b) => b.name.length - a.name.length);
+  const mentionSource = names.map((mention) => escapeRegExp(mention.name)).join('|');
+  const pattern = new RegExp(
+    `${mentionSource ? `@(${mentionSource})(?![\\p{L}\\p{N}_])|` : ''}#([\\p{L}\\p{N}_]+)`,
+    'gu'
+  );
+
+  const segments: RichTextSegment[] = [];
+  let cursor = 0;
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === 'text') last.text += value;
+    else segments.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    const [full, mentionName, tagName] = mentionSource ? match : [match[0], undefined, match[1]];
+    if (!isBoundary(text, index)) continue;
+
+    pushText(text.slice(cursor, index));
+    if (mentionName) {
+      const mention = names.find((item) => item.name === mentionName)!;
+      segments.push({ type: 'mention', text: full, userId: mention.user_id });
+    } else if (tagName) {
+      segments.push({ type: 'hashtag', text: full, tag: normalizeHashtag(tagName) });
+    }
+    cursor = index + full.length;
+  }
+  pushText(text.slice(cursor));
+
+  return segments;
+}
+
+/** The `@query` or `#query` being typed right before the caret, if any. */
+export function getEntityTrigger(text: string, caret: number): EntityTrigger | null {
+  const before = text.slice(0, caret);
+  const match = before.match(/(^|[^\p{L}\p{N}_])([@#])([\p{L}\p{N}_.]{0,30})$/u);
+  if (!match) return null;
+
+  const trigger = match[2] as '@' | '#';
+  return {
+    trigger,
+    query: match[3],
+    start: before.length - match[3].length - 1,
+  };
+}
+
+export function applyEntityTrigger(text: string, trigger: EntityTrigger, caret: number, value: string) {
+  const insertion = `${trigger.trigger}${value} `;
+  const after = text.slice(caret).replace(/^\s+/, '');
+  return {
+    text: `${text.slice(0, trigger.start)}${insertion}${after}`,
+    caret: trigger.start + insertion.length,
+  };
+}
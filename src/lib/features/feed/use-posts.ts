@@ -5,13 +5,15 @@
 import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { FeedService } from './feed-service';
 import { useAuth } from '@/lib/features/auth/use-auth';
+import { PollService } from '@/lib/features/polls/poll-service';
 import { toast } from 'sonner';
-import type { BlockedUser, Post, Comment, Like } from '@/lib/types';
+import type { BlockedUser, Post, PostMention, PollDraft, Comment, Like } from '@/lib/types';
 
 // Posts hook with infinite scroll
 export function usePosts(params?: {
   scope?: 'all' | 'country' | 'diocese' | 'parish';
   scopeId?: string;
+  hashtag?: string;
 }) {
   const { user } = useAuth();
 
@@ -149,17 +151,31 @@ export function useCreatePost() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: { caption?: string; imageUrls?: string[] }) => {
+    mutationFn: async ({
+      poll,
+      ...data
+    }: {
+      caption?: string;
+      imageUrls?: string[];
+      mentions?: PostMention[];
+      poll?: PollDraft;
+    }) => {
       if (!user?.id) {
         throw new Error('You must be logged in to create a post');
       }
 
-      return await FeedService.createPost(user.id, {
+      const createdPoll = poll ? await PollService.createPoll(user.id, poll, {}) : undefined;
+      const post = await FeedService.createPost(user.id, {
         ...data,
+        pollId: createdPoll?.id,
         countryId: profile?.country_id,
         dioceseId: profile?.diocese_id,
         churchId: profile?.church_id,
       });
+      if (createdPoll) {
+        await PollService.attachPollToPost(createdPoll.id, post.id);
+      }
+      return post;
     },
     onSuccess: () => {
       toast.success('Post berhasil dibuat!');
@@ -176,7 +192,7 @@ export function useUpdatePost() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: { postId: string; caption: string }) => {
+    mutationFn: async (data: { postId: string; caption: string; mentions?: PostMention[] }) => {
       if (!user?.id) {
         throw new Error('You must be logged in');
       }
@@ -184,6 +200,7 @@ export function useUpdatePost() {
       const normalizedCaption = data.caption.trim();
       return await FeedService.updatePost(data.postId, {
         caption: normalizedCaption.length > 0 ? normalizedCaption : undefined,
+        mentions: data.mentions,
       });
     },
     onSuccess: (_data, variables) => {
@@ -527,6 +544,7 @@ export function useAddComment() {
       parentId?: string;
       replyToName?: string;
       imageUrl?: string;
+      mentions?: PostMention[];
     }) => {
       if (!user?.id) {
         throw new Error('You must be logged in');
@@ -536,6 +554,7 @@ export function useAddComment() {
         parentId: data.parentId,
         replyToName: data.replyToName,
         imageUrl: data.imageUrl,
+        mentions: data.mentions,
       });
     },
     onSuccess: (_data, variables) => {
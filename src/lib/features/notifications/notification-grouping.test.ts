@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { Notification } from '@/lib/types';
+import {
+  decodeNotificationCursor,
+  encodeNotificationCursor,
+  formatNotificationGroupSummary,
+  getNotificationGroupScope,
+  groupNotifications,
+} from './notification-grouping';
+
+function notification(
+  id: string,
+  type: Notification['type'],
+  createdAt: string,
+  senderId: string,
+  data: Record<string, string> = {}
+): Notification {
+  return {
+    id,
+    user_id: 'me',
+    type,
+    title: type,
+    message: `${senderId} ${type}`,
+    data,
+    is_read: false,
+    created_at: createdAt,
+    sender: { id: senderId, full_name: senderId === 'maria' ? 'Maria' : `User ${senderId}` },
+  };
+}
+
+test('collapses likes on the same post into one group with distinct actors', () => {
+  const likes = Array.from({ length: 39 }, (_, index) =>
+    notification(
+      `like-${index}`,
+      'like',
+      `2024-06-01T10:${String(index).padStart(2, '0')}:00.000Z`,
+      index === 38 ? 'maria' : `u${index}`,
+      { post_id: 'p1' }
+    )
+  );
+  const comment = notification('c1', 'comment', '2024-06-01T09:00:00.000Z', 'u1', { post_id: 'p1' });
+  const groups = groupNotifications([...likes, comment]);
+
+  assert.equal(groups.length, 2);
+  assert.equal(groups[0].notifications.length, 39);
+  assert.equal(groups[0].actor_count, 39);
+  assert.equal(groups[0].unread_count, 39);
+  assert.equal(formatNotificationGroupSummary(groups[0]), 'Maria dan 38 lainnya menyukai postingan Anda');
+});
+
+test('splits groups outside the window and never merges invites', () => {
+  const groups = groupNotifications(
+    [
+      notification('a', 'like', '2024-06-03T10:00:00.000Z', 'u1', { post_id: 'p1' }),
+      notification('b', 'like', '2024-06-01T10:00:00.000Z', 'u2', { post_id: 'p1' }),
+      notification('c', 'radar_invite', '2024-06-03T09:00:00.000Z', 'u3', { radar_id: 'r1' }),
+      notification('d', 'radar_invite', '2024-06-03T08:00:00.000Z', 'u4', { radar_id: 'r1' }),
+    ],
+    24
+  );
+
+  assert.deepEqual(
+    groups.map((group) => group.notifications.map((item) => item.id)),
+    [['a'], ['c'], ['d'], ['b']]
+  );
+});
+
+test('scopes group actions to the type, target and window of the group', () => {
+  const [likes, invite] = groupNotifications(
+    [
+      notification('a', 'like', '2024-06-03T10:00:00.000Z', 'u1', { post_id: 'p1' }),
+      notification('b', 'like', '2024-06-03T09:00:00.000Z', 'u2', { post_id: 'p1' }),
+      notification('c', 'radar_invite', '2024-06-02T09:00:00.000Z', 'u3', { radar_id: 'r1' }),
+    ],
+    24
+  );
+
+  assert.deepEqual(getNotificationGroupScope(likes, 24), {
+    type: 'like',
+    target_id: 'p1',
+    data_keys: ['post_id', 'comment_id'],
+    since: '2024-06-02T10:00:00.000Z',
+    until: '2024-06-03T10:00:00.000Z',
+  });
+  assert.equal(getNotificationGroupScope(invite, 24), null);
+
+  const [follows] = groupNotifications([notification('f', 'follow', '2024-06-03T10:00:00.000Z', 'u1')], 24);
+  assert.equal(getNotificationGroupScope(follows, 24)?.target_id, undefined);
+});
+
+test('round-trips pagination cursors', () => {
+  const cursor = encodeNotificationCursor({ id: 'n-1', created_at: '2024-06-01T10:00:00.000Z' });
+  assert.deepEqual(decodeNotificationCursor(cursor), { createdAt: '2024-06-01T10:00:00.000Z', id: 'n-1' });
+  assert.equal(decodeNotificationCursor('garbage'), null);
+});
@@ -0,0 +1,191 @@
+import type { Notification, NotificationFilter, NotificationGroup, NotificationType } from '@/lib/types';
+import { NOTIFICATION_SETTINGS } from '@/lib/constants';
+
+export const NOTIFICATION_FILTER_TYPES: Record<Exclude<NotificationFilter, 'all'>, NotificationType[]> = {
+  mentions: ['mention'],
+  invites: ['radar_invite', 'mass_invite'],
+  chat: ['chat_message'],
+};
+
+export const NOTIFICATION_FILTER_LABELS: Record<NotificationFilter, string> = {
+  all: 'Semua',
+  mentions: 'Sebutan',
+  invites: 'Undangan',
+  chat: 'Chat',
+};
+
+// Invites and mentions each need their own answer or reply, so they are
+// never collapsed; everything else groups per target.
+const GROUPABLE_TYPES: NotificationType[] = ['like', 'comment', 'follow', 'story_reaction', 'chat_message'];
+
+const GROUP_ACTIONS: Partial<Record<NotificationType, string>> = {
+  like: 'menyukai postingan Anda',
+  comment: 'mengomentari postingan Anda',
+  follow: 'mulai mengikuti Anda',
+  story_reaction: 'menanggapi story Anda',
+};
+
+function readDataId(notification: Notification, keys: string[]) {
+  for (const key of keys) {
+    const value = notification.data?.[key];
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+  }
+  return undefined;
+}
+
+// `data` keys that name a notification's target, in lookup order.
+const TARGET_DATA_KEYS: Partial<Record<NotificationType, string[]>> = {
+  like: ['post_id', 'comment_id'],
+  comment: ['post_id', 'comment_id'],
+  mention: ['post_id', 'comment_id'],
+  story_reaction: ['story_id'],
+  radar_invite: ['radar_id', 'invite_id'],
+  mass_invite: ['radar_id', 'invite_id'],
+  chat_message: ['chat_id'],
+};
+
+export function getNotificationTargetId(notification: Notification) {
+  const dataId = readDataId(notification, TARGET_DATA_KEYS[notification.type] ?? []);
+  switch (notification.type) {
+    case 'like':
+    case 'comment':
+    case 'mention':
+      return dataId ?? notification.post?.id;
+    case 'radar_invite':
+    case 'mass_invite':
+      return dataId ?? notification.radar?.id;
+    case 'chat_message':
+      return dataId ?? notification.chat?.id;
+    default:
+      return dataId;
+  }
+}
+
+export interface NotificationGroupScope {
+  type: NotificationType;
+  /** Absent for types without a target, such as follows. */
+  target_id?: string;
+  data_keys: string[];
+  since: string;
+  until: string;
+}
+
+/**
+ * The server-side filter matching every row of a group, including rows the
+ * feed has not paged in yet. Null when the group has no target to match on;
+ * callers then act on the loaded rows only.
+ */
+export function getNotificationGroupScope(
+  group: NotificationGroup,
+  windowHours: number = NOTIFICATION_SETTINGS.GROUP_WINDOW_HOURS
+): NotificationGroupScope | null {
+  const dataKeys = TARGET_DATA_KEYS[group.type] ?? [];
+  const until = new Date(group.created_at);
+  if (!GROUPABLE_TYPES.includes(group.type) || Number.isNaN(until.getTime())) return null;
+  if (dataKeys.length > 0 && !group.target_id) return null;
+
+  return {
+    type: group.type,
+    target_id: dataKeys.length > 0 ? group.target_id : undefined,
+    data_keys: dataKeys,
+    since: new Date(until.getTime() - windowHours * 60 * 60 * 1000).toISOString(),
+    until: until.toISOString(),
+  };
+}
+
+/**
+ * Collapses notifications of the same type and target that arrive within
+ * `windowHours` of the newest one in the group. Input order does not matter;
+ * groups come back newest first.
+ */
+export function groupNotifications(
+  notifications: Notification[],
+  windowHours: number = NOTIFICATION_SETTINGS.GROUP_WINDOW_HOURS
+): NotificationGroup[] {
+  const windowMs = windowHours * 60 * 60 * 1000;
+  const sorted = [...notifications].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+  const groups: NotificationGroup[] = [];
+  const openGroups = new Map<string, NotificationGroup>();
+
+  for (const notification of sorted) {
+    const targetId = getNotificationTargetId(notification);
+    const groupKey = GROUPABLE_TYPES.includes(notification.type)
+      ? `${notification.type}:${targetId ?? ''}`
+      : null;
+    const open = groupKey ? openGroups.get(groupKey) : undefined;
+
+    if (
+      open &&
+      new Date(open.created_at).getTime() - new Date(notification.created_at).getTime() <= windowMs
+    ) {
+      open.notifications.push(notification);
+      continue;
+    }
+
+    const group: NotificationGroup = {
+      key: groupKey ? `${groupKey}:${notification.id}` : notification.id,
+      type: notification.type,
+      target_id: targetId,
+      notifications: [notification],
+      actors: [],
+      actor_count: 0,
+      unread_count: 0,
+      is_read: true,
+      created_at: notification.created_at,
+    };
+    groups.push(group);
+    if (groupKey) openGroups.set(groupKey, group);
+  }
+
+  for (const group of groups) {
+    const actors = new Map<string, NonNullable<Notification['sender']>>();
+    for (const notification of group.notifications) {
+      if (notification.sender?.id && !actors.has(notification.sender.id)) {
+        actors.set(notification.sender.id, notification.sender);
+      }
+    }
+    group.actors = [...actors.values()];
+    group.actor_count = actors.size;
+    group.unread_count = group.notifications.filter((notification) => !notification.is_read).length;
+    group.is_read = group.unread_count === 0;
+  }
+
+  return groups;
+}
+
+function formatActors(group: NotificationGroup) {
+  const [first, second] = group.actors;
+  const firstName = first?.full_name || 'Seseorang';
+  if (group.actor_count <= 1) return firstName;
+  if (group.actor_count === 2) return `${firstName} dan ${second?.full_name || '1 lainnya'}`;
+  return `${firstName} dan ${group.actor_count - 1} lainnya`;
+}
+
+export function formatNotificationGroupSummary(group: NotificationGroup) {
+  const [latest] = group.notifications;
+  if (group.notifications.length === 1) {
+    return latest.message || latest.title;
+  }
+
+  if (group.type === 'chat_message') {
+    return `${formatActors(group)} mengirim ${group.notifications.length} pesan`;
+  }
+
+  const action = GROUP_ACTIONS[group.type];
+  return action ? `${formatActors(group)} ${action}` : latest.message || latest.title;
+}
+
+export function encodeNotificationCursor(notification: Pick<Notification, 'id' | 'created_at'>) {
+  return `${notification.created_at}|${notification.id}`;
+}
+
+export function decodeNotificationCursor(cursor: string | null | undefined) {
+  if (!cursor) return null;
+  const separator = cursor.lastIndexOf('|');
+  if (separator <= 0) return null;
+  const createdAt = cursor.slice(0, separator);
+  const id = cursor.slice(separator + 1);
+  return Number.isNaN(new Date(createdAt).getTime()) || !id ? null : { createdAt, id };
+}
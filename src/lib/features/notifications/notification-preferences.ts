@@ -0,0 +1,76 @@
+import type {
+  EmailDigestFrequency,
+  Notification,
+  NotificationPreferences,
+  NotificationType,
+} from '@/lib/types';
+import { DIGEST_SETTINGS, NOTIFICATION_TYPES, RADAR_REMINDER_SETTINGS } from '@/lib/constants';
+
+export const NOTIFICATION_TYPE_LIST = Object.values(NOTIFICATION_TYPES) as NotificationType[];
+
+const EMAIL_DIGEST_FREQUENCIES: EmailDigestFrequency[] = ['off', 'daily', 'weekly'];
+
+// Unknown offsets are dropped so a stale client cannot schedule arbitrary reminders.
+function resolveReminderOffsets(raw: unknown): number[] {
+  if (!Array.isArray(raw)) return [...RADAR_REMINDER_SETTINGS.DEFAULT_OFFSETS_MINUTES];
+  const options: readonly number[] = RADAR_REMINDER_SETTINGS.OFFSET_OPTIONS_MINUTES;
+  return [...new Set(raw.map(Number))].filter((offset) => options.includes(offset)).sort((a, b) => b - a);
+}
+
+/** Every type is opted in unless the user turned it off, including types added later. */
+export function resolveNotificationPreferences(raw: unknown): NotificationPreferences {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const rawTypes =
+    value.push_types && typeof value.push_types === 'object'
+      ? (value.push_types as Record<string, unknown>)
+      : {};
+
+  return {
+    ...value,
+    push_types: NOTIFICATION_TYPE_LIST.reduce(
+      (result, type) => ({
+        ...result,
+        [type]: typeof rawTypes[type] === 'boolean' ? rawTypes[type] : true,
+      }),
+      {} as Record<NotificationType, boolean>
+    ),
+    email_digest: EMAIL_DIGEST_FREQUENCIES.includes(value.email_digest as EmailDigestFrequency)
+      ? (value.email_digest as EmailDigestFrequency)
+      : DIGEST_SETTINGS.DEFAULT_FREQUENCY,
+    radar_reminder_offsets: resolveReminderOffsets(value.radar_reminder_offsets),
+  };
+}
+
+export function isPushAllowed(preferences: NotificationPreferences, type: NotificationType) {
+  return preferences.push_types[type] !== false;
+}
+
+export function getNotificationHref(notification: Pick<Notification, 'type' | 'data' | 'sender'>) {
+  const data = notification.data ?? {};
+  const read = (key: string) => {
+    const value = data[key];
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+  };
+
+  switch (notification.type) {
+    case 'follow':
+      return notification.sender?.id ? `/profile/${notification.sender.id}` : '/notifications';
+    case 'like':
+    case 'comment':
+    case 'mention':
+      return read('post_id') ? `/post/${read('post_id')}` : '/notifications';
+    case 'radar_invite':
+    case 'mass_invite':
+      return read('radar_id') ? `/radar/${read('radar_id')}` : '/radar/invites';
+    case 'radar_waitlist_promoted':
+    case 'radar_reminder':
+      return read('radar_id') ? `/radar/${read('radar_id')}` : '/radar';
+    case 'chat_message':
+      return read('chat_id') ? `/chat/${read('chat_id')}` : '/chat';
+    case 'poll_closed':
+      if (read('chat_id')) return `/chat/${read('chat_id')}`;
+      return read('post_id') ? `/post/${read('post_id')}` : '/notifications';
+    default:
+      return '/notifications';
+  }
+}
@@ -1,8 +1,15 @@
 // Notifications Service
 
 import { supabase } from '@/lib/supabase/client';
-import type { Notification } from '@/lib/types';
+import { NOTIFICATION_SETTINGS } from '@/lib/constants';
+import type { Notification, NotificationGroup, NotificationPage, NotificationType } from '@/lib/types';
 import { createRandomUUID } from '@/lib/utils';
+import {
+  decodeNotificationCursor,
+  encodeNotificationCursor,
+  getNotificationGroupScope,
+  type NotificationGroupScope,
+} from './notification-grouping';
 
 function isMissingColumnError(message: string, column: string) {
   const lower = message.toLowerCase();
@@ -46,7 +53,7 @@ function normalizeSupabaseError(error: unknown): string {
   return describeError(error).normalized;
 }
 
-function mapNotificationRow(row: Record<string, unknown>): Notification {
+export function mapNotificationRow(row: Record<string, unknown>): Notification {
   const senderRow =
     (row.sender as Record<string, unknown> | null) ||
     (row.actor as Record<string, unknown> | null) ||
@@ -63,6 +70,9 @@ function mapNotificationRow(row: Record<string, unknown>): Notification {
     'mass_invite',
     'chat_message',
     'story_reaction',
+    'poll_closed',
+    'radar_waitlist_promoted',
+    'radar_reminder',
   ];
 
   const type = allowedTypes.includes(typeValue as Notification['type'])
@@ -100,23 +110,60 @@ function mapNotificationRow(row: Record<string, unknown>): Notification {
   };
 }
 
+interface ScopableQuery<Query> {
+  eq(column: string, value: string): Query;
+  gte(column: string, value: string): Query;
+  lte(column: string, value: string): Query;
+  or(filters: string): Query;
+}
+
+function applyGroupScope<Query extends ScopableQuery<Query>>(query: Query, scope: NotificationGroupScope): Query {
+  const scoped = query.eq('type', scope.type).gte('created_at', scope.since).lte('created_at', scope.until);
+  if (!scope.target_id) return scoped;
+  return scoped.or(scope.data_keys.map((key) => `data->>${key}.eq."${scope.target_id}"`).join(','));
+}
+
 export class NotificationService {
   static async getNotifications(userId: string, limit = 50): Promise<Notification[]> {
-    const primary = await supabase
-      .from('notifications')
-      .select(
-        `
+    const page = await this.getNotificationPage(userId, { limit });
+    return page.items;
+  }
+
+  /**
+   * Keyset pagination on (created_at, id) so rows arriving while the user
+   * scrolls do not shift later pages.
+   */
+  static async getNotificationPage(
+    userId: string,
+    params?: { limit?: number; cursor?: string | null; types?: NotificationType[] }
+  ): Promise<NotificationPage> {
+    const limit = params?.limit ?? NOTIFICATION_SETTINGS.PAGE_SIZE;
+    const cursor = decodeNotificationCursor(params?.cursor);
+    const types = params?.types?.length ? params.types : null;
+
+    const buildQuery = (columns: string, ordered = true) => {
+      let query = supabase.from('notifications').select(columns).eq('user_id', userId);
+      if (types) query = query.in('type', types);
+      if (!ordered) return query.limit(limit);
+
+      query = query.order('created_at', { ascending: false }).order('id', { ascending: false });
+      if (cursor) {
+        query = query.or(
+          `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+        );
+      }
+      return query.limit(limit + 1);
+    };
+
+    const primary = await buildQuery(`
         *,
         sender:sender_id (id, full_name, avatar_url, role),
         actor:actor_id (id, full_name, avatar_url, role)
-      `
-      )
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .limit(limit);
+      `);
 
-    let data = primary.data as Record<string, unknown>[] | null;
+    let data = primary.data as unknown as Record<string, unknown>[] | null;
     let error = primary.error;
+    let canPaginate = true;
 
     if (
       error &&
@@ -127,33 +174,55 @@ export class NotificationService {
         isMissingRelationError(error, 'actor_id')
       )
     ) {
-      const fallbackByCreatedAt = await supabase
-        .from('notifications')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false })
-        .limit(limit);
-      data = fallbackByCreatedAt.data as Record<string, unknown>[] | null;
+      const fallbackByCreatedAt = await buildQuery('*');
+      data = fallbackByCreatedAt.data as unknown as Record<string, unknown>[] | null;
       error = fallbackByCreatedAt.error;
     }
 
     if (error && isMissingColumnError(error.message, 'created_at')) {
-      const fallbackNoOrder = await supabase
-        .from('notifications')
-        .select('*')
-        .eq('user_id', userId)
-        .limit(limit);
+      const fallbackNoOrder = await buildQuery('*', false);
 
-      data = fallbackNoOrder.data as Record<string, unknown>[] | null;
+      data = fallbackNoOrder.data as unknown as Record<string, unknown>[] | null;
       error = fallbackNoOrder.error;
+      canPaginate = false;
     }
 
     if (error) {
       console.error('Error fetching notifications:', normalizeSupabaseError(error));
-      return [];
+      return { items: [], next_cursor: null };
+    }
+
+    const rows = data ?? [];
+    const items = rows.slice(0, limit).map(mapNotificationRow);
+    const last = items[items.length - 1];
+    return {
+      items,
+      next_cursor: canPaginate && rows.length > limit && last ? encodeNotificationCursor(last) : null,
+    };
+  }
+
+  static async getUnreadCount(userId: string): Promise<number> {
+    const primary = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (primary.error && isMissingColumnError(primary.error.message, 'is_read')) {
+      const fallback = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null);
+      return fallback.count ?? 0;
+    }
+
+    if (primary.error) {
+      console.error('Error counting unread notifications:', normalizeSupabaseError(primary.error));
+      return 0;
     }
 
-    return (data ?? []).map(mapNotificationRow);
+    return primary.count ?? 0;
   }
 
   static async markAsRead(notificationId: string) {
@@ -211,4 +280,87 @@ export class NotificationService {
       throw new Error(error.message);
     }
   }
+
+  static async markManyAsRead(notificationIds: string[]) {
+    const ids = [...new Set(notificationIds.filter(Boolean))];
+    if (ids.length === 0) return;
+
+    const updateResult = await supabase.from('notifications').update({ is_read: true }).in('id', ids);
+
+    if (updateResult.error && isMissingColumnError(updateResult.error.message, 'is_read')) {
+      const fallback = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', ids);
+
+      if (fallback.error) {
+        throw new Error(fallback.error.message);
+      }
+
+      return;
+    }
+
+    if (updateResult.error) {
+      throw new Error(updateResult.error.message);
+    }
+  }
+
+  static async deleteNotifications(notificationIds: string[]) {
+    const ids = [...new Set(notificationIds.filter(Boolean))];
+    if (ids.length === 0) return;
+
+    const { error } = await supabase.from('notifications').delete().in('id', ids);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Marks the whole group read, not just the rows the feed has paged in:
+   * every row of the user with the group's type and target inside its window.
+   */
+  static async markGroupAsRead(userId: string, group: NotificationGroup) {
+    const scope = getNotificationGroupScope(group);
+    const loadedIds = group.notifications.map((item) => item.id);
+    if (!scope) {
+      await this.markManyAsRead(loadedIds);
+      return;
+    }
+
+    const updateResult = await applyGroupScope(
+      supabase.from('notifications').update({ is_read: true }).eq('user_id', userId),
+      scope
+    );
+
+    if (updateResult.error && isMissingColumnError(updateResult.error.message, 'is_read')) {
+      const fallback = await applyGroupScope(
+        supabase.from('notifications').update({ read_at: new Date().toISOString() }).eq('user_id', userId),
+        scope
+      );
+
+      if (fallback.error) {
+        throw new Error(fallback.error.message);
+      }
+    } else if (updateResult.error) {
+      throw new Error(updateResult.error.message);
+    }
+
+    // Rows that only name their target through a joined relation miss the data filter.
+    await this.markManyAsRead(loadedIds);
+  }
+
+  static async deleteGroup(userId: string, group: NotificationGroup) {
+    const scope = getNotificationGroupScope(group);
+    if (scope) {
+      const { error } = await applyGroupScope(
+        supabase.from('notifications').delete().eq('user_id', userId),
+        scope
+      );
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    await this.deleteNotifications(group.notifications.map((item) => item.id));
+  }
 }
@@ -2,41 +2,34 @@
 
 'use client';
 
-import { useEffect } from 'react';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useMemo } from 'react';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { NOTIFICATION_SETTINGS } from '@/lib/constants';
 import { supabase } from '@/lib/supabase/client';
 import { useAuth } from '@/lib/features/auth/use-auth';
+import type { NotificationFilter, NotificationGroup } from '@/lib/types';
+import { groupNotifications, NOTIFICATION_FILTER_TYPES } from './notification-grouping';
 import { NotificationService } from './notification-service';
 
-export function useNotifications(limit = 50) {
-  const { user } = useAuth();
+function useNotificationsRealtime(userId: string | undefined, scope: string) {
   const queryClient = useQueryClient();
 
-  const query = useQuery({
-    queryKey: ['notifications', user?.id, limit],
-    queryFn: () => {
-      if (!user?.id) return Promise.resolve([]);
-      return NotificationService.getNotifications(user.id, limit);
-    },
-    enabled: Boolean(user?.id),
-  });
-
   useEffect(() => {
-    if (!user?.id) return;
+    if (!userId) return;
 
     const channel = supabase
-      .channel(`notifications:${user.id}`)
+      .channel(`notifications:${userId}:${scope}`)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
           table: 'notifications',
-          filter: `user_id=eq.${user.id}`,
+          filter: `user_id=eq.${userId}`,
         },
         () => {
-          queryClient.invalidateQueries({ queryKey: ['notifications', user.id] });
+          queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
         }
       )
       .subscribe();
@@ -44,11 +37,70 @@ export function useNotifications(limit = 50) {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [queryClient, user?.id]);
+  }, [queryClient, scope, userId]);
+}
+
+export function useNotifications(limit = 50) {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['notifications', user?.id, limit],
+    queryFn: () => {
+      if (!user?.id) return Promise.resolve([]);
+      return NotificationService.getNotifications(user.id, limit);
+    },
+    enabled: Boolean(user?.id),
+  });
+
+  useNotificationsRealtime(user?.id, `list-${limit}`);
 
   return query;
 }
 
+export function useNotificationFeed(
+  filter: NotificationFilter = 'all',
+  pageSize: number = NOTIFICATION_SETTINGS.PAGE_SIZE
+) {
+  const { user } = useAuth();
+
+  const query = useInfiniteQuery({
+    queryKey: ['notifications', user?.id, 'feed', filter, pageSize],
+    queryFn: ({ pageParam }) => {
+      if (!user?.id) return Promise.resolve({ items: [], next_cursor: null });
+      return NotificationService.getNotificationPage(user.id, {
+        limit: pageSize,
+        cursor: pageParam,
+        types: filter === 'all' ? undefined : NOTIFICATION_FILTER_TYPES[filter],
+      });
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+    enabled: Boolean(user?.id),
+  });
+
+  useNotificationsRealtime(user?.id, `feed-${filter}`);
+
+  const groups = useMemo(
+    () => groupNotifications(query.data?.pages.flatMap((page) => page.items) ?? []),
+    [query.data]
+  );
+
+  return { ...query, groups };
+}
+
+export function useUnreadNotificationCount() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['notifications', user?.id, 'unread-count'],
+    queryFn: () => {
+      if (!user?.id) return Promise.resolve(0);
+      return NotificationService.getUnreadCount(user.id);
+    },
+    enabled: Boolean(user?.id),
+  });
+}
+
 export function useMarkNotificationRead() {
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -97,3 +149,39 @@ export function useDeleteNotification() {
     },
   });
 }
+
+export function useMarkNotificationGroupRead() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (group: NotificationGroup) => {
+      if (!user?.id) throw new Error('Anda harus login');
+      await NotificationService.markGroupAsRead(user.id, group);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', user?.id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useDeleteNotificationGroup() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (group: NotificationGroup) => {
+      if (!user?.id) throw new Error('Anda harus login');
+      await NotificationService.deleteGroup(user.id, group);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', user?.id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
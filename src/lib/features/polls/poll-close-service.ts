@@ -0,0 +1,81 @@
+// Poll Close Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { POLL_SETTINGS } from '@/lib/constants';
+import { buildPollResults } from './poll-results';
+import { buildPollClosedNotification, mapPollRow, mapVoteRow } from './poll-service';
+
+export type PollCloseRunSummary = {
+  due: number;
+  closed: number;
+  notified: number;
+  failed: number;
+};
+
+function readRows(data: unknown) {
+  return (data ?? []) as Record<string, unknown>[];
+}
+
+// Runs with the service-role client so due polls close even when nobody opens
+// them, and the creator's result notification does not depend on who was
+// looking at the poll. Only the run that sets closed_at notifies.
+export class PollCloseService {
+  static async closeDuePolls(
+    client: SupabaseClient,
+    params: { now?: Date; dryRun?: boolean } = {}
+  ): Promise<PollCloseRunSummary> {
+    const { now = new Date(), dryRun = false } = params;
+    const summary: PollCloseRunSummary = { due: 0, closed: 0, notified: 0, failed: 0 };
+
+    const { data, error } = await client
+      .from('polls')
+      .select('*')
+      .is('closed_at', null)
+      .lte('closes_at', now.toISOString())
+      .order('closes_at', { ascending: true })
+      .limit(POLL_SETTINGS.CLOSE_BATCH_SIZE);
+    if (error) throw new Error(error.message);
+
+    const duePolls = readRows(data).map(mapPollRow);
+    summary.due = duePolls.length;
+    if (dryRun) return summary;
+
+    for (const poll of duePolls) {
+      const closedAt = poll.closes_at ?? now.toISOString();
+      const update = await client
+        .from('polls')
+        .update({ closed_at: closedAt })
+        .eq('id', poll.id)
+        .is('closed_at', null)
+        .select('id');
+      if (update.error) {
+        console.error(`Error closing poll ${poll.id}:`, update.error.message);
+        summary.failed += 1;
+        continue;
+      }
+      if ((update.data ?? []).length === 0) continue;
+      summary.closed += 1;
+
+      const votes = await client.from('poll_votes').select('option_id, user_id, created_at').eq('poll_id', poll.id);
+      if (votes.error) {
+        console.error(`Error reading votes for poll ${poll.id}:`, votes.error.message);
+        summary.failed += 1;
+        continue;
+      }
+
+      const results = buildPollResults(
+        { ...poll, closed_at: closedAt },
+        readRows(votes.data).map((row) => mapVoteRow(poll.id, row))
+      );
+      const { error: notifyError } = await client.from('notifications').insert(buildPollClosedNotification(results));
+      if (notifyError) {
+        console.error(`Error notifying creator of poll ${poll.id}:`, notifyError.message);
+        summary.failed += 1;
+      } else {
+        summary.notified += 1;
+      }
+    }
+
+    return summary;
+  }
+}
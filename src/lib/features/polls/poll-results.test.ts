@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { Poll, PollVote } from '@/lib/types';
+import {
+  applyPollTally,
+  buildPollResults,
+  formatPollSummary,
+  isPollClosed,
+  normalizeVoteSelection,
+  validatePollDraft,
+} from './poll-results';
+
+const now = new Date('2026-10-19T10:00:00Z');
+
+const poll: Poll = {
+  id: 'poll-1',
+  creator_id: 'creator',
+  question: 'Misa jam berapa?',
+  options: [
+    { id: 'a', label: '06.00' },
+    { id: 'b', label: '08.00' },
+    { id: 'c', label: '17.00' },
+  ],
+  allow_multiple: true,
+  is_anonymous: false,
+  created_at: '2026-10-19T08:00:00Z',
+};
+
+function vote(userId: string, optionId: string): PollVote {
+  return {
+    poll_id: poll.id,
+    option_id: optionId,
+    user_id: userId,
+    created_at: '2026-10-19T09:00:00Z',
+    profile: { id: userId, full_name: userId },
+  };
+}
+
+test('validates drafts before a poll is created', () => {
+  const draft = { question: 'Misa jam berapa?', options: ['06.00', '08.00'], allow_multiple: false, is_anonymous: false };
+  assert.equal(validatePollDraft(draft, now), null);
+  assert.equal(validatePollDraft({ ...draft, options: ['06.00', ' '] }, now), 'Isi minimal 2 pilihan');
+  assert.equal(validatePollDraft({ ...draft, options: ['Pagi', 'pagi'] }, now), 'Pilihan tidak boleh sama');
+  assert.equal(
+    validatePollDraft({ ...draft, closes_at: '2026-10-19T09:00:00Z' }, now),
+    'Waktu penutupan harus di masa depan'
+  );
+});
+
+test('treats a passed close time as closed', () => {
+  assert.equal(isPollClosed({ closes_at: '2026-10-19T09:59:00Z' }, now), true);
+  assert.equal(isPollClosed({ closes_at: '2026-10-19T11:00:00Z' }, now), false);
+  assert.equal(isPollClosed({ closed_at: '2026-10-19T09:00:00Z' }, now), true);
+});
+
+test('keeps one pick for single-choice polls', () => {
+  assert.deepEqual(normalizeVoteSelection(poll, ['c', 'x', 'a']), ['a', 'c']);
+  assert.deepEqual(normalizeVoteSelection({ ...poll, allow_multiple: false }, ['c', 'a']), ['a']);
+});
+
+test('tallies voters per option and hides names in anonymous polls', () => {
+  const votes = [vote('u1', 'a'), vote('u1', 'b'), vote('u2', 'b'), vote('u3', 'zzz')];
+  const results = buildPollResults(poll, votes, 'u1', now);
+
+  assert.equal(results.total_voters, 2);
+  assert.deepEqual(results.my_option_ids, ['a', 'b']);
+  assert.deepEqual(
+    results.options.map((option) => [option.option.id, option.count, option.percent, option.is_leading]),
+    [
+      ['a', 1, 50, false],
+      ['b', 2, 100, true],
+      ['c', 0, 0, false],
+    ]
+  );
+  assert.deepEqual(results.options[1].voters.map((voter) => voter.id), ['u1', 'u2']);
+  assert.equal(formatPollSummary(results), '2 suara. Teratas: 08.00');
+
+  const anonymous = buildPollResults({ ...poll, is_anonymous: true }, votes, 'u1', now);
+  assert.deepEqual(anonymous.options[1].voters, []);
+});
+
+test('anonymous polls take their counts from the tally', () => {
+  const anonymousPoll = { ...poll, is_anonymous: true };
+  const ownVotes = buildPollResults(anonymousPoll, [vote('u1', 'a')], 'u1', now);
+  const results = applyPollTally(ownVotes, { counts: { a: 1, b: 3 }, total_voters: 4 });
+
+  assert.equal(results.total_voters, 4);
+  assert.equal(results.total_votes, 4);
+  assert.deepEqual(results.my_option_ids, ['a']);
+  assert.deepEqual(
+    results.options.map((option) => [option.option.id, option.count, option.percent, option.is_selected, option.is_leading]),
+    [
+      ['a', 1, 25, true, false],
+      ['b', 3, 75, false, true],
+      ['c', 0, 0, false, false],
+    ]
+  );
+  assert.equal(formatPollSummary(results), '4 suara. Teratas: 08.00');
+});
@@ -0,0 +1,129 @@
+import { POLL_SETTINGS } from '@/lib/constants';
+import type { Poll, PollDraft, PollOptionResult, PollResults, PollTally, PollVote, PollVoter } from '@/lib/types';
+
+export function isPollClosed(poll: Pick<Poll, 'closes_at' | 'closed_at'>, now = new Date()) {
+  if (poll.closed_at) return true;
+  if (!poll.closes_at) return false;
+  const closesAt = new Date(poll.closes_at).getTime();
+  return Number.isFinite(closesAt) && closesAt <= now.getTime();
+}
+
+export function validatePollDraft(draft: PollDraft, now = new Date()): string | null {
+  const question = draft.question.trim();
+  if (!question) return 'Pertanyaan polling wajib diisi';
+  if (question.length > POLL_SETTINGS.QUESTION_MAX_LENGTH) {
+    return `Pertanyaan maksimal ${POLL_SETTINGS.QUESTION_MAX_LENGTH} karakter`;
+  }
+
+  const options = draft.options.map((option) => option.trim()).filter(Boolean);
+  if (options.length < POLL_SETTINGS.MIN_OPTIONS) {
+    return `Isi minimal ${POLL_SETTINGS.MIN_OPTIONS} pilihan`;
+  }
+  if (options.length > POLL_SETTINGS.MAX_OPTIONS) {
+    return `Maksimal ${POLL_SETTINGS.MAX_OPTIONS} pilihan`;
+  }
+  if (options.some((option) => option.length > POLL_SETTINGS.OPTION_MAX_LENGTH)) {
+    return `Setiap pilihan maksimal ${POLL_SETTINGS.OPTION_MAX_LENGTH} karakter`;
+  }
+  if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+    return 'Pilihan tidak boleh sama';
+  }
+
+  if (draft.closes_at) {
+    const closesAt = new Date(draft.closes_at).getTime();
+    if (!Number.isFinite(closesAt) || closesAt <= now.getTime()) {
+      return 'Waktu penutupan harus di masa depan';
+    }
+  }
+
+  return null;
+}
+
+/** Keeps known options only, in poll order; a single-choice poll keeps the first pick. */
+export function normalizeVoteSelection(poll: Pick<Poll, 'options' | 'allow_multiple'>, optionIds: string[]) {
+  const wanted = new Set(optionIds);
+  const selected = poll.options.filter((option) => wanted.has(option.id)).map((option) => option.id);
+  return poll.allow_multiple ? selected : selected.slice(0, 1);
+}
+
+/**
+ * Tallies votes per option. Percentages are shares of voters, so in a
+ * multiple-choice poll they can add up to more than 100. Anonymous polls never
+ * expose voters, even when the votes carry profiles.
+ */
+export function buildPollResults(
+  poll: Poll,
+  votes: PollVote[],
+  currentUserId?: string,
+  now = new Date()
+): PollResults {
+  const validOptionIds = new Set(poll.options.map((option) => option.id));
+  const validVotes = votes.filter((vote) => validOptionIds.has(vote.option_id));
+  const voterIds = new Set(validVotes.map((vote) => vote.user_id));
+  const totalVoters = voterIds.size;
+
+  const counts = new Map<string, number>();
+  const votersByOption = new Map<string, PollVoter[]>();
+  for (const vote of validVotes) {
+    counts.set(vote.option_id, (counts.get(vote.option_id) ?? 0) + 1);
+    if (!poll.is_anonymous && vote.profile) {
+      const list = votersByOption.get(vote.option_id) ?? [];
+      list.push(vote.profile);
+      votersByOption.set(vote.option_id, list);
+    }
+  }
+
+  const myOptionIds = currentUserId
+    ? validVotes.filter((vote) => vote.user_id === currentUserId).map((vote) => vote.option_id)
+    : [];
+  const topCount = Math.max(0, ...counts.values());
+
+  const options: PollOptionResult[] = poll.options.map((option) => {
+    const count = counts.get(option.id) ?? 0;
+    return {
+      option,
+      count,
+      percent: totalVoters > 0 ? Math.round((count / totalVoters) * 100) : 0,
+      is_selected: myOptionIds.includes(option.id),
+      is_leading: topCount > 0 && count === topCount,
+      voters: votersByOption.get(option.id) ?? [],
+    };
+  });
+
+  return {
+    poll,
+    options,
+    total_votes: validVotes.length,
+    total_voters: totalVoters,
+    my_option_ids: myOptionIds,
+    is_closed: isPollClosed(poll, now),
+  };
+}
+
+/**
+ * Replaces the counts with a server tally. Anonymous polls only return the
+ * viewer's own votes, so the viewer's selection still comes from `results`.
+ */
+export function applyPollTally(results: PollResults, tally: PollTally): PollResults {
+  const counts = results.poll.options.map((option) => tally.counts[option.id] ?? 0);
+  const topCount = Math.max(0, ...counts);
+
+  return {
+    ...results,
+    options: results.options.map((option, index) => ({
+      ...option,
+      count: counts[index],
+      percent: tally.total_voters > 0 ? Math.round((counts[index] / tally.total_voters) * 100) : 0,
+      is_leading: topCount > 0 && counts[index] === topCount,
+    })),
+    total_votes: counts.reduce((sum, count) => sum + count, 0),
+    total_voters: tally.total_voters,
+  };
+}
+
+export function formatPollSummary(results: Pick<PollResults, 'options' | 'total_voters'>) {
+  if (results.total_voters === 0) return 'Belum ada suara';
+  const leaders = results.options.filter((option) => option.is_leading).map((option) => option.option.label);
+  const lead = leaders.length === 1 ? `Teratas: ${leaders[0]}` : `Seri: ${leaders.join(', ')}`;
+  return `${results.total_voters} suara. ${lead}`;
+}
@@ -0,0 +1,283 @@
+// Poll Service
+
+import { supabase } from '@/lib/supabase/client';
+import type { Poll, PollDraft, PollOption, PollResults, PollTally, PollVote } from '@/lib/types';
+import { createRandomUUID } from '@/lib/utils';
+import {
+  applyPollTally,
+  buildPollResults,
+  formatPollSummary,
+  isPollClosed,
+  normalizeVoteSelection,
+  validatePollDraft,
+} from './poll-results';
+
+const POLL_UNAVAILABLE_MESSAGE = 'Fitur polling belum tersedia. Hubungi admin untuk mengaktifkannya.';
+
+function isMissingSchemaObjectError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes('does not exist') ||
+    normalized.includes('schema cache') ||
+    normalized.includes('could not find') ||
+    normalized.includes('42p01')
+  );
+}
+
+function parseOptions(value: unknown): PollOption[] {
+  let raw = value;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw) as unknown;
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item) => {
+    const row = item as Record<string, unknown> | null;
+    const id = row?.id?.toString();
+    const label = row?.label?.toString().trim();
+    return id && label ? [{ id, label }] : [];
+  });
+}
+
+export function mapPollRow(row: Record<string, unknown>): Poll {
+  return {
+    id: row.id?.toString() ?? createRandomUUID(),
+    creator_id: row.creator_id?.toString() ?? '',
+    question: row.question?.toString() ?? '',
+    options: parseOptions(row.options),
+    allow_multiple: row.allow_multiple === true,
+    is_anonymous: row.is_anonymous === true,
+    closes_at: row.closes_at?.toString() || undefined,
+    closed_at: row.closed_at?.toString() || undefined,
+    chat_id: row.chat_id?.toString() || undefined,
+    post_id: row.post_id?.toString() || undefined,
+    created_at: row.created_at?.toString() ?? new Date().toISOString(),
+  };
+}
+
+export function mapVoteRow(pollId: string, row: Record<string, unknown>): PollVote {
+  const profile = (Array.isArray(row.profiles) ? row.profiles[0] : row.profiles) as
+    | Record<string, unknown>
+    | null
+    | undefined;
+  const userId = row.user_id?.toString() ?? row.voter_id?.toString() ?? '';
+  const fullName = row.full_name?.toString() ?? profile?.full_name?.toString();
+  const avatarUrl = row.avatar_url?.toString() ?? profile?.avatar_url?.toString();
+
+  return {
+    poll_id: pollId,
+    option_id: row.option_id?.toString() ?? '',
+    user_id: userId,
+    created_at: row.created_at?.toString() ?? new Date().toISOString(),
+    profile: fullName || avatarUrl ? { id: userId, full_name: fullName, avatar_url: avatarUrl } : undefined,
+  };
+}
+
+/** The creator's "poll closed" notification with the final result. */
+export function buildPollClosedNotification(results: PollResults): Record<string, unknown> {
+  const { poll } = results;
+  return {
+    user_id: poll.creator_id,
+    type: 'poll_closed',
+    title: 'Polling ditutup',
+    message: `"${poll.question}" telah ditutup. ${formatPollSummary(results)}.`,
+    data: {
+      poll_id: poll.id,
+      ...(poll.chat_id ? { chat_id: poll.chat_id } : {}),
+      ...(poll.post_id ? { post_id: poll.post_id } : {}),
+    },
+  };
+}
+
+export class PollService {
+  static async createPoll(
+    userId: string,
+    draft: PollDraft,
+    context: { chatId?: string; postId?: string }
+  ): Promise<Poll> {
+    const validationError = validatePollDraft(draft);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const options: PollOption[] = draft.options
+      .map((label) => label.trim())
+      .filter(Boolean)
+      .map((label) => ({ id: createRandomUUID(), label }));
+
+    const { data, error } = await supabase
+      .from('polls')
+      .insert({
+        creator_id: userId,
+        question: draft.question.trim(),
+        options,
+        allow_multiple: draft.allow_multiple,
+        is_anonymous: draft.is_anonymous,
+        closes_at: draft.closes_at ?? null,
+        chat_id: context.chatId ?? null,
+        post_id: context.postId ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(isMissingSchemaObjectError(error.message) ? POLL_UNAVAILABLE_MESSAGE : error.message);
+    }
+
+    return mapPollRow(data as Record<string, unknown>);
+  }
+
+  // Post polls are created before the post, so the post id is linked afterwards.
+  static async attachPollToPost(pollId: string, postId: string) {
+    const { error } = await supabase.from('polls').update({ post_id: postId }).eq('id', pollId);
+    if (error) {
+      console.warn('PollService.attachPollToPost failed:', error.message);
+    }
+  }
+
+  static async getPoll(pollId: string): Promise<Poll | null> {
+    const { data, error } = await supabase.from('polls').select('*').eq('id', pollId).maybeSingle();
+
+    if (error) {
+      if (!isMissingSchemaObjectError(error.message)) {
+        console.error('Error fetching poll:', error);
+      }
+      return null;
+    }
+
+    return data ? mapPollRow(data as Record<string, unknown>) : null;
+  }
+
+  static async getPollResults(pollId: string, currentUserId?: string): Promise<PollResults | null> {
+    const poll = await this.getPoll(pollId);
+    if (!poll) return null;
+
+    const votes = await this.getPollVotes(poll);
+    const results = buildPollResults(poll, votes, currentUserId);
+    if (!poll.is_anonymous) return results;
+
+    const tally = await this.getPollTally(poll.id);
+    return tally ? applyPollTally(results, tally) : results;
+  }
+
+  /**
+   * Replaces the user's votes in one vote_poll call. The database refuses votes
+   * once the poll is closed, so a stale client cannot vote after the close time.
+   */
+  static async vote(userId: string, pollId: string, optionIds: string[]): Promise<void> {
+    const poll = await this.getPoll(pollId);
+    if (!poll) {
+      throw new Error('Polling tidak ditemukan');
+    }
+
+    if (isPollClosed(poll)) {
+      throw new Error('Polling sudah ditutup');
+    }
+
+    const { error } = await supabase.rpc('vote_poll', {
+      p_poll_id: pollId,
+      p_option_ids: normalizeVoteSelection(poll, optionIds),
+    });
+
+    if (error) {
+      throw new Error(isMissingSchemaObjectError(error.message) ? POLL_UNAVAILABLE_MESSAGE : error.message);
+    }
+  }
+
+  /**
+   * Closes a poll early. Only the creator can; polls that reach `closes_at` are
+   * closed by the scheduled job in PollCloseService, which notifies the creator.
+   */
+  static async closePoll(userId: string, pollId: string): Promise<boolean> {
+    let closedNow = false;
+    const rpcResult = await supabase.rpc('close_poll', { p_poll_id: pollId });
+
+    if (!rpcResult.error) {
+      closedNow = rpcResult.data === true;
+    } else if (isMissingSchemaObjectError(rpcResult.error.message)) {
+      const updateResult = await supabase
+        .from('polls')
+        .update({ closed_at: new Date().toISOString() })
+        .eq('id', pollId)
+        .eq('creator_id', userId)
+        .is('closed_at', null)
+        .select('id');
+
+      if (updateResult.error) {
+        throw new Error(updateResult.error.message);
+      }
+      closedNow = (updateResult.data ?? []).length > 0;
+    } else {
+      throw new Error(rpcResult.error.message);
+    }
+
+    if (closedNow) {
+      const results = await this.getPollResults(pollId);
+      if (results) {
+        await this.notifyPollClosed(results, userId);
+      }
+    }
+
+    return closedNow;
+  }
+
+  private static async getPollVotes(poll: Poll): Promise<PollVote[]> {
+    // On anonymous polls the RPC returns the viewer's own votes only; direct reads are the fallback.
+    const rpcResult = await supabase.rpc('get_poll_votes', { p_poll_id: poll.id });
+    if (!rpcResult.error) {
+      return ((rpcResult.data ?? []) as Record<string, unknown>[]).map((row) => mapVoteRow(poll.id, row));
+    }
+
+    if (!isMissingSchemaObjectError(rpcResult.error.message)) {
+      console.warn('PollService.getPollVotes rpc failed:', rpcResult.error.message);
+    }
+
+    const { data, error } = await supabase
+      .from('poll_votes')
+      .select(
+        poll.is_anonymous
+          ? 'option_id, user_id, created_at'
+          : 'option_id, user_id, created_at, profiles:user_id (id, full_name, avatar_url)'
+      )
+      .eq('poll_id', poll.id);
+
+    if (error) {
+      if (!isMissingSchemaObjectError(error.message)) {
+        console.error('Error fetching poll votes:', error);
+      }
+      return [];
+    }
+
+    return ((data ?? []) as unknown as Record<string, unknown>[]).map((row) => mapVoteRow(poll.id, row));
+  }
+
+  private static async getPollTally(pollId: string): Promise<PollTally | null> {
+    const { data, error } = await supabase.rpc('get_poll_tally', { p_poll_id: pollId });
+    if (error) {
+      if (!isMissingSchemaObjectError(error.message)) {
+        console.warn('PollService.getPollTally rpc failed:', error.message);
+      }
+      return null;
+    }
+
+    const rows = (data ?? []) as Record<string, unknown>[];
+    return {
+      counts: Object.fromEntries(rows.map((row) => [row.option_id?.toString() ?? '', Number(row.vote_count) || 0])),
+      total_voters: Number(rows[0]?.voter_count) || 0,
+    };
+  }
+
+  private static async notifyPollClosed(results: PollResults, senderId: string) {
+    const { error } = await supabase
+      .from('notifications')
+      .insert({ ...buildPollClosedNotification(results), sender_id: senderId });
+
+    if (error) {
+      console.warn('PollService.notifyPollClosed failed:', error.message);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+// Poll Hooks
+
+'use client';
+
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase/client';
+import { useAuth } from '@/lib/features/auth/use-auth';
+import type { PollDraft } from '@/lib/types';
+import { PollService } from './poll-service';
+
+// Vote changes bump the poll row, so one subscription covers votes and closing
+// without exposing who voted on anonymous polls.
+function usePollRealtime(pollId?: string) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!pollId) return;
+
+    const channel = supabase
+      .channel(`poll:${pollId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'polls',
+          filter: `id=eq.${pollId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['poll', pollId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [pollId, queryClient]);
+}
+
+export function usePollResults(pollId?: string) {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ['poll', pollId, user?.id],
+    queryFn: () => PollService.getPollResults(pollId!, user?.id),
+    enabled: Boolean(pollId),
+  });
+
+  usePollRealtime(pollId);
+
+  return query;
+}
+
+export function useVotePoll(pollId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (optionIds: string[]) => {
+      if (!user?.id) {
+        throw new Error('Anda harus login untuk memilih');
+      }
+      return PollService.vote(user.id, pollId, optionIds);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['poll', pollId] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useClosePoll(pollId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => {
+      if (!user?.id) {
+        throw new Error('Anda harus login untuk menutup polling');
+      }
+      return PollService.closePoll(user.id, pollId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['poll', pollId] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useCreatePoll() {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (data: { draft: PollDraft; chatId?: string; postId?: string }) => {
+      if (!user?.id) {
+        throw new Error('Anda harus login untuk membuat polling');
+      }
+      return PollService.createPoll(user.id, data.draft, { chatId: data.chatId, postId: data.postId });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
@@ -0,0 +1,142 @@
+// Push Dispatch Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Notification } from '@/lib/types';
+import { mapNotificationRow } from '@/lib/features/notifications/notification-service';
+import {
+  getNotificationHref,
+  isPushAllowed,
+  resolveNotificationPreferences,
+} from '@/lib/features/notifications/notification-preferences';
+import { sendWebPush, type VapidConfig, type WebPushSubscription } from './web-push';
+
+export type PushDispatchSummary = {
+  sent: number;
+  failed: number;
+  removed: number;
+  skipped?: 'preference' | 'no_subscription';
+};
+
+export type PushPayload = {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+  type: Notification['type'];
+  notification_id: string;
+};
+
+const URGENT_TYPES: Notification['type'][] = ['chat_message', 'radar_invite', 'mass_invite', 'radar_reminder'];
+
+export function buildNotificationPushPayload(notification: Notification): PushPayload {
+  const title = notification.sender?.full_name || notification.title;
+  return {
+    title,
+    body: notification.message || notification.title,
+    url: getNotificationHref(notification),
+    tag: `${notification.type}:${notification.id}`,
+    type: notification.type,
+    notification_id: notification.id,
+  };
+}
+
+export class PushDispatchService {
+  /** Sends one `notifications` row to every device the recipient has subscribed. */
+  static async dispatchNotification(
+    client: SupabaseClient,
+    row: Record<string, unknown>,
+    vapid: VapidConfig
+  ): Promise<PushDispatchSummary> {
+    const notification = mapNotificationRow(row);
+    const summary: PushDispatchSummary = { sent: 0, failed: 0, removed: 0 };
+    if (!notification.user_id) return { ...summary, skipped: 'no_subscription' };
+
+    const { data: profile } = await client
+      .from('profiles')
+      .select('*')
+      .eq('id', notification.user_id)
+      .maybeSingle();
+    const preferences = resolveNotificationPreferences(
+      (profile as Record<string, unknown> | null)?.notification_preferences
+    );
+    if (!isPushAllowed(preferences, notification.type)) {
+      return { ...summary, skipped: 'preference' };
+    }
+
+    const senderId = row.sender_id?.toString() || row.actor_id?.toString();
+    if (!notification.sender && senderId) {
+      const { data: sender } = await client
+        .from('profiles')
+        .select('id, full_name, avatar_url')
+        .eq('id', senderId)
+        .maybeSingle();
+      if (sender) {
+        notification.sender = {
+          id: sender.id?.toString() ?? senderId,
+          full_name: sender.full_name?.toString(),
+          avatar_url: sender.avatar_url?.toString(),
+        };
+      }
+    }
+
+    const subscriptions = await this.getSubscriptions(client, notification.user_id);
+    if (subscriptions.length === 0) return { ...summary, skipped: 'no_subscription' };
+
+    const payload = JSON.stringify(buildNotificationPushPayload(notification));
+    const expiredEndpoints: string[] = [];
+
+    for (const subscription of subscriptions) {
+      try {
+        const result = await sendWebPush(subscription, payload, {
+          vapid,
+          urgency: URGENT_TYPES.includes(notification.type) ? 'high' : 'normal',
+        });
+        if (result.ok) {
+          summary.sent += 1;
+        } else {
+          summary.failed += 1;
+          if (result.expired) expiredEndpoints.push(subscription.endpoint);
+        }
+      } catch (error) {
+        console.error('Error sending web push:', error);
+        summary.failed += 1;
+      }
+    }
+
+    if (expiredEndpoints.length > 0) {
+      const { error } = await client
+        .from('push_subscriptions')
+        .delete()
+        .in('endpoint', expiredEndpoints);
+      if (error) {
+        console.error('Error removing expired push subscriptions:', error);
+      } else {
+        summary.removed = expiredEndpoints.length;
+      }
+    }
+
+    return summary;
+  }
+
+  private static async getSubscriptions(
+    client: SupabaseClient,
+    userId: string
+  ): Promise<WebPushSubscription[]> {
+    const { data, error } = await client
+      .from('push_subscriptions')
+      .select('endpoint, p256dh, auth')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching push subscriptions:', error);
+      return [];
+    }
+
+    return ((data ?? []) as Record<string, unknown>[])
+      .map((item) => ({
+        endpoint: item.endpoint?.toString() ?? '',
+        keys: { p256dh: item.p256dh?.toString() ?? '', auth: item.auth?.toString() ?? '' },
+      }))
+      .filter((item) => item.endpoint && item.keys.p256dh && item.keys.auth);
+  }
+}
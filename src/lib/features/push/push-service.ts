@@ -0,0 +1,112 @@
+// Push Service
+
+import { supabase } from '@/lib/supabase/client';
+import { PUSH_SETTINGS } from '@/lib/constants';
+
+function urlBase64ToUint8Array(value: string) {
+  const padded = `${value}${'='.repeat((4 - (value.length % 4)) % 4)}`
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = window.atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+function readSubscriptionKey(subscription: PushSubscription, name: PushEncryptionKeyName) {
+  const key = subscription.getKey(name);
+  if (!key) return '';
+  const bytes = new Uint8Array(key);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return window.btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export class PushService {
+  static isSupported() {
+    return (
+      typeof window !== 'undefined' &&
+      'serviceWorker' in navigator &&
+      'PushManager' in window &&
+      'Notification' in window
+    );
+  }
+
+  static isConfigured() {
+    return Boolean(process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY?.trim());
+  }
+
+  static async getRegistration() {
+    if (!this.isSupported()) return null;
+    const existing = await navigator.serviceWorker.getRegistration(PUSH_SETTINGS.SERVICE_WORKER_PATH);
+    return existing ?? navigator.serviceWorker.register(PUSH_SETTINGS.SERVICE_WORKER_PATH);
+  }
+
+  static async getCurrentSubscription(): Promise<PushSubscription | null> {
+    if (!this.isSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration(PUSH_SETTINGS.SERVICE_WORKER_PATH);
+    return (await registration?.pushManager.getSubscription()) ?? null;
+  }
+
+  /** Subscribes this browser and stores the endpoint so the server can fan out to it. */
+  static async subscribe(userId: string) {
+    if (!this.isSupported()) {
+      throw new Error('Browser ini tidak mendukung push notification.');
+    }
+    const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY?.trim();
+    if (!publicKey) {
+      throw new Error('Push notification belum dikonfigurasi di server.');
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      throw new Error('Izin notifikasi ditolak. Aktifkan dari pengaturan browser.');
+    }
+
+    const registration = await this.getRegistration();
+    if (!registration) {
+      throw new Error('Service worker gagal didaftarkan.');
+    }
+
+    const subscription =
+      (await registration.pushManager.getSubscription()) ??
+      (await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      }));
+
+    const now = new Date().toISOString();
+    const { error } = await supabase.from('push_subscriptions').upsert(
+      {
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: readSubscriptionKey(subscription, 'p256dh'),
+        auth: readSubscriptionKey(subscription, 'auth'),
+        user_agent: navigator.userAgent,
+        last_seen_at: now,
+      },
+      { onConflict: 'endpoint' }
+    );
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return subscription;
+  }
+
+  static async unsubscribe() {
+    const subscription = await this.getCurrentSubscription();
+    if (!subscription) return;
+
+    const { error } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('endpoint', subscription.endpoint);
+    await subscription.unsubscribe();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+// Push Hooks
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/features/auth/use-auth';
+import { PushService } from './push-service';
+
+export function usePushSubscription() {
+  return useQuery({
+    queryKey: ['push-subscription'],
+    queryFn: async () => {
+      const subscription = await PushService.getCurrentSubscription();
+      return subscription?.endpoint ?? null;
+    },
+    enabled: PushService.isSupported(),
+  });
+}
+
+export function useEnablePush() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: () => {
+      if (!user?.id) throw new Error('Anda harus login');
+      return PushService.subscribe(user.id);
+    },
+    onSuccess: () => {
+      toast.success('Push notification aktif di perangkat ini');
+      queryClient.invalidateQueries({ queryKey: ['push-subscription'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useDisablePush() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => PushService.unsubscribe(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['push-subscription'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import test from 'node:test';
+import {
+  fromBase64Url,
+  generateVapidKeys,
+  sendWebPush,
+  toBase64Url,
+  type WebPushSubscription,
+} from './web-push';
+
+function createBrowserSubscription(endpoint: string) {
+  const keys = crypto.createECDH('prime256v1');
+  keys.generateKeys();
+  const auth = crypto.randomBytes(16);
+  const subscription: WebPushSubscription = {
+    endpoint,
+    keys: { p256dh: toBase64Url(keys.getPublicKey()), auth: toBase64Url(auth) },
+  };
+  return { subscription, keys, auth };
+}
+
+// Mirrors what the browser does on receipt (RFC 8291 section 3).
+function decryptAes128gcm(body: Buffer, clientKeys: crypto.ECDH, auth: Buffer) {
+  const salt = body.subarray(0, 16);
+  const idLength = body[20];
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const sharedSecret = clientKeys.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    clientKeys.getPublicKey(),
+    serverPublicKey,
+  ]);
+  const inputKey = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, auth, keyInfo, 32));
+  const contentKey = Buffer.from(
+    crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  );
+  const nonce = Buffer.from(
+    crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  );
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final(),
+  ]);
+  assert.equal(padded[padded.length - 1], 0x02);
+  return padded.subarray(0, padded.length - 1).toString('utf8');
+}
+
+function verifyVapidHeader(header: string, publicKey: string, expectedAudience: string) {
+  const match = header.match(/^vapid t=([^,]+), k=(.+)$/);
+  assert.ok(match, `unexpected Authorization header ${header}`);
+  const [, token, key] = match;
+  assert.equal(key, publicKey);
+
+  const [encodedHeader, encodedClaims, signature] = token.split('.');
+  const raw = fromBase64Url(publicKey);
+  const verifier = crypto.createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: toBase64Url(raw.subarray(1, 33)),
+      y: toBase64Url(raw.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+  const valid = crypto.verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedClaims}`),
+    { key: verifier, dsaEncoding: 'ieee-p1363' },
+    fromBase64Url(signature)
+  );
+  assert.ok(valid, 'VAPID signature does not verify');
+
+  const claims = JSON.parse(fromBase64Url(encodedClaims).toString('utf8'));
+  assert.equal(claims.aud, expectedAudience);
+  assert.ok(claims.exp > Date.now() / 1000);
+}
+
+test('delivers an encrypted, VAPID-signed payload to a local push endpoint', async () => {
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: Buffer }> = [];
+  const server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      received.push({ headers: request.headers, body: Buffer.concat(chunks) });
+      response.statusCode = request.url === '/gone' ? 410 : 201;
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const vapid = { ...generateVapidKeys(), subject: 'mailto:test@example.com' };
+    const browser = createBrowserSubscription(`${origin}/push/device-1`);
+    const payload = JSON.stringify({ title: 'Maria menyukai postingan Anda', url: '/post/1' });
+
+    const result = await sendWebPush(browser.subscription, payload, { vapid, urgency: 'high' });
+    assert.deepEqual(result, { ok: true, status: 201, expired: false });
+
+    const [delivery] = received;
+    assert.equal(delivery.headers['content-encoding'], 'aes128gcm');
+    assert.equal(delivery.headers.urgency, 'high');
+    verifyVapidHeader(String(delivery.headers.authorization), vapid.publicKey, origin);
+    assert.equal(decryptAes128gcm(delivery.body, browser.keys, browser.auth), payload);
+
+    const gone = createBrowserSubscription(`${origin}/gone`);
+    const expired = await sendWebPush(gone.subscription, payload, { vapid });
+    assert.deepEqual(expired, { ok: false, status: 410, expired: true });
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
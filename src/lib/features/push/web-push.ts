@@ -0,0 +1,180 @@
+import crypto from 'node:crypto';
+import { PUSH_SETTINGS } from '@/lib/constants';
+
+// Web Push without a third-party SDK: VAPID (RFC 8292) for authorization and
+// aes128gcm message encryption (RFC 8291) on top of node:crypto.
+
+export type VapidConfig = {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+};
+
+export type WebPushSubscription = {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+};
+
+export type WebPushResult = {
+  ok: boolean;
+  status: number;
+  /** The push service no longer knows this subscription and it should be removed. */
+  expired: boolean;
+};
+
+const RECORD_SIZE = 4096;
+
+export function toBase64Url(value: Buffer | Uint8Array) {
+  return Buffer.from(value).toString('base64url');
+}
+
+export function fromBase64Url(value: string) {
+  return Buffer.from(value.replace(/=+$/, ''), 'base64url');
+}
+
+export function getVapidConfig(): VapidConfig | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY?.trim() || '';
+  const privateKey = process.env.VAPID_PRIVATE_KEY?.trim() || '';
+  if (!publicKey || !privateKey) return null;
+
+  return {
+    publicKey,
+    privateKey,
+    subject: process.env.VAPID_SUBJECT?.trim() || PUSH_SETTINGS.DEFAULT_SUBJECT,
+  };
+}
+
+export function generateVapidKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    privateKey: toBase64Url(ecdh.getPrivateKey()),
+  };
+}
+
+function createVapidPrivateKey(vapid: VapidConfig) {
+  const publicKey = fromBase64Url(vapid.publicKey);
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('NEXT_PUBLIC_VAPID_PUBLIC_KEY harus berupa kunci P-256 tak terkompresi.');
+  }
+
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: toBase64Url(fromBase64Url(vapid.privateKey)),
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+}
+
+export function createVapidAuthorization(endpoint: string, vapid: VapidConfig, now = new Date()) {
+  const header = toBase64Url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = toBase64Url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(now.getTime() / 1000) + PUSH_SETTINGS.VAPID_TOKEN_TTL_SECONDS,
+        sub: vapid.subject,
+      })
+    )
+  );
+  const unsigned = `${header}.${claims}`;
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), {
+    key: createVapidPrivateKey(vapid),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${unsigned}.${toBase64Url(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypts a payload for one subscription as a single aes128gcm record. `salt`
+ * and `serverKeys` are only injectable so tests can produce fixed output.
+ */
+export function encryptPushPayload(
+  subscription: WebPushSubscription,
+  payload: string | Buffer,
+  options?: { salt?: Buffer; serverKeys?: crypto.ECDH }
+) {
+  const clientPublicKey = fromBase64Url(subscription.keys.p256dh);
+  const authSecret = fromBase64Url(subscription.keys.auth);
+  const salt = options?.salt ?? crypto.randomBytes(16);
+
+  const serverKeys = options?.serverKeys ?? crypto.createECDH('prime256v1');
+  if (!options?.serverKeys) serverKeys.generateKeys();
+  const serverPublicKey = serverKeys.getPublicKey();
+  const sharedSecret = serverKeys.computeSecret(clientPublicKey);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from('WebPush: info\0'),
+    clientPublicKey,
+    serverPublicKey,
+  ]);
+  const inputKey = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(
+    crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)
+  );
+  const nonce = Buffer.from(
+    crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+  );
+
+  const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([0x02])]);
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Payload push terlalu besar.');
+  }
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublicKey.length]),
+    serverPublicKey,
+    ciphertext,
+  ]);
+}
+
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: string,
+  options: {
+    vapid: VapidConfig;
+    ttlSeconds?: number;
+    urgency?: 'very-low' | 'low' | 'normal' | 'high';
+    topic?: string;
+    fetchImpl?: typeof fetch;
+  }
+): Promise<WebPushResult> {
+  const body = encryptPushPayload(subscription, payload);
+  const headers: Record<string, string> = {
+    Authorization: createVapidAuthorization(subscription.endpoint, options.vapid),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(options.ttlSeconds ?? PUSH_SETTINGS.TTL_SECONDS),
+    Urgency: options.urgency ?? 'normal',
+  };
+  if (options.topic) headers.Topic = options.topic;
+
+  const response = await (options.fetchImpl ?? fetch)(subscription.endpoint, {
+    method: 'POST',
+    headers,
+    body: new Uint8Array(body),
+  });
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    expired: response.status === 404 || response.status === 410,
+  };
+}
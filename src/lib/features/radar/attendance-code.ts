@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { RADAR_SETTINGS } from '@/lib/constants';
+
+// Attendance codes prove someone was in front of the host's screen. Each code
+// is an HMAC of the radar id and a time window, so it expires on its own and
+// needs no table. Short enough to type when the camera cannot scan it.
+// Server-only: needs the secret.
+
+// No 0/O or 1/I, so a typed code is never ambiguous.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+function getAttendanceSecret() {
+  return process.env.RADAR_ATTENDANCE_SECRET?.trim() || '';
+}
+
+export function isAttendanceConfigured() {
+  return getAttendanceSecret().length > 0;
+}
+
+export function getAttendanceWindow(now: Date, ttlSeconds: number = RADAR_SETTINGS.ATTENDANCE_CODE_TTL_SECONDS) {
+  return Math.floor(now.getTime() / (ttlSeconds * 1000));
+}
+
+export function createAttendanceCode(
+  radarId: string,
+  window: number,
+  secret: string = getAttendanceSecret()
+) {
+  if (!secret) {
+    throw new Error('RADAR_ATTENDANCE_SECRET belum dikonfigurasi');
+  }
+  const digest = createHmac('sha256', secret).update(`radar-attendance:${radarId}:${window}`).digest();
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i += 1) code += CODE_ALPHABET[digest[i] & 31];
+  return code;
+}
+
+/** Upper-cases and drops separators, so "abcd-2345" matches "ABCD2345". */
+export function normalizeAttendanceCode(value: string) {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Accepts the current code and the one before it, so a code scanned just as
+ * the host's screen refreshes still counts.
+ */
+export function verifyAttendanceCode(
+  radarId: string,
+  code: string | null | undefined,
+  params: { now?: Date; ttlSeconds?: number; secret?: string } = {}
+) {
+  const { now = new Date(), ttlSeconds = RADAR_SETTINGS.ATTENDANCE_CODE_TTL_SECONDS } = params;
+  const secret = params.secret ?? getAttendanceSecret();
+  if (!radarId || !code || !secret) return false;
+
+  const received = Buffer.from(normalizeAttendanceCode(code));
+  const window = getAttendanceWindow(now, ttlSeconds);
+  return [window, window - 1].some((candidate) => {
+    const expected = Buffer.from(createAttendanceCode(radarId, candidate, secret));
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  });
+}
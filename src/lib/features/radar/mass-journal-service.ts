@@ -0,0 +1,87 @@
+// Mass Journal Service
+
+import { supabase } from '@/lib/supabase/client';
+import { MASS_JOURNAL_SETTINGS } from '@/lib/constants';
+import type { MassJournalEntry } from '@/lib/types';
+import { buildJournalEntry } from './mass-journal';
+
+const CHECKIN_TABLES = ['mass_checkins', 'mass_checkins_v2'] as const;
+
+function isMissingSchemaObjectError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes('does not exist') ||
+    normalized.includes('schema cache') ||
+    normalized.includes('could not find') ||
+    normalized.includes('42p01')
+  );
+}
+
+// Legacy rows use check_in_time; v2 rows use checkin_at and record the Mass date.
+function readCheckInTime(row: Record<string, unknown>) {
+  return (
+    row.checkin_at?.toString() ||
+    row.check_in_time?.toString() ||
+    row.mass_time?.toString() ||
+    row.created_at?.toString() ||
+    ''
+  );
+}
+
+export class MassJournalService {
+  /** Every check-in of the user from both check-in tables, newest first. */
+  static async getJournalEntries(userId: string): Promise<MassJournalEntry[]> {
+    const rows: Array<{ table: string; row: Record<string, unknown> }> = [];
+
+    for (const table of CHECKIN_TABLES) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(MASS_JOURNAL_SETTINGS.MAX_ENTRIES);
+
+      if (error) {
+        if (!isMissingSchemaObjectError(error.message)) {
+          console.error(`Error fetching ${table} for journal:`, error);
+        }
+        continue;
+      }
+      for (const row of (data ?? []) as Record<string, unknown>[]) {
+        rows.push({ table, row });
+      }
+    }
+
+    const churchIds = [...new Set(rows.map(({ row }) => row.church_id?.toString() ?? '').filter(Boolean))];
+    const churches = new Map<string, { name: string; timezone?: string }>();
+    if (churchIds.length > 0) {
+      const { data } = await supabase.from('churches').select('*').in('id', churchIds);
+      for (const church of (data ?? []) as Record<string, unknown>[]) {
+        const id = church.id?.toString();
+        if (!id) continue;
+        churches.set(id, {
+          name: church.name?.toString() || 'Gereja',
+          timezone: church.timezone?.toString(),
+        });
+      }
+    }
+
+    const entries: MassJournalEntry[] = [];
+    for (const { table, row } of rows) {
+      const churchId = row.church_id?.toString() ?? '';
+      const church = churches.get(churchId);
+      const entry = buildJournalEntry({
+        id: `${table}:${row.id?.toString() ?? ''}`,
+        churchId,
+        churchName: church?.name,
+        checkedInAt: readCheckInTime(row),
+        timeZone: row.church_timezone?.toString() || church?.timezone,
+        checkinDate: row.checkin_date?.toString(),
+        verified: row.verified === true,
+      });
+      if (entry) entries.push(entry);
+    }
+
+    return entries.sort((a, b) => b.checked_in_at.localeCompare(a.checked_in_at));
+  }
+}
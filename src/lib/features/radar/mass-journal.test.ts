@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildHeatmapWeeks, buildJournalEntry, buildJournalStats } from './mass-journal';
+import type { MassJournalEntry } from '@/lib/types';
+
+const TZ = 'Asia/Jakarta';
+
+// Local Jakarta time is UTC+7.
+function entry(id: string, localDateTime: string, churchId = 'c1', churchName = 'Katedral'): MassJournalEntry {
+  const utc = new Date(`${localDateTime}:00+07:00`).toISOString();
+  const result = buildJournalEntry({ id, churchId, churchName, checkedInAt: utc, timeZone: TZ });
+  assert.ok(result);
+  return result;
+}
+
+test('entries use the church time zone and prefer the recorded Mass date', () => {
+  const late = buildJournalEntry({ id: 'a', churchId: 'c1', checkedInAt: '2026-10-17T18:30:00.000Z', timeZone: TZ });
+  assert.equal(late?.date, '2026-10-18');
+  assert.equal(late?.weekday, 0);
+
+  const dated = buildJournalEntry({
+    id: 'b',
+    churchId: 'c1',
+    checkedInAt: '2026-10-17T18:30:00.000Z',
+    timeZone: TZ,
+    checkinDate: '2026-10-17',
+  });
+  assert.equal(dated?.date, '2026-10-17');
+  assert.equal(buildJournalEntry({ id: 'c', churchId: 'c1', checkedInAt: 'nope' }), null);
+});
+
+test('Sunday streaks count Saturday vigils and survive a Sunday still in progress', () => {
+  const entries = [
+    entry('1', '2026-09-27T08:00'),
+    entry('2', '2026-10-03T17:30'), // Saturday vigil for 4 Oct
+    entry('6', '2026-10-06T06:00'),
+    entry('3', '2026-10-11T07:00', 'c2', 'St. Yoseph'),
+    entry('4', '2026-10-11T18:00', 'c2', 'St. Yoseph'),
+    entry('5', '2026-10-14T06:00'), // weekday Mass
+  ];
+
+  // Sunday 18 Oct, morning: this Sunday is not over yet.
+  const sunday = buildJournalStats(entries, new Date('2026-10-18T01:00:00.000Z'), TZ);
+  assert.equal(sunday.currentSundayStreak, 3);
+  assert.equal(sunday.longestSundayStreak, 3);
+  assert.equal(sunday.currentWeekStreak, 3);
+  assert.equal(sunday.totalCheckIns, 6);
+  assert.equal(sunday.totalDays, 5);
+  assert.equal(sunday.churchCount, 2);
+  assert.deepEqual(sunday.churches[0], { churchId: 'c1', churchName: 'Katedral', count: 4 });
+
+  // Tuesday 20 Oct: the 18 Oct Sunday was missed, but this week is still open.
+  const tuesday = buildJournalStats(entries, new Date('2026-10-20T01:00:00.000Z'), TZ);
+  assert.equal(tuesday.currentSundayStreak, 0);
+  assert.equal(tuesday.longestSundayStreak, 3);
+  assert.equal(tuesday.currentWeekStreak, 3);
+
+  // A week later the streak is broken.
+  const nextWeek = buildJournalStats(entries, new Date('2026-10-26T01:00:00.000Z'), TZ);
+  assert.equal(nextWeek.currentWeekStreak, 0);
+  assert.equal(nextWeek.longestWeekStreak, 3);
+});
+
+test('season breakdown, months and heatmap cover the journal', () => {
+  const entries = [entry('1', '2026-03-08T08:00'), entry('2', '2026-10-11T08:00')];
+  const stats = buildJournalStats(entries, new Date('2026-10-19T03:00:00.000Z'), TZ);
+  assert.deepEqual(stats.seasons, [
+    { season: 'lent', count: 1 },
+    { season: 'ordinary', count: 1 },
+  ]);
+  assert.equal(stats.months.length, 12);
+  assert.deepEqual(stats.months.at(-1), { month: '2026-10', count: 1 });
+  assert.deepEqual(stats.months[0], { month: '2025-11', count: 0 });
+
+  const weeks = buildHeatmapWeeks(stats.countsByDate, '2026-10-19', 2);
+  assert.deepEqual(weeks[0][0], { date: '2026-10-11', count: 1 });
+  assert.deepEqual(weeks[1][1], { date: '2026-10-19', count: 0 });
+  assert.equal(weeks[1][2], null);
+});
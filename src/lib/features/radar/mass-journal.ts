@@ -0,0 +1,231 @@
+import { MASS_JOURNAL_SETTINGS } from '@/lib/constants';
+import { getZonedDateParts, resolveTimeZone } from '@/lib/features/schedule/mass-occurrence';
+import { getLiturgyForDate } from '@/lib/features/schedule/liturgical-calendar';
+import type { LiturgicalSeason, MassJournalEntry } from '@/lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_DAYS = 7;
+
+export type JournalChurchCount = { churchId: string; churchName: string; count: number };
+export type JournalSeasonCount = { season: LiturgicalSeason; count: number };
+export type JournalMonthCount = { month: string; count: number };
+export type JournalHeatmapDay = { date: string; count: number } | null;
+
+export type MassJournalStats = {
+  totalCheckIns: number;
+  totalDays: number;
+  churchCount: number;
+  verifiedCount: number;
+  currentWeekStreak: number;
+  longestWeekStreak: number;
+  currentSundayStreak: number;
+  longestSundayStreak: number;
+  churches: JournalChurchCount[];
+  seasons: JournalSeasonCount[];
+  months: JournalMonthCount[];
+  countsByDate: Record<string, number>;
+};
+
+const SEASON_ORDER: LiturgicalSeason[] = ['advent', 'christmas', 'lent', 'triduum', 'easter', 'ordinary'];
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+// Date keys are plain calendar dates, so the arithmetic runs in UTC to stay
+// clear of the viewer's own time zone.
+function keyToUtc(key: string) {
+  const [year, month, day] = key.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function utcToKey(time: number) {
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function addDaysToKey(key: string, days: number) {
+  return utcToKey(keyToUtc(key) + days * DAY_MS);
+}
+
+function weekdayOfKey(key: string) {
+  return new Date(keyToUtc(key)).getUTCDay();
+}
+
+/** Liturgical weeks start on Sunday, so each week is keyed by its Sunday. */
+function weekStartKey(key: string) {
+  return addDaysToKey(key, -weekdayOfKey(key));
+}
+
+export function getLocalDateKey(value: Date, timeZone: string) {
+  const { year, month, day } = getZonedDateParts(value, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Builds a journal entry from the check-in time. `checkinDate` wins over the
+ * time when present, since v2 rows record the date of the Mass itself.
+ */
+export function buildJournalEntry(params: {
+  id: string;
+  churchId: string;
+  churchName?: string;
+  checkedInAt: string;
+  timeZone?: string;
+  checkinDate?: string;
+  verified?: boolean;
+}): MassJournalEntry | null {
+  const at = new Date(params.checkedInAt);
+  if (Number.isNaN(at.getTime())) return null;
+
+  const timeZone = resolveTimeZone(params.timeZone);
+  const parts = getZonedDateParts(at, timeZone);
+  const dateFromTime = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  const date = params.checkinDate?.match(/^\d{4}-\d{2}-\d{2}/)?.[0] || dateFromTime;
+
+  return {
+    id: params.id,
+    church_id: params.churchId,
+    church_name: params.churchName,
+    checked_in_at: at.toISOString(),
+    date,
+    weekday: weekdayOfKey(date),
+    hour: date === dateFromTime ? parts.hour : 12,
+    verified: Boolean(params.verified),
+  };
+}
+
+/** The Sunday an entry fulfils: the day itself, or tomorrow for a Saturday vigil Mass. */
+export function getSundayKey(entry: Pick<MassJournalEntry, 'date' | 'weekday' | 'hour'>) {
+  if (entry.weekday === 0) return entry.date;
+  if (entry.weekday === 6 && entry.hour >= MASS_JOURNAL_SETTINGS.SUNDAY_VIGIL_FROM_HOUR) {
+    return addDaysToKey(entry.date, 1);
+  }
+  return null;
+}
+
+function longestRun(keys: string[]) {
+  const sorted = [...new Set(keys)].sort();
+  let longest = 0;
+  let run = 0;
+  let previous = '';
+  for (const key of sorted) {
+    run = previous && addDaysToKey(previous, WEEK_DAYS) === key ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = key;
+  }
+  return longest;
+}
+
+/**
+ * Counts consecutive weeks back from `latestKey`. When `latestKey` has not
+ * been attended yet but may still be (`pendingKey`), counting starts a week earlier.
+ */
+function currentRun(keys: Set<string>, latestKey: string, pendingKey: string | null) {
+  let cursor = latestKey;
+  if (!keys.has(cursor) && cursor === pendingKey) {
+    cursor = addDaysToKey(cursor, -WEEK_DAYS);
+  }
+  let run = 0;
+  while (keys.has(cursor)) {
+    run += 1;
+    cursor = addDaysToKey(cursor, -WEEK_DAYS);
+  }
+  return run;
+}
+
+export function buildJournalStats(
+  entries: MassJournalEntry[],
+  now: Date = new Date(),
+  timeZone?: string
+): MassJournalStats {
+  const today = getLocalDateKey(now, resolveTimeZone(timeZone));
+  const countsByDate: Record<string, number> = {};
+  const churches = new Map<string, JournalChurchCount>();
+  const seasons = new Map<LiturgicalSeason, number>();
+  const weekKeys = new Set<string>();
+  const sundayKeys = new Set<string>();
+  let verifiedCount = 0;
+
+  for (const entry of entries) {
+    countsByDate[entry.date] = (countsByDate[entry.date] ?? 0) + 1;
+    weekKeys.add(weekStartKey(entry.date));
+    const sunday = getSundayKey(entry);
+    if (sunday) sundayKeys.add(sunday);
+    if (entry.verified) verifiedCount += 1;
+
+    const church = churches.get(entry.church_id) ?? {
+      churchId: entry.church_id,
+      churchName: entry.church_name || 'Gereja',
+      count: 0,
+    };
+    church.count += 1;
+    churches.set(entry.church_id, church);
+
+    try {
+      const season = getLiturgyForDate(entry.date).season ?? 'ordinary';
+      seasons.set(season, (seasons.get(season) ?? 0) + 1);
+    } catch {
+      // An unparseable date is already counted elsewhere; skip the season.
+    }
+  }
+
+  const months: JournalMonthCount[] = [];
+  const [todayYear, todayMonth] = today.split('-').map(Number);
+  for (let offset = MASS_JOURNAL_SETTINGS.CHART_MONTHS - 1; offset >= 0; offset -= 1) {
+    const date = new Date(Date.UTC(todayYear, todayMonth - 1 - offset, 1));
+    const month = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+    const count = Object.entries(countsByDate)
+      .filter(([key]) => key.startsWith(month))
+      .reduce((sum, [, value]) => sum + value, 0);
+    months.push({ month, count });
+  }
+
+  // The current week is still open, and so is today when it is Sunday. A vigil
+  // Mass attended tonight already counts for tomorrow.
+  const thisWeek = weekStartKey(today);
+  const nextSunday = addDaysToKey(thisWeek, WEEK_DAYS);
+  const latestSunday = sundayKeys.has(nextSunday) ? nextSunday : thisWeek;
+
+  return {
+    totalCheckIns: entries.length,
+    totalDays: Object.keys(countsByDate).length,
+    churchCount: churches.size,
+    verifiedCount,
+    currentWeekStreak: currentRun(weekKeys, thisWeek, thisWeek),
+    longestWeekStreak: longestRun([...weekKeys]),
+    currentSundayStreak: currentRun(sundayKeys, latestSunday, thisWeek === today ? today : null),
+    longestSundayStreak: longestRun([...sundayKeys]),
+    churches: [...churches.values()].sort(
+      (a, b) => b.count - a.count || a.churchName.localeCompare(b.churchName)
+    ),
+    seasons: SEASON_ORDER.filter((season) => seasons.has(season)).map((season) => ({
+      season,
+      count: seasons.get(season) ?? 0,
+    })),
+    months,
+    countsByDate,
+  };
+}
+
+/**
+ * Columns of Sunday-first weeks ending with the week of `today`, oldest first.
+ * Days after today are null so the grid can leave them blank.
+ */
+export function buildHeatmapWeeks(
+  countsByDate: Record<string, number>,
+  today: string,
+  weeks: number = MASS_JOURNAL_SETTINGS.HEATMAP_WEEKS
+): JournalHeatmapDay[][] {
+  const firstSunday = addDaysToKey(weekStartKey(today), -(weeks - 1) * WEEK_DAYS);
+  const columns: JournalHeatmapDay[][] = [];
+  for (let week = 0; week < weeks; week += 1) {
+    const column: JournalHeatmapDay[] = [];
+    for (let day = 0; day < WEEK_DAYS; day += 1) {
+      const date = addDaysToKey(firstSunday, week * WEEK_DAYS + day);
+      column.push(date > today ? null : { date, count: countsByDate[date] ?? 0 });
+    }
+    columns.push(column);
+  }
+  return columns;
+}
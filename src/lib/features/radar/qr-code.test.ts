@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { encodeQrCode, type QrMatrix } from './qr-code';
+
+// An independent reader for the encoder's output: it locates the function
+// patterns, checks the format and version bits, unmasks, de-interleaves the
+// blocks, verifies every Reed-Solomon syndrome is zero and parses the byte
+// segment. Block layouts are ISO/IEC 18004 table 9, level M.
+const BLOCKS_M: Record<number, { ec: number; data: number[] }> = {
+  1: { ec: 10, data: [16] },
+  4: { ec: 18, data: [32, 32] },
+  8: { ec: 22, data: [38, 38, 39, 39] },
+};
+const ALIGNMENT: Record<number, number[]> = { 1: [], 4: [6, 26], 8: [6, 24, 42] };
+
+const EXP = new Array<number>(512);
+const LOG = new Array<number>(256);
+for (let i = 0, x = 1; i < 255; i += 1, x = (x << 1) ^ (x & 0x80 ? 0x11d : 0)) {
+  EXP[i] = x;
+  LOG[x] = i;
+}
+for (let i = 255; i < 512; i += 1) EXP[i] = EXP[i - 255];
+const gfMul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+
+function bchRemainder(value: number, bits: number, generator: number) {
+  const degree = Math.floor(Math.log2(generator));
+  let remainder = value << degree;
+  for (let i = bits + degree - 1; i >= degree; i -= 1) {
+    if ((remainder >>> i) & 1) remainder ^= generator << (i - degree);
+  }
+  return remainder;
+}
+
+function isMasked(mask: number, x: number, y: number) {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+function decodeQr({ size, modules }: QrMatrix) {
+  const version = (size - 17) / 4;
+  const dark = (x: number, y: number) => modules[y][x];
+
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -3; dy <= 3; dy += 1) {
+      for (let dx = -3; dx <= 3; dx += 1) {
+        assert.equal(dark(cx + dx, cy + dy), Math.max(Math.abs(dx), Math.abs(dy)) !== 2, 'finder pattern');
+      }
+    }
+  }
+
+  let format = 0;
+  let formatCopy = 0;
+  const firstCopy: Array<[number, number]> = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+    [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ];
+  firstCopy.forEach(([x, y], i) => { if (dark(x, y)) format |= 1 << i; });
+  for (let i = 0; i < 8; i += 1) if (dark(size - 1 - i, 8)) formatCopy |= 1 << i;
+  for (let i = 8; i < 15; i += 1) if (dark(8, size - 15 + i)) formatCopy |= 1 << i;
+  assert.equal(formatCopy, format, 'both format copies agree');
+  format ^= 0x5412;
+  assert.equal(format & 0x3ff, bchRemainder(format >>> 10, 5, 0x537), 'format BCH');
+  assert.equal(format >>> 13, 0, 'error correction level M');
+  const mask = (format >>> 10) & 7;
+
+  if (version >= 7) {
+    let bits = 0;
+    for (let i = 0; i < 18; i += 1) if (dark(size - 11 + (i % 3), Math.floor(i / 3))) bits |= 1 << i;
+    assert.equal(bits >>> 12, version, 'version bits');
+    assert.equal(bits & 0xfff, bchRemainder(version, 6, 0x1f25), 'version BCH');
+  }
+
+  const isFunction = (x: number, y: number) => {
+    if (x === 6 || y === 6) return true;
+    if ((x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8)) return true;
+    if (version >= 7 && ((x >= size - 11 && x < size - 8 && y < 6) || (y >= size - 11 && y < size - 8 && x < 6))) {
+      return true;
+    }
+    const centers = ALIGNMENT[version];
+    return centers.some((ax, i) =>
+      centers.some((ay, j) => {
+        const last = centers.length - 1;
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return false;
+        return Math.abs(x - ax) <= 2 && Math.abs(y - ay) <= 2;
+      })
+    );
+  };
+
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (const x of [right, right - 1]) {
+        if (isFunction(x, y)) continue;
+        bits.push(Number(dark(x, y) !== isMasked(mask, x, y)));
+      }
+    }
+  }
+
+  const { ec, data: dataSizes } = BLOCKS_M[version];
+  const total = dataSizes.reduce((sum, n) => sum + n + ec, 0);
+  const codewords: number[] = [];
+  for (let i = 0; i < total; i += 1) {
+    codewords.push(bits.slice(i * 8, i * 8 + 8).reduce((value, bit) => (value << 1) | bit, 0));
+  }
+
+  const blocks = dataSizes.map(() => [] as number[]);
+  let index = 0;
+  for (let i = 0; i < Math.max(...dataSizes); i += 1) {
+    dataSizes.forEach((n, b) => { if (i < n) blocks[b].push(codewords[index++]); });
+  }
+  for (let i = 0; i < ec; i += 1) blocks.forEach((block) => block.push(codewords[index++]));
+
+  const data: number[] = [];
+  blocks.forEach((block, b) => {
+    for (let i = 0; i < ec; i += 1) {
+      const syndrome = block.reduce((acc, byte) => gfMul(acc, EXP[i]) ^ byte, 0);
+      assert.equal(syndrome, 0, `Reed-Solomon syndrome ${i} of block ${b}`);
+    }
+    data.push(...block.slice(0, dataSizes[b]));
+  });
+
+  const stream = data.flatMap((byte) => Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1));
+  let cursor = 0;
+  const read = (length: number) => {
+    const value = stream.slice(cursor, cursor + length).reduce((acc, bit) => (acc << 1) | bit, 0);
+    cursor += length;
+    return value;
+  };
+  assert.equal(read(4), 0b0100, 'byte mode');
+  const length = read(version <= 9 ? 8 : 16);
+  const bytes = Uint8Array.from({ length }, () => read(8));
+  return { version, text: new TextDecoder().decode(bytes) };
+}
+
+test('qr codes decode back to their text across block layouts', () => {
+  const cases = [
+    { text: 'MISA', version: 1 },
+    { text: 'https://mycatholic.app/radar/r-2026?code=ABCD2345', version: 4 },
+    { text: `https://mycatholic.app/radar/${'x'.repeat(100)}?code=ABCD2345`, version: 8 },
+  ];
+  for (const { text, version } of cases) {
+    const matrix = encodeQrCode(text);
+    assert.equal(matrix.size, version * 4 + 17);
+    assert.deepEqual(decodeQr(matrix), { version, text });
+  }
+});
+
+test('qr codes reject text beyond version 10', () => {
+  assert.doesNotThrow(() => encodeQrCode('a'.repeat(213)));
+  assert.throws(() => encodeQrCode('a'.repeat(214)), /terlalu panjang/);
+});
@@ -0,0 +1,351 @@
+// Minimal QR Code encoder (ISO/IEC 18004) for the attendance codes: byte mode,
+// error correction level M, versions 1-10 (up to 213 bytes). That covers an
+// attendance URL with room to spare, so no QR dependency is needed.
+
+export type QrMatrix = {
+  size: number;
+  /** `modules[y][x]` is true for a dark module. */
+  modules: boolean[][];
+};
+
+type EcBlocks = { ecPerBlock: number; groups: Array<[count: number, dataPerBlock: number]> };
+
+// Level M block structure per version (index 0 is version 1).
+const EC_BLOCKS_M: EcBlocks[] = [
+  { ecPerBlock: 10, groups: [[1, 16]] },
+  { ecPerBlock: 16, groups: [[1, 28]] },
+  { ecPerBlock: 26, groups: [[1, 44]] },
+  { ecPerBlock: 18, groups: [[2, 32]] },
+  { ecPerBlock: 24, groups: [[2, 43]] },
+  { ecPerBlock: 16, groups: [[4, 27]] },
+  { ecPerBlock: 18, groups: [[4, 31]] },
+  { ecPerBlock: 22, groups: [[2, 38], [2, 39]] },
+  { ecPerBlock: 22, groups: [[3, 36], [2, 37]] },
+  { ecPerBlock: 26, groups: [[4, 43], [1, 44]] },
+];
+
+const ALIGNMENT_POSITIONS: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+
+// Leftover bits after the last codeword, per version.
+const REMAINDER_BITS = [0, 7, 7, 7, 7, 7, 0, 0, 0, 0];
+
+const EC_LEVEL_M_BITS = 0;
+
+function getDataCodewords(version: number) {
+  return EC_BLOCKS_M[version - 1].groups.reduce((total, [count, size]) => total + count * size, 0);
+}
+
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, index) => {
+      result[index] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function encodeData(bytes: Uint8Array, version: number) {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+
+  push(0b0100, 4);
+  push(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((byte) => push(byte, 8));
+
+  const capacity = getDataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((value, bit) => (value << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+function addErrorCorrection(data: number[], version: number) {
+  const { ecPerBlock, groups } = EC_BLOCKS_M[version - 1];
+  const divisor = reedSolomonDivisor(ecPerBlock);
+  const blocks: Array<{ data: number[]; ec: number[] }> = [];
+
+  let offset = 0;
+  for (const [count, size] of groups) {
+    for (let i = 0; i < count; i += 1) {
+      const block = data.slice(offset, offset + size);
+      offset += size;
+      blocks.push({ data: block, ec: reedSolomonRemainder(block, divisor) });
+    }
+  }
+
+  const result: number[] = [];
+  const maxData = Math.max(...blocks.map((block) => block.data.length));
+  for (let i = 0; i < maxData; i += 1) {
+    blocks.forEach((block) => {
+      if (i < block.data.length) result.push(block.data[i]);
+    });
+  }
+  for (let i = 0; i < ecPerBlock; i += 1) {
+    blocks.forEach((block) => result.push(block.ec[i]));
+  }
+  return result;
+}
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i += 1) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = ALIGNMENT_POSITIONS[this.version - 1];
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy += 1) {
+          for (let dx = -2; dx <= 2; dx += 1) {
+            this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFinder(cx: number, cy: number) {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (EC_LEVEL_M_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (index: number) => ((bits >>> index) & 1) !== 0;
+
+    for (let i = 0; i <= 5; i += 1) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i += 1) this.setFunction(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i += 1) this.setFunction(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i += 1) this.setFunction(8, this.size - 15 + i, bit(i));
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  drawVersion() {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i += 1) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  drawCodewords(codewords: number[]) {
+    const totalBits = codewords.length * 8 + REMAINDER_BITS[this.version - 1];
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical += 1) {
+        for (let j = 0; j < 2; j += 1) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (this.reserved[y][x] || index >= totalBits) continue;
+          const byte = codewords[index >>> 3];
+          this.modules[y][x] = byte !== undefined && ((byte >>> (7 - (index & 7))) & 1) !== 0;
+          index += 1;
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        if (this.reserved[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penalty() {
+    const { size, modules } = this;
+    let score = 0;
+    const finderLike = [
+      [true, false, true, true, true, false, true, false, false, false, false],
+      [false, false, false, false, true, false, true, true, true, false, true],
+    ];
+
+    for (let pass = 0; pass < 2; pass += 1) {
+      const at = (a: number, b: number) => (pass === 0 ? modules[a][b] : modules[b][a]);
+      for (let a = 0; a < size; a += 1) {
+        let run = 1;
+        for (let b = 1; b <= size; b += 1) {
+          if (b < size && at(a, b) === at(a, b - 1)) {
+            run += 1;
+            continue;
+          }
+          if (run >= 5) score += 3 + (run - 5);
+          run = 1;
+        }
+        for (let b = 0; b + 11 <= size; b += 1) {
+          if (finderLike.some((pattern) => pattern.every((dark, k) => at(a, b + k) === dark))) score += 40;
+        }
+      }
+    }
+
+    let dark = 0;
+    for (let y = 0; y < size; y += 1) {
+      for (let x = 0; x < size; x += 1) {
+        if (modules[y][x]) dark += 1;
+        if (
+          x + 1 < size &&
+          y + 1 < size &&
+          modules[y][x] === modules[y][x + 1] &&
+          modules[y][x] === modules[y + 1][x] &&
+          modules[y][x] === modules[y + 1][x + 1]
+        ) {
+          score += 3;
+        }
+      }
+    }
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+/** Encodes `text` as UTF-8. Throws when it does not fit version 10. */
+export function encodeQrCode(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= EC_BLOCKS_M.length) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16);
+    if (headerBits + bytes.length * 8 <= getDataCodewords(version) * 8) break;
+    version += 1;
+  }
+  if (version > EC_BLOCKS_M.length) {
+    throw new Error('Teks terlalu panjang untuk kode QR');
+  }
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  let best: QrBuilder | null = null;
+  let bestScore = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < 8; mask += 1) {
+    const builder = new QrBuilder(version);
+    builder.drawFunctionPatterns();
+    builder.drawCodewords(codewords);
+    builder.applyMask(mask);
+    builder.drawFormatBits(mask);
+    const score = builder.penalty();
+    if (score < bestScore) {
+      best = builder;
+      bestScore = score;
+    }
+  }
+
+  const result = best as QrBuilder;
+  return { size: result.size, modules: result.modules };
+}
+
+/** SVG path data for the dark modules, one unit per module, offset by `margin`. */
+export function toQrSvgPath(matrix: QrMatrix, margin = 4) {
+  const parts: string[] = [];
+  matrix.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+  return parts.join('');
+}
@@ -0,0 +1,301 @@
+// Radar Attendance Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import { AuthService } from '@/lib/features/auth/auth-service';
+import { getZonedDateParts, resolveTimeZone } from '@/lib/features/schedule/mass-occurrence';
+import type {
+  CheckInVisibilityScope,
+  RadarAttendance,
+  RadarAttendanceMethod,
+  RadarEvent,
+} from '@/lib/types';
+import {
+  archiveActiveCheckIns,
+  normalizeCheckInVisibilityScope,
+  toLegacyCheckInVisibility,
+} from './radar-checkin-service';
+import {
+  getRadarAdapter,
+  insertWithColumnFallback,
+  legacyRadarAdapter,
+  mapParticipantRow,
+  mapRadarEventRow,
+  v2RadarAdapter,
+} from './radar-service';
+
+export type AttendanceCodePayload = { code: string; url: string; expiresAt: string };
+export type AttendanceConfirmResult = { checkedInAt: string; alreadyConfirmed: boolean };
+
+function isMissingSchemaObjectError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes('does not exist') ||
+    normalized.includes('schema cache') ||
+    normalized.includes('could not find') ||
+    normalized.includes('42p01')
+  );
+}
+
+async function authorizedFetch<T>(input: string, init: RequestInit, fallbackMessage: string): Promise<T> {
+  const session = await AuthService.getCurrentSession();
+  if (!session?.access_token) {
+    throw new Error('Anda harus login');
+  }
+
+  const response = await fetch(input, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${session.access_token}` },
+  });
+  const payload = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(payload.error || fallbackMessage);
+  }
+  return payload;
+}
+
+export class RadarAttendanceService {
+  /** Host only. The code rotates every minute; fetch a new one when it expires. */
+  static getAttendanceCode(radarId: string) {
+    return authorizedFetch<AttendanceCodePayload>(
+      `/api/radar/${encodeURIComponent(radarId)}/attendance/code`,
+      { method: 'GET' },
+      'Gagal membuat kode kehadiran'
+    );
+  }
+
+  static confirmAttendance(radarId: string, code: string, method: RadarAttendanceMethod) {
+    return authorizedFetch<AttendanceConfirmResult>(
+      `/api/radar/${encodeURIComponent(radarId)}/attendance`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code, method }),
+      },
+      'Gagal mengonfirmasi kehadiran'
+    );
+  }
+
+  /** RLS returns every row to the host and only their own row to participants. */
+  static async getAttendance(radarId: string): Promise<RadarAttendance[]> {
+    const { data, error } = await supabase
+      .from('radar_attendance')
+      .select('radar_id, user_id, method, checked_in_at')
+      .eq('radar_id', radarId)
+      .order('checked_in_at', { ascending: true });
+
+    if (error) {
+      if (!isMissingSchemaObjectError(error.message)) {
+        console.error('Error fetching radar attendance:', error);
+      }
+      return [];
+    }
+
+    const rows = (data ?? []) as Record<string, unknown>[];
+    const userIds = [...new Set(rows.map((row) => row.user_id?.toString() ?? '').filter(Boolean))];
+    const profiles = new Map<string, RadarAttendance['profile']>();
+    if (userIds.length > 0) {
+      const { data: profileRows } = await supabase
+        .from('profiles')
+        .select('id, full_name, username, avatar_url, role')
+        .in('id', userIds);
+      for (const row of (profileRows ?? []) as Record<string, unknown>[]) {
+        const id = row.id?.toString();
+        if (!id) continue;
+        profiles.set(id, {
+          id,
+          full_name: row.full_name?.toString(),
+          username: row.username?.toString(),
+          avatar_url: row.avatar_url?.toString(),
+          role: row.role?.toString(),
+        });
+      }
+    }
+
+    return rows.map((row) => {
+      const userId = row.user_id?.toString() ?? '';
+      return {
+        radar_id: row.radar_id?.toString() ?? radarId,
+        user_id: userId,
+        method: row.method?.toString().toUpperCase() === 'MANUAL' ? 'MANUAL' : 'QR',
+        checked_in_at: row.checked_in_at?.toString() ?? '',
+        profile: profiles.get(userId),
+      };
+    });
+  }
+
+  // Server side: the routes below /api/radar/[radarId]/attendance pass the
+  // service-role client, since attendance rows and verified check-ins are
+  // never written by the participant directly.
+
+  static async getEventForAttendance(client: SupabaseClient, radarId: string): Promise<RadarEvent | null> {
+    for (const adapter of [v2RadarAdapter, legacyRadarAdapter]) {
+      const { data, error } = await client.from(adapter.eventsTable).select('*').eq('id', radarId).maybeSingle();
+      if (!error && data) return mapRadarEventRow(data as Record<string, unknown>, adapter.source);
+    }
+    return null;
+  }
+
+  static async recordAttendance(
+    client: SupabaseClient,
+    params: { event: RadarEvent; userId: string; method: RadarAttendanceMethod; now?: Date }
+  ): Promise<AttendanceConfirmResult> {
+    const { event, userId, method, now = new Date() } = params;
+    const adapter = getRadarAdapter(event.source ?? 'legacy');
+
+    const participant = await client
+      .from(adapter.participantsTable)
+      .select('*')
+      .eq('radar_id', event.id)
+      .eq('user_id', userId);
+    const joined = ((participant.data ?? []) as Record<string, unknown>[])
+      .map((row) => mapParticipantRow(row, adapter.source))
+      .some((row) => row?.status === 'JOINED');
+    if (participant.error || !joined) {
+      throw new Error('Hanya peserta radar yang bisa mengonfirmasi kehadiran.');
+    }
+
+    const existing = await client
+      .from('radar_attendance')
+      .select('checked_in_at')
+      .eq('radar_id', event.id)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (existing.error) {
+      throw new Error(
+        isMissingSchemaObjectError(existing.error.message)
+          ? 'Fitur kehadiran radar belum tersedia. Hubungi admin untuk mengaktifkannya.'
+          : existing.error.message
+      );
+    }
+    if (existing.data) {
+      return { checkedInAt: existing.data.checked_in_at?.toString() ?? now.toISOString(), alreadyConfirmed: true };
+    }
+
+    const checkedInAt = now.toISOString();
+    const { error } = await client.from('radar_attendance').insert({
+      radar_id: event.id,
+      radar_source: adapter.source,
+      user_id: userId,
+      method,
+      checked_in_at: checkedInAt,
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await this.recordVerifiedCheckIn(client, { event, userId, now });
+    return { checkedInAt, alreadyConfirmed: false };
+  }
+
+  // A failed check-in must not undo the attendance, so errors are only logged.
+  // Writes through the same legacy-then-v2 path as a manual check-in on the
+  // radar page and keeps the visibility of the user's last check-in.
+  private static async recordVerifiedCheckIn(
+    client: SupabaseClient,
+    params: { event: RadarEvent; userId: string; now: Date }
+  ) {
+    const { event, userId, now } = params;
+    const timeZone = resolveTimeZone(event.church_timezone);
+    const { year, month, day } = getZonedDateParts(now, timeZone);
+    const nowIso = now.toISOString();
+
+    const { data: church } = await client.from('churches').select('*').eq('id', event.church_id).maybeSingle();
+    const churchRow = (church ?? {}) as Record<string, unknown>;
+    const dioceseId = event.diocese_id || churchRow.diocese_id?.toString() || '';
+    let countryId = event.country_id || churchRow.country_id?.toString() || '';
+    if (!countryId && dioceseId) {
+      const { data: diocese } = await client.from('dioceses').select('country_id').eq('id', dioceseId).maybeSingle();
+      countryId = (diocese as Record<string, unknown> | null)?.country_id?.toString() || '';
+    }
+
+    const previous = await this.getLastCheckInPreferences(client, userId);
+    const scope = previous.scope;
+    const visibility = toLegacyCheckInVisibility(scope);
+    const notifyFollowers = scope === 'private' ? false : previous.notifyFollowers;
+    const notifyChurch = scope === 'public' ? previous.notifyChurch : false;
+
+    await archiveActiveCheckIns(userId, { now: nowIso, client });
+
+    const legacyInsert = await insertWithColumnFallback(
+      'mass_checkins',
+      {
+        user_id: userId,
+        church_id: event.church_id,
+        check_in_time: nowIso,
+        mass_time: event.event_starts_at_utc || nowIso,
+        visibility,
+        visibility_scope: scope,
+        notify_followers: notifyFollowers,
+        notify_church: notifyChurch,
+        status: 'ACTIVE',
+        verified: true,
+        radar_id: event.id,
+      },
+      { client }
+    );
+    if (!legacyInsert.error) return;
+
+    const v2Payload: Record<string, unknown> = {
+      user_id: userId,
+      church_id: event.church_id,
+      checkin_at: nowIso,
+      checkin_date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+      church_timezone: timeZone,
+      visibility,
+      visibility_scope: scope,
+      notify_followers: notifyFollowers,
+      notify_church: notifyChurch,
+      status: 'ACTIVE',
+      verified: true,
+      radar_id: event.id,
+    };
+    if (countryId) v2Payload.country_id = countryId;
+    if (dioceseId) v2Payload.diocese_id = dioceseId;
+    if (event.mass_schedule_id) v2Payload.mass_schedule_id = event.mass_schedule_id;
+
+    const v2Insert = await insertWithColumnFallback('mass_checkins_v2', v2Payload, { client });
+    if (v2Insert.error) {
+      console.warn(
+        'Failed to record verified mass check-in:',
+        legacyInsert.error.message,
+        v2Insert.error.message
+      );
+    }
+  }
+
+  // Falls back to private when the user has never checked in, so a scan never
+  // publishes a check-in the user did not choose to share.
+  private static async getLastCheckInPreferences(client: SupabaseClient, userId: string) {
+    let latest: Record<string, unknown> | null = null;
+    for (const table of ['mass_checkins', 'mass_checkins_v2']) {
+      const { data, error } = await client
+        .from(table)
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error || !data) continue;
+      const row = data as Record<string, unknown>;
+      if (!latest || String(row.created_at ?? '') > String(latest.created_at ?? '')) {
+        latest = row;
+      }
+    }
+
+    if (!latest) {
+      return { scope: 'private' as CheckInVisibilityScope, notifyFollowers: false, notifyChurch: false };
+    }
+    const rawVisibility = latest.visibility?.toString().trim().toUpperCase();
+    const scope: CheckInVisibilityScope = latest.visibility_scope
+      ? normalizeCheckInVisibilityScope(latest.visibility_scope)
+      : rawVisibility === 'GHOST' || rawVisibility === 'PRIVATE'
+        ? 'private'
+        : normalizeCheckInVisibilityScope(rawVisibility);
+    return {
+      scope,
+      notifyFollowers: latest.notify_followers === true,
+      notifyChurch: latest.notify_church === true,
+    };
+  }
+}
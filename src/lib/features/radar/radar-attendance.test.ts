@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { createAttendanceCode, getAttendanceWindow, verifyAttendanceCode } from './attendance-code';
+import { buildAttendanceCsv, buildAttendanceUrl, parseAttendanceScan } from './radar-attendance';
+
+const SECRET = 'test-secret';
+const NOW = new Date('2026-10-25T10:00:30.000Z');
+
+test('a code is valid for its own window and the one after, for its own radar only', () => {
+  const window = getAttendanceWindow(NOW, 60);
+  const code = createAttendanceCode('r1', window, SECRET);
+  assert.match(code, /^[A-HJ-NP-Z2-9]{8}$/);
+
+  const params = { ttlSeconds: 60, secret: SECRET };
+  assert.equal(verifyAttendanceCode('r1', code, { ...params, now: NOW }), true);
+  assert.equal(verifyAttendanceCode('r1', `${code.slice(0, 4)}-${code.slice(4)}`.toLowerCase(), { ...params, now: NOW }), true);
+  assert.equal(verifyAttendanceCode('r1', code, { ...params, now: new Date(NOW.getTime() + 60_000) }), true);
+  assert.equal(verifyAttendanceCode('r1', code, { ...params, now: new Date(NOW.getTime() + 120_000) }), false);
+  assert.equal(verifyAttendanceCode('r2', code, { ...params, now: NOW }), false);
+  assert.equal(verifyAttendanceCode('r1', code, { ...params, now: NOW, secret: 'other' }), false);
+});
+
+test('scans accept the radar link or a typed code', () => {
+  const url = buildAttendanceUrl('https://mycatholic.app', 'r1', 'ABCD2345');
+  assert.equal(parseAttendanceScan(url, 'r1'), 'ABCD2345');
+  assert.equal(parseAttendanceScan(url, 'r2'), null);
+  assert.equal(parseAttendanceScan(' abcd-2345 ', 'r1'), 'ABCD2345');
+  assert.equal(parseAttendanceScan('ABC', 'r1'), null);
+  assert.equal(parseAttendanceScan('https://mycatholic.app/radar/r1', 'r1'), null);
+});
+
+test('the CSV export quotes names that contain commas', () => {
+  const csv = buildAttendanceCsv(
+    [
+      {
+        radar_id: 'r1',
+        user_id: 'u1',
+        method: 'MANUAL',
+        checked_in_at: '2026-10-25T10:05:00.000Z',
+        profile: { id: 'u1', full_name: 'Maria, Sr.', username: 'maria' },
+      },
+    ],
+    'Asia/Jakarta'
+  );
+  const [header, row] = csv.split('\r\n');
+  assert.equal(header, 'Nama,Username,Waktu Hadir,Metode');
+  assert.ok(row.startsWith('"Maria, Sr.",@maria,'));
+  assert.ok(row.endsWith(',Kode manual'));
+});
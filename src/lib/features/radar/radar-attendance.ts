@@ -0,0 +1,70 @@
+import type { RadarAttendance } from '@/lib/types';
+import { RADAR_SETTINGS } from '@/lib/constants';
+
+const MINUTE_MS = 60 * 1000;
+
+/** Attendance opens shortly before the Mass and stays open until a while after it starts. */
+export function isAttendanceOpen(startsAt: string | undefined, now: Date = new Date()) {
+  const start = new Date(startsAt || '').getTime();
+  if (Number.isNaN(start)) return false;
+  return (
+    now.getTime() >= start - RADAR_SETTINGS.ATTENDANCE_OPENS_BEFORE_MINUTES * MINUTE_MS &&
+    now.getTime() <= start + RADAR_SETTINGS.ATTENDANCE_CLOSES_AFTER_MINUTES * MINUTE_MS
+  );
+}
+
+/** "ABCD2345" → "ABCD-2345" for reading aloud or typing. */
+export function formatAttendanceCode(code: string) {
+  return code.length === 8 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+}
+
+// The QR holds a link rather than the bare code, so a phone's own camera app
+// also lands on the radar page and confirms from there.
+export function buildAttendanceUrl(origin: string, radarId: string, code: string) {
+  const url = new URL(`/radar/${encodeURIComponent(radarId)}`, origin);
+  url.searchParams.set('attend', code);
+  return url.toString();
+}
+
+/** Reads a scanned attendance link or a typed code. Links for another radar are rejected. */
+export function parseAttendanceScan(value: string, radarId: string) {
+  const text = value.trim();
+  if (!text) return null;
+
+  if (/^https?:\/\//i.test(text)) {
+    try {
+      const url = new URL(text);
+      const match = url.pathname.match(/\/radar\/([^/]+)\/?$/);
+      if (!match || decodeURIComponent(match[1]) !== radarId) return null;
+      return url.searchParams.get('attend')?.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  const code = text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return code.length === 8 ? code : null;
+}
+
+function escapeCsv(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function buildAttendanceCsv(rows: RadarAttendance[], timeZone?: string) {
+  const formatter = new Intl.DateTimeFormat('id-ID', {
+    timeZone,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+  const lines = [['Nama', 'Username', 'Waktu Hadir', 'Metode']];
+  for (const row of rows) {
+    const time = new Date(row.checked_in_at);
+    lines.push([
+      row.profile?.full_name || 'Umat',
+      row.profile?.username ? `@${row.profile.username}` : '',
+      Number.isNaN(time.getTime()) ? row.checked_in_at : formatter.format(time),
+      row.method === 'QR' ? 'Pindai QR' : 'Kode manual',
+    ]);
+  }
+  return lines.map((line) => line.map(escapeCsv).join(',')).join('\r\n');
+}
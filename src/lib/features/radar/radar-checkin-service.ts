@@ -0,0 +1,590 @@
+// Radar Check-in Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import type { ActiveCheckIn, CheckInPresenceItem, CheckInVisibilityScope } from '@/lib/types';
+import {
+  RadarService,
+  extractMissingColumnName,
+  insertWithColumnFallback,
+  isFunctionMissingError,
+  isMissingColumnError,
+  isNotAuthenticatedError,
+  isPermissionError,
+} from './radar-service';
+
+const ACTIVE_CHECKIN_MAX_AGE_MS = 3 * 60 * 60 * 1000;
+
+export function normalizeCheckInVisibilityScope(value: unknown): CheckInVisibilityScope {
+  const normalized = value?.toString().trim().toLowerCase();
+  if (normalized === 'private') return 'private';
+  if (normalized === 'public' || normalized === 'church') return 'public';
+  return 'followers';
+}
+
+export function toLegacyCheckInVisibility(scope: CheckInVisibilityScope) {
+  if (scope === 'private') return 'PRIVATE';
+  if (scope === 'followers') return 'FOLLOWERS';
+  return 'PUBLIC';
+}
+
+/** Older check-in tables have no ARCHIVED status and use FINISHED instead. */
+export function shouldFallbackToFinishedStatus(message: string) {
+  const lower = message.toLowerCase();
+  return (
+    lower.includes('archived') &&
+    (
+      lower.includes('invalid input value') ||
+      lower.includes('enum') ||
+      lower.includes('check constraint')
+    )
+  );
+}
+
+/**
+ * Archives the user's active check-ins in both check-in tables, dropping
+ * columns the table lacks and falling back to FINISHED where ARCHIVED is not a
+ * valid status. Without a status column only the latest row is archived.
+ */
+export async function archiveActiveCheckIns(
+  userId: string,
+  options?: { now?: string; client?: SupabaseClient }
+) {
+  const client = options?.client ?? supabase;
+  const nowIso = options?.now ?? new Date().toISOString();
+  const archivePayload: Record<string, unknown> = {
+    status: 'ARCHIVED',
+    archived_at: nowIso,
+    updated_at: nowIso,
+  };
+  for (const table of ['mass_checkins', 'mass_checkins_v2']) {
+    const working = { ...archivePayload };
+    const archiveByStatus = async () =>
+      client
+        .from(table)
+        .update(working)
+        .eq('user_id', userId)
+        .eq('status', 'ACTIVE');
+
+    let archiveResult = await archiveByStatus();
+    for (let attempt = 0; attempt < 6; attempt += 1) {
+      if (!archiveResult.error) break;
+      if (
+        working.status === 'ARCHIVED' &&
+        shouldFallbackToFinishedStatus(archiveResult.error.message)
+      ) {
+        working.status = 'FINISHED';
+        archiveResult = await archiveByStatus();
+        continue;
+      }
+      const missingColumn = extractMissingColumnName(archiveResult.error.message);
+      if (
+        missingColumn &&
+        missingColumn in working &&
+        isMissingColumnError(archiveResult.error.message)
+      ) {
+        delete working[missingColumn];
+        archiveResult = await archiveByStatus();
+        continue;
+      }
+      break;
+    }
+    if (!archiveResult.error) continue;
+
+    const archiveMessage = archiveResult.error.message;
+    const statusMissing =
+      isMissingColumnError(archiveMessage) &&
+      (
+        extractMissingColumnName(archiveMessage) === 'status' ||
+        archiveMessage.toLowerCase().includes('status')
+      );
+    if (!statusMissing) continue;
+
+    let latestRowId = '';
+    const latestByCreatedAt = await client
+      .from(table)
+      .select('id, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (!latestByCreatedAt.error && latestByCreatedAt.data?.id) {
+      latestRowId = latestByCreatedAt.data.id.toString();
+    } else if (
+      latestByCreatedAt.error &&
+      isMissingColumnError(latestByCreatedAt.error.message)
+    ) {
+      const latestFallback = await client
+        .from(table)
+        .select('id')
+        .eq('user_id', userId)
+        .limit(1)
+        .maybeSingle();
+      if (!latestFallback.error && latestFallback.data?.id) {
+        latestRowId = latestFallback.data.id.toString();
+      }
+    }
+    if (!latestRowId) continue;
+
+    for (let attempt = 0; attempt < 6; attempt += 1) {
+      const fallbackArchive = await client
+        .from(table)
+        .update(working)
+        .eq('id', latestRowId)
+        .eq('user_id', userId);
+
+      if (!fallbackArchive.error) break;
+      if (
+        working.status === 'ARCHIVED' &&
+        shouldFallbackToFinishedStatus(fallbackArchive.error.message)
+      ) {
+        working.status = 'FINISHED';
+        continue;
+      }
+      const missingColumn = extractMissingColumnName(fallbackArchive.error.message);
+      if (
+        missingColumn &&
+        missingColumn in working &&
+        isMissingColumnError(fallbackArchive.error.message)
+      ) {
+        delete working[missingColumn];
+        continue;
+      }
+      break;
+    }
+  }
+}
+
+export class RadarCheckInService {
+  static async getLastCheckIn(userId?: string): Promise<string | null> {
+    if (!userId) return null;
+
+    const tableCandidates = ['mass_checkins', 'mass_checkins_v2'];
+    const timestamps: number[] = [];
+
+    for (const table of tableCandidates) {
+      const result = await supabase
+        .from(table)
+        .select('checkin_at, check_in_time, mass_time, created_at')
+        .eq('user_id', userId)
+        .limit(20);
+
+      if (result.error) {
+        continue;
+      }
+
+      for (const row of (result.data ?? []) as Record<string, unknown>[]) {
+        const raw =
+          row.checkin_at?.toString() ||
+          row.check_in_time?.toString() ||
+          row.mass_time?.toString() ||
+          row.created_at?.toString();
+
+        if (!raw) continue;
+        const time = new Date(raw).getTime();
+        if (!Number.isNaN(time)) {
+          timestamps.push(time);
+        }
+      }
+    }
+
+    if (timestamps.length === 0) return null;
+    return new Date(Math.max(...timestamps)).toISOString();
+  }
+
+  static async getActiveCheckIn(userId?: string): Promise<ActiveCheckIn | null> {
+    if (!userId) return null;
+
+    const candidates: ActiveCheckIn[] = [];
+    const tableCandidates: Array<'mass_checkins' | 'mass_checkins_v2'> = ['mass_checkins', 'mass_checkins_v2'];
+
+    for (const table of tableCandidates) {
+      const withStatus = await supabase
+        .from(table)
+        .select('id, church_id, checkin_at, check_in_time, mass_time, created_at, status')
+        .eq('user_id', userId)
+        .eq('status', 'ACTIVE')
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      let rows = (withStatus.data ?? []) as Record<string, unknown>[];
+      let resultError = withStatus.error;
+      let strictActiveFilter = true;
+      if (resultError && isMissingColumnError(resultError.message)) {
+        strictActiveFilter = false;
+        const fallback = await supabase
+          .from(table)
+          .select('id, church_id, checkin_at, check_in_time, mass_time, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(20);
+        rows = (fallback.data ?? []) as Record<string, unknown>[];
+        resultError = fallback.error;
+      }
+
+      if (resultError) continue;
+
+      const pickFreshFallbackRow = () => {
+        for (const item of rows) {
+          const rawTime =
+            item.checkin_at?.toString() ||
+            item.check_in_time?.toString() ||
+            item.mass_time?.toString() ||
+            item.created_at?.toString();
+          if (!rawTime) continue;
+          const time = new Date(rawTime).getTime();
+          if (Number.isNaN(time)) continue;
+          if (time >= Date.now() - ACTIVE_CHECKIN_MAX_AGE_MS) {
+            return item;
+          }
+        }
+        return null;
+      };
+
+      const row = strictActiveFilter ? rows[0] : pickFreshFallbackRow();
+      if (!row?.id) continue;
+      candidates.push({
+        id: row.id.toString(),
+        table,
+        churchId: row.church_id?.toString(),
+        checkAt:
+          row.checkin_at?.toString() ||
+          row.check_in_time?.toString() ||
+          row.mass_time?.toString() ||
+          row.created_at?.toString(),
+      });
+    }
+
+    if (candidates.length === 0) return null;
+    candidates.sort((a, b) => new Date(b.checkAt || '').getTime() - new Date(a.checkAt || '').getTime());
+    const latestCandidate = candidates[0];
+    const latestTime = new Date(latestCandidate.checkAt || '').getTime();
+    if (!Number.isNaN(latestTime) && Date.now() - latestTime > ACTIVE_CHECKIN_MAX_AGE_MS) {
+      try {
+        await this.checkOut({ userId, active: latestCandidate });
+      } catch (error) {
+        console.warn('Failed to auto-expire stale check-in:', error);
+      }
+      return null;
+    }
+    return latestCandidate;
+  }
+
+  static async checkIn(params: {
+    userId: string;
+    churchId: string;
+    countryId?: string;
+    dioceseId?: string;
+    massScheduleId?: string;
+    checkinDate?: string;
+    massTime?: string;
+    churchTimezone?: string;
+    visibilityScope?: CheckInVisibilityScope;
+    notifyFollowers?: boolean;
+    notifyChurch?: boolean;
+  }) {
+    const {
+      userId,
+      churchId,
+      countryId,
+      dioceseId,
+      massScheduleId,
+      checkinDate,
+      massTime,
+      churchTimezone,
+      visibilityScope,
+      notifyFollowers,
+      notifyChurch,
+    } = params;
+    const nowIso = new Date().toISOString();
+    const selectedDate = (checkinDate || nowIso.split('T')[0]).trim();
+    const selectedMassTime = massTime?.trim() || '';
+    const timeParts = selectedMassTime.match(/^(\d{1,2}):(\d{2})/);
+    let massDateTimeIso = nowIso;
+    if (timeParts) {
+      const massDate = new Date(`${selectedDate}T${timeParts[1].padStart(2, '0')}:${timeParts[2]}:00`);
+      if (!Number.isNaN(massDate.getTime())) {
+        massDateTimeIso = massDate.toISOString();
+      }
+    }
+    const resolvedChurchTimezone = (churchTimezone || 'Asia/Jakarta').trim() || 'Asia/Jakarta';
+    const normalizedScope = normalizeCheckInVisibilityScope(visibilityScope);
+    const legacyVisibility = toLegacyCheckInVisibility(normalizedScope);
+    const resolvedNotifyFollowers =
+      normalizedScope === 'private' ? false : Boolean(notifyFollowers ?? true);
+    const resolvedNotifyChurch =
+      normalizedScope === 'public' ? Boolean(notifyChurch ?? false) : false;
+
+    await archiveActiveCheckIns(userId, { now: nowIso });
+
+    if (countryId && dioceseId) {
+      const rpcResult = await supabase.rpc('radar_v2_set_checkin', {
+        p_country_id: countryId,
+        p_diocese_id: dioceseId,
+        p_church_id: churchId,
+        p_mass_schedule_id: massScheduleId || null,
+        p_checkin_date: selectedDate,
+        p_visibility: legacyVisibility,
+        p_church_timezone: resolvedChurchTimezone,
+      });
+
+      if (!rpcResult.error) {
+        return;
+      }
+
+      if (!(
+        isFunctionMissingError(rpcResult.error.message) ||
+        isPermissionError(rpcResult.error.message) ||
+        isNotAuthenticatedError(rpcResult.error.message)
+      )) {
+        console.warn('radar_v2_set_checkin RPC fallback to direct insert:', rpcResult.error.message);
+      }
+    }
+
+    const legacyPayload: Record<string, unknown> = {
+      user_id: userId,
+      church_id: churchId,
+      check_in_time: nowIso,
+      mass_time: massDateTimeIso,
+      visibility: legacyVisibility,
+      visibility_scope: normalizedScope,
+      notify_followers: resolvedNotifyFollowers,
+      notify_church: resolvedNotifyChurch,
+      status: 'ACTIVE',
+    };
+
+    const legacyInsert = await insertWithColumnFallback('mass_checkins', legacyPayload);
+    if (!legacyInsert.error) {
+      return;
+    }
+
+    const v2Payload: Record<string, unknown> = {
+      user_id: userId,
+      church_id: churchId,
+      checkin_at: nowIso,
+      checkin_date: selectedDate,
+      church_timezone: resolvedChurchTimezone,
+      visibility: legacyVisibility,
+      visibility_scope: normalizedScope,
+      notify_followers: resolvedNotifyFollowers,
+      notify_church: resolvedNotifyChurch,
+      status: 'ACTIVE',
+    };
+
+    if (countryId) {
+      v2Payload.country_id = countryId;
+    }
+    if (dioceseId) {
+      v2Payload.diocese_id = dioceseId;
+    }
+    if (massScheduleId) {
+      v2Payload.mass_schedule_id = massScheduleId;
+    }
+
+    const v2Insert = await insertWithColumnFallback('mass_checkins_v2', v2Payload);
+    if (!v2Insert.error) {
+      return;
+    }
+
+    throw new Error(
+      legacyInsert.error?.message ||
+      v2Insert.error?.message ||
+      'Gagal check-in sekarang'
+    );
+  }
+
+  static async checkOut(params: { userId: string; active: ActiveCheckIn }) {
+    const { userId, active } = params;
+    const nowIso = new Date().toISOString();
+    const workingPayload: Record<string, unknown> = {
+      status: 'ARCHIVED',
+      archived_at: nowIso,
+      updated_at: nowIso,
+    };
+
+    for (let attempt = 0; attempt < 8; attempt += 1) {
+      const result = await supabase
+        .from(active.table)
+        .update(workingPayload)
+        .eq('id', active.id)
+        .eq('user_id', userId);
+
+      if (!result.error) {
+        return;
+      }
+
+      const missingColumn = extractMissingColumnName(result.error.message);
+      if (
+        missingColumn &&
+        missingColumn in workingPayload &&
+        isMissingColumnError(result.error.message)
+      ) {
+        delete workingPayload[missingColumn];
+        continue;
+      }
+
+      if (
+        workingPayload.status === 'ARCHIVED' &&
+        shouldFallbackToFinishedStatus(result.error.message)
+      ) {
+        workingPayload.status = 'FINISHED';
+        continue;
+      }
+
+      if (isPermissionError(result.error.message)) {
+        throw new Error('Tidak punya izin check-out pada data check-in ini.');
+      }
+
+      throw new Error(result.error.message);
+    }
+
+    throw new Error('Gagal check-out sekarang.');
+  }
+
+  static async getPresence(params: {
+    churchId?: string;
+    currentUserId?: string;
+    limit?: number;
+  }): Promise<CheckInPresenceItem[]> {
+    const { churchId, currentUserId, limit = 8 } = params;
+    const selectedChurchId = churchId?.trim();
+    if (!selectedChurchId) return [];
+
+    const byUser = new Map<string, { userId: string; checkAt?: string }>();
+    const followingIds = new Set<string>();
+    if (currentUserId) {
+      const following = await supabase
+        .from('follows')
+        .select('following_id')
+        .eq('follower_id', currentUserId);
+
+      if (!following.error) {
+        for (const row of (following.data ?? []) as Record<string, unknown>[]) {
+          const followingId = row.following_id?.toString();
+          if (followingId) {
+            followingIds.add(followingId);
+          }
+        }
+      } else if (!isPermissionError(following.error.message)) {
+        console.error('Error fetching follow map for check-in presence:', following.error);
+      }
+    }
+
+    for (const table of ['mass_checkins', 'mass_checkins_v2']) {
+      let rows: Record<string, unknown>[] | null = null;
+      let resultError: { message: string } | null = null;
+
+      for (const columns of [
+        'user_id, checkin_at, check_in_time, mass_time, created_at, status, visibility, visibility_scope',
+        'user_id, checkin_at, check_in_time, mass_time, created_at, status, visibility',
+        'user_id, checkin_at, check_in_time, mass_time, created_at, status',
+      ]) {
+        const result = await supabase
+          .from(table)
+          .select(columns)
+          .eq('church_id', selectedChurchId)
+          .eq('status', 'ACTIVE')
+          .order('created_at', { ascending: false })
+          .limit(80);
+
+        if (!result.error) {
+          rows = result.data as unknown as Record<string, unknown>[] | null;
+          resultError = null;
+          break;
+        }
+
+        resultError = result.error;
+        if (!isMissingColumnError(result.error.message)) {
+          break;
+        }
+      }
+
+      if (resultError && isMissingColumnError(resultError.message)) {
+        resultError = null;
+        for (const columns of [
+          'user_id, checkin_at, check_in_time, mass_time, created_at, visibility, visibility_scope',
+          'user_id, checkin_at, check_in_time, mass_time, created_at, visibility',
+          'user_id, checkin_at, check_in_time, mass_time, created_at',
+        ]) {
+          const fallback = await supabase
+            .from(table)
+            .select(columns)
+            .eq('church_id', selectedChurchId)
+            .order('created_at', { ascending: false })
+            .limit(80);
+
+          if (!fallback.error) {
+            rows = fallback.data as unknown as Record<string, unknown>[] | null;
+            resultError = null;
+            break;
+          }
+
+          resultError = fallback.error;
+          if (!isMissingColumnError(fallback.error.message)) {
+            break;
+          }
+        }
+      }
+
+      if (resultError) {
+        if (!isPermissionError(resultError.message)) {
+          console.error(`Error fetching check-in presence from ${table}:`, resultError);
+        }
+        continue;
+      }
+
+      for (const row of (rows ?? []) as Record<string, unknown>[]) {
+        const userId = row.user_id?.toString();
+        if (!userId || userId === currentUserId) continue;
+        const visibilityScope = normalizeCheckInVisibilityScope(
+          row.visibility_scope?.toString() || row.visibility?.toString()
+        );
+        if (visibilityScope === 'private') continue;
+        if (visibilityScope === 'followers' && !followingIds.has(userId)) continue;
+
+        const checkAt =
+          row.checkin_at?.toString() ||
+          row.check_in_time?.toString() ||
+          row.mass_time?.toString() ||
+          row.created_at?.toString();
+        if (!checkAt) continue;
+
+        const checkTime = new Date(checkAt).getTime();
+        if (Number.isNaN(checkTime)) continue;
+        // Keep parity with mobile: active check-in is treated as stale after 3 hours.
+        if (checkTime < Date.now() - ACTIVE_CHECKIN_MAX_AGE_MS) {
+          continue;
+        }
+
+        const existing = byUser.get(userId);
+        if (!existing) {
+          byUser.set(userId, { userId, checkAt });
+          continue;
+        }
+
+        const existingTime = new Date(existing.checkAt || '').getTime();
+        if (Number.isNaN(existingTime) || checkTime > existingTime) {
+          byUser.set(userId, { userId, checkAt });
+        }
+      }
+    }
+
+    const ordered = Array.from(byUser.values())
+      .sort((a, b) => new Date(b.checkAt || '').getTime() - new Date(a.checkAt || '').getTime())
+      .slice(0, Math.max(1, limit));
+
+    if (ordered.length === 0) return [];
+
+    const profiles = await RadarService.getProfilesMap(ordered.map((item) => item.userId));
+    return ordered.map((item) => {
+      const profile = profiles.get(item.userId);
+      return {
+        userId: item.userId,
+        fullName: profile?.full_name,
+        username: profile?.username,
+        avatarUrl: profile?.avatar_url,
+        checkAt: item.checkAt,
+      } satisfies CheckInPresenceItem;
+    });
+  }
+}
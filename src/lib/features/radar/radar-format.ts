@@ -0,0 +1,34 @@
+// Radar display helpers shared by the Radar list and detail pages.
+
+import { format } from 'date-fns';
+import { id } from 'date-fns/locale';
+
+export function formatRadarDateTimeLabel(value?: string) {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return format(date, 'dd MMM yyyy HH:mm', { locale: id });
+}
+
+/** Local `YYYY-MM-DDTHH:mm` for a datetime-local input; now when no value is given. */
+export function toLocalDateTimeValue(value?: string | Date) {
+  const date = value instanceof Date ? value : value ? new Date(value) : new Date();
+  if (Number.isNaN(date.getTime())) return '';
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  const hour = `${date.getHours()}`.padStart(2, '0');
+  const minute = `${date.getMinutes()}`.padStart(2, '0');
+  return `${year}-${month}-${day}T${hour}:${minute}`;
+}
+
+export function formatRadarLocationLabel(location: {
+  countryName?: string;
+  dioceseName?: string;
+  churchName?: string;
+}) {
+  return [location.countryName, location.dioceseName, location.churchName]
+    .map((value) => value?.trim() || '')
+    .filter(Boolean)
+    .join(' • ');
+}
@@ -0,0 +1,1434 @@
+// Radar Invite Service
+
+import { supabase } from '@/lib/supabase/client';
+import type {
+  RadarInviteItem,
+  RadarInviteTarget,
+  RadarMembershipState,
+  RadarSource,
+} from '@/lib/types';
+import { createRandomUUID } from '@/lib/utils';
+import { formatRadarDateTimeLabel } from './radar-format';
+import {
+  RadarService,
+  insertWithColumnFallback,
+  isForeignKeyError,
+  isFunctionMissingError,
+  isJoinedMembershipStatus,
+  isMissingColumnError,
+  isMissingRelationError,
+  isNotAuthenticatedError,
+  isPendingMembershipStatus,
+  isPermissionError,
+  normalizeMembershipStatus,
+  normalizeRadarVisibility,
+} from './radar-service';
+
+/** The radar fields a group invite needs for its checks and notification. */
+export type RadarInviteRadar = {
+  id: string;
+  title: string;
+  source: RadarSource;
+  startsAt?: string;
+  visibility?: string;
+  churchName?: string;
+  dioceseName?: string;
+  countryName?: string;
+  dioceseId?: string;
+  countryId?: string;
+};
+
+export function normalizeInviteStatus(value: unknown) {
+  return value?.toString().toUpperCase() || 'PENDING';
+}
+
+export function isPendingInvite(value: unknown) {
+  const status = normalizeInviteStatus(value);
+  return status === 'PENDING' || status === 'INVITED' || status === 'REQUESTED';
+}
+
+export function isAcceptedInvite(value: unknown) {
+  const status = normalizeInviteStatus(value);
+  return status === 'ACCEPTED' || status === 'JOINED' || status === 'APPROVED';
+}
+
+export function isActionablePersonalInviteStatus(value: unknown) {
+  return isPendingInvite(value) || isAcceptedInvite(value);
+}
+
+function extractFirstStringField(
+  row: Record<string, unknown> | null | undefined,
+  keys: string[]
+): string {
+  if (!row) return '';
+  for (const key of keys) {
+    const value = row[key];
+    if (value === null || value === undefined) continue;
+    const text = value.toString().trim();
+    if (text) return text;
+  }
+  return '';
+}
+
+async function getRadarMap(radarIds: string[]) {
+  const ids = [...new Set(radarIds.filter(Boolean))];
+  const map = new Map<string, {
+    title?: string;
+    startsAt?: string;
+    source: RadarSource;
+    visibility?: string;
+    churchId?: string;
+    churchName?: string;
+  }>();
+
+  if (ids.length === 0) {
+    return map;
+  }
+
+  const legacyWithVisibility = await supabase
+    .from('radar_events')
+    .select('id, title, event_time, visibility, church_id, church_name')
+    .in('id', ids);
+  const legacy =
+    legacyWithVisibility.error && isMissingColumnError(legacyWithVisibility.error.message)
+      ? await supabase
+        .from('radar_events')
+        .select('id, title, event_time, church_id')
+        .in('id', ids)
+      : legacyWithVisibility;
+  if (!legacy.error) {
+    for (const row of (legacy.data ?? []) as Record<string, unknown>[]) {
+      const id = row.id?.toString();
+      if (!id) continue;
+      map.set(id, {
+        title: row.title?.toString(),
+        startsAt: row.event_time?.toString(),
+        source: 'legacy',
+        visibility: row.visibility?.toString(),
+        churchId: row.church_id?.toString(),
+        churchName: row.church_name?.toString(),
+      });
+    }
+  }
+
+  const v2WithVisibility = await supabase
+    .from('radar_events_v2')
+    .select('id, title, event_starts_at_utc, visibility, church_id, church_name')
+    .in('id', ids);
+  const v2 =
+    v2WithVisibility.error && isMissingColumnError(v2WithVisibility.error.message)
+      ? await supabase
+        .from('radar_events_v2')
+        .select('id, title, event_starts_at_utc, church_id')
+        .in('id', ids)
+      : v2WithVisibility;
+  if (!v2.error) {
+    for (const row of (v2.data ?? []) as Record<string, unknown>[]) {
+      const id = row.id?.toString();
+      if (!id) continue;
+      map.set(id, {
+        title: row.title?.toString(),
+        startsAt: row.event_starts_at_utc?.toString(),
+        source: 'v2',
+        visibility: row.visibility?.toString(),
+        churchId: row.church_id?.toString(),
+        churchName: row.church_name?.toString(),
+      });
+    }
+  }
+
+  return map;
+}
+
+async function getInviteRows(direction: 'incoming' | 'outgoing', userId?: string) {
+  if (!userId) return [] as Record<string, unknown>[];
+
+  const field = direction === 'incoming' ? 'invitee_id' : 'inviter_id';
+
+  const rowsById = new Map<string, Record<string, unknown>>();
+
+  const fetchFromTable = async (table: 'radar_invites' | 'radar_invites_v2') => {
+    const selectCandidates =
+      table === 'radar_invites_v2'
+        ? [
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, church_id, diocese_id, country_id, event_starts_at_utc',
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, church_id, event_starts_at_utc',
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, event_starts_at_utc',
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note',
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source',
+          'id, inviter_id, invitee_id, status, created_at',
+        ]
+        : [
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, church_id, diocese_id, country_id, event_starts_at_utc, event_time',
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, church_id, event_starts_at_utc, event_time',
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note, event_time',
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source, note',
+          'id, inviter_id, invitee_id, status, created_at, radar_id, source',
+          'id, inviter_id, invitee_id, status, created_at',
+        ];
+
+    let lastErrorMessage = '';
+    for (const columns of selectCandidates) {
+      const result = await supabase
+        .from(table)
+        .select(columns)
+        .eq(field, userId)
+        .order('created_at', { ascending: false })
+        .limit(40);
+
+      if (!result.error) {
+        for (const row of (result.data ?? []) as unknown as Record<string, unknown>[]) {
+          const id = row.id?.toString();
+          const key = id || `${table}:${createRandomUUID()}`;
+          const nextRow = {
+            ...row,
+            _source_table: table,
+          } satisfies Record<string, unknown>;
+          const existing = rowsById.get(key);
+          if (!existing || table === 'radar_invites_v2') {
+            rowsById.set(key, nextRow);
+          }
+        }
+        return;
+      }
+
+      if (isPermissionError(result.error.message) || isMissingRelationError(result.error.message)) {
+        return;
+      }
+
+      lastErrorMessage = result.error.message;
+      if (!isMissingColumnError(result.error.message)) {
+        console.error(`Error fetching ${table}:`, result.error);
+        return;
+      }
+    }
+
+    if (lastErrorMessage) {
+      console.error(`Error fetching ${table} fallback:`, lastErrorMessage);
+    }
+  };
+
+  await Promise.all([
+    fetchFromTable('radar_invites'),
+    fetchFromTable('radar_invites_v2'),
+  ]);
+
+  return Array.from(rowsById.values()).sort((a, b) => {
+    const aTime = new Date(a.created_at?.toString() || '').getTime();
+    const bTime = new Date(b.created_at?.toString() || '').getTime();
+    return bTime - aTime;
+  });
+}
+
+async function markNotificationRead(notificationId: string) {
+  if (!notificationId) return;
+
+  const withIsRead = await supabase
+    .from('notifications')
+    .update({
+      is_read: true,
+      read_at: new Date().toISOString(),
+    })
+    .eq('id', notificationId);
+
+  if (!withIsRead.error) return;
+  if (!isMissingColumnError(withIsRead.error.message)) return;
+
+  await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', notificationId);
+}
+
+export class RadarInviteService {
+  static async searchTargets(keyword: string, currentUserId?: string) {
+    const query = keyword.trim();
+    if (query.length < 2) return [] as RadarInviteTarget[];
+
+    const withUsername = await supabase
+      .from('profiles')
+      .select('id, full_name, username, avatar_url, role, allow_mass_invite')
+      .or(`full_name.ilike.%${query}%,username.ilike.%${query}%`)
+      .limit(12);
+
+    let rows = withUsername.data as Record<string, unknown>[] | null;
+    let searchError = withUsername.error;
+    if (searchError && isMissingColumnError(searchError.message)) {
+      const fallback = await supabase
+        .from('profiles')
+        .select('id, full_name, avatar_url, role')
+        .ilike('full_name', `%${query}%`)
+        .limit(12);
+      rows = fallback.data as Record<string, unknown>[] | null;
+      searchError = fallback.error;
+    }
+
+    if (searchError) {
+      console.error('Error searching invite targets:', searchError);
+      return [] as RadarInviteTarget[];
+    }
+
+    return ((rows ?? []) as Record<string, unknown>[])
+      .map((row) => ({
+        id: row.id?.toString() ?? '',
+        full_name: row.full_name?.toString(),
+        username: row.username?.toString(),
+        avatar_url: row.avatar_url?.toString(),
+        role: row.role?.toString(),
+        allow_mass_invite:
+          typeof row.allow_mass_invite === 'boolean' ? row.allow_mass_invite : true,
+      }))
+      .filter((item) => Boolean(item.id) && item.id !== currentUserId);
+  }
+
+  static async getTargetById(userId?: string): Promise<RadarInviteTarget | null> {
+    if (!userId) return null;
+
+    const withUsername = await supabase
+      .from('profiles')
+      .select('id, full_name, username, avatar_url, role, allow_mass_invite')
+      .eq('id', userId)
+      .maybeSingle();
+
+    let row = withUsername.data as Record<string, unknown> | null;
+    let fetchError = withUsername.error;
+    if (fetchError && isMissingColumnError(fetchError.message)) {
+      const fallback = await supabase
+        .from('profiles')
+        .select('id, full_name, avatar_url, role')
+        .eq('id', userId)
+        .maybeSingle();
+      row = fallback.data as Record<string, unknown> | null;
+      fetchError = fallback.error;
+    }
+
+    if (fetchError || !row?.id) {
+      return null;
+    }
+
+    return {
+      id: row.id.toString(),
+      full_name: row.full_name?.toString(),
+      username: row.username?.toString(),
+      avatar_url: row.avatar_url?.toString(),
+      role: row.role?.toString(),
+      allow_mass_invite:
+        typeof row.allow_mass_invite === 'boolean' ? row.allow_mass_invite : true,
+    };
+  }
+
+  /** Latest personal invite of the user for a radar, if it can still be acted on. */
+  static async getLatestPersonalInvite(params: {
+    radarId: string;
+    userId: string;
+    radarSource?: RadarSource;
+  }): Promise<RadarInviteItem | null> {
+    const radarId = params.radarId.trim();
+    const userId = params.userId.trim();
+    if (!radarId || !userId) return null;
+
+    const selectCandidates = [
+      'id, inviter_id, invitee_id, status, created_at, radar_id, source, note',
+      'id, inviter_id, invitee_id, status, created_at, radar_id, note',
+      'id, inviter_id, invitee_id, status, created_at, radar_id',
+    ];
+
+    let row: Record<string, unknown> | null = null;
+    let lastError = '';
+    for (const columns of selectCandidates) {
+      const result = await supabase
+        .from('radar_invites')
+        .select(columns)
+        .eq('radar_id', radarId)
+        .eq('invitee_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!result.error) {
+        row = (result.data as Record<string, unknown> | null) ?? null;
+        break;
+      }
+
+      if (isPermissionError(result.error.message)) {
+        return null;
+      }
+      lastError = result.error.message;
+      if (!isMissingColumnError(result.error.message)) {
+        break;
+      }
+    }
+
+    if (!row?.id) {
+      if (lastError && !isMissingColumnError(lastError)) {
+        console.error('Error reading personal invite for radar:', lastError);
+      }
+      return null;
+    }
+
+    const status = normalizeInviteStatus(row.status);
+    if (!isActionablePersonalInviteStatus(status)) {
+      return null;
+    }
+
+    return {
+      id: row.id.toString(),
+      inviteId: row.id.toString(),
+      inviterId: row.inviter_id?.toString(),
+      inviteeId: row.invitee_id?.toString(),
+      inviteSource: row.source?.toString() || 'PERSONAL',
+      status,
+      createdAt: row.created_at?.toString(),
+      radarId: row.radar_id?.toString() || radarId,
+      radarSource: params.radarSource,
+      message: row.note?.toString(),
+      direction: 'incoming',
+    } satisfies RadarInviteItem;
+  }
+
+  static async getPersonalInviteStatus(params: {
+    radarId?: string;
+    userId?: string;
+  }) {
+    const radarId = params.radarId?.trim();
+    const userId = params.userId?.trim();
+    if (!radarId || !userId) return '';
+
+    const withSource = await supabase
+      .from('radar_invites')
+      .select('status, source')
+      .eq('radar_id', radarId)
+      .eq('invitee_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let row = withSource.data as Record<string, unknown> | null;
+    let fetchError = withSource.error;
+    if (fetchError && isMissingColumnError(fetchError.message)) {
+      const fallback = await supabase
+        .from('radar_invites')
+        .select('status')
+        .eq('radar_id', radarId)
+        .eq('invitee_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      row = fallback.data as Record<string, unknown> | null;
+      fetchError = fallback.error;
+    }
+
+    if (fetchError) {
+      if (!isPermissionError(fetchError.message) && !isMissingRelationError(fetchError.message)) {
+        console.error('Failed to fetch personal invite status:', fetchError.message);
+      }
+      return '';
+    }
+
+    return normalizeMembershipStatus(row?.status);
+  }
+
+  /** Invite rows from both invite tables merged with radar_invite notifications. */
+  static async getIncomingInvites(userId?: string): Promise<RadarInviteItem[]> {
+    if (!userId) return [];
+
+    const tableRows = await getInviteRows('incoming', userId);
+    const inviteMap = new Map<string, RadarInviteItem>();
+
+    for (const row of tableRows) {
+      const id = row.id?.toString();
+      if (!id) continue;
+      const sourceTable = row._source_table?.toString();
+      inviteMap.set(id, {
+        id,
+        inviteId: id,
+        inviterId: row.inviter_id?.toString(),
+        inviteeId: row.invitee_id?.toString(),
+        inviteSource: row.source?.toString(),
+        status: normalizeInviteStatus(row.status),
+        createdAt: row.created_at?.toString(),
+        radarId: row.radar_id?.toString(),
+        radarChurchId: row.church_id?.toString(),
+        radarStartsAt: row.event_starts_at_utc?.toString() || row.event_time?.toString(),
+        radarSource:
+          sourceTable === 'radar_invites_v2'
+            ? (row.radar_id ? 'v2' : undefined)
+            : undefined,
+        message: row.note?.toString() || row.message?.toString(),
+        direction: 'incoming',
+      });
+    }
+
+    const notificationsWithRead = await supabase
+      .from('notifications')
+      .select('id, user_id, type, title, message, data, sender_id, actor_id, created_at, is_read, read_at')
+      .eq('user_id', userId)
+      .eq('type', 'radar_invite')
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    let notificationRows = notificationsWithRead.data as Record<string, unknown>[] | null;
+    let notificationError = notificationsWithRead.error;
+    if (notificationError && isMissingColumnError(notificationError.message)) {
+      const fallback = await supabase
+        .from('notifications')
+        .select('id, user_id, type, title, message, data, sender_id, actor_id, created_at, read_at')
+        .eq('user_id', userId)
+        .eq('type', 'radar_invite')
+        .order('created_at', { ascending: false })
+        .limit(50);
+      notificationRows = fallback.data as Record<string, unknown>[] | null;
+      notificationError = fallback.error;
+    }
+
+    if (!notificationError) {
+      for (const row of (notificationRows ?? []) as Record<string, unknown>[]) {
+        const data = (row.data as Record<string, unknown> | null) ?? {};
+        const inviteId = data.invite_id?.toString();
+        const isRead = typeof row.is_read === 'boolean' ? row.is_read : Boolean(row.read_at);
+        const status = isRead ? 'SEEN' : 'PENDING';
+        const notifNote = data.note?.toString();
+
+        const targetId =
+          (inviteId && inviteMap.has(inviteId) ? inviteId : null) ||
+          `notif:${row.id?.toString() || createRandomUUID()}`;
+        const existing = inviteMap.get(targetId);
+
+        inviteMap.set(targetId, {
+          id: targetId,
+          inviteId: inviteId || existing?.inviteId,
+          notificationId: row.id?.toString() || existing?.notificationId,
+          inviterId:
+            row.sender_id?.toString() ||
+            row.actor_id?.toString() ||
+            data.inviter_id?.toString() ||
+            existing?.inviterId,
+          inviteeId: userId,
+          status: existing?.status || status,
+          createdAt: row.created_at?.toString() || existing?.createdAt,
+          radarId: data.radar_id?.toString() || existing?.radarId,
+          radarChurchId: data.church_id?.toString() || existing?.radarChurchId,
+          radarTitle: data.title?.toString() || existing?.radarTitle,
+          radarCountryName: data.country_name?.toString() || existing?.radarCountryName,
+          radarDioceseName: data.diocese_name?.toString() || existing?.radarDioceseName,
+          radarChurchName: data.church_name?.toString() || existing?.radarChurchName,
+          radarStartsAt: data.starts_at?.toString() || existing?.radarStartsAt,
+          radarSource:
+            (data.radar_source?.toString() as RadarSource | undefined) ||
+            existing?.radarSource,
+          inviteSource:
+            data.source?.toString() ||
+            existing?.inviteSource,
+          message: existing?.message || notifNote || row.message?.toString(),
+          direction: 'incoming',
+        });
+      }
+    } else if (!isPermissionError(notificationError.message)) {
+      console.error('Error fetching radar invite notifications:', notificationError);
+    }
+
+    const invites = Array.from(inviteMap.values());
+    const profileIds = invites
+      .flatMap((invite) => [invite.inviterId, invite.inviteeId])
+      .filter((id): id is string => Boolean(id));
+    const radarIds = invites
+      .map((invite) => invite.radarId)
+      .filter((id): id is string => Boolean(id));
+
+    const [profiles, radars] = await Promise.all([
+      RadarService.getProfilesMap(profileIds),
+      getRadarMap(radarIds),
+    ]);
+    const churchIds = invites
+      .map((invite) => {
+        if (invite.radarChurchId) return invite.radarChurchId;
+        if (!invite.radarId) return '';
+        return radars.get(invite.radarId)?.churchId || '';
+      })
+      .filter((id): id is string => Boolean(id));
+    const churchLocations = await RadarService.getChurchLocations(churchIds);
+
+    return invites
+      .map((invite) => {
+        const inviter = invite.inviterId ? profiles.get(invite.inviterId) : undefined;
+        const invitee = invite.inviteeId ? profiles.get(invite.inviteeId) : undefined;
+        const radar = invite.radarId ? radars.get(invite.radarId) : undefined;
+        const churchId = invite.radarChurchId || radar?.churchId;
+        const location = churchId ? churchLocations.get(churchId) : undefined;
+
+        return {
+          ...invite,
+          radarChurchId: churchId,
+          inviterName: inviter?.full_name || invite.inviterName,
+          inviteeName: invitee?.full_name || invite.inviteeName,
+          inviterAvatarUrl: inviter?.avatar_url || invite.inviterAvatarUrl,
+          inviteeAvatarUrl: invitee?.avatar_url || invite.inviteeAvatarUrl,
+          radarTitle: invite.radarTitle || radar?.title,
+          radarCountryName: invite.radarCountryName || location?.countryName,
+          radarDioceseName: invite.radarDioceseName || location?.dioceseName,
+          radarChurchName: invite.radarChurchName || radar?.churchName || location?.churchName,
+          radarStartsAt: invite.radarStartsAt || radar?.startsAt,
+          radarSource: invite.radarSource || radar?.source,
+          radarVisibility: invite.radarVisibility || radar?.visibility,
+          inviteSource: invite.inviteSource || (radar?.visibility?.toUpperCase() === 'PRIVATE' ? 'PERSONAL' : undefined),
+          status: normalizeInviteStatus(invite.status),
+        };
+      })
+      .sort((a, b) => {
+        const aTime = new Date(a.createdAt || '').getTime();
+        const bTime = new Date(b.createdAt || '').getTime();
+        return bTime - aTime;
+      });
+  }
+
+  static async getOutgoingInvites(userId?: string): Promise<RadarInviteItem[]> {
+    if (!userId) return [];
+
+    const rows = await getInviteRows('outgoing', userId);
+    if (rows.length === 0) return [];
+
+    const invites: RadarInviteItem[] = rows.map((row) => ({
+      id: row.id?.toString() || createRandomUUID(),
+      inviteId: row.id?.toString(),
+      inviterId: row.inviter_id?.toString(),
+      inviteeId: row.invitee_id?.toString(),
+      inviteSource: row.source?.toString(),
+      status: normalizeInviteStatus(row.status),
+      createdAt: row.created_at?.toString(),
+      radarId: row.radar_id?.toString(),
+      radarChurchId: row.church_id?.toString(),
+      radarStartsAt: row.event_starts_at_utc?.toString() || row.event_time?.toString(),
+      radarSource:
+        row._source_table?.toString() === 'radar_invites_v2'
+          ? (row.radar_id ? 'v2' : undefined)
+          : undefined,
+      message: row.note?.toString() || row.message?.toString(),
+      direction: 'outgoing',
+    }));
+
+    const profileIds = invites
+      .flatMap((invite) => [invite.inviterId, invite.inviteeId])
+      .filter((id): id is string => Boolean(id));
+    const radarIds = invites
+      .map((invite) => invite.radarId)
+      .filter((id): id is string => Boolean(id));
+
+    const [profiles, radars] = await Promise.all([
+      RadarService.getProfilesMap(profileIds),
+      getRadarMap(radarIds),
+    ]);
+    const churchIds = invites
+      .map((invite) => {
+        if (invite.radarChurchId) return invite.radarChurchId;
+        if (!invite.radarId) return '';
+        return radars.get(invite.radarId)?.churchId || '';
+      })
+      .filter((id): id is string => Boolean(id));
+    const churchLocations = await RadarService.getChurchLocations(churchIds);
+
+    return invites
+      .map((invite) => {
+        const radar = invite.radarId ? radars.get(invite.radarId) : undefined;
+        const churchId = invite.radarChurchId || radar?.churchId;
+        const location = churchId ? churchLocations.get(churchId) : undefined;
+        return {
+          ...invite,
+          radarChurchId: churchId,
+          inviterName: invite.inviterId ? profiles.get(invite.inviterId)?.full_name : undefined,
+          inviteeName: invite.inviteeId ? profiles.get(invite.inviteeId)?.full_name : undefined,
+          inviterAvatarUrl: invite.inviterId ? profiles.get(invite.inviterId)?.avatar_url : undefined,
+          inviteeAvatarUrl: invite.inviteeId ? profiles.get(invite.inviteeId)?.avatar_url : undefined,
+          radarTitle:
+            invite.radarTitle ||
+            (invite.radarId ? radars.get(invite.radarId)?.title : undefined),
+          radarCountryName: invite.radarCountryName || location?.countryName,
+          radarDioceseName: invite.radarDioceseName || location?.dioceseName,
+          radarChurchName:
+            invite.radarChurchName ||
+            (invite.radarId ? radars.get(invite.radarId)?.churchName : undefined) ||
+            location?.churchName,
+          radarStartsAt:
+            invite.radarStartsAt ||
+            (invite.radarId ? radars.get(invite.radarId)?.startsAt : undefined),
+          radarSource:
+            invite.radarSource ||
+            (invite.radarId ? radars.get(invite.radarId)?.source : undefined),
+          radarVisibility:
+            invite.radarVisibility ||
+            (invite.radarId ? radars.get(invite.radarId)?.visibility : undefined),
+          inviteSource:
+            invite.inviteSource ||
+            (invite.radarId && radars.get(invite.radarId)?.visibility?.toUpperCase() === 'PRIVATE'
+              ? 'PERSONAL'
+              : undefined),
+          status: normalizeInviteStatus(invite.status),
+        };
+      })
+      .sort((a, b) => {
+        const aTime = new Date(a.createdAt || '').getTime();
+        const bTime = new Date(b.createdAt || '').getTime();
+        return bTime - aTime;
+      });
+  }
+
+  static async sendGroupInvite(params: {
+    inviterId: string;
+    inviterName?: string;
+    inviteeId: string;
+    radar: RadarInviteRadar;
+  }) {
+    const { inviterId, inviterName, inviteeId, radar } = params;
+    if (!inviterId || !inviteeId) {
+      throw new Error('User tidak valid untuk undangan radar.');
+    }
+    if (inviterId === inviteeId) {
+      throw new Error('Tidak bisa mengundang diri sendiri.');
+    }
+    if (normalizeRadarVisibility(radar.visibility) === 'PRIVATE') {
+      throw new Error('Radar private tidak mendukung undangan grup.');
+    }
+
+    const eventTable = radar.source === 'v2' ? 'radar_events_v2' : 'radar_events';
+    const eventWithPolicy = await supabase
+      .from(eventTable)
+      .select('id, creator_id, allow_member_invite')
+      .eq('id', radar.id)
+      .maybeSingle();
+
+    let eventRow = eventWithPolicy.data as Record<string, unknown> | null;
+    let eventError = eventWithPolicy.error;
+    if (eventError && isMissingColumnError(eventError.message)) {
+      const fallback = await supabase
+        .from(eventTable)
+        .select('id, creator_id')
+        .eq('id', radar.id)
+        .maybeSingle();
+      eventRow = fallback.data as Record<string, unknown> | null;
+      eventError = fallback.error;
+    }
+
+    if (eventError && !isPermissionError(eventError.message)) {
+      throw new Error(eventError.message);
+    }
+
+    if (eventRow?.id) {
+      const creatorId = eventRow.creator_id?.toString() || '';
+      const allowMemberInvite = eventRow.allow_member_invite === true;
+      const isHost = creatorId === inviterId;
+      if (!isHost && !allowMemberInvite) {
+        throw new Error('Host tidak mengizinkan undangan peserta pada radar ini.');
+      }
+      if (!isHost && allowMemberInvite) {
+        const participantTables =
+          radar.source === 'v2'
+            ? (['radar_participants_v2', 'radar_participants'] as const)
+            : (['radar_participants', 'radar_participants_v2'] as const);
+
+        let inviterIsJoinedMember = false;
+        for (const table of participantTables) {
+          const participant = await supabase
+            .from(table)
+            .select('status')
+            .eq('radar_id', radar.id)
+            .eq('user_id', inviterId)
+            .maybeSingle();
+
+          if (participant.error) {
+            if (!isMissingColumnError(participant.error.message) && !isPermissionError(participant.error.message)) {
+              throw new Error(participant.error.message);
+            }
+            continue;
+          }
+          if (!participant.data) continue;
+          const memberStatus = normalizeMembershipStatus(participant.data.status);
+          if (isJoinedMembershipStatus(memberStatus) || !memberStatus) {
+            inviterIsJoinedMember = true;
+            break;
+          }
+        }
+
+        if (!inviterIsJoinedMember) {
+          throw new Error('Anda harus bergabung dulu ke radar sebelum mengundang user lain.');
+        }
+      }
+    }
+
+    if (radar.source === 'v2') {
+      const rpcInvite = await supabase.rpc('radar_v2_send_invite', {
+        p_source: 'RADAR_GROUP',
+        p_invitee_id: inviteeId,
+        p_radar_id: radar.id,
+        p_note: radar.title,
+      });
+
+      if (!rpcInvite.error) {
+        return;
+      }
+      if (
+        !isFunctionMissingError(rpcInvite.error.message) &&
+        !isPermissionError(rpcInvite.error.message) &&
+        !isNotAuthenticatedError(rpcInvite.error.message)
+      ) {
+        throw new Error(rpcInvite.error.message);
+      }
+    }
+
+    const existingInvite = await supabase
+      .from('radar_invites')
+      .select('id, status')
+      .eq('radar_id', radar.id)
+      .eq('invitee_id', inviteeId)
+      .maybeSingle();
+    if (!existingInvite.error && existingInvite.data) {
+      const existingStatus = normalizeInviteStatus(existingInvite.data.status);
+      if (isPendingInvite(existingStatus)) {
+        throw new Error('Undangan untuk user ini sudah dikirim.');
+      }
+      if (existingStatus === 'ACCEPTED' || existingStatus === 'JOINED' || existingStatus === 'APPROVED') {
+        throw new Error('User ini sudah menerima undangan sebelumnya.');
+      }
+    }
+
+    const participantTables =
+      radar.source === 'v2'
+        ? (['radar_participants_v2', 'radar_participants'] as const)
+        : (['radar_participants', 'radar_participants_v2'] as const);
+    for (const table of participantTables) {
+      const participant = await supabase
+        .from(table)
+        .select('status')
+        .eq('radar_id', radar.id)
+        .eq('user_id', inviteeId)
+        .maybeSingle();
+      if (participant.error) {
+        if (!isMissingColumnError(participant.error.message) && !isPermissionError(participant.error.message)) {
+          throw new Error(participant.error.message);
+        }
+        continue;
+      }
+
+      if (!participant.data) continue;
+      const memberStatus = normalizeMembershipStatus(participant.data.status);
+      if (isJoinedMembershipStatus(memberStatus) || !memberStatus) {
+        throw new Error('User ini sudah menjadi peserta radar.');
+      }
+      if (isPendingMembershipStatus(memberStatus)) {
+        throw new Error('User ini sudah memiliki permintaan/join status pending.');
+      }
+    }
+
+    let inviteInsert = await insertWithColumnFallback(
+      'radar_invites',
+      {
+        inviter_id: inviterId,
+        invitee_id: inviteeId,
+        radar_id: radar.id,
+        source: 'RADAR_GROUP',
+        status: 'PENDING',
+        note: radar.title,
+      },
+      { select: 'id' }
+    );
+
+    if (inviteInsert.error && isForeignKeyError(inviteInsert.error.message)) {
+      // Some environments still pin radar_id FK to legacy table only.
+      inviteInsert = await insertWithColumnFallback(
+        'radar_invites',
+        {
+          inviter_id: inviterId,
+          invitee_id: inviteeId,
+          source: 'RADAR_GROUP',
+          status: 'PENDING',
+          note: radar.title,
+        },
+        { select: 'id' }
+      );
+    }
+
+    if (inviteInsert.duplicate) {
+      throw new Error('User ini sudah memiliki undangan aktif untuk radar tersebut.');
+    }
+
+    if (inviteInsert.error) {
+      if (isPermissionError(inviteInsert.error.message)) {
+        throw new Error('Tidak punya izin mengirim undangan pada radar ini.');
+      }
+      throw new Error(inviteInsert.error.message);
+    }
+
+    const inviteId = inviteInsert.data?.id?.toString();
+
+    const startsAtText = radar.startsAt
+      ? formatRadarDateTimeLabel(radar.startsAt)
+      : 'jadwal akan diumumkan';
+    const message = `${inviterName || 'Seseorang'} mengundang Anda ke radar: ${radar.title} (${startsAtText})`;
+
+    const notificationPayload: Record<string, unknown> = {
+      user_id: inviteeId,
+      type: 'radar_invite',
+      title: 'Undangan Radar Misa',
+      message,
+      sender_id: inviterId,
+      actor_id: inviterId,
+      data: {
+        invite_id: inviteId,
+        radar_id: radar.id,
+        radar_source: radar.source,
+        source: 'RADAR_GROUP',
+        title: radar.title,
+        starts_at: radar.startsAt,
+        church_name: radar.churchName,
+        diocese_name: radar.dioceseName,
+        country_name: radar.countryName,
+        diocese_id: radar.dioceseId,
+        country_id: radar.countryId,
+        note: radar.title,
+      },
+    };
+
+    const notificationResult = await insertWithColumnFallback('notifications', notificationPayload);
+    if (notificationResult.error && !isMissingColumnError(notificationResult.error.message)) {
+      throw new Error(notificationResult.error.message);
+    }
+  }
+
+  /** Creates a two-seat private radar and invites the target. Returns the radar id, or an empty string when the v2 RPC created an invite without a radar. */
+  static async createPersonalInvite(params: {
+    creatorId: string;
+    creatorName?: string;
+    targetId: string;
+    churchId: string;
+    churchName?: string;
+    startsAtIso: string;
+    message?: string;
+  }) {
+    const {
+      creatorId,
+      creatorName,
+      targetId,
+      churchId,
+      churchName,
+      startsAtIso,
+      message,
+    } = params;
+
+    if (!creatorId || !targetId) {
+      throw new Error('User tidak valid untuk ajak misa personal.');
+    }
+    if (creatorId === targetId) {
+      throw new Error('Tidak bisa mengajak misa ke akun sendiri.');
+    }
+
+    const title = 'Misa Bersama';
+    const cleanMessage = message?.trim() || 'Mengajak Anda Misa bersama';
+    const radarTimeText = formatRadarDateTimeLabel(startsAtIso) || startsAtIso;
+    const startsAtDate = startsAtIso.slice(0, 10);
+
+    const churchHierarchy = await RadarService.getChurchHierarchyIds(churchId);
+    if (churchHierarchy.countryId && churchHierarchy.dioceseId) {
+      const rpcInvite = await supabase.rpc('radar_v2_send_invite', {
+        p_source: 'PERSONAL',
+        p_invitee_id: targetId,
+        p_country_id: churchHierarchy.countryId,
+        p_diocese_id: churchHierarchy.dioceseId,
+        p_church_id: churchId,
+        p_event_starts_at_utc: startsAtIso,
+        p_note: cleanMessage,
+        p_expires_at: startsAtIso,
+      });
+
+      if (!rpcInvite.error) {
+        const rpcRaw = Array.isArray(rpcInvite.data) ? rpcInvite.data[0] : rpcInvite.data;
+        const rpcRow = (rpcRaw as Record<string, unknown> | null) ?? null;
+        const radarIdFromRpc = extractFirstStringField(rpcRow, [
+          'radar_id',
+          'event_id',
+          'radar_event_id',
+          'created_radar_id',
+        ]);
+        if (radarIdFromRpc) {
+          return radarIdFromRpc;
+        }
+
+        const inviteIdFromRpc = extractFirstStringField(rpcRow, [
+          'invite_id',
+          'radar_invite_id',
+        ]);
+        if (inviteIdFromRpc) {
+          // V2 PERSONAL invite can be valid without radar_id (mobile parity).
+          return '';
+        }
+
+        const v2InviteLookup = await supabase
+          .from('radar_invites_v2')
+          .select('id, radar_id')
+          .eq('inviter_id', creatorId)
+          .eq('invitee_id', targetId)
+          .eq('source', 'PERSONAL')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (!v2InviteLookup.error && v2InviteLookup.data?.id) {
+          const radarId = v2InviteLookup.data.radar_id?.toString();
+          return radarId || '';
+        }
+
+        const legacyInviteLookup = await supabase
+          .from('radar_invites')
+          .select('id, radar_id')
+          .eq('inviter_id', creatorId)
+          .eq('invitee_id', targetId)
+          .eq('source', 'PERSONAL')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (!legacyInviteLookup.error && legacyInviteLookup.data?.id) {
+          const radarId = legacyInviteLookup.data.radar_id?.toString();
+          return radarId || '';
+        }
+
+        console.warn('radar_v2_send_invite succeeded but invite row was not found; fallback to legacy invite flow.');
+      } else if (
+        !isFunctionMissingError(rpcInvite.error.message) &&
+        !isPermissionError(rpcInvite.error.message) &&
+        !isNotAuthenticatedError(rpcInvite.error.message)
+      ) {
+        throw new Error(rpcInvite.error.message);
+      }
+    }
+
+    const finalizePersonalInvite = async (input: { radarId: string; radarSource: RadarSource }) => {
+      const participantTables =
+        input.radarSource === 'v2'
+          ? (['radar_participants_v2', 'radar_participants'] as const)
+          : (['radar_participants', 'radar_participants_v2'] as const);
+
+      let participantInserted = false;
+      let participantErrorMessage = '';
+      for (const table of participantTables) {
+        const participantInsert = await insertWithColumnFallback(table, {
+          radar_id: input.radarId,
+          user_id: creatorId,
+          role: 'HOST',
+          status: 'JOINED',
+        });
+        if (!participantInsert.error) {
+          participantInserted = true;
+          break;
+        }
+        participantErrorMessage = participantInsert.error.message;
+        if (!isMissingColumnError(participantInsert.error.message)) {
+          break;
+        }
+      }
+
+      if (!participantInserted && participantErrorMessage) {
+        throw new Error(participantErrorMessage);
+      }
+
+      let inviteInsert = await insertWithColumnFallback(
+        'radar_invites',
+        {
+          inviter_id: creatorId,
+          invitee_id: targetId,
+          radar_id: input.radarId,
+          source: 'PERSONAL',
+          status: 'PENDING',
+          note: cleanMessage,
+          title: 'Ajak Misa Personal',
+          message: cleanMessage,
+          church_id: churchId,
+          church_name: churchName || 'Gereja',
+          country_id: churchHierarchy.countryId,
+          diocese_id: churchHierarchy.dioceseId,
+          event_time: startsAtIso,
+          event_starts_at_utc: startsAtIso,
+          mass_date: startsAtDate,
+          mass_time: startsAtIso,
+          expires_at: startsAtIso,
+        },
+        { select: 'id' }
+      );
+
+      if (inviteInsert.error && isForeignKeyError(inviteInsert.error.message)) {
+        inviteInsert = await insertWithColumnFallback(
+          'radar_invites',
+          {
+            inviter_id: creatorId,
+            invitee_id: targetId,
+            source: 'PERSONAL',
+            status: 'PENDING',
+            note: cleanMessage,
+            title: 'Ajak Misa Personal',
+            message: cleanMessage,
+            church_id: churchId,
+            church_name: churchName || 'Gereja',
+            country_id: churchHierarchy.countryId,
+            diocese_id: churchHierarchy.dioceseId,
+            event_time: startsAtIso,
+            event_starts_at_utc: startsAtIso,
+            mass_date: startsAtDate,
+            mass_time: startsAtIso,
+            expires_at: startsAtIso,
+          },
+          { select: 'id' }
+        );
+      }
+
+      if (inviteInsert.duplicate) {
+        throw new Error('Undangan personal untuk user ini sudah aktif.');
+      }
+      if (inviteInsert.error) {
+        throw new Error(inviteInsert.error.message);
+      }
+
+      const inviteId = inviteInsert.data?.id?.toString();
+      const notifyMessage = `${creatorName || 'Seseorang'} mengajak Anda Misa di ${churchName || 'Gereja'} (${radarTimeText})`;
+      const notificationResult = await insertWithColumnFallback('notifications', {
+        user_id: targetId,
+        type: 'radar_invite',
+        title: 'Ajak Misa Personal',
+        message: notifyMessage,
+        sender_id: creatorId,
+        actor_id: creatorId,
+        data: {
+          invite_id: inviteId,
+          radar_id: input.radarId,
+          radar_source: input.radarSource,
+          source: 'PERSONAL',
+          title,
+          starts_at: startsAtIso,
+          church_id: churchId,
+          country_id: churchHierarchy.countryId,
+          diocese_id: churchHierarchy.dioceseId,
+          church_name: churchName,
+          note: cleanMessage,
+        },
+      });
+      if (notificationResult.error && !isMissingColumnError(notificationResult.error.message)) {
+        throw new Error(notificationResult.error.message);
+      }
+
+      return input.radarId;
+    };
+
+    const legacyPayload: Record<string, unknown> = {
+      title,
+      description: cleanMessage,
+      church_id: churchId,
+      church_name: churchName || 'Gereja',
+      event_time: startsAtIso,
+      creator_id: creatorId,
+      visibility: 'PRIVATE',
+      status: 'PUBLISHED',
+      max_participants: 2,
+      allow_member_invite: false,
+      require_host_approval: false,
+    };
+
+    const legacyCreated = await insertWithColumnFallback('radar_events', legacyPayload, { select: 'id' });
+    if (!legacyCreated.error && legacyCreated.data?.id) {
+      return finalizePersonalInvite({
+        radarId: legacyCreated.data.id.toString(),
+        radarSource: 'legacy',
+      });
+    }
+
+    const v2Payload: Record<string, unknown> = {
+      title,
+      description: cleanMessage,
+      church_id: churchId,
+      event_starts_at_utc: startsAtIso,
+      creator_id: creatorId,
+      visibility: 'PRIVATE',
+      status: 'PUBLISHED',
+      max_participants: 2,
+      allow_member_invite: false,
+      require_host_approval: false,
+    };
+    const v2Created = await insertWithColumnFallback('radar_events_v2', v2Payload, { select: 'id' });
+    if (!v2Created.error && v2Created.data?.id) {
+      return finalizePersonalInvite({
+        radarId: v2Created.data.id.toString(),
+        radarSource: 'v2',
+      });
+    }
+
+    throw new Error(
+      legacyCreated.error?.message ||
+      v2Created.error?.message ||
+      'Gagal membuat ajak misa personal.'
+    );
+  }
+
+  static async respondToInvite(params: {
+    userId: string;
+    userName?: string;
+    invite: RadarInviteItem;
+    accept: boolean;
+  }) {
+    const { userId, userName, invite, accept } = params;
+    const nextStatus = accept ? 'ACCEPTED' : 'DECLINED';
+    let joinWarning: string | null = null;
+    let joinStatus: Exclude<RadarMembershipState, 'NONE'> | null = null;
+
+    if (invite.inviteId) {
+      let updatedViaRpc = false;
+
+      const useV2Respond =
+        invite.radarSource === 'v2' ||
+        invite.inviteSource?.trim().toUpperCase() === 'PERSONAL';
+
+      if (useV2Respond) {
+        const rpcV2 = await supabase.rpc('radar_v2_respond_invite', {
+          p_invite_id: invite.inviteId,
+          p_accept: accept,
+        });
+        updatedViaRpc = !rpcV2.error;
+        if (
+          rpcV2.error &&
+          !isFunctionMissingError(rpcV2.error.message) &&
+          !isPermissionError(rpcV2.error.message) &&
+          !isNotAuthenticatedError(rpcV2.error.message)
+        ) {
+          throw new Error(rpcV2.error.message);
+        }
+      }
+
+      if (!updatedViaRpc) {
+        const rpcLegacy = await supabase.rpc('respond_radar_invite', {
+          p_invite_id: invite.inviteId,
+          p_accept: accept,
+        });
+
+        updatedViaRpc = !rpcLegacy.error;
+
+        if (
+          rpcLegacy.error &&
+          !isFunctionMissingError(rpcLegacy.error.message) &&
+          !isPermissionError(rpcLegacy.error.message) &&
+          !isNotAuthenticatedError(rpcLegacy.error.message)
+        ) {
+          throw new Error(rpcLegacy.error.message);
+        }
+      }
+
+      if (!updatedViaRpc) {
+        const updateResult = await supabase
+          .from('radar_invites')
+          .update({
+            status: nextStatus,
+            responded_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', invite.inviteId)
+          .eq('invitee_id', userId);
+
+        if (
+          updateResult.error &&
+          !isPermissionError(updateResult.error.message) &&
+          !isMissingColumnError(updateResult.error.message)
+        ) {
+          throw new Error(updateResult.error.message);
+        }
+
+        updatedViaRpc = !updateResult.error;
+      }
+
+      if (!updatedViaRpc && !invite.notificationId) {
+        throw new Error('Undangan tidak dapat diperbarui.');
+      }
+    }
+
+    if (invite.notificationId) {
+      await markNotificationRead(invite.notificationId);
+    }
+
+    if (accept && invite.radarId && invite.radarSource) {
+      try {
+        joinStatus = await RadarService.joinEvent({
+          radarId: invite.radarId,
+          userId,
+          source: invite.radarSource,
+        });
+      } catch (error) {
+        joinWarning = error instanceof Error ? error.message : 'Gagal join radar setelah menerima undangan';
+      }
+    }
+
+    if (invite.inviterId) {
+      const notifyResult = await insertWithColumnFallback('notifications', {
+        user_id: invite.inviterId,
+        type: accept ? 'radar_invite_accepted' : 'radar_invite_declined',
+        title: accept ? 'Undangan Radar Diterima' : 'Undangan Radar Ditolak',
+        message: accept
+          ? `${userName || 'Seseorang'} menerima undangan radar Anda.`
+          : `${userName || 'Seseorang'} menolak undangan radar Anda.`,
+        sender_id: userId,
+        actor_id: userId,
+        data: {
+          invite_id: invite.inviteId,
+          radar_id: invite.radarId,
+        },
+      });
+
+      if (notifyResult.error && !isMissingColumnError(notifyResult.error.message)) {
+        throw new Error(notifyResult.error.message);
+      }
+    }
+
+    return {
+      joinWarning,
+      joinStatus,
+    };
+  }
+
+  static async respondById(params: {
+    inviteId: string;
+    accept: boolean;
+    userId: string;
+  }) {
+    const { inviteId, accept, userId } = params;
+    const nextStatus = accept ? 'ACCEPTED' : 'DECLINED';
+
+    const rpcV2 = await supabase.rpc('radar_v2_respond_invite', {
+      p_invite_id: inviteId,
+      p_accept: accept,
+    });
+    if (!rpcV2.error) return;
+    if (
+      rpcV2.error &&
+      !isFunctionMissingError(rpcV2.error.message) &&
+      !isPermissionError(rpcV2.error.message) &&
+      !isNotAuthenticatedError(rpcV2.error.message)
+    ) {
+      throw new Error(rpcV2.error.message);
+    }
+
+    const rpcLegacy = await supabase.rpc('respond_radar_invite', {
+      p_invite_id: inviteId,
+      p_accept: accept,
+    });
+    if (!rpcLegacy.error) return;
+    if (
+      rpcLegacy.error &&
+      !isFunctionMissingError(rpcLegacy.error.message) &&
+      !isPermissionError(rpcLegacy.error.message) &&
+      !isNotAuthenticatedError(rpcLegacy.error.message)
+    ) {
+      throw new Error(rpcLegacy.error.message);
+    }
+
+    const updateResult = await supabase
+      .from('radar_invites')
+      .update({
+        status: nextStatus,
+        responded_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', inviteId)
+      .eq('invitee_id', userId);
+    if (
+      updateResult.error &&
+      !isMissingColumnError(updateResult.error.message) &&
+      !isPermissionError(updateResult.error.message)
+    ) {
+      throw new Error(updateResult.error.message);
+    }
+  }
+
+  static async acceptPersonalInvite(params: {
+    radarId: string;
+    userId: string;
+  }) {
+    const { radarId, userId } = params;
+    if (!radarId.trim() || !userId.trim()) return;
+
+    const withSource = await supabase
+      .from('radar_invites')
+      .select('id, status, source')
+      .eq('radar_id', radarId)
+      .eq('invitee_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let inviteRow = withSource.data as Record<string, unknown> | null;
+    let inviteError = withSource.error;
+    if (inviteError && isMissingColumnError(inviteError.message)) {
+      const fallback = await supabase
+        .from('radar_invites')
+        .select('id, status')
+        .eq('radar_id', radarId)
+        .eq('invitee_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      inviteRow = fallback.data as Record<string, unknown> | null;
+      inviteError = fallback.error;
+    }
+
+    if (inviteError) {
+      if (!isPermissionError(inviteError.message) && !isMissingRelationError(inviteError.message)) {
+        throw new Error(inviteError.message);
+      }
+      throw new Error('Anda tidak memiliki undangan aktif untuk radar private ini.');
+    }
+    if (!inviteRow?.id) {
+      throw new Error('Anda tidak memiliki undangan aktif untuk radar private ini.');
+    }
+
+    const status = normalizeMembershipStatus(inviteRow.status);
+    if (status === 'ACCEPTED' || status === 'JOINED' || status === 'APPROVED') return;
+    if (status !== 'PENDING' && status !== 'INVITED' && status !== 'REQUESTED') {
+      throw new Error('Undangan private Anda sudah tidak aktif.');
+    }
+
+    await this.respondById({
+      inviteId: inviteRow.id.toString(),
+      accept: true,
+      userId,
+    });
+  }
+
+  static async resolveChatId(params: {
+    invite: RadarInviteItem;
+    userId: string;
+  }): Promise<string | null> {
+    const { invite, userId } = params;
+    let radarId = invite.radarId?.trim() || '';
+    let source = invite.radarSource ?? null;
+
+    if (!radarId && invite.inviteId) {
+      const inviteRow = await supabase
+        .from('radar_invites')
+        .select('radar_id')
+        .eq('id', invite.inviteId)
+        .maybeSingle();
+
+      if (!inviteRow.error && inviteRow.data?.radar_id) {
+        radarId = inviteRow.data.radar_id.toString();
+      } else if (
+        inviteRow.error &&
+        !isPermissionError(inviteRow.error.message) &&
+        !isMissingColumnError(inviteRow.error.message) &&
+        !isMissingRelationError(inviteRow.error.message)
+      ) {
+        throw new Error(inviteRow.error.message);
+      }
+    }
+
+    if (!radarId) return null;
+    if (!source) {
+      source = await RadarService.resolveSource(radarId);
+    }
+    if (!source) return null;
+
+    return RadarService.ensureChatAccess({
+      radarId,
+      source,
+      userId,
+      fallbackTitle: invite.radarTitle,
+    });
+  }
+}
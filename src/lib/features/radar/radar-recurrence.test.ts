@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { describeSeriesRule, getSeriesOccurrences } from './radar-recurrence';
+
+const sundayEvening = { day_of_week: 0, mass_time: '18:00' };
+
+// Wednesday 2026-10-14 00:00 UTC.
+const FROM = new Date('2026-10-14T00:00:00.000Z');
+
+test('weekly series resolve the Mass time in the church timezone', () => {
+  const occurrences = getSeriesOccurrences(
+    { frequency: 'WEEKLY', starts_on: '2026-10-14' },
+    sundayEvening,
+    'Asia/Makassar',
+    { from: FROM, limit: 2 }
+  );
+  assert.deepEqual(
+    occurrences.map((item) => [item.date, item.startsAt.toISOString()]),
+    [
+      ['2026-10-18', '2026-10-18T10:00:00.000Z'],
+      ['2026-10-25', '2026-10-25T10:00:00.000Z'],
+    ]
+  );
+});
+
+test('biweekly series stop at the inclusive end date', () => {
+  const occurrences = getSeriesOccurrences(
+    { frequency: 'BIWEEKLY', starts_on: '2026-10-18', ends_on: '2026-11-15' },
+    sundayEvening,
+    'Asia/Jakarta',
+    { from: FROM, limit: 10 }
+  );
+  assert.deepEqual(
+    occurrences.map((item) => item.date),
+    ['2026-10-18', '2026-11-01', '2026-11-15']
+  );
+});
+
+test('monthly series keep the weekday ordinal and count from the first occurrence', () => {
+  const occurrences = getSeriesOccurrences(
+    { frequency: 'MONTHLY', starts_on: '2026-10-01', occurrence_count: 3 },
+    { day_of_week: 0, mass_time: '07:00' },
+    'Asia/Jakarta',
+    { from: new Date('2026-10-05T00:00:00.000Z'), limit: 10 }
+  );
+  // The first Sunday of October (the 4th) has passed, so only two remain.
+  assert.deepEqual(
+    occurrences.map((item) => [item.date, item.index]),
+    [
+      ['2026-11-01', 1],
+      ['2026-12-06', 2],
+    ]
+  );
+});
+
+test('open-ended series keep going past a year from their start', () => {
+  const occurrences = getSeriesOccurrences(
+    { frequency: 'WEEKLY', starts_on: '2024-10-13' },
+    sundayEvening,
+    'Asia/Jakarta',
+    { from: FROM, limit: 2 }
+  );
+  assert.deepEqual(
+    occurrences.map((item) => [item.date, item.index]),
+    [
+      ['2026-10-18', 105],
+      ['2026-10-25', 106],
+    ]
+  );
+});
+
+test('describes the rule in Indonesian', () => {
+  assert.equal(
+    describeSeriesRule({ frequency: 'BIWEEKLY', starts_on: '2026-10-18', occurrence_count: 6 }, sundayEvening),
+    'Setiap 2 minggu, Minggu 18.00 · 6 kali'
+  );
+  assert.equal(
+    describeSeriesRule({ frequency: 'MONTHLY', starts_on: '2026-11-29' }, sundayEvening),
+    'Minggu terakhir setiap bulan, 18.00'
+  );
+});
@@ -0,0 +1,159 @@
+import type { MassSchedule, RadarSeries } from '@/lib/types';
+import { RADAR_SETTINGS } from '@/lib/constants';
+import { parseMassTime, zonedTimeToUtc } from '@/lib/features/schedule/mass-occurrence';
+
+// Series dates are church-local calendar days. They are stepped as UTC
+// midnights and only become instants through `zonedTimeToUtc`.
+
+export type RadarSeriesRule = Pick<RadarSeries, 'frequency' | 'starts_on' | 'ends_on' | 'occurrence_count'>;
+
+export type RadarSeriesOccurrence = {
+  /** Church-local date, YYYY-MM-DD. Unique per series. */
+  date: string;
+  startsAt: Date;
+  /** 0-based position in the whole series, not just the returned window. */
+  index: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+const MONTHLY_ORDINALS = ['pertama', 'kedua', 'ketiga', 'keempat'];
+
+function parseDateKey(value?: string) {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+export function toDateKey(time: number) {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// `nth` of -1 is the last matching weekday of the month.
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number) {
+  if (nth === -1) {
+    const last = daysInMonth(year, month);
+    const lastWeekday = new Date(Date.UTC(year, month, last)).getUTCDay();
+    return Date.UTC(year, month, last - ((lastWeekday - weekday + 7) % 7));
+  }
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return Date.UTC(year, month, 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7);
+}
+
+// A series that starts on the 5th Sunday repeats on the last Sunday, since not every month has five.
+function getMonthlyOrdinal(firstTime: number) {
+  const nth = Math.ceil(new Date(firstTime).getUTCDate() / 7);
+  return nth > MONTHLY_ORDINALS.length ? -1 : nth;
+}
+
+// Walks the series dates in order until `visit` returns false. Open-ended series
+// have no fixed length; callers stop once their window is full.
+function forEachSeriesDate(
+  rule: RadarSeriesRule,
+  dayOfWeek: number,
+  visit: (time: number, index: number) => boolean
+) {
+  const startTime = parseDateKey(rule.starts_on);
+  if (startTime === null) return;
+
+  const endTime = parseDateKey(rule.ends_on);
+  const count =
+    rule.occurrence_count && rule.occurrence_count > 0
+      ? Math.min(rule.occurrence_count, RADAR_SETTINGS.SERIES_MAX_OCCURRENCES)
+      : Number.POSITIVE_INFINITY;
+  const firstTime = startTime + ((dayOfWeek - new Date(startTime).getUTCDay() + 7) % 7) * DAY_MS;
+  const nth = getMonthlyOrdinal(firstTime);
+  const first = new Date(firstTime);
+
+  for (let index = 0; index < count; index += 1) {
+    let time: number;
+    if (rule.frequency === 'MONTHLY') {
+      const month = first.getUTCMonth() + index;
+      time = nthWeekdayOfMonth(first.getUTCFullYear() + Math.floor(month / 12), month % 12, dayOfWeek, nth);
+    } else {
+      time = firstTime + index * (rule.frequency === 'BIWEEKLY' ? 14 : 7) * DAY_MS;
+    }
+    if (endTime !== null && time > endTime) return;
+    if (!visit(time, index)) return;
+  }
+}
+
+/**
+ * Occurrences of a series that start at or after `from`, resolved from the
+ * linked Mass schedule in the church timezone. The end date is inclusive and
+ * `occurrence_count` counts from the first occurrence of the series. Series
+ * without either run indefinitely; only the returned window is capped.
+ */
+export function getSeriesOccurrences(
+  rule: RadarSeriesRule,
+  schedule: Pick<MassSchedule, 'day_of_week' | 'mass_time'>,
+  timeZone: string,
+  options?: { from?: Date; limit?: number }
+): RadarSeriesOccurrence[] {
+  const from = options?.from ?? new Date();
+  const limit = options?.limit ?? RADAR_SETTINGS.SERIES_MATERIALIZE_AHEAD;
+  const { hour, minute } = parseMassTime(schedule.mass_time);
+  const occurrences: RadarSeriesOccurrence[] = [];
+  if (limit <= 0) return occurrences;
+
+  forEachSeriesDate(rule, schedule.day_of_week, (time, index) => {
+    const date = new Date(time);
+    const startsAt = zonedTimeToUtc(
+      {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour,
+        minute,
+      },
+      timeZone
+    );
+    if (startsAt.getTime() >= from.getTime()) {
+      occurrences.push({ date: toDateKey(time), startsAt, index });
+    }
+    return occurrences.length < limit;
+  });
+
+  return occurrences;
+}
+
+/** e.g. "Setiap 2 minggu, Minggu 18.00 · 6 kali". */
+export function describeSeriesRule(
+  rule: RadarSeriesRule,
+  schedule: Pick<MassSchedule, 'day_of_week' | 'mass_time'>
+) {
+  const dayName = DAY_NAMES[schedule.day_of_week] ?? DAY_NAMES[0];
+  const time = schedule.mass_time.replace(':', '.');
+  let label: string;
+  if (rule.frequency === 'MONTHLY') {
+    const startTime = parseDateKey(rule.starts_on);
+    const nth =
+      startTime === null
+        ? 1
+        : getMonthlyOrdinal(startTime + ((schedule.day_of_week - new Date(startTime).getUTCDay() + 7) % 7) * DAY_MS);
+    label = `${dayName} ${nth === -1 ? 'terakhir' : MONTHLY_ORDINALS[nth - 1]} setiap bulan, ${time}`;
+  } else if (rule.frequency === 'BIWEEKLY') {
+    label = `Setiap 2 minggu, ${dayName} ${time}`;
+  } else {
+    label = `Setiap ${dayName} ${time}`;
+  }
+
+  if (rule.occurrence_count && rule.occurrence_count > 0) return `${label} · ${rule.occurrence_count} kali`;
+  if (rule.ends_on) {
+    const end = parseDateKey(rule.ends_on);
+    if (end !== null) {
+      const endLabel = new Intl.DateTimeFormat('id-ID', {
+        timeZone: 'UTC',
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric',
+      }).format(new Date(end));
+      return `${label} · sampai ${endLabel}`;
+    }
+  }
+  return label;
+}
@@ -0,0 +1,298 @@
+// Radar Reminder Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RadarEvent, RadarParticipant } from '@/lib/types';
+import { RADAR_REMINDER_SETTINGS } from '@/lib/constants';
+import { resolveNotificationPreferences } from '@/lib/features/notifications/notification-preferences';
+import {
+  dedupeParticipants,
+  legacyRadarAdapter,
+  mapParticipantRow,
+  mapRadarEventRow,
+  v2RadarAdapter,
+} from './radar-service';
+import { buildReminderMessage, getDueReminderOffset, getReminderKey } from './radar-reminders';
+
+export type RadarReminderRunSummary = {
+  events: number;
+  considered: number;
+  sent: number;
+  stale: number;
+  failed: number;
+};
+
+const INACTIVE_STATUSES: RadarEvent['status'][] = ['CANCELLED', 'DRAFT', 'COMPLETED'];
+
+type ReminderDelivery = {
+  userId: string;
+  radarId: string;
+  offsetMinutes: number;
+  startsAt: string;
+};
+
+function toDeliveryRow(delivery: ReminderDelivery) {
+  return {
+    user_id: delivery.userId,
+    radar_id: delivery.radarId,
+    offset_minutes: delivery.offsetMinutes,
+    starts_at: delivery.startsAt,
+  };
+}
+
+function readRows(data: unknown) {
+  return (data ?? []) as Record<string, unknown>[];
+}
+
+// Runs with the service-role client: reminders are written into other users'
+// notification feeds. Safe to run as often as the scheduler likes, since each
+// reminder is recorded in radar_reminder_deliveries, keyed on the radar's
+// current start time, before it is sent.
+export class RadarReminderService {
+  static async sendDueReminders(
+    client: SupabaseClient,
+    params: { now?: Date; dryRun?: boolean } = {}
+  ): Promise<RadarReminderRunSummary> {
+    const { now = new Date(), dryRun = false } = params;
+    const summary: RadarReminderRunSummary = { events: 0, considered: 0, sent: 0, stale: 0, failed: 0 };
+    const events = await this.getUpcomingEvents(client, now);
+    summary.events = events.length;
+
+    for (let index = 0; index < events.length; index += RADAR_REMINDER_SETTINGS.BATCH_SIZE) {
+      const batch = events.slice(index, index + RADAR_REMINDER_SETTINGS.BATCH_SIZE);
+      const radarIds = batch.map((event) => event.id);
+      const [participants, sent] = await Promise.all([
+        this.getJoinedParticipants(client, radarIds),
+        this.getSentReminders(client, radarIds),
+      ]);
+      const offsetsByUser = await this.getReminderOffsets(
+        client,
+        participants.map((participant) => participant.user_id)
+      );
+
+      // Reminders computed for an older start time are misleading once the radar moves.
+      const stale = sent.filter((row) => {
+        const event = batch.find((item) => item.id === row.radarId);
+        if (!event) return false;
+        return getReminderKey({ ...row, startsAt: event.event_starts_at_utc }) !== row.key;
+      });
+      if (stale.length > 0 && !dryRun) {
+        await this.removeStaleReminders(client, batch, stale);
+      }
+      summary.stale += stale.length;
+
+      const sentKeys = new Set(sent.map((row) => row.key));
+      const pending: Array<{ delivery: ReminderDelivery; notification: Record<string, unknown> }> = [];
+      for (const participant of participants) {
+        const event = batch.find((item) => item.id === participant.radar_id);
+        if (!event) continue;
+        summary.considered += 1;
+
+        const offsetMinutes = getDueReminderOffset(
+          event.event_starts_at_utc,
+          offsetsByUser.get(participant.user_id) ?? [...RADAR_REMINDER_SETTINGS.DEFAULT_OFFSETS_MINUTES],
+          now
+        );
+        if (offsetMinutes === null) continue;
+
+        const startsAt = new Date(event.event_starts_at_utc).toISOString();
+        const delivery = { userId: participant.user_id, radarId: event.id, offsetMinutes, startsAt };
+        const key = getReminderKey(delivery);
+        if (sentKeys.has(key)) continue;
+        sentKeys.add(key);
+
+        pending.push({
+          delivery,
+          notification: {
+            user_id: participant.user_id,
+            type: 'radar_reminder',
+            title: 'Pengingat Radar',
+            message: buildReminderMessage({
+              title: event.title,
+              churchName: event.church?.name,
+              startsAt: event.event_starts_at_utc,
+              now,
+            }),
+            data: {
+              radar_id: event.id,
+              offset_minutes: offsetMinutes,
+              starts_at: startsAt,
+            },
+          },
+        });
+      }
+
+      if (pending.length === 0) continue;
+      if (dryRun) {
+        summary.sent += pending.length;
+        continue;
+      }
+
+      // Claim the ledger rows first; a concurrent run that claimed a row already sends it.
+      const claimed = await this.claimDeliveries(client, pending.map((item) => item.delivery));
+      const rows = pending.filter((item) => claimed.has(getReminderKey(item.delivery)));
+      if (rows.length === 0) continue;
+
+      const { error } = await client.from('notifications').insert(rows.map((item) => item.notification));
+      if (error) {
+        console.error('Error inserting radar reminders:', error.message);
+        summary.failed += rows.length;
+        // Release the claims so the next run retries.
+        await this.releaseDeliveries(client, rows.map((item) => item.delivery));
+      } else {
+        summary.sent += rows.length;
+      }
+    }
+
+    return summary;
+  }
+
+  /** Active radars starting before the largest reminder offset elapses. */
+  private static async getUpcomingEvents(client: SupabaseClient, now: Date): Promise<RadarEvent[]> {
+    const horizonMinutes = Math.max(...RADAR_REMINDER_SETTINGS.OFFSET_OPTIONS_MINUTES);
+    const until = new Date(now.getTime() + horizonMinutes * 60 * 1000);
+    const events: RadarEvent[] = [];
+
+    for (const adapter of [v2RadarAdapter, legacyRadarAdapter]) {
+      const { data, error } = await client
+        .from(adapter.eventsTable)
+        .select('*')
+        .gt(adapter.startsAtColumn, now.toISOString())
+        .lte(adapter.startsAtColumn, until.toISOString());
+      if (error) {
+        console.error(`Error fetching upcoming radars from ${adapter.eventsTable}:`, error.message);
+        continue;
+      }
+
+      for (const row of readRows(data)) {
+        const event = mapRadarEventRow(row, adapter.source);
+        if (INACTIVE_STATUSES.includes(event.status)) continue;
+        if (events.some((item) => item.id === event.id)) continue;
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  private static async getJoinedParticipants(client: SupabaseClient, radarIds: string[]) {
+    const rows: RadarParticipant[] = [];
+    for (const adapter of [v2RadarAdapter, legacyRadarAdapter]) {
+      const { data, error } = await client.from(adapter.participantsTable).select('*').in('radar_id', radarIds);
+      if (error) continue;
+      rows.push(
+        ...readRows(data)
+          .map((row) => mapParticipantRow(row, adapter.source))
+          .filter((row): row is RadarParticipant => row !== null)
+      );
+    }
+    return dedupeParticipants(rows).filter((row) => row.status === 'JOINED');
+  }
+
+  private static async getSentReminders(client: SupabaseClient, radarIds: string[]) {
+    const { data, error } = await client
+      .from('radar_reminder_deliveries')
+      .select('user_id, radar_id, offset_minutes, starts_at')
+      .in('radar_id', radarIds);
+    // Sending without knowing what went out before would repeat every reminder.
+    if (error) throw new Error(error.message);
+
+    return readRows(data).flatMap((row) => {
+      const userId = row.user_id?.toString();
+      const radarId = row.radar_id?.toString();
+      const offsetMinutes = Number(row.offset_minutes);
+      const startsAt = row.starts_at?.toString();
+      if (!userId || !radarId || !Number.isFinite(offsetMinutes) || !startsAt) return [];
+      return [
+        {
+          userId,
+          radarId,
+          offsetMinutes,
+          startsAt,
+          key: getReminderKey({ userId, radarId, offsetMinutes, startsAt }),
+        },
+      ];
+    });
+  }
+
+  /** Inserts ledger rows, skipping ones that exist. Returns the keys this run claimed. */
+  private static async claimDeliveries(client: SupabaseClient, deliveries: ReminderDelivery[]) {
+    const { data, error } = await client
+      .from('radar_reminder_deliveries')
+      .upsert(deliveries.map(toDeliveryRow), {
+        onConflict: 'user_id,radar_id,offset_minutes,starts_at',
+        ignoreDuplicates: true,
+      })
+      .select('user_id, radar_id, offset_minutes, starts_at');
+    if (error) {
+      console.error('Error recording radar reminder deliveries:', error.message);
+      return new Set<string>();
+    }
+
+    return new Set(
+      readRows(data).map((row) =>
+        getReminderKey({
+          userId: row.user_id?.toString() ?? '',
+          radarId: row.radar_id?.toString() ?? '',
+          offsetMinutes: Number(row.offset_minutes),
+          startsAt: row.starts_at?.toString() ?? '',
+        })
+      )
+    );
+  }
+
+  private static async releaseDeliveries(client: SupabaseClient, deliveries: ReminderDelivery[]) {
+    for (const delivery of deliveries) {
+      const { error } = await client
+        .from('radar_reminder_deliveries')
+        .delete()
+        .match(toDeliveryRow(delivery));
+      if (error) console.warn('Failed to release radar reminder delivery:', error.message);
+    }
+  }
+
+  /** Drops ledger rows and feed reminders computed for a start time the radar no longer has. */
+  private static async removeStaleReminders(
+    client: SupabaseClient,
+    events: RadarEvent[],
+    stale: Array<ReminderDelivery & { key: string }>
+  ) {
+    for (const radarId of new Set(stale.map((row) => row.radarId))) {
+      const event = events.find((item) => item.id === radarId);
+      if (!event) continue;
+      const startsAt = new Date(event.event_starts_at_utc).toISOString();
+
+      const ledger = await client
+        .from('radar_reminder_deliveries')
+        .delete()
+        .eq('radar_id', radarId)
+        .neq('starts_at', startsAt);
+      if (ledger.error) console.warn('Failed to remove stale radar reminder deliveries:', ledger.error.message);
+
+      const feed = await client
+        .from('notifications')
+        .delete()
+        .eq('type', 'radar_reminder')
+        .eq('data->>radar_id', radarId)
+        .neq('data->>starts_at', startsAt);
+      if (feed.error) console.warn('Failed to remove stale radar reminders:', feed.error.message);
+    }
+  }
+
+  private static async getReminderOffsets(client: SupabaseClient, userIds: string[]) {
+    const ids = [...new Set(userIds.filter(Boolean))];
+    const offsets = new Map<string, number[]>();
+    if (ids.length === 0) return offsets;
+
+    const { data, error } = await client.from('profiles').select('id, notification_preferences').in('id', ids);
+    if (error) {
+      console.error('Error fetching radar reminder preferences:', error.message);
+      return offsets;
+    }
+    for (const row of readRows(data)) {
+      const id = row.id?.toString();
+      if (!id) continue;
+      offsets.set(id, resolveNotificationPreferences(row.notification_preferences).radar_reminder_offsets);
+    }
+    return offsets;
+  }
+}
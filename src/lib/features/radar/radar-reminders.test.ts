@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildReminderMessage, getDueReminderOffset, getReminderKey } from './radar-reminders';
+
+const STARTS_AT = '2026-10-25T10:00:00.000Z';
+const OFFSETS = [24 * 60, 60];
+
+test('picks the closest passed offset and nothing before or after the start', () => {
+  assert.equal(getDueReminderOffset(STARTS_AT, OFFSETS, new Date('2026-10-24T09:00:00.000Z')), null);
+  assert.equal(getDueReminderOffset(STARTS_AT, OFFSETS, new Date('2026-10-24T10:05:00.000Z')), 24 * 60);
+  assert.equal(getDueReminderOffset(STARTS_AT, OFFSETS, new Date('2026-10-25T08:00:00.000Z')), 24 * 60);
+  // Both offsets have passed: only the 1-hour reminder is due.
+  assert.equal(getDueReminderOffset(STARTS_AT, OFFSETS, new Date('2026-10-25T09:30:00.000Z')), 60);
+  assert.equal(getDueReminderOffset(STARTS_AT, OFFSETS, new Date('2026-10-25T10:00:00.000Z')), null);
+  assert.equal(getDueReminderOffset(STARTS_AT, [], new Date('2026-10-25T09:30:00.000Z')), null);
+});
+
+test('a rescheduled radar produces a new reminder key', () => {
+  const base = { userId: 'u1', radarId: 'r1', offsetMinutes: 60 };
+  assert.equal(
+    getReminderKey({ ...base, startsAt: STARTS_AT }),
+    getReminderKey({ ...base, startsAt: new Date(STARTS_AT) })
+  );
+  assert.notEqual(
+    getReminderKey({ ...base, startsAt: STARTS_AT }),
+    getReminderKey({ ...base, startsAt: '2026-10-25T11:00:00.000Z' })
+  );
+});
+
+test('the message states the time actually left', () => {
+  assert.equal(
+    buildReminderMessage({
+      title: 'Misa Minggu',
+      churchName: 'Katedral',
+      startsAt: STARTS_AT,
+      now: new Date('2026-10-24T10:05:00.000Z'),
+    }),
+    '"Misa Minggu" di Katedral dimulai 24 jam lagi.'
+  );
+  assert.equal(
+    buildReminderMessage({ title: 'Misa', startsAt: STARTS_AT, now: new Date('2026-10-25T08:00:00.000Z') }),
+    '"Misa" dimulai 2 jam lagi.'
+  );
+  assert.equal(
+    buildReminderMessage({ title: 'Misa', startsAt: STARTS_AT, now: new Date('2026-10-25T09:45:00.000Z') }),
+    '"Misa" dimulai 15 menit lagi.'
+  );
+});
@@ -0,0 +1,57 @@
+// Reminders are stateless: every job run recomputes what is due from the
+// event's current start time, so a rescheduled radar gets fresh reminders and
+// a cancelled one simply stops producing them.
+
+const MINUTE_MS = 60 * 1000;
+
+function toTime(value: Date | string) {
+  return value instanceof Date ? value.getTime() : new Date(value).getTime();
+}
+
+/**
+ * The offset whose reminder should go out now, or null. Only the closest
+ * passed offset counts, so someone who joins 50 minutes before the start
+ * gets one reminder instead of every offset at once.
+ */
+export function getDueReminderOffset(startsAt: Date | string, offsetsMinutes: number[], now: Date) {
+  const start = toTime(startsAt);
+  if (Number.isNaN(start) || start <= now.getTime()) return null;
+
+  let due: number | null = null;
+  for (const offset of offsetsMinutes) {
+    if (offset <= 0 || start - offset * MINUTE_MS > now.getTime()) continue;
+    if (due === null || offset < due) due = offset;
+  }
+  return due;
+}
+
+/** One reminder per user, radar, offset and start time. */
+export function getReminderKey(params: {
+  userId: string;
+  radarId: string;
+  offsetMinutes: number;
+  startsAt: Date | string;
+}) {
+  const start = toTime(params.startsAt);
+  const startKey = Number.isNaN(start) ? String(params.startsAt) : new Date(start).toISOString();
+  return `${params.userId}:${params.radarId}:${params.offsetMinutes}:${startKey}`;
+}
+
+/** e.g. 1440 → "24 jam", 15 → "15 menit". */
+export function formatReminderLead(minutes: number) {
+  if (minutes >= 60) return `${Math.round(minutes / 60)} jam`;
+  return `${Math.max(1, Math.round(minutes))} menit`;
+}
+
+// Uses the time actually left, since a job that runs late or a late joiner
+// would otherwise be told "24 jam lagi" a few hours before the start.
+export function buildReminderMessage(params: {
+  title: string;
+  churchName?: string;
+  startsAt: Date | string;
+  now: Date;
+}) {
+  const place = params.churchName ? ` di ${params.churchName}` : '';
+  const minutesLeft = (toTime(params.startsAt) - params.now.getTime()) / MINUTE_MS;
+  return `"${params.title}"${place} dimulai ${formatReminderLead(minutesLeft)} lagi.`;
+}
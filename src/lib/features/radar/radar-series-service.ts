@@ -0,0 +1,485 @@
+// Radar Series Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import { RADAR_SETTINGS } from '@/lib/constants';
+import { resolveTimeZone } from '@/lib/features/schedule/mass-occurrence';
+import { ScheduleService, mapMassScheduleRow } from '@/lib/features/schedule/schedule-service';
+import type {
+  MassSchedule,
+  RadarEvent,
+  RadarSeries,
+  RadarSeriesDetail,
+  RadarSeriesFrequency,
+  RadarSource,
+} from '@/lib/types';
+import { createRandomUUID } from '@/lib/utils';
+import { getSeriesOccurrences } from './radar-recurrence';
+import {
+  RadarService,
+  getRadarAdapter,
+  insertWithColumnFallback,
+  isDuplicateError,
+  legacyRadarAdapter,
+  mapRadarEventRow,
+  updateWithColumnFallback,
+  v2RadarAdapter,
+  type CreateRadarEventInput,
+} from './radar-service';
+import { isRadarFull } from './radar-waitlist';
+
+const SERIES_UNAVAILABLE_MESSAGE = 'Fitur radar berulang belum tersedia. Hubungi admin untuk mengaktifkannya.';
+
+export type CreateRadarSeriesInput = Omit<
+  CreateRadarEventInput,
+  'startsAtIso' | 'massScheduleId' | 'seriesId' | 'seriesOccurrenceDate'
+> & {
+  massScheduleId: string;
+  frequency: RadarSeriesFrequency;
+  startsOn: string;
+  endsOn?: string;
+  occurrenceCount?: number;
+};
+
+export type RadarSeriesRunSummary = {
+  series: number;
+  created: number;
+  failed: number;
+};
+
+export type UpdateRadarSeriesInput = {
+  title?: string;
+  description?: string;
+  maxParticipants?: number;
+  allowMemberInvite?: boolean;
+  requireHostApproval?: boolean;
+};
+
+function isMissingSchemaObjectError(message: string) {
+  const normalized = message.toLowerCase();
+  return (
+    normalized.includes('does not exist') ||
+    normalized.includes('schema cache') ||
+    normalized.includes('could not find') ||
+    normalized.includes('42p01')
+  );
+}
+
+function normalizeFrequency(value: unknown): RadarSeriesFrequency {
+  const frequency = value?.toString().trim().toUpperCase();
+  return frequency === 'BIWEEKLY' || frequency === 'MONTHLY' ? frequency : 'WEEKLY';
+}
+
+function mapSeriesRow(row: Record<string, unknown>): RadarSeries {
+  const createdAt = row.created_at?.toString() ?? new Date().toISOString();
+  return {
+    id: row.id?.toString() ?? createRandomUUID(),
+    creator_id: row.creator_id?.toString() ?? '',
+    church_id: row.church_id?.toString() ?? '',
+    church_name: row.church_name?.toString() || undefined,
+    mass_schedule_id: row.mass_schedule_id?.toString() ?? '',
+    title: row.title?.toString() ?? 'Radar Misa',
+    description: row.description?.toString() ?? '',
+    frequency: normalizeFrequency(row.frequency),
+    starts_on: row.starts_on?.toString().slice(0, 10) ?? '',
+    ends_on: row.ends_on?.toString().slice(0, 10) || undefined,
+    occurrence_count: Number(row.occurrence_count ?? 0) || undefined,
+    timezone: resolveTimeZone(row.timezone?.toString()),
+    max_participants: Number(row.max_participants ?? 0) || 0,
+    allow_member_invite: row.allow_member_invite !== false,
+    require_host_approval: row.require_host_approval === true,
+    status: row.status?.toString().toUpperCase() === 'ENDED' ? 'ENDED' : 'ACTIVE',
+    created_at: createdAt,
+    updated_at: row.updated_at?.toString() ?? createdAt,
+  };
+}
+
+function isUpcoming(event: RadarEvent, now = Date.now()) {
+  return event.status !== 'CANCELLED' && new Date(event.event_starts_at_utc).getTime() >= now;
+}
+
+export class RadarSeriesService {
+  /**
+   * Creates the series and materialises its first occurrences as the host.
+   * Later ones come from the scheduled job. Returns the first radar id.
+   */
+  static async createSeries(input: CreateRadarSeriesInput): Promise<{ series: RadarSeries; firstRadarId?: string }> {
+    const church = await ScheduleService.getChurchById(input.churchId);
+    const { data, error } = await supabase
+      .from('radar_series')
+      .insert({
+        creator_id: input.userId,
+        church_id: input.churchId,
+        church_name: input.churchName ?? church?.name ?? null,
+        mass_schedule_id: input.massScheduleId,
+        title: input.title,
+        description: input.description,
+        frequency: input.frequency,
+        starts_on: input.startsOn,
+        ends_on: input.endsOn ?? null,
+        occurrence_count: input.occurrenceCount ?? null,
+        timezone: resolveTimeZone(church?.timezone),
+        max_participants: input.maxParticipants ?? RADAR_SETTINGS.DEFAULT_MAX_PARTICIPANTS,
+        allow_member_invite: input.allowMemberInvite ?? true,
+        require_host_approval: input.requireHostApproval ?? false,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(isMissingSchemaObjectError(error.message) ? SERIES_UNAVAILABLE_MESSAGE : error.message);
+    }
+
+    const series = mapSeriesRow(data as Record<string, unknown>);
+    const created = await this.materializeOccurrences(supabase, series.id);
+    return { series, firstRadarId: created[0]?.id };
+  }
+
+  static async getSeries(seriesId: string, client: SupabaseClient = supabase): Promise<RadarSeries | null> {
+    const { data, error } = await client.from('radar_series').select('*').eq('id', seriesId).maybeSingle();
+
+    if (error) {
+      if (!isMissingSchemaObjectError(error.message)) {
+        console.error('Error fetching radar series:', error);
+      }
+      return null;
+    }
+
+    return data ? mapSeriesRow(data as Record<string, unknown>) : null;
+  }
+
+  static async getSeriesDetail(seriesId: string): Promise<RadarSeriesDetail | null> {
+    const series = await this.getSeries(seriesId);
+    if (!series) return null;
+
+    const [schedule, occurrences] = await Promise.all([
+      this.getSchedule(series),
+      this.getOccurrences(series.id).catch(() => [] as RadarEvent[]),
+    ]);
+    return { series, schedule, occurrences };
+  }
+
+  /**
+   * Tops the series up to the next few occurrences. Dates that already have a
+   * radar, cancelled ones included, are never recreated. Members who opted in
+   * to "ikut semua" are carried over to every new occurrence.
+   */
+  static async materializeOccurrences(
+    client: SupabaseClient,
+    seriesId: string
+  ): Promise<Array<{ id: string; source: RadarSource }>> {
+    const series = await this.getSeries(seriesId, client);
+    if (!series || series.status !== 'ACTIVE') return [];
+
+    const schedule = await this.getSchedule(series, client);
+    if (!schedule) {
+      throw new Error('Jadwal misa untuk radar berulang tidak ditemukan.');
+    }
+
+    const existing = await this.getOccurrences(series.id, client);
+    const existingDates = new Set(existing.map((event) => event.series_occurrence_date));
+    const pending = getSeriesOccurrences(series, schedule, series.timezone).filter(
+      (occurrence) => !existingDates.has(occurrence.date)
+    );
+    if (pending.length === 0) return [];
+
+    const followers = await this.getFollowers(series.id, client);
+    const created: Array<{ id: string; source: RadarSource }> = [];
+    for (const occurrence of pending) {
+      let createdEvent: { id: string; source: RadarSource };
+      try {
+        createdEvent = await RadarService.createEvent(
+          {
+            userId: series.creator_id,
+            churchId: series.church_id,
+            churchName: series.church_name,
+            title: series.title,
+            description: series.description,
+            startsAtIso: occurrence.startsAt.toISOString(),
+            maxParticipants: series.max_participants,
+            allowMemberInvite: series.allow_member_invite,
+            requireHostApproval: series.require_host_approval,
+            massScheduleId: series.mass_schedule_id,
+            seriesId: series.id,
+            seriesOccurrenceDate: occurrence.date,
+          },
+          client
+        );
+      } catch (createError) {
+        // Another run materialised this date first; the unique index refused the copy.
+        if (isDuplicateError(createError)) continue;
+        throw createError;
+      }
+
+      const { id, source } = createdEvent;
+      await this.carryOverFollowers(client, { series, radarId: id, source, followers });
+      created.push({ id, source });
+    }
+
+    return created;
+  }
+
+  /**
+   * Run by the scheduled job with the service-role client, so series keep
+   * their next occurrences whether or not the host opens the app.
+   */
+  static async materializeActiveSeries(client: SupabaseClient): Promise<RadarSeriesRunSummary> {
+    const summary: RadarSeriesRunSummary = { series: 0, created: 0, failed: 0 };
+    const { data, error } = await client.from('radar_series').select('id').eq('status', 'ACTIVE');
+    if (error) throw new Error(error.message);
+
+    for (const row of (data ?? []) as Record<string, unknown>[]) {
+      const seriesId = row.id?.toString();
+      if (!seriesId) continue;
+      summary.series += 1;
+      try {
+        summary.created += (await this.materializeOccurrences(client, seriesId)).length;
+      } catch (seriesError) {
+        console.error(`Error materialising radar series ${seriesId}:`, seriesError);
+        summary.failed += 1;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Applies the edit to the series and to every upcoming occurrence. Past and
+   * cancelled occurrences keep their details.
+   */
+  static async updateSeries(seriesId: string, actorId: string, input: UpdateRadarSeriesInput) {
+    const series = await this.getSeries(seriesId);
+    if (!series || series.creator_id !== actorId) {
+      throw new Error('Hanya host yang boleh mengubah radar berulang.');
+    }
+
+    const seriesPatch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    const eventPatch: Record<string, unknown> = {};
+    if (input.title !== undefined) {
+      seriesPatch.title = input.title;
+      eventPatch.title = input.title;
+    }
+    if (input.description !== undefined) {
+      seriesPatch.description = input.description;
+      eventPatch.description = input.description;
+    }
+    if (input.maxParticipants !== undefined) {
+      seriesPatch.max_participants = input.maxParticipants;
+      eventPatch.max_participants = input.maxParticipants;
+    }
+    if (input.allowMemberInvite !== undefined) {
+      seriesPatch.allow_member_invite = input.allowMemberInvite;
+      eventPatch.allow_member_invite = input.allowMemberInvite;
+    }
+    if (input.requireHostApproval !== undefined) {
+      seriesPatch.require_host_approval = input.requireHostApproval;
+      eventPatch.require_host_approval = input.requireHostApproval;
+    }
+
+    const { error } = await supabase.from('radar_series').update(seriesPatch).eq('id', seriesId);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (Object.keys(eventPatch).length === 0) return;
+
+    const upcoming = (await this.getOccurrences(seriesId)).filter((event) => isUpcoming(event));
+    for (const event of upcoming) {
+      const adapter = getRadarAdapter(event.source ?? 'legacy');
+      const payload =
+        adapter.source === 'v2' && input.requireHostApproval !== undefined
+          ? { ...eventPatch, join_mode: input.requireHostApproval ? 'APPROVAL' : 'OPEN' }
+          : eventPatch;
+      const updated = await updateWithColumnFallback(adapter.eventsTable, payload, { id: event.id });
+      if (updated.error) {
+        throw new Error(updated.error.message || 'Gagal memperbarui pertemuan radar.');
+      }
+    }
+  }
+
+  /** Cancels one occurrence. The rest of the series is untouched and the date is not recreated. */
+  static async cancelOccurrence(params: { radarId: string; source: RadarSource; actorId: string }) {
+    const { radarId, source, actorId } = params;
+    const event = await RadarService.getEventById(radarId);
+    if (!event?.series_id || event.creator_id !== actorId) {
+      throw new Error('Hanya host yang boleh membatalkan pertemuan ini.');
+    }
+
+    const nowIso = new Date().toISOString();
+    const updated = await updateWithColumnFallback(
+      getRadarAdapter(source).eventsTable,
+      { status: 'CANCELLED', updated_at: nowIso },
+      { id: radarId }
+    );
+    if (updated.error) {
+      throw new Error(updated.error.message || 'Gagal membatalkan pertemuan.');
+    }
+  }
+
+  static async isFollowingAll(seriesId: string, userId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('radar_series_members')
+      .select('series_id')
+      .eq('series_id', seriesId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      if (!isMissingSchemaObjectError(error.message)) {
+        console.error('Error fetching radar series membership:', error);
+      }
+      return false;
+    }
+    return Boolean(data);
+  }
+
+  /**
+   * "Ikut semua": opting in also joins the occurrences that already exist, so
+   * the member does not have to tap every upcoming week.
+   */
+  static async setFollowAll(params: { seriesId: string; userId: string; enabled: boolean }) {
+    const { seriesId, userId, enabled } = params;
+
+    if (!enabled) {
+      const { error } = await supabase
+        .from('radar_series_members')
+        .delete()
+        .eq('series_id', seriesId)
+        .eq('user_id', userId);
+      if (error) {
+        throw new Error(isMissingSchemaObjectError(error.message) ? SERIES_UNAVAILABLE_MESSAGE : error.message);
+      }
+      return;
+    }
+
+    const { error } = await supabase
+      .from('radar_series_members')
+      .upsert({ series_id: seriesId, user_id: userId }, { onConflict: 'series_id,user_id' });
+    if (error) {
+      throw new Error(isMissingSchemaObjectError(error.message) ? SERIES_UNAVAILABLE_MESSAGE : error.message);
+    }
+
+    const upcoming = (await this.getOccurrences(seriesId)).filter((event) => isUpcoming(event));
+    const membership = await RadarService.getMembershipMap(
+      userId,
+      upcoming.map((event) => event.id)
+    );
+    for (const event of upcoming) {
+      if (membership[event.id]) continue;
+      try {
+        await RadarService.joinEvent({ radarId: event.id, userId, source: event.source ?? 'legacy' });
+      } catch (joinError) {
+        console.warn('Failed to join radar series occurrence:', joinError);
+      }
+    }
+  }
+
+  private static async getSchedule(series: RadarSeries, client: SupabaseClient = supabase): Promise<MassSchedule | null> {
+    const { data, error } = await client
+      .from('mass_schedules')
+      .select('*')
+      .eq('id', series.mass_schedule_id)
+      .maybeSingle();
+    if (error) {
+      console.error('Error fetching radar series schedule:', error.message);
+      return null;
+    }
+    return data ? mapMassScheduleRow(data as Record<string, unknown>) : null;
+  }
+
+  /** Every radar of the series across both schemas, earliest first. */
+  private static async getOccurrences(seriesId: string, client: SupabaseClient = supabase): Promise<RadarEvent[]> {
+    const events: RadarEvent[] = [];
+    for (const adapter of [legacyRadarAdapter, v2RadarAdapter]) {
+      const { data, error } = await client.from(adapter.eventsTable).select('*').eq('series_id', seriesId);
+      if (error) {
+        // Without `series_id` occurrences cannot be told apart, so materialising would duplicate them.
+        if (adapter.source === 'legacy' || !isMissingSchemaObjectError(error.message)) {
+          throw new Error(isMissingSchemaObjectError(error.message) ? SERIES_UNAVAILABLE_MESSAGE : error.message);
+        }
+        continue;
+      }
+      for (const row of (data ?? []) as Record<string, unknown>[]) {
+        events.push(mapRadarEventRow(row, adapter.source));
+      }
+    }
+
+    return events.sort(
+      (a, b) => new Date(a.event_starts_at_utc).getTime() - new Date(b.event_starts_at_utc).getTime()
+    );
+  }
+
+  private static async getFollowers(seriesId: string, client: SupabaseClient = supabase) {
+    const { data, error } = await client
+      .from('radar_series_members')
+      .select('user_id, created_at')
+      .eq('series_id', seriesId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      if (!isMissingSchemaObjectError(error.message)) {
+        console.error('Error fetching radar series members:', error);
+      }
+      return [];
+    }
+
+    return ((data ?? []) as Record<string, unknown>[]).flatMap((row) => {
+      const userId = row.user_id?.toString();
+      return userId ? [{ userId, since: row.created_at?.toString() }] : [];
+    });
+  }
+
+  /**
+   * Adds opted-in members to a new occurrence in opt-in order. Once the quota
+   * is reached the rest go to the waitlist; approval radars leave them pending.
+   */
+  private static async carryOverFollowers(
+    client: SupabaseClient,
+    params: {
+      series: RadarSeries;
+      radarId: string;
+      source: RadarSource;
+      followers: Array<{ userId: string; since?: string }>;
+    }
+  ) {
+    const { series, radarId, source, followers } = params;
+    const adapter = getRadarAdapter(source);
+    const chatId = await adapter.resolveChatId(radarId, client);
+    let joinedCount = 1; // The host joins every occurrence on creation.
+
+    for (const follower of followers) {
+      if (follower.userId === series.creator_id) continue;
+
+      const isFull = isRadarFull(joinedCount, series.max_participants);
+      const status = series.require_host_approval ? 'PENDING' : isFull ? 'WAITLISTED' : 'JOINED';
+      const result = await insertWithColumnFallback(
+        adapter.participantsTable,
+        {
+          radar_id: radarId,
+          user_id: follower.userId,
+          role: 'MEMBER',
+          status,
+          ...(status === 'WAITLISTED' ? { waitlisted_at: follower.since ?? new Date().toISOString() } : {}),
+        },
+        { client }
+      );
+      if (result.error) {
+        console.warn('Failed to carry over radar series member:', result.error.message);
+        continue;
+      }
+      if (status !== 'JOINED') continue;
+      joinedCount += 1;
+      if (!chatId) continue;
+      try {
+        await adapter.addChatMember({
+          chatId,
+          userId: follower.userId,
+          joinedAt: new Date().toISOString(),
+          client,
+        });
+      } catch (chatError) {
+        console.warn('Failed to add radar series member to chat:', chatError);
+      }
+    }
+  }
+}
@@ -0,0 +1,1712 @@
+// Radar Service
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import { RADAR_SETTINGS } from '@/lib/constants';
+import type {
+  RadarEvent,
+  RadarMembershipState,
+  RadarParticipant,
+  RadarSource,
+} from '@/lib/types';
+import { createRandomUUID } from '@/lib/utils';
+import { getWaitlistQueue, isRadarFull } from './radar-waitlist';
+
+type SupabaseErrorLike = { message: string };
+type RadarSelectQuery = ReturnType<ReturnType<typeof supabase.from>['select']>;
+
+export type RadarChurchLocation = {
+  churchName?: string;
+  dioceseId?: string;
+  dioceseName?: string;
+  countryId?: string;
+  countryName?: string;
+};
+
+export type UpdateRadarEventInput = {
+  title: string;
+  description: string;
+  startsAtIso: string;
+};
+
+export type CreateRadarEventInput = {
+  userId: string;
+  churchId: string;
+  churchName?: string;
+  title: string;
+  description: string;
+  startsAtIso: string;
+  maxParticipants?: number;
+  allowMemberInvite?: boolean;
+  requireHostApproval?: boolean;
+  massScheduleId?: string;
+  seriesId?: string;
+  seriesOccurrenceDate?: string;
+};
+
+/**
+ * Everything that differs between the legacy `radar_events` schema and the
+ * `radar_events_v2` schema. RadarService only talks to the tables and RPCs
+ * through an adapter, so schema fallbacks are fixed in one place.
+ */
+export interface RadarSourceAdapter {
+  source: RadarSource;
+  eventsTable: 'radar_events' | 'radar_events_v2';
+  participantsTable: 'radar_participants' | 'radar_participants_v2';
+  startsAtColumn: 'event_time' | 'event_starts_at_utc';
+  joinRpc: RadarRpcCall;
+  leaveRpc: RadarRpcCall;
+  buildEventPayload(input: CreateRadarEventInput): Record<string, unknown>;
+  buildEventUpdate(input: UpdateRadarEventInput): Record<string, unknown>;
+  resolveChatId(radarId: string, client?: SupabaseClient): Promise<string | null>;
+  ensureChatBridge(params: { chatId: string; userId: string; isHost: boolean; joinedAt: string }): Promise<void>;
+  addChatMember(params: { chatId: string; userId: string; joinedAt: string; client?: SupabaseClient }): Promise<void>;
+  removeChatMember(params: { chatId: string; userId: string; leftAt: string }): Promise<void>;
+}
+
+type RadarRpcCall = {
+  name: string;
+  args: (radarId: string, userId: string) => Record<string, unknown>;
+};
+
+const RADAR_EVENT_REQUIRED_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'max_participants',
+  'church_id',
+  'creator_id',
+  'status',
+];
+
+const RADAR_EVENT_OPTIONAL_COLUMNS = [
+  'church_name',
+  'allow_member_invite',
+  'require_host_approval',
+  'visibility',
+  'mass_schedule_id',
+  'church_timezone',
+  'chat_room_id',
+  'series_id',
+  'series_occurrence_date',
+  'created_at',
+  'updated_at',
+];
+
+const VISIBLE_RADAR_STATUSES = ['PUBLISHED', 'UPDATED', 'ACTIVE', 'SCHEDULED'];
+
+export function readErrorMessage(error: unknown) {
+  if (!error) return '';
+  if (typeof error === 'string') return error;
+  if (typeof error === 'object' && 'message' in error && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  try {
+    const raw = JSON.stringify(error);
+    return raw === '{}' ? '' : raw;
+  } catch {
+    return '';
+  }
+}
+
+export function isMissingColumnError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return (
+    lower.includes('42703') ||
+    lower.includes('does not exist') ||
+    (lower.includes('could not find') && lower.includes('column'))
+  );
+}
+
+export function isMissingRelationError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return (
+    lower.includes('42p01') ||
+    (lower.includes('relation') && lower.includes('does not exist')) ||
+    (lower.includes('table') && lower.includes('does not exist')) ||
+    lower.includes('could not find the table') ||
+    (lower.includes('schema cache') && (lower.includes('table') || lower.includes('relation')))
+  );
+}
+
+export function isPermissionError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return (
+    lower.includes('42501') ||
+    lower.includes('permission denied') ||
+    lower.includes('row-level security')
+  );
+}
+
+export function isFunctionMissingError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return lower.includes('could not find the function') || lower.includes('does not exist');
+}
+
+export function isNotAuthenticatedError(error: unknown) {
+  return readErrorMessage(error).toLowerCase().includes('not authenticated');
+}
+
+function isAmbiguousReferenceError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return lower.includes('42702') || lower.includes('is ambiguous');
+}
+
+export function isDuplicateError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return lower.includes('23505') || lower.includes('duplicate key');
+}
+
+export function isForeignKeyError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return lower.includes('23503') || lower.includes('foreign key constraint');
+}
+
+export function isMissingSchemaObjectError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return (
+    isMissingRelationError(error) ||
+    isMissingColumnError(error) ||
+    lower.includes('pgrst202') ||
+    lower.includes('schema cache')
+  );
+}
+
+function isQuotaFullError(error: unknown) {
+  const lower = readErrorMessage(error).toLowerCase();
+  return lower.includes('kuota penuh') || lower.includes('quota') || lower.includes('is full');
+}
+
+function isIgnorableSchemaError(error: unknown) {
+  return isPermissionError(error) || isMissingColumnError(error) || isMissingRelationError(error);
+}
+
+export function extractMissingColumnName(error: unknown): string | null {
+  const raw = readErrorMessage(error);
+  if (!raw) return null;
+  const withQuote = raw.match(/column\s+"([^"]+)"/i);
+  if (withQuote?.[1]) return withQuote[1];
+  const withSingleQuote = raw.match(/column\s+'([^']+)'/i);
+  if (withSingleQuote?.[1]) return withSingleQuote[1];
+  const schemaCachePattern = raw.match(/could not find the ['"]([^'"]+)['"] column/i);
+  if (schemaCachePattern?.[1]) return schemaCachePattern[1];
+  return null;
+}
+
+function stripTablePrefix(column: string) {
+  const parts = column.split('.');
+  return parts[parts.length - 1];
+}
+
+export async function insertWithColumnFallback(
+  table: string,
+  payload: Record<string, unknown>,
+  options?: { select?: string; onConflict?: string; client?: SupabaseClient }
+): Promise<{
+  data: Record<string, unknown> | null;
+  error: SupabaseErrorLike | null;
+  duplicate: boolean;
+}> {
+  const working = { ...payload };
+  const client = options?.client ?? supabase;
+
+  for (let attempt = 0; attempt < 8; attempt += 1) {
+    const base = options?.onConflict
+      ? client.from(table).upsert(working, { onConflict: options.onConflict })
+      : client.from(table).insert(working);
+    const result = options?.select
+      ? await base.select(options.select).maybeSingle()
+      : await base;
+
+    if (!result.error) {
+      return {
+        data: (result.data as Record<string, unknown> | null) ?? null,
+        error: null,
+        duplicate: false,
+      };
+    }
+
+    if (isDuplicateError(result.error.message)) {
+      return { data: null, error: null, duplicate: true };
+    }
+
+    const missingColumn = extractMissingColumnName(result.error.message);
+    if (missingColumn && missingColumn in working && isMissingColumnError(result.error.message)) {
+      delete working[missingColumn];
+      continue;
+    }
+
+    return { data: null, error: result.error, duplicate: false };
+  }
+
+  return {
+    data: null,
+    error: { message: `Gagal insert ke ${table} setelah beberapa percobaan` },
+    duplicate: false,
+  };
+}
+
+export async function updateWithColumnFallback(
+  table: string,
+  payload: Record<string, unknown>,
+  matchers: Record<string, unknown>
+): Promise<{ error: SupabaseErrorLike | null }> {
+  const working = { ...payload };
+
+  for (let attempt = 0; attempt < 8; attempt += 1) {
+    let query = supabase.from(table).update(working);
+    for (const [key, value] of Object.entries(matchers)) {
+      query = query.eq(key, value);
+    }
+    const result = await query;
+
+    if (!result.error) {
+      return { error: null };
+    }
+
+    const missingColumn = extractMissingColumnName(result.error.message);
+    if (missingColumn && missingColumn in working && isMissingColumnError(result.error.message)) {
+      delete working[missingColumn];
+      continue;
+    }
+
+    return { error: result.error };
+  }
+
+  return { error: { message: `Gagal update ${table}` } };
+}
+
+/**
+ * Runs a select and drops optional columns the deployed schema does not have.
+ * When the error does not name the column, all optional columns are dropped.
+ */
+async function selectRowsWithColumnFallback(
+  table: string,
+  columns: { required: string[]; optional?: string[] },
+  build: (query: RadarSelectQuery) => PromiseLike<{ data: unknown; error: SupabaseErrorLike | null }>,
+  client: SupabaseClient = supabase
+): Promise<{ data: Record<string, unknown>[]; error: SupabaseErrorLike | null }> {
+  let optional = [...(columns.optional ?? [])];
+
+  for (let attempt = 0; attempt < 12; attempt += 1) {
+    const selected = [...columns.required, ...optional].join(', ');
+    const result = await build(client.from(table).select(selected));
+
+    if (!result.error) {
+      const raw = result.data;
+      const rows = Array.isArray(raw) ? raw : raw ? [raw] : [];
+      return { data: rows as Record<string, unknown>[], error: null };
+    }
+
+    if (!isMissingColumnError(result.error.message) || optional.length === 0) {
+      return { data: [], error: result.error };
+    }
+
+    const missingColumn = extractMissingColumnName(result.error.message);
+    const missingName = missingColumn ? stripTablePrefix(missingColumn) : '';
+    optional = missingName && optional.includes(missingName)
+      ? optional.filter((column) => column !== missingName)
+      : [];
+  }
+
+  return { data: [], error: { message: `Gagal membaca ${table}` } };
+}
+
+/**
+ * Calls a Radar RPC. Returns `handled: false` when the caller should fall back
+ * to direct table access; unexpected errors are thrown.
+ */
+async function callRadarRpc(
+  name: string,
+  args: Record<string, unknown>,
+  client: SupabaseClient = supabase
+): Promise<{ handled: boolean; data: unknown }> {
+  const result = await client.rpc(name, args);
+  if (!result.error) {
+    return { handled: true, data: result.data };
+  }
+
+  const message = result.error.message;
+  if (isFunctionMissingError(message) || isPermissionError(message) || isNotAuthenticatedError(message)) {
+    return { handled: false, data: null };
+  }
+  if (isAmbiguousReferenceError(message)) {
+    console.warn(`${name} RPC fallback to direct table access:`, message);
+    return { handled: false, data: null };
+  }
+
+  throw new Error(message);
+}
+
+function firstRpcRow(data: unknown) {
+  const raw = Array.isArray(data) ? data[0] : data;
+  return (raw as Record<string, unknown> | null) ?? null;
+}
+
+function addMinutesIso(iso: string, minutes: number) {
+  const time = new Date(iso).getTime();
+  if (Number.isNaN(time)) return '';
+  return new Date(time + minutes * 60 * 1000).toISOString();
+}
+
+export function normalizeMembershipStatus(value: unknown) {
+  return value?.toString().trim().toUpperCase() || '';
+}
+
+export function isJoinedMembershipStatus(status: string) {
+  return ['JOINED', 'HOST', 'MEMBER', 'APPROVED'].includes(status);
+}
+
+export function isPendingMembershipStatus(status: string) {
+  return ['PENDING', 'REQUESTED', 'INVITED'].includes(status);
+}
+
+/** Personal radars are stored as PRIVATE; both spellings mean the same. */
+export function normalizeRadarVisibility(value: unknown) {
+  const normalized = value?.toString().trim().toUpperCase();
+  if (!normalized) return 'PUBLIC';
+  if (normalized === 'PRIVATE' || normalized === 'PERSONAL') return 'PRIVATE';
+  return normalized;
+}
+
+function isWaitlistedMembershipStatus(status: string) {
+  return ['WAITLISTED', 'WAITLIST', 'WAITING_LIST'].includes(status);
+}
+
+function normalizeParticipantStatus(value: unknown): RadarParticipant['status'] {
+  const status = normalizeMembershipStatus(value);
+  if (!status || isJoinedMembershipStatus(status)) return 'JOINED';
+  if (isPendingMembershipStatus(status)) return 'PENDING';
+  if (isWaitlistedMembershipStatus(status)) return 'WAITLISTED';
+  if (status === 'KICKED' || status === 'REJECTED') return status;
+  return 'LEFT';
+}
+
+function normalizeParticipantRole(value: unknown): RadarParticipant['role'] {
+  const role = value?.toString().trim().toUpperCase();
+  if (role === 'HOST' || role === 'ADMIN') return role;
+  return 'MEMBER';
+}
+
+function normalizeEventStatus(value: unknown): RadarEvent['status'] {
+  const status = value?.toString().trim().toUpperCase();
+  if (status === 'DRAFT' || status === 'UPDATED' || status === 'CANCELLED' || status === 'COMPLETED') {
+    return status;
+  }
+  if (status === 'ARCHIVED' || status === 'FINISHED') return 'COMPLETED';
+  return 'PUBLISHED';
+}
+
+function isPublicVisibleRow(row: Record<string, unknown>) {
+  const visibility = row.visibility?.toString().trim().toUpperCase();
+  const status = row.status?.toString().trim().toUpperCase();
+  const isPublic = !visibility || visibility === 'PUBLIC';
+  const isVisibleStatus = !status || VISIBLE_RADAR_STATUSES.includes(status);
+  return isPublic && isVisibleStatus;
+}
+
+function isDraftRow(row: Record<string, unknown>) {
+  return row.status?.toString().trim().toUpperCase() === 'DRAFT';
+}
+
+export function mapRadarEventRow(
+  row: Record<string, unknown>,
+  source: RadarSource,
+  location?: RadarChurchLocation
+): RadarEvent {
+  const startsAt = row.event_starts_at_utc?.toString() || row.event_time?.toString() || '';
+  const endsAt =
+    row.event_ends_at_utc?.toString() ||
+    (startsAt ? addMinutesIso(startsAt, RADAR_SETTINGS.DEFAULT_DURATION_MINUTES) : '');
+  const createdAt = row.created_at?.toString() || startsAt || new Date().toISOString();
+  const churchId = row.church_id?.toString() || '';
+  const churchName = row.church_name?.toString().trim() || location?.churchName || '';
+  const requireHostApproval =
+    typeof row.require_host_approval === 'boolean' ? row.require_host_approval : undefined;
+
+  return {
+    id: row.id?.toString() ?? createRandomUUID(),
+    creator_id: row.creator_id?.toString() || '',
+    country_id: row.country_id?.toString() || location?.countryId || '',
+    diocese_id: row.diocese_id?.toString() || location?.dioceseId || '',
+    church_id: churchId,
+    mass_schedule_id: row.mass_schedule_id?.toString() || row.schedule_id?.toString() || undefined,
+    title: row.title?.toString() || 'Radar Misa',
+    description: row.description?.toString() || '',
+    join_mode:
+      row.join_mode?.toString().toUpperCase() === 'APPROVAL' || requireHostApproval
+        ? 'APPROVAL'
+        : 'OPEN',
+    allow_member_invite:
+      typeof row.allow_member_invite === 'boolean' ? row.allow_member_invite : true,
+    max_participants: Number(row.max_participants ?? 0) || 0,
+    event_starts_at_utc: startsAt,
+    event_ends_at_utc: endsAt,
+    church_timezone: row.church_timezone?.toString() || RADAR_SETTINGS.DEFAULT_TIMEZONE,
+    status: normalizeEventStatus(row.status),
+    chat_room_id: row.chat_room_id?.toString() || undefined,
+    series_id: row.series_id?.toString() || undefined,
+    series_occurrence_date: row.series_occurrence_date?.toString() || undefined,
+    created_at: createdAt,
+    updated_at: row.updated_at?.toString() || createdAt,
+    visibility: row.visibility?.toString(),
+    require_host_approval: requireHostApproval,
+    source,
+    church: churchId
+      ? {
+          id: churchId,
+          name: churchName || 'Gereja',
+          diocese_id: location?.dioceseId,
+          diocese_name: location?.dioceseName,
+          country_id: location?.countryId,
+          country_name: location?.countryName,
+        }
+      : undefined,
+  };
+}
+
+export function mapParticipantRow(row: Record<string, unknown>, source: RadarSource): RadarParticipant | null {
+  const userId = row.user_id?.toString();
+  if (!userId) return null;
+
+  const createdAt = row.created_at?.toString() || row.joined_at?.toString() || '';
+  return {
+    id: row.id?.toString() || createRandomUUID(),
+    radar_id: row.radar_id?.toString() || '',
+    user_id: userId,
+    role: normalizeParticipantRole(row.role),
+    status: normalizeParticipantStatus(row.status),
+    joined_at: row.joined_at?.toString() || createdAt || undefined,
+    left_at: row.left_at?.toString() || undefined,
+    kicked_at: row.kicked_at?.toString() || undefined,
+    waitlisted_at: row.waitlisted_at?.toString() || undefined,
+    created_at: createdAt,
+    updated_at: row.updated_at?.toString() || createdAt,
+    source,
+  };
+}
+
+/**
+ * Collapses rows mirrored across both participant tables into one row per
+ * user: joined beats pending, v2 beats legacy, newer beats older.
+ */
+export function dedupeParticipants(rows: RadarParticipant[]) {
+  const sourceRank: Record<RadarSource, number> = { legacy: 1, v2: 2 };
+  const byKey = new Map<string, RadarParticipant>();
+
+  for (const item of rows) {
+    const key = `${item.radar_id}:${item.user_id}`;
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, item);
+      continue;
+    }
+
+    const existingJoined = existing.status === 'JOINED';
+    const currentJoined = item.status === 'JOINED';
+    if (currentJoined !== existingJoined) {
+      if (currentJoined) byKey.set(key, item);
+      continue;
+    }
+    if (sourceRank[item.source ?? 'legacy'] !== sourceRank[existing.source ?? 'legacy']) {
+      if (sourceRank[item.source ?? 'legacy'] > sourceRank[existing.source ?? 'legacy']) {
+        byKey.set(key, item);
+      }
+      continue;
+    }
+    const existingTime = new Date(existing.created_at || '').getTime();
+    const currentTime = new Date(item.created_at || '').getTime();
+    if (!Number.isNaN(currentTime) && (Number.isNaN(existingTime) || currentTime > existingTime)) {
+      byKey.set(key, item);
+    }
+  }
+
+  return Array.from(byKey.values());
+}
+
+async function upsertChatMember(
+  table: string,
+  payload: Record<string, unknown>,
+  onConflict: string,
+  client?: SupabaseClient
+) {
+  const result = await insertWithColumnFallback(table, payload, { onConflict, client });
+  if (result.error && !isIgnorableSchemaError(result.error.message)) {
+    throw new Error(result.error.message);
+  }
+}
+
+export const legacyRadarAdapter: RadarSourceAdapter = {
+  source: 'legacy',
+  eventsTable: 'radar_events',
+  participantsTable: 'radar_participants',
+  startsAtColumn: 'event_time',
+  joinRpc: {
+    name: 'join_radar_event',
+    args: (radarId, userId) => ({ p_radar_id: radarId, p_user_id: userId }),
+  },
+  leaveRpc: {
+    name: 'leave_radar_event',
+    args: (radarId, userId) => ({ p_radar_id: radarId, p_user_id: userId }),
+  },
+  buildEventPayload(input) {
+    const payload: Record<string, unknown> = {
+      title: input.title,
+      description: input.description,
+      church_id: input.churchId,
+      church_name: input.churchName || 'Gereja',
+      event_time: input.startsAtIso,
+      creator_id: input.userId,
+      visibility: 'PUBLIC',
+      status: 'PUBLISHED',
+      allow_member_invite: input.allowMemberInvite ?? true,
+      require_host_approval: input.requireHostApproval ?? false,
+      max_participants: input.maxParticipants,
+    };
+    if (input.massScheduleId) {
+      payload.schedule_id = input.massScheduleId;
+      payload.mass_schedule_id = input.massScheduleId;
+    }
+    if (input.seriesId) {
+      payload.series_id = input.seriesId;
+      payload.series_occurrence_date = input.seriesOccurrenceDate;
+    }
+    return payload;
+  },
+  buildEventUpdate(input) {
+    return {
+      title: input.title,
+      description: input.description,
+      event_time: input.startsAtIso,
+    };
+  },
+  async resolveChatId(radarId, client) {
+    const result = await selectRowsWithColumnFallback(
+      'radar_events',
+      { required: ['id'], optional: ['chat_room_id'] },
+      (query) => query.eq('id', radarId).maybeSingle(),
+      client
+    );
+    if (result.error) {
+      if (isPermissionError(result.error.message) || isMissingRelationError(result.error.message)) {
+        return null;
+      }
+      throw new Error(result.error.message);
+    }
+    return result.data[0]?.chat_room_id?.toString().trim() || null;
+  },
+  async ensureChatBridge() {
+    // Legacy radar chats are plain social chats; there is no bridge table.
+  },
+  async addChatMember({ chatId, userId, client }) {
+    await upsertChatMember('chat_members', { chat_id: chatId, user_id: userId }, 'chat_id, user_id', client);
+  },
+  async removeChatMember() {
+    // Legacy membership lives only in chat_members, which RadarService clears.
+  },
+};
+
+export const v2RadarAdapter: RadarSourceAdapter = {
+  source: 'v2',
+  eventsTable: 'radar_events_v2',
+  participantsTable: 'radar_participants_v2',
+  startsAtColumn: 'event_starts_at_utc',
+  joinRpc: {
+    name: 'radar_v2_join_event',
+    args: (radarId) => ({ p_radar_id: radarId, p_force_join: false }),
+  },
+  leaveRpc: {
+    name: 'radar_v2_leave_event',
+    args: (radarId) => ({ p_radar_id: radarId }),
+  },
+  buildEventPayload(input) {
+    const requireHostApproval = input.requireHostApproval ?? false;
+    const payload: Record<string, unknown> = {
+      title: input.title,
+      description: input.description,
+      church_id: input.churchId,
+      creator_id: input.userId,
+      event_starts_at_utc: input.startsAtIso,
+      event_ends_at_utc: addMinutesIso(input.startsAtIso, RADAR_SETTINGS.DEFAULT_DURATION_MINUTES),
+      status: 'PUBLISHED',
+      allow_member_invite: input.allowMemberInvite ?? true,
+      require_host_approval: requireHostApproval,
+      join_mode: requireHostApproval ? 'APPROVAL' : 'OPEN',
+      max_participants: input.maxParticipants,
+    };
+    if (input.massScheduleId) {
+      payload.mass_schedule_id = input.massScheduleId;
+      payload.schedule_id = input.massScheduleId;
+    }
+    if (input.seriesId) {
+      payload.series_id = input.seriesId;
+      payload.series_occurrence_date = input.seriesOccurrenceDate;
+    }
+    return payload;
+  },
+  buildEventUpdate(input) {
+    return {
+      title: input.title,
+      description: input.description,
+      event_starts_at_utc: input.startsAtIso,
+      event_ends_at_utc: addMinutesIso(input.startsAtIso, RADAR_SETTINGS.DEFAULT_DURATION_MINUTES),
+    };
+  },
+  async resolveChatId(radarId, client = supabase) {
+    const detail = await callRadarRpc('radar_v2_get_event_detail', { p_radar_id: radarId }, client);
+    if (detail.handled) {
+      const row = firstRpcRow(detail.data) ?? {};
+      const chatGroupId =
+        row.chat_group_id?.toString().trim() ||
+        row.chat_room_id?.toString().trim() ||
+        '';
+      if (chatGroupId) return chatGroupId;
+    }
+
+    const chatGroup = await client
+      .from('radar_chat_groups_v2')
+      .select('id')
+      .eq('radar_id', radarId)
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (chatGroup.error) {
+      if (isIgnorableSchemaError(chatGroup.error.message)) {
+        return null;
+      }
+      throw new Error(chatGroup.error.message);
+    }
+
+    return chatGroup.data?.id?.toString().trim() || null;
+  },
+  async ensureChatBridge({ chatId, userId, isHost, joinedAt }) {
+    await callRadarRpc('radar_v2_ensure_chat_bridge', {
+      p_chat_group_id: chatId,
+      p_user_id: userId,
+    });
+    await upsertChatMember(
+      'radar_chat_members_v2',
+      {
+        chat_group_id: chatId,
+        user_id: userId,
+        role: isHost ? 'HOST' : 'MEMBER',
+        status: 'JOINED',
+        joined_at: joinedAt,
+      },
+      'chat_group_id, user_id'
+    );
+  },
+  async addChatMember({ chatId, userId, joinedAt, client }) {
+    await upsertChatMember(
+      'radar_chat_members_v2',
+      {
+        chat_group_id: chatId,
+        user_id: userId,
+        role: 'MEMBER',
+        status: 'JOINED',
+        joined_at: joinedAt,
+      },
+      'chat_group_id, user_id',
+      client
+    );
+  },
+  async removeChatMember({ chatId, userId, leftAt }) {
+    await updateWithColumnFallback(
+      'radar_chat_members_v2',
+      { status: 'LEFT', left_at: leftAt },
+      { chat_group_id: chatId, user_id: userId }
+    );
+  },
+};
+
+const RADAR_ADAPTERS: Record<RadarSource, RadarSourceAdapter> = {
+  legacy: legacyRadarAdapter,
+  v2: v2RadarAdapter,
+};
+
+export function getRadarAdapter(source: RadarSource): RadarSourceAdapter {
+  return RADAR_ADAPTERS[source];
+}
+
+/** Adapters in write-preference order: the event's own schema first, then the mirror. */
+function getAdaptersFor(source: RadarSource): RadarSourceAdapter[] {
+  return source === 'v2'
+    ? [v2RadarAdapter, legacyRadarAdapter]
+    : [legacyRadarAdapter, v2RadarAdapter];
+}
+
+export class RadarService {
+  static async getPublicEvents(limit = 50): Promise<RadarEvent[]> {
+    return this.getEvents({
+      limit,
+      ascending: true,
+      context: 'radar events',
+    });
+  }
+
+  /** Upcoming public events whose title or description matches the keyword, soonest first. */
+  static async searchEvents(keyword: string, limit = 20): Promise<RadarEvent[]> {
+    const normalized = keyword.trim();
+    if (!normalized) return [];
+
+    return this.getEvents({
+      limit,
+      ascending: true,
+      keyword: normalized,
+      startsAfter: new Date().toISOString(),
+      context: 'radar search',
+    });
+  }
+
+  static async getEventsByCreator(userId: string, limit = 300): Promise<RadarEvent[]> {
+    if (!userId) return [];
+
+    const events = await this.getEvents({
+      limit,
+      ascending: false,
+      creatorId: userId,
+      context: 'owner radar events',
+    });
+    return events.sort(
+      (a, b) => new Date(b.event_starts_at_utc).getTime() - new Date(a.event_starts_at_utc).getTime()
+    );
+  }
+
+  /** Events the user has joined, including private and cancelled ones, soonest first. */
+  static async getJoinedEvents(userId: string, limit = 200): Promise<RadarEvent[]> {
+    if (!userId) return [];
+
+    const memberships = dedupeParticipants(await this.getParticipantRows({ userId }));
+    const radarIds = memberships
+      .filter((item) => item.status === 'JOINED')
+      .map((item) => item.radar_id);
+    if (radarIds.length === 0) return [];
+
+    return this.getEvents({
+      limit,
+      ascending: true,
+      radarIds,
+      includePrivate: true,
+      context: 'joined radar events',
+    });
+  }
+
+  static async getEventById(radarId: string): Promise<RadarEvent | null> {
+    const id = radarId.trim();
+    if (!id) return null;
+
+    let row: Record<string, unknown> | null = null;
+    let source: RadarSource | null = null;
+    for (const adapter of [v2RadarAdapter, legacyRadarAdapter]) {
+      const result = await selectRowsWithColumnFallback(
+        adapter.eventsTable,
+        {
+          required: [...RADAR_EVENT_REQUIRED_COLUMNS, adapter.startsAtColumn],
+          optional: RADAR_EVENT_OPTIONAL_COLUMNS,
+        },
+        (query) => query.eq('id', id).maybeSingle()
+      );
+      if (!result.error && result.data[0]?.id) {
+        row = result.data[0];
+        source = adapter.source;
+        break;
+      }
+    }
+
+    if (!row || !source) return null;
+
+    const churchId = row.church_id?.toString() || '';
+    const locations = await this.getChurchLocations([churchId]);
+    const counts = await this.getJoinedCounts([id]);
+
+    return {
+      ...mapRadarEventRow(row, source, locations.get(churchId)),
+      participant_count: counts.get(id) ?? 0,
+    };
+  }
+
+  static async resolveSource(radarId: string): Promise<RadarSource | null> {
+    const id = radarId.trim();
+    if (!id) return null;
+
+    for (const adapter of [v2RadarAdapter, legacyRadarAdapter]) {
+      const result = await supabase
+        .from(adapter.eventsTable)
+        .select('id')
+        .eq('id', id)
+        .maybeSingle();
+      if (!result.error && result.data?.id) {
+        return adapter.source;
+      }
+      if (result.error && !isIgnorableSchemaError(result.error.message)) {
+        throw new Error(result.error.message);
+      }
+    }
+
+    return null;
+  }
+
+  /** `client` defaults to the signed-in browser client; jobs pass the service-role client. */
+  static async createEvent(
+    input: CreateRadarEventInput,
+    client: SupabaseClient = supabase
+  ): Promise<{ id: string; source: RadarSource }> {
+    const errors: string[] = [];
+
+    for (const adapter of [legacyRadarAdapter, v2RadarAdapter]) {
+      const created = await insertWithColumnFallback(
+        adapter.eventsTable,
+        adapter.buildEventPayload(input),
+        { select: 'id', client }
+      );
+      if (!created.error && created.data?.id) {
+        const id = created.data.id.toString();
+        await insertWithColumnFallback(
+          adapter.participantsTable,
+          {
+            radar_id: id,
+            user_id: input.userId,
+            role: 'HOST',
+            status: 'JOINED',
+          },
+          { client }
+        );
+        return { id, source: adapter.source };
+      }
+
+      // Only a schema without this table or column falls through to v2. Anything
+      // else, including a duplicate series occurrence, is reported as is.
+      const message = created.error?.message || '';
+      if (message) {
+        errors.push(message);
+      }
+      if (!isMissingRelationError(message) && !isMissingColumnError(message)) {
+        break;
+      }
+    }
+
+    throw new Error(errors[errors.length - 1] || 'Gagal membuat radar');
+  }
+
+  /** Writes to the event's own table first and falls through to the mirror table when it is unavailable. */
+  static async updateEvent(params: { radarId: string; source: RadarSource } & UpdateRadarEventInput) {
+    const { radarId, source, ...input } = params;
+    let lastError = '';
+
+    for (const adapter of getAdaptersFor(source)) {
+      const result = await updateWithColumnFallback(
+        adapter.eventsTable,
+        { ...adapter.buildEventUpdate(input), updated_at: new Date().toISOString() },
+        { id: radarId }
+      );
+      if (!result.error) {
+        return;
+      }
+      lastError = result.error.message || '';
+      if (!isIgnorableSchemaError(lastError)) {
+        break;
+      }
+    }
+
+    throw new Error(lastError || 'Gagal memperbarui radar.');
+  }
+
+  /** Deletes the event, then its invites and participant rows in both schemas. */
+  static async deleteEvent(params: { radarId: string; source: RadarSource }) {
+    const { radarId, source } = params;
+    let deleted = false;
+    let lastError = '';
+
+    for (const adapter of getAdaptersFor(source)) {
+      const result = await supabase.from(adapter.eventsTable).delete().eq('id', radarId);
+      if (!result.error) {
+        deleted = true;
+        break;
+      }
+      lastError = result.error.message || '';
+      if (!isMissingRelationError(lastError) && !isMissingColumnError(lastError)) {
+        break;
+      }
+    }
+
+    if (!deleted) {
+      throw new Error(lastError || 'Gagal menghapus radar.');
+    }
+
+    const cleanupTables = ['radar_invites', ...getAdaptersFor(source).map((adapter) => adapter.participantsTable)];
+    for (const table of cleanupTables) {
+      const cleanup = await supabase.from(table).delete().eq('radar_id', radarId);
+      if (cleanup.error && !isMissingRelationError(cleanup.error.message) && !isMissingColumnError(cleanup.error.message)) {
+        console.warn(`Cleanup ${table} warning:`, cleanup.error.message);
+      }
+    }
+  }
+
+  static async getParticipants(radarId: string): Promise<RadarParticipant[]> {
+    const rows = await this.getParticipantRows({ radarIds: [radarId] });
+    const deduped = dedupeParticipants(rows);
+    const profiles = await this.getProfilesMap(deduped.map((item) => item.user_id));
+
+    const roleRank = (role: RadarParticipant['role']) => (role === 'HOST' ? 0 : role === 'ADMIN' ? 1 : 2);
+    const statusRank = (status: RadarParticipant['status']) =>
+      status === 'JOINED' ? 0 : status === 'PENDING' ? 1 : status === 'WAITLISTED' ? 2 : 3;
+
+    return deduped
+      .map((item) => ({ ...item, profile: profiles.get(item.user_id) }))
+      .sort((a, b) => {
+        const roleDiff = roleRank(a.role) - roleRank(b.role);
+        if (roleDiff !== 0) return roleDiff;
+
+        const statusDiff = statusRank(a.status) - statusRank(b.status);
+        if (statusDiff !== 0) return statusDiff;
+
+        return new Date(a.created_at || '').getTime() - new Date(b.created_at || '').getTime();
+      });
+  }
+
+  static async getMembershipMap(
+    userId: string,
+    radarIds: string[]
+  ): Promise<Record<string, Exclude<RadarMembershipState, 'NONE'>>> {
+    if (!userId || radarIds.length === 0) return {};
+
+    const rows = dedupeParticipants(await this.getParticipantRows({ radarIds, userId }));
+    const membership: Record<string, Exclude<RadarMembershipState, 'NONE'>> = {};
+    for (const row of rows) {
+      if (row.status === 'JOINED' || row.status === 'PENDING' || row.status === 'WAITLISTED') {
+        membership[row.radar_id] = row.status;
+      }
+    }
+    return membership;
+  }
+
+  static async getMembershipState(userId: string, radarId: string): Promise<RadarMembershipState> {
+    if (!userId || !radarId) return 'NONE';
+    const membership = await this.getMembershipMap(userId, [radarId]);
+    return membership[radarId] ?? 'NONE';
+  }
+
+  static async joinEvent(params: {
+    radarId: string;
+    userId: string;
+    source: RadarSource;
+  }): Promise<Exclude<RadarMembershipState, 'NONE'>> {
+    const { radarId, userId, source } = params;
+    const adapter = getRadarAdapter(source);
+
+    const policy = await selectRowsWithColumnFallback(
+      adapter.eventsTable,
+      { required: ['id'], optional: ['require_host_approval', 'max_participants'] },
+      (query) => query.eq('id', radarId).maybeSingle()
+    );
+    if (policy.error && !isPermissionError(policy.error.message)) {
+      throw new Error(policy.error.message);
+    }
+
+    // A full radar queues the user instead of turning them away.
+    const maxParticipants = Number(policy.data[0]?.max_participants ?? 0) || 0;
+    if (maxParticipants > 0) {
+      const joinedCount = (await this.getJoinedCounts([radarId])).get(radarId) ?? 0;
+      if (isRadarFull(joinedCount, maxParticipants)) {
+        return this.joinWaitlist({ radarId, userId, source });
+      }
+    }
+
+    let rpc: { handled: boolean; data: unknown };
+    try {
+      rpc = await callRadarRpc(adapter.joinRpc.name, adapter.joinRpc.args(radarId, userId));
+    } catch (error) {
+      // The last seat was taken between the count above and the RPC.
+      if (!isQuotaFullError(error)) throw error;
+      return this.joinWaitlist({ radarId, userId, source });
+    }
+    if (rpc.handled) {
+      const status = normalizeParticipantStatus(firstRpcRow(rpc.data)?.status);
+      return status === 'PENDING' || status === 'WAITLISTED' ? status : 'JOINED';
+    }
+
+    const status: 'JOINED' | 'PENDING' =
+      policy.data[0]?.require_host_approval === true ? 'PENDING' : 'JOINED';
+
+    for (const target of getAdaptersFor(source)) {
+      const result = await insertWithColumnFallback(target.participantsTable, {
+        radar_id: radarId,
+        user_id: userId,
+        role: 'MEMBER',
+        status,
+      });
+      if (!result.error) {
+        return status;
+      }
+    }
+
+    throw new Error('Gagal bergabung ke radar. Cek kebijakan akses radar di Supabase.');
+  }
+
+  static async leaveEvent(params: { radarId: string; userId: string; source: RadarSource }) {
+    const { radarId, userId, source } = params;
+    const adapter = getRadarAdapter(source);
+    const nowIso = new Date().toISOString();
+
+    const rpc = await callRadarRpc(adapter.leaveRpc.name, adapter.leaveRpc.args(radarId, userId));
+    if (!rpc.handled) {
+      const updated = await this.updateParticipantRow({
+        radarId,
+        userId,
+        source,
+        payload: { status: 'LEFT', left_at: nowIso, updated_at: nowIso },
+      });
+      if (updated.error) {
+        throw new Error(updated.error || 'Gagal keluar dari radar.');
+      }
+
+      const chatId = await adapter.resolveChatId(radarId);
+      if (chatId) {
+        await supabase.from('chat_members').delete().eq('chat_id', chatId).eq('user_id', userId);
+        await adapter.removeChatMember({ chatId, userId, leftAt: nowIso });
+      }
+    }
+
+    await this.promoteFromWaitlist({ radarId, source, actorId: userId });
+  }
+
+  static async kickParticipant(params: {
+    radarId: string;
+    targetUserId: string;
+    actorId: string;
+    source: RadarSource;
+  }) {
+    const { radarId, targetUserId, actorId, source } = params;
+    const adapter = getRadarAdapter(source);
+
+    const event = await selectRowsWithColumnFallback(
+      adapter.eventsTable,
+      { required: ['id', 'creator_id'] },
+      (query) => query.eq('id', radarId).maybeSingle()
+    );
+    if (event.error && !isPermissionError(event.error.message)) {
+      throw new Error(event.error.message);
+    }
+
+    const eventRow = event.data[0];
+    if (!eventRow?.id || eventRow.creator_id?.toString() !== actorId) {
+      throw new Error('Hanya host yang boleh mengeluarkan peserta.');
+    }
+    if (targetUserId === actorId) {
+      throw new Error('Host tidak bisa mengeluarkan diri sendiri.');
+    }
+
+    const nowIso = new Date().toISOString();
+    const updated = await this.updateParticipantRow({
+      radarId,
+      userId: targetUserId,
+      source,
+      matchStatus: 'JOINED',
+      payload: { status: 'KICKED', kicked_at: nowIso, updated_at: nowIso },
+    });
+    if (updated.error) {
+      throw new Error(updated.error || 'Gagal mengeluarkan peserta.');
+    }
+
+    const chatId = await adapter.resolveChatId(radarId);
+    if (chatId) {
+      await supabase.from('chat_members').delete().eq('chat_id', chatId).eq('user_id', targetUserId);
+      await adapter.removeChatMember({ chatId, userId: targetUserId, leftAt: nowIso });
+    }
+
+    await this.promoteFromWaitlist({ radarId, source, actorId });
+  }
+
+  /**
+   * Approves or rejects a pending participant. Approving on a full radar puts
+   * them on the waitlist instead; rejecting frees their seat for the waitlist.
+   */
+  static async decideParticipant(params: {
+    radarId: string;
+    targetUserId: string;
+    actorId: string;
+    source: RadarSource;
+    approve: boolean;
+  }): Promise<'JOINED' | 'WAITLISTED' | 'REJECTED'> {
+    const { radarId, targetUserId, actorId, source, approve } = params;
+    const adapter = getRadarAdapter(source);
+
+    const event = await selectRowsWithColumnFallback(
+      adapter.eventsTable,
+      { required: ['id', 'creator_id'], optional: ['chat_room_id', 'max_participants'] },
+      (query) => query.eq('id', radarId).maybeSingle()
+    );
+    if (event.error && !isPermissionError(event.error.message)) {
+      throw new Error(event.error.message);
+    }
+
+    const eventRow = event.data[0];
+    if (!eventRow?.id || eventRow.creator_id?.toString() !== actorId) {
+      throw new Error('Hanya host yang boleh memproses peserta pending.');
+    }
+
+    let nextStatus: 'JOINED' | 'WAITLISTED' | 'REJECTED' = approve ? 'JOINED' : 'REJECTED';
+    if (approve) {
+      const joinedCount = (await this.getJoinedCounts([radarId])).get(radarId) ?? 0;
+      if (isRadarFull(joinedCount, Number(eventRow.max_participants ?? 0) || 0)) {
+        nextStatus = 'WAITLISTED';
+      }
+    }
+
+    const nowIso = new Date().toISOString();
+    const payloads: Record<typeof nextStatus, Record<string, unknown>> = {
+      JOINED: {
+        status: 'JOINED',
+        role: 'MEMBER',
+        joined_at: nowIso,
+        left_at: null,
+        kicked_at: null,
+      },
+      WAITLISTED: { status: 'WAITLISTED', waitlisted_at: nowIso, updated_at: nowIso },
+      REJECTED: { status: 'REJECTED' },
+    };
+    const updated = await this.updateParticipantRow({
+      radarId,
+      userId: targetUserId,
+      source,
+      matchStatus: 'PENDING',
+      payload: payloads[nextStatus],
+    });
+    if (updated.error) {
+      throw new Error(updated.error || 'Gagal memperbarui status peserta.');
+    }
+
+    if (nextStatus === 'JOINED') {
+      const chatId = await adapter.resolveChatId(radarId);
+      if (chatId) {
+        await adapter.addChatMember({ chatId, userId: targetUserId, joinedAt: nowIso });
+      }
+    }
+
+    const notifications: Record<typeof nextStatus, { type: string; title: string; message: string }> = {
+      JOINED: {
+        type: 'radar_join_approved',
+        title: 'Permintaan Join Disetujui',
+        message: 'Host menyetujui permintaan Anda untuk bergabung ke radar.',
+      },
+      WAITLISTED: {
+        type: 'radar_join_waitlisted',
+        title: 'Masuk Daftar Tunggu',
+        message: 'Host menyetujui permintaan Anda, tetapi radar sudah penuh. Anda masuk daftar tunggu.',
+      },
+      REJECTED: {
+        type: 'radar_join_rejected',
+        title: 'Permintaan Join Ditolak',
+        message: 'Host menolak permintaan Anda untuk bergabung ke radar.',
+      },
+    };
+    await insertWithColumnFallback('notifications', {
+      user_id: targetUserId,
+      ...notifications[nextStatus],
+      sender_id: actorId,
+      actor_id: actorId,
+      data: {
+        radar_id: radarId,
+        status: nextStatus,
+      },
+    });
+
+    if (nextStatus === 'REJECTED') {
+      await this.promoteFromWaitlist({ radarId, source, actorId });
+    }
+
+    return nextStatus;
+  }
+
+  static async resolveChatId(params: { radarId: string; source: RadarSource }): Promise<string | null> {
+    if (!params.radarId.trim()) return null;
+    return getRadarAdapter(params.source).resolveChatId(params.radarId);
+  }
+
+  /**
+   * Makes sure the user can open the radar group chat: bridges the v2 chat
+   * group, creates the social chat row if it is missing and adds membership.
+   */
+  static async ensureChatAccess(params: {
+    radarId: string;
+    source: RadarSource;
+    userId: string;
+    isHost?: boolean;
+    fallbackTitle?: string;
+  }): Promise<string | null> {
+    const { radarId, source, userId, isHost = false, fallbackTitle } = params;
+    const adapter = getRadarAdapter(source);
+    const chatId = await this.resolveChatId({ radarId, source });
+    if (!chatId) return null;
+
+    const nowIso = new Date().toISOString();
+    await adapter.ensureChatBridge({ chatId, userId, isHost, joinedAt: nowIso });
+
+    const existingChat = await supabase
+      .from('social_chats')
+      .select('id')
+      .eq('id', chatId)
+      .maybeSingle();
+    if (existingChat.error && !isIgnorableSchemaError(existingChat.error.message)) {
+      throw new Error(existingChat.error.message);
+    }
+
+    if (!existingChat.error && !existingChat.data?.id) {
+      const event = await selectRowsWithColumnFallback(
+        adapter.eventsTable,
+        { required: ['id', 'title', 'creator_id'], optional: ['allow_member_invite'] },
+        (query) => query.eq('id', radarId).maybeSingle()
+      );
+      if (event.error && !isIgnorableSchemaError(event.error.message)) {
+        throw new Error(event.error.message);
+      }
+
+      const eventRow = event.data[0];
+      const creatorId = eventRow?.creator_id?.toString() || userId;
+      const createChat = await insertWithColumnFallback('social_chats', {
+        id: chatId,
+        is_group: true,
+        group_name: eventRow?.title?.toString().trim() || fallbackTitle?.trim() || 'Radar Misa',
+        admin_id: creatorId,
+        creator_id: creatorId,
+        participants: Array.from(new Set([userId, creatorId].filter(Boolean))),
+        invite_mode: 'open',
+        invite_link_enabled: false,
+        allow_member_invite:
+          typeof eventRow?.allow_member_invite === 'boolean' ? eventRow.allow_member_invite : true,
+        updated_at: nowIso,
+      });
+      if (createChat.error && !isIgnorableSchemaError(createChat.error.message)) {
+        throw new Error(createChat.error.message);
+      }
+    }
+
+    await upsertChatMember(
+      'chat_members',
+      {
+        chat_id: chatId,
+        user_id: userId,
+        role: isHost ? 'admin' : 'member',
+        status: 'JOINED',
+        joined_at: nowIso,
+      },
+      'chat_id, user_id'
+    );
+
+    return chatId;
+  }
+
+  static async getChurchLocations(churchIds: string[]): Promise<Map<string, RadarChurchLocation>> {
+    const ids = [...new Set(churchIds.map((id) => id.trim()).filter(Boolean))];
+    const map = new Map<string, RadarChurchLocation>();
+    if (ids.length === 0) return map;
+
+    const churches = await selectRowsWithColumnFallback(
+      'churches',
+      { required: ['id', 'name'], optional: ['diocese_id', 'country_id'] },
+      (query) => query.in('id', ids)
+    );
+    if (churches.error) {
+      if (!isPermissionError(churches.error.message) && !isMissingRelationError(churches.error.message)) {
+        console.error('Error loading church locations map:', churches.error.message);
+      }
+      return map;
+    }
+
+    const dioceseIds = [...new Set(churches.data.map((row) => row.diocese_id?.toString() || '').filter(Boolean))];
+    const dioceseNameById = new Map<string, string>();
+    const dioceseCountryById = new Map<string, string>();
+    if (dioceseIds.length > 0) {
+      const dioceses = await selectRowsWithColumnFallback(
+        'dioceses',
+        { required: ['id', 'name'], optional: ['country_id'] },
+        (query) => query.in('id', dioceseIds)
+      );
+      for (const row of dioceses.data) {
+        const id = row.id?.toString() || '';
+        if (!id) continue;
+        const name = row.name?.toString().trim();
+        if (name) dioceseNameById.set(id, name);
+        const countryId = row.country_id?.toString() || '';
+        if (countryId) dioceseCountryById.set(id, countryId);
+      }
+    }
+
+    const countryIds = new Set(churches.data.map((row) => row.country_id?.toString() || '').filter(Boolean));
+    for (const countryId of dioceseCountryById.values()) {
+      countryIds.add(countryId);
+    }
+    const countryNameById = new Map<string, string>();
+    if (countryIds.size > 0) {
+      const countries = await supabase
+        .from('countries')
+        .select('id, name')
+        .in('id', Array.from(countryIds));
+      for (const row of (countries.data ?? []) as Record<string, unknown>[]) {
+        const id = row.id?.toString() || '';
+        const name = row.name?.toString().trim();
+        if (id && name) countryNameById.set(id, name);
+      }
+    }
+
+    for (const row of churches.data) {
+      const id = row.id?.toString() || '';
+      if (!id) continue;
+      const dioceseId = row.diocese_id?.toString() || '';
+      const countryId = row.country_id?.toString() || dioceseCountryById.get(dioceseId) || '';
+      map.set(id, {
+        churchName: row.name?.toString().trim() || undefined,
+        dioceseId: dioceseId || undefined,
+        dioceseName: dioceseNameById.get(dioceseId),
+        countryId: countryId || undefined,
+        countryName: countryNameById.get(countryId),
+      });
+    }
+
+    return map;
+  }
+
+  static async getProfilesMap(userIds: string[]) {
+    const ids = [...new Set(userIds.filter(Boolean))];
+    const map = new Map<string, NonNullable<RadarParticipant['profile']>>();
+    if (ids.length === 0) return map;
+
+    const result = await supabase
+      .from('profiles')
+      .select('id, full_name, username, avatar_url, role')
+      .in('id', ids);
+    if (result.error) return map;
+
+    for (const row of (result.data ?? []) as Record<string, unknown>[]) {
+      const id = row.id?.toString();
+      if (!id) continue;
+      map.set(id, {
+        id,
+        full_name: row.full_name?.toString(),
+        username: row.username?.toString(),
+        avatar_url: row.avatar_url?.toString(),
+        role: row.role?.toString(),
+      });
+    }
+    return map;
+  }
+
+  /** Country and diocese of a church; empty strings when unknown. */
+  static async getChurchHierarchyIds(churchId?: string) {
+    const trimmedChurchId = churchId?.trim();
+    if (!trimmedChurchId) {
+      return { countryId: '', dioceseId: '' };
+    }
+
+    const churches = await selectRowsWithColumnFallback(
+      'churches',
+      { required: ['id'], optional: ['country_id', 'diocese_id'] },
+      (query) => query.eq('id', trimmedChurchId).maybeSingle()
+    );
+    const row = churches.data[0];
+    if (churches.error || !row?.id) {
+      return { countryId: '', dioceseId: '' };
+    }
+
+    return {
+      countryId: row.country_id?.toString() || '',
+      dioceseId: row.diocese_id?.toString() || '',
+    };
+  }
+
+  private static async getEvents(params: {
+    limit: number;
+    ascending: boolean;
+    creatorId?: string;
+    radarIds?: string[];
+    includePrivate?: boolean;
+    keyword?: string;
+    startsAfter?: string;
+    context: string;
+  }): Promise<RadarEvent[]> {
+    const { limit, ascending, creatorId, radarIds, includePrivate, keyword, startsAfter, context } = params;
+    const escapedKeyword = keyword?.replace(/[%_]/g, '\\$&').replace(/[,()]/g, ' ');
+    const rowsBySource: Array<{ source: RadarSource; rows: Record<string, unknown>[] }> = [];
+    const errors: string[] = [];
+
+    for (const adapter of [legacyRadarAdapter, v2RadarAdapter]) {
+      const result = await selectRowsWithColumnFallback(
+        adapter.eventsTable,
+        {
+          required: [...RADAR_EVENT_REQUIRED_COLUMNS, adapter.startsAtColumn],
+          optional: RADAR_EVENT_OPTIONAL_COLUMNS,
+        },
+        (query) => {
+          let scoped = query;
+          if (creatorId) {
+            scoped = scoped.eq('creator_id', creatorId);
+          }
+          if (radarIds) {
+            scoped = scoped.in('id', radarIds);
+          }
+          if (escapedKeyword) {
+            scoped = scoped.or(`title.ilike.%${escapedKeyword}%,description.ilike.%${escapedKeyword}%`);
+          }
+          if (startsAfter) {
+            scoped = scoped.gte(adapter.startsAtColumn, startsAfter);
+          }
+          return scoped.order(adapter.startsAtColumn, { ascending }).limit(limit);
+        }
+      );
+      if (result.error) {
+        errors.push(result.error.message);
+        continue;
+      }
+      rowsBySource.push({ source: adapter.source, rows: result.data });
+    }
+
+    if (rowsBySource.length === 0) {
+      console.error(`Error fetching ${context}:`, errors.join(' | '));
+      return [];
+    }
+
+    // The same radar can be mirrored into both schemas; v2 wins.
+    const uniqueById = new Map<string, { row: Record<string, unknown>; source: RadarSource }>();
+    for (const { source, rows } of rowsBySource) {
+      for (const row of rows) {
+        const id = row.id?.toString();
+        if (!id) continue;
+        if (!uniqueById.has(id) || source === 'v2') {
+          uniqueById.set(id, { row, source });
+        }
+      }
+    }
+
+    const visible = Array.from(uniqueById.values()).filter(({ row }) =>
+      includePrivate ? !isDraftRow(row) : isPublicVisibleRow(row)
+    );
+    if (visible.length === 0) return [];
+
+    const ids = visible.map(({ row }) => row.id!.toString());
+    const [locations, counts] = await Promise.all([
+      this.getChurchLocations(visible.map(({ row }) => row.church_id?.toString() || '')),
+      this.getJoinedCounts(ids),
+    ]);
+
+    return visible.map(({ row, source }) => {
+      const churchId = row.church_id?.toString() || '';
+      const event = mapRadarEventRow(row, source, locations.get(churchId));
+      return { ...event, participant_count: counts.get(event.id) ?? 0 };
+    });
+  }
+
+  /**
+   * Rejoining after leaving reuses the old participant row, stamped with a
+   * fresh `waitlisted_at` so the user goes to the back of the queue.
+   */
+  private static async joinWaitlist(params: {
+    radarId: string;
+    userId: string;
+    source: RadarSource;
+  }): Promise<'WAITLISTED'> {
+    const { radarId, userId, source } = params;
+    const nowIso = new Date().toISOString();
+    const payload = { status: 'WAITLISTED', waitlisted_at: nowIso, left_at: null, updated_at: nowIso };
+
+    for (const target of getAdaptersFor(source)) {
+      const result = await insertWithColumnFallback(target.participantsTable, {
+        radar_id: radarId,
+        user_id: userId,
+        role: 'MEMBER',
+        ...payload,
+      });
+      if (!result.error) {
+        return 'WAITLISTED';
+      }
+      if (isDuplicateError(result.error.message)) {
+        const updated = await updateWithColumnFallback(target.participantsTable, payload, {
+          radar_id: radarId,
+          user_id: userId,
+        });
+        if (!updated.error) {
+          return 'WAITLISTED';
+        }
+      }
+    }
+
+    throw new Error('Radar sudah penuh dan daftar tunggu belum tersedia.');
+  }
+
+  /**
+   * Gives a freed seat to the longest-waiting participant. Radars that need
+   * host approval move them to PENDING so the host still decides; a PENDING
+   * row keeps its seat until the host decides. The RPC
+   * promotes and notifies server-side; the fallback does both from the client.
+   */
+  private static async promoteFromWaitlist(params: { radarId: string; source: RadarSource; actorId: string }) {
+    const { radarId, source, actorId } = params;
+    const adapter = getRadarAdapter(source);
+    const nowIso = new Date().toISOString();
+
+    try {
+      const rpc = await callRadarRpc('promote_radar_waitlist', { p_radar_id: radarId });
+      if (rpc.handled) {
+        const row = firstRpcRow(rpc.data);
+        const promotedUserId = row?.promoted_user_id?.toString() || '';
+        if (promotedUserId && normalizeMembershipStatus(row?.promoted_status) === 'JOINED') {
+          const chatId = await adapter.resolveChatId(radarId);
+          if (chatId) {
+            await adapter.addChatMember({ chatId, userId: promotedUserId, joinedAt: nowIso });
+          }
+        }
+        return;
+      }
+    } catch (error) {
+      console.warn('promote_radar_waitlist RPC failed:', readErrorMessage(error));
+      return;
+    }
+
+    const event = await selectRowsWithColumnFallback(
+      adapter.eventsTable,
+      { required: ['id'], optional: ['title', 'max_participants', 'require_host_approval'] },
+      (query) => query.eq('id', radarId).maybeSingle()
+    );
+    const eventRow = event.data[0];
+    if (!eventRow) return;
+
+    // PENDING rows hold a seat, so a freed seat is not promoted twice.
+    const rows = dedupeParticipants(await this.getParticipantRows({ radarIds: [radarId] }));
+    const seatedCount = rows.filter((row) => row.status === 'JOINED' || row.status === 'PENDING').length;
+    if (isRadarFull(seatedCount, Number(eventRow.max_participants ?? 0) || 0)) return;
+
+    const next = getWaitlistQueue(rows)[0];
+    if (!next) return;
+
+    const promotedUserId = next.user_id;
+    const promotedStatus = eventRow.require_host_approval === true ? 'PENDING' : 'JOINED';
+    const updated = await this.updateParticipantRow({
+      radarId,
+      userId: promotedUserId,
+      source,
+      matchStatus: 'WAITLISTED',
+      payload:
+        promotedStatus === 'JOINED'
+          ? { status: promotedStatus, joined_at: nowIso, updated_at: nowIso }
+          : { status: promotedStatus, updated_at: nowIso },
+    });
+    if (updated.error) {
+      console.warn('Failed to promote radar waitlist:', updated.error);
+      return;
+    }
+
+    if (promotedStatus === 'JOINED') {
+      const chatId = await adapter.resolveChatId(radarId);
+      if (chatId) {
+        await adapter.addChatMember({ chatId, userId: promotedUserId, joinedAt: nowIso });
+      }
+    }
+
+    const title = eventRow.title?.toString().trim() || 'radar';
+    await insertWithColumnFallback('notifications', {
+      user_id: promotedUserId,
+      type: 'radar_waitlist_promoted',
+      title: 'Tempat Tersedia',
+      message:
+        promotedStatus === 'JOINED'
+          ? `Anda kini bergabung ke "${title}" dari daftar tunggu.`
+          : `Tempat di "${title}" tersedia. Permintaan Anda menunggu persetujuan host.`,
+      sender_id: actorId,
+      actor_id: actorId,
+      data: {
+        radar_id: radarId,
+        status: promotedStatus,
+      },
+    });
+  }
+
+  private static async getParticipantRows(params: { radarIds?: string[]; userId?: string }) {
+    const { userId } = params;
+    const ids = params.radarIds ? [...new Set(params.radarIds.filter(Boolean))] : null;
+    if (ids ? ids.length === 0 : !userId) return [];
+
+    const rows: RadarParticipant[] = [];
+    for (const adapter of [legacyRadarAdapter, v2RadarAdapter]) {
+      const result = await selectRowsWithColumnFallback(
+        adapter.participantsTable,
+        {
+          required: ['radar_id', 'user_id'],
+          optional: [
+            'id',
+            'status',
+            'role',
+            'created_at',
+            'joined_at',
+            'left_at',
+            'kicked_at',
+            'waitlisted_at',
+            'updated_at',
+          ],
+        },
+        (query) => {
+          let scoped = ids ? query.in('radar_id', ids) : query;
+          if (userId) {
+            scoped = scoped.eq('user_id', userId);
+          }
+          return scoped;
+        }
+      );
+
+      if (result.error) {
+        if (!isPermissionError(result.error.message) && !isMissingRelationError(result.error.message)) {
+          console.error(`Error fetching participants from ${adapter.participantsTable}:`, result.error.message);
+        }
+        continue;
+      }
+
+      for (const row of result.data) {
+        const participant = mapParticipantRow(row, adapter.source);
+        if (participant) rows.push(participant);
+      }
+    }
+
+    return rows;
+  }
+
+  private static async getJoinedCounts(radarIds: string[]) {
+    const counts = new Map<string, number>();
+    const rows = dedupeParticipants(await this.getParticipantRows({ radarIds }));
+    for (const row of rows) {
+      if (row.status !== 'JOINED') continue;
+      counts.set(row.radar_id, (counts.get(row.radar_id) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  /**
+   * Updates the user's participant row in the event's own table first and
+   * falls through to the mirror table when the first one is unavailable.
+   */
+  private static async updateParticipantRow(params: {
+    radarId: string;
+    userId: string;
+    source: RadarSource;
+    payload: Record<string, unknown>;
+    matchStatus?: string;
+  }): Promise<{ error: string | null }> {
+    const { radarId, userId, source, payload, matchStatus } = params;
+    let lastError = '';
+
+    for (const adapter of getAdaptersFor(source)) {
+      const matchers: Record<string, unknown> = { radar_id: radarId, user_id: userId };
+      if (matchStatus) {
+        matchers.status = matchStatus;
+      }
+      const result = await updateWithColumnFallback(adapter.participantsTable, payload, matchers);
+      if (!result.error) {
+        return { error: null };
+      }
+      lastError = result.error.message || '';
+      if (!isIgnorableSchemaError(lastError)) {
+        break;
+      }
+    }
+
+    return { error: lastError || 'Gagal memperbarui peserta radar.' };
+  }
+}
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { RadarParticipant } from '@/lib/types';
+import { formatWaitlistPosition, getWaitlistPosition, getWaitlistQueue, isRadarFull } from './radar-waitlist';
+
+function participant(
+  userId: string,
+  status: RadarParticipant['status'],
+  createdAt: string
+): Pick<RadarParticipant, 'user_id' | 'status' | 'created_at'> {
+  return { user_id: userId, status, created_at: createdAt };
+}
+
+const participants = [
+  participant('host', 'JOINED', '2026-10-19T06:00:00.000Z'),
+  participant('c', 'WAITLISTED', '2026-10-19T09:00:00.000Z'),
+  participant('a', 'WAITLISTED', '2026-10-19T07:00:00.000Z'),
+  participant('left', 'LEFT', '2026-10-19T06:30:00.000Z'),
+  participant('b', 'WAITLISTED', '2026-10-19T08:00:00.000Z'),
+];
+
+test('treats a missing or zero quota as uncapped', () => {
+  assert.equal(isRadarFull(40, 0), false);
+  assert.equal(isRadarFull(40, undefined), false);
+  assert.equal(isRadarFull(9, 10), false);
+  assert.equal(isRadarFull(10, 10), true);
+});
+
+test('orders the waitlist first come, first served', () => {
+  assert.deepEqual(
+    getWaitlistQueue(participants).map((item) => item.user_id),
+    ['a', 'b', 'c']
+  );
+});
+
+test('reports a 1-based waitlist position', () => {
+  assert.equal(getWaitlistPosition(participants, 'c'), 3);
+  assert.equal(getWaitlistPosition(participants, 'host'), null);
+  assert.equal(getWaitlistPosition(participants, undefined), null);
+  assert.equal(formatWaitlistPosition(3), 'Daftar tunggu: posisi 3');
+});
@@ -0,0 +1,40 @@
+import type { RadarParticipant } from '@/lib/types';
+
+type WaitlistEntry = Pick<RadarParticipant, 'user_id' | 'status' | 'created_at' | 'waitlisted_at'>;
+
+function toTime(value?: string) {
+  const time = new Date(value || '').getTime();
+  return Number.isNaN(time) ? Number.POSITIVE_INFINITY : time;
+}
+
+// A quota of zero or less means the radar has no cap.
+export function isRadarFull(joinedCount: number, maxParticipants?: number | null) {
+  if (!maxParticipants || maxParticipants <= 0) return false;
+  return joinedCount >= maxParticipants;
+}
+
+/**
+ * Waitlisted participants in promotion order: whoever joined the waitlist
+ * first is promoted first. Rows without a timestamp go last.
+ */
+export function getWaitlistQueue<T extends WaitlistEntry>(participants: T[]) {
+  return participants
+    .filter((participant) => participant.status === 'WAITLISTED')
+    .sort((a, b) => {
+      const aTime = toTime(a.waitlisted_at || a.created_at);
+      const bTime = toTime(b.waitlisted_at || b.created_at);
+      if (aTime !== bTime) return aTime < bTime ? -1 : 1;
+      return a.user_id.localeCompare(b.user_id);
+    });
+}
+
+// 1-based position in the queue, or null when the user is not waitlisted.
+export function getWaitlistPosition(participants: WaitlistEntry[], userId?: string) {
+  if (!userId) return null;
+  const index = getWaitlistQueue(participants).findIndex((participant) => participant.user_id === userId);
+  return index === -1 ? null : index + 1;
+}
+
+export function formatWaitlistPosition(position: number) {
+  return `Daftar tunggu: posisi ${position}`;
+}
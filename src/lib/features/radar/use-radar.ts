@@ -0,0 +1,306 @@
+// Radar Hooks
+
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/features/auth/use-auth';
+import type { RadarAttendanceMethod, RadarSource } from '@/lib/types';
+import { MassJournalService } from './mass-journal-service';
+import { RadarAttendanceService } from './radar-attendance-service';
+import { RadarSeriesService, type UpdateRadarSeriesInput } from './radar-series-service';
+import { RadarService } from './radar-service';
+
+export function useRadarEvents() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['radar-events', user?.id],
+    queryFn: () => RadarService.getPublicEvents(),
+    enabled: Boolean(user?.id),
+  });
+}
+
+export function useOwnerRadarEvents() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['owner-radar-events', user?.id],
+    queryFn: () => RadarService.getEventsByCreator(user?.id || ''),
+    enabled: Boolean(user?.id),
+  });
+}
+
+export function useRadarEvent(radarId?: string, options?: { staleTime?: number }) {
+  const id = radarId?.trim() || '';
+
+  return useQuery({
+    queryKey: ['radar-event', id],
+    queryFn: () => RadarService.getEventById(id),
+    enabled: id.length > 0,
+    staleTime: options?.staleTime,
+  });
+}
+
+export function useRadarParticipants(radarId?: string) {
+  const id = radarId?.trim() || '';
+
+  return useQuery({
+    queryKey: ['radar-participants', id],
+    queryFn: () => RadarService.getParticipants(id),
+    enabled: id.length > 0,
+  });
+}
+
+export function useRadarMembershipMap(radarIds: string[]) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['radar-membership-map', user?.id, radarIds],
+    queryFn: () => RadarService.getMembershipMap(user?.id || '', radarIds),
+    enabled: Boolean(user?.id) && radarIds.length > 0,
+  });
+}
+
+export function useRadarMembership(radarId?: string) {
+  const { user } = useAuth();
+  const id = radarId?.trim() || '';
+
+  return useQuery({
+    queryKey: ['radar-my-membership', id, user?.id],
+    queryFn: () => RadarService.getMembershipState(user?.id || '', id),
+    enabled: Boolean(id && user?.id),
+  });
+}
+
+function useInvalidateRadar() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return (radarId: string) =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ['radar-event', radarId] }),
+      queryClient.invalidateQueries({ queryKey: ['radar-participants', radarId] }),
+      queryClient.invalidateQueries({ queryKey: ['radar-my-membership', radarId] }),
+      queryClient.invalidateQueries({ queryKey: ['radar-events', user?.id] }),
+      queryClient.invalidateQueries({ queryKey: ['radar-membership-map', user?.id] }),
+    ]);
+}
+
+export function useJoinRadarEvent() {
+  const { user } = useAuth();
+  const invalidateRadar = useInvalidateRadar();
+
+  return useMutation({
+    mutationFn: ({ radarId, source }: { radarId: string; source: RadarSource }) => {
+      if (!user?.id) throw new Error('Anda harus login untuk bergabung');
+      return RadarService.joinEvent({ radarId, userId: user.id, source });
+    },
+    onSuccess: (_status, variables) => invalidateRadar(variables.radarId),
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useLeaveRadarEvent() {
+  const { user } = useAuth();
+  const invalidateRadar = useInvalidateRadar();
+
+  return useMutation({
+    mutationFn: ({ radarId, source }: { radarId: string; source: RadarSource }) => {
+      if (!user?.id) throw new Error('Anda harus login');
+      return RadarService.leaveEvent({ radarId, userId: user.id, source });
+    },
+    onSuccess: (_result, variables) => invalidateRadar(variables.radarId),
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useDecideRadarParticipant() {
+  const { user } = useAuth();
+  const invalidateRadar = useInvalidateRadar();
+
+  return useMutation({
+    mutationFn: (params: {
+      radarId: string;
+      targetUserId: string;
+      source: RadarSource;
+      approve: boolean;
+    }) => {
+      if (!user?.id) throw new Error('Anda harus login');
+      return RadarService.decideParticipant({ ...params, actorId: user.id });
+    },
+    onSuccess: (_result, variables) => invalidateRadar(variables.radarId),
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useKickRadarParticipant() {
+  const { user } = useAuth();
+  const invalidateRadar = useInvalidateRadar();
+
+  return useMutation({
+    mutationFn: (params: { radarId: string; targetUserId: string; source: RadarSource }) => {
+      if (!user?.id) throw new Error('Anda harus login');
+      return RadarService.kickParticipant({ ...params, actorId: user.id });
+    },
+    onSuccess: (_result, variables) => invalidateRadar(variables.radarId),
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useRadarSeries(seriesId?: string) {
+  const id = seriesId?.trim() || '';
+
+  return useQuery({
+    queryKey: ['radar-series', id],
+    queryFn: () => RadarSeriesService.getSeriesDetail(id),
+    enabled: id.length > 0,
+  });
+}
+
+export function useRadarSeriesFollow(seriesId?: string) {
+  const { user } = useAuth();
+  const id = seriesId?.trim() || '';
+
+  return useQuery({
+    queryKey: ['radar-series-follow', id, user?.id],
+    queryFn: () => RadarSeriesService.isFollowingAll(id, user?.id || ''),
+    enabled: Boolean(id && user?.id),
+  });
+}
+
+export function useSetRadarSeriesFollow() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ seriesId, enabled }: { seriesId: string; enabled: boolean }) => {
+      if (!user?.id) throw new Error('Anda harus login');
+      return RadarSeriesService.setFollowAll({ seriesId, userId: user.id, enabled });
+    },
+    onSuccess: (_result, variables) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['radar-series-follow', variables.seriesId] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-series', variables.seriesId] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-participants'] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-my-membership'] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-membership-map', user?.id] }),
+      ]),
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useUpdateRadarSeries() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ seriesId, input }: { seriesId: string; input: UpdateRadarSeriesInput }) => {
+      if (!user?.id) throw new Error('Anda harus login');
+      return RadarSeriesService.updateSeries(seriesId, user.id, input);
+    },
+    onSuccess: (_result, variables) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['radar-series', variables.seriesId] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-event'] }),
+        queryClient.invalidateQueries({ queryKey: ['radar-events', user?.id] }),
+        queryClient.invalidateQueries({ queryKey: ['owner-radar-events', user?.id] }),
+      ]),
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useCancelRadarOccurrence() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const invalidateRadar = useInvalidateRadar();
+
+  return useMutation({
+    mutationFn: (params: { radarId: string; source: RadarSource; seriesId: string }) => {
+      if (!user?.id) throw new Error('Anda harus login');
+      return RadarSeriesService.cancelOccurrence({ radarId: params.radarId, source: params.source, actorId: user.id });
+    },
+    onSuccess: (_result, variables) =>
+      Promise.all([
+        invalidateRadar(variables.radarId),
+        queryClient.invalidateQueries({ queryKey: ['radar-series', variables.seriesId] }),
+        queryClient.invalidateQueries({ queryKey: ['owner-radar-events', user?.id] }),
+      ]),
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useRadarAttendance(radarId?: string, options?: { enabled?: boolean; refetchInterval?: number }) {
+  const { user } = useAuth();
+  const id = radarId?.trim() || '';
+
+  return useQuery({
+    queryKey: ['radar-attendance', id, user?.id],
+    queryFn: () => RadarAttendanceService.getAttendance(id),
+    enabled: Boolean(id && user?.id) && (options?.enabled ?? true),
+    refetchInterval: options?.refetchInterval,
+  });
+}
+
+// Refetches right as the current code expires so the host's QR never shows a stale code.
+export function useRadarAttendanceCode(radarId?: string, enabled = true) {
+  const id = radarId?.trim() || '';
+
+  return useQuery({
+    queryKey: ['radar-attendance-code', id],
+    queryFn: () => RadarAttendanceService.getAttendanceCode(id),
+    enabled: Boolean(id) && enabled,
+    staleTime: 0,
+    retry: false,
+    refetchInterval: (query) => {
+      const expiresAt = new Date(query.state.data?.expiresAt || '').getTime();
+      if (Number.isNaN(expiresAt)) return false;
+      return Math.max(1000, expiresAt - Date.now() + 250);
+    },
+  });
+}
+
+export function useConfirmRadarAttendance() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: { radarId: string; code: string; method: RadarAttendanceMethod }) =>
+      RadarAttendanceService.confirmAttendance(params.radarId, params.code, params.method),
+    onSuccess: (_result, variables) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['radar-attendance', variables.radarId] }),
+        queryClient.invalidateQueries({ queryKey: ['active-checkin', user?.id] }),
+        queryClient.invalidateQueries({ queryKey: ['checkin-presence'] }),
+        queryClient.invalidateQueries({ queryKey: ['mass-journal', user?.id] }),
+      ]),
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useMassJournal() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['mass-journal', user?.id],
+    queryFn: () => MassJournalService.getJournalEntries(user?.id || ''),
+    enabled: Boolean(user?.id),
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { formatDistanceLabel, getBoundingBox, haversineDistanceKm, isValidGeoPoint } from './geo';
+
+const KATEDRAL_JAKARTA = { latitude: -6.1689, longitude: 106.8331 };
+const KATEDRAL_BOGOR = { latitude: -6.5944, longitude: 106.7923 };
+
+test('haversine distance matches known city distances', () => {
+  const distance = haversineDistanceKm(KATEDRAL_JAKARTA, KATEDRAL_BOGOR);
+  assert.ok(distance > 46 && distance < 49, `unexpected distance ${distance}`);
+  assert.equal(haversineDistanceKm(KATEDRAL_JAKARTA, KATEDRAL_JAKARTA), 0);
+});
+
+test('bounding box contains every point inside the radius', () => {
+  const box = getBoundingBox(KATEDRAL_JAKARTA, 50);
+  assert.ok(box.minLatitude <= KATEDRAL_BOGOR.latitude && KATEDRAL_BOGOR.latitude <= box.maxLatitude);
+  assert.ok(box.minLongitude <= KATEDRAL_BOGOR.longitude && KATEDRAL_BOGOR.longitude <= box.maxLongitude);
+
+  const narrow = getBoundingBox(KATEDRAL_JAKARTA, 10);
+  assert.ok(KATEDRAL_BOGOR.latitude < narrow.minLatitude);
+});
+
+test('rejects missing or null-island coordinates and formats distances', () => {
+  assert.equal(isValidGeoPoint({ latitude: 0, longitude: 0 }), false);
+  assert.equal(isValidGeoPoint({ latitude: undefined, longitude: 106.8 }), false);
+  assert.equal(isValidGeoPoint(KATEDRAL_JAKARTA), true);
+
+  assert.equal(formatDistanceLabel(0.42), '420 m');
+  assert.equal(formatDistanceLabel(3.456), '3,5 km');
+  assert.equal(formatDistanceLabel(47.6), '48 km');
+});
@@ -0,0 +1,64 @@
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export type GeoBoundingBox = {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(value: number) {
+  return (value * Math.PI) / 180;
+}
+
+export function isValidGeoPoint(point: Partial<GeoPoint> | null | undefined): point is GeoPoint {
+  return (
+    typeof point?.latitude === 'number' &&
+    typeof point?.longitude === 'number' &&
+    Number.isFinite(point.latitude) &&
+    Number.isFinite(point.longitude) &&
+    Math.abs(point.latitude) <= 90 &&
+    Math.abs(point.longitude) <= 180 &&
+    !(point.latitude === 0 && point.longitude === 0)
+  );
+}
+
+export function haversineDistanceKm(from: GeoPoint, to: GeoPoint) {
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Box that fully contains the circle around `center`, used to pre-filter rows in
+ * the database before the exact haversine check. Longitudes are clamped rather
+ * than wrapped, which is fine for Indonesia but not across the antimeridian.
+ */
+export function getBoundingBox(center: GeoPoint, radiusKm: number): GeoBoundingBox {
+  const latitudeDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const cosLatitude = Math.max(Math.cos(toRadians(center.latitude)), 0.01);
+  const longitudeDelta = latitudeDelta / cosLatitude;
+
+  return {
+    minLatitude: Math.max(center.latitude - latitudeDelta, -90),
+    maxLatitude: Math.min(center.latitude + latitudeDelta, 90),
+    minLongitude: Math.max(center.longitude - longitudeDelta, -180),
+    maxLongitude: Math.min(center.longitude + longitudeDelta, 180),
+  };
+}
+
+export function formatDistanceLabel(distanceKm: number) {
+  if (distanceKm < 1) return `${Math.max(Math.round(distanceKm * 1000), 10)} m`;
+  if (distanceKm < 10) return `${distanceKm.toFixed(1).replace('.', ',')} km`;
+  return `${Math.round(distanceKm)} km`;
+}
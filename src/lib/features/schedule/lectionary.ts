@@ -0,0 +1,544 @@
+import type { LiturgicalSundayCycle, LiturgicalWeekdayCycle } from '@/lib/types';
+
+// Lectionary for Mass tables for the temporal cycle. References use the
+// Indonesian book abbreviations (LAI), like the proper readings in
+// liturgical-calendar.ts.
+
+export type LectionaryReadings = {
+  first: string;
+  psalm: string;
+  second?: string;
+  gospel: string;
+};
+
+type SundaySet = [first: string, psalm: string, second: string, gospel: string];
+type WeekdaySet = [first: string, psalm: string, gospel: string];
+type WeekdayFirstReading = [first: string, psalm: string];
+
+// Sundays and the movable solemnities of the Lord, by Sunday cycle.
+const SUNDAY_READINGS: Record<string, Record<LiturgicalSundayCycle, SundaySet>> = {
+  'advent-1': {
+    A: ['Yes 2:1-5', 'Mzm 122:1-9', 'Rm 13:11-14a', 'Mat 24:37-44'],
+    B: ['Yes 63:16b-17,19b;64:2b-7', 'Mzm 80:2-3,15-16,18-19', '1Kor 1:3-9', 'Mrk 13:33-37'],
+    C: ['Yer 33:14-16', 'Mzm 25:4-5,8-10,14', '1Tes 3:12-4:2', 'Luk 21:25-28,34-36'],
+  },
+  'advent-2': {
+    A: ['Yes 11:1-10', 'Mzm 72:1-2,7-8,12-13,17', 'Rm 15:4-9', 'Mat 3:1-12'],
+    B: ['Yes 40:1-5,9-11', 'Mzm 85:9-14', '2Ptr 3:8-14', 'Mrk 1:1-8'],
+    C: ['Bar 5:1-9', 'Mzm 126:1-6', 'Flp 1:4-6,8-11', 'Luk 3:1-6'],
+  },
+  'advent-3': {
+    A: ['Yes 35:1-6a,10', 'Mzm 146:6-10', 'Yak 5:7-10', 'Mat 11:2-11'],
+    B: ['Yes 61:1-2a,10-11', 'Luk 1:46-50,53-54', '1Tes 5:16-24', 'Yoh 1:6-8,19-28'],
+    C: ['Zef 3:14-18a', 'Yes 12:2-6', 'Flp 4:4-7', 'Luk 3:10-18'],
+  },
+  'advent-4': {
+    A: ['Yes 7:10-14', 'Mzm 24:1-6', 'Rm 1:1-7', 'Mat 1:18-24'],
+    B: ['2Sam 7:1-5,8b-12,14a,16', 'Mzm 89:2-5,27,29', 'Rm 16:25-27', 'Luk 1:26-38'],
+    C: ['Mi 5:1-4a', 'Mzm 80:2-3,15-16,18-19', 'Ibr 10:5-10', 'Luk 1:39-45'],
+  },
+  'lent-1': {
+    A: ['Kej 2:7-9;3:1-7', 'Mzm 51:3-6,12-14,17', 'Rm 5:12-19', 'Mat 4:1-11'],
+    B: ['Kej 9:8-15', 'Mzm 25:4-9', '1Ptr 3:18-22', 'Mrk 1:12-15'],
+    C: ['Ul 26:4-10', 'Mzm 91:1-2,10-15', 'Rm 10:8-13', 'Luk 4:1-13'],
+  },
+  'lent-2': {
+    A: ['Kej 12:1-4a', 'Mzm 33:4-5,18-20,22', '2Tim 1:8b-10', 'Mat 17:1-9'],
+    B: ['Kej 22:1-2,9a,10-13,15-18', 'Mzm 116:10,15-19', 'Rm 8:31b-34', 'Mrk 9:2-10'],
+    C: ['Kej 15:5-12,17-18', 'Mzm 27:1,7-9,13-14', 'Flp 3:17-4:1', 'Luk 9:28-36'],
+  },
+  'lent-3': {
+    A: ['Kel 17:3-7', 'Mzm 95:1-2,6-9', 'Rm 5:1-2,5-8', 'Yoh 4:5-42'],
+    B: ['Kel 20:1-17', 'Mzm 19:8-11', '1Kor 1:22-25', 'Yoh 2:13-25'],
+    C: ['Kel 3:1-8a,13-15', 'Mzm 103:1-4,6-8,11', '1Kor 10:1-6,10-12', 'Luk 13:1-9'],
+  },
+  'lent-4': {
+    A: ['1Sam 16:1b,6-7,10-13a', 'Mzm 23:1-6', 'Ef 5:8-14', 'Yoh 9:1-41'],
+    B: ['2Taw 36:14-16,19-23', 'Mzm 137:1-6', 'Ef 2:4-10', 'Yoh 3:14-21'],
+    C: ['Yos 5:9a,10-12', 'Mzm 34:2-7', '2Kor 5:17-21', 'Luk 15:1-3,11-32'],
+  },
+  'lent-5': {
+    A: ['Yeh 37:12-14', 'Mzm 130:1-8', 'Rm 8:8-11', 'Yoh 11:1-45'],
+    B: ['Yer 31:31-34', 'Mzm 51:3-4,12-15', 'Ibr 5:7-9', 'Yoh 12:20-33'],
+    C: ['Yes 43:16-21', 'Mzm 126:1-6', 'Flp 3:8-14', 'Yoh 8:1-11'],
+  },
+  'easter-2': {
+    A: ['Kis 2:42-47', 'Mzm 118:2-4,13-15,22-24', '1Ptr 1:3-9', 'Yoh 20:19-31'],
+    B: ['Kis 4:32-35', 'Mzm 118:2-4,16-18,22-24', '1Yoh 5:1-6', 'Yoh 20:19-31'],
+    C: ['Kis 5:12-16', 'Mzm 118:2-4,22-27', 'Why 1:9-11a,12-13,17-19', 'Yoh 20:19-31'],
+  },
+  'easter-3': {
+    A: ['Kis 2:14,22-33', 'Mzm 16:1-2,5,7-11', '1Ptr 1:17-21', 'Luk 24:13-35'],
+    B: ['Kis 3:13-15,17-19', 'Mzm 4:2,4,7-9', '1Yoh 2:1-5a', 'Luk 24:35-48'],
+    C: ['Kis 5:27b-32,40b-41', 'Mzm 30:2,4-6,11-13', 'Why 5:11-14', 'Yoh 21:1-19'],
+  },
+  'easter-4': {
+    A: ['Kis 2:14a,36-41', 'Mzm 23:1-6', '1Ptr 2:20b-25', 'Yoh 10:1-10'],
+    B: ['Kis 4:8-12', 'Mzm 118:1,8-9,21-23,26,28-29', '1Yoh 3:1-2', 'Yoh 10:11-18'],
+    C: ['Kis 13:14,43-52', 'Mzm 100:1-3,5', 'Why 7:9,14b-17', 'Yoh 10:27-30'],
+  },
+  'easter-5': {
+    A: ['Kis 6:1-7', 'Mzm 33:1-2,4-5,18-19', '1Ptr 2:4-9', 'Yoh 14:1-12'],
+    B: ['Kis 9:26-31', 'Mzm 22:26-28,30-32', '1Yoh 3:18-24', 'Yoh 15:1-8'],
+    C: ['Kis 14:21-27', 'Mzm 145:8-13', 'Why 21:1-5a', 'Yoh 13:31-33a,34-35'],
+  },
+  'easter-6': {
+    A: ['Kis 8:5-8,14-17', 'Mzm 66:1-7,16,20', '1Ptr 3:15-18', 'Yoh 14:15-21'],
+    B: ['Kis 10:25-26,34-35,44-48', 'Mzm 98:1-4', '1Yoh 4:7-10', 'Yoh 15:9-17'],
+    C: ['Kis 15:1-2,22-29', 'Mzm 67:2-3,5-6,8', 'Why 21:10-14,22-23', 'Yoh 14:23-29'],
+  },
+  'easter-7': {
+    A: ['Kis 1:12-14', 'Mzm 27:1,4,7-8', '1Ptr 4:13-16', 'Yoh 17:1-11a'],
+    B: ['Kis 1:15-17,20a,20c-26', 'Mzm 103:1-2,11-12,19-20', '1Yoh 4:11-16', 'Yoh 17:11b-19'],
+    C: ['Kis 7:55-60', 'Mzm 97:1-2,6-7,9', 'Why 22:12-14,16-17,20', 'Yoh 17:20-26'],
+  },
+  trinity: {
+    A: ['Kel 34:4b-6,8-9', 'Dan 3:52-56', '2Kor 13:11-13', 'Yoh 3:16-18'],
+    B: ['Ul 4:32-34,39-40', 'Mzm 33:4-6,9,18-20,22', 'Rm 8:14-17', 'Mat 28:16-20'],
+    C: ['Ams 8:22-31', 'Mzm 8:4-9', 'Rm 5:1-5', 'Yoh 16:12-15'],
+  },
+  'corpus-christi': {
+    A: ['Ul 8:2-3,14b-16a', 'Mzm 147:12-15,19-20', '1Kor 10:16-17', 'Yoh 6:51-58'],
+    B: ['Kel 24:3-8', 'Mzm 116:12-13,15-18', 'Ibr 9:11-15', 'Mrk 14:12-16,22-26'],
+    C: ['Kej 14:18-20', 'Mzm 110:1-4', '1Kor 11:23-26', 'Luk 9:11b-17'],
+  },
+  'sacred-heart': {
+    A: ['Ul 7:6-11', 'Mzm 103:1-4,6-8,10', '1Yoh 4:7-16', 'Mat 11:25-30'],
+    B: ['Hos 11:1,3-4,8c-9', 'Yes 12:2-6', 'Ef 3:8-12,14-19', 'Yoh 19:31-37'],
+    C: ['Yeh 34:11-16', 'Mzm 23:1-6', 'Rm 5:5b-11', 'Luk 15:3-7'],
+  },
+  // Sundays in Ordinary Time 2-33; week 1 is the Baptism and week 34 Christ the King.
+  'ordinary-2': {
+    A: ['Yes 49:3,5-6', 'Mzm 40:2,4,7-10', '1Kor 1:1-3', 'Yoh 1:29-34'],
+    B: ['1Sam 3:3b-10,19', 'Mzm 40:2,4,7-10', '1Kor 6:13c-15a,17-20', 'Yoh 1:35-42'],
+    C: ['Yes 62:1-5', 'Mzm 96:1-3,7-10', '1Kor 12:4-11', 'Yoh 2:1-11'],
+  },
+  'ordinary-3': {
+    A: ['Yes 8:23-9:3', 'Mzm 27:1,4,13-14', '1Kor 1:10-13,17', 'Mat 4:12-23'],
+    B: ['Yun 3:1-5,10', 'Mzm 25:4-9', '1Kor 7:29-31', 'Mrk 1:14-20'],
+    C: ['Neh 8:2-4a,5-6,8-10', 'Mzm 19:8-10,15', '1Kor 12:12-30', 'Luk 1:1-4;4:14-21'],
+  },
+  'ordinary-4': {
+    A: ['Zef 2:3;3:12-13', 'Mzm 146:6-10', '1Kor 1:26-31', 'Mat 5:1-12a'],
+    B: ['Ul 18:15-20', 'Mzm 95:1-2,6-9', '1Kor 7:32-35', 'Mrk 1:21-28'],
+    C: ['Yer 1:4-5,17-19', 'Mzm 71:1-6,15,17', '1Kor 12:31-13:13', 'Luk 4:21-30'],
+  },
+  'ordinary-5': {
+    A: ['Yes 58:7-10', 'Mzm 112:4-9', '1Kor 2:1-5', 'Mat 5:13-16'],
+    B: ['Ayb 7:1-4,6-7', 'Mzm 147:1-6', '1Kor 9:16-19,22-23', 'Mrk 1:29-39'],
+    C: ['Yes 6:1-2a,3-8', 'Mzm 138:1-5,7-8', '1Kor 15:1-11', 'Luk 5:1-11'],
+  },
+  'ordinary-6': {
+    A: ['Sir 15:15-20', 'Mzm 119:1-2,4-5,17-18,33-34', '1Kor 2:6-10', 'Mat 5:17-37'],
+    B: ['Im 13:1-2,44-46', 'Mzm 32:1-2,5,11', '1Kor 10:31-11:1', 'Mrk 1:40-45'],
+    C: ['Yer 17:5-8', 'Mzm 1:1-4,6', '1Kor 15:12,16-20', 'Luk 6:17,20-26'],
+  },
+  'ordinary-7': {
+    A: ['Im 19:1-2,17-18', 'Mzm 103:1-4,8,10,12-13', '1Kor 3:16-23', 'Mat 5:38-48'],
+    B: ['Yes 43:18-19,21-22,24b-25', 'Mzm 41:2-5,13-14', '2Kor 1:18-22', 'Mrk 2:1-12'],
+    C: ['1Sam 26:2,7-9,12-13,22-23', 'Mzm 103:1-4,8,10,12-13', '1Kor 15:45-49', 'Luk 6:27-38'],
+  },
+  'ordinary-8': {
+    A: ['Yes 49:14-15', 'Mzm 62:2-3,6-9', '1Kor 4:1-5', 'Mat 6:24-34'],
+    B: ['Hos 2:16b,17b,21-22', 'Mzm 103:1-4,8,10,12-13', '2Kor 3:1b-6', 'Mrk 2:18-22'],
+    C: ['Sir 27:4-7', 'Mzm 92:2-3,13-16', '1Kor 15:54-58', 'Luk 6:39-45'],
+  },
+  'ordinary-9': {
+    A: ['Ul 11:18,26-28,32', 'Mzm 31:2-4,17,25', 'Rm 3:21-25,28', 'Mat 7:21-27'],
+    B: ['Ul 5:12-15', 'Mzm 81:3-8,10-11', '2Kor 4:6-11', 'Mrk 2:23-3:6'],
+    C: ['1Raj 8:41-43', 'Mzm 117:1-2', 'Gal 1:1-2,6-10', 'Luk 7:1-10'],
+  },
+  'ordinary-10': {
+    A: ['Hos 6:3-6', 'Mzm 50:1,8,12-15', 'Rm 4:18-25', 'Mat 9:9-13'],
+    B: ['Kej 3:9-15', 'Mzm 130:1-8', '2Kor 4:13-5:1', 'Mrk 3:20-35'],
+    C: ['1Raj 17:17-24', 'Mzm 30:2,4-6,11-13', 'Gal 1:11-19', 'Luk 7:11-17'],
+  },
+  'ordinary-11': {
+    A: ['Kel 19:2-6a', 'Mzm 100:1-3,5', 'Rm 5:6-11', 'Mat 9:36-10:8'],
+    B: ['Yeh 17:22-24', 'Mzm 92:2-3,13-16', '2Kor 5:6-10', 'Mrk 4:26-34'],
+    C: ['2Sam 12:7-10,13', 'Mzm 32:1-2,5,7,11', 'Gal 2:16,19-21', 'Luk 7:36-8:3'],
+  },
+  'ordinary-12': {
+    A: ['Yer 20:10-13', 'Mzm 69:8-10,14,17,33-35', 'Rm 5:12-15', 'Mat 10:26-33'],
+    B: ['Ayb 38:1,8-11', 'Mzm 107:23-26,28-31', '2Kor 5:14-17', 'Mrk 4:35-41'],
+    C: ['Za 12:10-11;13:1', 'Mzm 63:2-6,8-9', 'Gal 3:26-29', 'Luk 9:18-24'],
+  },
+  'ordinary-13': {
+    A: ['2Raj 4:8-11,14-16a', 'Mzm 89:2-3,16-19', 'Rm 6:3-4,8-11', 'Mat 10:37-42'],
+    B: ['Keb 1:13-15;2:23-24', 'Mzm 30:2,4-6,11-13', '2Kor 8:7,9,13-15', 'Mrk 5:21-43'],
+    C: ['1Raj 19:16b,19-21', 'Mzm 16:1-2,5,7-11', 'Gal 5:1,13-18', 'Luk 9:51-62'],
+  },
+  'ordinary-14': {
+    A: ['Za 9:9-10', 'Mzm 145:1-2,8-11,13-14', 'Rm 8:9,11-13', 'Mat 11:25-30'],
+    B: ['Yeh 2:2-5', 'Mzm 123:1-4', '2Kor 12:7-10', 'Mrk 6:1-6a'],
+    C: ['Yes 66:10-14c', 'Mzm 66:1-7,16,20', 'Gal 6:14-18', 'Luk 10:1-12,17-20'],
+  },
+  'ordinary-15': {
+    A: ['Yes 55:10-11', 'Mzm 65:10-14', 'Rm 8:18-23', 'Mat 13:1-23'],
+    B: ['Am 7:12-15', 'Mzm 85:9-14', 'Ef 1:3-14', 'Mrk 6:7-13'],
+    C: ['Ul 30:10-14', 'Mzm 69:14,17,30-31,33-34,36-37', 'Kol 1:15-20', 'Luk 10:25-37'],
+  },
+  'ordinary-16': {
+    A: ['Keb 12:13,16-19', 'Mzm 86:5-6,9-10,15-16', 'Rm 8:26-27', 'Mat 13:24-43'],
+    B: ['Yer 23:1-6', 'Mzm 23:1-6', 'Ef 2:13-18', 'Mrk 6:30-34'],
+    C: ['Kej 18:1-10a', 'Mzm 15:2-5', 'Kol 1:24-28', 'Luk 10:38-42'],
+  },
+  'ordinary-17': {
+    A: ['1Raj 3:5,7-12', 'Mzm 119:57,72,76-77,127-130', 'Rm 8:28-30', 'Mat 13:44-52'],
+    B: ['2Raj 4:42-44', 'Mzm 145:10-11,15-18', 'Ef 4:1-6', 'Yoh 6:1-15'],
+    C: ['Kej 18:20-32', 'Mzm 138:1-3,6-8', 'Kol 2:12-14', 'Luk 11:1-13'],
+  },
+  'ordinary-18': {
+    A: ['Yes 55:1-3', 'Mzm 145:8-9,15-18', 'Rm 8:35,37-39', 'Mat 14:13-21'],
+    B: ['Kel 16:2-4,12-15', 'Mzm 78:3-4,23-25,54', 'Ef 4:17,20-24', 'Yoh 6:24-35'],
+    C: ['Pkh 1:2;2:21-23', 'Mzm 90:3-6,12-14,17', 'Kol 3:1-5,9-11', 'Luk 12:13-21'],
+  },
+  'ordinary-19': {
+    A: ['1Raj 19:9a,11-13a', 'Mzm 85:9-14', 'Rm 9:1-5', 'Mat 14:22-33'],
+    B: ['1Raj 19:4-8', 'Mzm 34:2-9', 'Ef 4:30-5:2', 'Yoh 6:41-51'],
+    C: ['Keb 18:6-9', 'Mzm 33:1,12,18-22', 'Ibr 11:1-2,8-19', 'Luk 12:32-48'],
+  },
+  'ordinary-20': {
+    A: ['Yes 56:1,6-7', 'Mzm 67:2-3,5-6,8', 'Rm 11:13-15,29-32', 'Mat 15:21-28'],
+    B: ['Ams 9:1-6', 'Mzm 34:2-3,10-15', 'Ef 5:15-20', 'Yoh 6:51-58'],
+    C: ['Yer 38:4-6,8-10', 'Mzm 40:2-4,18', 'Ibr 12:1-4', 'Luk 12:49-53'],
+  },
+  'ordinary-21': {
+    A: ['Yes 22:19-23', 'Mzm 138:1-3,6,8', 'Rm 11:33-36', 'Mat 16:13-20'],
+    B: ['Yos 24:1-2a,15-17,18b', 'Mzm 34:2-3,16-23', 'Ef 5:21-32', 'Yoh 6:60-69'],
+    C: ['Yes 66:18-21', 'Mzm 117:1-2', 'Ibr 12:5-7,11-13', 'Luk 13:22-30'],
+  },
+  'ordinary-22': {
+    A: ['Yer 20:7-9', 'Mzm 63:2-6,8-9', 'Rm 12:1-2', 'Mat 16:21-27'],
+    B: ['Ul 4:1-2,6-8', 'Mzm 15:2-5', 'Yak 1:17-18,21b-22,27', 'Mrk 7:1-8,14-15,21-23'],
+    C: ['Sir 3:17-18,20,28-29', 'Mzm 68:4-7,10-11', 'Ibr 12:18-19,22-24a', 'Luk 14:1,7-14'],
+  },
+  'ordinary-23': {
+    A: ['Yeh 33:7-9', 'Mzm 95:1-2,6-9', 'Rm 13:8-10', 'Mat 18:15-20'],
+    B: ['Yes 35:4-7a', 'Mzm 146:7-10', 'Yak 2:1-5', 'Mrk 7:31-37'],
+    C: ['Keb 9:13-18b', 'Mzm 90:3-6,12-17', 'Flm 1:9b-10,12-17', 'Luk 14:25-33'],
+  },
+  'ordinary-24': {
+    A: ['Sir 27:30-28:7', 'Mzm 103:1-4,9-12', 'Rm 14:7-9', 'Mat 18:21-35'],
+    B: ['Yes 50:5-9a', 'Mzm 116:1-6,8-9', 'Yak 2:14-18', 'Mrk 8:27-35'],
+    C: ['Kel 32:7-11,13-14', 'Mzm 51:3-4,12-13,17,19', '1Tim 1:12-17', 'Luk 15:1-32'],
+  },
+  'ordinary-25': {
+    A: ['Yes 55:6-9', 'Mzm 145:2-3,8-9,17-18', 'Flp 1:20c-24,27a', 'Mat 20:1-16a'],
+    B: ['Keb 2:12,17-20', 'Mzm 54:3-6,8', 'Yak 3:16-4:3', 'Mrk 9:30-37'],
+    C: ['Am 8:4-7', 'Mzm 113:1-2,4-8', '1Tim 2:1-8', 'Luk 16:1-13'],
+  },
+  'ordinary-26': {
+    A: ['Yeh 18:25-28', 'Mzm 25:4-9', 'Flp 2:1-11', 'Mat 21:28-32'],
+    B: ['Bil 11:25-29', 'Mzm 19:8,10,12-14', 'Yak 5:1-6', 'Mrk 9:38-43,45,47-48'],
+    C: ['Am 6:1a,4-7', 'Mzm 146:7-10', '1Tim 6:11-16', 'Luk 16:19-31'],
+  },
+  'ordinary-27': {
+    A: ['Yes 5:1-7', 'Mzm 80:9,12-16,19-20', 'Flp 4:6-9', 'Mat 21:33-43'],
+    B: ['Kej 2:18-24', 'Mzm 128:1-6', 'Ibr 2:9-11', 'Mrk 10:2-16'],
+    C: ['Hab 1:2-3;2:2-4', 'Mzm 95:1-2,6-9', '2Tim 1:6-8,13-14', 'Luk 17:5-10'],
+  },
+  'ordinary-28': {
+    A: ['Yes 25:6-10a', 'Mzm 23:1-6', 'Flp 4:12-14,19-20', 'Mat 22:1-14'],
+    B: ['Keb 7:7-11', 'Mzm 90:12-17', 'Ibr 4:12-13', 'Mrk 10:17-30'],
+    C: ['2Raj 5:14-17', 'Mzm 98:1-4', '2Tim 2:8-13', 'Luk 17:11-19'],
+  },
+  'ordinary-29': {
+    A: ['Yes 45:1,4-6', 'Mzm 96:1,3-5,7-10', '1Tes 1:1-5b', 'Mat 22:15-21'],
+    B: ['Yes 53:10-11', 'Mzm 33:4-5,18-20,22', 'Ibr 4:14-16', 'Mrk 10:35-45'],
+    C: ['Kel 17:8-13', 'Mzm 121:1-8', '2Tim 3:14-4:2', 'Luk 18:1-8'],
+  },
+  'ordinary-30': {
+    A: ['Kel 22:20-26', 'Mzm 18:2-4,47,51', '1Tes 1:5c-10', 'Mat 22:34-40'],
+    B: ['Yer 31:7-9', 'Mzm 126:1-6', 'Ibr 5:1-6', 'Mrk 10:46-52'],
+    C: ['Sir 35:12-14,16-18', 'Mzm 34:2-3,17-19,23', '2Tim 4:6-8,16-18', 'Luk 18:9-14'],
+  },
+  'ordinary-31': {
+    A: ['Mal 1:14b-2:2b,8-10', 'Mzm 131:1-3', '1Tes 2:7b-9,13', 'Mat 23:1-12'],
+    B: ['Ul 6:2-6', 'Mzm 18:2-4,47,51', 'Ibr 7:23-28', 'Mrk 12:28b-34'],
+    C: ['Keb 11:22-12:2', 'Mzm 145:1-2,8-11,13-14', '2Tes 1:11-2:2', 'Luk 19:1-10'],
+  },
+  'ordinary-32': {
+    A: ['Keb 6:12-16', 'Mzm 63:2-8', '1Tes 4:13-18', 'Mat 25:1-13'],
+    B: ['1Raj 17:10-16', 'Mzm 146:7-10', 'Ibr 9:24-28', 'Mrk 12:38-44'],
+    C: ['2Mak 7:1-2,9-14', 'Mzm 17:1,5-6,8,15', '2Tes 2:16-3:5', 'Luk 20:27-38'],
+  },
+  'ordinary-33': {
+    A: ['Ams 31:10-13,19-20,30-31', 'Mzm 128:1-5', '1Tes 5:1-6', 'Mat 25:14-30'],
+    B: ['Dan 12:1-3', 'Mzm 16:5,8-11', 'Ibr 10:11-14,18', 'Mrk 13:24-32'],
+    C: ['Mal 3:19-20a', 'Mzm 98:5-9', '2Tes 3:7-12', 'Luk 21:5-19'],
+  },
+  'christ-the-king': {
+    A: ['Yeh 34:11-12,15-17', 'Mzm 23:1-3,5-6', '1Kor 15:20-26,28', 'Mat 25:31-46'],
+    B: ['Dan 7:13-14', 'Mzm 93:1-2,5', 'Why 1:5-8', 'Yoh 18:33b-37'],
+    C: ['2Sam 5:1-3', 'Mzm 122:1-5', 'Kol 1:12-20', 'Luk 23:35-43'],
+  },
+};
+
+// Weekdays of Advent, Christmas, Lent and Easter, which repeat every year.
+// Keys are `<season>-<week>-<weekday>` (weekday 1 = Monday) or, for the days
+// kept by date, `december-<day>` and `january-<day>`.
+const SEASONAL_WEEKDAY_READINGS: Record<string, WeekdaySet> = {
+  'advent-1-1': ['Yes 2:1-5', 'Mzm 122:1-9', 'Mat 8:5-11'],
+  'advent-1-2': ['Yes 11:1-10', 'Mzm 72:1-2,7-8,12-13,17', 'Luk 10:21-24'],
+  'advent-1-3': ['Yes 25:6-10a', 'Mzm 23:1-6', 'Mat 15:29-37'],
+  'advent-1-4': ['Yes 26:1-6', 'Mzm 118:1,8-9,19-21,25-27a', 'Mat 7:21,24-27'],
+  'advent-1-5': ['Yes 29:17-24', 'Mzm 27:1,4,13-14', 'Mat 9:27-31'],
+  'advent-1-6': ['Yes 30:19-21,23-26', 'Mzm 147:1-6', 'Mat 9:35-10:1,5a,6-8'],
+  'advent-2-1': ['Yes 35:1-10', 'Mzm 85:9-14', 'Luk 5:17-26'],
+  'advent-2-2': ['Yes 40:1-11', 'Mzm 96:1-3,10-13', 'Mat 18:12-14'],
+  'advent-2-3': ['Yes 40:25-31', 'Mzm 103:1-4,8,10', 'Mat 11:28-30'],
+  'advent-2-4': ['Yes 41:13-20', 'Mzm 145:1,9-13', 'Mat 11:11-15'],
+  'advent-2-5': ['Yes 48:17-19', 'Mzm 1:1-4,6', 'Mat 11:16-19'],
+  'advent-2-6': ['Sir 48:1-4,9-11', 'Mzm 80:2-3,15-16,18-19', 'Mat 17:9a,10-13'],
+  'advent-3-1': ['Bil 24:2-7,15-17a', 'Mzm 25:4-9', 'Mat 21:23-27'],
+  'advent-3-2': ['Zef 3:1-2,9-13', 'Mzm 34:2-3,6-7,17-19,23', 'Mat 21:28-32'],
+  'advent-3-3': ['Yes 45:6b-8,18,21b-25', 'Mzm 85:9-14', 'Luk 7:18b-23'],
+  'advent-3-4': ['Yes 54:1-10', 'Mzm 30:2,4-6,11-13', 'Luk 7:24-30'],
+  'advent-3-5': ['Yes 56:1-3a,6-8', 'Mzm 67:2-3,5,7-8', 'Yoh 5:33-36'],
+  'december-17': ['Kej 49:2,8-10', 'Mzm 72:1-4,7-8,17', 'Mat 1:1-17'],
+  'december-18': ['Yer 23:5-8', 'Mzm 72:1,12-13,18-19', 'Mat 1:18-25'],
+  'december-19': ['Hak 13:2-7,24-25a', 'Mzm 71:3-6,16-17', 'Luk 1:5-25'],
+  'december-20': ['Yes 7:10-14', 'Mzm 24:1-6', 'Luk 1:26-38'],
+  'december-21': ['Kid 2:8-14', 'Mzm 33:2-3,11-12,20-21', 'Luk 1:39-45'],
+  'december-22': ['1Sam 1:24-28', '1Sam 2:1,4-8', 'Luk 1:46-56'],
+  'december-23': ['Mal 3:1-4,23-24', 'Mzm 25:4-5,8-10,14', 'Luk 1:57-66'],
+  'december-24': ['2Sam 7:1-5,8b-12,14a,16', 'Mzm 89:2-5,27,29', 'Luk 1:67-79'],
+  'december-29': ['1Yoh 2:3-11', 'Mzm 96:1-3,5-6', 'Luk 2:22-35'],
+  'december-30': ['1Yoh 2:12-17', 'Mzm 96:7-10', 'Luk 2:36-40'],
+  'december-31': ['1Yoh 2:18-21', 'Mzm 96:1-2,11-13', 'Yoh 1:1-18'],
+  'january-2': ['1Yoh 2:22-28', 'Mzm 98:1-4', 'Yoh 1:19-28'],
+  'january-3': ['1Yoh 2:29-3:6', 'Mzm 98:1,3-6', 'Yoh 1:29-34'],
+  'january-4': ['1Yoh 3:7-10', 'Mzm 98:1,7-9', 'Yoh 1:35-42'],
+  'january-5': ['1Yoh 3:11-21', 'Mzm 100:1-5', 'Yoh 1:43-51'],
+  'january-6': ['1Yoh 5:5-13', 'Mzm 147:12-15,19-20', 'Mrk 1:7-11'],
+  'january-7': ['1Yoh 5:14-21', 'Mzm 149:1-6,9', 'Yoh 2:1-11'],
+  'epiphany-1-1': ['1Yoh 3:22-4:6', 'Mzm 2:7-8,10-12', 'Mat 4:12-17,23-25'],
+  'epiphany-1-2': ['1Yoh 4:7-10', 'Mzm 72:1-4,7-8', 'Mrk 6:34-44'],
+  'epiphany-1-3': ['1Yoh 4:11-18', 'Mzm 72:1-2,10-13', 'Mrk 6:45-52'],
+  'epiphany-1-4': ['1Yoh 4:19-5:4', 'Mzm 72:1-2,14-15,17', 'Luk 4:14-22a'],
+  'epiphany-1-5': ['1Yoh 5:5-13', 'Mzm 147:12-15,19-20', 'Luk 5:12-16'],
+  'epiphany-1-6': ['1Yoh 5:14-21', 'Mzm 149:1-6,9', 'Yoh 3:22-30'],
+  'lent-0-4': ['Ul 30:15-20', 'Mzm 1:1-4,6', 'Luk 9:22-25'],
+  'lent-0-5': ['Yes 58:1-9a', 'Mzm 51:3-6,18-19', 'Mat 9:14-15'],
+  'lent-0-6': ['Yes 58:9b-14', 'Mzm 86:1-6', 'Luk 5:27-32'],
+  'lent-1-1': ['Im 19:1-2,11-18', 'Mzm 19:8-10,15', 'Mat 25:31-46'],
+  'lent-1-2': ['Yes 55:10-11', 'Mzm 34:4-7,16-19', 'Mat 6:7-15'],
+  'lent-1-3': ['Yun 3:1-10', 'Mzm 51:3-4,12-13,18-19', 'Luk 11:29-32'],
+  'lent-1-4': ['Est 4:17n,p-r,aa-bb,gg-hh', 'Mzm 138:1-3,7c-8', 'Mat 7:7-12'],
+  'lent-1-5': ['Yeh 18:21-28', 'Mzm 130:1-8', 'Mat 5:20-26'],
+  'lent-1-6': ['Ul 26:16-19', 'Mzm 119:1-2,4-5,7-8', 'Mat 5:43-48'],
+  'lent-2-1': ['Dan 9:4b-10', 'Mzm 79:8-9,11,13', 'Luk 6:36-38'],
+  'lent-2-2': ['Yes 1:10,16-20', 'Mzm 50:8-9,16bc-17,21,23', 'Mat 23:1-12'],
+  'lent-2-3': ['Yer 18:18-20', 'Mzm 31:5-6,14-16', 'Mat 20:17-28'],
+  'lent-2-4': ['Yer 17:5-10', 'Mzm 1:1-4,6', 'Luk 16:19-31'],
+  'lent-2-5': ['Kej 37:3-4,12-13a,17b-28a', 'Mzm 105:16-21', 'Mat 21:33-43,45-46'],
+  'lent-2-6': ['Mi 7:14-15,18-20', 'Mzm 103:1-4,9-12', 'Luk 15:1-3,11-32'],
+  'lent-3-1': ['2Raj 5:1-15b', 'Mzm 42:2-3;43:3-4', 'Luk 4:24-30'],
+  'lent-3-2': ['Dan 3:25,34-43', 'Mzm 25:4-9', 'Mat 18:21-35'],
+  'lent-3-3': ['Ul 4:1,5-9', 'Mzm 147:12-13,15-16,19-20', 'Mat 5:17-19'],
+  'lent-3-4': ['Yer 7:23-28', 'Mzm 95:1-2,6-9', 'Luk 11:14-23'],
+  'lent-3-5': ['Hos 14:2-10', 'Mzm 81:6c-11b,14,17', 'Mrk 12:28-34'],
+  'lent-3-6': ['Hos 6:1-6', 'Mzm 51:3-4,18-21', 'Luk 18:9-14'],
+  'lent-4-1': ['Yes 65:17-21', 'Mzm 30:2,4-6,11-13', 'Yoh 4:43-54'],
+  'lent-4-2': ['Yeh 47:1-9,12', 'Mzm 46:2-3,5-6,8-9', 'Yoh 5:1-16'],
+  'lent-4-3': ['Yes 49:8-15', 'Mzm 145:8-9,13c-14,17-18', 'Yoh 5:17-30'],
+  'lent-4-4': ['Kel 32:7-14', 'Mzm 106:19-23', 'Yoh 5:31-47'],
+  'lent-4-5': ['Keb 2:1a,12-22', 'Mzm 34:17-21,23', 'Yoh 7:1-2,10,25-30'],
+  'lent-4-6': ['Yer 11:18-20', 'Mzm 7:2-3,9b-12', 'Yoh 7:40-53'],
+  'lent-5-1': ['Dan 13:1-9,15-17,19-30,33-62', 'Mzm 23:1-6', 'Yoh 8:1-11'],
+  'lent-5-2': ['Bil 21:4-9', 'Mzm 102:2-3,16-21', 'Yoh 8:21-30'],
+  'lent-5-3': ['Dan 3:14-20,91-92,95', 'Dan 3:52-56', 'Yoh 8:31-42'],
+  'lent-5-4': ['Kej 17:3-9', 'Mzm 105:4-9', 'Yoh 8:51-59'],
+  'lent-5-5': ['Yer 20:10-13', 'Mzm 18:2-7', 'Yoh 10:31-42'],
+  'lent-5-6': ['Yeh 37:21-28', 'Yer 31:10-13', 'Yoh 11:45-56'],
+  'lent-6-1': ['Yes 42:1-7', 'Mzm 27:1-3,13-14', 'Yoh 12:1-11'],
+  'lent-6-2': ['Yes 49:1-6', 'Mzm 71:1-6,15,17', 'Yoh 13:21-33,36-38'],
+  'lent-6-3': ['Yes 50:4-9a', 'Mzm 69:8-10,21-22,31,33-34', 'Mat 26:14-25'],
+  'easter-1-1': ['Kis 2:14,22-33', 'Mzm 16:1-2,5,7-11', 'Mat 28:8-15'],
+  'easter-1-2': ['Kis 2:36-41', 'Mzm 33:4-5,18-20,22', 'Yoh 20:11-18'],
+  'easter-1-3': ['Kis 3:1-10', 'Mzm 105:1-4,6-9', 'Luk 24:13-35'],
+  'easter-1-4': ['Kis 3:11-26', 'Mzm 8:2,5-9', 'Luk 24:35-48'],
+  'easter-1-5': ['Kis 4:1-12', 'Mzm 118:1-2,4,22-27', 'Yoh 21:1-14'],
+  'easter-1-6': ['Kis 4:13-21', 'Mzm 118:1,14-21', 'Mrk 16:9-15'],
+  'easter-2-1': ['Kis 4:23-31', 'Mzm 2:1-9', 'Yoh 3:1-8'],
+  'easter-2-2': ['Kis 4:32-37', 'Mzm 93:1-2,5', 'Yoh 3:7b-15'],
+  'easter-2-3': ['Kis 5:17-26', 'Mzm 34:2-9', 'Yoh 3:16-21'],
+  'easter-2-4': ['Kis 5:27-33', 'Mzm 34:2,9,17-20', 'Yoh 3:31-36'],
+  'easter-2-5': ['Kis 5:34-42', 'Mzm 27:1,4,13-14', 'Yoh 6:1-15'],
+  'easter-2-6': ['Kis 6:1-7', 'Mzm 33:1-2,4-5,18-19', 'Yoh 6:16-21'],
+  'easter-3-1': ['Kis 6:8-15', 'Mzm 119:23-24,26-27,29-30', 'Yoh 6:22-29'],
+  'easter-3-2': ['Kis 7:51-8:1a', 'Mzm 31:3cd-4,6,7b,8a,17,21ab', 'Yoh 6:30-35'],
+  'easter-3-3': ['Kis 8:1b-8', 'Mzm 66:1-7', 'Yoh 6:35-40'],
+  'easter-3-4': ['Kis 8:26-40', 'Mzm 66:8-9,16-17,20', 'Yoh 6:44-51'],
+  'easter-3-5': ['Kis 9:1-20', 'Mzm 117:1-2', 'Yoh 6:52-59'],
+  'easter-3-6': ['Kis 9:31-42', 'Mzm 116:12-17', 'Yoh 6:60-69'],
+  'easter-4-1': ['Kis 11:1-18', 'Mzm 42:2-3;43:3-4', 'Yoh 10:1-10'],
+  'easter-4-2': ['Kis 11:19-26', 'Mzm 87:1-7', 'Yoh 10:22-30'],
+  'easter-4-3': ['Kis 12:24-13:5a', 'Mzm 67:2-3,5-6,8', 'Yoh 12:44-50'],
+  'easter-4-4': ['Kis 13:13-25', 'Mzm 89:2-3,21-22,25,27', 'Yoh 13:16-20'],
+  'easter-4-5': ['Kis 13:26-33', 'Mzm 2:6-11', 'Yoh 14:1-6'],
+  'easter-4-6': ['Kis 13:44-52', 'Mzm 98:1-4', 'Yoh 14:7-14'],
+  'easter-5-1': ['Kis 14:5-18', 'Mzm 115:1-4,15-16', 'Yoh 14:21-26'],
+  'easter-5-2': ['Kis 14:19-28', 'Mzm 145:10-13,21', 'Yoh 14:27-31a'],
+  'easter-5-3': ['Kis 15:1-6', 'Mzm 122:1-5', 'Yoh 15:1-8'],
+  'easter-5-4': ['Kis 15:7-21', 'Mzm 96:1-3,10', 'Yoh 15:9-11'],
+  'easter-5-5': ['Kis 15:22-31', 'Mzm 57:8-10,12', 'Yoh 15:12-17'],
+  'easter-5-6': ['Kis 16:1-10', 'Mzm 100:1-3,5', 'Yoh 15:18-21'],
+  'easter-6-1': ['Kis 16:11-15', 'Mzm 149:1-6,9', 'Yoh 15:26-16:4a'],
+  'easter-6-2': ['Kis 16:22-34', 'Mzm 138:1-3,7-8', 'Yoh 16:5-11'],
+  'easter-6-3': ['Kis 17:15,22-18:1', 'Mzm 148:1-2,11-14', 'Yoh 16:12-15'],
+  'easter-6-4': ['Kis 18:1-8', 'Mzm 98:1-4', 'Yoh 16:16-20'],
+  'easter-6-5': ['Kis 18:9-18', 'Mzm 47:2-7', 'Yoh 16:20-23'],
+  'easter-6-6': ['Kis 18:23-28', 'Mzm 47:2-3,8-10', 'Yoh 16:23b-28'],
+  'easter-7-1': ['Kis 19:1-8', 'Mzm 68:2-7', 'Yoh 16:29-33'],
+  'easter-7-2': ['Kis 20:17-27', 'Mzm 68:10-11,20-21', 'Yoh 17:1-11a'],
+  'easter-7-3': ['Kis 20:28-38', 'Mzm 68:29-30,33-36', 'Yoh 17:11b-19'],
+  'easter-7-4': ['Kis 22:30;23:6-11', 'Mzm 16:1-2,5,7-11', 'Yoh 17:20-26'],
+  'easter-7-5': ['Kis 25:13b-21', 'Mzm 103:1-2,11-12,19-20', 'Yoh 21:15-19'],
+  'easter-7-6': ['Kis 28:16-20,30-31', 'Mzm 11:4-5,7', 'Yoh 21:20-25'],
+};
+
+// Weekdays in Ordinary Time, weeks 1-34, Monday to Saturday. The gospel is the
+// same in both years; the first reading and psalm follow the weekday cycle.
+const ORDINARY_WEEKDAY_GOSPELS: string[][] = [
+  ['Mrk 1:14-20', 'Mrk 1:21-28', 'Mrk 1:29-39', 'Mrk 1:40-45', 'Mrk 2:1-12', 'Mrk 2:13-17'],
+  ['Mrk 2:18-22', 'Mrk 2:23-28', 'Mrk 3:1-6', 'Mrk 3:7-12', 'Mrk 3:13-19', 'Mrk 3:20-21'],
+  ['Mrk 3:22-30', 'Mrk 3:31-35', 'Mrk 4:1-20', 'Mrk 4:21-25', 'Mrk 4:26-34', 'Mrk 4:35-41'],
+  ['Mrk 5:1-20', 'Mrk 5:21-43', 'Mrk 6:1-6', 'Mrk 6:7-13', 'Mrk 6:14-29', 'Mrk 6:30-34'],
+  ['Mrk 6:53-56', 'Mrk 7:1-13', 'Mrk 7:14-23', 'Mrk 7:24-30', 'Mrk 7:31-37', 'Mrk 8:1-10'],
+  ['Mrk 8:11-13', 'Mrk 8:14-21', 'Mrk 8:22-26', 'Mrk 8:27-33', 'Mrk 8:34-9:1', 'Mrk 9:2-13'],
+  ['Mrk 9:14-29', 'Mrk 9:30-37', 'Mrk 9:38-40', 'Mrk 9:41-50', 'Mrk 10:1-12', 'Mrk 10:13-16'],
+  ['Mrk 10:17-27', 'Mrk 10:28-31', 'Mrk 10:32-45', 'Mrk 10:46-52', 'Mrk 11:11-26', 'Mrk 11:27-33'],
+  ['Mrk 12:1-12', 'Mrk 12:13-17', 'Mrk 12:18-27', 'Mrk 12:28b-34', 'Mrk 12:35-37', 'Mrk 12:38-44'],
+  ['Mat 5:1-12', 'Mat 5:13-16', 'Mat 5:17-19', 'Mat 5:20-26', 'Mat 5:27-32', 'Mat 5:33-37'],
+  ['Mat 5:38-42', 'Mat 5:43-48', 'Mat 6:1-6,16-18', 'Mat 6:7-15', 'Mat 6:19-23', 'Mat 6:24-34'],
+  ['Mat 7:1-5', 'Mat 7:6,12-14', 'Mat 7:15-20', 'Mat 7:21-29', 'Mat 8:1-4', 'Mat 8:5-17'],
+  ['Mat 8:18-22', 'Mat 8:23-27', 'Mat 8:28-34', 'Mat 9:1-8', 'Mat 9:9-13', 'Mat 9:14-17'],
+  ['Mat 9:18-26', 'Mat 9:32-38', 'Mat 10:1-7', 'Mat 10:7-15', 'Mat 10:16-23', 'Mat 10:24-33'],
+  ['Mat 10:34-11:1', 'Mat 11:20-24', 'Mat 11:25-27', 'Mat 11:28-30', 'Mat 12:1-8', 'Mat 12:14-21'],
+  ['Mat 12:38-42', 'Mat 12:46-50', 'Mat 13:1-9', 'Mat 13:10-17', 'Mat 13:18-23', 'Mat 13:24-30'],
+  ['Mat 13:31-35', 'Mat 13:36-43', 'Mat 13:44-46', 'Mat 13:47-53', 'Mat 13:54-58', 'Mat 14:1-12'],
+  ['Mat 14:13-21', 'Mat 14:22-36', 'Mat 15:21-28', 'Mat 16:13-23', 'Mat 16:24-28', 'Mat 17:14-20'],
+  ['Mat 17:22-27', 'Mat 18:1-5,10,12-14', 'Mat 18:15-20', 'Mat 18:21-19:1', 'Mat 19:3-12', 'Mat 19:13-15'],
+  ['Mat 19:16-22', 'Mat 19:23-30', 'Mat 20:1-16', 'Mat 22:1-14', 'Mat 22:34-40', 'Mat 23:1-12'],
+  ['Mat 23:13-22', 'Mat 23:23-26', 'Mat 23:27-32', 'Mat 24:42-51', 'Mat 25:1-13', 'Mat 25:14-30'],
+  ['Luk 4:16-30', 'Luk 4:31-37', 'Luk 4:38-44', 'Luk 5:1-11', 'Luk 5:33-39', 'Luk 6:1-5'],
+  ['Luk 6:6-11', 'Luk 6:12-19', 'Luk 6:20-26', 'Luk 6:27-38', 'Luk 6:39-42', 'Luk 6:43-49'],
+  ['Luk 7:1-10', 'Luk 7:11-17', 'Luk 7:31-35', 'Luk 7:36-50', 'Luk 8:1-3', 'Luk 8:4-15'],
+  ['Luk 8:16-18', 'Luk 8:19-21', 'Luk 9:1-6', 'Luk 9:7-9', 'Luk 9:18-22', 'Luk 9:43b-45'],
+  ['Luk 9:46-50', 'Luk 9:51-56', 'Luk 9:57-62', 'Luk 10:1-12', 'Luk 10:13-16', 'Luk 10:17-24'],
+  ['Luk 10:25-37', 'Luk 10:38-42', 'Luk 11:1-4', 'Luk 11:5-13', 'Luk 11:15-26', 'Luk 11:27-28'],
+  ['Luk 11:29-32', 'Luk 11:37-41', 'Luk 11:42-46', 'Luk 11:47-54', 'Luk 12:1-7', 'Luk 12:8-12'],
+  ['Luk 12:13-21', 'Luk 12:35-38', 'Luk 12:39-48', 'Luk 12:49-53', 'Luk 12:54-59', 'Luk 13:1-9'],
+  ['Luk 13:10-17', 'Luk 13:18-21', 'Luk 13:22-30', 'Luk 13:31-35', 'Luk 14:1-6', 'Luk 14:1,7-11'],
+  ['Luk 14:12-14', 'Luk 14:15-24', 'Luk 14:25-33', 'Luk 15:1-10', 'Luk 16:1-8', 'Luk 16:9-15'],
+  ['Luk 17:1-6', 'Luk 17:7-10', 'Luk 17:11-19', 'Luk 17:20-25', 'Luk 17:26-37', 'Luk 18:1-8'],
+  ['Luk 18:35-43', 'Luk 19:1-10', 'Luk 19:11-28', 'Luk 19:41-44', 'Luk 19:45-48', 'Luk 20:27-40'],
+  ['Luk 21:1-4', 'Luk 21:5-11', 'Luk 21:12-19', 'Luk 21:20-28', 'Luk 21:29-33', 'Luk 21:34-36'],
+];
+
+const ORDINARY_WEEKDAY_READINGS: Record<LiturgicalWeekdayCycle, WeekdayFirstReading[][]> = {
+  I: [
+    [['Ibr 1:1-6', 'Mzm 97:1-2,6-7,9'], ['Ibr 2:5-12', 'Mzm 8:2,5-9'], ['Ibr 2:14-18', 'Mzm 105:1-4,6-9'], ['Ibr 3:7-14', 'Mzm 95:6-11'], ['Ibr 4:1-5,11', 'Mzm 78:3,4bc,6c-8'], ['Ibr 4:12-16', 'Mzm 19:8-10,15']],
+    [['Ibr 5:1-10', 'Mzm 110:1-4'], ['Ibr 6:10-20', 'Mzm 111:1-2,4-5,9,10c'], ['Ibr 7:1-3,15-17', 'Mzm 110:1-4'], ['Ibr 7:25-8:6', 'Mzm 40:7-10,17'], ['Ibr 8:6-13', 'Mzm 85:8,10-14'], ['Ibr 9:2-3,11-14', 'Mzm 47:2-3,6-9']],
+    [['Ibr 9:15,24-28', 'Mzm 98:1-6'], ['Ibr 10:1-10', 'Mzm 40:2,4,7-11'], ['Ibr 10:11-18', 'Mzm 110:1-4'], ['Ibr 10:19-25', 'Mzm 24:1-6'], ['Ibr 10:32-39', 'Mzm 37:3-6,23-24,39-40'], ['Ibr 11:1-2,8-19', 'Luk 1:69-75']],
+    [['Ibr 11:32-40', 'Mzm 31:20-24'], ['Ibr 12:1-4', 'Mzm 22:26b-28,30-32'], ['Ibr 12:4-7,11-15', 'Mzm 103:1-2,13-14,17-18a'], ['Ibr 12:18-19,21-24', 'Mzm 48:2-4,9-11'], ['Ibr 13:1-8', 'Mzm 27:1,3,5,8b-9abc'], ['Ibr 13:15-17,20-21', 'Mzm 23:1-6']],
+    [['Kej 1:1-19', 'Mzm 104:1-2a,5-6,10,12,24,35c'], ['Kej 1:20-2:4a', 'Mzm 8:4-9'], ['Kej 2:4b-9,15-17', 'Mzm 104:1-2a,27-30'], ['Kej 2:18-25', 'Mzm 128:1-5'], ['Kej 3:1-8', 'Mzm 32:1-2,5-7'], ['Kej 3:9-24', 'Mzm 90:2-6,12-13']],
+    [['Kej 4:1-15,25', 'Mzm 50:1,8,16bc-17,20-21'], ['Kej 6:5-8;7:1-5,10', 'Mzm 29:1a,2,3ac-4,3b,9b-10'], ['Kej 8:6-13,20-22', 'Mzm 116:12-15,18-19'], ['Kej 9:1-13', 'Mzm 102:16-21,29,22-23'], ['Kej 11:1-9', 'Mzm 33:10-15'], ['Ibr 11:1-7', 'Mzm 145:2-5,10-11']],
+    [['Sir 1:1-10', 'Mzm 93:1-2,5'], ['Sir 2:1-11', 'Mzm 37:3-4,18-19,27-28,39-40'], ['Sir 4:11-19', 'Mzm 119:165,168,171-172,174-175'], ['Sir 5:1-8', 'Mzm 1:1-4,6'], ['Sir 6:5-17', 'Mzm 119:12,16,18,27,34-35'], ['Sir 17:1-15', 'Mzm 103:13-18']],
+    [['Sir 17:20-24', 'Mzm 32:1-2,5-7'], ['Sir 35:1-12', 'Mzm 50:5-8,14,23'], ['Sir 36:1,4-5a,10-17', 'Mzm 79:8-9,11,13'], ['Sir 42:15-25', 'Mzm 33:2-9'], ['Sir 44:1,9-13', 'Mzm 149:1-6a,9b'], ['Sir 51:12-20', 'Mzm 19:8-11']],
+    [['Tob 1:3;2:1a-8', 'Mzm 112:1-6'], ['Tob 2:9-14', 'Mzm 112:1-2,7-9'], ['Tob 3:1-11a,16-17a', 'Mzm 25:2-5ab,6-7bc,8-9'], ['Tob 6:10-11;7:1bcde,9-17;8:4-9a', 'Mzm 128:1-5'], ['Tob 11:5-17', 'Mzm 146:1-2,6c-10'], ['Tob 12:1,5-15,20', 'Tob 13:2,6efgh-8']],
+    [['2Kor 1:1-7', 'Mzm 34:2-9'], ['2Kor 1:18-22', 'Mzm 119:129-133,135'], ['2Kor 3:4-11', 'Mzm 99:5-9'], ['2Kor 3:15-4:1,3-6', 'Mzm 85:9ab-14'], ['2Kor 4:7-15', 'Mzm 116:10-11,15-18'], ['2Kor 5:14-21', 'Mzm 103:1-4,9-12']],
+    [['2Kor 6:1-10', 'Mzm 98:1-4'], ['2Kor 8:1-9', 'Mzm 146:2,5-9a'], ['2Kor 9:6-11', 'Mzm 112:1bc-4,9'], ['2Kor 11:1-11', 'Mzm 111:1b-4,7-8'], ['2Kor 11:18,21-30', 'Mzm 34:2-7'], ['2Kor 12:1-10', 'Mzm 34:8-13']],
+    [['Kej 12:1-9', 'Mzm 33:12-13,18-20,22'], ['Kej 13:2,5-18', 'Mzm 15:2-5'], ['Kej 15:1-12,17-18', 'Mzm 105:1-4,6-9'], ['Kej 16:1-12,15-16', 'Mzm 106:1b-5'], ['Kej 17:1,9-10,15-22', 'Mzm 128:1-5'], ['Kej 18:1-15', 'Luk 1:46-50,53-55']],
+    [['Kej 18:16-33', 'Mzm 103:1b-4,8-11'], ['Kej 19:15-29', 'Mzm 26:2-3,9-12'], ['Kej 21:5,8-20', 'Mzm 34:7-8,10-13'], ['Kej 22:1-19', 'Mzm 115:1-6,8-9'], ['Kej 23:1-4,19;24:1-8,62-67', 'Mzm 106:1b-5'], ['Kej 27:1-5,15-29', 'Mzm 135:1b-6']],
+    [['Kej 28:10-22a', 'Mzm 91:1-4,14-15ab'], ['Kej 32:22-32', 'Mzm 17:1b,2-3,6-7ab,8b,15'], ['Kej 41:55-57;42:5-7a,17-24a', 'Mzm 33:2-3,10-11,18-19'], ['Kej 44:18-21,23b-29;45:1-5', 'Mzm 105:16-21'], ['Kej 46:1-7,28-30', 'Mzm 37:3-4,18-19,27-28,39-40'], ['Kej 49:29-32;50:15-26a', 'Mzm 105:1-4,6-7']],
+    [['Kel 1:8-14,22', 'Mzm 124:1b-8'], ['Kel 2:1-15a', 'Mzm 69:3,14,30-31,33-34'], ['Kel 3:1-6,9-12', 'Mzm 103:1b-4,6-7'], ['Kel 3:13-20', 'Mzm 105:1,5,8-9,24-27'], ['Kel 11:10-12:14', 'Mzm 116:12-13,15-18'], ['Kel 12:37-42', 'Mzm 136:1,23-24,10-15']],
+    [['Kel 14:5-18', 'Kel 15:1bc-6'], ['Kel 14:21-15:1', 'Kel 15:8-10,12,17'], ['Kel 16:1-5,9-15', 'Mzm 78:18-19,23-28'], ['Kel 19:1-2,9-11,16-20b', 'Dan 3:52-56'], ['Kel 20:1-17', 'Mzm 19:8-11'], ['Kel 24:3-8', 'Mzm 50:1b-2,5-6,14-15']],
+    [['Kel 32:15-24,30-34', 'Mzm 106:19-23'], ['Kel 33:7-11;34:5b-9,28', 'Mzm 103:6-13'], ['Kel 34:29-35', 'Mzm 99:5-7,9'], ['Kel 40:16-21,34-38', 'Mzm 84:3-6a,8a,11'], ['Im 23:1,4-11,15-16,27,34b-37', 'Mzm 81:3-6,10-11ab'], ['Im 25:1,8-17', 'Mzm 67:2-3,5,7-8']],
+    [['Bil 11:4b-15', 'Mzm 81:12-17'], ['Bil 12:1-13', 'Mzm 51:3-7,12-13'], ['Bil 13:1-2,25-14:1,26-29a,34-35', 'Mzm 106:6-7ab,13-14,21-23'], ['Bil 20:1-13', 'Mzm 95:1-2,6-9'], ['Ul 4:32-40', 'Mzm 77:12-16,21'], ['Ul 6:4-13', 'Mzm 18:2-4,47,51']],
+    [['Ul 10:12-22', 'Mzm 147:12-15,19-20'], ['Ul 31:1-8', 'Ul 32:3-4ab,7-9,12'], ['Ul 34:1-12', 'Mzm 66:1-3a,5,16-17'], ['Yos 3:7-10a,11,13-17', 'Mzm 114:1-6'], ['Yos 24:1-13', 'Mzm 136:1-3,16-18,21-22,24'], ['Yos 24:14-29', 'Mzm 16:1-2a,5,7-8,11']],
+    [['Hak 2:11-19', 'Mzm 106:34-37,39-40,43ab,44'], ['Hak 6:11-24a', 'Mzm 85:9,11-14'], ['Hak 9:6-15', 'Mzm 21:2-7'], ['Hak 11:29-39a', 'Mzm 40:5,7-10'], ['Rut 1:1,3-6,14b-16,22', 'Mzm 146:5-10'], ['Rut 2:1-3,8-11;4:13-17', 'Mzm 128:1b-5']],
+    [['1Tes 1:1-5,8b-10', 'Mzm 149:1b-6a,9b'], ['1Tes 2:1-8', 'Mzm 139:1-6'], ['1Tes 2:9-13', 'Mzm 139:7-12ab'], ['1Tes 3:7-13', 'Mzm 90:3-5a,12-14,17'], ['1Tes 4:1-8', 'Mzm 97:1,2b,5-6,10-12'], ['1Tes 4:9-11', 'Mzm 98:1,7-9']],
+    [['1Tes 4:13-18', 'Mzm 96:1,3-5,11-13'], ['1Tes 5:1-6,9-11', 'Mzm 27:1,4,13-14'], ['Kol 1:1-8', 'Mzm 52:10-11'], ['Kol 1:9-14', 'Mzm 98:2-6'], ['Kol 1:15-20', 'Mzm 100:1b-5'], ['Kol 1:21-23', 'Mzm 54:3-4,6,8']],
+    [['Kol 1:24-2:3', 'Mzm 62:6-7,9'], ['Kol 2:6-15', 'Mzm 145:1b-2,8-11'], ['Kol 3:1-11', 'Mzm 145:2-3,10-13ab'], ['Kol 3:12-17', 'Mzm 150:1b-6'], ['1Tim 1:1-2,12-14', 'Mzm 16:1b-2a,5,7-8,11'], ['1Tim 1:15-17', 'Mzm 113:1b-7']],
+    [['1Tim 2:1-8', 'Mzm 28:2,7-9'], ['1Tim 3:1-13', 'Mzm 101:1b-3,5-6'], ['1Tim 3:14-16', 'Mzm 111:1-6'], ['1Tim 4:12-16', 'Mzm 111:7-10'], ['1Tim 6:2c-12', 'Mzm 49:6-10,17-20'], ['1Tim 6:13-16', 'Mzm 100:1b-5']],
+    [['Ezr 1:1-6', 'Mzm 126:1b-6'], ['Ezr 6:7-8,12b,14-20', 'Mzm 122:1-5'], ['Ezr 9:5-9', 'Tob 13:2,3-4a,4befghn,7-8'], ['Hag 1:1-8', 'Mzm 149:1b-6a,9b'], ['Hag 2:1-9', 'Mzm 43:1-4'], ['Za 2:5-9,14-15a', 'Yer 31:10-12ab,13']],
+    [['Za 8:1-8', 'Mzm 102:16-21,29,22-23'], ['Za 8:20-23', 'Mzm 87:1b-7'], ['Neh 2:1-8', 'Mzm 137:1-6'], ['Neh 8:1-4a,5-6,7b-12', 'Mzm 19:8-11'], ['Bar 1:15-22', 'Mzm 79:1b-5,8-9'], ['Bar 4:5-12,27-29', 'Mzm 69:33-37']],
+    [['Yun 1:1-2:1,11', 'Yun 2:3-5,8'], ['Yun 3:1-10', 'Mzm 130:1b-4ab,7-8'], ['Yun 4:1-11', 'Mzm 86:3-6,9-10'], ['Mal 3:13-20a', 'Mzm 1:1-4,6'], ['Yl 1:13-15;2:1-2', 'Mzm 9:2-3,6,16,8-9'], ['Yl 4:12-21', 'Mzm 97:1-2,5-6,11-12']],
+    [['Rm 1:1-7', 'Mzm 98:1-4'], ['Rm 1:16-25', 'Mzm 19:2-5'], ['Rm 2:1-11', 'Mzm 62:2-3,6-7,9'], ['Rm 3:21-30', 'Mzm 130:1b-6ab'], ['Rm 4:1-8', 'Mzm 32:1b-2,5,11'], ['Rm 4:13,16-18', 'Mzm 105:6-9,42-43']],
+    [['Rm 4:20-25', 'Luk 1:69-75'], ['Rm 5:12,15b,17-19,20b-21', 'Mzm 40:7-10,17'], ['Rm 6:12-18', 'Mzm 124:1b-8'], ['Rm 6:19-23', 'Mzm 1:1-4,6'], ['Rm 7:18-25a', 'Mzm 119:66,68,76-77,93-94'], ['Rm 8:1-11', 'Mzm 24:1b-4ab,5-6']],
+    [['Rm 8:12-17', 'Mzm 68:2,4,6-7ab,20-21'], ['Rm 8:18-25', 'Mzm 126:1b-6'], ['Rm 8:26-30', 'Mzm 13:4-6'], ['Rm 8:31b-39', 'Mzm 109:21-22,26-27,30-31'], ['Rm 9:1-5', 'Mzm 147:12-15,19-20'], ['Rm 11:1-2a,11-12,25-29', 'Mzm 94:12-15,17-18']],
+    [['Rm 11:29-36', 'Mzm 69:30-31,33-34,36'], ['Rm 12:5-16b', 'Mzm 131:1-3'], ['Rm 13:8-10', 'Mzm 112:1b-2,4-5,9'], ['Rm 14:7-12', 'Mzm 27:1,4,13-14'], ['Rm 15:14-21', 'Mzm 98:1-4'], ['Rm 16:3-9,16,22-27', 'Mzm 145:2-5,10-11']],
+    [['Keb 1:1-7', 'Mzm 139:1b-10'], ['Keb 2:23-3:9', 'Mzm 34:2-3,16-19'], ['Keb 6:1-11', 'Mzm 82:3-4,6-7'], ['Keb 7:22b-8:1', 'Mzm 119:89-91,130,135,175'], ['Keb 13:1-9', 'Mzm 19:2-5ab'], ['Keb 18:14-16;19:6-9', 'Mzm 105:2-3,36-37,42-43']],
+    [['1Mak 1:10-15,41-43,54-57,62-63', 'Mzm 119:53,61,134,150,155,158'], ['2Mak 6:18-31', 'Mzm 3:2-7'], ['2Mak 7:1,20-31', 'Mzm 17:1bcd,5-6,8b,15'], ['1Mak 2:15-29', 'Mzm 50:1b-2,5-6,14-15'], ['1Mak 4:36-37,52-59', '1Taw 29:10bcd-12'], ['1Mak 6:1-13', 'Mzm 9:2-4,6,16,19']],
+    [['Dan 1:1-6,8-20', 'Dan 3:52-56'], ['Dan 2:31-45', 'Dan 3:57-61'], ['Dan 5:1-6,13-14,16-17,23-28', 'Dan 3:62-67'], ['Dan 6:12-28', 'Dan 3:68-74'], ['Dan 7:2-14', 'Dan 3:75-81'], ['Dan 7:15-27', 'Dan 3:82-87']],
+  ],
+  II: [
+    [['1Sam 1:1-8', 'Mzm 116:12-14,17-19'], ['1Sam 1:9-20', '1Sam 2:1,4-8'], ['1Sam 3:1-10,19-20', 'Mzm 40:2,5,7-10'], ['1Sam 4:1-11', 'Mzm 44:10-11,14-15,24-25'], ['1Sam 8:4-7,10-22a', 'Mzm 89:16-19'], ['1Sam 9:1-4,17-19;10:1a', 'Mzm 21:2-7']],
+    [['1Sam 15:16-23', 'Mzm 50:8-9,16bc-17,21,23'], ['1Sam 16:1-13', 'Mzm 89:20-22,27-28'], ['1Sam 17:32-33,37,40-51', 'Mzm 144:1b,2,9-10'], ['1Sam 18:6-9;19:1-7', 'Mzm 56:2-3,9-13'], ['1Sam 24:3-21', 'Mzm 57:2-4,6,11'], ['2Sam 1:1-4,11-12,19,23-27', 'Mzm 80:2-3,5-7']],
+    [['2Sam 5:1-7,10', 'Mzm 89:20-22,25-26'], ['2Sam 6:12b-15,17-19', 'Mzm 24:7-10'], ['2Sam 7:4-17', 'Mzm 89:4-5,27-30'], ['2Sam 7:18-19,24-29', 'Mzm 132:1-5,11-14'], ['2Sam 11:1-4a,5-10a,13-17', 'Mzm 51:3-7,10-11'], ['2Sam 12:1-7a,10-17', 'Mzm 51:12-17']],
+    [['2Sam 15:13-14,30;16:5-13', 'Mzm 3:2-7'], ['2Sam 18:9-10,14b,24-25a,30-19:3', 'Mzm 86:1-6'], ['2Sam 24:2,9-17', 'Mzm 32:1-2,5-7'], ['1Raj 2:1-4,10-12', '1Taw 29:10-12'], ['Sir 47:2-11', 'Mzm 18:31,47,50-51'], ['1Raj 3:4-13', 'Mzm 119:9-14']],
+    [['1Raj 8:1-7,9-13', 'Mzm 132:6-10'], ['1Raj 8:22-23,27-30', 'Mzm 84:3-5,10-11'], ['1Raj 10:1-10', 'Mzm 37:5-6,30-31,39-40'], ['1Raj 11:4-13', 'Mzm 106:3-4,35-37,40'], ['1Raj 11:29-32;12:19', 'Mzm 81:10-15'], ['1Raj 12:26-32;13:33-34', 'Mzm 106:6-7ab,19-22']],
+    [['Yak 1:1-11', 'Mzm 119:67-68,71-72,75-76'], ['Yak 1:12-18', 'Mzm 94:12-15,18-19'], ['Yak 1:19-27', 'Mzm 15:2-5'], ['Yak 2:1-9', 'Mzm 34:2-7'], ['Yak 2:14-24,26', 'Mzm 112:1-6'], ['Yak 3:1-10', 'Mzm 12:2-5,7-8']],
+    [['Yak 3:13-18', 'Mzm 19:8-10,15'], ['Yak 4:1-10', 'Mzm 55:7-11a,23'], ['Yak 4:13-17', 'Mzm 49:2-3,6-11'], ['Yak 5:1-6', 'Mzm 49:14-20'], ['Yak 5:9-12', 'Mzm 103:1-4,8-9,11-12'], ['Yak 5:13-20', 'Mzm 141:1-3,8']],
+    [['1Ptr 1:3-9', 'Mzm 111:1-2,5-6,9,10c'], ['1Ptr 1:10-16', 'Mzm 98:1-4'], ['1Ptr 1:18-25', 'Mzm 147:12-15,19-20'], ['1Ptr 2:2-5,9-12', 'Mzm 100:2-5'], ['1Ptr 4:7-13', 'Mzm 96:10-13'], ['Yud 1:17,20b-25', 'Mzm 63:2-6']],
+    [['2Ptr 1:2-7', 'Mzm 91:1-2,14-16'], ['2Ptr 3:12-15a,17-18', 'Mzm 90:2-4,10,14,16'], ['2Tim 1:1-3,6-12', 'Mzm 123:1b-2'], ['2Tim 2:8-15', 'Mzm 25:4-5ab,8-10,14'], ['2Tim 3:10-17', 'Mzm 119:157,160-161,165-166,168'], ['2Tim 4:1-8', 'Mzm 71:8-9,14-15ab,16-17,22']],
+    [['1Raj 17:1-6', 'Mzm 121:1b-8'], ['1Raj 17:7-16', 'Mzm 4:2-5,7b-8'], ['1Raj 18:20-39', 'Mzm 16:1b-2ab,4,5ab,8,11'], ['1Raj 18:41-46', 'Mzm 65:10-13'], ['1Raj 19:9a,11-16', 'Mzm 27:7-9abc,13-14'], ['1Raj 19:19-21', 'Mzm 16:1b-2a,5,7-10']],
+    [['1Raj 21:1-16', 'Mzm 5:2-3ab,4b-7'], ['1Raj 21:17-29', 'Mzm 51:3-6ab,11,16'], ['2Raj 2:1,6-14', 'Mzm 31:20-21,24'], ['Sir 48:1-14', 'Mzm 97:1-7'], ['2Raj 11:1-4,9-18,20', 'Mzm 132:11-14,17-18'], ['2Taw 24:17-25', 'Mzm 89:4-5,29-34']],
+    [['2Raj 17:5-8,13-15a,18', 'Mzm 60:3-5,12-13'], ['2Raj 19:9b-11,14-21,31-35a,36', 'Mzm 48:2-4,10-11'], ['2Raj 22:8-13;23:1-3', 'Mzm 119:33-37,40'], ['2Raj 24:8-17', 'Mzm 79:1b-5,8-9'], ['2Raj 25:1-12', 'Mzm 137:1-6'], ['Rat 2:2,10-14,18-19', 'Mzm 74:1b-7,20-21']],
+    [['Am 2:6-10,13-16', 'Mzm 50:16bc-23'], ['Am 3:1-8;4:11-12', 'Mzm 5:4b-8'], ['Am 5:14-15,21-24', 'Mzm 50:7-13,16bc-17'], ['Am 7:10-17', 'Mzm 19:8-11'], ['Am 8:4-6,9-12', 'Mzm 119:2,10,20,30,40,131'], ['Am 9:11-15', 'Mzm 85:9ab,10-14']],
+    [['Hos 2:13,14b-15,18-19', 'Mzm 145:2-9'], ['Hos 8:4-7,11-13', 'Mzm 115:3-10'], ['Hos 10:1-3,7-8,12', 'Mzm 105:2-7'], ['Hos 11:1-4,8c-9', 'Mzm 80:2ac,3b,15-16'], ['Hos 14:2-10', 'Mzm 51:3-4,8-9,12-14,17'], ['Yes 6:1-8', 'Mzm 93:1-2,5']],
+    [['Yes 1:10-17', 'Mzm 50:8-9,16bc-17,21,23'], ['Yes 7:1-9', 'Mzm 48:2-8'], ['Yes 10:5-7,13b-16', 'Mzm 94:5-10,14-15'], ['Yes 26:7-9,12,16-19', 'Mzm 102:13-21'], ['Yes 38:1-6,21-22,7-8', 'Yes 38:10-12,16'], ['Mi 2:1-5', 'Mzm 10:1-4,7-8,14']],
+    [['Mi 6:1-4,6-8', 'Mzm 50:5-6,8-9,16bc-17,21,23'], ['Mi 7:14-15,18-20', 'Mzm 85:2-8'], ['Yer 1:1,4-10', 'Mzm 71:1-6,15,17'], ['Yer 2:1-3,7-8,12-13', 'Mzm 36:6-11'], ['Yer 3:14-17', 'Yer 31:10-13'], ['Yer 7:1-11', 'Mzm 84:3-6a,8a,11']],
+    [['Yer 13:1-11', 'Ul 32:18-21'], ['Yer 14:17-22', 'Mzm 79:8-9,11,13'], ['Yer 15:10,16-21', 'Mzm 59:2-4,10-11,17-18'], ['Yer 18:1-6', 'Mzm 146:1b-6ab'], ['Yer 26:1-9', 'Mzm 69:5,8-10,14'], ['Yer 26:11-16,24', 'Mzm 69:15-16,30-31,33-34']],
+    [['Yer 28:1-17', 'Mzm 119:29,43,79-80,95,102'], ['Yer 30:1-2,12-15,18-22', 'Mzm 102:16-21,29,22-23'], ['Yer 31:1-7', 'Yer 31:10-13'], ['Yer 31:31-34', 'Mzm 51:12-15,18-19'], ['Nah 2:1,3;3:1-3,6-7', 'Ul 32:35cd-36ab,39abcd,41'], ['Hab 1:12-2:4', 'Mzm 9:8-13']],
+    [['Yeh 1:2-5,24-28c', 'Mzm 148:1-2,11-14'], ['Yeh 2:8-3:4', 'Mzm 119:14,24,72,103,111,131'], ['Yeh 9:1-7;10:18-22', 'Mzm 113:1-6'], ['Yeh 12:1-12', 'Mzm 78:56-59,61-62'], ['Yeh 16:1-15,60,63', 'Yes 12:2-6'], ['Yeh 18:1-10,13b,30-32', 'Mzm 51:12-15,18-19']],
+    [['Yeh 24:15-24', 'Ul 32:18-21'], ['Yeh 28:1-10', 'Ul 32:26-28,30,35cd-36ab'], ['Yeh 34:1-11', 'Mzm 23:1-6'], ['Yeh 36:23-28', 'Mzm 51:12-15,18-19'], ['Yeh 37:1-14', 'Mzm 107:2-9'], ['Yeh 43:1-7ab', 'Mzm 85:9ab,10-14']],
+    [['2Tes 1:1-5,11-12', 'Mzm 96:1-5'], ['2Tes 2:1-3a,14-17', 'Mzm 96:10-13'], ['2Tes 3:6-10,16-18', 'Mzm 128:1-2,4-5'], ['1Kor 1:1-9', 'Mzm 145:2-7'], ['1Kor 1:17-25', 'Mzm 33:1-2,4-5,10-11'], ['1Kor 1:26-31', 'Mzm 33:12-13,18-21']],
+    [['1Kor 2:1-5', 'Mzm 119:97-102'], ['1Kor 2:10b-16', 'Mzm 145:8-14'], ['1Kor 3:1-9', 'Mzm 33:12-15,20-21'], ['1Kor 3:18-23', 'Mzm 24:1bc-6'], ['1Kor 4:1-5', 'Mzm 37:3-6,27-28,39-40'], ['1Kor 4:6b-15', 'Mzm 145:17-21']],
+    [['1Kor 5:1-8', 'Mzm 5:5-7,12'], ['1Kor 6:1-11', 'Mzm 149:1b-6a,9b'], ['1Kor 7:25-31', 'Mzm 45:11-12,14-17'], ['1Kor 8:1b-7,11-13', 'Mzm 139:1b-3,13-14ab,23-24'], ['1Kor 9:16-19,22b-27', 'Mzm 84:3-6,12'], ['1Kor 10:14-22', 'Mzm 116:12-13,17-18']],
+    [['1Kor 11:17-26,33', 'Mzm 40:7-10,17'], ['1Kor 12:12-14,27-31a', 'Mzm 100:1b-5'], ['1Kor 12:31-13:13', 'Mzm 33:2-5,12,22'], ['1Kor 15:1-11', 'Mzm 118:1b-2,16ab-17,28'], ['1Kor 15:12-20', 'Mzm 17:1bcd,6-7,8b,15'], ['1Kor 15:35-37,42-49', 'Mzm 56:10c-14']],
+    [['Ams 3:27-34', 'Mzm 15:2-5'], ['Ams 21:1-6,10-13', 'Mzm 119:1,27,30,34-35,44'], ['Ams 30:5-9', 'Mzm 119:29,72,89,101,104,163'], ['Pkh 1:2-11', 'Mzm 90:3-6,12-14,17bc'], ['Pkh 3:1-11', 'Mzm 144:1b,2abc,3-4'], ['Pkh 11:9-12:8', 'Mzm 90:3-6,12-14,17']],
+    [['Ayb 1:6-22', 'Mzm 17:1bcd,2-3,6-7'], ['Ayb 3:1-3,11-17,20-23', 'Mzm 88:2-8'], ['Ayb 9:1-12,14-16', 'Mzm 88:10bc-15'], ['Ayb 19:21-27', 'Mzm 27:7-9abc,13-14'], ['Ayb 38:1,12-21;40:3-5', 'Mzm 139:1-3,7-10,13-14ab'], ['Ayb 42:1-3,5-6,12-17', 'Mzm 119:66,71,75,91,125,130']],
+    [['Gal 1:6-12', 'Mzm 111:1b-2,7-10c'], ['Gal 1:13-24', 'Mzm 139:1b-3,13-15'], ['Gal 2:1-2,7-14', 'Mzm 117:1bc,2'], ['Gal 3:1-5', 'Luk 1:69-75'], ['Gal 3:7-14', 'Mzm 111:1b-6'], ['Gal 3:22-29', 'Mzm 105:2-7']],
+    [['Gal 4:22-24,26-27,31-5:1', 'Mzm 113:1b-7'], ['Gal 5:1-6', 'Mzm 119:41,43-45,47-48'], ['Gal 5:18-25', 'Mzm 1:1-4,6'], ['Ef 1:1-10', 'Mzm 98:1-6'], ['Ef 1:11-14', 'Mzm 33:1-2,4-5,12-13'], ['Ef 1:15-23', 'Mzm 8:2-7']],
+    [['Ef 2:1-10', 'Mzm 100:1b-5'], ['Ef 2:12-22', 'Mzm 85:9ab-14'], ['Ef 3:2-12', 'Yes 12:2-3,4bcd-6'], ['Ef 3:14-21', 'Mzm 33:1-2,4-5,11-12,18-19'], ['Ef 4:1-6', 'Mzm 24:1-6'], ['Ef 4:7-16', 'Mzm 122:1-5']],
+    [['Ef 4:32-5:8', 'Mzm 1:1-4,6'], ['Ef 5:21-33', 'Mzm 128:1-5'], ['Ef 6:1-9', 'Mzm 145:10-14'], ['Ef 6:10-20', 'Mzm 144:1b,2,9-10'], ['Flp 1:1-11', 'Mzm 111:1-6'], ['Flp 1:18b-26', 'Mzm 42:2-3;43:3-4']],
+    [['Flp 2:1-4', 'Mzm 131:1-3'], ['Flp 2:5-11', 'Mzm 22:26b-32'], ['Flp 2:12-18', 'Mzm 27:1,4,13-14'], ['Flp 3:3-8a', 'Mzm 105:2-7'], ['Flp 3:17-4:1', 'Mzm 122:1-5'], ['Flp 4:10-19', 'Mzm 112:1b-2,5-6,8a,9']],
+    [['Tit 1:1-9', 'Mzm 24:1b-6'], ['Tit 2:1-8,11-14', 'Mzm 37:3-4,18,23,27,29'], ['Tit 3:1-7', 'Mzm 23:1b-6'], ['Flm 1:7-20', 'Mzm 146:7-10'], ['2Yoh 1:4-9', 'Mzm 119:1-2,10-11,17-18'], ['3Yoh 1:5-8', 'Mzm 112:1-6']],
+    [['Why 1:1-4;2:1-5', 'Mzm 1:1-4,6'], ['Why 3:1-6,14-22', 'Mzm 15:2-5'], ['Why 4:1-11', 'Mzm 150:1b-6'], ['Why 5:1-10', 'Mzm 149:1b-6a,9b'], ['Why 10:8-11', 'Mzm 119:14,24,72,103,111,131'], ['Why 11:4-12', 'Mzm 144:1-2,9-10']],
+    [['Why 14:1-3,4b-5', 'Mzm 24:1bc-4ab,5-6'], ['Why 14:14-19', 'Mzm 96:10-13'], ['Why 15:1-4', 'Mzm 98:1-3ab,7-9'], ['Why 18:1-2,21-23;19:1-3,9a', 'Mzm 100:1b-5'], ['Why 20:1-4,11-21:2', 'Mzm 84:3-6a,8a'], ['Why 22:1-7', 'Mzm 95:1-7ab']],
+  ],
+};
+
+export function getSundayReadings(
+  celebrationId: string,
+  cycle: LiturgicalSundayCycle
+): LectionaryReadings | undefined {
+  const set = SUNDAY_READINGS[celebrationId]?.[cycle];
+  if (!set) return undefined;
+  const [first, psalm, second, gospel] = set;
+  return { first, psalm, second, gospel };
+}
+
+export function getSeasonalWeekdayReadings(key: string): LectionaryReadings | undefined {
+  const set = SEASONAL_WEEKDAY_READINGS[key];
+  if (!set) return undefined;
+  const [first, psalm, gospel] = set;
+  return { first, psalm, gospel };
+}
+
+// `weekday` follows Date#getUTCDay, so 1 is Monday and 6 is Saturday.
+export function getOrdinaryWeekdayReadings(
+  week: number,
+  weekday: number,
+  cycle: LiturgicalWeekdayCycle
+): LectionaryReadings | undefined {
+  const gospel = ORDINARY_WEEKDAY_GOSPELS[week - 1]?.[weekday - 1];
+  const reading = ORDINARY_WEEKDAY_READINGS[cycle][week - 1]?.[weekday - 1];
+  if (!gospel || !reading) return undefined;
+  const [first, psalm] = reading;
+  return { first, psalm, gospel };
+}
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import {
+  getEasterDate,
+  getFirstSundayOfAdvent,
+  getLiturgyForDate,
+  getSundayCycle,
+  getWeekdayCycle,
+} from './liturgical-calendar';
+
+test('computes Gregorian Easter and the first Sunday of Advent', () => {
+  assert.equal(getEasterDate(2024).toISOString().slice(0, 10), '2024-03-31');
+  assert.equal(getEasterDate(2025).toISOString().slice(0, 10), '2025-04-20');
+  assert.equal(getEasterDate(2026).toISOString().slice(0, 10), '2026-04-05');
+  assert.equal(getFirstSundayOfAdvent(2025).toISOString().slice(0, 10), '2025-11-30');
+  assert.equal(getFirstSundayOfAdvent(2026).toISOString().slice(0, 10), '2026-11-29');
+});
+
+test('cycles switch on the first Sunday of Advent', () => {
+  assert.equal(getSundayCycle('2025-11-29'), 'C');
+  assert.equal(getSundayCycle('2025-11-30'), 'A');
+  assert.equal(getWeekdayCycle('2025-11-29'), 'I');
+  assert.equal(getWeekdayCycle('2026-02-10'), 'II');
+});
+
+test('seasons, week numbers and colours follow the temporal cycle', () => {
+  const ashWednesday = getLiturgyForDate('2026-02-18');
+  assert.equal(ashWednesday.celebration_id, 'ash-wednesday');
+  assert.equal(ashWednesday.season, 'lent');
+  assert.equal(ashWednesday.color, 'violet');
+
+  const laetare = getLiturgyForDate('2026-03-15');
+  assert.equal(laetare.title, 'Minggu Prapaskah IV');
+  assert.equal(laetare.color, 'rose');
+
+  const secondOrdinarySunday = getLiturgyForDate('2026-01-18');
+  assert.equal(secondOrdinarySunday.title, 'Minggu Biasa II');
+  assert.equal(secondOrdinarySunday.color, 'green');
+
+  const afterPentecost = getLiturgyForDate('2026-05-26');
+  assert.equal(afterPentecost.season, 'ordinary');
+  assert.equal(afterPentecost.season_week, 8);
+
+  const christTheKing = getLiturgyForDate('2026-11-22');
+  assert.equal(christTheKing.celebration_id, 'christ-the-king');
+  assert.equal(christTheKing.season_week, 34);
+});
+
+test('Indonesian calendar keeps Epiphany on Sunday and Ascension on Thursday', () => {
+  assert.equal(getLiturgyForDate('2026-01-04').celebration_id, 'epiphany');
+  assert.equal(getLiturgyForDate('2026-01-11').celebration_id, 'baptism');
+  assert.equal(getLiturgyForDate('2024-01-08').celebration_id, 'baptism');
+  assert.equal(getLiturgyForDate('2026-05-14').celebration_id, 'ascension');
+});
+
+test('precedence picks the higher celebration and transfers impeded solemnities', () => {
+  assert.equal(getLiturgyForDate('2024-12-08').celebration_id, 'advent-2');
+  assert.equal(getLiturgyForDate('2024-12-09').celebration_id, 'immaculate-conception');
+  assert.equal(getLiturgyForDate('2024-03-25').celebration_id, 'holy-week');
+  assert.equal(getLiturgyForDate('2024-04-08').celebration_id, 'annunciation');
+
+  const memorialOnSunday = getLiturgyForDate('2026-10-04');
+  assert.equal(memorialOnSunday.celebration_id, 'ordinary-27');
+
+  const memorialOnWeekday = getLiturgyForDate('2025-10-04');
+  assert.equal(memorialOnWeekday.celebration_id, 'francis-of-assisi');
+  assert.equal(memorialOnWeekday.rank, 'memorial');
+});
+
+test('readings follow the Sunday cycle', () => {
+  const palmSundayA = getLiturgyForDate('2026-03-29');
+  assert.equal(palmSundayA.readings, 'Yes 50:4-7');
+  assert.equal(palmSundayA.gospel, 'Mat 26:14-27:66');
+
+  const christmas = getLiturgyForDate('2026-12-25');
+  assert.equal(christmas.gospel, 'Yoh 1:1-18');
+  assert.equal(christmas.sunday_cycle, 'B');
+});
+
+test('every Sunday in Ordinary Time has a gospel for its cycle', () => {
+  const ordinaryA = getLiturgyForDate('2026-10-18');
+  assert.equal(ordinaryA.celebration_id, 'ordinary-29');
+  assert.equal(ordinaryA.gospel, 'Mat 22:15-21');
+
+  const seen = new Set<string>();
+  for (let day = Date.UTC(2025, 0, 5); day < Date.UTC(2028, 0, 1); day += 7 * 24 * 60 * 60 * 1000) {
+    const liturgy = getLiturgyForDate(new Date(day).toISOString().slice(0, 10));
+    if (!liturgy.celebration_id?.startsWith('ordinary-')) continue;
+    assert.ok(liturgy.gospel, `${liturgy.date} ${liturgy.celebration_id} has no gospel`);
+    seen.add(`${liturgy.celebration_id}/${liturgy.sunday_cycle}`);
+  }
+  assert.ok(seen.size > 60);
+});
+
+test('weekdays and Sundays carry a full set of readings', () => {
+  const weekday = getLiturgyForDate('2026-10-19');
+  assert.equal(weekday.weekday_cycle, 'II');
+  assert.equal(weekday.readings, 'Ef 2:1-10');
+  assert.equal(weekday.psalm, 'Mzm 100:1b-5');
+  assert.equal(weekday.second_reading, undefined);
+  assert.equal(weekday.gospel, 'Luk 12:13-21');
+
+  const sunday = getLiturgyForDate('2026-06-14');
+  assert.equal(sunday.celebration_id, 'ordinary-11');
+  assert.equal(sunday.readings, 'Kel 19:2-6a');
+  assert.equal(sunday.psalm, 'Mzm 100:1-3,5');
+  assert.equal(sunday.second_reading, 'Rm 5:6-11');
+  assert.equal(sunday.gospel, 'Mat 9:36-10:8');
+
+  // A memorial without proper readings takes the weekday's.
+  assert.equal(getLiturgyForDate('2026-10-15').celebration_id, 'teresa-of-avila');
+  assert.equal(getLiturgyForDate('2026-10-15').gospel, 'Luk 11:47-54');
+
+  for (let day = Date.UTC(2025, 0, 1); day < Date.UTC(2028, 0, 1); day += 24 * 60 * 60 * 1000) {
+    const liturgy = getLiturgyForDate(new Date(day).toISOString().slice(0, 10));
+    if (liturgy.season === 'triduum') continue;
+    const label = `${liturgy.date} ${liturgy.celebration_id}`;
+    assert.ok(liturgy.readings, `${label} has no first reading`);
+    assert.ok(liturgy.psalm, `${label} has no psalm`);
+    assert.ok(liturgy.gospel, `${label} has no gospel`);
+    if (liturgy.rank === 'sunday') assert.ok(liturgy.second_reading, `${label} has no second reading`);
+  }
+});
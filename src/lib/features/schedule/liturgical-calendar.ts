@@ -0,0 +1,767 @@
+import type {
+  LiturgicalColor,
+  LiturgicalRank,
+  LiturgicalSeason,
+  LiturgicalSundayCycle,
+  LiturgicalWeekdayCycle,
+  Liturgy,
+} from '@/lib/types';
+import { getOrdinaryWeekdayReadings, getSeasonalWeekdayReadings, getSundayReadings } from './lectionary';
+
+// Calendar follows the General Roman Calendar as observed in Indonesia:
+// Epiphany is kept on the Sunday between 2-8 January, Ascension on Thursday,
+// and Corpus Christi on the Sunday after Trinity.
+
+type CelebrationDay = {
+  id: string;
+  title: string;
+  rank: LiturgicalRank;
+  color: LiturgicalColor;
+  // Lower value wins, following the Table of Liturgical Days (condensed).
+  precedence: number;
+};
+
+type TemporalDay = CelebrationDay & {
+  season: LiturgicalSeason;
+  week?: number;
+  // Key into the seasonal weekday lectionary; see lectionary.ts.
+  readingsKey?: string;
+};
+
+type SanctoralEntry = {
+  id: string;
+  title: string;
+  rank: Extract<LiturgicalRank, 'solemnity' | 'feast' | 'memorial' | 'optional_memorial'>;
+  color: LiturgicalColor;
+  lordFeast?: boolean;
+};
+
+type ReadingSet = {
+  first?: string;
+  psalm?: string;
+  second?: string;
+  gospel?: string;
+  gospelByCycle?: Record<LiturgicalSundayCycle, string>;
+};
+
+type YearAnchors = {
+  epiphany: Date;
+  baptism: Date;
+  ashWednesday: Date;
+  palmSunday: Date;
+  easter: Date;
+  ascension: Date;
+  pentecost: Date;
+  trinity: Date;
+  corpusChristi: Date;
+  sacredHeart: Date;
+  christTheKing: Date;
+  adventStart: Date;
+  holyFamily: Date;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAY_NAMES = ['Minggu', 'Senin', 'Selasa', 'Rabu', 'Kamis', 'Jumat', 'Sabtu'];
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [10, 'X'],
+  [9, 'IX'],
+  [5, 'V'],
+  [4, 'IV'],
+  [1, 'I'],
+];
+
+// Keyed by MM-DD. Only the celebrations of the general calendar that change the
+// day's title are listed; optional memorials are kept to a well-known few.
+const SANCTORAL_CALENDAR: Record<string, SanctoralEntry> = {
+  '01-01': { id: 'mary-mother-of-god', title: 'Hari Raya Santa Maria Bunda Allah', rank: 'solemnity', color: 'white' },
+  '01-02': { id: 'basil-gregory', title: 'Peringatan Wajib St. Basilius Agung dan St. Gregorius dari Nazianze', rank: 'memorial', color: 'white' },
+  '01-17': { id: 'anthony-abbot', title: 'Peringatan Wajib St. Antonius, Abas', rank: 'memorial', color: 'white' },
+  '01-21': { id: 'agnes', title: 'Peringatan Wajib St. Agnes, Perawan dan Martir', rank: 'memorial', color: 'red' },
+  '01-24': { id: 'francis-de-sales', title: 'Peringatan Wajib St. Fransiskus de Sales', rank: 'memorial', color: 'white' },
+  '01-25': { id: 'conversion-of-paul', title: 'Pesta Bertobatnya St. Paulus, Rasul', rank: 'feast', color: 'white' },
+  '01-26': { id: 'timothy-titus', title: 'Peringatan Wajib St. Timotius dan St. Titus', rank: 'memorial', color: 'white' },
+  '01-28': { id: 'thomas-aquinas', title: 'Peringatan Wajib St. Tomas Aquinas', rank: 'memorial', color: 'white' },
+  '01-31': { id: 'john-bosco', title: 'Peringatan Wajib St. Yohanes Bosco', rank: 'memorial', color: 'white' },
+  '02-02': { id: 'presentation', title: 'Pesta Yesus Dipersembahkan di Kenisah', rank: 'feast', color: 'white', lordFeast: true },
+  '02-05': { id: 'agatha', title: 'Peringatan Wajib St. Agata, Perawan dan Martir', rank: 'memorial', color: 'red' },
+  '02-06': { id: 'paul-miki', title: 'Peringatan Wajib St. Paulus Miki dan Kawan-kawan, Martir', rank: 'memorial', color: 'red' },
+  '02-10': { id: 'scholastica', title: 'Peringatan Wajib St. Skolastika', rank: 'memorial', color: 'white' },
+  '02-11': { id: 'lourdes', title: 'Peringatan Santa Perawan Maria di Lourdes', rank: 'optional_memorial', color: 'white' },
+  '02-14': { id: 'cyril-methodius', title: 'Peringatan Wajib St. Sirilus dan St. Metodius', rank: 'memorial', color: 'white' },
+  '02-22': { id: 'chair-of-peter', title: 'Pesta Takhta St. Petrus, Rasul', rank: 'feast', color: 'white' },
+  '02-23': { id: 'polycarp', title: 'Peringatan Wajib St. Polikarpus, Uskup dan Martir', rank: 'memorial', color: 'red' },
+  '03-07': { id: 'perpetua-felicity', title: 'Peringatan Wajib St. Perpetua dan St. Felisitas, Martir', rank: 'memorial', color: 'red' },
+  '03-19': { id: 'joseph', title: 'Hari Raya St. Yusuf, Suami SP Maria', rank: 'solemnity', color: 'white' },
+  '03-25': { id: 'annunciation', title: 'Hari Raya Kabar Sukacita', rank: 'solemnity', color: 'white' },
+  '04-07': { id: 'john-baptist-de-la-salle', title: 'Peringatan Wajib St. Yohanes Baptista de la Salle', rank: 'memorial', color: 'white' },
+  '04-11': { id: 'stanislaus', title: 'Peringatan Wajib St. Stanislaus, Uskup dan Martir', rank: 'memorial', color: 'red' },
+  '04-25': { id: 'mark', title: 'Pesta St. Markus, Penginjil', rank: 'feast', color: 'red' },
+  '04-29': { id: 'catherine-of-siena', title: 'Peringatan Wajib St. Katarina dari Siena', rank: 'memorial', color: 'white' },
+  '05-01': { id: 'joseph-worker', title: 'Peringatan St. Yusuf Pekerja', rank: 'optional_memorial', color: 'white' },
+  '05-02': { id: 'athanasius', title: 'Peringatan Wajib St. Atanasius', rank: 'memorial', color: 'white' },
+  '05-03': { id: 'philip-james', title: 'Pesta St. Filipus dan St. Yakobus, Rasul', rank: 'feast', color: 'red' },
+  '05-14': { id: 'matthias', title: 'Pesta St. Matias, Rasul', rank: 'feast', color: 'red' },
+  '05-26': { id: 'philip-neri', title: 'Peringatan Wajib St. Filipus Neri', rank: 'memorial', color: 'white' },
+  '05-31': { id: 'visitation', title: 'Pesta SP Maria Mengunjungi Elisabet', rank: 'feast', color: 'white' },
+  '06-01': { id: 'justin', title: 'Peringatan Wajib St. Yustinus, Martir', rank: 'memorial', color: 'red' },
+  '06-03': { id: 'charles-lwanga', title: 'Peringatan Wajib St. Karolus Lwanga dan Kawan-kawan, Martir', rank: 'memorial', color: 'red' },
+  '06-05': { id: 'boniface', title: 'Peringatan Wajib St. Bonifasius, Uskup dan Martir', rank: 'memorial', color: 'red' },
+  '06-11': { id: 'barnabas', title: 'Peringatan Wajib St. Barnabas, Rasul', rank: 'memorial', color: 'red' },
+  '06-13': { id: 'anthony-of-padua', title: 'Peringatan Wajib St. Antonius dari Padua', rank: 'memorial', color: 'white' },
+  '06-21': { id: 'aloysius-gonzaga', title: 'Peringatan Wajib St. Aloisius Gonzaga', rank: 'memorial', color: 'white' },
+  '06-24': { id: 'nativity-of-john-baptist', title: 'Hari Raya Kelahiran St. Yohanes Pembaptis', rank: 'solemnity', color: 'white' },
+  '06-28': { id: 'irenaeus', title: 'Peringatan Wajib St. Ireneus, Uskup dan Martir', rank: 'memorial', color: 'red' },
+  '06-29': { id: 'peter-paul', title: 'Hari Raya St. Petrus dan St. Paulus, Rasul', rank: 'solemnity', color: 'red' },
+  '07-03': { id: 'thomas', title: 'Pesta St. Tomas, Rasul', rank: 'feast', color: 'red' },
+  '07-11': { id: 'benedict', title: 'Peringatan Wajib St. Benediktus, Abas', rank: 'memorial', color: 'white' },
+  '07-15': { id: 'bonaventure', title: 'Peringatan Wajib St. Bonaventura', rank: 'memorial', color: 'white' },
+  '07-22': { id: 'mary-magdalene', title: 'Pesta St. Maria Magdalena', rank: 'feast', color: 'white' },
+  '07-25': { id: 'james', title: 'Pesta St. Yakobus, Rasul', rank: 'feast', color: 'red' },
+  '07-26': { id: 'joachim-anne', title: 'Peringatan Wajib St. Yoakim dan St. Anna', rank: 'memorial', color: 'white' },
+  '07-29': { id: 'martha-mary-lazarus', title: 'Peringatan Wajib St. Marta, St. Maria, dan St. Lazarus', rank: 'memorial', color: 'white' },
+  '07-31': { id: 'ignatius-of-loyola', title: 'Peringatan Wajib St. Ignasius dari Loyola', rank: 'memorial', color: 'white' },
+  '08-01': { id: 'alphonsus-liguori', title: 'Peringatan Wajib St. Alfonsus Maria de Liguori', rank: 'memorial', color: 'white' },
+  '08-04': { id: 'john-vianney', title: 'Peringatan Wajib St. Yohanes Maria Vianney', rank: 'memorial', color: 'white' },
+  '08-06': { id: 'transfiguration', title: 'Pesta Yesus Menampakkan Kemuliaan-Nya', rank: 'feast', color: 'white', lordFeast: true },
+  '08-08': { id: 'dominic', title: 'Peringatan Wajib St. Dominikus', rank: 'memorial', color: 'white' },
+  '08-10': { id: 'lawrence', title: 'Pesta St. Laurensius, Diakon dan Martir', rank: 'feast', color: 'red' },
+  '08-11': { id: 'clare', title: 'Peringatan Wajib St. Klara', rank: 'memorial', color: 'white' },
+  '08-14': { id: 'maximilian-kolbe', title: 'Peringatan Wajib St. Maksimilianus Maria Kolbe, Martir', rank: 'memorial', color: 'red' },
+  '08-15': { id: 'assumption', title: 'Hari Raya SP Maria Diangkat ke Surga', rank: 'solemnity', color: 'white' },
+  '08-20': { id: 'bernard', title: 'Peringatan Wajib St. Bernardus', rank: 'memorial', color: 'white' },
+  '08-21': { id: 'pius-x', title: 'Peringatan Wajib St. Pius X, Paus', rank: 'memorial', color: 'white' },
+  '08-22': { id: 'queenship-of-mary', title: 'Peringatan Wajib SP Maria, Ratu', rank: 'memorial', color: 'white' },
+  '08-24': { id: 'bartholomew', title: 'Pesta St. Bartolomeus, Rasul', rank: 'feast', color: 'red' },
+  '08-27': { id: 'monica', title: 'Peringatan Wajib St. Monika', rank: 'memorial', color: 'white' },
+  '08-28': { id: 'augustine', title: 'Peringatan Wajib St. Agustinus', rank: 'memorial', color: 'white' },
+  '08-29': { id: 'passion-of-john-baptist', title: 'Peringatan Wajib Wafatnya St. Yohanes Pembaptis', rank: 'memorial', color: 'red' },
+  '09-03': { id: 'gregory-the-great', title: 'Peringatan Wajib St. Gregorius Agung', rank: 'memorial', color: 'white' },
+  '09-08': { id: 'nativity-of-mary', title: 'Pesta Kelahiran SP Maria', rank: 'feast', color: 'white' },
+  '09-13': { id: 'john-chrysostom', title: 'Peringatan Wajib St. Yohanes Krisostomus', rank: 'memorial', color: 'white' },
+  '09-14': { id: 'exaltation-of-the-cross', title: 'Pesta Salib Suci', rank: 'feast', color: 'red', lordFeast: true },
+  '09-15': { id: 'our-lady-of-sorrows', title: 'Peringatan Wajib SP Maria Berdukacita', rank: 'memorial', color: 'white' },
+  '09-16': { id: 'cornelius-cyprian', title: 'Peringatan Wajib St. Kornelius dan St. Siprianus, Martir', rank: 'memorial', color: 'red' },
+  '09-20': { id: 'andrew-kim', title: 'Peringatan Wajib St. Andreas Kim Tae-gon dan Kawan-kawan, Martir', rank: 'memorial', color: 'red' },
+  '09-21': { id: 'matthew', title: 'Pesta St. Matius, Rasul dan Penginjil', rank: 'feast', color: 'red' },
+  '09-23': { id: 'padre-pio', title: 'Peringatan Wajib St. Pius dari Pietrelcina', rank: 'memorial', color: 'white' },
+  '09-27': { id: 'vincent-de-paul', title: 'Peringatan Wajib St. Vinsensius a Paulo', rank: 'memorial', color: 'white' },
+  '09-29': { id: 'archangels', title: 'Pesta St. Mikael, St. Gabriel, dan St. Rafael, Malaikat Agung', rank: 'feast', color: 'white' },
+  '09-30': { id: 'jerome', title: 'Peringatan Wajib St. Hieronimus', rank: 'memorial', color: 'white' },
+  '10-01': { id: 'therese-of-lisieux', title: 'Peringatan Wajib St. Theresia dari Kanak-kanak Yesus', rank: 'memorial', color: 'white' },
+  '10-02': { id: 'guardian-angels', title: 'Peringatan Wajib Para Malaikat Pelindung', rank: 'memorial', color: 'white' },
+  '10-04': { id: 'francis-of-assisi', title: 'Peringatan Wajib St. Fransiskus dari Assisi', rank: 'memorial', color: 'white' },
+  '10-07': { id: 'our-lady-of-the-rosary', title: 'Peringatan Wajib SP Maria, Ratu Rosario', rank: 'memorial', color: 'white' },
+  '10-15': { id: 'teresa-of-avila', title: 'Peringatan Wajib St. Teresa dari Avila', rank: 'memorial', color: 'white' },
+  '10-17': { id: 'ignatius-of-antioch', title: 'Peringatan Wajib St. Ignasius dari Antiokhia, Uskup dan Martir', rank: 'memorial', color: 'red' },
+  '10-18': { id: 'luke', title: 'Pesta St. Lukas, Penginjil', rank: 'feast', color: 'red' },
+  '10-28': { id: 'simon-jude', title: 'Pesta St. Simon dan St. Yudas, Rasul', rank: 'feast', color: 'red' },
+  '11-01': { id: 'all-saints', title: 'Hari Raya Semua Orang Kudus', rank: 'solemnity', color: 'white' },
+  '11-02': { id: 'all-souls', title: 'Peringatan Arwah Semua Orang Beriman', rank: 'solemnity', color: 'violet' },
+  '11-04': { id: 'charles-borromeo', title: 'Peringatan Wajib St. Karolus Borromeus', rank: 'memorial', color: 'white' },
+  '11-09': { id: 'lateran-basilica', title: 'Pesta Pemberkatan Gereja Basilik Lateran', rank: 'feast', color: 'white', lordFeast: true },
+  '11-10': { id: 'leo-the-great', title: 'Peringatan Wajib St. Leo Agung', rank: 'memorial', color: 'white' },
+  '11-11': { id: 'martin-of-tours', title: 'Peringatan Wajib St. Martinus dari Tours', rank: 'memorial', color: 'white' },
+  '11-12': { id: 'josaphat', title: 'Peringatan Wajib St. Yosafat, Uskup dan Martir', rank: 'memorial', color: 'red' },
+  '11-17': { id: 'elizabeth-of-hungary', title: 'Peringatan Wajib St. Elisabet dari Hungaria', rank: 'memorial', color: 'white' },
+  '11-21': { id: 'presentation-of-mary', title: 'Peringatan Wajib SP Maria Dipersembahkan kepada Allah', rank: 'memorial', color: 'white' },
+  '11-22': { id: 'cecilia', title: 'Peringatan Wajib St. Sesilia, Perawan dan Martir', rank: 'memorial', color: 'red' },
+  '11-24': { id: 'andrew-dung-lac', title: 'Peringatan Wajib St. Andreas Dung-Lac dan Kawan-kawan, Martir', rank: 'memorial', color: 'red' },
+  '11-30': { id: 'andrew', title: 'Pesta St. Andreas, Rasul', rank: 'feast', color: 'red' },
+  '12-03': { id: 'francis-xavier', title: 'Peringatan Wajib St. Fransiskus Xaverius', rank: 'memorial', color: 'white' },
+  '12-07': { id: 'ambrose', title: 'Peringatan Wajib St. Ambrosius', rank: 'memorial', color: 'white' },
+  '12-08': { id: 'immaculate-conception', title: 'Hari Raya SP Maria Dikandung Tanpa Noda', rank: 'solemnity', color: 'white' },
+  '12-13': { id: 'lucy', title: 'Peringatan Wajib St. Lusia, Perawan dan Martir', rank: 'memorial', color: 'red' },
+  '12-14': { id: 'john-of-the-cross', title: 'Peringatan Wajib St. Yohanes dari Salib', rank: 'memorial', color: 'white' },
+  '12-26': { id: 'stephen', title: 'Pesta St. Stefanus, Martir Pertama', rank: 'feast', color: 'red' },
+  '12-27': { id: 'john-apostle', title: 'Pesta St. Yohanes, Rasul dan Penginjil', rank: 'feast', color: 'white' },
+  '12-28': { id: 'holy-innocents', title: 'Pesta Kanak-kanak Suci, Martir', rank: 'feast', color: 'red' },
+};
+
+// References use the Indonesian book abbreviations (LAI) so they resolve
+// against the book names and abbreviations returned by BibleService.
+const LITURGY_READINGS: Record<string, ReadingSet> = {
+  christmas: { first: 'Yes 52:7-10', psalm: 'Mzm 98:1-6', second: 'Ibr 1:1-6', gospel: 'Yoh 1:1-18' },
+  'holy-family': {
+    first: 'Sir 3:2-6,12-14',
+    psalm: 'Mzm 128:1-5',
+    second: 'Kol 3:12-21',
+    gospelByCycle: { A: 'Mat 2:13-15,19-23', B: 'Luk 2:22-40', C: 'Luk 2:41-52' },
+  },
+  'mary-mother-of-god': { first: 'Bil 6:22-27', psalm: 'Mzm 67:2-3,5,6,8', second: 'Gal 4:4-7', gospel: 'Luk 2:16-21' },
+  epiphany: { first: 'Yes 60:1-6', psalm: 'Mzm 72:1-2,7-8,10-13', second: 'Ef 3:2-3a,5-6', gospel: 'Mat 2:1-12' },
+  baptism: {
+    first: 'Yes 42:1-4,6-7',
+    psalm: 'Mzm 29:1-4,9-10',
+    second: 'Kis 10:34-38',
+    gospelByCycle: { A: 'Mat 3:13-17', B: 'Mrk 1:7-11', C: 'Luk 3:15-16,21-22' },
+  },
+  'conversion-of-paul': { first: 'Kis 22:3-16', psalm: 'Mzm 117:1-2', gospel: 'Mrk 16:15-18' },
+  presentation: { first: 'Mal 3:1-4', psalm: 'Mzm 24:7-10', second: 'Ibr 2:14-18', gospel: 'Luk 2:22-40' },
+  'chair-of-peter': { first: '1Ptr 5:1-4', psalm: 'Mzm 23:1-6', gospel: 'Mat 16:13-19' },
+  'ash-wednesday': { first: 'Yl 2:12-18', psalm: 'Mzm 51:3-6,12-14,17', second: '2Kor 5:20-6:2', gospel: 'Mat 6:1-6,16-18' },
+  joseph: { first: '2Sam 7:4-5a,12-14a,16', psalm: 'Mzm 89:2-5,27,29', second: 'Rm 4:13,16-18,22', gospel: 'Mat 1:16,18-21,24a' },
+  annunciation: { first: 'Yes 7:10-14', psalm: 'Mzm 40:7-11', second: 'Ibr 10:4-10', gospel: 'Luk 1:26-38' },
+  'palm-sunday': {
+    first: 'Yes 50:4-7',
+    psalm: 'Mzm 22:8-9,17-20,23-24',
+    second: 'Flp 2:6-11',
+    gospelByCycle: { A: 'Mat 26:14-27:66', B: 'Mrk 14:1-15:47', C: 'Luk 22:14-23:56' },
+  },
+  'holy-thursday': { first: 'Kel 12:1-8,11-14', psalm: 'Mzm 116:12-13,15-18', second: '1Kor 11:23-26', gospel: 'Yoh 13:1-15' },
+  'good-friday': { first: 'Yes 52:13-53:12', psalm: 'Mzm 31:2,6,12-13,15-17,25', second: 'Ibr 4:14-16;5:7-9', gospel: 'Yoh 18:1-19:42' },
+  'holy-saturday': {
+    second: 'Rm 6:3-11',
+    gospelByCycle: { A: 'Mat 28:1-10', B: 'Mrk 16:1-7', C: 'Luk 24:1-12' },
+  },
+  easter: { first: 'Kis 10:34a,37-43', psalm: 'Mzm 118:1-2,16-17,22-23', second: 'Kol 3:1-4', gospel: 'Yoh 20:1-9' },
+  mark: { first: '1Ptr 5:5b-14', psalm: 'Mzm 89:2-3,6-7,16-17', gospel: 'Mrk 16:15-20' },
+  'philip-james': { first: '1Kor 15:1-8', psalm: 'Mzm 19:2-5', gospel: 'Yoh 14:6-14' },
+  matthias: { first: 'Kis 1:15-17,20-26', psalm: 'Mzm 113:1-8', gospel: 'Yoh 15:9-17' },
+  ascension: {
+    first: 'Kis 1:1-11',
+    psalm: 'Mzm 47:2-3,6-9',
+    second: 'Ef 1:17-23',
+    gospelByCycle: { A: 'Mat 28:16-20', B: 'Mrk 16:15-20', C: 'Luk 24:46-53' },
+  },
+  pentecost: { first: 'Kis 2:1-11', psalm: 'Mzm 104:1,24,29-31,34', second: '1Kor 12:3b-7,12-13', gospel: 'Yoh 20:19-23' },
+  visitation: { first: 'Zef 3:14-18a', psalm: 'Yes 12:2-6', gospel: 'Luk 1:39-56' },
+  'nativity-of-john-baptist': { first: 'Yes 49:1-6', psalm: 'Mzm 139:1-3,13-15', second: 'Kis 13:22-26', gospel: 'Luk 1:57-66,80' },
+  'peter-paul': { first: 'Kis 12:1-11', psalm: 'Mzm 34:2-9', second: '2Tim 4:6-8,17-18', gospel: 'Mat 16:13-19' },
+  thomas: { first: 'Ef 2:19-22', psalm: 'Mzm 117:1-2', gospel: 'Yoh 20:24-29' },
+  'mary-magdalene': { first: 'Kid 3:1-4a', psalm: 'Mzm 63:2-6,8-9', gospel: 'Yoh 20:1-2,11-18' },
+  james: { first: '2Kor 4:7-15', psalm: 'Mzm 126:1-6', gospel: 'Mat 20:20-28' },
+  transfiguration: {
+    first: 'Dan 7:9-10,13-14',
+    psalm: 'Mzm 97:1-2,5-6,9',
+    second: '2Ptr 1:16-19',
+    gospelByCycle: { A: 'Mat 17:1-9', B: 'Mrk 9:2-10', C: 'Luk 9:28b-36' },
+  },
+  lawrence: { first: '2Kor 9:6-10', psalm: 'Mzm 112:1-2,5-9', gospel: 'Yoh 12:24-26' },
+  assumption: { first: 'Why 11:19a;12:1-6a,10ab', psalm: 'Mzm 45:10-12,16', second: '1Kor 15:20-27', gospel: 'Luk 1:39-56' },
+  bartholomew: { first: 'Why 21:9b-14', psalm: 'Mzm 145:10-13,17-18', gospel: 'Yoh 1:45-51' },
+  'nativity-of-mary': { first: 'Mi 5:1-4a', psalm: 'Mzm 13:6', gospel: 'Mat 1:1-16,18-23' },
+  'exaltation-of-the-cross': { first: 'Bil 21:4b-9', psalm: 'Mzm 78:1-2,34-38', second: 'Flp 2:6-11', gospel: 'Yoh 3:13-17' },
+  matthew: { first: 'Ef 4:1-7,11-13', psalm: 'Mzm 19:2-5', gospel: 'Mat 9:9-13' },
+  archangels: { first: 'Dan 7:9-10,13-14', psalm: 'Mzm 138:1-5', gospel: 'Yoh 1:47-51' },
+  luke: { first: '2Tim 4:10-17b', psalm: 'Mzm 145:10-13,17-18', gospel: 'Luk 10:1-9' },
+  'simon-jude': { first: 'Ef 2:19-22', psalm: 'Mzm 19:2-5', gospel: 'Luk 6:12-16' },
+  'all-saints': { first: 'Why 7:2-4,9-14', psalm: 'Mzm 24:1-6', second: '1Yoh 3:1-3', gospel: 'Mat 5:1-12a' },
+  'all-souls': { first: 'Keb 3:1-9', psalm: 'Mzm 23:1-6', second: 'Rm 5:5-11', gospel: 'Yoh 6:37-40' },
+  'lateran-basilica': {
+    first: 'Yeh 47:1-2,8-9,12',
+    psalm: 'Mzm 46:2-3,5-6,8-9',
+    second: '1Kor 3:9c-11,16-17',
+    gospel: 'Yoh 2:13-22',
+  },
+  andrew: { first: 'Rm 10:9-18', psalm: 'Mzm 19:2-5', gospel: 'Mat 4:18-22' },
+  'immaculate-conception': { first: 'Kej 3:9-15,20', psalm: 'Mzm 98:1-4', second: 'Ef 1:3-6,11-12', gospel: 'Luk 1:26-38' },
+  stephen: { first: 'Kis 6:8-10;7:54-59', psalm: 'Mzm 31:3cd-4,6,8ab,16bc,17', gospel: 'Mat 10:17-22' },
+  'john-apostle': { first: '1Yoh 1:1-4', psalm: 'Mzm 97:1-2,5-6,11-12', gospel: 'Yoh 20:1a,2-8' },
+  'holy-innocents': { first: '1Yoh 1:5-2:2', psalm: 'Mzm 124:2-5,7b-8', gospel: 'Mat 2:13-18' },
+};
+
+const anchorsCache = new Map<number, YearAnchors>();
+const sanctoralCache = new Map<number, Map<string, CelebrationDay>>();
+
+function utcDate(year: number, monthIndex: number, day: number) {
+  return new Date(Date.UTC(year, monthIndex, day));
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function diffDays(later: Date, earlier: Date) {
+  return Math.round((later.getTime() - earlier.getTime()) / DAY_MS);
+}
+
+function startOfWeek(date: Date) {
+  return addDays(date, -date.getUTCDay());
+}
+
+function toDateKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function toRoman(value: number) {
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+function normalizeDateInput(input: Date | string) {
+  if (typeof input === 'string') {
+    const match = input.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+      return utcDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    }
+    const parsed = new Date(input);
+    if (Number.isNaN(parsed.getTime())) {
+      throw new Error(`Tanggal liturgi tidak valid: ${input}`);
+    }
+    return utcDate(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+  }
+
+  if (Number.isNaN(input.getTime())) {
+    throw new Error('Tanggal liturgi tidak valid');
+  }
+  return utcDate(input.getFullYear(), input.getMonth(), input.getDate());
+}
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+export function getEasterDate(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month - 1, day);
+}
+
+export function getFirstSundayOfAdvent(year: number) {
+  const christmas = utcDate(year, 11, 25);
+  const weekday = christmas.getUTCDay();
+  return addDays(christmas, -(weekday === 0 ? 7 : weekday) - 21);
+}
+
+function getYearAnchors(year: number): YearAnchors {
+  const cached = anchorsCache.get(year);
+  if (cached) return cached;
+
+  const januarySecond = utcDate(year, 0, 2);
+  const epiphany = addDays(januarySecond, (7 - januarySecond.getUTCDay()) % 7);
+  const baptism = epiphany.getUTCDate() >= 7 ? addDays(epiphany, 1) : addDays(epiphany, 7);
+  const easter = getEasterDate(year);
+  const pentecost = addDays(easter, 49);
+  const adventStart = getFirstSundayOfAdvent(year);
+  const christmas = utcDate(year, 11, 25);
+  const christmasWeekday = christmas.getUTCDay();
+
+  const anchors: YearAnchors = {
+    epiphany,
+    baptism,
+    ashWednesday: addDays(easter, -46),
+    palmSunday: addDays(easter, -7),
+    easter,
+    ascension: addDays(easter, 39),
+    pentecost,
+    trinity: addDays(pentecost, 7),
+    corpusChristi: addDays(pentecost, 14),
+    sacredHeart: addDays(pentecost, 19),
+    christTheKing: addDays(adventStart, -7),
+    adventStart,
+    holyFamily:
+      christmasWeekday === 0 ? utcDate(year, 11, 30) : addDays(christmas, 7 - christmasWeekday),
+  };
+
+  anchorsCache.set(year, anchors);
+  return anchors;
+}
+
+function sameDay(a: Date, b: Date) {
+  return a.getTime() === b.getTime();
+}
+
+function getTemporalDay(date: Date): TemporalDay {
+  const year = date.getUTCFullYear();
+  const anchors = getYearAnchors(year);
+  const weekday = date.getUTCDay();
+  const dayName = DAY_NAMES[weekday];
+  const isSunday = weekday === 0;
+
+  if (date >= anchors.adventStart && date < utcDate(year, 11, 25)) {
+    const week = diffDays(startOfWeek(date), anchors.adventStart) / 7 + 1;
+    if (isSunday) {
+      return {
+        id: `advent-${week}`,
+        title: `Minggu Adven ${toRoman(week)}`,
+        rank: 'sunday',
+        color: week === 3 ? 'rose' : 'violet',
+        precedence: 1,
+        season: 'advent',
+        week,
+      };
+    }
+    const dayOfMonth = date.getUTCDate();
+    const isLateAdvent = date.getUTCMonth() === 11 && dayOfMonth >= 17;
+    return {
+      id: isLateAdvent ? `advent-december-${dayOfMonth}` : 'advent-weekday',
+      title: isLateAdvent
+        ? `Hari Biasa Adven, ${dayOfMonth} Desember`
+        : `${dayName} Pekan Adven ${toRoman(week)}`,
+      rank: 'weekday',
+      color: 'violet',
+      precedence: isLateAdvent ? 6 : 9,
+      season: 'advent',
+      week,
+      readingsKey: isLateAdvent ? `december-${dayOfMonth}` : `advent-${week}-${weekday}`,
+    };
+  }
+
+  if (date >= utcDate(year, 11, 25) || date <= anchors.baptism) {
+    if (date.getUTCMonth() === 11 && date.getUTCDate() === 25) {
+      return { id: 'christmas', title: 'Hari Raya Natal', rank: 'solemnity', color: 'white', precedence: 1, season: 'christmas' };
+    }
+    if (sameDay(date, anchors.holyFamily)) {
+      return {
+        id: 'holy-family',
+        title: 'Pesta Keluarga Kudus: Yesus, Maria, dan Yusuf',
+        rank: 'feast',
+        color: 'white',
+        precedence: 3,
+        season: 'christmas',
+      };
+    }
+    if (sameDay(date, anchors.epiphany)) {
+      return { id: 'epiphany', title: 'Hari Raya Penampakan Tuhan', rank: 'solemnity', color: 'white', precedence: 1, season: 'christmas' };
+    }
+    if (sameDay(date, anchors.baptism)) {
+      return { id: 'baptism', title: 'Pesta Pembaptisan Tuhan', rank: 'feast', color: 'white', precedence: 3, season: 'christmas' };
+    }
+    if (date.getUTCMonth() === 11) {
+      const octaveDay = date.getUTCDate() - 24;
+      return {
+        id: 'christmas-octave',
+        title: `Hari ke-${octaveDay} dalam Oktaf Natal`,
+        rank: 'weekday',
+        color: 'white',
+        precedence: 6,
+        season: 'christmas',
+        readingsKey: `december-${date.getUTCDate()}`,
+      };
+    }
+    return {
+      id: 'christmas-weekday',
+      title: `${dayName} Masa Natal`,
+      rank: 'weekday',
+      color: 'white',
+      precedence: 9,
+      season: 'christmas',
+      readingsKey: date < anchors.epiphany ? `january-${date.getUTCDate()}` : `epiphany-1-${weekday}`,
+    };
+  }
+
+  if (date < anchors.ashWednesday) {
+    const week = diffDays(startOfWeek(date), startOfWeek(anchors.baptism)) / 7 + 1;
+    return buildOrdinaryDay(week, weekday);
+  }
+
+  const holyThursday = addDays(anchors.easter, -3);
+  if (date < holyThursday) {
+    if (sameDay(date, anchors.ashWednesday)) {
+      return { id: 'ash-wednesday', title: 'Rabu Abu', rank: 'weekday', color: 'violet', precedence: 1, season: 'lent', week: 0 };
+    }
+
+    const firstSunday = addDays(anchors.easter, -42);
+    if (date < firstSunday) {
+      return {
+        id: 'lent-weekday',
+        title: `${dayName} sesudah Rabu Abu`,
+        rank: 'weekday',
+        color: 'violet',
+        precedence: 6,
+        season: 'lent',
+        week: 0,
+        readingsKey: `lent-0-${weekday}`,
+      };
+    }
+
+    const week = diffDays(startOfWeek(date), firstSunday) / 7 + 1;
+    if (week === 6) {
+      return isSunday
+        ? {
+            id: 'palm-sunday',
+            title: 'Minggu Palma Mengenangkan Sengsara Tuhan',
+            rank: 'sunday',
+            color: 'red',
+            precedence: 1,
+            season: 'lent',
+            week,
+          }
+        : {
+            id: 'holy-week',
+            title: `${dayName} dalam Pekan Suci`,
+            rank: 'weekday',
+            color: 'violet',
+            precedence: 1,
+            season: 'lent',
+            week,
+            readingsKey: `lent-6-${weekday}`,
+          };
+    }
+
+    if (isSunday) {
+      return {
+        id: `lent-${week}`,
+        title: `Minggu Prapaskah ${toRoman(week)}`,
+        rank: 'sunday',
+        color: week === 4 ? 'rose' : 'violet',
+        precedence: 1,
+        season: 'lent',
+        week,
+      };
+    }
+    return {
+      id: 'lent-weekday',
+      title: `${dayName} Pekan Prapaskah ${toRoman(week)}`,
+      rank: 'weekday',
+      color: 'violet',
+      precedence: 6,
+      season: 'lent',
+      week,
+      readingsKey: `lent-${week}-${weekday}`,
+    };
+  }
+
+  if (date < anchors.easter) {
+    const triduumDay = diffDays(date, holyThursday);
+    if (triduumDay === 0) {
+      return { id: 'holy-thursday', title: 'Kamis Putih', rank: 'triduum', color: 'white', precedence: 1, season: 'triduum' };
+    }
+    if (triduumDay === 1) {
+      return { id: 'good-friday', title: 'Jumat Agung', rank: 'triduum', color: 'red', precedence: 1, season: 'triduum' };
+    }
+    return { id: 'holy-saturday', title: 'Sabtu Suci - Malam Paskah', rank: 'triduum', color: 'white', precedence: 1, season: 'triduum' };
+  }
+
+  if (date <= anchors.pentecost) {
+    const week = diffDays(startOfWeek(date), anchors.easter) / 7 + 1;
+    if (sameDay(date, anchors.easter)) {
+      return { id: 'easter', title: 'Hari Raya Paskah', rank: 'solemnity', color: 'white', precedence: 1, season: 'easter', week };
+    }
+    if (sameDay(date, anchors.ascension)) {
+      return { id: 'ascension', title: 'Hari Raya Kenaikan Tuhan', rank: 'solemnity', color: 'white', precedence: 1, season: 'easter', week };
+    }
+    if (sameDay(date, anchors.pentecost)) {
+      return { id: 'pentecost', title: 'Hari Raya Pentakosta', rank: 'solemnity', color: 'red', precedence: 1, season: 'easter', week };
+    }
+    if (week === 1) {
+      return {
+        id: 'easter-octave',
+        title: `${dayName} dalam Oktaf Paskah`,
+        rank: 'weekday',
+        color: 'white',
+        precedence: 1,
+        season: 'easter',
+        week,
+        readingsKey: `easter-1-${weekday}`,
+      };
+    }
+    if (isSunday) {
+      return {
+        id: `easter-${week}`,
+        title: week === 2 ? 'Minggu Paskah II (Minggu Kerahiman Ilahi)' : `Minggu Paskah ${toRoman(week)}`,
+        rank: 'sunday',
+        color: 'white',
+        precedence: 1,
+        season: 'easter',
+        week,
+      };
+    }
+    return {
+      id: 'easter-weekday',
+      title: `${dayName} Pekan Paskah ${toRoman(week)}`,
+      rank: 'weekday',
+      color: 'white',
+      precedence: 9,
+      season: 'easter',
+      week,
+      readingsKey: `easter-${week}-${weekday}`,
+    };
+  }
+
+  const week = 34 - diffDays(startOfWeek(anchors.christTheKing), startOfWeek(date)) / 7;
+  if (sameDay(date, anchors.trinity)) {
+    return { id: 'trinity', title: 'Hari Raya Tritunggal Mahakudus', rank: 'solemnity', color: 'white', precedence: 2, season: 'ordinary', week };
+  }
+  if (sameDay(date, anchors.corpusChristi)) {
+    return { id: 'corpus-christi', title: 'Hari Raya Tubuh dan Darah Kristus', rank: 'solemnity', color: 'white', precedence: 2, season: 'ordinary', week };
+  }
+  if (sameDay(date, anchors.sacredHeart)) {
+    return { id: 'sacred-heart', title: 'Hari Raya Hati Yesus yang Mahakudus', rank: 'solemnity', color: 'white', precedence: 2, season: 'ordinary', week };
+  }
+  if (sameDay(date, anchors.christTheKing)) {
+    return {
+      id: 'christ-the-king',
+      title: 'Hari Raya Tuhan Kita Yesus Kristus Raja Semesta Alam',
+      rank: 'solemnity',
+      color: 'white',
+      precedence: 2,
+      season: 'ordinary',
+      week,
+    };
+  }
+  return buildOrdinaryDay(week, weekday);
+}
+
+function buildOrdinaryDay(week: number, weekday: number): TemporalDay {
+  if (weekday === 0) {
+    return {
+      id: `ordinary-${week}`,
+      title: `Minggu Biasa ${toRoman(week)}`,
+      rank: 'sunday',
+      color: 'green',
+      precedence: 4,
+      season: 'ordinary',
+      week,
+    };
+  }
+  return {
+    id: 'ordinary-weekday',
+    title: `${DAY_NAMES[weekday]} Pekan Biasa ${toRoman(week)}`,
+    rank: 'weekday',
+    color: 'green',
+    precedence: 9,
+    season: 'ordinary',
+    week,
+  };
+}
+
+function sanctoralPrecedence(entry: SanctoralEntry) {
+  if (entry.rank === 'solemnity') return 2;
+  if (entry.rank === 'feast') return entry.lordFeast ? 3 : 5;
+  if (entry.rank === 'memorial') return 7;
+  return 8;
+}
+
+// Solemnities impeded by a privileged day or a solemnity of the Lord move to
+// the next free day, so one landing in Holy Week or the Easter octave ends up
+// on the Monday after the Second Sunday of Easter. St. Joseph is the exception
+// and is anticipated to the Saturday before Palm Sunday.
+function resolveSolemnityDate(entry: SanctoralEntry, date: Date, anchors: YearAnchors) {
+  if (getTemporalDay(date).precedence > 2) return date;
+
+  if (entry.id === 'joseph' && date >= anchors.palmSunday && date < anchors.easter) {
+    return addDays(anchors.palmSunday, -1);
+  }
+
+  let candidate = addDays(date, 1);
+  while (getTemporalDay(candidate).precedence <= 2) {
+    candidate = addDays(candidate, 1);
+  }
+  return candidate;
+}
+
+function getSanctoralCalendar(year: number) {
+  const cached = sanctoralCache.get(year);
+  if (cached) return cached;
+
+  const anchors = getYearAnchors(year);
+  const calendar = new Map<string, CelebrationDay>();
+  const place = (entry: SanctoralEntry, date: Date) => {
+    const key = toDateKey(date);
+    const precedence = sanctoralPrecedence(entry);
+    const existing = calendar.get(key);
+    if (existing && existing.precedence <= precedence) return;
+    calendar.set(key, {
+      id: entry.id,
+      title: entry.title,
+      rank: entry.rank,
+      color: entry.color,
+      precedence,
+    });
+  };
+
+  for (const [monthDay, entry] of Object.entries(SANCTORAL_CALENDAR)) {
+    const [month, day] = monthDay.split('-').map(Number);
+    const date = utcDate(year, month - 1, day);
+    place(entry, entry.rank === 'solemnity' ? resolveSolemnityDate(entry, date, anchors) : date);
+  }
+
+  place(
+    { id: 'mary-mother-of-church', title: 'Peringatan Wajib SP Maria, Bunda Gereja', rank: 'memorial', color: 'white' },
+    addDays(anchors.pentecost, 1)
+  );
+  place(
+    { id: 'immaculate-heart-of-mary', title: 'Peringatan Wajib Hati SP Maria yang Tak Bernoda', rank: 'memorial', color: 'white' },
+    addDays(anchors.pentecost, 20)
+  );
+
+  sanctoralCache.set(year, calendar);
+  return calendar;
+}
+
+export function getSundayCycle(input: Date | string): LiturgicalSundayCycle {
+  const date = normalizeDateInput(input);
+  const year = date.getUTCFullYear();
+  const liturgicalYear = date >= getYearAnchors(year).adventStart ? year + 1 : year;
+  const cycles: LiturgicalSundayCycle[] = ['C', 'A', 'B'];
+  return cycles[liturgicalYear % 3];
+}
+
+export function getWeekdayCycle(input: Date | string): LiturgicalWeekdayCycle {
+  const date = normalizeDateInput(input);
+  const year = date.getUTCFullYear();
+  const liturgicalYear = date >= getYearAnchors(year).adventStart ? year + 1 : year;
+  return liturgicalYear % 2 === 1 ? 'I' : 'II';
+}
+
+function getProperReadings(celebrationId: string, sundayCycle: LiturgicalSundayCycle) {
+  const proper = LITURGY_READINGS[celebrationId];
+  if (proper) {
+    return { ...proper, gospel: proper.gospelByCycle?.[sundayCycle] ?? proper.gospel };
+  }
+  return getSundayReadings(celebrationId, sundayCycle);
+}
+
+// Memorials have no proper readings in this table, so they take the readings of
+// the weekday they fall on.
+function getTemporalReadings(
+  temporal: TemporalDay,
+  date: Date,
+  sundayCycle: LiturgicalSundayCycle,
+  weekdayCycle: LiturgicalWeekdayCycle
+) {
+  if (temporal.id === 'ordinary-weekday' && temporal.week) {
+    return getOrdinaryWeekdayReadings(temporal.week, date.getUTCDay(), weekdayCycle);
+  }
+  if (temporal.readingsKey) return getSeasonalWeekdayReadings(temporal.readingsKey);
+  return getProperReadings(temporal.id, sundayCycle);
+}
+
+export function getLiturgyForDate(input: Date | string): Liturgy {
+  const date = normalizeDateInput(input);
+  const dateKey = toDateKey(date);
+  const temporal = getTemporalDay(date);
+  const sanctoral = getSanctoralCalendar(date.getUTCFullYear()).get(dateKey);
+  const celebration = sanctoral && sanctoral.precedence < temporal.precedence ? sanctoral : temporal;
+  const sundayCycle = getSundayCycle(date);
+  const weekdayCycle = getWeekdayCycle(date);
+  const readings =
+    getProperReadings(celebration.id, sundayCycle) ?? getTemporalReadings(temporal, date, sundayCycle, weekdayCycle);
+
+  return {
+    id: `liturgy-${dateKey}`,
+    date: dateKey,
+    title: celebration.title,
+    celebration_id: celebration.id,
+    season: temporal.season,
+    season_week: temporal.week,
+    rank: celebration.rank,
+    color: celebration.color,
+    sunday_cycle: sundayCycle,
+    weekday_cycle: weekdayCycle,
+    readings: readings?.first,
+    psalm: readings?.psalm,
+    second_reading: readings?.second,
+    gospel: readings?.gospel,
+    created_at: `${dateKey}T00:00:00.000Z`,
+  };
+}
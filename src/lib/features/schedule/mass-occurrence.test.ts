@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { MassSchedule } from '@/lib/types';
+import { getMassOccurrences, getUpcomingMassOccurrences } from './mass-occurrence';
+
+function schedule(id: string, dayOfWeek: number, massTime: string, language = 'Indonesia'): MassSchedule {
+  return {
+    id,
+    church_id: `church-${id}`,
+    day_of_week: dayOfWeek,
+    mass_time: massTime,
+    language,
+    is_active: true,
+    created_at: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+// Saturday 2024-06-01 20:00 WIB.
+const FROM = new Date('2024-06-01T13:00:00.000Z');
+
+test('resolves wall-clock times in the church timezone', () => {
+  const [jakarta] = getMassOccurrences(schedule('a', 0, '07:00'), 'Asia/Jakarta', FROM);
+  const [makassar] = getMassOccurrences(schedule('b', 0, '07:00'), 'Asia/Makassar', FROM);
+
+  assert.equal(jakarta.toISOString(), '2024-06-02T00:00:00.000Z');
+  assert.equal(makassar.toISOString(), '2024-06-01T23:00:00.000Z');
+});
+
+test('skips a mass that already started today and repeats weekly', () => {
+  const occurrences = getMassOccurrences(schedule('a', 6, '17:00'), 'Asia/Jakarta', FROM, 2);
+  assert.deepEqual(
+    occurrences.map((item) => item.toISOString()),
+    ['2024-06-08T10:00:00.000Z', '2024-06-15T10:00:00.000Z']
+  );
+});
+
+test('merges churches across timezones by instant and honours the limit', () => {
+  const results = getUpcomingMassOccurrences(
+    [
+      { schedule: schedule('wib', 0, '07:00'), timeZone: 'Asia/Jakarta' },
+      { schedule: schedule('wita', 0, '07:30'), timeZone: 'Asia/Makassar' },
+      { schedule: { ...schedule('off', 0, '06:00'), is_active: false }, timeZone: 'Asia/Jakarta' },
+    ],
+    { from: FROM, limit: 3 }
+  );
+
+  assert.deepEqual(
+    results.map((item) => item.schedule.id),
+    ['wita', 'wib', 'wita']
+  );
+  assert.equal(results[2].startsAt.toISOString(), '2024-06-08T23:30:00.000Z');
+});
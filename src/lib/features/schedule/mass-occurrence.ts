@@ -0,0 +1,177 @@
+import type { MassSchedule } from '@/lib/types';
+import { CALENDAR_SETTINGS } from '@/lib/constants';
+
+// `mass_time` is wall-clock time at the church, so every occurrence is
+// resolved in the church's IANA timezone before it becomes an instant.
+
+export type ZonedDateParts = {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+};
+
+export type MassOccurrence = {
+  schedule: MassSchedule;
+  timeZone: string;
+  startsAt: Date;
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export function resolveTimeZone(value?: string | null) {
+  const candidate = value?.trim();
+  if (!candidate) return CALENDAR_SETTINGS.DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: candidate });
+    return candidate;
+  } catch {
+    return CALENDAR_SETTINGS.DEFAULT_TIMEZONE;
+  }
+}
+
+export function getZonedDateParts(value: Date, timeZone: string): ZonedDateParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(value);
+  const read = (type: string) => Number(parts.find((part) => part.type === type)?.value || 0);
+  const year = read('year');
+  const month = read('month');
+  const day = read('day');
+
+  return {
+    year,
+    month,
+    day,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    hour: read('hour'),
+    minute: read('minute'),
+  };
+}
+
+/** Minutes east of UTC for the zone at the given instant (e.g. 420 for WIB). */
+export function getTimeZoneOffsetMinutes(timeZone: string, at: Date) {
+  const parts = getZonedDateParts(at, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((asUtc - Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+export function zonedTimeToUtc(
+  local: Pick<ZonedDateParts, 'year' | 'month' | 'day' | 'hour' | 'minute'>,
+  timeZone: string
+) {
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(timeZone, new Date(wallClock)) * MINUTE_MS;
+  // A second pass settles instants that sit across a DST transition.
+  return new Date(
+    wallClock - getTimeZoneOffsetMinutes(timeZone, new Date(firstGuess)) * MINUTE_MS
+  );
+}
+
+export function parseMassTime(value: string) {
+  const [hour = '0', minute = '0'] = value.split(':');
+  return { hour: Number(hour) || 0, minute: Number(minute) || 0 };
+}
+
+/** The next `count` weekly occurrences of a schedule at or after `from`. */
+export function getMassOccurrences(
+  schedule: MassSchedule,
+  timeZone: string,
+  from = new Date(),
+  count = 1
+) {
+  const today = getZonedDateParts(from, timeZone);
+  const { hour, minute } = parseMassTime(schedule.mass_time);
+  const offsetDays = (schedule.day_of_week - today.weekday + 7) % 7;
+  const occurrences: Date[] = [];
+
+  for (let week = 0; occurrences.length < count && week <= count; week += 1) {
+    const date = new Date(
+      Date.UTC(today.year, today.month - 1, today.day) + (offsetDays + week * 7) * DAY_MS
+    );
+    const startsAt = zonedTimeToUtc(
+      {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour,
+        minute,
+      },
+      timeZone
+    );
+    if (startsAt.getTime() >= from.getTime()) occurrences.push(startsAt);
+  }
+
+  return occurrences;
+}
+
+export function getNextMassOccurrence(schedule: MassSchedule, timeZone: string, from = new Date()) {
+  return getMassOccurrences(schedule, timeZone, from, 1)[0] ?? null;
+}
+
+/**
+ * Merges the upcoming occurrences of schedules that may live in different
+ * timezones. Every schedule recurs once a week, so the first `limit` results
+ * fit in ceil(limit / schedules) + 1 weeks of each schedule.
+ */
+export function getUpcomingMassOccurrences(
+  entries: Array<{ schedule: MassSchedule; timeZone: string }>,
+  options?: { from?: Date; withinHours?: number; limit?: number }
+): MassOccurrence[] {
+  const from = options?.from ?? new Date();
+  const active = entries.filter((entry) => entry.schedule.is_active);
+  if (active.length === 0) return [];
+
+  const until =
+    typeof options?.withinHours === 'number'
+      ? from.getTime() + options.withinHours * 60 * MINUTE_MS
+      : Number.POSITIVE_INFINITY;
+  const perSchedule =
+    typeof options?.limit === 'number'
+      ? Math.ceil(options.limit / active.length) + 1
+      : Math.ceil((options?.withinHours ?? 0) / (7 * 24)) + 1;
+
+  const occurrences = active
+    .flatMap(({ schedule, timeZone }) =>
+      getMassOccurrences(schedule, timeZone, from, perSchedule).map((startsAt) => ({
+        schedule,
+        timeZone,
+        startsAt,
+      }))
+    )
+    .filter((item) => item.startsAt.getTime() <= until)
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+  return typeof options?.limit === 'number' ? occurrences.slice(0, options.limit) : occurrences;
+}
+
+export function formatStartsInLabel(startsAt: string | Date, now = new Date()) {
+  const minutes = Math.max(0, Math.round((new Date(startsAt).getTime() - now.getTime()) / MINUTE_MS));
+  if (minutes < 60) return `dalam ${minutes} menit`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    const rest = minutes % 60;
+    return rest > 0 ? `dalam ${hours} jam ${rest} menit` : `dalam ${hours} jam`;
+  }
+  return `dalam ${Math.floor(hours / 24)} hari`;
+}
+
+/** Day, time and zone abbreviation as seen at the church, e.g. "Minggu, 07.30 WITA". */
+export function formatMassStartLabel(startsAt: string | Date, timeZone: string) {
+  return new Intl.DateTimeFormat('id-ID', {
+    timeZone,
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(startsAt));
+}
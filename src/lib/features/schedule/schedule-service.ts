@@ -1,8 +1,24 @@
 // Schedule Service
 
 import { supabase } from '@/lib/supabase/client';
-import type { Church, MassSchedule } from '@/lib/types';
+import type { Church, MassSchedule, NearbyChurch, UpcomingMass } from '@/lib/types';
 import { createRandomUUID } from '@/lib/utils';
+import { getBoundingBox, haversineDistanceKm, isValidGeoPoint, type GeoPoint } from './geo';
+import { getNextMassOccurrence, getUpcomingMassOccurrences, resolveTimeZone } from './mass-occurrence';
+
+const NEARBY_CHURCH_SCAN_LIMIT = 500;
+const NEARBY_CHURCH_MAX_PAGES = 20;
+const UPCOMING_MASS_DEFAULT_LIMIT = 10;
+const UPCOMING_MASS_WINDOW_DAYS = 2;
+const UPCOMING_MASS_SCHEDULE_SCAN_LIMIT = 1000;
+
+const MASS_LANGUAGE_ALIASES: Record<string, string[]> = {
+  indonesia: ['indonesia', 'id', 'ind'],
+  inggris: ['inggris', 'english', 'en', 'eng'],
+  jawa: ['jawa', 'javanese'],
+  mandarin: ['mandarin', 'chinese', 'tionghoa', 'zh'],
+  latin: ['latin', 'latina'],
+};
 
 function normalizeDayOfWeek(value: unknown): number {
   const parsed = Number(value ?? 0);
@@ -16,15 +32,8 @@ function normalizeTime(value: unknown): string {
   const raw = value?.toString().trim() ?? '';
   if (!raw) return '00:00';
 
-  if (raw.includes('T')) {
-    const date = new Date(raw);
-    if (!Number.isNaN(date.getTime())) {
-      const hh = date.getHours().toString().padStart(2, '0');
-      const mm = date.getMinutes().toString().padStart(2, '0');
-      return `${hh}:${mm}`;
-    }
-  }
-
+  // Timestamps keep the wall-clock time they were written with; converting them
+  // through `Date` would shift the Mass into the viewer's timezone.
   const match = raw.match(/(\d{1,2}):(\d{2})/);
   if (!match) return '00:00';
 
@@ -38,6 +47,39 @@ function timeToMinutes(value: string): number {
   return Number(hours) * 60 + Number(minutes);
 }
 
+function normalizeLanguageKey(value: string) {
+  const lower = value.trim().toLowerCase().replace(/^(bahasa|basa)\s+/, '');
+  for (const [key, aliases] of Object.entries(MASS_LANGUAGE_ALIASES)) {
+    if (aliases.includes(lower)) return key;
+  }
+  return lower;
+}
+
+function matchesMassLanguage(scheduleLanguage: string, language: string) {
+  const wanted = normalizeLanguageKey(language);
+  return scheduleLanguage
+    .split(/[,/&]|\s-\s/)
+    .some((part) => normalizeLanguageKey(part) === wanted);
+}
+
+// Broad ilike pre-filter; matchesMassLanguage makes the exact call afterwards.
+function buildLanguageFilter(language: string) {
+  const key = normalizeLanguageKey(language);
+  return (MASS_LANGUAGE_ALIASES[key] ?? [key])
+    .map((term) => `language.ilike.%${term.replace(/[%_,()]/g, ' ').trim()}%`)
+    .join(',');
+}
+
+// Local weekdays a Mass in the next `days` days can fall on, in any timezone
+// within a day of UTC.
+function getUpcomingWeekdays(from: Date, days: number) {
+  const weekdays = new Set<number>();
+  for (let offset = -1; offset <= days + 1; offset += 1) {
+    weekdays.add(new Date(from.getTime() + offset * 24 * 60 * 60 * 1000).getUTCDay());
+  }
+  return [...weekdays];
+}
+
 function isCompatibilityError(message: string) {
   const lower = message.toLowerCase();
   return (
@@ -50,22 +92,29 @@ function isCompatibilityError(message: string) {
   );
 }
 
+function toCoordinate(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
 function mapChurchRow(row: Record<string, unknown>): Church {
   return {
     id: row.id?.toString() ?? createRandomUUID(),
     diocese_id: row.diocese_id?.toString() ?? '',
     name: row.name?.toString() || row.parish?.toString() || 'Gereja',
     address: row.address?.toString(),
-    latitude: typeof row.latitude === 'number' ? row.latitude : undefined,
-    longitude: typeof row.longitude === 'number' ? row.longitude : undefined,
+    latitude: toCoordinate(row.latitude),
+    longitude: toCoordinate(row.longitude),
     phone: row.phone?.toString(),
     website: row.website?.toString(),
     image_url: row.image_url?.toString(),
+    timezone: row.timezone?.toString() || row.time_zone?.toString() || undefined,
     created_at: row.created_at?.toString() ?? new Date().toISOString(),
   };
 }
 
-function mapMassScheduleRow(row: Record<string, unknown>): MassSchedule {
+export function mapMassScheduleRow(row: Record<string, unknown>): MassSchedule {
   return {
     id: row.id?.toString() ?? createRandomUUID(),
     church_id: row.church_id?.toString() ?? '',
@@ -86,7 +135,7 @@ export class ScheduleService {
   static async getChurches(limit = 200): Promise<Church[]> {
     const { data, error } = await supabase
       .from('churches')
-      .select('id, diocese_id, name, address, latitude, longitude, image_url, created_at')
+      .select('*')
       .order('name', { ascending: true })
       .limit(limit);
 
@@ -98,6 +147,51 @@ export class ScheduleService {
     return ((data ?? []) as Record<string, unknown>[]).map(mapChurchRow);
   }
 
+  static async searchChurches(keyword: string, limit = 20): Promise<Church[]> {
+    const normalized = keyword.trim();
+    if (!normalized) return [];
+
+    const escaped = normalized.replace(/[%_]/g, '\\$&').replace(/[,()]/g, ' ');
+    const byNameOrAddress = await supabase
+      .from('churches')
+      .select('*')
+      .or(`name.ilike.%${escaped}%,address.ilike.%${escaped}%`)
+      .order('name', { ascending: true })
+      .limit(limit);
+
+    let rows = byNameOrAddress.data;
+    if (byNameOrAddress.error) {
+      // Older church tables have no address column.
+      const byName = await supabase
+        .from('churches')
+        .select('*')
+        .ilike('name', `%${escaped}%`)
+        .order('name', { ascending: true })
+        .limit(limit);
+      if (byName.error) {
+        console.error('Error searching churches:', byName.error);
+        return [];
+      }
+      rows = byName.data;
+    }
+
+    return ((rows ?? []) as Record<string, unknown>[]).map(mapChurchRow);
+  }
+
+  static async getChurchById(churchId: string): Promise<Church | null> {
+    const id = churchId.trim();
+    if (!id) return null;
+
+    const { data, error } = await supabase.from('churches').select('*').eq('id', id).maybeSingle();
+
+    if (error) {
+      console.error('Error fetching church:', error);
+      return null;
+    }
+
+    return data ? mapChurchRow(data as Record<string, unknown>) : null;
+  }
+
   static async getMassSchedules(params?: {
     churchId?: string;
     dayOfWeek?: number;
@@ -150,4 +244,293 @@ export class ScheduleService {
 
     return schedules;
   }
+
+  static async getMassSchedulesForChurches(churchIds: string[]): Promise<MassSchedule[]> {
+    const ids = [...new Set(churchIds.filter(Boolean))];
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase.from('mass_schedules').select('*').in('church_id', ids);
+
+    if (error) {
+      console.error('Error fetching mass schedules for churches:', error);
+      return [];
+    }
+
+    return ((data ?? []) as Record<string, unknown>[]).map(mapMassScheduleRow);
+  }
+
+  /**
+   * Churches within `radiusKm` of `center`, nearest first. The bounding box is
+   * applied in the query so the scan is not capped by the name-ordered list.
+   */
+  static async getNearbyChurches(params: {
+    center: GeoPoint;
+    radiusKm: number;
+    withinHours?: number;
+    limit?: number;
+    now?: Date;
+  }): Promise<NearbyChurch[]> {
+    const { center, radiusKm, withinHours, limit = 50, now = new Date() } = params;
+    if (!isValidGeoPoint(center) || radiusKm <= 0) return [];
+
+    const inRange = await this.getChurchesWithinRadius(center, radiusKm);
+    const schedules = await this.getMassSchedulesForChurches(inRange.map((church) => church.id));
+    const schedulesByChurch = new Map<string, MassSchedule[]>();
+    for (const schedule of schedules) {
+      if (!schedule.is_active) continue;
+      const list = schedulesByChurch.get(schedule.church_id) ?? [];
+      list.push(schedule);
+      schedulesByChurch.set(schedule.church_id, list);
+    }
+
+    const horizon =
+      typeof withinHours === 'number' ? now.getTime() + withinHours * 60 * 60 * 1000 : null;
+
+    return inRange
+      .map((church): NearbyChurch => {
+        const timeZone = resolveTimeZone(church.timezone);
+        let nextMass: MassSchedule | undefined;
+        let nextMassAt: Date | null = null;
+        for (const schedule of schedulesByChurch.get(church.id) ?? []) {
+          const startsAt = getNextMassOccurrence(schedule, timeZone, now);
+          if (startsAt && (!nextMassAt || startsAt < nextMassAt)) {
+            nextMass = schedule;
+            nextMassAt = startsAt;
+          }
+        }
+        return {
+          ...church,
+          next_mass: nextMass,
+          next_mass_at: nextMassAt?.toISOString(),
+        };
+      })
+      .filter(
+        (church) =>
+          horizon === null ||
+          (church.next_mass_at !== undefined && new Date(church.next_mass_at).getTime() <= horizon)
+      )
+      .sort((a, b) => a.distance_km - b.distance_km)
+      .slice(0, limit);
+  }
+
+  /**
+   * Approximate location for a typed city or address, taken from the centre of
+   * the churches whose name or address matches. Avoids a third-party geocoder.
+   */
+  static async locateByAddress(query: string): Promise<GeoPoint | null> {
+    const keyword = query.trim().replace(/[%,()]/g, ' ').trim();
+    if (keyword.length < 3) return null;
+
+    const { data, error } = await supabase
+      .from('churches')
+      .select('*')
+      .or(`address.ilike.%${keyword}%,name.ilike.%${keyword}%`)
+      .limit(50);
+
+    if (error) {
+      console.error('Error locating address:', error);
+      return null;
+    }
+
+    const points = ((data ?? []) as Record<string, unknown>[])
+      .map(mapChurchRow)
+      .map((church) => ({ latitude: church.latitude, longitude: church.longitude }))
+      .filter(isValidGeoPoint);
+    if (points.length === 0) return null;
+
+    return {
+      latitude: points.reduce((sum, point) => sum + point.latitude, 0) / points.length,
+      longitude: points.reduce((sum, point) => sum + point.longitude, 0) / points.length,
+    };
+  }
+
+  /**
+   * Next Mass occurrences across a set of churches, soonest first. Each church's
+   * schedules are resolved in its own timezone, so a WITA parish and a WIB
+   * parish are ordered by the real instant rather than by their clock times.
+   * Schedules are read for the next few weekdays first and for the whole week
+   * only when that window holds fewer than `limit` Masses.
+   */
+  static async getUpcomingMasses(params: {
+    from?: Date;
+    limit?: number;
+    churchIds?: string[];
+    dioceseId?: string;
+    language?: string;
+    near?: { center: GeoPoint; radiusKm: number };
+  }): Promise<UpcomingMass[]> {
+    const { from = new Date(), limit = UPCOMING_MASS_DEFAULT_LIMIT, near } = params;
+    let churchIds = [...new Set((params.churchIds ?? []).map((id) => id.trim()).filter(Boolean))];
+    const dioceseId = params.dioceseId?.trim();
+    const language = params.language?.trim();
+
+    const distanceById = new Map<string, number>();
+    if (near) {
+      if (!isValidGeoPoint(near.center) || near.radiusKm <= 0) return [];
+      const nearby = (await this.getChurchesWithinRadius(near.center, near.radiusKm)).filter(
+        (church) =>
+          (churchIds.length === 0 || churchIds.includes(church.id)) &&
+          (!dioceseId || church.diocese_id === dioceseId)
+      );
+      if (nearby.length === 0) return [];
+      for (const church of nearby) distanceById.set(church.id, church.distance_km);
+      churchIds = [...distanceById.keys()];
+    }
+
+    let occurrences: UpcomingMass[] = [];
+    for (const weekdays of [getUpcomingWeekdays(from, UPCOMING_MASS_WINDOW_DAYS), undefined]) {
+      const candidates = await this.getUpcomingScheduleCandidates({ churchIds, dioceseId, language, weekdays });
+      const churchById = new Map(candidates.map(({ church }) => [church.id, church]));
+
+      occurrences = getUpcomingMassOccurrences(
+        candidates
+          .filter(({ schedule }) => !language || matchesMassLanguage(schedule.language, language))
+          .map(({ schedule, church }) => ({ schedule, timeZone: resolveTimeZone(church.timezone) })),
+        { from, limit, withinHours: weekdays ? UPCOMING_MASS_WINDOW_DAYS * 24 : undefined }
+      ).flatMap(({ schedule, timeZone, startsAt }) => {
+        const church = churchById.get(schedule.church_id);
+        if (!church) return [];
+        return [
+          {
+            schedule,
+            church,
+            starts_at: startsAt.toISOString(),
+            timezone: timeZone,
+            distance_km: distanceById.get(church.id),
+          },
+        ];
+      });
+      if (occurrences.length >= limit) break;
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Schedules in scope with their church, read from `mass_schedules` with the
+   * language and weekday filters applied in the query. Schemas without the
+   * churches relationship fall back to two plain reads.
+   */
+  private static async getUpcomingScheduleCandidates(params: {
+    churchIds: string[];
+    dioceseId?: string;
+    language?: string;
+    weekdays?: number[];
+  }): Promise<Array<{ schedule: MassSchedule; church: Church }>> {
+    const { churchIds, dioceseId, language, weekdays } = params;
+
+    let query = supabase
+      .from('mass_schedules')
+      .select('*, churches!inner(*)')
+      .limit(UPCOMING_MASS_SCHEDULE_SCAN_LIMIT);
+    if (churchIds.length > 0) query = query.in('church_id', churchIds);
+    if (dioceseId) query = query.eq('churches.diocese_id', dioceseId);
+    if (language) query = query.or(buildLanguageFilter(language));
+    if (weekdays) {
+      // Some imports store Sunday as 7.
+      query = query.in('day_of_week', weekdays.includes(0) ? [...weekdays, 7] : weekdays);
+    }
+
+    const joined = await query;
+    if (!joined.error) {
+      return ((joined.data ?? []) as Record<string, unknown>[]).flatMap((row) => {
+        const church = row.churches as Record<string, unknown> | null;
+        if (!church) return [];
+        return [{ schedule: mapMassScheduleRow(row), church: mapChurchRow(church) }];
+      });
+    }
+    if (!isCompatibilityError(joined.error.message)) {
+      console.error('Error fetching upcoming mass schedules:', joined.error);
+      return [];
+    }
+
+    let scopeIds = churchIds;
+    if (scopeIds.length === 0 && dioceseId) {
+      const { data, error } = await supabase.from('churches').select('id').eq('diocese_id', dioceseId);
+      if (error) {
+        console.error('Error fetching diocese churches for upcoming masses:', error);
+        return [];
+      }
+      scopeIds = ((data ?? []) as Record<string, unknown>[]).map((row) => row.id?.toString() ?? '').filter(Boolean);
+    }
+    if (scopeIds.length === 0) return [];
+
+    const schedules = (await this.getMassSchedulesForChurches(scopeIds)).filter(
+      (schedule) => !weekdays || weekdays.includes(schedule.day_of_week)
+    );
+    const { data, error } = await supabase
+      .from('churches')
+      .select('*')
+      .in('id', [...new Set(schedules.map((schedule) => schedule.church_id))]);
+    if (error) {
+      console.error('Error fetching churches for upcoming masses:', error);
+      return [];
+    }
+    const churchById = new Map(
+      ((data ?? []) as Record<string, unknown>[]).map(mapChurchRow).map((church) => [church.id, church])
+    );
+    return schedules.flatMap((schedule) => {
+      const church = churchById.get(schedule.church_id);
+      return church ? [{ schedule, church }] : [];
+    });
+  }
+
+  /**
+   * Churches within `radiusKm` of `center`, nearest first. The scan limit is
+   * applied after the distance sort: by the `nearby_churches` RPC when it is
+   * deployed, otherwise by paging through the whole bounding box here.
+   */
+  private static async getChurchesWithinRadius(center: GeoPoint, radiusKm: number) {
+    const ranked = await supabase.rpc('nearby_churches', {
+      p_latitude: center.latitude,
+      p_longitude: center.longitude,
+      p_radius_km: radiusKm,
+      p_limit: NEARBY_CHURCH_SCAN_LIMIT,
+    });
+
+    if (!ranked.error) {
+      return ((ranked.data ?? []) as Record<string, unknown>[]).flatMap((row) => {
+        const distance = Number(row.distance_km);
+        if (!row.church || !Number.isFinite(distance)) return [];
+        return [{ ...mapChurchRow(row.church as Record<string, unknown>), distance_km: distance }];
+      });
+    }
+    if (!isCompatibilityError(ranked.error.message)) {
+      console.error('Error ranking nearby churches:', ranked.error);
+      return [];
+    }
+
+    const box = getBoundingBox(center, radiusKm);
+    const inRange: Array<Church & { distance_km: number }> = [];
+    for (let page = 0; page < NEARBY_CHURCH_MAX_PAGES; page += 1) {
+      const offset = page * NEARBY_CHURCH_SCAN_LIMIT;
+      const { data, error } = await supabase
+        .from('churches')
+        .select('*')
+        .gte('latitude', box.minLatitude)
+        .lte('latitude', box.maxLatitude)
+        .gte('longitude', box.minLongitude)
+        .lte('longitude', box.maxLongitude)
+        .order('id', { ascending: true })
+        .range(offset, offset + NEARBY_CHURCH_SCAN_LIMIT - 1);
+
+      if (error) {
+        console.error('Error fetching nearby churches:', error);
+        break;
+      }
+
+      const rows = (data ?? []) as Record<string, unknown>[];
+      for (const church of rows.map(mapChurchRow)) {
+        const point = { latitude: church.latitude, longitude: church.longitude };
+        if (!isValidGeoPoint(point)) continue;
+        const distance = haversineDistanceKm(center, point);
+        if (distance <= radiusKm) inRange.push({ ...church, distance_km: distance });
+      }
+      if (rows.length < NEARBY_CHURCH_SCAN_LIMIT) break;
+    }
+
+    return inRange
+      .sort((a, b) => a.distance_km - b.distance_km)
+      .slice(0, NEARBY_CHURCH_SCAN_LIMIT);
+  }
 }
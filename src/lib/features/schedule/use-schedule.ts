@@ -3,6 +3,7 @@
 'use client';
 
 import { useQuery } from '@tanstack/react-query';
+import type { GeoPoint } from './geo';
 import { ScheduleService } from './schedule-service';
 
 export function useChurches(limit = 200) {
@@ -12,6 +13,16 @@ export function useChurches(limit = 200) {
   });
 }
 
+export function useChurch(churchId?: string) {
+  const id = churchId?.trim() || '';
+
+  return useQuery({
+    queryKey: ['church', id],
+    queryFn: () => ScheduleService.getChurchById(id),
+    enabled: id.length > 0,
+  });
+}
+
 export function useMassSchedules(params?: { churchId?: string; dayOfWeek?: number }) {
   return useQuery({
     queryKey: ['mass-schedules', params?.churchId, params?.dayOfWeek],
@@ -19,3 +30,52 @@ export function useMassSchedules(params?: { churchId?: string; dayOfWeek?: numbe
     enabled: Boolean(params?.churchId),
   });
 }
+
+export function useNearbyChurches(params: {
+  center: GeoPoint | null;
+  radiusKm: number;
+  withinHours?: number;
+}) {
+  const { center, radiusKm, withinHours } = params;
+
+  return useQuery({
+    queryKey: ['nearby-churches', center?.latitude, center?.longitude, radiusKm, withinHours],
+    queryFn: () => ScheduleService.getNearbyChurches({ center: center!, radiusKm, withinHours }),
+    enabled: Boolean(center),
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useUpcomingMasses(params: {
+  churchIds?: string[];
+  dioceseId?: string;
+  language?: string;
+  near?: { center: GeoPoint; radiusKm: number } | null;
+  limit?: number;
+  enabled?: boolean;
+}) {
+  const { churchIds, dioceseId, language, near, limit, enabled = true } = params;
+
+  return useQuery({
+    queryKey: [
+      'upcoming-masses',
+      churchIds?.join(','),
+      dioceseId,
+      language,
+      near?.center.latitude,
+      near?.center.longitude,
+      near?.radiusKm,
+      limit,
+    ],
+    queryFn: () =>
+      ScheduleService.getUpcomingMasses({
+        churchIds,
+        dioceseId,
+        language,
+        near: near ?? undefined,
+        limit,
+      }),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,49 @@
+import { SEARCH_SETTINGS } from '@/lib/constants';
+
+function hasWindow() {
+  return typeof window !== 'undefined';
+}
+
+function parseHistory(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Most recent first, case-insensitively de-duplicated, capped at RECENT_LIMIT. */
+export function pushRecentSearch(history: string[], query: string) {
+  const normalized = query.trim().replace(/\s+/g, ' ');
+  if (normalized.length < SEARCH_SETTINGS.MIN_QUERY_LENGTH) return history;
+  return [
+    normalized,
+    ...history.filter((item) => item.toLowerCase() !== normalized.toLowerCase()),
+  ].slice(0, SEARCH_SETTINGS.RECENT_LIMIT);
+}
+
+export function loadRecentSearches(): string[] {
+  if (!hasWindow()) return [];
+  try {
+    return parseHistory(window.localStorage.getItem(SEARCH_SETTINGS.RECENT_STORAGE_KEY));
+  } catch {
+    return [];
+  }
+}
+
+export function saveRecentSearches(history: string[]) {
+  if (!hasWindow()) return;
+  try {
+    if (history.length === 0) {
+      window.localStorage.removeItem(SEARCH_SETTINGS.RECENT_STORAGE_KEY);
+      return;
+    }
+    window.localStorage.setItem(SEARCH_SETTINGS.RECENT_STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Storage can be full or disabled (private mode); history is optional.
+  }
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { SearchResultItem } from '@/lib/types';
+import { pushRecentSearch } from './search-history';
+import {
+  createEmptySearchResults,
+  getUpcomingBoost,
+  orderSearchSections,
+  scoreTextMatch,
+} from './search-ranking';
+
+function item(section: SearchResultItem['section'], id: string, score: number): SearchResultItem {
+  return { id, section, title: id, href: `/${id}`, score };
+}
+
+test('scores exact, prefix, word-prefix and accent-insensitive matches in order', () => {
+  assert.equal(scoreTextMatch('katedral', 'Katedral'), 100);
+  assert.ok(scoreTextMatch('kated', 'Katedral Jakarta') > scoreTextMatch('jakarta', 'Katedral Jakarta'));
+  assert.ok(scoreTextMatch('jakarta', 'Katedral Jakarta') > scoreTextMatch('karta', 'Katedral Jakarta'));
+  assert.equal(scoreTextMatch('santa theresia', 'Gereja Theresia Santa'), 35);
+  assert.equal(scoreTextMatch('jose', 'San José'), 70);
+  assert.equal(scoreTextMatch('xyz', 'Katedral'), 0);
+});
+
+test('orders sections by their best hit and boosts the soonest events', () => {
+  const results = createEmptySearchResults();
+  results.people = [item('people', 'umat', 50)];
+  results.churches = [item('churches', 'katedral', 100)];
+  results.verses = [item('verses', 'yoh-3-16', 50)];
+  assert.deepEqual(orderSearchSections(results), ['churches', 'people', 'verses']);
+
+  const now = new Date('2024-06-01T00:00:00.000Z');
+  assert.ok(getUpcomingBoost('2024-06-02T00:00:00.000Z', now) > getUpcomingBoost('2024-06-20T00:00:00.000Z', now));
+  assert.equal(getUpcomingBoost('2024-05-31T00:00:00.000Z', now), 0);
+});
+
+test('keeps recent searches unique, newest first and capped', () => {
+  let history: string[] = [];
+  for (const query of ['misa', 'Katedral', 'a', 'MISA', ...Array.from({ length: 10 }, (_, i) => `doa ${i}`)]) {
+    history = pushRecentSearch(history, query);
+  }
+  assert.equal(history.length, 8);
+  assert.equal(history[0], 'doa 9');
+  assert.ok(!history.includes('a'));
+  assert.deepEqual(pushRecentSearch(['Misa', 'doa'], 'misa'), ['misa', 'doa']);
+});
@@ -0,0 +1,70 @@
+import type { SearchResultItem, SearchResults, SearchSection } from '@/lib/types';
+
+export const SEARCH_SECTIONS: SearchSection[] = ['people', 'churches', 'radars', 'posts', 'verses'];
+
+export const SEARCH_SECTION_LABELS: Record<SearchSection, string> = {
+  people: 'Orang',
+  posts: 'Postingan',
+  churches: 'Gereja',
+  radars: 'Radar',
+  verses: 'Ayat',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function normalizeSearchText(value: string | null | undefined) {
+  return (value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 0-100 match quality of `query` against one field: exact > prefix > word
+ * prefix > substring > all words present in any order.
+ */
+export function scoreTextMatch(query: string, text: string | null | undefined) {
+  const needle = normalizeSearchText(query);
+  const haystack = normalizeSearchText(text);
+  if (!needle || !haystack) return 0;
+
+  if (haystack === needle) return 100;
+  if (haystack.startsWith(needle)) return 85;
+  if (haystack.split(' ').some((word) => word.startsWith(needle))) return 70;
+  if (haystack.includes(needle)) return 50;
+
+  const words = needle.split(' ');
+  if (words.length > 1 && words.every((word) => haystack.includes(word))) return 35;
+  return 0;
+}
+
+/** Best weighted match over the given fields; weight 1 is the primary field. */
+export function scoreSearchFields(query: string, fields: Array<{ text?: string | null; weight: number }>) {
+  return Math.max(0, ...fields.map((field) => scoreTextMatch(query, field.text) * field.weight));
+}
+
+/** Soonest events get up to +15; anything more than a month out gets nothing. */
+export function getUpcomingBoost(startsAt: string, now = new Date()) {
+  const days = (new Date(startsAt).getTime() - now.getTime()) / DAY_MS;
+  if (Number.isNaN(days) || days < 0 || days > 30) return 0;
+  return Math.round(15 * (1 - days / 30));
+}
+
+export function rankSearchItems(items: SearchResultItem[]) {
+  return [...items].sort((a, b) => b.score - a.score || a.title.localeCompare(b.title, 'id'));
+}
+
+/** Sections with results, best top hit first; ties keep the default order. */
+export function orderSearchSections(results: SearchResults): SearchSection[] {
+  return SEARCH_SECTIONS.filter((section) => results[section].length > 0).sort(
+    (a, b) =>
+      (results[b][0]?.score ?? 0) - (results[a][0]?.score ?? 0) ||
+      SEARCH_SECTIONS.indexOf(a) - SEARCH_SECTIONS.indexOf(b)
+  );
+}
+
+export function createEmptySearchResults(): SearchResults {
+  return { people: [], posts: [], churches: [], radars: [], verses: [] };
+}
@@ -0,0 +1,152 @@
+// Search Service
+
+import type { SearchResultItem, SearchResults, SearchSection } from '@/lib/types';
+import { BibleService } from '@/lib/features/bible/bible-service';
+import { ChatService } from '@/lib/features/chat/chat-service';
+import { FeedService } from '@/lib/features/feed/feed-service';
+import { RadarService } from '@/lib/features/radar/radar-service';
+import { formatMassStartLabel } from '@/lib/features/schedule/mass-occurrence';
+import { ScheduleService } from '@/lib/features/schedule/schedule-service';
+import {
+  createEmptySearchResults,
+  getUpcomingBoost,
+  rankSearchItems,
+  scoreSearchFields,
+  scoreTextMatch,
+} from './search-ranking';
+
+function snippet(text: string | undefined, maxLength = 120) {
+  const normalized = text?.replace(/\s+/g, ' ').trim() ?? '';
+  return normalized.length > maxLength ? `${normalized.slice(0, maxLength - 1)}…` : normalized;
+}
+
+// Each section is searched independently; one failing backend must not empty the others.
+async function settle(section: SearchSection, task: () => Promise<SearchResultItem[]>) {
+  try {
+    return await task();
+  } catch (error) {
+    console.error(`Error searching ${section}:`, error);
+    return [];
+  }
+}
+
+export class SearchService {
+  static async search(
+    query: string,
+    params?: { limit?: number; currentUserId?: string; sections?: SearchSection[] }
+  ): Promise<SearchResults> {
+    const keyword = query.trim();
+    const limit = params?.limit ?? 5;
+    const wanted = new Set(params?.sections ?? ['people', 'posts', 'churches', 'radars', 'verses']);
+    const results = createEmptySearchResults();
+    if (!keyword) return results;
+
+    const run = (section: SearchSection, task: () => Promise<SearchResultItem[]>) =>
+      wanted.has(section) ? settle(section, task) : Promise.resolve([]);
+
+    const [people, posts, churches, radars, verses] = await Promise.all([
+      run('people', () => this.searchPeople(keyword)),
+      run('posts', () => this.searchPosts(keyword, limit, params?.currentUserId)),
+      run('churches', () => this.searchChurches(keyword, limit)),
+      run('radars', () => this.searchRadars(keyword, limit)),
+      run('verses', () => this.searchVerses(keyword, limit)),
+    ]);
+
+    results.people = rankSearchItems(people).slice(0, limit);
+    results.posts = rankSearchItems(posts).slice(0, limit);
+    results.churches = rankSearchItems(churches).slice(0, limit);
+    results.radars = rankSearchItems(radars).slice(0, limit);
+    // Verse order already comes ranked from the Bible search.
+    results.verses = verses.slice(0, limit);
+    return results;
+  }
+
+  private static async searchPeople(keyword: string): Promise<SearchResultItem[]> {
+    const users = await ChatService.searchUsers(keyword);
+    return users.map((user) => ({
+      id: user.id,
+      section: 'people',
+      title: user.full_name || 'Umat',
+      subtitle: user.role || undefined,
+      href: `/profile/${encodeURIComponent(user.id)}`,
+      image_url: user.avatar_url,
+      score: scoreTextMatch(keyword, user.full_name) || 30,
+    }));
+  }
+
+  private static async searchPosts(
+    keyword: string,
+    limit: number,
+    currentUserId?: string
+  ): Promise<SearchResultItem[]> {
+    const posts = await FeedService.searchPosts(keyword, { limit: limit * 2, currentUserId });
+    return posts.map((post, index) => ({
+      id: post.id,
+      section: 'posts',
+      title: post.profile?.full_name || 'Umat',
+      subtitle: snippet(post.caption),
+      href: `/post/${encodeURIComponent(post.id)}`,
+      image_url: post.image_url?.[0],
+      // Full-text hits are already relevant; prefer tighter caption matches, then recency.
+      score: Math.max(scoreTextMatch(keyword, post.caption), 40) - index,
+    }));
+  }
+
+  private static async searchChurches(keyword: string, limit: number): Promise<SearchResultItem[]> {
+    const churches = await ScheduleService.searchChurches(keyword, limit * 2);
+    return churches.map((church) => ({
+      id: church.id,
+      section: 'churches',
+      title: church.name,
+      subtitle: church.address,
+      href: `/schedule?church=${encodeURIComponent(church.id)}`,
+      image_url: church.image_url,
+      score: scoreSearchFields(keyword, [
+        { text: church.name, weight: 1 },
+        { text: church.address, weight: 0.6 },
+      ]),
+    }));
+  }
+
+  private static async searchRadars(keyword: string, limit: number): Promise<SearchResultItem[]> {
+    const now = new Date();
+    const events = await RadarService.searchEvents(keyword, limit * 2);
+    return events
+      .filter((event) => event.status !== 'CANCELLED')
+      .map((event) => ({
+        id: event.id,
+        section: 'radars' as const,
+        title: event.title,
+        subtitle: [
+          formatMassStartLabel(event.event_starts_at_utc, event.church_timezone),
+          event.church?.name,
+        ]
+          .filter(Boolean)
+          .join(' • '),
+        href: `/radar/${encodeURIComponent(event.id)}`,
+        score:
+          scoreSearchFields(keyword, [
+            { text: event.title, weight: 1 },
+            { text: event.church?.name, weight: 0.7 },
+            { text: event.description, weight: 0.5 },
+          ]) + getUpcomingBoost(event.event_starts_at_utc, now),
+      }));
+  }
+
+  private static async searchVerses(keyword: string, limit: number): Promise<SearchResultItem[]> {
+    const [hits, books] = await Promise.all([
+      BibleService.searchVerses({ query: keyword, limit: Math.max(limit, 10) }),
+      BibleService.getBooks(),
+    ]);
+    const bookNames = new Map(books.map((book) => [book.id, book.name]));
+
+    return hits.slice(0, limit).map((hit, index) => ({
+      id: `${hit.book_id}:${hit.chapter}:${hit.verse_number}`,
+      section: 'verses',
+      title: `${bookNames.get(hit.book_id) ?? 'Alkitab'} ${hit.chapter}:${hit.verse_number}`,
+      subtitle: snippet(hit.text),
+      href: `/bible/${encodeURIComponent(hit.book_id)}/${hit.chapter}?verse=${hit.verse_number}`,
+      score: Math.max(scoreTextMatch(keyword, hit.text), 30) - index,
+    }));
+  }
+}
@@ -0,0 +1,70 @@
+// Search Hooks
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { SEARCH_SETTINGS } from '@/lib/constants';
+import { useAuth } from '@/lib/features/auth/use-auth';
+import type { SearchSection } from '@/lib/types';
+import { loadRecentSearches, pushRecentSearch, saveRecentSearches } from './search-history';
+import { orderSearchSections } from './search-ranking';
+import { SearchService } from './search-service';
+
+export function useDebouncedSearchQuery(value: string, delay: number = SEARCH_SETTINGS.DEBOUNCE_MS) {
+  const [debounced, setDebounced] = useState(value.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value.trim()), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
+
+export function useUnifiedSearch(
+  query: string,
+  params?: { limit?: number; sections?: SearchSection[] }
+) {
+  const { user } = useAuth();
+  const keyword = query.trim();
+  const limit = params?.limit ?? SEARCH_SETTINGS.PANEL_SECTION_LIMIT;
+
+  const result = useQuery({
+    queryKey: ['unified-search', keyword, limit, params?.sections, user?.id],
+    queryFn: () =>
+      SearchService.search(keyword, {
+        limit,
+        currentUserId: user?.id,
+        sections: params?.sections,
+      }),
+    enabled: keyword.length >= SEARCH_SETTINGS.MIN_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000,
+  });
+
+  const sections = useMemo(() => (result.data ? orderSearchSections(result.data) : []), [result.data]);
+
+  return { ...result, sections };
+}
+
+export function useRecentSearches() {
+  const [recent, setRecent] = useState<string[]>(loadRecentSearches);
+
+  const update = useCallback((next: (current: string[]) => string[]) => {
+    setRecent((current) => {
+      const value = next(current);
+      saveRecentSearches(value);
+      return value;
+    });
+  }, []);
+
+  const add = useCallback((query: string) => update((current) => pushRecentSearch(current, query)), [update]);
+  const remove = useCallback(
+    (query: string) => update((current) => current.filter((item) => item !== query)),
+    [update]
+  );
+  const clear = useCallback(() => update(() => []), [update]);
+
+  return { recent, add, remove, clear };
+}
@@ -1,8 +1,26 @@
 // Stories Service
 
 import { supabase } from '@/lib/supabase/client';
+import { STORY_SETTINGS } from '@/lib/constants';
 import { ChatService } from '@/lib/features/chat/chat-service';
-import type { Story } from '@/lib/types';
+import type {
+  CloseFriend,
+  CloseFriendCandidate,
+  Story,
+  StoryHighlight,
+  StoryInsightUser,
+  StoryInsights,
+  StoryVerseRef,
+} from '@/lib/types';
+import { filterVisibleStories, type StoryAudienceContext } from './story-audience';
+import {
+  groupHighlightItems,
+  isStoryExpired,
+  normalizeHighlightTitle,
+  resolveHighlightCover,
+} from './story-highlights';
+import { countRowsByStoryId, groupStoryReactions } from './story-insights';
+import { parseStoryVerseRef } from './verse-story';
 
 function isMissingObjectError(message: string) {
   const normalized = message.toLowerCase();
@@ -54,6 +72,8 @@ function normalizeSupabaseError(error: unknown): string {
   return [code, message, details].filter(Boolean).join(' | ') || 'Unknown error';
 }
 
+type StoryActivityTable = 'story_views' | 'story_reactions' | 'story_replies';
+
 type StoryQueryResult = {
   data: Record<string, unknown>[] | null;
   error: {
@@ -101,6 +121,7 @@ function mapStoryRow(
     media_type: mediaType,
     caption: row.caption?.toString(),
     audience,
+    verse_ref: parseStoryVerseRef(row.verse_ref),
     created_at: createdAt,
     expires_at: expiresAt,
     updated_at: row.updated_at?.toString() ?? createdAt,
@@ -143,6 +164,48 @@ export class StoriesService {
     return profilesMap;
   }
 
+  // Activity tables differ in actor column naming between web and mobile schemas,
+  // so rows are read with '*' and the actor is resolved per row.
+  private static async getStoryActivityRows(table: StoryActivityTable, storyIds: string[]) {
+    if (storyIds.length === 0) return [] as Record<string, unknown>[];
+
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .in('story_id', storyIds);
+
+    if (error) {
+      const normalized = normalizeSupabaseError(error);
+      if (!isMissingObjectError(normalized)) {
+        console.error(`Error fetching ${table}:`, normalized);
+      }
+      return [] as Record<string, unknown>[];
+    }
+
+    return (data ?? []) as Record<string, unknown>[];
+  }
+
+  private static async attachInsightCounts(stories: Story[]) {
+    const storyIds = stories.map((story) => story.id).filter(Boolean);
+    if (storyIds.length === 0) return stories;
+
+    const [views, reactions, replies] = await Promise.all([
+      this.getStoryActivityRows('story_views', storyIds),
+      this.getStoryActivityRows('story_reactions', storyIds),
+      this.getStoryActivityRows('story_replies', storyIds),
+    ]);
+    const viewCounts = countRowsByStoryId(views);
+    const reactionCounts = countRowsByStoryId(reactions);
+    const replyCounts = countRowsByStoryId(replies);
+
+    return stories.map((story) => ({
+      ...story,
+      view_count: viewCounts.get(story.id) ?? 0,
+      reaction_count: reactionCounts.get(story.id) ?? 0,
+      reply_count: replyCounts.get(story.id) ?? 0,
+    }));
+  }
+
   private static async hydrateStories(storyRows: Record<string, unknown>[]) {
     const userIds = storyRows
       .map((row) => row.user_id?.toString() ?? '')
@@ -182,8 +245,75 @@ export class StoriesService {
     return { rows: rows ?? [], error };
   }
 
-  // Get stories from followed users
-  static async getStories(): Promise<Story[]> {
+  private static async getAuthorIdSet(
+    table: 'follows' | 'close_friends',
+    viewerColumn: string,
+    authorColumn: string,
+    viewerId: string,
+    authorIds: string[]
+  ) {
+    const result = await supabase
+      .from(table)
+      .select(authorColumn)
+      .eq(viewerColumn, viewerId)
+      .in(authorColumn, authorIds);
+
+    if (result.error) {
+      const normalized = normalizeSupabaseError(result.error);
+      if (!isMissingObjectError(normalized)) {
+        console.warn(`Warning resolving story audience from ${table}:`, normalized);
+      }
+      return new Set<string>();
+    }
+
+    return new Set(
+      ((result.data ?? []) as unknown as Record<string, unknown>[])
+        .map((row) => row[authorColumn]?.toString())
+        .filter((id): id is string => Boolean(id))
+    );
+  }
+
+  // Unknown relations fail closed: a missing close_friends table hides those stories.
+  private static async getAudienceContext(
+    viewerId: string | undefined,
+    stories: Story[]
+  ): Promise<StoryAudienceContext> {
+    const context: StoryAudienceContext = {
+      viewerId,
+      followingIds: new Set<string>(),
+      closeFriendOfIds: new Set<string>(),
+    };
+    if (!viewerId) return context;
+
+    const restrictedAuthorIds = (audience: Story['audience']) => [
+      ...new Set(
+        stories
+          .filter((story) => story.audience === audience && story.user_id !== viewerId)
+          .map((story) => story.user_id)
+      ),
+    ];
+    const followerAuthorIds = restrictedAuthorIds('followers');
+    const closeFriendAuthorIds = restrictedAuthorIds('close_friends');
+
+    const [followingIds, closeFriendOfIds] = await Promise.all([
+      followerAuthorIds.length > 0
+        ? this.getAuthorIdSet('follows', 'follower_id', 'following_id', viewerId, followerAuthorIds)
+        : Promise.resolve(new Set<string>()),
+      closeFriendAuthorIds.length > 0
+        ? this.getAuthorIdSet('close_friends', 'friend_id', 'user_id', viewerId, closeFriendAuthorIds)
+        : Promise.resolve(new Set<string>()),
+    ]);
+
+    return { ...context, followingIds, closeFriendOfIds };
+  }
+
+  private static async filterByAudience(stories: Story[], viewerId?: string) {
+    const context = await this.getAudienceContext(viewerId, stories);
+    return filterVisibleStories(stories, context);
+  }
+
+  // Get stories visible to the viewer (own, public, followed and close-friends stories)
+  static async getStories(viewerId?: string): Promise<Story[]> {
     const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
 
     const { rows, error } = await this.runStoryListQuery(() =>
@@ -203,7 +333,7 @@ export class StoriesService {
       return [];
     }
 
-    return this.hydrateStories(rows);
+    return this.filterByAudience(await this.hydrateStories(rows), viewerId);
   }
 
   // Get single story by ID
@@ -237,6 +367,7 @@ export class StoriesService {
     mediaType: 'image' | 'video';
     caption?: string;
     audience?: 'followers' | 'close_friends' | 'everyone';
+    verseRef?: StoryVerseRef;
   }): Promise<Story> {
     const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
     const payload: Record<string, unknown> = {
@@ -248,6 +379,9 @@ export class StoriesService {
       created_at: new Date().toISOString(),
       expires_at: expiresAt,
     };
+    if (data.verseRef) {
+      payload.verse_ref = data.verseRef;
+    }
 
     let result = await supabase
       .from('stories')
@@ -255,8 +389,15 @@ export class StoriesService {
       .select('*')
       .single();
 
-    if (result.error && isSpecificMissingColumnError(result.error.message, 'audience')) {
-      delete payload.audience;
+    // Older schemas may lack optional columns; the rendered media still carries the content.
+    while (result.error) {
+      const errorMessage = result.error.message;
+      const missingColumn = ['audience', 'verse_ref'].find(
+        (column) => column in payload && isSpecificMissingColumnError(errorMessage, column)
+      );
+      if (!missingColumn) break;
+
+      delete payload[missingColumn];
       result = await supabase
         .from('stories')
         .insert(payload)
@@ -345,11 +486,77 @@ export class StoriesService {
     }
 
     const hydrated = await this.hydrateStories(rows);
-    return hydrated.filter((story) => story.user_id === userId);
+    return this.attachInsightCounts(hydrated.filter((story) => story.user_id === userId));
+  }
+
+  // Author-only activity for a story; RLS hides other users' views, reactions and replies.
+  static async getStoryInsights(storyId: string): Promise<StoryInsights> {
+    const [viewRows, reactionRows, replyRows] = await Promise.all([
+      this.getStoryActivityRows('story_views', [storyId]),
+      this.getStoryActivityRows('story_reactions', [storyId]),
+      this.getStoryActivityRows('story_replies', [storyId]),
+    ]);
+
+    const actorOf = (row: Record<string, unknown>) =>
+      (row.viewer_id ?? row.user_id ?? row.sender_id)?.toString() ?? '';
+    const timeOf = (row: Record<string, unknown>) =>
+      (row.viewed_at ?? row.created_at)?.toString() ?? new Date().toISOString();
+
+    const profilesMap = await this.getProfilesMap(
+      [...viewRows, ...reactionRows, ...replyRows].map(actorOf)
+    );
+    const userOf = (row: Record<string, unknown>): StoryInsightUser => {
+      const id = actorOf(row);
+      const profile = profilesMap.get(id);
+      return { id, full_name: profile?.full_name, avatar_url: profile?.avatar_url };
+    };
+
+    const latestViewByUser = new Map<string, string>();
+    viewRows.forEach((row) => {
+      const viewerId = actorOf(row);
+      if (!viewerId) return;
+      const viewedAt = timeOf(row);
+      const existing = latestViewByUser.get(viewerId);
+      if (!existing || new Date(viewedAt).getTime() > new Date(existing).getTime()) {
+        latestViewByUser.set(viewerId, viewedAt);
+      }
+    });
+
+    return {
+      story_id: storyId,
+      views: Array.from(latestViewByUser.entries())
+        .map(([viewerId, viewedAt]) => ({
+          user: userOf({ viewer_id: viewerId }),
+          viewed_at: viewedAt,
+        }))
+        .sort((a, b) => new Date(b.viewed_at).getTime() - new Date(a.viewed_at).getTime()),
+      reactions: groupStoryReactions(
+        reactionRows
+          .filter((row) => Boolean(actorOf(row)))
+          .map((row) => ({
+            reaction: (row.reaction ?? row.emoji)?.toString(),
+            user: userOf(row),
+            created_at: timeOf(row),
+          }))
+      ),
+      replies: replyRows
+        .filter((row) => Boolean(actorOf(row)))
+        .map((row) => ({
+          id: row.id?.toString() ?? createUuid(),
+          user: userOf(row),
+          content: (row.content ?? row.message)?.toString() ?? '',
+          chat_id: row.chat_id?.toString() || undefined,
+          created_at: timeOf(row),
+        }))
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+    };
   }
 
   // Get stories by user IDs
-  static async getStoriesByUserIds(userIds: string[]): Promise<Map<string, Story[]>> {
+  static async getStoriesByUserIds(
+    userIds: string[],
+    viewerId?: string
+  ): Promise<Map<string, Story[]>> {
     if (userIds.length === 0) {
       return new Map();
     }
@@ -372,8 +579,10 @@ export class StoriesService {
       return new Map();
     }
 
-    const hydratedStories = (await this.hydrateStories(rows))
-      .filter((story) => userIds.includes(story.user_id));
+    const hydratedStories = await this.filterByAudience(
+      (await this.hydrateStories(rows)).filter((story) => userIds.includes(story.user_id)),
+      viewerId
+    );
     const storiesByUser = new Map<string, Story[]>();
     hydratedStories.forEach((story) => {
       const userId = story.user_id;
@@ -386,6 +595,298 @@ export class StoriesService {
     return storiesByUser;
   }
 
+  // Get the user's close-friends list
+  static async getCloseFriends(userId: string): Promise<CloseFriend[]> {
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from('close_friends')
+      .select('friend_id, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      const normalized = normalizeSupabaseError(error);
+      if (isMissingObjectError(normalized)) {
+        return [];
+      }
+      console.error('Error fetching close friends:', normalized);
+      return [];
+    }
+
+    const rows = (data ?? []) as Record<string, unknown>[];
+    const profilesMap = await this.getProfilesMap(rows.map((row) => row.friend_id?.toString() ?? ''));
+
+    return rows
+      .map((row) => {
+        const id = row.friend_id?.toString() ?? '';
+        const profile = profilesMap.get(id);
+        return {
+          id,
+          full_name: profile?.full_name,
+          avatar_url: profile?.avatar_url,
+          added_at: row.created_at?.toString() ?? new Date().toISOString(),
+        } satisfies CloseFriend;
+      })
+      .filter((friend) => friend.id.length > 0);
+  }
+
+  // Followers that can be put on the close-friends list
+  static async getCloseFriendCandidates(userId: string, limit = 200): Promise<CloseFriendCandidate[]> {
+    if (!userId) return [];
+
+    const [followersRes, closeFriends] = await Promise.all([
+      supabase
+        .from('follows')
+        .select('follower_id, created_at')
+        .eq('following_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      this.getCloseFriends(userId),
+    ]);
+
+    if (followersRes.error) {
+      console.error('Error fetching followers for close friends:', normalizeSupabaseError(followersRes.error));
+      return [];
+    }
+
+    const followerIds = ((followersRes.data ?? []) as Record<string, unknown>[])
+      .map((row) => row.follower_id?.toString() ?? '')
+      .filter(Boolean);
+    const profilesMap = await this.getProfilesMap(followerIds);
+    const closeFriendIds = new Set(closeFriends.map((friend) => friend.id));
+
+    return followerIds.map((id) => ({
+      id,
+      full_name: profilesMap.get(id)?.full_name,
+      avatar_url: profilesMap.get(id)?.avatar_url,
+      is_close_friend: closeFriendIds.has(id),
+    }));
+  }
+
+  static async addCloseFriend(userId: string, friendId: string): Promise<void> {
+    if (!userId || !friendId || userId === friendId) {
+      throw new Error('Teman dekat tidak valid');
+    }
+
+    const { error } = await supabase
+      .from('close_friends')
+      .upsert(
+        { user_id: userId, friend_id: friendId, created_at: new Date().toISOString() },
+        { onConflict: 'user_id,friend_id', ignoreDuplicates: true }
+      );
+
+    if (error && !isUniqueViolationError(error.message)) {
+      if (isMissingObjectError(normalizeSupabaseError(error))) {
+        throw new Error('Fitur teman dekat belum tersedia di server');
+      }
+      throw new Error(error.message);
+    }
+  }
+
+  static async removeCloseFriend(userId: string, friendId: string): Promise<void> {
+    const { error } = await supabase
+      .from('close_friends')
+      .delete()
+      .eq('user_id', userId)
+      .eq('friend_id', friendId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  // Own stories that already expired from the rail, newest first
+  static async getStoryArchive(userId: string): Promise<Story[]> {
+    if (!userId) return [];
+
+    const { rows, error } = await this.runStoryListQuery(() =>
+      supabase
+        .from('stories')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(STORY_SETTINGS.ARCHIVE_LIMIT)
+    );
+
+    if (error) {
+      const normalized = normalizeSupabaseError(error);
+      if (isMissingObjectError(normalized)) {
+        return [];
+      }
+      console.error('Error fetching story archive:', normalized);
+      return [];
+    }
+
+    const now = new Date();
+    return (await this.hydrateStories(rows)).filter(
+      (story) => story.user_id === userId && isStoryExpired(story, now)
+    );
+  }
+
+  static async getHighlights(userId: string, viewerId?: string): Promise<StoryHighlight[]> {
+    if (!userId) return [];
+
+    const highlightsRes = await supabase
+      .from('story_highlights')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (highlightsRes.error) {
+      const normalized = normalizeSupabaseError(highlightsRes.error);
+      if (!isMissingObjectError(normalized)) {
+        console.error('Error fetching story highlights:', normalized);
+      }
+      return [];
+    }
+
+    const highlightRows = (highlightsRes.data ?? []) as Record<string, unknown>[];
+    const highlightIds = highlightRows.map((row) => row.id?.toString() ?? '').filter(Boolean);
+    if (highlightIds.length === 0) return [];
+
+    const itemsRes = await supabase
+      .from('story_highlight_items')
+      .select('highlight_id, story_id, position')
+      .in('highlight_id', highlightIds);
+
+    if (itemsRes.error) {
+      console.error('Error fetching story highlight items:', normalizeSupabaseError(itemsRes.error));
+      return [];
+    }
+
+    const storyIdsByHighlight = groupHighlightItems((itemsRes.data ?? []) as Record<string, unknown>[]);
+    const allStoryIds = [...new Set(Array.from(storyIdsByHighlight.values()).flat())];
+
+    let storiesById = new Map<string, Story>();
+    if (allStoryIds.length > 0) {
+      const storiesRes = await supabase.from('stories').select('*').in('id', allStoryIds);
+      if (storiesRes.error) {
+        console.error('Error fetching highlighted stories:', normalizeSupabaseError(storiesRes.error));
+      } else {
+        const visible = await this.filterByAudience(
+          await this.hydrateStories((storiesRes.data ?? []) as Record<string, unknown>[]),
+          viewerId
+        );
+        storiesById = new Map(visible.map((story) => [story.id, story]));
+      }
+    }
+
+    return highlightRows
+      .map((row) => {
+        const id = row.id?.toString() ?? '';
+        const storyIds = storyIdsByHighlight.get(id) ?? [];
+        const stories = storyIds
+          .map((storyId) => storiesById.get(storyId))
+          .filter((story): story is Story => Boolean(story));
+        const createdAt = row.created_at?.toString() ?? new Date().toISOString();
+        return {
+          id,
+          user_id: row.user_id?.toString() ?? userId,
+          title: row.title?.toString() || 'Sorotan',
+          cover_url: resolveHighlightCover(row.cover_url?.toString() || undefined, stories),
+          story_ids: storyIds,
+          stories,
+          created_at: createdAt,
+          updated_at: row.updated_at?.toString() ?? createdAt,
+        } satisfies StoryHighlight;
+      })
+      .filter((highlight) => highlight.id && highlight.stories.length > 0);
+  }
+
+  private static async replaceHighlightItems(highlightId: string, storyIds: string[]) {
+    const { error: deleteError } = await supabase
+      .from('story_highlight_items')
+      .delete()
+      .eq('highlight_id', highlightId);
+
+    if (deleteError) {
+      throw new Error(deleteError.message);
+    }
+
+    const uniqueStoryIds = [...new Set(storyIds.filter(Boolean))].slice(0, STORY_SETTINGS.MAX_HIGHLIGHT_STORIES);
+    if (uniqueStoryIds.length === 0) return;
+
+    const { error } = await supabase.from('story_highlight_items').insert(
+      uniqueStoryIds.map((storyId, position) => ({
+        highlight_id: highlightId,
+        story_id: storyId,
+        position,
+      }))
+    );
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  static async createHighlight(
+    userId: string,
+    data: { title: string; storyIds: string[]; coverUrl?: string }
+  ): Promise<string> {
+    if (data.storyIds.length === 0) {
+      throw new Error('Pilih minimal satu story untuk sorotan');
+    }
+
+    const { data: row, error } = await supabase
+      .from('story_highlights')
+      .insert({
+        user_id: userId,
+        title: normalizeHighlightTitle(data.title),
+        cover_url: data.coverUrl ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      if (isMissingObjectError(normalizeSupabaseError(error))) {
+        throw new Error('Fitur sorotan belum tersedia di server');
+      }
+      throw new Error(error.message);
+    }
+
+    const highlightId = row.id.toString();
+    await this.replaceHighlightItems(highlightId, data.storyIds);
+    return highlightId;
+  }
+
+  static async updateHighlight(
+    highlightId: string,
+    data: { title?: string; storyIds?: string[]; coverUrl?: string | null }
+  ): Promise<void> {
+    if (data.storyIds && data.storyIds.length === 0) {
+      throw new Error('Pilih minimal satu story untuk sorotan');
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (data.title !== undefined) updates.title = normalizeHighlightTitle(data.title);
+    if (data.coverUrl !== undefined) updates.cover_url = data.coverUrl;
+
+    const { error } = await supabase
+      .from('story_highlights')
+      .update(updates)
+      .eq('id', highlightId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (data.storyIds) {
+      await this.replaceHighlightItems(highlightId, data.storyIds);
+    }
+  }
+
+  static async deleteHighlight(highlightId: string): Promise<void> {
+    const { error } = await supabase
+      .from('story_highlights')
+      .delete()
+      .eq('id', highlightId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
   // Check if user has active stories
   static async userHasActiveStories(userId: string): Promise<boolean> {
     const stories = await this.getUserStories(userId);
@@ -532,6 +1033,32 @@ export class StoriesService {
     }
   }
 
+  // Keeps a per-story record of chat replies for the author's insights; best effort.
+  private static async recordStoryReply(
+    storyId: string,
+    senderId: string,
+    content: string,
+    chatId: string
+  ) {
+    const payload: Record<string, unknown> = {
+      story_id: storyId,
+      sender_id: senderId,
+      content,
+      chat_id: chatId,
+      created_at: new Date().toISOString(),
+    };
+
+    let result = await supabase.from('story_replies').insert(payload);
+    if (result.error && isSpecificMissingColumnError(result.error.message, 'chat_id')) {
+      delete payload.chat_id;
+      result = await supabase.from('story_replies').insert(payload);
+    }
+
+    if (result.error && !isMissingObjectError(normalizeSupabaseError(result.error))) {
+      console.warn('Warning recording story reply:', normalizeSupabaseError(result.error));
+    }
+  }
+
   // Reply to story
   static async replyToStory(storyId: string, senderId: string, content: string): Promise<void> {
     const storyRes = await supabase
@@ -556,6 +1083,7 @@ export class StoriesService {
         content,
         messageType: 'text',
       });
+      await this.recordStoryReply(storyId, senderId, content, chat.id);
       return;
     } catch (chatError) {
       const fallbackPayloads: Record<string, unknown>[] = [
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { Story } from '@/lib/types';
+import { canViewStory, filterVisibleStories, type StoryAudienceContext } from './story-audience';
+
+function story(id: string, userId: string, audience: Story['audience']) {
+  return { id, user_id: userId, audience };
+}
+
+const context: StoryAudienceContext = {
+  viewerId: 'me',
+  followingIds: new Set(['maria', 'yosef']),
+  closeFriendOfIds: new Set(['maria']),
+};
+
+test('owners always see their own stories', () => {
+  assert.equal(canViewStory(story('1', 'me', 'close_friends'), context), true);
+  assert.equal(canViewStory(story('2', 'me', 'followers'), context), true);
+});
+
+test('followers stories require following the author', () => {
+  assert.equal(canViewStory(story('1', 'yosef', 'followers'), context), true);
+  assert.equal(canViewStory(story('2', 'stranger', 'followers'), context), false);
+  assert.equal(canViewStory(story('3', 'stranger', 'everyone'), context), true);
+});
+
+test('close-friends stories require being on the author list, not just following', () => {
+  const visible = filterVisibleStories(
+    [
+      story('1', 'maria', 'close_friends'),
+      story('2', 'yosef', 'close_friends'),
+      story('3', 'stranger', 'close_friends'),
+    ],
+    context
+  );
+  assert.deepEqual(visible.map((item) => item.id), ['1']);
+});
+
+test('anonymous viewers only see public stories', () => {
+  const anonymous: StoryAudienceContext = {
+    followingIds: new Set(),
+    closeFriendOfIds: new Set(),
+  };
+  assert.equal(canViewStory(story('1', 'maria', 'everyone'), anonymous), true);
+  assert.equal(canViewStory(story('2', 'maria', 'followers'), anonymous), false);
+});
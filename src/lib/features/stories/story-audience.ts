@@ -0,0 +1,27 @@
+import type { Story } from '@/lib/types';
+
+export interface StoryAudienceContext {
+  viewerId?: string;
+  /** Authors the viewer follows. */
+  followingIds: Set<string>;
+  /** Authors that have put the viewer on their close-friends list. */
+  closeFriendOfIds: Set<string>;
+}
+
+export function canViewStory(
+  story: Pick<Story, 'user_id' | 'audience'>,
+  context: StoryAudienceContext
+) {
+  if (context.viewerId && story.user_id === context.viewerId) return true;
+  if (story.audience === 'everyone') return true;
+  if (!context.viewerId) return false;
+  if (story.audience === 'close_friends') return context.closeFriendOfIds.has(story.user_id);
+  return context.followingIds.has(story.user_id);
+}
+
+export function filterVisibleStories<T extends Pick<Story, 'user_id' | 'audience'>>(
+  stories: T[],
+  context: StoryAudienceContext
+) {
+  return stories.filter((story) => canViewStory(story, context));
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import type { Story } from '@/lib/types';
+import {
+  groupHighlightItems,
+  isStoryExpired,
+  normalizeHighlightTitle,
+  resolveHighlightCover,
+} from './story-highlights';
+
+function story(id: string, mediaType: Story['media_type']): Story {
+  return {
+    id,
+    user_id: 'me',
+    media_url: `https://cdn.test/${id}`,
+    media_type: mediaType,
+    audience: 'followers',
+    created_at: '2026-10-18T08:00:00Z',
+    expires_at: '2026-10-19T08:00:00Z',
+    updated_at: '2026-10-18T08:00:00Z',
+  };
+}
+
+test('stories expire at expires_at', () => {
+  const item = story('a', 'image');
+  assert.equal(isStoryExpired(item, new Date('2026-10-19T07:59:00Z')), false);
+  assert.equal(isStoryExpired(item, new Date('2026-10-19T08:00:00Z')), true);
+});
+
+test('groups highlight items by position and drops duplicates', () => {
+  const grouped = groupHighlightItems([
+    { highlight_id: 'h1', story_id: 's2', position: 1 },
+    { highlight_id: 'h1', story_id: 's1', position: 0 },
+    { highlight_id: 'h2', story_id: 's3', position: 0 },
+    { highlight_id: 'h1', story_id: 's1', position: 2 },
+  ]);
+  assert.deepEqual(grouped.get('h1'), ['s1', 's2']);
+  assert.deepEqual(grouped.get('h2'), ['s3']);
+});
+
+test('cover falls back to the first image story and titles are tidied', () => {
+  assert.equal(resolveHighlightCover(undefined, [story('v', 'video'), story('i', 'image')]), 'https://cdn.test/i');
+  assert.equal(resolveHighlightCover('https://cdn.test/cover', [story('i', 'image')]), 'https://cdn.test/cover');
+  assert.equal(normalizeHighlightTitle('  Misa   Natal  '), 'Misa Natal');
+  assert.equal(normalizeHighlightTitle('   '), 'Sorotan');
+});
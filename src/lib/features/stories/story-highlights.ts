@@ -0,0 +1,37 @@
+import { STORY_SETTINGS } from '@/lib/constants';
+import type { Story } from '@/lib/types';
+
+export function isStoryExpired(story: Pick<Story, 'created_at' | 'expires_at'>, now = new Date()) {
+  const expiresAt = story.expires_at
+    ? new Date(story.expires_at).getTime()
+    : new Date(story.created_at).getTime() + STORY_SETTINGS.EXPIRY_HOURS * 60 * 60 * 1000;
+  return Number.isFinite(expiresAt) && expiresAt <= now.getTime();
+}
+
+export function normalizeHighlightTitle(title: string) {
+  const normalized = title.replace(/\s+/g, ' ').trim().slice(0, STORY_SETTINGS.HIGHLIGHT_TITLE_MAX_LENGTH);
+  return normalized || 'Sorotan';
+}
+
+/** Story ids per highlight in `position` order; duplicates keep their first slot. */
+export function groupHighlightItems(rows: Record<string, unknown>[]) {
+  const sorted = [...rows].sort(
+    (a, b) => Number(a.position ?? 0) - Number(b.position ?? 0)
+  );
+  const grouped = new Map<string, string[]>();
+  sorted.forEach((row) => {
+    const highlightId = row.highlight_id?.toString();
+    const storyId = row.story_id?.toString();
+    if (!highlightId || !storyId) return;
+    const storyIds = grouped.get(highlightId) ?? [];
+    if (!storyIds.includes(storyId)) storyIds.push(storyId);
+    grouped.set(highlightId, storyIds);
+  });
+  return grouped;
+}
+
+// Videos have no poster frame to show, so prefer the first image story.
+export function resolveHighlightCover(coverUrl: string | undefined, stories: Story[]) {
+  if (coverUrl) return coverUrl;
+  return (stories.find((story) => story.media_type === 'image') ?? stories[0])?.media_url;
+}
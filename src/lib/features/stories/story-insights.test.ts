@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { countRowsByStoryId, groupStoryReactions, normalizeStoryReaction } from './story-insights';
+
+test('heart button keyword and emoji reactions land in the same group', () => {
+  assert.equal(normalizeStoryReaction('like'), '❤️');
+  assert.equal(normalizeStoryReaction(' 🙏 '), '🙏');
+  assert.equal(normalizeStoryReaction(undefined), '❤️');
+});
+
+test('groups reactions by emoji with the largest group first', () => {
+  const groups = groupStoryReactions([
+    { reaction: '🙏', user: { id: 'a' }, created_at: '2026-10-19T08:00:00Z' },
+    { reaction: 'like', user: { id: 'b' }, created_at: '2026-10-19T09:00:00Z' },
+    { reaction: '❤️', user: { id: 'c' }, created_at: '2026-10-19T10:00:00Z' },
+  ]);
+
+  assert.deepEqual(
+    groups.map((group) => [group.reaction, group.count]),
+    [['❤️', 2], ['🙏', 1]]
+  );
+  assert.deepEqual(groups[0].users.map((user) => user.id), ['c', 'b']);
+});
+
+test('counts activity rows per story and skips rows without a story id', () => {
+  const counts = countRowsByStoryId([{ story_id: 's1' }, { story_id: 's1' }, { story_id: 's2' }, {}]);
+  assert.equal(counts.get('s1'), 2);
+  assert.equal(counts.get('s2'), 1);
+  assert.equal(counts.size, 2);
+});
@@ -0,0 +1,54 @@
+import type { StoryInsightUser, StoryReactionGroup } from '@/lib/types';
+
+// The viewer heart button stores the keyword 'like'; other clients store emoji.
+const REACTION_ALIASES: Record<string, string> = {
+  like: '❤️',
+  love: '❤️',
+  heart: '❤️',
+};
+
+export function normalizeStoryReaction(reaction: string | undefined) {
+  const trimmed = reaction?.trim() ?? '';
+  if (!trimmed) return '❤️';
+  return REACTION_ALIASES[trimmed.toLowerCase()] ?? trimmed;
+}
+
+/** Groups by emoji, biggest group first; users inside a group stay newest first. */
+export function groupStoryReactions(
+  entries: { reaction: string | undefined; user: StoryInsightUser; created_at: string }[]
+): StoryReactionGroup[] {
+  const groups = new Map<string, { group: StoryReactionGroup; latest: number }>();
+  const sorted = [...entries].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+  sorted.forEach((entry) => {
+    const reaction = normalizeStoryReaction(entry.reaction);
+    const current = groups.get(reaction);
+    if (!current) {
+      groups.set(reaction, {
+        group: { reaction, count: 1, users: [entry.user] },
+        latest: new Date(entry.created_at).getTime(),
+      });
+      return;
+    }
+    current.group.count += 1;
+    if (!current.group.users.some((user) => user.id === entry.user.id)) {
+      current.group.users.push(entry.user);
+    }
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => b.group.count - a.group.count || b.latest - a.latest)
+    .map((item) => item.group);
+}
+
+export function countRowsByStoryId(rows: Record<string, unknown>[]) {
+  const counts = new Map<string, number>();
+  rows.forEach((row) => {
+    const storyId = row.story_id?.toString();
+    if (!storyId) return;
+    counts.set(storyId, (counts.get(storyId) ?? 0) + 1);
+  });
+  return counts;
+}
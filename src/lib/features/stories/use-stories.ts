@@ -6,14 +6,14 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { StoriesService } from './stories-service';
 import { useAuth } from '@/lib/features/auth/use-auth';
 import { toast } from 'sonner';
-import type { Story } from '@/lib/types/stories';
+import type { Story, StoryVerseRef } from '@/lib/types/stories';
 
 export function useStories() {
   const { user } = useAuth();
 
   return useQuery({
-    queryKey: ['stories'],
-    queryFn: StoriesService.getStories,
+    queryKey: ['stories', user?.id],
+    queryFn: () => StoriesService.getStories(user?.id),
     enabled: !!user,
     refetchInterval: 60000, // Refetch every minute for new stories
   });
@@ -39,9 +39,11 @@ export function useUserStories(userId?: string) {
 }
 
 export function useStoriesByUserIds(userIds: string[]) {
+  const { user } = useAuth();
+
   return useQuery({
-    queryKey: ['stories-by-ids', userIds],
-    queryFn: () => StoriesService.getStoriesByUserIds(userIds),
+    queryKey: ['stories-by-ids', userIds, user?.id],
+    queryFn: () => StoriesService.getStoriesByUserIds(userIds, user?.id),
     enabled: userIds.length > 0,
   });
 }
@@ -56,6 +58,7 @@ export function useCreateStory() {
       mediaType: 'image' | 'video';
       caption?: string;
       audience?: 'followers' | 'close_friends' | 'everyone';
+      verseRef?: StoryVerseRef;
     }) => {
       if (!user?.id) {
         throw new Error('You must be logged in to create a story');
@@ -169,3 +172,132 @@ export function useViewedStoryIds(storyIds: string[]) {
     staleTime: 30_000,
   });
 }
+
+export function useCloseFriends() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['close-friends', user?.id],
+    queryFn: () => StoriesService.getCloseFriends(user?.id || ''),
+    enabled: Boolean(user?.id),
+  });
+}
+
+export function useCloseFriendCandidates() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['close-friend-candidates', user?.id],
+    queryFn: () => StoriesService.getCloseFriendCandidates(user?.id || ''),
+    enabled: Boolean(user?.id),
+  });
+}
+
+export function useToggleCloseFriend() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ friendId, isCloseFriend }: { friendId: string; isCloseFriend: boolean }) => {
+      if (!user?.id) {
+        throw new Error('Anda harus login.');
+      }
+      if (isCloseFriend) {
+        await StoriesService.removeCloseFriend(user.id, friendId);
+      } else {
+        await StoriesService.addCloseFriend(user.id, friendId);
+      }
+      return !isCloseFriend;
+    },
+    onSuccess: (added) => {
+      toast.success(added ? 'Ditambahkan ke Teman Dekat' : 'Dihapus dari Teman Dekat');
+      queryClient.invalidateQueries({ queryKey: ['close-friends'] });
+      queryClient.invalidateQueries({ queryKey: ['close-friend-candidates'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useStoryInsights(story?: Story | null) {
+  const { user } = useAuth();
+  const isAuthor = Boolean(user?.id && story?.user_id === user.id);
+
+  return useQuery({
+    queryKey: ['story-insights', story?.id],
+    queryFn: () => StoriesService.getStoryInsights(story?.id || ''),
+    enabled: isAuthor && Boolean(story?.id),
+    refetchInterval: 30_000,
+  });
+}
+
+export function useStoryArchive(enabled = true) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['story-archive', user?.id],
+    queryFn: () => StoriesService.getStoryArchive(user?.id || ''),
+    enabled: enabled && Boolean(user?.id),
+  });
+}
+
+export function useStoryHighlights(userId?: string) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['story-highlights', userId, user?.id],
+    queryFn: () => StoriesService.getHighlights(userId || '', user?.id),
+    enabled: Boolean(userId),
+  });
+}
+
+export function useSaveStoryHighlight() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      highlightId?: string;
+      title: string;
+      storyIds: string[];
+      coverUrl?: string | null;
+    }) => {
+      if (!user?.id) {
+        throw new Error('Anda harus login.');
+      }
+      if (data.highlightId) {
+        await StoriesService.updateHighlight(data.highlightId, data);
+        return data.highlightId;
+      }
+      return await StoriesService.createHighlight(user.id, {
+        title: data.title,
+        storyIds: data.storyIds,
+        coverUrl: data.coverUrl ?? undefined,
+      });
+    },
+    onSuccess: (_, data) => {
+      toast.success(data.highlightId ? 'Sorotan diperbarui' : 'Sorotan dibuat');
+      queryClient.invalidateQueries({ queryKey: ['story-highlights', user?.id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+export function useDeleteStoryHighlight() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (highlightId: string) => StoriesService.deleteHighlight(highlightId),
+    onSuccess: () => {
+      toast.success('Sorotan dihapus');
+      queryClient.invalidateQueries({ queryKey: ['story-highlights', user?.id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
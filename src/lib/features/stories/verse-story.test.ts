@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { buildStoryVerseReaderHref, formatStoryVerseReference, parseStoryVerseRef } from './verse-story';
+
+test('parses jsonb and string verse refs and rejects incomplete ones', () => {
+  const ref = parseStoryVerseRef(
+    JSON.stringify({ book_id: 'yoh', book_name: 'Yohanes', chapter: 3, verse_start: 16, verse_end: 17 })
+  );
+  assert.deepEqual(ref, {
+    book_id: 'yoh',
+    book_name: 'Yohanes',
+    chapter: 3,
+    verse_start: 16,
+    verse_end: 17,
+    language_code: 'id',
+    version_code: 'TB1',
+  });
+  assert.equal(parseStoryVerseRef({ book_id: 'yoh', chapter: 3 }), undefined);
+  assert.equal(parseStoryVerseRef('not json'), undefined);
+  assert.equal(parseStoryVerseRef({ book_id: 'yoh', chapter: 3, verse_start: 16, verse_end: 2 })?.verse_end, 16);
+});
+
+test('formats single verses and ranges', () => {
+  const ref = parseStoryVerseRef({ book_id: 'yoh', book_name: 'Yoh', chapter: 3, verse_start: 16 })!;
+  assert.equal(formatStoryVerseReference(ref), 'Yoh 3:16');
+  assert.equal(formatStoryVerseReference({ ...ref, verse_end: 18 }), 'Yoh 3:16-18');
+});
+
+test('reader link prefers the viewer version and carries the range', () => {
+  const ref = parseStoryVerseRef({
+    book_id: 'yoh',
+    chapter: 3,
+    verse_start: 16,
+    verse_end: 17,
+    version_code: 'tb2',
+  })!;
+  assert.equal(buildStoryVerseReaderHref(ref), '/bible/yoh/3?lang=id&ver=TB2&verse=16&to=17');
+  assert.equal(
+    buildStoryVerseReaderHref({ ...ref, verse_end: 16 }, { language_code: 'en', version_code: 'EN1' }),
+    '/bible/yoh/3?lang=en&ver=EN1&verse=16'
+  );
+});
@@ -0,0 +1,55 @@
+import type { StoryVerseRef } from '@/lib/types';
+
+function toPositiveInt(value: unknown) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 0;
+}
+
+/** Accepts the jsonb object or its string form; anything malformed is dropped. */
+export function parseStoryVerseRef(raw: unknown): StoryVerseRef | undefined {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+  if (!value || typeof value !== 'object') return undefined;
+
+  const candidate = value as Record<string, unknown>;
+  const bookId = candidate.book_id?.toString().trim() ?? '';
+  const chapter = toPositiveInt(candidate.chapter);
+  const verseStart = toPositiveInt(candidate.verse_start);
+  if (!bookId || !chapter || !verseStart) return undefined;
+
+  return {
+    book_id: bookId,
+    book_name: candidate.book_name?.toString().trim() || bookId,
+    chapter,
+    verse_start: verseStart,
+    verse_end: Math.max(verseStart, toPositiveInt(candidate.verse_end)),
+    language_code: candidate.language_code === 'en' ? 'en' : 'id',
+    version_code: candidate.version_code?.toString().trim().toUpperCase() || 'TB1',
+  };
+}
+
+export function formatStoryVerseReference(ref: StoryVerseRef) {
+  const range = ref.verse_end > ref.verse_start ? `${ref.verse_start}-${ref.verse_end}` : `${ref.verse_start}`;
+  return `${ref.book_name} ${ref.chapter}:${range}`;
+}
+
+// The viewer's own version wins over the one the story was made with.
+export function buildStoryVerseReaderHref(
+  ref: StoryVerseRef,
+  preference?: { language_code: 'id' | 'en'; version_code: string } | null
+) {
+  const query = new URLSearchParams();
+  query.set('lang', preference?.language_code ?? ref.language_code);
+  query.set('ver', preference?.version_code ?? ref.version_code);
+  query.set('verse', ref.verse_start.toString());
+  if (ref.verse_end > ref.verse_start) {
+    query.set('to', ref.verse_end.toString());
+  }
+  return `/bible/${encodeURIComponent(ref.book_id)}/${ref.chapter}?${query.toString()}`;
+}
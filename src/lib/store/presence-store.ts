@@ -0,0 +1,16 @@
+// Presence Store
+
+import { create } from 'zustand';
+
+interface PresenceState {
+  onlineUserIds: string[];
+
+  // Actions
+  setOnlineUserIds: (userIds: string[]) => void;
+}
+
+export const usePresenceStore = create<PresenceState>((set) => ({
+  onlineUserIds: [],
+
+  setOnlineUserIds: (userIds) => set({ onlineUserIds: userIds }),
+}));
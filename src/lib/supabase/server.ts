@@ -0,0 +1,27 @@
+// Supabase Server Client
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Service-role access for route handlers that act on behalf of other users
+// (push fan-out, digests). Never import this from client components.
+
+const envSupabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL?.trim() ?? '';
+const envServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY?.trim() ?? '';
+
+export const isSupabaseAdminConfigured = Boolean(envSupabaseUrl && envServiceRoleKey);
+
+let adminClient: SupabaseClient | null = null;
+
+export function getSupabaseAdmin(): SupabaseClient | null {
+  if (!isSupabaseAdminConfigured) return null;
+  if (!adminClient) {
+    adminClient = createClient(envSupabaseUrl, envServiceRoleKey, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+        detectSessionInUrl: false,
+      },
+    });
+  }
+  return adminClient;
+}
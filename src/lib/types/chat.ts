@@ -35,7 +35,10 @@ export interface ChatMember {
   pinned_at?: string;
   archived_at?: string;
   muted_until?: string;
+  // Only set on the viewer's own membership.
   last_read_at?: string;
+  // null before the member reads anything; undefined when the schema has no receipts.
+  read_receipt_at?: string | null;
   joined_at: string;
   left_at?: string;
   kicked_at?: string;
@@ -47,18 +50,68 @@ export interface SocialMessage {
   chat_id: string;
   sender_id: string;
   content?: string;
-  message_type: 'text' | 'image' | 'video' | 'file' | 'audio' | 'location';
+  message_type: 'text' | 'image' | 'video' | 'file' | 'audio' | 'location' | 'poll';
   media_url?: string;
   file_name?: string;
   file_size?: number;
+  media_duration?: number;
+  waveform?: number[];
+  location?: MessageLocation;
+  poll_id?: string;
   reply_to_id?: string;
   reactions: Record<string, string[]>;
   created_at: string;
   updated_at: string;
+  edited_at?: string;
   sender?: ChatProfile;
   reply_to?: SocialMessage;
 }
 
+export interface MessageLocation {
+  label: string;
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+  church_id?: string;
+}
+
+export interface SocialMessageEdit {
+  id: string;
+  message_id: string;
+  editor_id: string;
+  previous_content: string;
+  edited_at: string;
+}
+
+export interface MessageReadReceipt {
+  user_id: string;
+  profile?: ChatProfile;
+  read_at: string;
+}
+
+export interface MessageReceiptSummary {
+  status: 'sent' | 'read';
+  readers: MessageReadReceipt[];
+  pending: ChatMember[];
+  total_recipients: number;
+}
+
+export interface UserPresence {
+  user_id: string;
+  is_online: boolean;
+  last_seen_at?: string;
+}
+
+export interface ChatTypingUser {
+  user_id: string;
+  full_name?: string;
+  last_typed_at: number;
+}
+
+export interface PresenceSettings {
+  show_last_seen: boolean;
+}
+
 export interface GroupJoinRequest {
   id: string;
   chat_id: string;
@@ -1,5 +1,10 @@
 // Feed Types
 
+export interface PostMention {
+  user_id: string;
+  name: string;
+}
+
 export interface Post {
   id: string;
   user_id: string;
@@ -9,6 +14,9 @@ export interface Post {
   country_id?: string;
   diocese_id?: string;
   church_id?: string;
+  mentions?: PostMention[];
+  hashtags?: string[];
+  poll_id?: string;
   likes_count: number;
   comments_count: number;
   shares_count: number;
@@ -46,6 +54,8 @@ export interface Comment {
   parent_id?: string;
   content: string;
   image_url?: string;
+  mentions?: PostMention[];
+  hashtags?: string[];
   likes_count?: number;
   is_liked?: boolean;
   created_at: string;
@@ -9,3 +9,5 @@ export * from './bible';
 export * from './schedule';
 export * from './notifications';
 export * from './stories';
+export * from './search';
+export * from './polls';
@@ -1,9 +1,22 @@
 // Notifications Types
 
+export type NotificationType =
+  | 'follow'
+  | 'like'
+  | 'comment'
+  | 'mention'
+  | 'radar_invite'
+  | 'mass_invite'
+  | 'chat_message'
+  | 'story_reaction'
+  | 'poll_closed'
+  | 'radar_waitlist_promoted'
+  | 'radar_reminder';
+
 export interface Notification {
   id: string;
   user_id: string;
-  type: 'follow' | 'like' | 'comment' | 'mention' | 'radar_invite' | 'mass_invite' | 'chat_message' | 'story_reaction';
+  type: NotificationType;
   title: string;
   message?: string;
   data: Record<string, any>;
@@ -30,3 +43,42 @@ export interface Notification {
     group_name?: string;
   };
 }
+
+export type NotificationFilter = 'all' | 'mentions' | 'invites' | 'chat';
+
+export interface NotificationPage {
+  items: Notification[];
+  next_cursor: string | null;
+}
+
+export interface NotificationGroup {
+  key: string;
+  type: NotificationType;
+  target_id?: string;
+  notifications: Notification[];
+  actors: NonNullable<Notification['sender']>[];
+  actor_count: number;
+  unread_count: number;
+  is_read: boolean;
+  created_at: string;
+}
+
+export type EmailDigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  push_types: Record<NotificationType, boolean>;
+  email_digest: EmailDigestFrequency;
+  /** Minutes before a joined radar starts. Empty turns radar reminders off. */
+  radar_reminder_offsets: number[];
+}
+
+export interface PushSubscriptionRecord {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string;
+  created_at: string;
+  last_seen_at?: string;
+}
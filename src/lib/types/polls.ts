@@ -0,0 +1,66 @@
+// Polls Types
+
+export interface PollOption {
+  id: string;
+  label: string;
+}
+
+export interface Poll {
+  id: string;
+  creator_id: string;
+  question: string;
+  options: PollOption[];
+  allow_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at?: string;
+  closed_at?: string;
+  chat_id?: string;
+  post_id?: string;
+  created_at: string;
+}
+
+export interface PollVoter {
+  id: string;
+  full_name?: string;
+  avatar_url?: string;
+}
+
+export interface PollVote {
+  poll_id: string;
+  option_id: string;
+  user_id: string;
+  created_at: string;
+  profile?: PollVoter;
+}
+
+/** Per-option vote counts without voter ids, used for anonymous polls. */
+export interface PollTally {
+  counts: Record<string, number>;
+  total_voters: number;
+}
+
+export interface PollOptionResult {
+  option: PollOption;
+  count: number;
+  percent: number;
+  is_selected: boolean;
+  is_leading: boolean;
+  voters: PollVoter[];
+}
+
+export interface PollResults {
+  poll: Poll;
+  options: PollOptionResult[];
+  total_votes: number;
+  total_voters: number;
+  my_option_ids: string[];
+  is_closed: boolean;
+}
+
+export interface PollDraft {
+  question: string;
+  options: string[];
+  allow_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at?: string;
+}
@@ -1,5 +1,7 @@
 // Profile Types
 
+import type { NotificationPreferences } from './notifications';
+
 export type UserRole =
   | 'umat'
   | 'katekumen'
@@ -101,6 +103,8 @@ export interface Profile {
   is_ethnicity_visible?: boolean;
   allow_mass_invite?: boolean;
   allow_profile_chat?: boolean;
+  read_receipts_enabled?: boolean;
+  notification_preferences?: Partial<NotificationPreferences> | null;
   posts_count?: number;
   followers_count?: number;
   following_count?: number;
@@ -1,5 +1,11 @@
 // Radar Types
 
+import type { MassSchedule } from './schedule';
+
+export type RadarSource = 'legacy' | 'v2';
+
+export type RadarMembershipState = 'NONE' | 'PENDING' | 'WAITLISTED' | 'JOINED';
+
 export interface RadarEvent {
   id: string;
   creator_id: string;
@@ -19,13 +25,22 @@ export interface RadarEvent {
   published_at?: string;
   completed_at?: string;
   chat_room_id?: string;
+  series_id?: string;
+  series_occurrence_date?: string;
   created_at: string;
   updated_at: string;
+  visibility?: string;
+  require_host_approval?: boolean;
+  source?: RadarSource;
   creator?: RadarProfile;
   church?: {
     id: string;
     name: string;
     address?: string;
+    diocese_id?: string;
+    diocese_name?: string;
+    country_id?: string;
+    country_name?: string;
   };
   participants?: RadarParticipant[];
   participant_count?: number;
@@ -38,15 +53,50 @@ export interface RadarParticipant {
   radar_id: string;
   user_id: string;
   role: 'HOST' | 'ADMIN' | 'MEMBER';
-  status: 'JOINED' | 'PENDING' | 'LEFT' | 'KICKED' | 'REJECTED';
+  status: 'JOINED' | 'PENDING' | 'WAITLISTED' | 'LEFT' | 'KICKED' | 'REJECTED';
   joined_at?: string;
   left_at?: string;
   kicked_at?: string;
+  waitlisted_at?: string;
   created_at: string;
   updated_at: string;
+  source?: RadarSource;
   profile?: RadarProfile;
 }
 
+export type RadarSeriesFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
+
+/**
+ * A recurring radar. Occurrences are materialised as regular radar events
+ * linked by `series_id`, one per church-local date.
+ */
+export interface RadarSeries {
+  id: string;
+  creator_id: string;
+  church_id: string;
+  church_name?: string;
+  mass_schedule_id: string;
+  title: string;
+  description: string;
+  frequency: RadarSeriesFrequency;
+  starts_on: string; // YYYY-MM-DD, church-local
+  ends_on?: string; // YYYY-MM-DD, church-local, inclusive
+  occurrence_count?: number;
+  timezone: string;
+  max_participants: number;
+  allow_member_invite: boolean;
+  require_host_approval: boolean;
+  status: 'ACTIVE' | 'ENDED';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RadarSeriesDetail {
+  series: RadarSeries;
+  schedule: MassSchedule | null;
+  occurrences: RadarEvent[];
+}
+
 export interface RadarInvite {
   id: string;
   source: 'RADAR_GROUP' | 'PERSONAL';
@@ -68,6 +118,56 @@ export interface RadarInvite {
   radar?: RadarEvent;
 }
 
+export interface RadarInviteTarget extends RadarProfile {
+  allow_mass_invite?: boolean;
+}
+
+/** An invite row or invite notification merged with its radar and profiles, as listed on the Radar page. */
+export interface RadarInviteItem {
+  id: string;
+  inviteId?: string;
+  notificationId?: string;
+  inviterId?: string;
+  inviteeId?: string;
+  inviterName?: string;
+  inviteeName?: string;
+  inviterAvatarUrl?: string;
+  inviteeAvatarUrl?: string;
+  inviteSource?: string;
+  status: string;
+  createdAt?: string;
+  radarId?: string;
+  radarChurchId?: string;
+  radarTitle?: string;
+  radarChurchName?: string;
+  radarDioceseName?: string;
+  radarCountryName?: string;
+  radarStartsAt?: string;
+  radarSource?: RadarSource;
+  radarVisibility?: string;
+  message?: string;
+  direction: 'incoming' | 'outgoing';
+}
+
+export type CheckInVisibilityScope = 'followers' | 'public' | 'private';
+
+/** The user's current check-in, from whichever check-in table holds it. */
+export interface ActiveCheckIn {
+  id: string;
+  table: 'mass_checkins' | 'mass_checkins_v2';
+  churchId?: string;
+  checkAt?: string;
+}
+
+/** Someone else currently checked in at a church, as shown on the Radar page. */
+export interface CheckInPresenceItem {
+  userId: string;
+  fullName?: string;
+  username?: string;
+  avatarUrl?: string;
+  checkAt?: string;
+}
+
 export interface MassCheckIn {
   id: string;
   user_id: string;
@@ -80,6 +180,9 @@ export interface MassCheckIn {
   church_timezone: string;
   visibility: 'PUBLIC' | 'GHOST';
   status: 'ACTIVE' | 'ARCHIVED';
+  /** True when confirmed by scanning the host's attendance code. */
+  verified?: boolean;
+  radar_id?: string;
   archived_at?: string;
   created_at: string;
   updated_at: string;
@@ -90,9 +193,33 @@ export interface MassCheckIn {
   profile?: RadarProfile;
 }
 
+/** One check-in as shown in the personal Mass journal, from either check-in table. */
+export interface MassJournalEntry {
+  id: string;
+  church_id: string;
+  church_name?: string;
+  checked_in_at: string;
+  /** Local date of the Mass (YYYY-MM-DD) in the church's time zone. */
+  date: string;
+  weekday: number;
+  hour: number;
+  verified: boolean;
+}
+
+export type RadarAttendanceMethod = 'QR' | 'MANUAL';
+
+export interface RadarAttendance {
+  radar_id: string;
+  user_id: string;
+  method: RadarAttendanceMethod;
+  checked_in_at: string;
+  profile?: RadarProfile;
+}
+
 export interface RadarProfile {
   id: string;
   full_name?: string;
+  username?: string;
   avatar_url?: string;
   role?: string;
 }
@@ -11,13 +11,38 @@ export interface MassSchedule {
   created_at: string;
 }
 
+export type LiturgicalSeason = 'advent' | 'christmas' | 'lent' | 'triduum' | 'easter' | 'ordinary';
+
+export type LiturgicalRank =
+  | 'triduum'
+  | 'solemnity'
+  | 'feast'
+  | 'memorial'
+  | 'optional_memorial'
+  | 'sunday'
+  | 'weekday';
+
+export type LiturgicalColor = 'white' | 'red' | 'green' | 'violet' | 'rose';
+
+export type LiturgicalSundayCycle = 'A' | 'B' | 'C';
+
+export type LiturgicalWeekdayCycle = 'I' | 'II';
+
 export interface Liturgy {
   id: string;
   date: string;
-  readings?: string;
+  readings?: string; // first reading reference
   psalm?: string;
+  second_reading?: string;
   gospel?: string;
   title?: string;
+  celebration_id?: string;
+  season?: LiturgicalSeason;
+  season_week?: number;
+  rank?: LiturgicalRank;
+  color?: LiturgicalColor;
+  sunday_cycle?: LiturgicalSundayCycle;
+  weekday_cycle?: LiturgicalWeekdayCycle;
   created_at: string;
 }
 
@@ -31,6 +56,7 @@ export interface Church {
   phone?: string;
   website?: string;
   image_url?: string;
+  timezone?: string;
   created_at: string;
   diocese?: {
     id: string;
@@ -43,6 +69,20 @@ export interface Church {
   mass_schedules?: MassSchedule[];
 }
 
+export interface NearbyChurch extends Church {
+  distance_km: number;
+  next_mass?: MassSchedule;
+  next_mass_at?: string;
+}
+
+export interface UpcomingMass {
+  schedule: MassSchedule;
+  church: Church;
+  starts_at: string;
+  timezone: string;
+  distance_km?: number;
+}
+
 export interface Diocese {
   id: string;
   country_id: string;
@@ -0,0 +1,15 @@
+// Search Types
+
+export type SearchSection = 'people' | 'posts' | 'churches' | 'radars' | 'verses';
+
+export interface SearchResultItem {
+  id: string;
+  section: SearchSection;
+  title: string;
+  subtitle?: string;
+  href: string;
+  image_url?: string;
+  score: number;
+}
+
+export type SearchResults = Record<SearchSection, SearchResultItem[]>;
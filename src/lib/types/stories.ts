@@ -18,6 +18,20 @@ export interface Story {
     role?: string;
   };
   files?: StoryFile[];
+  verse_ref?: StoryVerseRef;
+  view_count?: number;
+  reaction_count?: number;
+  reply_count?: number;
+}
+
+export interface StoryVerseRef {
+  book_id: string;
+  book_name: string;
+  chapter: number;
+  verse_start: number;
+  verse_end: number;
+  language_code: 'id' | 'en';
+  version_code: string;
 }
 
 export interface StoryFile {
@@ -33,6 +47,20 @@ export interface StoryFile {
 
 export type StoryAudience = 'followers' | 'close_friends' | 'everyone';
 
+export interface CloseFriend {
+  id: string;
+  full_name?: string;
+  avatar_url?: string;
+  added_at: string;
+}
+
+export interface CloseFriendCandidate {
+  id: string;
+  full_name?: string;
+  avatar_url?: string;
+  is_close_friend: boolean;
+}
+
 export interface StoryReaction {
   id: string;
   story_id: string;
@@ -56,3 +84,46 @@ export interface StoryReply {
   content: string;
   created_at: string;
 }
+
+export interface StoryInsightUser {
+  id: string;
+  full_name?: string;
+  avatar_url?: string;
+}
+
+export interface StoryViewerEntry {
+  user: StoryInsightUser;
+  viewed_at: string;
+}
+
+export interface StoryReactionGroup {
+  reaction: string;
+  count: number;
+  users: StoryInsightUser[];
+}
+
+export interface StoryReplyEntry {
+  id: string;
+  user: StoryInsightUser;
+  content: string;
+  chat_id?: string;
+  created_at: string;
+}
+
+export interface StoryInsights {
+  story_id: string;
+  views: StoryViewerEntry[];
+  reactions: StoryReactionGroup[];
+  replies: StoryReplyEntry[];
+}
+
+export interface StoryHighlight {
+  id: string;
+  user_id: string;
+  title: string;
+  cover_url?: string;
+  story_ids: string[];
+  stories: Story[];
+  created_at: string;
+  updated_at: string;
+}